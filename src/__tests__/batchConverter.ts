@@ -0,0 +1,113 @@
+/**
+ * 批量转换测试
+ * 目录中的 Markdown 批量转为 HTML：镜像目录结构、增量跳过、强制重转与失败汇总
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { batchConvert } from '../tools/batchConverter';
+import { convertMarkdownToHtml } from '../tools/markdownToHtmlConverter';
+
+describe('batchConvert', () => {
+  let workDir: string;
+  let sourceDir: string;
+  let outputDir: string;
+
+  // 与 index.ts 中的 convertBatchFile 一致：Markdown 经专用转换器生成独立 HTML
+  async function markdownToHtmlFile(inputPath: string, outputPath: string) {
+    const result = await convertMarkdownToHtml(inputPath, { theme: 'github', standalone: true });
+    if (!result.success) return { success: false, error: result.error };
+    await fs.writeFile(outputPath, result.content!, 'utf-8');
+    return { success: true };
+  }
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'batch-converter-'));
+    sourceDir = path.join(workDir, 'docs');
+    outputDir = path.join(workDir, 'out');
+    await fs.mkdir(path.join(sourceDir, 'guide'), { recursive: true });
+    await fs.mkdir(path.join(sourceDir, 'node_modules', 'pkg'), { recursive: true });
+    await fs.writeFile(path.join(sourceDir, 'intro.md'), '# Intro\n\nHello **batch**.\n');
+    await fs.writeFile(path.join(sourceDir, 'guide', 'setup.md'), '# Setup\n\n- one\n- two\n');
+    await fs.writeFile(path.join(sourceDir, 'node_modules', 'pkg', 'README.md'), '# Ignored\n');
+    await fs.writeFile(path.join(sourceDir, 'notes.txt'), 'not selected');
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('转换目录中的 Markdown 并镜像目录结构，忽略 node_modules', async () => {
+    const result = await batchConvert(sourceDir, markdownToHtmlFile, {
+      targetFormat: 'html',
+      outputDir,
+      extensions: ['.md'],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result).toMatchObject({ total: 2, converted: 2, skipped: 0, failed: 0 });
+    expect(result.manifest.map(item => path.relative(outputDir, item.outputPath))).toEqual([
+      path.join('guide', 'setup.html'),
+      'intro.html',
+    ]);
+
+    const intro = await fs.readFile(path.join(outputDir, 'intro.html'), 'utf-8');
+    expect(intro).toMatch(/<h1[^>]*>Intro<\/h1>/);
+    expect(intro).toContain('<strong>batch</strong>');
+    const setup = await fs.readFile(path.join(outputDir, 'guide', 'setup.html'), 'utf-8');
+    expect(setup).toMatch(/<li>one<\/li>/);
+    await expect(fs.stat(path.join(outputDir, 'node_modules'))).rejects.toThrow();
+  });
+
+  it('再次运行时跳过输出比输入新的文件，force 时全部重转', async () => {
+    const later = new Date(Date.now() + 5000);
+    await fs.writeFile(path.join(sourceDir, 'intro.md'), '# Intro\n\nUpdated.\n');
+    await fs.utimes(path.join(sourceDir, 'intro.md'), later, later);
+
+    const incremental = await batchConvert(sourceDir, markdownToHtmlFile, {
+      targetFormat: 'html',
+      outputDir,
+      extensions: ['.md'],
+    });
+    expect(incremental).toMatchObject({ total: 2, converted: 1, skipped: 1, failed: 0 });
+    expect(incremental.manifest.find(item => item.status === 'skipped')!.inputPath).toBe(
+      path.join(sourceDir, 'guide', 'setup.md')
+    );
+    expect(await fs.readFile(path.join(outputDir, 'intro.html'), 'utf-8')).toContain('Updated.');
+
+    const forced = await batchConvert(sourceDir, markdownToHtmlFile, {
+      targetFormat: 'html',
+      outputDir,
+      extensions: ['.md'],
+      force: true,
+    });
+    expect(forced).toMatchObject({ converted: 2, skipped: 0 });
+  });
+
+  it('单个文件失败时记录错误并继续转换其余文件', async () => {
+    const failingDir = path.join(workDir, 'failing');
+    const result = await batchConvert(
+      sourceDir,
+      async (inputPath, outputPath) =>
+        inputPath.endsWith('intro.md')
+          ? { success: false, error: '无法解析' }
+          : await markdownToHtmlFile(inputPath, outputPath),
+      { targetFormat: 'html', outputDir: failingDir, extensions: ['.md'] }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result).toMatchObject({ converted: 1, failed: 1 });
+    expect(result.manifest.find(item => item.status === 'failed')!.error).toBe('无法解析');
+    await expect(fs.stat(path.join(failingDir, 'guide', 'setup.html'))).resolves.toBeTruthy();
+  });
+
+  it('拒绝不支持的目标格式', async () => {
+    const result = await batchConvert(sourceDir, markdownToHtmlFile, {
+      targetFormat: 'xyz',
+      outputDir,
+    });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('xyz');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * 图表渲染测试
+ * 内置 DOT 引擎输出 SVG/PNG，命令钩子接入外部引擎，Markdown 中的图表代码块转为图片
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { DiagramRenderer } from '../tools/diagramRenderer';
+import { convertMarkdownToHtml } from '../tools/markdownToHtmlConverter';
+import { convertMarkdownToDocx } from '../tools/markdownToDocxConverter';
+
+const DOT_SOURCE = 'digraph G { Start -> Review; Review -> Publish; }';
+
+describe('DiagramRenderer', () => {
+  let workDir: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'diagram-renderer-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('DOT 渲染为包含节点标签的 SVG', async () => {
+    const output = await new DiagramRenderer().render('graphviz', DOT_SOURCE, 'svg');
+
+    expect(output.format).toBe('svg');
+    const svg = output.data.toString('utf-8');
+    expect(svg).toContain('<svg');
+    for (const label of ['Start', 'Review', 'Publish']) {
+      expect(svg).toContain(`>${label}<`);
+    }
+    expect(output.width).toBeGreaterThan(0);
+    expect(output.height).toBeGreaterThan(0);
+  });
+
+  it('DOT 渲染为 PNG', async () => {
+    const output = await new DiagramRenderer().render('dot', DOT_SOURCE, 'png');
+
+    expect(output.format).toBe('png');
+    expect(output.data.subarray(1, 4).toString('ascii')).toBe('PNG');
+  });
+
+  it('通过命令钩子渲染其他图表语言', async () => {
+    const renderer = new DiagramRenderer();
+    expect(renderer.supports('mermaid')).toBe(false);
+    // 命令从 stdin 读取源码并原样输出到 stdout
+    renderer.registerCommand('mermaid', 'cat');
+
+    const html = await renderer.renderHtml(
+      'mermaid',
+      '<svg xmlns="http://www.w3.org/2000/svg" width="40" height="20"><text>A</text></svg>'
+    );
+
+    expect(html).toBe(
+      '<figure class="diagram diagram-mermaid"><svg xmlns="http://www.w3.org/2000/svg" width="40" height="20"><text>A</text></svg></figure>'
+    );
+  });
+
+  it('Markdown 中的 dot 代码块在 HTML 中内联为 SVG，在 DOCX 中嵌入为图片', async () => {
+    const sourceFile = path.join(workDir, 'flow.md');
+    await fs.writeFile(sourceFile, `# Flow\n\n\`\`\`dot\n${DOT_SOURCE}\n\`\`\`\n`, 'utf-8');
+
+    const html = await convertMarkdownToHtml(sourceFile, { renderDiagrams: true });
+    expect(html.content).toMatch(
+      /<figure class="diagram diagram-dot"><svg[\s\S]*>Publish<[\s\S]*<\/figure>/
+    );
+    expect(html.content).not.toContain('language-dot');
+
+    const docx = await convertMarkdownToDocx(sourceFile, {});
+    const zip = await JSZip.loadAsync(docx.content!);
+    expect(
+      Object.keys(zip.files).filter(name => name.startsWith('word/media/')).length
+    ).toBeGreaterThan(0);
+    const documentXml = await zip.file('word/document.xml')!.async('string');
+    expect(documentXml).toContain('<w:drawing>');
+    expect(documentXml).not.toContain('digraph');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * 文档比较测试
+ * 两个版本的 Markdown 按块和词比较，输出变更摘要、HTML 红线和带修订的 DOCX
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { compareDocuments } from '../tools/documentComparer';
+import { convertDocxToHtmlWithOOXML } from '../tools/ooxmlParser';
+
+const ORIGINAL = [
+  '# Contract',
+  '',
+  'The tenant pays 100 dollars monthly.',
+  '',
+  'This clause is removed.',
+  '',
+  '| Item | Price |',
+  '| --- | --- |',
+  '| Rent | 100 |',
+  '| Fee | 5 |',
+  '',
+  'Unchanged closing paragraph.',
+  '',
+].join('\n');
+
+const REVISED = [
+  '# Contract',
+  '',
+  'The tenant pays 120 dollars monthly.',
+  '',
+  '| Item | Price |',
+  '| --- | --- |',
+  '| Rent | 120 |',
+  '| Fee | 5 |',
+  '',
+  'Unchanged closing paragraph.',
+  '',
+  'A brand new clause.',
+  '',
+].join('\n');
+
+describe('compareDocuments', () => {
+  let workDir: string;
+  let originalFile: string;
+  let revisedFile: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'document-compare-'));
+    originalFile = path.join(workDir, 'v1.md');
+    revisedFile = path.join(workDir, 'v2.md');
+    await fs.writeFile(originalFile, ORIGINAL, 'utf-8');
+    await fs.writeFile(revisedFile, REVISED, 'utf-8');
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('Markdown 摘要按所在章节列出修改、删除、表格单元格和插入', async () => {
+    const result = await compareDocuments(originalFile, revisedFile, { format: 'markdown' });
+
+    expect(result.success).toBe(true);
+    expect(result.summary).toMatchObject({ unchanged: 2, modified: 2, inserted: 1, deleted: 1 });
+    const markdown = result.content as string;
+    expect(markdown).toContain('# Document comparison: v1.md → v2.md');
+    expect(markdown).toContain(
+      '### 1. Modified paragraph (in “Contract”)\n\nThe tenant pays ~~100~~**120** dollars monthly.'
+    );
+    expect(markdown).toContain(
+      '### 2. Deleted paragraph (in “Contract”)\n\n~~This clause is removed.~~'
+    );
+    expect(markdown).toContain('- Row 2: Rent | ~~100~~**120**');
+    expect(markdown).toContain('**A brand new clause.**');
+    expect(markdown).not.toContain('Unchanged closing paragraph');
+  });
+
+  it('HTML 红线在修订版上标出删除与插入', async () => {
+    const result = await compareDocuments(originalFile, revisedFile);
+
+    expect(result.success).toBe(true);
+    const html = result.content as string;
+    expect(html).toContain(
+      '<p class="block-modified">The tenant pays <del>100</del><ins>120</ins> dollars monthly.</p>'
+    );
+    expect(html).toContain('<p class="block-deleted"><del>This clause is removed.</del></p>');
+    expect(html).toContain('<tr><td>Rent</td><td><del>100</del><ins>120</ins></td></tr>');
+    expect(html).toContain('<p class="block-inserted"><ins>A brand new clause.</ins></p>');
+    expect(html).toContain('<p>Unchanged closing paragraph.</p>');
+  });
+
+  it('DOCX 修订全部接受得到修订版，全部拒绝得到原始版', async () => {
+    const result = await compareDocuments(originalFile, revisedFile, {
+      format: 'docx',
+      author: 'Reviewer',
+      date: '2024-01-01T00:00:00Z',
+    });
+    expect(result.success).toBe(true);
+
+    const docxFile = path.join(workDir, 'compare.docx');
+    await fs.writeFile(docxFile, result.content as Buffer);
+    const document = await (
+      await JSZip.loadAsync(result.content as Buffer)
+    )
+      .file('word/document.xml')!
+      .async('string');
+    expect(document).toContain(
+      '<w:del w:id="1" w:author="Reviewer" w:date="2024-01-01T00:00:00Z"><w:r><w:delText xml:space="preserve">100</w:delText>'
+    );
+
+    const bodyText = (html: string) =>
+      html
+        .replace(/[\s\S]*<body[^>]*>/, '')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+    const accepted = bodyText(
+      (await convertDocxToHtmlWithOOXML(docxFile, { revisionMode: 'accept' })).content
+    );
+    const rejected = bodyText(
+      (await convertDocxToHtmlWithOOXML(docxFile, { revisionMode: 'reject' })).content
+    );
+
+    expect(accepted).toContain('The tenant pays 120 dollars monthly.');
+    expect(accepted).toContain('Rent 120');
+    expect(accepted).toContain('A brand new clause.');
+    expect(accepted).not.toContain('This clause is removed.');
+
+    expect(rejected).toContain('The tenant pays 100 dollars monthly.');
+    expect(rejected).toContain('This clause is removed.');
+    expect(rejected).toContain('Rent 100');
+    expect(rejected).not.toContain('A brand new clause.');
+  });
+});
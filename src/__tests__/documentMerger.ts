@@ -0,0 +1,155 @@
+/**
+ * 文档合并测试
+ * Markdown 拼接时重写相对链接，Markdown 先转为 DOCX 后按节合并，PDF 按顺序复制页面
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { PDFDocument } from 'pdf-lib';
+import { mergeDocuments, MergeFormat } from '../tools/documentMerger';
+import { convertMarkdownToDocx } from '../tools/markdownToDocxConverter';
+
+// 1×1 像素的 PNG
+const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+describe('mergeDocuments', () => {
+  let workDir: string;
+  let tempCount = 0;
+
+  // 与 index.ts 相同的调用约定：格式不同的输入先转换为输出格式
+  async function convert(inputPath: string, outputPath: string, targetFormat: MergeFormat) {
+    if (targetFormat !== 'docx') return { success: false, error: `不支持 ${targetFormat}` };
+    const result = await convertMarkdownToDocx(inputPath, {});
+    if (!result.success) return result;
+    await fs.writeFile(outputPath, result.content!);
+    return { success: true };
+  }
+
+  const tempPath = (prefix: string, extension: string) =>
+    path.join(workDir, `${prefix}_${tempCount++}${extension}`);
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'document-merger-'));
+    await fs.mkdir(path.join(workDir, 'chapters'));
+    await fs.writeFile(
+      path.join(workDir, 'intro.md'),
+      '# Alpha\n\nFirst document.\n\n- one\n- two\n'
+    );
+    await fs.writeFile(
+      path.join(workDir, 'chapters', 'beta.md'),
+      '# Beta\n\nSee ![pic](pixel.png) and [details](notes.md#top).\n\n1. x\n2. y\n'
+    );
+    await fs.writeFile(path.join(workDir, 'chapters', 'pixel.png'), PIXEL_PNG);
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('合并 Markdown 时相对链接改为相对输出文件，去掉 front matter', async () => {
+    const frontMatterFile = path.join(workDir, 'chapters', 'gamma.md');
+    await fs.writeFile(frontMatterFile, '---\ntitle: Gamma\n---\n# Gamma\n\nLast.\n');
+    const outputPath = path.join(workDir, 'all.md');
+
+    const result = await mergeDocuments(
+      [path.join(workDir, 'intro.md'), path.join(workDir, 'chapters', 'beta.md'), frontMatterFile],
+      convert,
+      { outputPath, tempPath }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.metadata!.inputs.map(input => input.converted)).toEqual([false, false, false]);
+    expect(await fs.readFile(outputPath, 'utf-8')).toBe(
+      [
+        '# Alpha',
+        '',
+        'First document.',
+        '',
+        '- one',
+        '- two',
+        '',
+        '# Beta',
+        '',
+        'See ![pic](chapters/pixel.png) and [details](chapters/notes.md#top).',
+        '',
+        '1. x',
+        '2. y',
+        '',
+        '# Gamma',
+        '',
+        'Last.',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('Markdown 先转为 DOCX，每个文档成为一节并复制图片和列表编号', async () => {
+    const outputPath = path.join(workDir, 'all.docx');
+
+    const result = await mergeDocuments(
+      [path.join(workDir, 'intro.md'), path.join(workDir, 'chapters', 'beta.md')],
+      convert,
+      { outputPath, tempPath }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.metadata!.inputs.map(input => input.converted)).toEqual([true, true]);
+    expect(result.metadata!.docx).toMatchObject({ sections: 2, numberingDefinitions: 2 });
+
+    const zip = await JSZip.loadAsync(await fs.readFile(outputPath));
+    const document = await zip.file('word/document.xml')!.async('string');
+    const texts = (document.match(/<w:t(?: [^>]*)?>[^<]*<\/w:t>/g) ?? []).map(t =>
+      t.replace(/<[^>]+>/g, '')
+    );
+    expect(texts.indexOf('Alpha')).toBeLessThan(texts.indexOf('Beta'));
+    expect(texts).toEqual(expect.arrayContaining(['First document.', 'one', 'x', 'y']));
+    expect(document.match(/<w:sectPr[ >]/g)).toHaveLength(2);
+
+    // 两个来源的列表引用不同的编号实例
+    const numIds = new Set(Array.from(document.matchAll(/<w:numId w:val="(\d+)"\/>/g), m => m[1]));
+    expect(numIds.size).toBe(2);
+
+    const embed = document.match(/<a:blip r:embed="([^"]+)"/)![1];
+    const rels = await zip.file('word/_rels/document.xml.rels')!.async('string');
+    const target = rels.match(new RegExp(`Id="${embed}"[^>]*Target="([^"]+)"`))![1];
+    expect(await zip.file(`word/${target}`)!.async('nodebuffer')).toEqual(PIXEL_PNG);
+  });
+
+  it('PDF 按输入顺序复制页面并记录每个文档的页码范围', async () => {
+    const inputs: string[] = [];
+    for (const [name, size] of [
+      ['first', [200, 300]],
+      ['second', [400, 500]],
+    ] as const) {
+      const pdf = await PDFDocument.create();
+      for (let i = 0; i < (name === 'first' ? 2 : 3); i++) pdf.addPage([...size]);
+      const file = path.join(workDir, `${name}.pdf`);
+      await fs.writeFile(file, await pdf.save());
+      inputs.push(file);
+    }
+    const outputPath = path.join(workDir, 'all.pdf');
+
+    const result = await mergeDocuments(inputs, convert, { outputPath, tempPath });
+
+    expect(result.success).toBe(true);
+    expect(result.metadata!.pageCount).toBe(5);
+    expect(result.metadata!.inputs.map(input => input.pages)).toEqual(['1-2', '3-5']);
+    const merged = await PDFDocument.load(await fs.readFile(outputPath));
+    expect(merged.getPages().map(page => page.getWidth())).toEqual([200, 200, 400, 400, 400]);
+  });
+
+  it('无法转换的输入返回错误', async () => {
+    const result = await mergeDocuments([path.join(workDir, 'intro.md')], convert, {
+      outputPath: path.join(workDir, 'broken.pdf'),
+      tempPath,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('intro.md');
+  });
+});
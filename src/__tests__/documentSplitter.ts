@@ -0,0 +1,140 @@
+/**
+ * 文档拆分测试
+ * DOCX 与 Markdown 按标题拆分，PDF 按页码范围拆分
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { PDFDocument } from 'pdf-lib';
+import { splitDocument } from '../tools/documentSplitter';
+import { convertMarkdownToDocx } from '../tools/markdownToDocxConverter';
+
+// 1×1 像素的 PNG
+const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+const BOOK = [
+  'Preface text.',
+  '',
+  '# Alpha',
+  '',
+  'First chapter.',
+  '',
+  '## Alpha details',
+  '',
+  'Nested section.',
+  '',
+  '# Beta',
+  '',
+  '![pic](pixel.png)',
+  '',
+  'Second chapter with a [reference][ref].',
+  '',
+  '```',
+  '# not a heading',
+  '```',
+  '',
+  '[ref]: https://example.com',
+  '',
+].join('\n');
+
+describe('splitDocument', () => {
+  let workDir: string;
+  let markdownFile: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'document-splitter-'));
+    markdownFile = path.join(workDir, 'book.md');
+    await fs.writeFile(markdownFile, BOOK, 'utf-8');
+    await fs.writeFile(path.join(workDir, 'pixel.png'), PIXEL_PNG);
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('Markdown 在一级标题处拆分，忽略代码块中的 #，链接定义复制到引用它的部分', async () => {
+    const outputDir = path.join(workDir, 'markdown-parts');
+
+    const result = await splitDocument(markdownFile, { outputDir });
+
+    expect(result.success).toBe(true);
+    const titles = result.parts!.map(part => part.title);
+    expect(titles.slice(-2)).toEqual(['Alpha', 'Beta']);
+    const beta = await fs.readFile(result.parts![result.parts!.length - 1].outputPath, 'utf-8');
+    expect(beta).toMatch(/^# Beta\n/);
+    expect(beta).toContain('# not a heading');
+    expect(beta).toContain('[ref]: https://example.com');
+    expect(beta).toContain('![pic](../pixel.png)');
+    const alpha = await fs.readFile(result.parts![result.parts!.length - 2].outputPath, 'utf-8');
+    expect(alpha).toContain('## Alpha details');
+    expect(alpha).not.toContain('Second chapter');
+  });
+
+  it('DOCX 按标题拆分，各部分只保留实际引用的图片', async () => {
+    const docx = await convertMarkdownToDocx(markdownFile, {});
+    const docxFile = path.join(workDir, 'book.docx');
+    await fs.writeFile(docxFile, docx.content!);
+    const outputDir = path.join(workDir, 'docx-parts');
+
+    const result = await splitDocument(docxFile, { outputDir, level: 2 });
+
+    expect(result.success).toBe(true);
+    expect(result.parts!.map(part => part.title).slice(-3)).toEqual([
+      'Alpha',
+      'Alpha details',
+      'Beta',
+    ]);
+
+    const read = async (file: string) => {
+      const zip = await JSZip.loadAsync(await fs.readFile(file));
+      const document = await zip.file('word/document.xml')!.async('string');
+      const media = Object.keys(zip.files).filter(
+        name => name.startsWith('word/media/') && !zip.files[name].dir
+      );
+      return { zip, document, media };
+    };
+    const parts = result.parts!.slice(-3);
+    const alpha = await read(parts[0].outputPath);
+    expect(alpha.document).toContain('First chapter.');
+    expect(alpha.document).not.toContain('Nested section.');
+    expect(alpha.media).toEqual([]);
+    expect(alpha.zip.file('word/styles.xml')).not.toBeNull();
+
+    const beta = await read(parts[2].outputPath);
+    expect(beta.document).toContain('Second chapter with a');
+    expect(beta.media).toHaveLength(1);
+    expect(await beta.zip.file(beta.media[0])!.async('nodebuffer')).toEqual(PIXEL_PNG);
+  });
+
+  it('PDF 按页码范围拆分，开放范围到最后一页', async () => {
+    const pdf = await PDFDocument.create();
+    for (let i = 1; i <= 5; i++) pdf.addPage([100 * i, 100]);
+    const pdfFile = path.join(workDir, 'scan.pdf');
+    await fs.writeFile(pdfFile, await pdf.save());
+
+    const result = await splitDocument(pdfFile, {
+      outputDir: path.join(workDir, 'pdf-parts'),
+      mode: 'pages',
+      pages: '1-2,4-',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.parts!.map(part => part.pages)).toEqual(['1-2', '4-5']);
+    const widths = await Promise.all(
+      result.parts!.map(async part =>
+        (await PDFDocument.load(await fs.readFile(part.outputPath)))
+          .getPages()
+          .map(page => page.getWidth())
+      )
+    );
+    expect(widths).toEqual([
+      [100, 200],
+      [400, 500],
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * DOCX 页眉页脚测试
+ * 页眉页脚只用于 HTML/PDF 的打印版面，转为 Markdown 和纯文本时不应混入正文
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import JSZip from 'jszip';
+
+const ROOT = path.resolve(__dirname, '..', '..');
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+const R_NS = 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// 带页眉和含页码域页脚的最小 DOCX
+async function createDocx(filePath: string): Promise<void> {
+  const zip = new JSZip();
+  zip.file(
+    '[Content_Types].xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>
+  <Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>
+</Types>`
+  );
+  zip.file(
+    '_rels/.rels',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="word/document.xml"/>
+</Relationships>`
+  );
+  zip.file(
+    'word/_rels/document.xml.rels',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${REL_NS}/header" Target="header1.xml"/>
+  <Relationship Id="rId2" Type="${REL_NS}/footer" Target="footer1.xml"/>
+</Relationships>`
+  );
+  zip.file(
+    'word/document.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<w:document ${W_NS} ${R_NS}><w:body>
+  <w:p><w:r><w:t>Quarterly report body.</w:t></w:r></w:p>
+  <w:sectPr>
+    <w:headerReference w:type="default" r:id="rId1"/>
+    <w:footerReference w:type="default" r:id="rId2"/>
+  </w:sectPr>
+</w:body></w:document>`
+  );
+  zip.file(
+    'word/header1.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<w:hdr ${W_NS}><w:p><w:r><w:t>Acme Corporation</w:t></w:r></w:p></w:hdr>`
+  );
+  zip.file(
+    'word/footer1.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<w:ftr ${W_NS}><w:p>
+  <w:r><w:t xml:space="preserve">Confidential - Page </w:t></w:r>
+  <w:fldSimple w:instr=" PAGE "><w:r><w:t>1</w:t></w:r></w:fldSimple>
+  <w:r><w:t xml:space="preserve"> of </w:t></w:r>
+  <w:fldSimple w:instr=" NUMPAGES "><w:r><w:t>1</w:t></w:r></w:fldSimple>
+</w:p></w:ftr>`
+  );
+  await fs.writeFile(filePath, await zip.generateAsync({ type: 'nodebuffer' }));
+}
+
+describe('DOCX 页眉页脚', () => {
+  let workDir: string;
+  let sourceFile: string;
+  let client: Client;
+
+  const callTool = async (name: string, args: Record<string, unknown>) => {
+    const response: any = await client.callTool({ name, arguments: args }, undefined, {
+      timeout: 120000,
+    });
+    return JSON.parse(response.content[0].text);
+  };
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'docx-header-footer-'));
+    sourceFile = path.join(workDir, 'report.docx');
+    await createDocx(sourceFile);
+    client = new Client({ name: 'docx-header-footer-test', version: '1.0.0' });
+    await client.connect(
+      new StdioClientTransport({
+        command: process.execPath,
+        args: [
+          '-r',
+          require.resolve('ts-node/register/transpile-only'),
+          path.join(ROOT, 'src', 'index.ts'),
+        ],
+        cwd: workDir,
+        env: {
+          ...(process.env as Record<string, string>),
+          OUTPUT_DIR: workDir,
+          TS_NODE_PROJECT: path.join(ROOT, 'tsconfig.json'),
+          TS_NODE_COMPILER_OPTIONS: JSON.stringify({
+            module: 'commonjs',
+            moduleResolution: 'node',
+          }),
+        },
+        stderr: 'ignore',
+      })
+    );
+  }, 120000);
+
+  afterAll(async () => {
+    await client?.close();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('HTML 输出保留页眉页脚', async () => {
+    const result = await callTool('convert_document', {
+      inputPath: sourceFile,
+      targetFormat: 'html',
+    });
+
+    expect(result.success).toBe(true);
+    const html = await fs.readFile(result.outputPath, 'utf-8');
+    expect(html).toContain('class="docx-header"');
+    expect(html).toContain('Acme Corporation');
+  }, 120000);
+
+  it.each(['md', 'txt'])(
+    '转为 %s 时不输出页眉页脚',
+    async targetFormat => {
+      const result = await callTool('convert_document', { inputPath: sourceFile, targetFormat });
+
+      expect(result.success).toBe(true);
+      const content = await fs.readFile(result.outputPath, 'utf-8');
+      expect(content).toContain('Quarterly report body.');
+      expect(content).not.toContain('Acme Corporation');
+      expect(content).not.toContain('Confidential');
+    },
+    120000
+  );
+
+  it.each(['epub', 'odt'])(
+    '转为 %s 时不输出页眉页脚',
+    async targetFormat => {
+      const result = await callTool('convert_document', { inputPath: sourceFile, targetFormat });
+
+      expect(result.success).toBe(true);
+      const zip = await JSZip.loadAsync(await fs.readFile(result.outputPath));
+      const parts: string[] = await Promise.all(
+        Object.keys(zip.files)
+          .filter(name => /\.(xhtml|xml)$/.test(name))
+          .map(name => zip.file(name)!.async('string'))
+      );
+      const content = parts.join('\n');
+      expect(content).toContain('Quarterly report body.');
+      expect(content).not.toContain('Acme Corporation');
+      expect(content).not.toContain('Confidential');
+    },
+    120000
+  );
+
+  it('按修订模式读取纯文本时不输出页眉页脚', async () => {
+    const result = await callTool('read_document', {
+      filePath: sourceFile,
+      revisionMode: 'accept',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.content).toContain('Quarterly report body.');
+    expect(result.content).not.toContain('Acme Corporation');
+    expect(result.content).not.toContain('Confidential');
+  }, 120000);
+});
@@ -0,0 +1,137 @@
+/**
+ * DOCX 列表编号测试
+ * 有序、嵌套与任务列表使用 Word 多级编号：起始值、各级格式和独立列表重新编号
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { convertMarkdownToDocx } from '../tools/markdownToDocxConverter';
+import { EnhancedHtmlToDocxConverter } from '../tools/enhancedHtmlToDocxConverter';
+
+interface ListParagraph {
+  text: string;
+  level: number;
+  numId: string;
+}
+
+interface LevelDefinition {
+  start: string;
+  format: string;
+  text: string;
+}
+
+// 读取正文中的列表段落和 numbering.xml 中 numId 对应的各级定义
+async function readLists(buffer: Buffer) {
+  const zip = await JSZip.loadAsync(buffer);
+  const document = await zip.file('word/document.xml')!.async('string');
+  const numbering = await zip.file('word/numbering.xml')!.async('string');
+
+  const paragraphs: ListParagraph[] = [];
+  for (const p of document.match(/<w:p>[\s\S]*?<\/w:p>/g) ?? []) {
+    const numPr = p.match(/<w:ilvl w:val="(\d+)"\/><w:numId w:val="(\d+)"\/>/);
+    if (!numPr) continue;
+    const text = (p.match(/<w:t(?: [^>]*)?>[^<]*<\/w:t>/g) ?? [])
+      .map(t => t.replace(/<[^>]+>/g, ''))
+      .join('');
+    paragraphs.push({ text, level: Number(numPr[1]), numId: numPr[2] });
+  }
+
+  const abstracts = new Map<string, string>();
+  for (const abstract of numbering.match(/<w:abstractNum [\s\S]*?<\/w:abstractNum>/g) ?? []) {
+    abstracts.set(abstract.match(/w:abstractNumId="(\d+)"/)![1], abstract);
+  }
+  const levels = (numId: string, level: number): LevelDefinition => {
+    const num = numbering.match(
+      new RegExp(`<w:num w:numId="${numId}"[^>]*><w:abstractNumId w:val="(\\d+)"/>`)
+    )!;
+    const lvl = abstracts
+      .get(num[1])!
+      .match(new RegExp(`<w:lvl w:ilvl="${level}"[^>]*>[\\s\\S]*?</w:lvl>`))![0];
+    return {
+      start: lvl.match(/<w:start w:val="(\d+)"\/>/)![1],
+      format: lvl.match(/<w:numFmt w:val="([^"]+)"\/>/)![1],
+      text: lvl.match(/<w:lvlText w:val="([^"]*)"\/>/)?.[1] ?? '',
+    };
+  };
+  return { paragraphs, levels };
+}
+
+describe('DOCX 列表编号', () => {
+  let workDir: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'docx-numbering-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('Markdown 列表：保留起始值与嵌套层级，独立列表各自编号，任务项显示复选框', async () => {
+    const sourceFile = path.join(workDir, 'lists.md');
+    await fs.writeFile(
+      sourceFile,
+      [
+        '3. Three',
+        '4. Four',
+        '    - Sub bullet',
+        '        1. Deep',
+        '',
+        'Between.',
+        '',
+        '1. Again',
+        '',
+        '- [x] Done',
+        '- [ ] Todo',
+        '',
+      ].join('\n'),
+      'utf-8'
+    );
+    const result = await convertMarkdownToDocx(sourceFile, {});
+    expect(result.success).toBe(true);
+
+    const { paragraphs, levels } = await readLists(result.content!);
+    expect(paragraphs.map(p => [p.text, p.level])).toEqual([
+      ['Three', 0],
+      ['Four', 0],
+      ['Sub bullet', 1],
+      ['Deep', 2],
+      ['Again', 0],
+      ['☑ Done', 0],
+      ['☐ Todo', 0],
+    ]);
+
+    const [first, , , , again, done, todo] = paragraphs;
+    expect(paragraphs.slice(1, 4).every(p => p.numId === first.numId)).toBe(true);
+    expect(levels(first.numId, 0)).toEqual({ start: '3', format: 'decimal', text: '%1.' });
+    expect(levels(first.numId, 1)).toMatchObject({ format: 'bullet', text: '◦' });
+    expect(levels(first.numId, 2)).toEqual({ start: '1', format: 'decimal', text: '%3.' });
+
+    // 段落隔开的有序列表重新从 1 开始
+    expect(again.numId).not.toBe(first.numId);
+    expect(levels(again.numId, 0)).toMatchObject({ start: '1', format: 'decimal' });
+
+    expect(todo.numId).toBe(done.numId);
+    expect(levels(done.numId, 0)).toMatchObject({ format: 'none', text: '' });
+  });
+
+  it('HTML 列表：type 属性与 list-style-type 决定编号格式', async () => {
+    const buffer = await new EnhancedHtmlToDocxConverter().convertHtmlToDocx(`<html><body>
+      <ol type="a" start="2"><li>Bee<ol style="list-style-type: upper-roman"><li>One</li></ol></li></ol>
+      <ul style="list-style-type: square"><li>Box</li></ul>
+    </body></html>`);
+
+    const { paragraphs, levels } = await readLists(buffer);
+    expect(paragraphs.map(p => [p.text, p.level])).toEqual([
+      ['Bee', 0],
+      ['One', 1],
+      ['Box', 0],
+    ]);
+    const [bee, , box] = paragraphs;
+    expect(levels(bee.numId, 0)).toEqual({ start: '2', format: 'lowerLetter', text: '%1.' });
+    expect(levels(bee.numId, 1)).toMatchObject({ format: 'upperRoman', text: '%2.' });
+    expect(levels(box.numId, 0)).toMatchObject({ format: 'bullet' });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * DOCX 修订与批注测试
+ * 按 accept/reject/markup 三种模式处理插入和删除，提取批注、回复与解决状态
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { convertDocxToHtmlWithOOXML, extractDocxComments } from '../tools/ooxmlParser';
+
+const W_NS =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:w14="http://schemas.microsoft.com/office/word/2010/wordml" xmlns:w15="http://schemas.microsoft.com/office/word/2012/wordml"';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// 含一处插入、一处删除和一条带回复批注的最小 DOCX
+async function createDocx(filePath: string): Promise<void> {
+  const zip = new JSZip();
+  zip.file(
+    '[Content_Types].xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/comments.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml"/>
+  <Override PartName="/word/commentsExtended.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.commentsExtended+xml"/>
+</Types>`
+  );
+  zip.file(
+    '_rels/.rels',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="word/document.xml"/>
+</Relationships>`
+  );
+  zip.file(
+    'word/_rels/document.xml.rels',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${REL_NS}/comments" Target="comments.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.microsoft.com/office/2011/relationships/commentsExtended" Target="commentsExtended.xml"/>
+</Relationships>`
+  );
+  zip.file(
+    'word/document.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<w:document ${W_NS}><w:body>
+  <w:p>
+    <w:r><w:t xml:space="preserve">The </w:t></w:r>
+    <w:ins w:id="1" w:author="Alice" w:date="2024-03-01T10:00:00Z"><w:r><w:t xml:space="preserve">quick </w:t></w:r></w:ins>
+    <w:del w:id="2" w:author="Bob" w:date="2024-03-02T10:00:00Z"><w:r><w:delText xml:space="preserve">slow </w:delText></w:r></w:del>
+    <w:commentRangeStart w:id="0"/>
+    <w:r><w:t>fox</w:t></w:r>
+    <w:commentRangeEnd w:id="0"/>
+    <w:r><w:commentReference w:id="0"/></w:r>
+    <w:r><w:t xml:space="preserve"> jumps.</w:t></w:r>
+  </w:p>
+</w:body></w:document>`
+  );
+  zip.file(
+    'word/comments.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<w:comments ${W_NS}>
+  <w:comment w:id="0" w:author="Carol" w:initials="C" w:date="2024-03-03T10:00:00Z">
+    <w:p w14:paraId="00000001"><w:r><w:t>Which fox?</w:t></w:r></w:p>
+  </w:comment>
+  <w:comment w:id="1" w:author="Alice" w:initials="A" w:date="2024-03-04T10:00:00Z">
+    <w:p w14:paraId="00000002"><w:r><w:t>The red one.</w:t></w:r></w:p>
+  </w:comment>
+</w:comments>`
+  );
+  zip.file(
+    'word/commentsExtended.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<w15:commentsEx ${W_NS}>
+  <w15:commentEx w15:paraId="00000001" w15:done="1"/>
+  <w15:commentEx w15:paraId="00000002" w15:paraIdParent="00000001" w15:done="0"/>
+</w15:commentsEx>`
+  );
+  await fs.writeFile(filePath, await zip.generateAsync({ type: 'nodebuffer' }));
+}
+
+describe('DOCX 修订与批注', () => {
+  let workDir: string;
+  let sourceFile: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'docx-revisions-'));
+    sourceFile = path.join(workDir, 'review.docx');
+    await createDocx(sourceFile);
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  const bodyText = (html: string) =>
+    html
+      .replace(/[\s\S]*<body[^>]*>/, '')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+  it('accept 模式保留插入、去掉删除', async () => {
+    const result = await convertDocxToHtmlWithOOXML(sourceFile, { revisionMode: 'accept' });
+
+    expect(result.success).toBe(true);
+    expect(bodyText(result.content)).toContain('The quick fox jumps.');
+    expect(bodyText(result.content)).not.toContain('slow');
+  });
+
+  it('reject 模式去掉插入、恢复删除', async () => {
+    const result = await convertDocxToHtmlWithOOXML(sourceFile, { revisionMode: 'reject' });
+
+    expect(bodyText(result.content)).toContain('The slow fox jumps.');
+    expect(bodyText(result.content)).not.toContain('quick');
+  });
+
+  it('markup 模式用 <ins>/<del> 标出修订及作者', async () => {
+    const result = await convertDocxToHtmlWithOOXML(sourceFile, { revisionMode: 'markup' });
+
+    expect(result.content).toMatch(/<ins [^>]*data-author="Alice"[^>]*>quick <\/ins>/);
+    expect(result.content).toMatch(/<del [^>]*data-author="Bob"[^>]*>slow <\/del>/);
+  });
+
+  it('提取批注的锚定文本、回复与解决状态', async () => {
+    const comments = await extractDocxComments(sourceFile);
+
+    expect(comments).toHaveLength(1);
+    expect(comments[0]).toMatchObject({
+      author: 'Carol',
+      text: 'Which fox?',
+      anchoredText: 'fox',
+      resolved: true,
+    });
+    expect(comments[0].replies).toHaveLength(1);
+    expect(comments[0].replies[0]).toMatchObject({
+      author: 'Alice',
+      text: 'The red one.',
+      anchoredText: 'fox',
+      resolved: false,
+    });
+  });
+});
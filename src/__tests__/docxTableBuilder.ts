@@ -0,0 +1,69 @@
+/**
+ * HTML 表格转 DOCX 测试
+ * 合并单元格、CSS 列宽、背景色与重复标题行
+ */
+
+import JSZip from 'jszip';
+import { EnhancedHtmlToDocxConverter } from '../tools/enhancedHtmlToDocxConverter';
+
+async function tableXml(html: string): Promise<string> {
+  const buffer = await new EnhancedHtmlToDocxConverter().convertHtmlToDocx(html);
+  const zip = await JSZip.loadAsync(buffer);
+  const xml = await zip.file('word/document.xml')!.async('string');
+  const start = xml.indexOf('<w:tbl>');
+  expect(start).toBeGreaterThanOrEqual(0);
+  return xml.slice(start, xml.indexOf('</w:tbl>', start) + '</w:tbl>'.length);
+}
+
+function rowsOf(table: string): string[] {
+  return table.match(/<w:tr>[\s\S]*?<\/w:tr>/g) ?? [];
+}
+
+describe('HTML 表格转 DOCX', () => {
+  it('rowspan/colspan 转为纵向合并与 gridSpan，thead 作为重复标题行', async () => {
+    const table = await tableXml(`<html><head><style>
+      td.hl { background-color: #ffeeaa; }
+    </style></head><body>
+    <table style="width: 600px">
+      <thead><tr><th style="width: 200px">Name</th><th colspan="2">Details</th></tr></thead>
+      <tbody>
+        <tr><td rowspan="2" class="hl">Merged</td><td>a1</td><td>b1</td></tr>
+        <tr><td>a2</td><td>b2</td></tr>
+      </tbody>
+    </table></body></html>`);
+
+    expect(table).toContain('<w:tblW w:type="dxa" w:w="9000"/>');
+    expect(table).toContain('<w:tblLayout w:type="fixed"/>');
+    expect(table.match(/<w:gridCol w:w="(\d+)"\/>/g)).toEqual([
+      '<w:gridCol w:w="3000"/>',
+      '<w:gridCol w:w="3000"/>',
+      '<w:gridCol w:w="3000"/>',
+    ]);
+
+    const [header, first, second] = rowsOf(table);
+    expect(header).toContain('<w:tblHeader/>');
+    expect(header).toContain('<w:gridSpan w:val="2"/>');
+    expect(first).not.toContain('<w:tblHeader/>');
+    expect(first).toMatch(
+      /<w:vMerge w:val="restart"\/><w:shd w:fill="FFEEAA"[^>]*\/>[\s\S]*?Merged/
+    );
+    expect(second).toContain('<w:vMerge w:val="continue"/>');
+    expect(second.match(/<w:tc>/g)).toHaveLength(3);
+    expect(second).toContain('>a2</w:t>');
+  });
+
+  it('没有 thead 时开头整行 th 作为标题行，不齐整的行补齐空单元格', async () => {
+    const table = await tableXml(`<html><body>
+    <table>
+      <tr><th>A</th><th>B</th><th>C</th></tr>
+      <tr><td>1</td></tr>
+      <tr><th>Not a header</th><td>2</td><td>3</td></tr>
+    </table></body></html>`);
+
+    const rows = rowsOf(table);
+    expect(rows).toHaveLength(3);
+    expect(rows.map(row => row.includes('<w:tblHeader/>'))).toEqual([true, false, false]);
+    expect(rows.map(row => row.match(/<w:tc>/g)!.length)).toEqual([3, 3, 3]);
+    expect(table.match(/<w:gridCol /g)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * DOCX 模板填充测试
+ * 跨运行的占位符、表格行循环、条件块、图片占位符、页眉中的字段和缺失字段
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { fillDocxTemplate } from '../tools/docxTemplateFiller';
+
+const W_NS =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// 1×1 像素的 PNG
+const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+const paragraph = (text: string) => `<w:p><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+const row = (...cells: string[]) =>
+  `<w:tr>${cells.map(cell => `<w:tc>${paragraph(cell)}</w:tc>`).join('')}</w:tr>`;
+
+async function createTemplate(filePath: string): Promise<void> {
+  const zip = new JSZip();
+  zip.file(
+    '[Content_Types].xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>
+</Types>`
+  );
+  zip.file(
+    '_rels/.rels',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="word/document.xml"/>
+</Relationships>`
+  );
+  zip.file(
+    'word/_rels/document.xml.rels',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${REL_NS}/header" Target="header1.xml"/>
+</Relationships>`
+  );
+  zip.file(
+    'word/header1.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<w:hdr ${W_NS}>${paragraph('Invoice {{number}}')}</w:hdr>`
+  );
+  // 称呼中的占位符被 Word 拆分到两个格式不同的运行中
+  zip.file(
+    'word/document.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<w:document ${W_NS}><w:body>
+  <w:p><w:r><w:t xml:space="preserve">Dear </w:t></w:r><w:r><w:rPr><w:b/></w:rPr><w:t>{{cus</w:t></w:r><w:r><w:t>tomer.name}},</w:t></w:r></w:p>
+  <w:tbl>
+    ${row('Item', 'Qty')}
+    ${row('{{#each items}}{{@number}}. {{name}}', '{{qty}}{{/each}}')}
+  </w:tbl>
+  ${paragraph('{{#if paid}}')}
+  ${paragraph('Paid in full.')}
+  ${paragraph('{{else}}')}
+  ${paragraph('Balance due: {{balance}}')}
+  ${paragraph('{{/if}}')}
+  ${paragraph('{{image logo}}')}
+  ${paragraph('Reference: {{reference}}')}
+  <w:sectPr><w:headerReference w:type="default" r:id="rId1"/><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440"/></w:sectPr>
+</w:body></w:document>`
+  );
+  await fs.writeFile(filePath, await zip.generateAsync({ type: 'nodebuffer' }));
+}
+
+function paragraphTexts(xml: string): string[] {
+  return (xml.match(/<w:p[ >][\s\S]*?<\/w:p>/g) ?? []).map(p =>
+    (p.match(/<w:t(?: [^>]*)?>[^<]*<\/w:t>/g) ?? [])
+      .map(t => t.replace(/<[^>]+>/g, '').replace(/&amp;/g, '&'))
+      .join('')
+  );
+}
+
+describe('fillDocxTemplate', () => {
+  let workDir: string;
+  let templateFile: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'docx-template-'));
+    templateFile = path.join(workDir, 'invoice.docx');
+    await createTemplate(templateFile);
+    await fs.writeFile(path.join(workDir, 'logo.png'), PIXEL_PNG);
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  async function fill(data: Record<string, unknown>) {
+    const result = await fillDocxTemplate(templateFile, data);
+    expect(result.success).toBe(true);
+    const zip = await JSZip.loadAsync(result.content!);
+    return {
+      result,
+      zip,
+      document: await zip.file('word/document.xml')!.async('string'),
+      header: await zip.file('word/header1.xml')!.async('string'),
+    };
+  }
+
+  it('替换占位符、按数组重复表格行并只保留命中的条件分支', async () => {
+    const { result, document, header } = await fill({
+      number: 'INV-7',
+      customer: { name: 'Ada & Co' },
+      items: [
+        { name: 'Widget', qty: 2 },
+        { name: 'Gadget', qty: 5 },
+      ],
+      paid: false,
+      balance: '$40',
+      logo: 'logo.png',
+    });
+
+    expect(paragraphTexts(header)).toEqual(['Invoice INV-7']);
+    expect(document).toContain('<w:b/></w:rPr><w:t xml:space="preserve">Ada &amp; Co</w:t>');
+    expect(paragraphTexts(document)).toEqual([
+      'Dear Ada & Co,',
+      'Item',
+      'Qty',
+      '1. Widget',
+      '2',
+      '2. Gadget',
+      '5',
+      'Balance due: $40',
+      '',
+      'Reference: ',
+    ]);
+    expect(document.match(/<w:tr>/g)).toHaveLength(3);
+    expect(result.metadata).toMatchObject({
+      blocksExpanded: 2,
+      imagesInserted: 1,
+      missingFields: ['reference'],
+    });
+  });
+
+  it('图片占位符写入媒体部件并按页面版心限制尺寸', async () => {
+    const { zip, document } = await fill({
+      logo: { src: 'logo.png', width: 2000, height: 1000 },
+      paid: true,
+      items: [],
+    });
+
+    const embed = document.match(/<a:blip r:embed="([^"]+)"/)![1];
+    const rels = await zip.file('word/_rels/document.xml.rels')!.async('string');
+    const target = rels.match(new RegExp(`Id="${embed}"[^>]*Target="([^"]+)"`))![1];
+    expect(await zip.file(`word/${target}`)!.async('nodebuffer')).toEqual(PIXEL_PNG);
+    expect(await zip.file('[Content_Types].xml')!.async('string')).toContain('Extension="png"');
+
+    // 版心宽 9026 twips = 6.27 英寸 = 5731510 EMU，高度按比例缩放
+    const [, cx, cy] = document.match(/<wp:extent cx="(\d+)" cy="(\d+)"\/>/)!;
+    expect(Number(cx)).toBe(5731510);
+    expect(Number(cy)).toBe(2865755);
+
+    expect(paragraphTexts(document)).toContain('Paid in full.');
+    expect(document).not.toContain('Balance due');
+    expect(document.match(/<w:tr>/g)).toHaveLength(1);
+  });
+});
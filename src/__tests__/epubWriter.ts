@@ -0,0 +1,74 @@
+/**
+ * EPUB 写入测试
+ * Markdown 经 HTML 模板转为 EPUB：章节拆分、目录与按正文识别的语言
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { convertMarkdownToHtml } from '../tools/markdownToHtmlConverter';
+import { writeEpub } from '../tools/epubWriter';
+
+describe('writeEpub', () => {
+  let workDir: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'epub-writer-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  async function markdownToEpub(name: string, markdown: string) {
+    const sourceFile = path.join(workDir, `${name}.md`);
+    await fs.writeFile(sourceFile, markdown, 'utf-8');
+    const htmlResult = await convertMarkdownToHtml(sourceFile, {
+      theme: 'github',
+      standalone: true,
+    });
+    const result = await writeEpub(htmlResult.content!, {
+      outputPath: path.join(workDir, `${name}.epub`),
+    });
+    expect(result.success).toBe(true);
+    return { result, zip: await JSZip.loadAsync(await fs.readFile(result.outputPath!)) };
+  }
+
+  it('英文 Markdown 按 H1 拆分章节并标记为英文', async () => {
+    const { result, zip } = await markdownToEpub(
+      'english',
+      '# Introduction\n\nThis book explains the basics.\n\n# Usage\n\nRun the tool with a file.\n\n## Options\n\nAll options are optional.\n'
+    );
+
+    expect(result.metadata).toMatchObject({ language: 'en-US', chapterCount: 2 });
+    const opf: string = await zip.file('OEBPS/content.opf')!.async('string');
+    expect(opf).toContain('<dc:language>en-US</dc:language>');
+    const nav: string = await zip.file('OEBPS/nav.xhtml')!.async('string');
+    expect(nav).toContain('Contents');
+    expect(nav).not.toContain('目录');
+    expect(nav).toContain('Options');
+  });
+
+  it('中文 Markdown 标记为中文并使用中文目录标题', async () => {
+    const { result, zip } = await markdownToEpub(
+      'chinese',
+      '# 简介\n\n本书介绍基本用法。\n\n# 使用\n\n使用 CLI 工具转换文件。\n'
+    );
+
+    expect(result.metadata?.language).toBe('zh-CN');
+    const nav: string = await zip.file('OEBPS/nav.xhtml')!.async('string');
+    expect(nav).toContain('目录');
+  });
+
+  it('显式指定的语言优先于文档内容', async () => {
+    const result = await writeEpub(
+      '<html lang="en-US"><body><h1>Titre</h1><p>Bonjour</p></body></html>',
+      {
+        language: 'fr-FR',
+      }
+    );
+
+    expect(result.metadata?.language).toBe('fr-FR');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * execute_plan 端到端测试
+ * 通过 stdio 启动 MCP 服务器，按规划执行 Markdown → DOCX 转换
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import JSZip from 'jszip';
+
+const ROOT = path.resolve(__dirname, '..', '..');
+
+describe('execute_plan', () => {
+  let workDir: string;
+  let client: Client;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'execute-plan-'));
+    client = new Client({ name: 'execute-plan-test', version: '1.0.0' });
+    await client.connect(
+      new StdioClientTransport({
+        command: process.execPath,
+        args: [
+          '-r',
+          require.resolve('ts-node/register/transpile-only'),
+          path.join(ROOT, 'src', 'index.ts'),
+        ],
+        // Markdown → DOCX 只允许写入工作目录
+        cwd: workDir,
+        env: {
+          ...(process.env as Record<string, string>),
+          OUTPUT_DIR: workDir,
+          TS_NODE_PROJECT: path.join(ROOT, 'tsconfig.json'),
+          TS_NODE_COMPILER_OPTIONS: JSON.stringify({
+            module: 'commonjs',
+            moduleResolution: 'node',
+          }),
+        },
+        stderr: 'ignore',
+      })
+    );
+  }, 120000);
+
+  afterAll(async () => {
+    await client?.close();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('使用规划器的默认主题把 Markdown 转为 DOCX', async () => {
+    const sourceFile = path.join(workDir, 'report.md');
+    await fs.writeFile(sourceFile, '# 报告\n\n正文段落。\n\n- 第一项\n- 第二项\n', 'utf-8');
+
+    const response: any = await client.callTool(
+      { name: 'execute_plan', arguments: { sourceFile, targetFormat: 'docx' } },
+      undefined,
+      { timeout: 120000 }
+    );
+    const result = JSON.parse(response.content[0].text);
+
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+    expect(result.outputPath).toBe(path.join(workDir, 'report.docx'));
+    expect(result.steps.map((step: any) => step.toolName)).toEqual(['convert_markdown_to_docx']);
+    expect(result.plan.steps[0].parameters.theme).toBe('professional');
+
+    const zip = await JSZip.loadAsync(await fs.readFile(result.outputPath));
+    const documentXml = await zip.file('word/document.xml')!.async('string');
+    expect(documentXml).toContain('报告');
+    expect(documentXml).toContain('第二项');
+  }, 120000);
+});
@@ -0,0 +1,48 @@
+/**
+ * 内置 PDF 渲染引擎测试
+ * HTML 排版为 PDF：分页、纸张方向、标题、书签与可提取的文本
+ */
+
+import { PDFDocument } from 'pdf-lib';
+import { HtmlToPdfRenderer } from '../tools/htmlToPdfRenderer';
+import { PdfTextExtractor } from '../tools/pdfTextExtractor';
+
+const HTML = `<html><head><title>Doc Title</title><style>.next{page-break-before:always}</style></head><body>
+<h1>First</h1>
+<p>Hello <b>bold</b> world.</p>
+<h2>Sub</h2>
+<p class="next">Second page.</p>
+</body></html>`;
+
+describe('HtmlToPdfRenderer', () => {
+  it('按分页规则排版，生成横向 A4 页面、标题与书签', async () => {
+    const result = await new HtmlToPdfRenderer().render(HTML, {
+      format: 'A4',
+      orientation: 'landscape',
+      outlineLevel: 2,
+    });
+
+    expect(result.pageCount).toBe(2);
+    expect(result.bookmarkCount).toBe(2);
+    const pdf = await PDFDocument.load(result.pdfBytes);
+    expect(pdf.getPageCount()).toBe(2);
+    expect(pdf.getTitle()).toBe('Doc Title');
+    const { width, height } = pdf.getPage(0).getSize();
+    expect(Math.round(width)).toBe(842);
+    expect(Math.round(height)).toBe(595);
+  });
+
+  it('文本以真实字体写入，可按页提取并保留标题字号与粗体', async () => {
+    const { pdfBytes } = await new HtmlToPdfRenderer().render(HTML);
+
+    const extraction = await new PdfTextExtractor().extract(pdfBytes);
+
+    expect(extraction.pages.map(page => page.text)).toEqual([
+      'First\nHello bold world.\n\nSub',
+      'Second page.',
+    ]);
+    const [heading, paragraph] = extraction.pages[0].lines;
+    expect(heading).toMatchObject({ text: 'First', bold: true });
+    expect(heading.fontSize).toBeGreaterThan(paragraph.fontSize);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Markdown 数学公式测试
+ * $...$ 与 $$...$$ 中的 LaTeX 在 HTML 中输出为 MathML，在 DOCX 中输出为 Word 原生公式
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { latexToMathml } from '../tools/latexMathConverter';
+import { convertMarkdownToHtml } from '../tools/markdownToHtmlConverter';
+import { convertMarkdownToDocx } from '../tools/markdownToDocxConverter';
+
+const MARKDOWN = [
+  '# Math',
+  '',
+  'Euler: $e^{i\\pi} + 1 = 0$ and a price of $5.',
+  '',
+  '$$',
+  '\\frac{a}{b} = \\sqrt{x}',
+  '$$',
+  '',
+].join('\n');
+
+describe('LaTeX 数学公式', () => {
+  let workDir: string;
+  let sourceFile: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'latex-math-'));
+    sourceFile = path.join(workDir, 'math.md');
+    await fs.writeFile(sourceFile, MARKDOWN, 'utf-8');
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('LaTeX 转换为 MathML', () => {
+    expect(latexToMathml('\\frac{a}{b}')).toBe(
+      '<math xmlns="http://www.w3.org/1998/Math/MathML" display="inline" alttext="\\frac{a}{b}"><mrow><mfrac><mi>a</mi><mi>b</mi></mfrac></mrow></math>'
+    );
+    const sum = latexToMathml('\\sum_{i=1}^{n} i^2', true);
+    expect(sum).toContain('display="block"');
+    expect(sum).toContain('<munderover><mo largeop="true" movablelimits="true">∑</mo>');
+    expect(sum).toContain('<msup><mi>i</mi><mn>2</mn></msup>');
+  });
+
+  it('Markdown 转 HTML 时输出行内与块级 MathML，金额中的 $ 保持原样', async () => {
+    const result = await convertMarkdownToHtml(sourceFile, {});
+
+    expect(result.success).toBe(true);
+    expect(result.content).toMatch(
+      /<p>Euler: <math [^>]*display="inline"[^>]*>[\s\S]*?<msup><mi>e<\/mi>[\s\S]*?<\/math> and a price of \$5\.<\/p>/
+    );
+    expect(result.content).toMatch(
+      /<math [^>]*display="block"[^>]*><mrow><mrow><mfrac><mi>a<\/mi><mi>b<\/mi><\/mfrac><mo>=<\/mo><msqrt>/
+    );
+  });
+
+  it('Markdown 转 DOCX 时输出 Word 原生公式', async () => {
+    const result = await convertMarkdownToDocx(sourceFile, {});
+
+    expect(result.success).toBe(true);
+    const zip = await JSZip.loadAsync(result.content!);
+    const documentXml = await zip.file('word/document.xml')!.async('string');
+    expect(documentXml).toMatch(/<m:oMath><m:sSup><m:e>[\s\S]*?>e<\/m:t>/);
+    expect(documentXml).toMatch(/<m:oMathPara><m:oMath><m:f><m:num>/);
+    expect(documentXml).toContain('<m:rad>');
+    expect(documentXml).toContain('a price of $5.');
+  });
+});
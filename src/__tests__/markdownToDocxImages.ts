@@ -0,0 +1,93 @@
+/**
+ * Markdown 转 DOCX 图片嵌入测试
+ * 相对路径图片按 Markdown 文件目录解析，超宽图片按页面宽度缩放，远程图片按策略处理
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { convertMarkdownToDocx } from '../tools/markdownToDocxConverter';
+
+// 1×1 像素的 PNG
+const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  'base64'
+);
+const WIDE_SVG =
+  '<svg xmlns="http://www.w3.org/2000/svg" width="2000" height="1000"><rect width="2000" height="1000" fill="red"/></svg>';
+// 1px = 9525 EMU
+const EMU_PER_PIXEL = 9525;
+
+describe('Markdown 转 DOCX 图片', () => {
+  let workDir: string;
+  let sourceFile: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'markdown-docx-images-'));
+    await fs.mkdir(path.join(workDir, 'images'));
+    await fs.writeFile(path.join(workDir, 'images', 'pixel.png'), PIXEL_PNG);
+    await fs.writeFile(path.join(workDir, 'images', 'wide.svg'), WIDE_SVG, 'utf-8');
+    sourceFile = path.join(workDir, 'report.md');
+    await fs.writeFile(
+      sourceFile,
+      [
+        '# Images',
+        '',
+        '![Pixel](images/pixel.png "A pixel")',
+        '',
+        '![Wide](./images/wide.svg)',
+        '',
+        '![Remote](https://example.com/chart.png)',
+        '',
+        '![Missing](images/missing.png)',
+        '',
+      ].join('\n'),
+      'utf-8'
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  async function readDocx(content: Buffer) {
+    const zip = await JSZip.loadAsync(content);
+    return {
+      media: Object.keys(zip.files).filter(name => /^word\/media\/.+/.test(name)),
+      documentXml: await zip.file('word/document.xml')!.async('string'),
+    };
+  }
+
+  it('嵌入本地图片与远程图片占位图，缺失的图片以替代文本代替', async () => {
+    const result = await convertMarkdownToDocx(sourceFile, { imageCaptions: true });
+
+    expect(result.success).toBe(true);
+    const { media, documentXml } = await readDocx(result.content!);
+    // PNG、SVG 及其 PNG 后备图、远程图片占位图
+    expect(media.filter(name => name.endsWith('.svg'))).toHaveLength(1);
+    expect(media.filter(name => name.endsWith('.png'))).toHaveLength(3);
+
+    const extents = [...documentXml.matchAll(/<wp:extent cx="(\d+)" cy="(\d+)"\/>/g)].map(match => [
+      Number(match[1]) / EMU_PER_PIXEL,
+      Number(match[2]) / EMU_PER_PIXEL,
+    ]);
+    expect(extents).toHaveLength(3);
+    expect(extents[0]).toEqual([1, 1]);
+    // 超宽图片缩放到页面内容宽度并保持宽高比
+    expect(extents[1][0]).toBeLessThan(2000);
+    expect(extents[1][0] / extents[1][1]).toBeCloseTo(2, 1);
+
+    expect(documentXml).toMatch(/<wp:docPr [^>]*descr="Pixel"/);
+    expect(documentXml).toContain('<w:t xml:space="preserve">A pixel</w:t>');
+    expect(documentXml).toContain('<w:t xml:space="preserve">[Missing]</w:t>');
+  });
+
+  it('remoteImages 为 skip 时跳过远程图片', async () => {
+    const result = await convertMarkdownToDocx(sourceFile, { remoteImages: 'skip' });
+
+    const { documentXml } = await readDocx(result.content!);
+    expect(documentXml.match(/<wp:extent /g)).toHaveLength(2);
+    expect(documentXml).not.toContain('descr="Remote"');
+  });
+});
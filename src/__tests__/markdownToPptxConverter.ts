@@ -0,0 +1,82 @@
+/**
+ * Markdown 转 PPTX 测试
+ * 幻灯片拆分、演讲者备注，以及备注之后的表格和图片仍留在幻灯片上
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { convertMarkdownToPptx } from '../tools/markdownToPptxConverter';
+
+// 1×1 像素的 PNG
+const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+describe('convertMarkdownToPptx', () => {
+  let workDir: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'markdown-pptx-'));
+    await fs.writeFile(path.join(workDir, 'chart.png'), PIXEL_PNG);
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('备注只包含 Note: 段落及其后的文字段落，之后的表格和图片留在幻灯片上', async () => {
+    const sourceFile = path.join(workDir, 'deck.md');
+    await fs.writeFile(
+      sourceFile,
+      [
+        '# Quarterly Review',
+        '',
+        'Sales by region.',
+        '',
+        'Note: Mention the new North office.',
+        '',
+        'Keep this under two minutes.',
+        '',
+        '| Region | Sales |',
+        '| --- | --- |',
+        '| North | 120 |',
+        '',
+        '![Chart](chart.png)',
+        '',
+        '---',
+        '',
+        '## Next Steps',
+        '',
+        '- Hire two engineers',
+        '- Open the South office',
+        '',
+      ].join('\n'),
+      'utf-8'
+    );
+
+    const result = await convertMarkdownToPptx(sourceFile);
+
+    expect(result.success).toBe(true);
+    expect(result.metadata).toMatchObject({
+      slideCount: 2,
+      notesCount: 1,
+      tablesCount: 1,
+      imagesCount: 1,
+    });
+
+    const zip = await JSZip.loadAsync(result.content!);
+    const slide = await zip.file('ppt/slides/slide1.xml')!.async('string');
+    expect(slide).toContain('Sales by region.');
+    expect(slide).toContain('North');
+    expect(slide).not.toContain('Mention the new North office.');
+    const notes = await zip.file('ppt/notesSlides/notesSlide1.xml')!.async('string');
+    expect(notes).toContain('Mention the new North office.');
+    expect(notes).toContain('Keep this under two minutes.');
+    expect(notes).not.toContain('Region');
+    expect(Object.keys(zip.files).some(name => name.startsWith('ppt/media/'))).toBe(true);
+    expect(zip.file('ppt/slides/slide2.xml')).not.toBeNull();
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * ODF 读取测试
+ * ODT 写入后读回：标题、字符格式、超链接、嵌套列表、合并单元格与文档属性
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readOdf } from '../tools/odfReader';
+import { writeOdt } from '../tools/odtWriter';
+
+describe('readOdf', () => {
+  let workDir: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'odf-reader-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('ODT 读回为结构相同的 HTML', async () => {
+    const outputPath = path.join(workDir, 'report.odt');
+    const written = await writeOdt(
+      [
+        '<html><head><title>Report</title></head><body>',
+        '<h1>Report</h1>',
+        '<p>Plain <strong>bold</strong> and <em>italic</em> with <a href="https://example.com">link</a>.</p>',
+        '<ul><li>One<ul><li>Inner</li></ul></li><li>Two</li></ul>',
+        '<table><tr><th>A</th><th>B</th></tr><tr><td colspan="2">Wide</td></tr></table>',
+        '</body></html>',
+      ].join(''),
+      { outputPath }
+    );
+    expect(written.success).toBe(true);
+
+    const result = await readOdf(outputPath);
+
+    expect(result.success).toBe(true);
+    expect(result.metadata).toMatchObject({ title: 'Report', originalFormat: 'odt' });
+    expect(result.content).toContain('<title>Report</title>');
+    expect(result.content).toContain('<h1>Report</h1>');
+    expect(result.content).toContain(
+      '<p>Plain <strong>bold</strong> and <em>italic</em> with <a href="https://example.com">link</a>.</p>'
+    );
+    expect(result.content).toContain('<ul><li>One<ul><li>Inner</li></ul></li><li>Two</li></ul>');
+    expect(result.content).toMatch(/<th>.*A.*<\/th><th>.*B.*<\/th>/);
+    expect(result.content).toContain('<tr><td colspan="2">Wide</td></tr>');
+  });
+
+  it('非 ODF 文件返回错误', async () => {
+    const filePath = path.join(workDir, 'broken.odt');
+    await fs.writeFile(filePath, 'not a zip');
+
+    const result = await readOdf(filePath);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeTruthy();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * ODT 写入测试
+ * Markdown 经 HTML 模板转为 ODT：标题、表格与按正文识别的语言
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { convertMarkdownToHtml } from '../tools/markdownToHtmlConverter';
+import { writeOdt } from '../tools/odtWriter';
+
+describe('writeOdt', () => {
+  let workDir: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'odt-writer-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  async function markdownToOdt(name: string, markdown: string) {
+    const sourceFile = path.join(workDir, `${name}.md`);
+    await fs.writeFile(sourceFile, markdown, 'utf-8');
+    const htmlResult = await convertMarkdownToHtml(sourceFile, {
+      theme: 'github',
+      standalone: true,
+    });
+    const result = await writeOdt(htmlResult.content!, {
+      outputPath: path.join(workDir, `${name}.odt`),
+    });
+    expect(result.success).toBe(true);
+    const zip = await JSZip.loadAsync(await fs.readFile(result.outputPath!));
+    return {
+      result,
+      content: await zip.file('content.xml')!.async('string'),
+      meta: await zip.file('meta.xml')!.async('string'),
+    };
+  }
+
+  it('英文 Markdown 生成标题、表格并标记为英文', async () => {
+    const { result, content, meta } = await markdownToOdt(
+      'english',
+      '# Report\n\nSales grew this quarter.\n\n| Region | Sales |\n| --- | --- |\n| North | 120 |\n'
+    );
+
+    expect(result.metadata?.tablesCount).toBe(1);
+    expect(content).toContain(
+      '<text:h text:style-name="Heading_20_1" text:outline-level="1">Report</text:h>'
+    );
+    expect(content).toContain('North');
+    expect(meta).toContain('<dc:language>en-US</dc:language>');
+  });
+
+  it('中文 Markdown 标记为中文', async () => {
+    const { meta } = await markdownToOdt('chinese', '# 报告\n\n本季度销售额增长。\n');
+
+    expect(meta).toContain('<dc:language>zh-CN</dc:language>');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * OMML 公式转换测试
+ * Word 公式转换为 MathML 与 LaTeX，DOCX 读取时公式以 MathML 输出
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { convertOmml } from '../tools/ommlConverter';
+import { convertDocxToHtmlWithOOXML } from '../tools/ooxmlParser';
+
+const M_NS = 'xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"';
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const run = (text: string) => `<m:r><m:t>${text}</m:t></m:r>`;
+const FRACTION = `<m:f><m:num>${run('a')}</m:num><m:den>${run('b')}</m:den></m:f>`;
+const SUM =
+  '<m:nary><m:naryPr><m:chr m:val="∑"/></m:naryPr>' +
+  `<m:sub>${run('i=1')}</m:sub><m:sup>${run('n')}</m:sup><m:e>${run('i')}</m:e></m:nary>`;
+
+describe('OMML 公式转换', () => {
+  it('分数转换为 mfrac 与 \\frac', () => {
+    const result = convertOmml(`<m:oMath ${M_NS}>${FRACTION}</m:oMath>`);
+
+    expect(result.latex).toBe('\\frac{a}{b}');
+    expect(result.display).toBe(false);
+    expect(result.mathml).toContain(
+      '<mfrac><mrow><mi>a</mi></mrow><mrow><mi>b</mi></mrow></mfrac>'
+    );
+  });
+
+  it('上标与希腊字母', () => {
+    const result = convertOmml(
+      `<m:oMath ${M_NS}><m:sSup><m:e>${run('x')}</m:e><m:sup>${run('2')}</m:sup></m:sSup>${run('+α')}</m:oMath>`
+    );
+
+    expect(result.latex).toBe('x^{2}+\\alpha');
+    expect(result.mathml).toContain('<msup><mrow><mi>x</mi></mrow><mrow><mn>2</mn></mrow></msup>');
+    expect(result.mathml).toContain('<mi>α</mi>');
+  });
+
+  it('公式段落中的求和为块级公式', () => {
+    const result = convertOmml(`<m:oMathPara ${M_NS}><m:oMath>${SUM}</m:oMath></m:oMathPara>`);
+
+    expect(result.display).toBe(true);
+    expect(result.latex).toBe('\\sum_{i=1}^{n}{i}');
+    expect(result.mathml).toContain('display="block"');
+    expect(result.mathml).toContain('<munderover><mo largeop="true">∑</mo>');
+  });
+
+  it('隐藏次数的根式转换为平方根', () => {
+    const result = convertOmml(
+      `<m:oMath ${M_NS}><m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e>${run('x')}</m:e></m:rad></m:oMath>`
+    );
+
+    expect(result.latex).toBe('\\sqrt{x}');
+    expect(result.mathml).toContain('<msqrt>');
+  });
+
+  it('DOCX 中的公式读取为 MathML', async () => {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'omml-'));
+    try {
+      const zip = new JSZip();
+      zip.file(
+        '[Content_Types].xml',
+        `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+</Types>`
+      );
+      zip.file(
+        '_rels/.rels',
+        `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`
+      );
+      zip.file(
+        'word/document.xml',
+        `<?xml version="1.0" encoding="UTF-8"?>
+<w:document ${W_NS} ${M_NS}><w:body>
+  <w:p><w:r><w:t xml:space="preserve">Ratio </w:t></w:r><m:oMath>${FRACTION}</m:oMath></w:p>
+  <w:p><m:oMathPara><m:oMath>${SUM}</m:oMath></m:oMathPara></w:p>
+</w:body></w:document>`
+      );
+      const sourceFile = path.join(workDir, 'math.docx');
+      await fs.writeFile(sourceFile, await zip.generateAsync({ type: 'nodebuffer' }));
+
+      const result = await convertDocxToHtmlWithOOXML(sourceFile);
+
+      expect(result.success).toBe(true);
+      expect(result.content).toContain('Ratio');
+      expect(result.content).toMatch(/<math [^>]*display="inline"[^>]*>[\s\S]*<mfrac>/);
+      expect(result.content).toMatch(/<math [^>]*display="block"[^>]*>[\s\S]*<munderover>/);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * PDF 加密与解密测试
+ * 三种算法加密后用用户或所有者密码读回文本、元数据和权限，错误密码无法打开
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PDFDict, PDFDocument, PDFName, PDFNumber, StandardFonts } from 'pdf-lib';
+import { decryptPdf, encryptPdf, PdfEncryptionAlgorithm } from '../tools/pdfEncryption';
+import { PdfTextExtractor } from '../tools/pdfTextExtractor';
+
+const ENCRYPT_VERSIONS: Record<PdfEncryptionAlgorithm, [number, number]> = {
+  'rc4-128': [2, 3],
+  'aes-128': [4, 4],
+  'aes-256': [5, 6],
+};
+
+// 打印（第 3、12 位）与复制（第 5 位）
+const PRINT_BIT = 1 << 2;
+const COPY_BIT = 1 << 4;
+
+describe('PDF 加密', () => {
+  let workDir: string;
+  let sourceFile: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pdf-encryption-'));
+    const pdf = await PDFDocument.create();
+    pdf.setTitle('Confidential Plan');
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    for (let i = 1; i <= 2; i++) {
+      pdf.addPage([400, 400]).drawText(`Secret page ${i}`, { x: 40, y: 300, size: 14, font });
+    }
+    sourceFile = path.join(workDir, 'plain.pdf');
+    await fs.writeFile(sourceFile, await pdf.save({ useObjectStreams: true }));
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it.each(Object.keys(ENCRYPT_VERSIONS) as PdfEncryptionAlgorithm[])(
+    '%s：写入加密字典，用户密码和所有者密码都能读回文本与标题',
+    async algorithm => {
+      const outputPath = path.join(workDir, `${algorithm}.pdf`);
+
+      const result = await encryptPdf(sourceFile, {
+        outputPath,
+        userPassword: 'open-me',
+        ownerPassword: 'owner-secret',
+        encryption: algorithm,
+        permissions: ['print'],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.metadata).toEqual({
+        pageCount: 2,
+        encryption: algorithm,
+        permissions: ['print'],
+      });
+
+      const bytes = await fs.readFile(outputPath);
+      expect(bytes.includes('Confidential Plan')).toBe(false);
+
+      const raw = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+      expect(raw.isEncrypted).toBe(true);
+      const encryptDict = raw.context.lookup(raw.context.trailerInfo.Encrypt) as PDFDict;
+      const number = (key: string) => (encryptDict.lookup(PDFName.of(key)) as PDFNumber).asNumber();
+      expect([number('V'), number('R')]).toEqual(ENCRYPT_VERSIONS[algorithm]);
+      const flags = number('P');
+      expect(flags & PRINT_BIT).toBe(PRINT_BIT);
+      expect(flags & COPY_BIT).toBe(0);
+
+      for (const password of ['open-me', 'owner-secret']) {
+        const extraction = await new PdfTextExtractor({ password }).extract(bytes);
+        expect(extraction.pages.map(page => page.text)).toEqual(['Secret page 1', 'Secret page 2']);
+        expect(extraction.metadata.title).toBe('Confidential Plan');
+      }
+    }
+  );
+
+  it('错误密码无法打开，解密后得到无需密码的文档', async () => {
+    const encrypted = path.join(workDir, 'locked.pdf');
+    await encryptPdf(sourceFile, { outputPath: encrypted, userPassword: 'open-me' });
+
+    const wrong = await decryptPdf(encrypted, {
+      outputPath: path.join(workDir, 'wrong.pdf'),
+      password: 'guess',
+    });
+    expect(wrong.success).toBe(false);
+    await expect(new PdfTextExtractor().extract(await fs.readFile(encrypted))).rejects.toThrow();
+
+    const decrypted = path.join(workDir, 'unlocked.pdf');
+    const result = await decryptPdf(encrypted, { outputPath: decrypted, password: 'open-me' });
+
+    expect(result.success).toBe(true);
+    expect(result.metadata!.pageCount).toBe(2);
+    const pdf = await PDFDocument.load(await fs.readFile(decrypted), { updateMetadata: false });
+    expect(pdf.isEncrypted).toBe(false);
+    expect(pdf.getTitle()).toBe('Confidential Plan');
+    const extraction = await new PdfTextExtractor().extract(await fs.readFile(decrypted));
+    expect(extraction.text).toContain('Secret page 2');
+  });
+
+  it('只设置权限时无需密码即可打开', async () => {
+    const outputPath = path.join(workDir, 'no-copy.pdf');
+
+    const result = await encryptPdf(sourceFile, { outputPath, permissions: ['print', 'annotate'] });
+
+    expect(result.success).toBe(true);
+    const extraction = await new PdfTextExtractor().extract(await fs.readFile(outputPath));
+    expect(extraction.pages[0].text).toBe('Secret page 1');
+  });
+});
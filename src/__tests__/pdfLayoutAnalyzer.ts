@@ -0,0 +1,51 @@
+/**
+ * PDF 版面分析测试
+ * 用内置渲染器把 HTML 表格渲染为 PDF，再分析回表格结构
+ */
+
+import { HtmlToPdfRenderer } from '../tools/htmlToPdfRenderer';
+import { PdfTextExtractor } from '../tools/pdfTextExtractor';
+import { PdfLayoutAnalyzer, LayoutBlock } from '../tools/pdfLayoutAnalyzer';
+
+const TABLE_ROWS = [
+  ['Region', 'Q1', 'Q2', 'Q3'],
+  ['North', '120', '135', '150'],
+  ['South', '98', '110', '105'],
+  ['East', '143', '151', '160'],
+  ['West', '87', '92', '99'],
+];
+
+const TABLE_HTML = `<html><head><style>table{border-collapse:collapse}td,th{border:1px solid #000;padding:4px}</style></head><body>
+<h1>Sales Report</h1>
+<p>Quarterly revenue by region is summarised below.</p>
+<table>${TABLE_ROWS.map(
+  (row, i) =>
+    `<tr>${row.map(cell => (i === 0 ? `<th>${cell}</th>` : `<td>${cell}</td>`)).join('')}</tr>`
+).join('')}</table>
+<p>Figures are in thousands of dollars.</p>
+</body></html>`;
+
+async function analyze(html: string): Promise<LayoutBlock[]> {
+  const { pdfBytes } = await new HtmlToPdfRenderer().render(html);
+  const extraction = await new PdfTextExtractor().extract(pdfBytes);
+  return new PdfLayoutAnalyzer().analyze(extraction.pages);
+}
+
+describe('PdfLayoutAnalyzer', () => {
+  it('识别渲染后的 5 行 4 列表格', async () => {
+    const blocks = await analyze(TABLE_HTML);
+
+    const tables = blocks.filter(block => block.type === 'table');
+    expect(tables).toHaveLength(1);
+    expect(tables[0]).toEqual({ type: 'table', rows: TABLE_ROWS });
+    expect(blocks[blocks.length - 1]).toMatchObject({ type: 'paragraph' });
+  });
+
+  it('代码行中的空格不拆分为单元格', async () => {
+    const blocks = await analyze(
+      '<html><body><pre>function hello(name) {\n  return `Hello, ${name}!`;\n}</pre></body></html>'
+    );
+
+    expect(blocks.some(block => block.type === 'table')).toBe(false);
+  });
+});
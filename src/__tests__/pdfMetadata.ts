@@ -0,0 +1,111 @@
+/**
+ * PDF 文档属性与书签测试
+ * 写入信息字典、文档语言和 XMP，替换书签树后读回；按标题生成的书签指向标题所在页
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PDFDocument, PDFName, PDFRawStream } from 'pdf-lib';
+import { setPdfMetadata } from '../tools/pdfMetadata';
+import { readPdfOutline } from '../tools/pdfOutline';
+import { HtmlToPdfRenderer } from '../tools/htmlToPdfRenderer';
+
+describe('setPdfMetadata', () => {
+  let workDir: string;
+  let sourceFile: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pdf-metadata-'));
+    const pdf = await PDFDocument.create();
+    for (let i = 0; i < 3; i++) pdf.addPage([300, 400]);
+    pdf.setAuthor('Old Author');
+    sourceFile = path.join(workDir, 'source.pdf');
+    await fs.writeFile(sourceFile, await pdf.save());
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('写入属性、语言与 XMP，并用嵌套书签替换文档大纲', async () => {
+    const outputPath = path.join(workDir, 'tagged.pdf');
+
+    const result = await setPdfMetadata(sourceFile, {
+      outputPath,
+      title: '年度报告 & Summary',
+      author: '',
+      subject: 'Finance',
+      keywords: 'budget; 预算, forecast',
+      language: 'zh-CN',
+      bookmarks: [
+        { title: 'Intro', page: 1 },
+        { title: 'Results', page: 2, children: [{ title: 'Details', page: 3 }] },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.metadata).toMatchObject({
+      title: '年度报告 & Summary',
+      author: undefined,
+      keywords: 'budget, 预算, forecast',
+      language: 'zh-CN',
+      bookmarkCount: 3,
+    });
+
+    const pdf = await PDFDocument.load(await fs.readFile(outputPath), { updateMetadata: false });
+    expect(pdf.getTitle()).toBe('年度报告 & Summary');
+    expect(pdf.getAuthor()).toBeUndefined();
+    expect(pdf.getSubject()).toBe('Finance');
+    expect(pdf.getModificationDate()).toBeInstanceOf(Date);
+    expect(pdf.catalog.lookup(PDFName.of('PageMode'))).toBe(PDFName.of('UseOutlines'));
+
+    const xmpStream = pdf.catalog.lookup(PDFName.of('Metadata')) as PDFRawStream;
+    const xmp = Buffer.from(xmpStream.getContents()).toString('utf8');
+    expect(xmp).toContain(
+      '<dc:title><rdf:Alt><rdf:li xml:lang="x-default">年度报告 &amp; Summary</rdf:li></rdf:Alt></dc:title>'
+    );
+    expect(xmp).toContain('<pdf:Keywords>budget, 预算, forecast</pdf:Keywords>');
+    expect(xmp).not.toContain('Old Author');
+
+    expect(readPdfOutline(pdf)).toEqual([
+      { title: 'Intro', level: 1, pageIndex: 0 },
+      { title: 'Results', level: 1, pageIndex: 1 },
+      { title: 'Details', level: 2, pageIndex: 2 },
+    ]);
+  });
+
+  it('空书签数组删除原有书签，未提供的属性保持不变', async () => {
+    const withOutline = path.join(workDir, 'with-outline.pdf');
+    await setPdfMetadata(sourceFile, {
+      outputPath: withOutline,
+      bookmarks: [{ title: 'Only', page: 1 }],
+    });
+
+    const result = await setPdfMetadata(withOutline, { bookmarks: [] });
+
+    expect(result.success).toBe(true);
+    expect(result.outputPath).toBe(withOutline);
+    expect(result.metadata).toMatchObject({ author: 'Old Author', bookmarkCount: 0 });
+    expect(readPdfOutline(await PDFDocument.load(await fs.readFile(withOutline)))).toEqual([]);
+  });
+
+  it('按标题生成的书签保留层级并指向标题所在页', async () => {
+    const { pdfBytes, bookmarkCount } = await new HtmlToPdfRenderer().render(
+      `<html><head><style>.next{page-break-before:always}</style></head><body>
+      <h1>Chapter One</h1><p>Text.</p>
+      <h2>Section A</h2><p>More.</p>
+      <h3>Too deep</h3>
+      <h1 class="next">Chapter Two</h1><p>End.</p>
+      </body></html>`,
+      { outlineLevel: 2 }
+    );
+
+    expect(bookmarkCount).toBe(3);
+    expect(readPdfOutline(await PDFDocument.load(pdfBytes))).toEqual([
+      { title: 'Chapter One', level: 1, pageIndex: 0 },
+      { title: 'Section A', level: 2, pageIndex: 0 },
+      { title: 'Chapter Two', level: 1, pageIndex: 1 },
+    ]);
+  });
+});
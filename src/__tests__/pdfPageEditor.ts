@@ -0,0 +1,102 @@
+/**
+ * PDF 页面操作测试
+ * 删除、重排、旋转、插入空白页、缩放到标准纸张、裁剪和 N 合 1 拼版按顺序执行
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { editPdfPages } from '../tools/pdfPageEditor';
+
+describe('editPdfPages', () => {
+  let workDir: string;
+  let sourceFile: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pdf-pages-'));
+    // 四页宽度分别为 100、200、300、400 磅，便于识别页序
+    const pdf = await PDFDocument.create();
+    for (let i = 1; i <= 4; i++) pdf.addPage([100 * i, 500]);
+    sourceFile = path.join(workDir, 'source.pdf');
+    await fs.writeFile(sourceFile, await pdf.save());
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('按顺序执行删除、重排、旋转和插入空白页，页码按当前页序计算', async () => {
+    const outputPath = path.join(workDir, 'edited.pdf');
+
+    const result = await editPdfPages(sourceFile, {
+      outputPath,
+      operations: [
+        { type: 'delete', pages: '2' },
+        { type: 'reorder', pages: '3' },
+        { type: 'rotate', pages: '1', angle: 90 },
+        { type: 'insertBlank', after: 1 },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.metadata!.steps).toEqual([
+      { type: 'delete', pageCount: 3 },
+      { type: 'reorder', pageCount: 3 },
+      { type: 'rotate', pageCount: 3 },
+      { type: 'insertBlank', pageCount: 4 },
+    ]);
+    expect(result.pages!.map(page => [page.width, page.height, page.rotation])).toEqual([
+      [500, 400, 90],
+      [500, 400, 0],
+      [100, 500, 0],
+      [300, 500, 0],
+    ]);
+
+    const saved = await PDFDocument.load(await fs.readFile(outputPath));
+    expect(saved.getPages().map(page => page.getWidth())).toEqual([400, 500, 100, 300]);
+  });
+
+  it('缩放到 A4 后裁剪，再 4 合 1 拼版到一张 A4 纵向纸', async () => {
+    const result = await editPdfPages(sourceFile, {
+      outputPath: path.join(workDir, 'a4.pdf'),
+      operations: [
+        { type: 'resize', size: 'A4' },
+        { type: 'crop', pages: '1', margins: { top: 20, right: 10, bottom: 20, left: 10 } },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.pages!.slice(1).every(page => page.paperSize === 'A4')).toBe(true);
+    expect(result.pages![0]).toMatchObject({ width: 595.28 - 20, height: 841.89 - 40 });
+    expect(result.pages![0].paperSize).toBeUndefined();
+
+    const nup = await editPdfPages(result.outputPath!, {
+      outputPath: path.join(workDir, 'nup.pdf'),
+      operations: [{ type: 'nup', perSheet: 4, size: 'A4' }],
+    });
+
+    expect(nup.success).toBe(true);
+    expect(nup.pageCount).toBe(1);
+    expect(nup.pages![0]).toMatchObject({ paperSize: 'A4', rotation: 0 });
+    expect(nup.pages![0].height).toBeGreaterThan(nup.pages![0].width);
+  });
+
+  it('删除全部页面或缺少页码范围时返回错误，不写出文件', async () => {
+    const outputPath = path.join(workDir, 'empty.pdf');
+
+    const emptied = await editPdfPages(sourceFile, {
+      outputPath,
+      operations: [{ type: 'delete', pages: '1-' }],
+    });
+    const missing = await editPdfPages(sourceFile, {
+      outputPath,
+      operations: [{ type: 'extract' }],
+    });
+
+    expect(emptied.success).toBe(false);
+    expect(missing.success).toBe(false);
+    expect(missing.error).toContain('pages');
+    await expect(fs.stat(outputPath)).rejects.toThrow();
+  });
+});
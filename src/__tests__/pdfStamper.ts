@@ -0,0 +1,114 @@
+/**
+ * PDF 页眉页脚盖印测试
+ * 模板占位符、对齐位置、跳过首页与 Bates 编号，盖印结果用文本提取器读回
+ */
+
+import { existsSync, promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { stampPdf } from '../tools/pdfStamper';
+import { PdfTextExtractor } from '../tools/pdfTextExtractor';
+
+// 系统中常见的 TTF 字体，都不存在时跳过自定义字体用例
+const TTF_FONT = [
+  '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf',
+  '/System/Library/Fonts/Supplemental/Arial.ttf',
+  'C:\\Windows\\Fonts\\arial.ttf',
+].find(candidate => existsSync(candidate));
+
+describe('stampPdf', () => {
+  let workDir: string;
+  let sourceFile: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pdf-stamper-'));
+    const pdf = await PDFDocument.create();
+    pdf.setTitle('Case File');
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    for (let i = 1; i <= 3; i++) {
+      pdf.addPage([400, 600]).drawText(`Body ${i}`, { x: 50, y: 300, size: 12, font });
+    }
+    sourceFile = path.join(workDir, 'source.pdf');
+    await fs.writeFile(sourceFile, await pdf.save());
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('页眉左对齐写标题，页脚右对齐写页码和 Bates 编号，跳过首页', async () => {
+    const outputPath = path.join(workDir, 'stamped.pdf');
+
+    const result = await stampPdf(sourceFile, {
+      outputPath,
+      headerText: '{title}',
+      headerPosition: 'left',
+      footerText: 'Page {n} of {total} {bates}',
+      footerPosition: 'right',
+      skipFirstPage: true,
+      batesPrefix: 'ACME-',
+      batesStart: 10,
+      batesDigits: 4,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.metadata).toEqual({
+      pageCount: 3,
+      pagesStamped: 2,
+      firstBates: 'ACME-0010',
+      lastBates: 'ACME-0011',
+    });
+
+    const { pages } = await new PdfTextExtractor().extract(await fs.readFile(outputPath));
+    expect(pages.map(page => page.lines.map(line => line.text))).toEqual([
+      ['Body 1'],
+      ['Case File', 'Body 2', 'Page 2 of 3 ACME-0010'],
+      ['Case File', 'Body 3', 'Page 3 of 3 ACME-0011'],
+    ]);
+
+    // 默认边距 24 磅、字号 9：页眉贴左上，页脚右端贴右下
+    const [header, , footer] = pages[1].lines;
+    expect(header.x).toBeCloseTo(24, 0);
+    expect(header.y).toBeLessThan(40);
+    expect(header.fontSize).toBe(9);
+    // 提取器按字形宽度估算行宽，允许 1 磅误差
+    expect(Math.abs(footer.x + footer.width - (400 - 24))).toBeLessThan(1);
+    expect(footer.y).toBeGreaterThan(560);
+  });
+
+  it('未指定 outputPath 时覆盖原文件，居中的页脚写文件名', async () => {
+    const inPlace = path.join(workDir, 'in-place.pdf');
+    await fs.copyFile(sourceFile, inPlace);
+
+    const result = await stampPdf(inPlace, { footerText: '{filename} - {n}', stampFontSize: 10 });
+
+    expect(result.success).toBe(true);
+    expect(result.outputPath).toBe(inPlace);
+    expect(result.metadata!.firstBates).toBeUndefined();
+    const { pages } = await new PdfTextExtractor().extract(await fs.readFile(inPlace));
+    const footer = pages[2].lines.find(line => line.text === 'in-place.pdf - 3')!;
+    expect(Math.abs(footer.x + footer.width / 2 - 200)).toBeLessThan(1);
+  });
+
+  (TTF_FONT ? it : it.skip)('stampFont 为字体文件路径时按子集嵌入该字体', async () => {
+    const outputPath = path.join(workDir, 'custom-font.pdf');
+
+    const result = await stampPdf(sourceFile, {
+      outputPath,
+      headerText: 'Page {n}',
+      stampFont: TTF_FONT,
+    });
+
+    expect(result.success).toBe(true);
+    const { pages } = await new PdfTextExtractor().extract(await fs.readFile(outputPath));
+    expect(pages[0].lines.map(line => line.text)).toEqual(['Page 1', 'Body 1']);
+  });
+
+  it('未指定页眉和页脚模板时返回错误', async () => {
+    const result = await stampPdf(sourceFile, {});
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('headerText');
+  });
+});
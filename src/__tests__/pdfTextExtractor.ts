@@ -0,0 +1,61 @@
+/**
+ * PDF 文本提取测试
+ * 分栏检测：真正的双栏按栏输出，单栏正文中的整页宽表格不能当成两栏
+ */
+
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { HtmlToPdfRenderer } from '../tools/htmlToPdfRenderer';
+import { PdfTextExtractor } from '../tools/pdfTextExtractor';
+
+describe('PdfTextExtractor', () => {
+  it('按栏输出双栏页面', async () => {
+    const doc = await PDFDocument.create();
+    const font = await doc.embedFont(StandardFonts.Helvetica);
+    const page = doc.addPage([600, 800]);
+    page.drawText('A Two Column Heading', { x: 50, y: 750, size: 20, font });
+    for (let i = 0; i < 8; i++) {
+      page.drawText(`Left column line ${i} with words`, { x: 50, y: 700 - i * 14, size: 11, font });
+      page.drawText(`Right column line ${i} with words`, {
+        x: 320,
+        y: 700 - i * 14,
+        size: 11,
+        font,
+      });
+    }
+    page.drawText('Footer spanning the whole page width', { x: 50, y: 400, size: 11, font });
+
+    const result = await new PdfTextExtractor().extract(await doc.save());
+
+    expect(result.pages[0].columns).toBe(2);
+    const lines = result.pages[0].lines.map(line => line.text);
+    expect(lines.indexOf('Left column line 7 with words')).toBeLessThan(
+      lines.indexOf('Right column line 0 with words')
+    );
+  });
+
+  it('整页宽表格的页面仍按单栏阅读顺序输出', async () => {
+    const shortLines = (prefix: string, count: number) =>
+      Array.from({ length: count }, (_, i) => `<p>${prefix} ${i}.</p>`).join('');
+    const table = [
+      ['Region', 'Q1', 'Q2', 'Q3'],
+      ['North', '120', '135', '150'],
+      ['South', '98', '110', '105'],
+      ['East', '143', '151', '160'],
+      ['West', '87', '92', '99'],
+    ]
+      .map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`)
+      .join('');
+    const html = `<html><head><style>table{border-collapse:collapse;width:100%}td{border:1px solid #000;padding:4px}</style></head><body>
+<h1>Sales Report</h1>${shortLines('Before', 12)}<table>${table}</table>${shortLines('After', 6)}
+</body></html>`;
+    const { pdfBytes } = await new HtmlToPdfRenderer().render(html);
+
+    const result = await new PdfTextExtractor().extract(pdfBytes);
+
+    expect(result.pages[0].columns).toBe(1);
+    const lines = result.pages[0].lines.map(line => line.text);
+    expect(lines.indexOf('Q3')).toBeLessThan(lines.indexOf('After 0.'));
+    expect(lines.indexOf('99')).toBeLessThan(lines.indexOf('After 0.'));
+    expect(lines.indexOf('99')).toBeGreaterThan(lines.indexOf('Before 11.'));
+  });
+});
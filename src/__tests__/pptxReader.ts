@@ -0,0 +1,115 @@
+/**
+ * PPTX 读取测试
+ * 由 Markdown 生成的演示文稿读回：标题、嵌套与编号列表、表格、演讲者备注和图片
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { convertMarkdownToPptx } from '../tools/markdownToPptxConverter';
+import { readPptx } from '../tools/pptxReader';
+
+// 1×1 像素的 PNG
+const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+describe('readPptx', () => {
+  let workDir: string;
+  let pptxFile: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pptx-reader-'));
+    await fs.writeFile(path.join(workDir, 'chart.png'), PIXEL_PNG);
+    const sourceFile = path.join(workDir, 'deck.md');
+    await fs.writeFile(
+      sourceFile,
+      [
+        '# Deck Title',
+        '',
+        '---',
+        '',
+        '## Agenda',
+        '',
+        '- First point',
+        '- Second point',
+        '    - Nested',
+        '',
+        'Note: Speak slowly.',
+        '',
+        '---',
+        '',
+        '## Numbers',
+        '',
+        '| Name | Qty |',
+        '| --- | --- |',
+        '| Apple | 3 |',
+        '| Pear | 5 |',
+        '',
+        '---',
+        '',
+        '## Chart',
+        '',
+        '![Revenue chart](chart.png)',
+        '',
+      ].join('\n'),
+      'utf-8'
+    );
+    pptxFile = path.join(workDir, 'deck.pptx');
+    const result = await convertMarkdownToPptx(sourceFile, { outputPath: pptxFile });
+    expect(result.success).toBe(true);
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('按幻灯片输出 Markdown：标题、嵌套列表、表格和 Note: 备注', async () => {
+    const result = await readPptx(pptxFile);
+
+    expect(result.success).toBe(true);
+    const slides = result.content.split('\n\n---\n\n');
+    expect(slides.slice(0, 3)).toEqual([
+      '# Deck Title',
+      '## Agenda\n\n- First point\n- Second point\n    - Nested\n\nNote: Speak slowly.',
+      '## Numbers\n\n| Name | Qty |\n| --- | --- |\n| Apple | 3 |\n| Pear | 5 |',
+    ]);
+    expect(result.slides.map(slide => slide.title)).toEqual([
+      'Deck Title',
+      'Agenda',
+      'Numbers',
+      'Chart',
+    ]);
+    expect(result.slides[1]).toMatchObject({
+      text: 'First point\nSecond point\nNested',
+      notes: 'Speak slowly.',
+    });
+    expect(result.metadata.slideCount).toBe(4);
+  });
+
+  it('指定 imageDir 时写出图片并在 Markdown 中引用实际路径', async () => {
+    const imageDir = path.join(workDir, 'images');
+    const result = await readPptx(pptxFile, { imageDir });
+
+    const [image] = result.slides[3].images;
+    expect(image).toMatchObject({ contentType: 'image/png' });
+    expect(path.dirname(image.path!)).toBe(imageDir);
+    expect(await fs.readFile(image.path!)).toEqual(PIXEL_PNG);
+    expect(result.content).toContain(`](${image.path})`);
+  });
+
+  it('HTML 输出嵌套列表与表格', async () => {
+    const result = await readPptx(pptxFile, { format: 'html' });
+
+    expect(result.success).toBe(true);
+    const html = result.content.replace(/\s*\n\s*/g, '');
+    expect(html).toContain(
+      '<ul><li>First point</li><li>Second point<ul><li>Nested</li></ul></li></ul>'
+    );
+    expect(html).toContain(
+      '<table><tr><th>Name</th><th>Qty</th></tr><tr><td>Apple</td><td>3</td></tr>'
+    );
+    expect(html).toMatch(/<img src="data:image\/png;base64,[^"]+" alt="[^"]*">/);
+  });
+});
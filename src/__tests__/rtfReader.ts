@@ -0,0 +1,59 @@
+/**
+ * RTF 读取测试
+ * 文档信息、标题、字符格式、Unicode 与代码页字符、合并单元格和脚注
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readRtf } from '../tools/rtfReader';
+
+const MEMO_RTF = String.raw`{\rtf1\ansi\ansicpg1252\deff0{\fonttbl{\f0 Times New Roman;}}
+{\info{\title Memo}{\author Jane}}
+{\pard\s1\outlinelevel0\b\fs32 Memo\par}
+{\pard Plain \b bold\b0  and \i italic\i0  caf\'e9 \uc1\u20013?\u25991?\par}
+\trowd\cellx2000\cellx4000 \intbl A\cell B\cell\row
+\trowd\clmgf\cellx2000\clmrg\cellx4000 \intbl Wide\cell\cell\row
+{\pard Note{\super\chftn}{\footnote\pard\chftn  Footnote text.}\par}
+}`;
+
+describe('readRtf', () => {
+  let workDir: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rtf-reader-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('RTF 转为 HTML：格式、表格合并与脚注', async () => {
+    const filePath = path.join(workDir, 'memo.rtf');
+    await fs.writeFile(filePath, MEMO_RTF, 'latin1');
+
+    const result = await readRtf(filePath);
+
+    expect(result.success).toBe(true);
+    expect(result.metadata).toMatchObject({ title: 'Memo', author: 'Jane', notesCount: 1 });
+    expect(result.content).toContain('<h1>Memo</h1>');
+    expect(result.content).toContain(
+      '<p>Plain <strong>bold</strong> and <em>italic</em> café 中文</p>'
+    );
+    expect(result.content).toContain(
+      '<table>\n<tr><td>A</td><td>B</td></tr>\n<tr><td colspan="2">Wide</td></tr>\n</table>'
+    );
+    expect(result.content).toMatch(/<p>Note<sup class="docx-note-ref"><a href="#fn-1"/);
+    expect(result.content).toMatch(/<li id="fn-1"[^>]*><p>Footnote text\.<\/p>/);
+  });
+
+  it('不是 RTF 的文件返回错误', async () => {
+    const filePath = path.join(workDir, 'plain.rtf');
+    await fs.writeFile(filePath, 'plain text');
+
+    const result = await readRtf(filePath);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeTruthy();
+  });
+});
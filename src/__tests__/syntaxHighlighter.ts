@@ -0,0 +1,71 @@
+/**
+ * 代码高亮测试
+ * 同一套分词结果用于 HTML 的 hl-* 标记和 DOCX 的着色文本
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { SyntaxHighlighter } from '../tools/syntaxHighlighter';
+import { convertMarkdownToHtml } from '../tools/markdownToHtmlConverter';
+import { convertMarkdownToDocx } from '../tools/markdownToDocxConverter';
+
+const MARKDOWN = '# Code\n\n```js\nconst x = 42; // answer\nfunction f() { return "hi"; }\n```\n';
+
+describe('SyntaxHighlighter', () => {
+  const highlighter = new SyntaxHighlighter();
+  let workDir: string;
+  let sourceFile: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'syntax-highlight-'));
+    sourceFile = path.join(workDir, 'code.md');
+    await fs.writeFile(sourceFile, MARKDOWN, 'utf-8');
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('按语言规则分词，别名解析为语言名', () => {
+    expect(highlighter.tokenize('const x = 42; // answer', 'js')).toEqual([
+      { type: 'keyword', text: 'const' },
+      { type: 'plain', text: ' x ' },
+      { type: 'operator', text: '=' },
+      { type: 'plain', text: ' ' },
+      { type: 'number', text: '42' },
+      { type: 'plain', text: '; ' },
+      { type: 'comment', text: '// answer' },
+    ]);
+    expect(highlighter.resolveLanguage('py')).toBe('python');
+    expect(highlighter.resolveLanguage('unknown-language')).toBeNull();
+  });
+
+  it('Markdown 转 HTML 时代码块带 hl-* 标记和对应样式', async () => {
+    const result = await convertMarkdownToHtml(sourceFile, { enableSyntaxHighlighting: true });
+
+    expect(result.success).toBe(true);
+    expect(result.content).toContain(
+      '<pre><code class="language-js hl"><span class="hl-keyword">const</span> x <span class="hl-operator">=</span>'
+    );
+    expect(result.content).toContain('<span class="hl-string">"hi"</span>');
+    expect(result.content).toMatch(/\.hl-keyword\s*\{/);
+  });
+
+  it('Markdown 转 DOCX 时代码块按分词着色', async () => {
+    const result = await convertMarkdownToDocx(sourceFile, {});
+
+    expect(result.success).toBe(true);
+    const zip = await JSZip.loadAsync(result.content!);
+    const documentXml = await zip.file('word/document.xml')!.async('string');
+    const colorOf = (text: string) =>
+      new RegExp(
+        `<w:color w:val="([0-9a-fA-F]{6})"/>(?:(?!</w:rPr>).)*</w:rPr>(?:<w:br/>)?<w:t xml:space="preserve">${text}</w:t>`
+      ).exec(documentXml)?.[1];
+    expect(colorOf('const')).toBeDefined();
+    expect(colorOf('const')).toBe(colorOf('function'));
+    expect(colorOf('const')).not.toBe(colorOf(' x '));
+    expect(colorOf('// answer')).not.toBe(colorOf('const'));
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * XLSX 读取测试
+ * 共享字符串、内置与自定义数字格式、日期、合并单元格和隐藏工作表
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { readXlsx } from '../tools/xlsxReader';
+
+const SHEET_NS = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// 两个工作表：Sales 含表头合并与各类数字格式，Archive 为隐藏工作表
+async function createXlsx(filePath: string): Promise<void> {
+  const zip = new JSZip();
+  zip.file(
+    '[Content_Types].xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+</Types>`
+  );
+  zip.file(
+    '_rels/.rels',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`
+  );
+  zip.file(
+    'xl/workbook.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<workbook ${SHEET_NS} xmlns:r="${REL_NS}"><sheets>
+  <sheet name="Sales" sheetId="1" r:id="rId1"/>
+  <sheet name="Archive" sheetId="2" state="hidden" r:id="rId2"/>
+</sheets></workbook>`
+  );
+  zip.file(
+    'xl/_rels/workbook.xml.rels',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>
+  <Relationship Id="rId2" Type="${REL_NS}/worksheet" Target="worksheets/sheet2.xml"/>
+  <Relationship Id="rId3" Type="${REL_NS}/sharedStrings" Target="sharedStrings.xml"/>
+  <Relationship Id="rId4" Type="${REL_NS}/styles" Target="styles.xml"/>
+</Relationships>`
+  );
+  zip.file(
+    'xl/sharedStrings.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<sst ${SHEET_NS}>
+  <si><t>Quarterly Sales</t></si>
+  <si><t>Region</t></si>
+  <si><t>Revenue</t></si>
+  <si><t>Date</t></si>
+  <si><t>Share</t></si>
+  <si><r><t>North</t></r><r><rPr><b/></rPr><t xml:space="preserve"> | East</t></r></si>
+  <si><t>South</t></si>
+</sst>`
+  );
+  // cellXfs：0 常规，1 自定义千分位两位小数，2 内置日期 14，3 内置百分比 9
+  zip.file(
+    'xl/styles.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<styleSheet ${SHEET_NS}>
+  <numFmts count="1"><numFmt numFmtId="164" formatCode="#,##0.00"/></numFmts>
+  <cellXfs count="4">
+    <xf numFmtId="0"/><xf numFmtId="164"/><xf numFmtId="14"/><xf numFmtId="9"/>
+  </cellXfs>
+</styleSheet>`
+  );
+  zip.file(
+    'xl/worksheets/sheet1.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<worksheet ${SHEET_NS}><sheetData>
+  <row r="1"><c r="A1" t="s"><v>0</v></c></row>
+  <row r="2"><c r="A2" t="s"><v>1</v></c><c r="B2" t="s"><v>2</v></c><c r="C2" t="s"><v>3</v></c><c r="D2" t="s"><v>4</v></c></row>
+  <row r="3"><c r="A3" t="s"><v>5</v></c><c r="B3" s="1"><v>1234567.891</v></c><c r="C3" s="2"><v>45292</v></c><c r="D3" s="3"><v>0.25</v></c></row>
+  <row r="4"><c r="A4" t="s"><v>6</v></c><c r="B4" s="1"><f>B3/2</f><v>617283.9455</v></c><c r="C4" t="str"><v>n/a</v></c><c r="D4" t="b"><v>1</v></c></row>
+</sheetData>
+<mergeCells count="1"><mergeCell ref="A1:D1"/></mergeCells>
+</worksheet>`
+  );
+  zip.file(
+    'xl/worksheets/sheet2.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<worksheet ${SHEET_NS}><sheetData>
+  <row r="2"><c r="B2" t="inlineStr"><is><t>Old data</t></is></c></row>
+</sheetData></worksheet>`
+  );
+  await fs.writeFile(filePath, await zip.generateAsync({ type: 'nodebuffer' }));
+}
+
+describe('readXlsx', () => {
+  let workDir: string;
+  let xlsxFile: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'xlsx-reader-'));
+    xlsxFile = path.join(workDir, 'sales.xlsx');
+    await createXlsx(xlsxFile);
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('按工作表输出 Markdown 表格，应用数字格式并转义单元格中的竖线', async () => {
+    const result = await readXlsx(xlsxFile);
+
+    expect(result.success).toBe(true);
+    expect(result.content).toBe(
+      [
+        '## Sales',
+        '',
+        '| Quarterly Sales |  |  |  |',
+        '| --- | --- | --- | --- |',
+        '| Region | Revenue | Date | Share |',
+        '| North \\| East | 1,234,567.89 | 2024-01-01 | 25% |',
+        '| South | 617,283.95 | n/a | TRUE |',
+        '',
+        '## Archive',
+        '',
+        '| Old data |',
+        '| --- |',
+      ].join('\n')
+    );
+    expect(result.sheets).toEqual([
+      {
+        name: 'Sales',
+        hidden: false,
+        range: 'A1:D4',
+        rowCount: 4,
+        columnCount: 4,
+        mergedCells: ['A1:D1'],
+        truncated: false,
+      },
+      {
+        name: 'Archive',
+        hidden: true,
+        range: 'B2:B2',
+        rowCount: 1,
+        columnCount: 1,
+        mergedCells: [],
+        truncated: false,
+      },
+    ]);
+    expect(result.metadata.sheetCount).toBe(2);
+  });
+
+  it('HTML 输出保留合并单元格并右对齐数字', async () => {
+    const result = await readXlsx(xlsxFile, { format: 'html' });
+
+    expect(result.success).toBe(true);
+    expect(result.content).toContain('<tr><th colspan="4">Quarterly Sales</th></tr>');
+    expect(result.content).toContain(
+      '<tr><td>North | East</td><td class="num">1,234,567.89</td><td class="num">2024-01-01</td><td class="num">25%</td></tr>'
+    );
+    expect(result.content).toContain('<section class="sheet hidden">');
+  });
+
+  it('maxRows 截断时在表格后注明完整区域', async () => {
+    const result = await readXlsx(xlsxFile, { maxRows: 2 });
+
+    expect(result.sheets[0]).toMatchObject({ rowCount: 2, truncated: true, range: 'A1:D4' });
+    expect(result.content).toContain('_（仅显示前 2 行，完整区域 A1:D4）_');
+    expect(result.content).not.toContain('North');
+  });
+});
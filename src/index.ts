@@ -29,7 +29,18 @@ function validatePath(inputPath: string, allowedBasePaths: string[] = []): strin
 }
 
 
-import { convertDocxToHtmlWithOOXML } from './tools/ooxmlParser';
+import { convertDocxToHtmlWithOOXML, extractDocxComments, RevisionMode } from './tools/ooxmlParser';
+import { extractPdfText } from './tools/pdfTextExtractor';
+import { readXlsx } from './tools/xlsxReader';
+import { readPptx } from './tools/pptxReader';
+import { readOdf } from './tools/odfReader';
+import { readRtf } from './tools/rtfReader';
+import { writeOdt } from './tools/odtWriter';
+import { writeEpub } from './tools/epubWriter';
+import { convertPdfToHtml } from './tools/pdfLayoutAnalyzer';
+import { renderHtmlToPdf } from './tools/htmlToPdfRenderer';
+import { batchConvert } from './tools/batchConverter';
+import { executePlan } from './tools/planExecutor';
 
 // 安全的HTML内容处理函数，防止XSS攻击
 function sanitizeHtmlForOutput(html: string): string {
@@ -54,6 +65,20 @@ function sanitizeHtmlForOutput(html: string): string {
 
 import { convertMarkdownToHtml } from './tools/markdownToHtmlConverter';
 import { convertMarkdownToDocx } from './tools/markdownToDocxConverter';
+import { convertMarkdownToPptx } from './tools/markdownToPptxConverter';
+import { fillDocxTemplate } from './tools/docxTemplateFiller';
+import { compareDocuments } from './tools/documentComparer';
+import {
+  mergeDocuments,
+  MergeFormat,
+  FORMAT_EXTENSIONS as MERGE_EXTENSIONS,
+} from './tools/documentMerger';
+import { splitDocument } from './tools/documentSplitter';
+import { editPdfPages } from './tools/pdfPageEditor';
+import { embedTextFont, stampPdf } from './tools/pdfStamper';
+import { setPdfMetadata, PdfMetadata } from './tools/pdfMetadata';
+import { decryptPdf, encryptPdf } from './tools/pdfEncryption';
+import { OoxmlPackage } from './tools/ooxmlPackage';
 import {
   convertHtmlToPdf,
   convertHtmlToMarkdown,
@@ -65,13 +90,13 @@ import { EnhancedHtmlToMarkdownConverter } from './tools/enhancedHtmlToMarkdownC
 import { ConversionPlanner } from './tools/conversionPlanner';
 
 // 导出关键函数，使其可以被外部模块直接引用
-// 注意：PDF 转换需要先转换为 HTML，然后使用 playwright-mcp 完成最终的 PDF 转换
-// 任何格式 → PDF 的转换流程：原格式 → HTML → PDF (通过 playwright-mcp)
+// 任何格式 → PDF 的转换流程：原格式 → HTML → PDF (内置排版引擎直接输出)
 export {
   convertDocxToPdf,
   convertDocxToMarkdown,
   convertDocxToTxt,
   convertMarkdownToDocx,
+  convertMarkdownToPptx,
   convertHtmlToPdf,
   convertHtmlToMarkdown,
   convertHtmlToTxt,
@@ -198,6 +223,8 @@ interface ReadDocumentOptions {
   preserveFormatting?: boolean;
   imageOutputDir?: string;
   saveImages?: boolean;
+  revisionMode?: RevisionMode;
+  password?: string;
 }
 
 interface WriteDocumentOptions {
@@ -219,6 +246,8 @@ interface ConvertDocumentOptions {
     preserveCase?: boolean;
   }>;
   useInternalPlaywright?: boolean;
+  revisionMode?: RevisionMode;
+  language?: string; // ODT/EPUB 输出的文档语言
 }
 
 interface WatermarkOptions {
@@ -259,6 +288,7 @@ async function tryCustomOOXMLParser(filePath: string, options: ReadDocumentOptio
     const ooxmlResult = await convertDocxToHtmlWithOOXML(filePath, {
       preserveImages: options.saveImages !== false,
       debug: false,
+      revisionMode: options.revisionMode,
     });
 
     if (ooxmlResult.success && ooxmlResult.content) {
@@ -267,7 +297,10 @@ async function tryCustomOOXMLParser(filePath: string, options: ReadDocumentOptio
       
       // 验证OOXML解析器的样式保留效果
       if (validateOOXMLStylesInContent(content)) {
-        return createSuccessfulDocxResult(content, metadata, options);
+        return {
+          ...createSuccessfulDocxResult(content, metadata, options),
+          comments: ooxmlResult.comments,
+        };
       }
     }
   } catch (ooxmlError: any) {
@@ -331,7 +364,35 @@ function createSuccessfulDocxResult(content: string, metadata: any, options: Rea
 
 // fallbackToBasicMammoth函数已删除，只使用OOXML解析器
 
-async function processDocxAsText(filePath: string) {
+async function processDocxAsText(filePath: string, options: ReadDocumentOptions) {
+  // 指定修订模式时通过OOXML解析器处理修订，再提取纯文本
+  if (options.revisionMode) {
+    const ooxmlResult = await convertDocxToHtmlWithOOXML(filePath, {
+      preserveImages: false,
+      debug: false,
+      revisionMode: options.revisionMode,
+    });
+    if (!ooxmlResult.success) {
+      throw new Error(ooxmlResult.error || 'OOXML解析器转换失败');
+    }
+    const $ = cheerio.load(ooxmlResult.content);
+    $('style, script, .docx-header, .docx-footer').remove();
+    return {
+      success: true,
+      content: $('body')
+        .text()
+        .replace(/\n{3,}/g, '\n\n')
+        .trim(),
+      comments: ooxmlResult.comments,
+      metadata: {
+        format: 'text',
+        originalFormat: 'docx',
+        converter: 'custom-ooxml-parser',
+        revisionMode: options.revisionMode,
+      },
+    };
+  }
+
   // 使用WordExtractor提取纯文本
   try {
     const extractor = new WordExtractor();
@@ -339,6 +400,7 @@ async function processDocxAsText(filePath: string) {
     return {
       success: true,
       content: extracted.getBody(),
+      comments: await extractDocxComments(filePath),
       metadata: { format: 'text', originalFormat: 'docx', converter: 'word-extractor' },
     };
   } catch (error) {
@@ -396,7 +458,7 @@ async function processMarkdownAsText(filePath: string) {
 async function handleDocxFile(filePath: string, options: ReadDocumentOptions) {
   return options.preserveFormatting 
     ? await processDocxWithFormatting(filePath, options)
-    : await processDocxAsText(filePath);
+    : await processDocxAsText(filePath, options);
 }
 
 // 辅助函数：处理Markdown文件
@@ -406,6 +468,107 @@ async function handleMarkdownFile(filePath: string, options: ReadDocumentOptions
     : await processMarkdownAsText(filePath);
 }
 
+// 辅助函数：处理PDF文件
+async function handlePdfFile(filePath: string, options: ReadDocumentOptions) {
+  if (options.preserveFormatting) {
+    const htmlResult = await convertPdfToHtml(filePath, { password: options.password });
+    return {
+      success: htmlResult.success,
+      content: htmlResult.content,
+      metadata: {
+        ...htmlResult.metadata,
+        format: 'html',
+        originalFormat: 'pdf',
+        standalone: true,
+      },
+    };
+  }
+
+  const result = await extractPdfText(filePath, { password: options.password });
+  return {
+    success: result.success,
+    content: result.text,
+    pages: result.pages.map(page => ({ pageNumber: page.pageNumber, text: page.text })),
+    metadata: {
+      ...result.metadata,
+      format: 'text',
+      originalFormat: 'pdf',
+      converter: 'pdf-text-extractor',
+    },
+  };
+}
+
+// 辅助函数：处理XLSX文件，每个工作表输出为一个表格
+async function handleXlsxFile(filePath: string, options: ReadDocumentOptions) {
+  const result = await readXlsx(filePath, {
+    format: options.preserveFormatting ? 'html' : 'markdown',
+  });
+  if (!result.success) {
+    throw new Error(result.error || 'XLSX读取失败');
+  }
+  return result;
+}
+
+// 辅助函数：处理PPTX文件，按幻灯片顺序输出
+async function handlePptxFile(filePath: string, options: ReadDocumentOptions) {
+  const result = await readPptx(filePath, {
+    format: options.preserveFormatting ? 'html' : 'markdown',
+    imageDir: options.imageOutputDir,
+  });
+  if (!result.success) {
+    throw new Error(result.error || 'PPTX读取失败');
+  }
+  return result;
+}
+
+// 辅助函数：处理ODT/ODS文件，保留格式时输出HTML，否则输出纯文本
+async function handleOdfFile(filePath: string, options: ReadDocumentOptions) {
+  const result = await readOdf(filePath);
+  if (!result.success) {
+    throw new Error(result.error || 'OpenDocument读取失败');
+  }
+  return options.preserveFormatting ? result : toPlainTextResult(result);
+}
+
+// 辅助函数：处理RTF文件，保留格式时输出HTML，否则输出纯文本
+async function handleRtfFile(filePath: string, options: ReadDocumentOptions) {
+  const result = await readRtf(filePath);
+  if (!result.success) {
+    throw new Error(result.error || 'RTF读取失败');
+  }
+  return options.preserveFormatting ? result : toPlainTextResult(result);
+}
+
+function toPlainTextResult(result: {
+  success: boolean;
+  content: string;
+  metadata: Record<string, any>;
+}) {
+  const metadata = { ...result.metadata };
+  delete metadata.standalone;
+  return {
+    success: true,
+    content: htmlToPlainText(result.content),
+    metadata: { ...metadata, format: 'text' },
+  };
+}
+
+// 将读取器生成的 HTML 转为纯文本：块元素分行，表格单元格以制表符分隔
+function htmlToPlainText(html: string): string {
+  const $ = cheerio.load(html);
+  // DOCX 页眉页脚只用于打印版面，不进入纯文本
+  $('head, style, script, a.docx-note-backref, .docx-header, .docx-footer').remove();
+  $('br').replaceWith('\n');
+  $('td, th').after('\t');
+  $('p, h1, h2, h3, h4, h5, h6, li, pre, blockquote, tr, section, table, hr').after('\n');
+  return $('body')
+    .text()
+    .replace(/\t+\n/g, '\n')
+    .replace(/[ \u00a0]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
 // 辅助函数：处理其他文件类型
 async function handleOtherFile(filePath: string, ext: string) {
   const content = await fs.readFile(filePath, 'utf-8');
@@ -423,9 +586,20 @@ async function processFileByExtension(filePath: string, ext: string, options: Re
       return await handleDocxFile(filePath, options);
     case '.doc':
       return await processDocFile(filePath);
+    case '.pdf':
+      return await handlePdfFile(filePath, options);
     case '.md':
     case '.markdown':
       return await handleMarkdownFile(filePath, options);
+    case '.xlsx':
+      return await handleXlsxFile(filePath, options);
+    case '.pptx':
+      return await handlePptxFile(filePath, options);
+    case '.odt':
+    case '.ods':
+      return await handleOdfFile(filePath, options);
+    case '.rtf':
+      return await handleRtfFile(filePath, options);
     default:
       return await handleOtherFile(filePath, ext);
   }
@@ -547,7 +721,9 @@ function resolveConvertOutputPath(inputPath: string, outputPath?: string, target
       'docx': '.docx',
       'markdown': '.md',
       'md': '.md',
-      'txt': '.txt'
+      'txt': '.txt',
+      'odt': '.odt',
+      'epub': '.epub'
     };
     outputExt = formatToExt[targetFormat.toLowerCase()] || '.html';
   } else {
@@ -627,6 +803,7 @@ async function convertDocxToMarkdownSpecial(inputPath: string, finalOutputPath:
   try {
     const result = await convertDocxToMarkdown(inputPath, finalOutputPath, {
       preserveFormatting: options.preserveFormatting !== false,
+      revisionMode: options.revisionMode,
     });
 
     if (result.success) {
@@ -650,7 +827,11 @@ async function convertDocxToMarkdownSpecial(inputPath: string, finalOutputPath:
   }
 }
 
-async function convertDocxToHtmlSpecial(inputPath: string, finalOutputPath: string) {
+async function convertDocxToHtmlSpecial(
+  inputPath: string,
+  finalOutputPath: string,
+  options: ConvertDocumentOptions
+) {
   try {
     const validatedInputPath = validatePath(inputPath);
     
@@ -658,6 +839,7 @@ async function convertDocxToHtmlSpecial(inputPath: string, finalOutputPath: stri
     const ooxmlResult = await convertDocxToHtmlWithOOXML(validatedInputPath, {
       preserveImages: true,
       debug: false,
+      revisionMode: options.revisionMode,
     });
 
     if (ooxmlResult.success && ooxmlResult.content) {
@@ -667,11 +849,13 @@ async function convertDocxToHtmlSpecial(inputPath: string, finalOutputPath: stri
       return {
         success: true,
         outputPath: finalOutputPath,
+        comments: ooxmlResult.comments,
         metadata: {
           originalFormat: 'docx',
           targetFormat: 'html',
           converter: 'custom-ooxml-parser',
           stylesPreserved: true,
+          revisionMode: ooxmlResult.metadata.revisionMode,
         },
       };
     }
@@ -714,6 +898,228 @@ async function convertHtmlToPdfSpecial(inputPath: string, finalOutputPath: strin
   }
 }
 
+async function convertPdfSpecial(
+  inputPath: string,
+  finalOutputPath: string,
+  outputExt: string,
+  options: ConvertDocumentOptions
+) {
+  const targetFormat = outputExt.slice(1);
+  try {
+    const validatedInputPath = validatePath(inputPath);
+    await fs.mkdir(path.dirname(finalOutputPath), { recursive: true });
+
+    if (outputExt === '.txt') {
+      const textResult = await extractPdfText(validatedInputPath);
+      const text = options.textReplacements
+        ? applyTextReplacements(textResult.text, options.textReplacements)
+        : textResult.text;
+      await fs.writeFile(finalOutputPath, text, 'utf-8');
+      return {
+        success: true,
+        outputPath: finalOutputPath,
+        metadata: {
+          ...textResult.metadata,
+          originalFormat: 'pdf',
+          targetFormat,
+          converter: 'pdf-text-extractor',
+        },
+      };
+    }
+
+    // 通过版面分析生成语义化 HTML，再交给已有的 HTML 转换器
+    const htmlResult = await convertPdfToHtml(validatedInputPath);
+    const html = options.textReplacements
+      ? applyTextReplacements(htmlResult.content, options.textReplacements)
+      : htmlResult.content;
+    const layoutMetadata = { ...htmlResult.metadata, originalFormat: 'pdf', targetFormat };
+
+    if (outputExt === '.html') {
+      await fs.writeFile(finalOutputPath, html, 'utf-8');
+      return { success: true, outputPath: finalOutputPath, metadata: layoutMetadata };
+    }
+
+    const tempHtmlPath = createSecureTempPath('pdf_layout', '.html');
+    await fs.writeFile(tempHtmlPath, html, 'utf-8');
+    try {
+      const result =
+        outputExt === '.docx'
+          ? await convertHtmlToDocxSpecial(tempHtmlPath, finalOutputPath, options)
+          : await convertHtmlToMarkdownSpecial(tempHtmlPath, finalOutputPath, options);
+      if (!result.success) {
+        return result;
+      }
+      return {
+        ...result,
+        metadata: {
+          ...result.metadata,
+          ...layoutMetadata,
+          converter: `pdf-layout-analyzer + ${result.metadata?.converter}`,
+        },
+      };
+    } finally {
+      await fs.unlink(tempHtmlPath).catch(() => {});
+    }
+  } catch (conversionError: any) {
+    return {
+      success: false,
+      error: `PDF 转 ${targetFormat.toUpperCase()} 失败: ${conversionError.message}`,
+    };
+  }
+}
+
+// OpenDocument/RTF 读取器直接生成 HTML；ODT/EPUB 写入器以 HTML 为输入
+const HTML_BRIDGE_INPUTS = ['.odt', '.ods', '.rtf'];
+const HTML_BRIDGE_OUTPUTS = ['.odt', '.epub'];
+
+// 读取任意支持的输入为 HTML，作为中转格式
+async function readDocumentAsHtml(
+  inputPath: string,
+  inputExt: string,
+  options: ConvertDocumentOptions
+): Promise<{ html: string; title?: string }> {
+  switch (inputExt) {
+    case '.odt':
+    case '.ods':
+    case '.rtf': {
+      const result = inputExt === '.rtf' ? await readRtf(inputPath) : await readOdf(inputPath);
+      if (!result.success) {
+        throw new Error(result.error ?? '文档读取失败');
+      }
+      return { html: result.content, title: result.metadata.title };
+    }
+    case '.md':
+    case '.markdown': {
+      const result = await convertMarkdownToHtml(inputPath, { theme: 'github', standalone: true });
+      if (!result.success || !result.content) {
+        throw new Error(result.error ?? 'Markdown 到 HTML 转换失败');
+      }
+      return { html: result.content };
+    }
+    case '.html':
+    case '.htm':
+      return { html: await fs.readFile(inputPath, 'utf-8') };
+    case '.docx': {
+      const result = await convertDocxToHtmlWithOOXML(inputPath, {
+        preserveImages: true,
+        debug: false,
+        revisionMode: options.revisionMode,
+      });
+      if (!result.success || !result.content) {
+        throw new Error('OOXML解析器转换失败，无法处理该DOCX文件');
+      }
+      return { html: result.content };
+    }
+    case '.pdf':
+      return { html: (await convertPdfToHtml(inputPath)).content };
+    default: {
+      const text = await fs.readFile(inputPath, 'utf-8');
+      const paragraphs = text
+        .split(/\r?\n\s*\r?\n/)
+        .filter((paragraph: string) => paragraph.trim())
+        .map(
+          (paragraph: string) => `<p>${escapeHtml(paragraph.trim()).replace(/\r?\n/g, '<br>')}</p>`
+        );
+      return { html: `<!DOCTYPE html><html><body>${paragraphs.join('\n')}</body></html>` };
+    }
+  }
+}
+
+async function convertViaHtmlSpecial(
+  inputPath: string,
+  finalOutputPath: string,
+  inputExt: string,
+  outputExt: string,
+  options: ConvertDocumentOptions
+) {
+  const targetFormat = outputExt.slice(1);
+  try {
+    const validatedInputPath = validatePath(inputPath);
+    await fs.mkdir(path.dirname(finalOutputPath), { recursive: true });
+    const { html: sourceHtml, title } = await readDocumentAsHtml(
+      validatedInputPath,
+      inputExt,
+      options
+    );
+    const html = options.textReplacements
+      ? applyTextReplacements(sourceHtml, options.textReplacements)
+      : sourceHtml;
+    const baseDir = path.dirname(path.resolve(validatedInputPath));
+    const sourceMetadata = { originalFormat: inputExt.slice(1), targetFormat };
+
+    switch (outputExt) {
+      case '.html':
+        await fs.writeFile(finalOutputPath, html, 'utf-8');
+        return {
+          success: true,
+          outputPath: finalOutputPath,
+          metadata: { ...sourceMetadata, converter: 'html-bridge' },
+        };
+      case '.txt':
+        await fs.writeFile(finalOutputPath, htmlToPlainText(html), 'utf-8');
+        return {
+          success: true,
+          outputPath: finalOutputPath,
+          metadata: { ...sourceMetadata, converter: 'html-bridge' },
+        };
+      case '.pdf': {
+        const { pageCount } = await renderHtmlToPdf(html, finalOutputPath, { baseDir });
+        return {
+          success: true,
+          outputPath: finalOutputPath,
+          pageCount,
+          metadata: { ...sourceMetadata, converter: 'html-layout-engine' },
+        };
+      }
+      case '.odt':
+      case '.epub': {
+        const writerOptions = {
+          title,
+          language: options.language,
+          baseDir,
+          outputPath: finalOutputPath,
+        };
+        const result =
+          outputExt === '.odt'
+            ? await writeOdt(html, writerOptions)
+            : await writeEpub(html, writerOptions);
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        return {
+          success: true,
+          outputPath: finalOutputPath,
+          metadata: { ...result.metadata, ...sourceMetadata },
+        };
+      }
+      case '.docx':
+      case '.md': {
+        const tempHtmlPath = createSecureTempPath('html_bridge', '.html');
+        await fs.writeFile(tempHtmlPath, html, 'utf-8');
+        try {
+          const result =
+            outputExt === '.docx'
+              ? await convertHtmlToDocxSpecial(tempHtmlPath, finalOutputPath, options)
+              : await convertHtmlToMarkdownSpecial(tempHtmlPath, finalOutputPath, options);
+          if (!result.success) {
+            return result;
+          }
+          return { ...result, metadata: { ...result.metadata, ...sourceMetadata } };
+        } finally {
+          await fs.unlink(tempHtmlPath).catch(() => {});
+        }
+      }
+      default:
+        throw new Error(`不支持的目标格式: ${targetFormat}`);
+    }
+  } catch (conversionError: any) {
+    return {
+      success: false,
+      error: `${inputExt.slice(1).toUpperCase()} 转 ${targetFormat.toUpperCase()} 失败: ${conversionError.message}`,
+    };
+  }
+}
+
 function applyRegexReplacement(content: string, replacement: any): string {
   if (replacement.oldText.length > 100) {
     return content;
@@ -755,6 +1161,7 @@ async function performGenericConversion(inputPath: string, finalOutputPath: stri
   // Read the input document
   const readResult = await readDocument(inputPath, {
     preserveFormatting: options.preserveFormatting,
+    revisionMode: options.revisionMode,
   });
   if (!readResult.success) {
     return readResult;
@@ -785,6 +1192,17 @@ async function performGenericConversion(inputPath: string, finalOutputPath: stri
     }
   }
 
+  // PDF 输出：HTML 内容直接排版，纯文本按原样换行排版
+  if (outputExt === '.pdf') {
+    const html = /<html|<!DOCTYPE/i.test(content)
+      ? content
+      : `<pre style="white-space: pre-wrap; font-family: sans-serif">${escapeHtml(content)}</pre>`;
+    const { pageCount } = await renderHtmlToPdf(html, finalOutputPath, {
+      baseDir: path.dirname(inputPath),
+    });
+    return { success: true, outputPath: finalOutputPath, pageCount };
+  }
+
   // 对于其他格式，直接写入文件
   return await writeDocument(content, finalOutputPath);
 }
@@ -823,14 +1241,31 @@ async function convertDocument(
     }
 
     if (inputExt === '.docx' && outputExt === '.html') {
-      return await convertDocxToHtmlSpecial(inputPath, finalOutputPath);
+      return await convertDocxToHtmlSpecial(inputPath, finalOutputPath, options);
+    }
+
+    if (inputExt === '.pdf' && ['.html', '.md', '.docx', '.txt'].includes(outputExt)) {
+      return await convertPdfSpecial(inputPath, finalOutputPath, outputExt, options);
     }
 
-    // Handle HTML to PDF conversion - 需要特殊处理
+    // Handle PDF output - 内置排版引擎直接生成
     if (inputExt === '.html' && outputExt === '.pdf') {
       return await convertHtmlToPdfSpecial(inputPath, finalOutputPath, options);
     }
 
+    if (inputExt === '.docx' && outputExt === '.pdf') {
+      return await convertDocxToPdf(inputPath, finalOutputPath, options);
+    }
+
+    if (inputExt === '.md' && outputExt === '.pdf') {
+      return await convertMarkdownToPdf(inputPath, finalOutputPath, options);
+    }
+
+    // OpenDocument/RTF 输入与 ODT/EPUB 输出经由 HTML 中转
+    if (HTML_BRIDGE_INPUTS.includes(inputExt) || HTML_BRIDGE_OUTPUTS.includes(outputExt)) {
+      return await convertViaHtmlSpecial(inputPath, finalOutputPath, inputExt, outputExt, options);
+    }
+
     // Handle generic conversions
     return await performGenericConversion(inputPath, finalOutputPath, options);
   } catch (error: any) {
@@ -850,66 +1285,21 @@ function resolvePdfOutputPath(inputPath: string, outputPath?: string): string {
 }
 
 function checkWatermarkAndQRConfig(options: any): { hasWatermark: boolean, hasQRCode: boolean } {
+  // 存在默认水印图片时总是添加；用户要求时即使没有图片也使用默认文字
   const hasWatermark =
-    defaultResourcePaths.defaultWatermarkPath &&
-    fsSync.existsSync(defaultResourcePaths.defaultWatermarkPath);
+    !!options.addWatermark ||
+    !!(
+      defaultResourcePaths.defaultWatermarkPath &&
+      fsSync.existsSync(defaultResourcePaths.defaultWatermarkPath)
+    );
   const hasQRCode =
-    options.addQRCode &&
+    (options.addQrCode || options.addQRCode) &&
     defaultResourcePaths.defaultQrCodePath &&
     fsSync.existsSync(defaultResourcePaths.defaultQrCodePath);
 
   return { hasWatermark, hasQRCode };
 }
 
-function createMcpCommands(result: any, hasWatermark: boolean, hasQRCode: boolean): string[] {
-  const mcpCommands = [
-    `browser_navigate("file://${result.htmlPath}")`,
-    `browser_wait_for({ time: 3 })`,
-    `browser_pdf_save({ filename: "${result.outputPath}" })`,
-  ];
-
-  // 如果需要添加水印或二维码，添加后处理步骤
-  if (hasWatermark || hasQRCode) {
-    mcpCommands.push('# PDF后处理步骤:');
-    if (hasWatermark) {
-      mcpCommands.push(`# 自动添加水印: ${defaultResourcePaths.defaultWatermarkPath}`);
-    }
-    if (hasQRCode) {
-      mcpCommands.push(`# 添加二维码: ${defaultResourcePaths.defaultQrCodePath}`);
-    }
-  }
-
-  return mcpCommands;
-}
-
-function createPostProcessingConfig(hasWatermark: boolean, hasQRCode: boolean) {
-  return {
-    watermark: hasWatermark
-      ? {
-          enabled: true,
-          imagePath: defaultResourcePaths.defaultWatermarkPath,
-          options: {
-            scale: 0.25,
-            opacity: 0.6,
-            position: 'top-right',
-          },
-        }
-      : { enabled: false },
-    qrCode: hasQRCode
-      ? {
-          enabled: true,
-          imagePath: defaultResourcePaths.defaultQrCodePath,
-          options: {
-            scale: 0.15,
-            opacity: 1.0,
-            position: 'bottom-center',
-            addText: true,
-          },
-        }
-      : { enabled: false },
-  };
-}
-
 async function addWatermarkToPdf(outputPath: string): Promise<{ success: boolean, error?: string }> {
   try {
     // 遵循水印优先级：用户文字 > 用户图片 > 环境变量图片 > 默认文字
@@ -957,7 +1347,12 @@ async function addQRCodeToPdf(outputPath: string): Promise<{ success: boolean, e
   }
 }
 
-async function handleDirectConversionSuccess(result: any, hasWatermark: boolean, hasQRCode: boolean) {
+async function handleDirectConversionSuccess(
+  result: any,
+  hasWatermark: boolean,
+  hasQRCode: boolean,
+  options: any = {}
+) {
   let finalResult = {
     success: true,
     outputPath: result.outputPath,
@@ -965,6 +1360,8 @@ async function handleDirectConversionSuccess(result: any, hasWatermark: boolean,
       conversionTime: result.details.conversionTime,
       stylesPreserved: result.details.stylesPreserved,
       imagesPreserved: result.details.imagesPreserved,
+      pageCount: result.details.pageCount,
+      bookmarkCount: result.details.bookmarkCount,
     },
   };
 
@@ -988,10 +1385,41 @@ async function handleDirectConversionSuccess(result: any, hasWatermark: boolean,
     }
   }
 
+  // 指定了密码或权限时最后加密
+  const encryptResult = await processEncryption(result.outputPath, options);
+  if (encryptResult) {
+    if (encryptResult.success) {
+      (finalResult as any).encrypted = true;
+    } else {
+      (finalResult as any).encryptionError = encryptResult.error;
+    }
+  }
+
   return finalResult;
 }
 
 // 重构的 DOCX to PDF 转换 - 使用优化的转换器
+// 转换生成的 PDF 默认按 h1–h3 标题生成书签
+const DEFAULT_OUTLINE_LEVEL = 3;
+
+// PDF 文档属性：参数优先，DOCX 其次取文档的核心属性，标题缺省为文件名
+async function resolvePdfMetadata(inputPath: string, options: any): Promise<PdfMetadata> {
+  let properties: { title?: string; author?: string; subject?: string; keywords?: string } = {};
+  if (path.extname(inputPath).toLowerCase() === '.docx') {
+    try {
+      properties = await (await OoxmlPackage.load(inputPath)).properties();
+    } catch {
+      // 核心属性缺失或无法读取时只使用参数
+    }
+  }
+  return {
+    title: options.title ?? (properties.title || path.basename(inputPath, path.extname(inputPath))),
+    author: options.author ?? properties.author,
+    subject: options.subject ?? properties.subject,
+    keywords: options.keywords ?? properties.keywords,
+  };
+}
+
 async function convertDocxToPdf(inputPath: string, outputPath?: string, options: any = {}) {
   const startTime = Date.now();
   const finalOutputPath = resolvePdfOutputPath(inputPath, outputPath);
@@ -1002,75 +1430,51 @@ async function convertDocxToPdf(inputPath: string, outputPath?: string, options:
     const htmlResult = await convertDocxToHtmlWithOOXML(inputPath, {
       preserveImages: true,
       debug: true,
+      revisionMode: options.revisionMode,
     });
     
     if (!htmlResult.success) {
       throw new Error(htmlResult.error || 'OOXML解析器转换失败');
     }
     
-    // 创建临时HTML文件
-    const tempHtmlPath = finalOutputPath.replace('.pdf', '.html');
-    await fs.writeFile(tempHtmlPath, htmlResult.content, 'utf-8');
-    
+    // 使用内置排版引擎直接生成 PDF，分节 @page 规则控制页面尺寸、页边距和页眉页脚
+    const { pageCount, bookmarkCount } = await renderHtmlToPdf(
+      htmlResult.content,
+      finalOutputPath,
+      {
+        baseDir: path.dirname(inputPath),
+        metadata: await resolvePdfMetadata(inputPath, options),
+        outlineLevel: options.outlineLevel ?? DEFAULT_OUTLINE_LEVEL,
+      }
+    );
+
     const result = {
       success: true,
-      requiresExternalTool: true,
-      htmlPath: tempHtmlPath,
       outputPath: finalOutputPath,
-      externalToolInstructions: 'Use playwright-mcp to convert HTML to PDF',
       details: {
         originalFormat: 'docx',
         targetFormat: 'pdf',
         stylesPreserved: true,
         imagesPreserved: true,
+        pageCount,
+        bookmarkCount,
         conversionTime: Date.now() - startTime
       }
     };
 
-    if (result.success) {
-      if (result.requiresExternalTool) {
-        const mcpCommands = createMcpCommands(result, hasWatermark, hasQRCode);
-        const postProcessingConfig = createPostProcessingConfig(hasWatermark, hasQRCode);
-
-        // 返回需要外部工具完成的结果
-        return {
-          success: false,
-          useMcpMode: true,
-          mode: 'optimized_pdf_conversion',
-          currentMcp: {
-            completed: ['DOCX 文件解析和样式提取', '双重解析引擎处理', '样式完整的 HTML 文件生成'],
-            htmlFile: result.htmlPath,
-            tempFiles: [result.htmlPath],
-          },
-          playwrightMcp: {
-            required: true,
-            commands: [
-              `browser_navigate("file://${result.htmlPath}")`,
-              `browser_wait_for({ time: 3 })`,
-              `browser_pdf_save({ filename: "${result.outputPath}" })`,
-            ],
-            reason: 'PDF 转换需要 playwright-mcp 浏览器实例',
-          },
-          finalOutput: result.outputPath,
-          instructions: result.externalToolInstructions,
-          mcpCommands: mcpCommands,
-          postProcessing: postProcessingConfig,
-          stats: {
-            conversionTime: result.details.conversionTime,
-            stylesPreserved: result.details.stylesPreserved,
-            imagesPreserved: result.details.imagesPreserved,
-          },
-        };
-      } else {
-        // 直接转换成功，需要添加水印和二维码
-        return await handleDirectConversionSuccess(result, hasWatermark, hasQRCode);
-      }
-    } else {
-      throw new Error('OOXML转换器转换失败');
-    }
+    return await handleDirectConversionSuccess(result, hasWatermark, hasQRCode, options);
   } catch (error: any) {
-    // 回退到原有的转换逻辑（简化版）
-    return await fallbackConvertDocxToPdf(inputPath, finalOutputPath, options);
+    // 回退到原有的转换逻辑（简化版），主转换的错误随结果返回，便于排查
+    try {
+      const fallbackResult = await fallbackConvertDocxToPdf(inputPath, finalOutputPath, options);
+      return { ...fallbackResult, warning: `主转换失败，已使用回退转换: ${error.message}` };
+    } catch (fallbackError: any) {
+      return {
+        success: false,
+        error: `DOCX 转 PDF 失败: ${error.message}`,
+        fallbackError: fallbackError.message,
+      };
+    }
   }
 }
 
@@ -1118,11 +1522,19 @@ async function fallbackConvertDocxToPdf(inputPath: string, outputPath?: string,
   // 处理样式和HTML结构
   const finalHtml = await processHtmlStyles(perfectWordHtml, options);
   
-  // 创建临时文件并验证
+  // 创建临时文件并验证（缺少样式时会强制注入 Word 样式）
   const tempHtmlPath = await createAndValidateHtmlFile(finalHtml, options);
-  
-  // 返回Playwright指令
-  return createPlaywrightInstructions(finalOutputPath, tempHtmlPath, options);
+  const validatedHtml = await fs.readFile(tempHtmlPath, 'utf8');
+  await cleanupTempFile(tempHtmlPath);
+
+  const { pageCount } = await renderHtmlToPdf(validatedHtml, finalOutputPath, {
+    baseDir: path.dirname(docxPath),
+  });
+  return {
+    success: true,
+    outputPath: finalOutputPath,
+    stats: { pageCount },
+  };
 }
 
 // 生成HTML内容的辅助函数
@@ -1432,132 +1844,6 @@ function extractBodyContent(content: string): string {
   return content;
 }
 
-// 创建Playwright指令的辅助函数
-function createPlaywrightInstructions(finalOutputPath: string, tempHtmlPath: string, options: any) {
-  return {
-    success: true,
-    requiresPlaywright: true,
-    message: '请调用 playwright-mcp 工具来完成 PDF 生成',
-    nextAction: {
-      callPlaywrightMcp: true,
-      mcpTool: 'playwright-mcp',
-      instructions: 'Call playwright-mcp tools with the following sequence:',
-      sequence: [
-        '1. browser_launch - Launch headless browser',
-        '2. browser_new_page - Create new page',
-        '3. page_goto - Navigate to HTML file',
-        '4. page_wait_for_timeout - Wait for page load',
-        '5. page_pdf - Generate PDF',
-        '6. browser_close - Close browser',
-      ],
-    },
-    playwrightInstructions: createPlaywrightSteps(finalOutputPath, tempHtmlPath),
-    outputPath: finalOutputPath,
-    tempHtmlPath: tempHtmlPath,
-    cleanupRequired: !options.useExistingHtml,
-  };
-}
-
-// 创建Playwright步骤的辅助函数
-function createPlaywrightSteps(finalOutputPath: string, tempHtmlPath: string) {
-  return [
-    {
-      action: 'browser_launch',
-      params: {
-        headless: true,
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-gpu',
-          '--font-render-hinting=none',
-          '--disable-font-subpixel-positioning',
-        ],
-      },
-    },
-    {
-      action: 'browser_new_page',
-      params: {},
-    },
-    {
-      action: 'page_goto',
-      params: {
-        url: `file://${tempHtmlPath}`,
-        options: {
-          waitUntil: 'networkidle',
-          timeout: 30000,
-        },
-      },
-    },
-    {
-      action: 'page_add_script_tag',
-      params: {
-        content: `
-          function ensureStylesApplied() {
-            const styles = document.querySelectorAll('style');
-            if (styles.length === 0) {
-              const style = document.createElement('style');
-              style.textContent = 'body { font-family: "Calibri", "Microsoft YaHei", sans-serif !important; } * { -webkit-print-color-adjust: exact !important; }';
-              document.head.appendChild(style);
-            }
-            styles.forEach(style => {
-              if (style.sheet) {
-                // Style sheet loaded with rules
-              }
-            });
-          }
-          ensureStylesApplied();
-        `,
-      },
-    },
-    {
-      action: 'page_wait_for_timeout',
-      params: {
-        timeout: 3000,
-      },
-    },
-    {
-      action: 'page_evaluate',
-      params: {
-        function: () => {
-          document.querySelectorAll('style').forEach(style => {
-            if (style.sheet) {
-              // Style sheet loaded with rules
-            }
-          });
-          document.body.style.visibility = 'hidden';
-          setTimeout(() => {
-            document.body.style.visibility = 'visible';
-          }, 50);
-          return 'CSS样式已确认加载';
-        },
-      },
-    },
-    {
-      action: 'page_pdf',
-      params: {
-        path: finalOutputPath,
-        options: {
-          format: 'A4',
-          printBackground: true,
-          preferCSSPageSize: true,
-          margin: {
-            top: '0.75in',
-            right: '0.75in',
-            bottom: '0.75in',
-            left: '0.75in',
-          },
-          styleTagsTimeout: 5000,
-        },
-      },
-    },
-    {
-      action: 'browser_close',
-      params: {},
-    },
-  ];
-}
-
 // 终极版Word样式HTML生成器 - 确保100%样式还原
 function createPerfectWordHtml(content: string, options: any = {}): string {
   const chineseFont = options.chineseFont ?? 'Microsoft YaHei';
@@ -1962,56 +2248,11 @@ async function addWatermark(pdfPath: string, options: WatermarkOptions = {}) {
       // 优先级：用户文字 > 用户图片 > 环境变量图片 > 默认文字
       // 如果用户明确提供了文字水印，优先使用文字水印
       if (options.watermarkText) {
-        let font;
         const fontSize = options.watermarkFontSize ?? 8;
         const opacity = options.watermarkTextOpacity ?? 0.3;
         const watermarkText = options.watermarkText;
-        
-        // 检查是否包含中文字符
-        const hasChinese = /[\u4e00-\u9fa5]/.test(watermarkText);
-        
-        if (hasChinese) {
-          try {
-            // 注册fontkit以支持TTF字体
-            const fontkit = await import('fontkit');
-            pdfDoc.registerFontkit(fontkit.default);
-            
-            // 尝试使用系统中文字体
-            const fontPaths = [
-              '/System/Library/Fonts/PingFang.ttc', // macOS 默认中文字体
-              '/System/Library/Fonts/Helvetica.ttc',
-              '/System/Library/Fonts/Arial Unicode MS.ttf',
-              '/Library/Fonts/Arial Unicode MS.ttf'
-            ];
-            
-            let fontBytes = null;
-            for (const fontPath of fontPaths) {
-              try {
-                if (fsSync.existsSync(fontPath)) {
-                  fontBytes = await fs.readFile(fontPath);
-                  break;
-                }
-              } catch (e) {
-                continue;
-              }
-            }
-            
-            if (fontBytes) {
-              font = await pdfDoc.embedFont(fontBytes, { subset: true });
-            } else {
-              // 如果找不到中文字体，使用默认字体
-              font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-              console.warn('未找到中文字体，将使用默认字体，中文字符可能无法正确显示');
-            }
-          } catch (e) {
-            // 字体嵌入失败，使用默认字体
-            font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-            console.warn('中文字体嵌入失败，使用默认字体:', e);
-          }
-        } else {
-          // 非中文文本使用默认字体
-          font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-        }
+        // 含中文时查找系统中文字体
+        const font = await embedTextFont(pdfDoc, watermarkText);
 
         // 计算水印的间距和位置，实现斜向平铺效果
         const angle = -30; // 负角度，从左上到右下
@@ -2338,6 +2579,31 @@ async function processWatermarkAddition(finalPath: string, options: any): Promis
   }
 }
 
+async function processStampAddition(finalPath: string, options: any): Promise<any> {
+  // 只有在提供了页眉或页脚模板时才处理
+  if (!options.headerText && !options.footerText) {
+    return null;
+  }
+
+  const stampResult = await stampPdf(finalPath, {
+    headerText: options.headerText,
+    footerText: options.footerText,
+    headerPosition: options.headerPosition,
+    footerPosition: options.footerPosition,
+    stampFont: options.stampFont,
+    stampFontSize: options.stampFontSize,
+    stampColor: options.stampColor,
+    stampMargin: options.stampMargin,
+    skipFirstPage: options.skipFirstPage,
+    batesPrefix: options.batesPrefix,
+    batesStart: options.batesStart,
+    batesDigits: options.batesDigits,
+  });
+  return stampResult.success
+    ? { success: true, message: `Header/footer added to ${finalPath}` }
+    : stampResult;
+}
+
 async function processQRCodeAddition(finalPath: string, options: any): Promise<any> {
   // 只有在用户明确要求添加二维码时才处理
   if (!options.addQrCode) {
@@ -2368,6 +2634,23 @@ async function processQRCodeAddition(finalPath: string, options: any): Promise<a
   }
 }
 
+async function processEncryption(finalPath: string, options: any): Promise<any> {
+  // 只有在指定了密码或权限时才加密；加密必须放在其他处理之后
+  if (!options.userPassword && !options.ownerPassword && !options.permissions) {
+    return null;
+  }
+
+  const encryptResult = await encryptPdf(finalPath, {
+    userPassword: options.userPassword,
+    ownerPassword: options.ownerPassword,
+    encryption: options.encryption,
+    permissions: options.permissions,
+  });
+  return encryptResult.success
+    ? { success: true, message: `Encrypted ${finalPath} (${encryptResult.metadata?.encryption})` }
+    : encryptResult;
+}
+
 // Unified PDF post-processing function
 async function processPdfPostConversion(
   playwrightPdfPath: string,
@@ -2385,6 +2668,12 @@ async function processPdfPostConversion(
 
     const results: any[] = [];
 
+    // Add header/footer if specified
+    const stampResult = await processStampAddition(finalPath, options);
+    if (stampResult) {
+      results.push(stampResult);
+    }
+
     // Add watermark if specified
     const watermarkResult = await processWatermarkAddition(finalPath, options);
     if (watermarkResult) {
@@ -2397,6 +2686,12 @@ async function processPdfPostConversion(
       results.push(qrResult);
     }
 
+    // Encrypt last so the other features can still modify the file
+    const encryptResult = await processEncryption(finalPath, options);
+    if (encryptResult) {
+      results.push(encryptResult);
+    }
+
     // Clean up temporary playwright file if it's different from final path
     if (playwrightPdfPath !== finalPath && fsSync.existsSync(playwrightPdfPath)) {
       await cleanupTempFile(playwrightPdfPath);
@@ -2431,86 +2726,51 @@ function resolveMarkdownPdfOutputPath(inputPath: string, outputPath?: string): s
   return outputPath;
 }
 
-function createMarkdownPlaywrightCommands(htmlOutputPath: string, finalOutputPath: string): string[] {
-  return [
-    `browser_navigate("file://${htmlOutputPath}")`,
-    `browser_wait_for({ time: 3 })`,
-    `browser_pdf_save({ filename: "${finalOutputPath}" })`,
-  ];
-}
-
-function createMarkdownPostProcessingSteps(options: any): string[] {
-  const postProcessingSteps: string[] = [];
-  const defaultWatermarkPath = process.env.WATERMARK_IMAGE ?? null;
-  const defaultQrCodePath = process.env.QR_CODE_IMAGE ?? null;
-  const addWatermark = options.addWatermark ?? false;
-  const addQrCode = options.addQrCode ?? false;
-
-  // 只有在用户明确要求时才添加水印
-  if (addWatermark) {
-    const watermarkPath = options.watermarkImage || defaultWatermarkPath;
-    if (watermarkPath) {
-      postProcessingSteps.push(`添加水印: ${watermarkPath}`);
-    } else {
-      postProcessingSteps.push(`添加水印: 默认文字 'doc-ops-mcp'`);
-    }
-  }
-  // 只有在用户明确要求时才添加二维码
-  if (addQrCode && defaultQrCodePath) {
-    postProcessingSteps.push(`添加二维码: ${defaultQrCodePath}`);
-  }
-  return postProcessingSteps;
-}
-
 // Markdown 转 PDF 函数
-// 注意：此函数实际上是先将 Markdown 转换为 HTML，然后需要使用 playwright-mcp 完成最终的 PDF 转换
-// 转换流程：Markdown → HTML → PDF (通过 playwright-mcp)
+// 转换流程：Markdown → HTML → PDF (内置排版引擎)
 async function convertMarkdownToPdf(inputPath: string, outputPath?: string, options: any = {}) {
+  const startTime = Date.now();
   try {
     const finalOutputPath = resolveMarkdownPdfOutputPath(inputPath, outputPath);
+    const { hasWatermark, hasQRCode } = checkWatermarkAndQRConfig(options);
 
-    // 确保输出目录存在
-    await fs.mkdir(path.dirname(finalOutputPath), { recursive: true });
-
-    // 第一步：转换 Markdown 到 HTML
-    const htmlOutputPath = finalOutputPath!.replace('.pdf', '.html');
+    // 第一步：转换 Markdown 到 HTML（仅保留在内存中）
     const htmlResult = await convertMarkdownToHtml(inputPath, {
-      outputPath: htmlOutputPath,
-      theme: 'github',
+      theme: options.theme ?? 'github',
+      includeTableOfContents: options.includeTableOfContents ?? false,
       standalone: true,
     });
 
-    if (!htmlResult.success) {
+    if (!htmlResult.success || !htmlResult.content) {
       throw new Error(`Markdown 到 HTML 转换失败: ${htmlResult.error}`);
     }
 
-    // 获取水印和二维码配置
-    const defaultWatermarkPath = process.env.WATERMARK_IMAGE ?? null;
-    const defaultQrCodePath = process.env.QR_CODE_IMAGE ?? null;
-    const addWatermark = options.addWatermark ?? false;
-    const addQrCode = options.addQrCode ?? false;
-
-    // 构建 playwright 命令，包含水印和二维码处理
-    const playwrightCommands = createMarkdownPlaywrightCommands(htmlOutputPath, finalOutputPath);
-
-    // 如果有水印或二维码需要添加，在 playwright 命令后添加处理步骤
-    const postProcessingSteps = createMarkdownPostProcessingSteps(options);
+    // 第二步：排版输出 PDF，图片等相对路径以 Markdown 文件所在目录为基准
+    const { pageCount, bookmarkCount } = await renderHtmlToPdf(
+      htmlResult.content,
+      finalOutputPath,
+      {
+        baseDir: path.dirname(path.resolve(inputPath)),
+        metadata: await resolvePdfMetadata(inputPath, options),
+        outlineLevel: options.outlineLevel ?? DEFAULT_OUTLINE_LEVEL,
+      }
+    );
 
-    return {
-      success: true,
-      outputPath: htmlOutputPath,
-      finalPdfPath: finalOutputPath,
-      requiresPlaywrightMcp: true,
-      message: 'Markdown 已转换为 HTML，需要使用 playwright-mcp 完成 PDF 转换',
-      watermarkPath: addWatermark ? (options.watermarkImage || defaultWatermarkPath) : null,
-      qrCodePath: addQrCode ? defaultQrCodePath : null,
-      instructions: {
-        step1: '已完成：Markdown → HTML',
-        step2: `待完成：使用 playwright-mcp 打开 ${htmlOutputPath} 并保存为 PDF`,
-        step3: postProcessingSteps.length > 0 ? `后处理：${postProcessingSteps.join(', ')}` : null,
-        playwrightCommands: playwrightCommands,
+    return await handleDirectConversionSuccess(
+      {
+        outputPath: finalOutputPath,
+        details: {
+          conversionTime: Date.now() - startTime,
+          stylesPreserved: true,
+          imagesPreserved: true,
+          pageCount,
+          bookmarkCount,
+        },
       },
-    };
+      hasWatermark,
+      hasQRCode,
+      options
+    );
   } catch (error: any) {
     return {
       success: false,
@@ -2544,17 +2804,25 @@ async function convertDocxToMarkdown(inputPath: string, outputPath?: string, opt
     const htmlResult = await convertDocxToHtmlWithOOXML(inputPath, {
       preserveImages: false,
       debug: false,
+      revisionMode: options.revisionMode,
     });
     
     if (!htmlResult.success) {
       throw new Error(`DOCX 到 HTML 转换失败: ${htmlResult.error || '未知错误'}`);
     }
     
-    // 从HTML转换为Markdown
-    const markdownResult = await convertHtmlToMarkdown(htmlResult.content, {
-      outputPath: finalOutputPath,
-      preserveStyles: options.preserveFormatting !== false,
-    });
+    // 从HTML转换为Markdown（转换器读取文件，先写入临时HTML）
+    const tempHtmlPath = createSecureTempPath('docx_markdown', '.html');
+    await fs.writeFile(tempHtmlPath, htmlResult.content, 'utf-8');
+    let markdownResult;
+    try {
+      markdownResult = await convertHtmlToMarkdown(tempHtmlPath, {
+        outputPath: finalOutputPath,
+        preserveStyles: options.preserveFormatting !== false,
+      });
+    } finally {
+      await fs.unlink(tempHtmlPath).catch(() => {});
+    }
     
     const result = {
       success: markdownResult.success,
@@ -2601,6 +2869,7 @@ async function convertDocxToTxt(inputPath: string, outputPath?: string, options:
     const htmlResult = await convertDocxToHtmlWithOOXML(inputPath, {
       preserveImages: false,
       debug: false,
+      revisionMode: options.revisionMode,
     });
 
     if (!htmlResult.success) {
@@ -2610,8 +2879,8 @@ async function convertDocxToTxt(inputPath: string, outputPath?: string, options:
     // 从 HTML 中提取纯文本
     const $ = cheerio.load(htmlResult.content || '');
 
-    // 移除样式和脚本标签
-    $('style, script').remove();
+    // 移除样式和脚本标签，以及只用于打印版面的页眉页脚
+    $('style, script, .docx-header, .docx-footer').remove();
 
     // 获取纯文本内容
     let textContent = $.text();
@@ -2769,7 +3038,8 @@ const server = new Server(
 const TOOL_DEFINITIONS = {
   read_document: {
     name: 'read_document',
-    description: 'Read various document formats (DOCX, DOC, TXT, MD, HTML, etc.)',
+    description:
+      "Read various document formats (DOCX, DOC, PDF, XLSX, PPTX, ODT, ODS, RTF, TXT, MD, HTML, etc.). PDF text is returned page by page in reading order, with page count, title and author metadata. XLSX sheets are returned as Markdown tables (HTML with preserveFormatting) using the cells' number formats; PPTX slides are returned in order as Markdown with titles, bullets, tables, images and speaker notes. ODT, ODS and RTF are returned as plain text, or with preserveFormatting as HTML keeping headings, lists, tables, images, links and footnotes",
     inputSchema: {
       type: 'object',
       properties: {
@@ -2784,6 +3054,22 @@ const TOOL_DEFINITIONS = {
           description: 'Preserve formatting (HTML output)',
           default: false,
         },
+        revisionMode: {
+          type: 'string',
+          description:
+            'DOCX tracked changes: accept (apply all changes), reject (drop insertions, keep deletions), markup (show insertions/deletions as <ins>/<del> with author and date). DOCX results also include a structured comments list',
+          enum: ['accept', 'reject', 'markup'],
+          default: 'accept',
+        },
+        imageOutputDir: {
+          type: 'string',
+          description:
+            'PPTX: directory to save slide images to; Markdown output then links the saved files instead of bare image names',
+        },
+        password: {
+          type: 'string',
+          description: 'Password for an encrypted PDF (user or owner password)',
+        },
       },
       required: ['filePath'],
     },
@@ -2813,13 +3099,29 @@ const TOOL_DEFINITIONS = {
       type: 'object',
       properties: {
         inputPath: { type: 'string', description: 'Input file path' },
-        targetFormat: { type: 'string', description: 'Target format: pdf, html, docx, markdown, md, txt (optional, auto-detected from input if not specified)' },
+        targetFormat: {
+          type: 'string',
+          description:
+            'Target format: pdf, html, docx, markdown, md, txt, odt, epub (optional, auto-detected from input if not specified). ODT, ODS and RTF inputs can be converted to any of these; EPUB output splits chapters at H1 (or H2) headings and builds the table of contents from headings',
+        },
         preserveFormatting: { type: 'boolean', description: 'Preserve formatting', default: true },
         useInternalPlaywright: {
           type: 'boolean',
           description: 'Use built-in Playwright for PDF conversion',
           default: false,
         },
+        revisionMode: {
+          type: 'string',
+          description:
+            'DOCX tracked changes: accept, reject or markup (<ins>/<del> with author and date)',
+          enum: ['accept', 'reject', 'markup'],
+          default: 'accept',
+        },
+        language: {
+          type: 'string',
+          description:
+            'Document language for ODT/EPUB output, e.g. en-US or zh-CN (defaults to the lang attribute of the source)',
+        },
       },
       required: ['inputPath'],
     },
@@ -2879,10 +3181,164 @@ const TOOL_DEFINITIONS = {
     },
   },
 
+  stamp_pdf: {
+    name: 'stamp_pdf',
+    description:
+      'Add header and footer text to every page of a PDF from templates, e.g. "Page {n} of {total}", "{date}", "{filename}", "{title}" or Bates numbers ("{bates}" with prefix and zero padding). Text stays upright on rotated pages; Chinese text uses a system Chinese font as for watermarks',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pdfPath: { type: 'string', description: 'PDF file path' },
+        outputPath: {
+          type: 'string',
+          description: 'Output PDF path (optional, the input file is updated in place by default)',
+        },
+        headerText: {
+          type: 'string',
+          description:
+            'Header template, e.g. "{title}". Placeholders: {n} page number, {total} page count, {date} today (YYYY-MM-DD), {filename} PDF file name, {title} PDF title (or file name), {bates} Bates number',
+        },
+        footerText: {
+          type: 'string',
+          description: 'Footer template, e.g. "Page {n} of {total}" or "{bates}"',
+        },
+        headerPosition: { type: 'string', enum: ['left', 'center', 'right'], default: 'center' },
+        footerPosition: { type: 'string', enum: ['left', 'center', 'right'], default: 'center' },
+        stampFont: {
+          type: 'string',
+          description:
+            'Header/footer font: a standard PDF font name (Helvetica, Helvetica-Bold, Times-Roman, Courier, ...) or a TTF/OTF file path. Chinese text uses a system Chinese font automatically',
+          default: 'Helvetica',
+        },
+        stampFontSize: { type: 'number', description: 'Header/footer font size', default: 9 },
+        stampColor: {
+          type: 'string',
+          description: 'Header/footer text color (#RRGGBB)',
+          default: '#000000',
+        },
+        stampMargin: {
+          type: 'number',
+          description: 'Distance from the page edge in points',
+          default: 24,
+        },
+        skipFirstPage: {
+          type: 'boolean',
+          description: 'Leave the first page (cover) without header/footer',
+          default: false,
+        },
+        batesPrefix: { type: 'string', description: 'Bates number prefix, e.g. "ABC"' },
+        batesStart: { type: 'number', description: 'First Bates number', default: 1 },
+        batesDigits: { type: 'number', description: 'Bates number width, zero padded', default: 6 },
+      },
+      required: ['pdfPath'],
+    },
+  },
+
+  set_pdf_metadata: {
+    name: 'set_pdf_metadata',
+    description:
+      'Set PDF document properties (title, author, subject, keywords, creator, producer, language) in both the Info dictionary and XMP metadata, and optionally replace the bookmarks (outline) with an explicit bookmark tree. Omitted properties are kept; an empty string removes a property',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pdfPath: { type: 'string', description: 'PDF file path' },
+        outputPath: {
+          type: 'string',
+          description: 'Output PDF path (optional, the input file is updated in place by default)',
+        },
+        title: { type: 'string', description: 'Document title' },
+        author: { type: 'string', description: 'Author' },
+        subject: { type: 'string', description: 'Subject' },
+        keywords: { type: 'array', items: { type: 'string' }, description: 'Keywords' },
+        creator: { type: 'string', description: 'Application that created the original document' },
+        producer: { type: 'string', description: 'Application that produced the PDF' },
+        language: { type: 'string', description: 'Document language, e.g. en-US or zh-CN' },
+        bookmarks: {
+          type: 'array',
+          description:
+            'Bookmark tree replacing the existing bookmarks; an empty array removes them. Each item: { "title": "Chapter 1", "page": 1, "open": true, "children": [...] } with 1-based page numbers',
+          items: {
+            type: 'object',
+            properties: {
+              title: { type: 'string' },
+              page: { type: 'number' },
+              open: {
+                type: 'boolean',
+                description: 'Show children expanded (default: top level only)',
+              },
+              children: { type: 'array', items: { type: 'object' } },
+            },
+            required: ['title', 'page'],
+          },
+        },
+      },
+      required: ['pdfPath'],
+    },
+  },
+
+  encrypt_pdf: {
+    name: 'encrypt_pdf',
+    description:
+      'Password-protect a PDF with the standard security handler (RC4-128, AES-128 or AES-256). The user password is needed to open the document; the owner password lifts the permission restrictions (print, copy, modify, annotate). With only permissions given, the PDF opens without a password but is restricted',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pdfPath: { type: 'string', description: 'PDF file path' },
+        outputPath: {
+          type: 'string',
+          description: 'Output PDF path (optional, the input file is updated in place by default)',
+        },
+        userPassword: {
+          type: 'string',
+          description: 'Password required to open the PDF (optional)',
+        },
+        ownerPassword: {
+          type: 'string',
+          description:
+            'Password that lifts the permission restrictions (a random one is used when omitted)',
+        },
+        encryption: {
+          type: 'string',
+          enum: ['rc4-128', 'aes-128', 'aes-256'],
+          description: 'Encryption algorithm',
+          default: 'aes-256',
+        },
+        permissions: {
+          type: 'array',
+          items: { type: 'string', enum: ['print', 'copy', 'modify', 'annotate'] },
+          description:
+            'Operations allowed without the owner password (all when omitted; [] allows none)',
+        },
+      },
+      required: ['pdfPath'],
+    },
+  },
+
+  decrypt_pdf: {
+    name: 'decrypt_pdf',
+    description:
+      'Remove the password protection and permission restrictions from an encrypted PDF using its user or owner password (RC4 and AES standard security handlers)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pdfPath: { type: 'string', description: 'Encrypted PDF file path' },
+        outputPath: {
+          type: 'string',
+          description: 'Output PDF path (optional, the input file is updated in place by default)',
+        },
+        password: {
+          type: 'string',
+          description: 'User or owner password (may be omitted when the PDF has no user password)',
+        },
+      },
+      required: ['pdfPath'],
+    },
+  },
+
   convert_docx_to_pdf: {
     name: 'convert_docx_to_pdf',
     description:
-      'Enhanced DOCX to PDF conversion with perfect Word style replication and Playwright integration. Watermark can be added by setting addWatermark=true (uses WATERMARK_IMAGE environment variable or default text "doc-ops-mcp"). QR code can be added by setting addQrCode=true (requires QR_CODE_IMAGE environment variable). Output directory is controlled by OUTPUT_DIR environment variable. Files will be automatically saved to OUTPUT_DIR with auto-generated names.',
+      'Enhanced DOCX to PDF conversion with perfect Word style replication, rendered natively in one step (page size, margins, headers and footers follow the document sections). Headings become PDF bookmarks and the document title, author, subject and keywords are written to the PDF properties. Watermark can be added by setting addWatermark=true (uses WATERMARK_IMAGE environment variable or default text "doc-ops-mcp"). QR code can be added by setting addQrCode=true (requires QR_CODE_IMAGE environment variable). Output directory is controlled by OUTPUT_DIR environment variable. Files will be automatically saved to OUTPUT_DIR with auto-generated names.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -2907,6 +3363,39 @@ const TOOL_DEFINITIONS = {
           description: 'Add QR code to PDF (requires QR_CODE_IMAGE environment variable)',
           default: false,
         },
+        title: {
+          type: 'string',
+          description: 'PDF title (defaults to the DOCX document title or the file name)',
+        },
+        author: { type: 'string', description: 'PDF author' },
+        subject: { type: 'string', description: 'PDF subject' },
+        keywords: { type: 'array', items: { type: 'string' }, description: 'PDF keywords' },
+        outlineLevel: {
+          type: 'number',
+          description: 'Create PDF bookmarks from headings h1 to this level (0 disables bookmarks)',
+          default: 3,
+        },
+        userPassword: {
+          type: 'string',
+          description: 'Password required to open the PDF (optional)',
+        },
+        ownerPassword: {
+          type: 'string',
+          description:
+            'Password that lifts the permission restrictions (a random one is used when omitted)',
+        },
+        encryption: {
+          type: 'string',
+          enum: ['rc4-128', 'aes-128', 'aes-256'],
+          description: 'Encryption algorithm',
+          default: 'aes-256',
+        },
+        permissions: {
+          type: 'array',
+          items: { type: 'string', enum: ['print', 'copy', 'modify', 'annotate'] },
+          description:
+            'Operations allowed without the owner password (all when omitted; [] allows none)',
+        },
       },
       required: ['docxPath'],
     },
@@ -2931,6 +3420,18 @@ const TOOL_DEFINITIONS = {
           description: 'Generate table of contents',
           default: false,
         },
+        enableSyntaxHighlighting: {
+          type: 'boolean',
+          description:
+            'Highlight fenced code blocks (ts/js, python, go, java, sql, bash, json, yaml)',
+          default: true,
+        },
+        renderDiagrams: {
+          type: 'boolean',
+          description:
+            'Render ```dot diagram blocks as inline SVG (mermaid/plantuml need a DIAGRAM_COMMAND_<LANG> hook)',
+          default: true,
+        },
         customCSS: { type: 'string', description: 'Additional custom CSS styles' },
       },
       required: ['markdownPath'],
@@ -2961,6 +3462,68 @@ const TOOL_DEFINITIONS = {
           description: 'Preserve Markdown formatting and styles',
           default: true,
         },
+        enableSyntaxHighlighting: {
+          type: 'boolean',
+          description: 'Color fenced code blocks with the theme palette',
+          default: true,
+        },
+        renderDiagrams: {
+          type: 'boolean',
+          description: 'Embed ```dot (and hooked mermaid/plantuml) diagram blocks as PNG images',
+          default: true,
+        },
+        imageCaptions: {
+          type: 'boolean',
+          description: 'Add a caption (image title or alt text) below each embedded image',
+          default: false,
+        },
+        remoteImages: {
+          type: 'string',
+          enum: ['skip', 'placeholder'],
+          description: 'How to handle http(s) images, which are never downloaded',
+          default: 'placeholder',
+        },
+      },
+      required: ['markdownPath'],
+    },
+  },
+
+  convert_markdown_to_pptx: {
+    name: 'convert_markdown_to_pptx',
+    description:
+      'Turn a Markdown outline into a PowerPoint (PPTX) deck. Slides are split on --- separators, or on H1/H2 headings when the document has no separators; the first heading of each slide becomes its title and an H1 slide with only a short paragraph becomes a title slide. Bullets (nested and numbered), images, tables, highlighted code blocks and ```dot diagrams are laid out on 16:9 slides, and paragraphs starting with "Note:" become speaker notes. Output directory is controlled by OUTPUT_DIR environment variable.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        markdownPath: { type: 'string', description: 'Markdown file path to convert' },
+        theme: {
+          type: 'string',
+          enum: ['default', 'professional', 'academic', 'modern'],
+          description: 'Slide theme (same names as the DOCX themes)',
+          default: 'professional',
+        },
+        splitOn: {
+          type: 'string',
+          enum: ['auto', 'hr', 'heading'],
+          description: 'Slide separator: auto uses --- when present, otherwise H1/H2 headings',
+          default: 'auto',
+        },
+        enableSyntaxHighlighting: {
+          type: 'boolean',
+          description: 'Color fenced code blocks with the theme palette',
+          default: true,
+        },
+        renderDiagrams: {
+          type: 'boolean',
+          description: 'Embed ```dot (and hooked mermaid/plantuml) diagram blocks as images',
+          default: true,
+        },
+        remoteImages: {
+          type: 'string',
+          enum: ['skip', 'placeholder'],
+          description: 'How to handle http(s) images, which are never downloaded',
+          default: 'placeholder',
+        },
       },
       required: ['markdownPath'],
     },
@@ -2969,7 +3532,7 @@ const TOOL_DEFINITIONS = {
   convert_markdown_to_pdf: {
     name: 'convert_markdown_to_pdf',
     description:
-      'Enhanced Markdown to PDF conversion with beautiful styling and theme support. Watermark can be added by setting addWatermark=true (uses WATERMARK_IMAGE environment variable or default text "doc-ops-mcp"). QR code can be added by setting addQrCode=true (requires QR_CODE_IMAGE environment variable). Requires playwright-mcp for final PDF generation. Output directory is controlled by OUTPUT_DIR environment variable. Files will be automatically saved to OUTPUT_DIR with auto-generated names.',
+      'Enhanced Markdown to PDF conversion with beautiful styling and theme support. Watermark can be added by setting addWatermark=true (uses WATERMARK_IMAGE environment variable or default text "doc-ops-mcp"). QR code can be added by setting addQrCode=true (requires QR_CODE_IMAGE environment variable). The PDF is rendered natively in one step, with bookmarks generated from the headings. Output directory is controlled by OUTPUT_DIR environment variable. Files will be automatically saved to OUTPUT_DIR with auto-generated names.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -2995,6 +3558,36 @@ const TOOL_DEFINITIONS = {
           description: 'Add QR code to PDF (requires QR_CODE_IMAGE environment variable)',
           default: false,
         },
+        title: { type: 'string', description: 'PDF title (defaults to the file name)' },
+        author: { type: 'string', description: 'PDF author' },
+        subject: { type: 'string', description: 'PDF subject' },
+        keywords: { type: 'array', items: { type: 'string' }, description: 'PDF keywords' },
+        outlineLevel: {
+          type: 'number',
+          description: 'Create PDF bookmarks from headings h1 to this level (0 disables bookmarks)',
+          default: 3,
+        },
+        userPassword: {
+          type: 'string',
+          description: 'Password required to open the PDF (optional)',
+        },
+        ownerPassword: {
+          type: 'string',
+          description:
+            'Password that lifts the permission restrictions (a random one is used when omitted)',
+        },
+        encryption: {
+          type: 'string',
+          enum: ['rc4-128', 'aes-128', 'aes-256'],
+          description: 'Encryption algorithm',
+          default: 'aes-256',
+        },
+        permissions: {
+          type: 'array',
+          items: { type: 'string', enum: ['print', 'copy', 'modify', 'annotate'] },
+          description:
+            'Operations allowed without the owner password (all when omitted; [] allows none)',
+        },
       },
       required: ['markdownPath'],
     },
@@ -3019,6 +3612,231 @@ const TOOL_DEFINITIONS = {
     },
   },
 
+  fill_docx_template: {
+    name: 'fill_docx_template',
+    description:
+      'Fill an existing Word (.docx) template with JSON data. Replaces {{field}} placeholders (dotted paths such as {{customer.name}}, also when Word has split them across formatting runs) in the body, headers, footers and notes; {{#each items}}...{{/each}} repeats table rows (when the tags are in a table), paragraphs or inline text, with {{this}}, {{@index}} and {{@number}} inside loops; {{#if field}}...{{else}}...{{/if}} and {{#unless}} keep or drop content; {{image field}} inserts an image from a file path, data URI or {src, width, height} object. Everything else in the template (styles, numbering, headers, section settings) is kept as is. Output directory is controlled by OUTPUT_DIR environment variable.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        templatePath: { type: 'string', description: 'Path of the .docx template' },
+        data: {
+          type: 'object',
+          description: 'Values for the placeholders (an object, or a JSON string)',
+        },
+        outputPath: {
+          type: 'string',
+          description:
+            'Output .docx path (optional, defaults to <template name>_filled.docx in OUTPUT_DIR)',
+        },
+        imageBaseDir: {
+          type: 'string',
+          description:
+            'Directory for relative image paths in the data (defaults to the template directory)',
+        },
+      },
+      required: ['templatePath', 'data'],
+    },
+  },
+
+  compare_documents: {
+    name: 'compare_documents',
+    description:
+      'Compare two versions of a document (DOCX, Markdown, HTML or TXT, formats may differ) and report what changed. Both files are read into headings, paragraphs, list items, code blocks and tables; blocks are matched first, then changed blocks and table cells are compared word by word (character by character for CJK text). Output is an HTML redline (deletions struck through, insertions underlined), a Markdown change summary, or a DOCX with tracked changes (w:ins/w:del) that can be reviewed and accepted in Word. Output directory is controlled by OUTPUT_DIR environment variable.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        originalPath: { type: 'string', description: 'Path of the original (older) version' },
+        revisedPath: { type: 'string', description: 'Path of the revised (newer) version' },
+        format: {
+          type: 'string',
+          enum: ['html', 'markdown', 'docx'],
+          description: 'Output format: HTML redline, Markdown summary or DOCX with tracked changes',
+          default: 'html',
+        },
+        outputPath: {
+          type: 'string',
+          description:
+            'Output file path (optional, defaults to <revised name>_compare.<ext> in OUTPUT_DIR)',
+        },
+        author: {
+          type: 'string',
+          description: 'Author name recorded on DOCX tracked changes',
+          default: 'doc-ops-mcp',
+        },
+      },
+      required: ['originalPath', 'revisedPath'],
+    },
+  },
+
+  merge_documents: {
+    name: 'merge_documents',
+    description:
+      'Combine an ordered list of documents (DOCX, Markdown, HTML, PDF, formats may be mixed) into one output file. Inputs in a different format are converted to the output format first. DOCX: each input becomes its own section with its page setup, headers and footers; images, hyperlinks, footnotes, bookmarks and list numbering are carried over and renumbered, and same-named styles are reconciled. PDF: pages are copied in order with pdf-lib. Markdown/HTML: bodies are concatenated and relative image/link paths are rewritten for the output location. Output directory is controlled by OUTPUT_DIR environment variable.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        inputPaths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Input files in the order they should appear',
+        },
+        outputPath: {
+          type: 'string',
+          description:
+            'Output file path; its extension selects the format (optional, defaults to <first input name>_merged.<ext> in OUTPUT_DIR)',
+        },
+        format: {
+          type: 'string',
+          enum: ['docx', 'pdf', 'markdown', 'html'],
+          description:
+            'Output format (optional, inferred from outputPath, otherwise from the first input)',
+        },
+        styleMode: {
+          type: 'string',
+          enum: ['destination', 'source'],
+          description:
+            "DOCX: when a style with the same name is defined differently, use the first document's definition (destination) or keep each document's own formatting as a renamed copy (source)",
+          default: 'destination',
+        },
+        sectionBreak: {
+          type: 'string',
+          enum: ['nextPage', 'continuous'],
+          description: 'DOCX: whether each merged document starts on a new page',
+          default: 'nextPage',
+        },
+      },
+      required: ['inputPaths'],
+    },
+  },
+
+  split_document: {
+    name: 'split_document',
+    description:
+      'Split a document into several files. DOCX and Markdown are split at headings up to the given level (content before the first heading becomes its own part); each DOCX part keeps the original styles, numbering, headers/footers and page setup. PDF is split by page ranges (e.g. "1-3,4-10,11-", one file per range) or, when no ranges are given, at its bookmarks up to the given level. Parts are named <input>_<nn>_<title>.<ext> and written to outputDir.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        inputPath: { type: 'string', description: 'DOCX, Markdown or PDF file to split' },
+        outputDir: {
+          type: 'string',
+          description:
+            'Directory for the parts (optional, defaults to <input name>_parts in OUTPUT_DIR)',
+        },
+        mode: {
+          type: 'string',
+          enum: ['heading', 'pages', 'bookmarks'],
+          description:
+            'Split mode (optional): heading for DOCX/Markdown; pages or bookmarks for PDF (pages when "pages" is given)',
+        },
+        level: {
+          type: 'number',
+          description:
+            'Heading or bookmark level to split at; headings of this level and above start a new part',
+          default: 1,
+        },
+        pages: { type: 'string', description: 'PDF page ranges, comma separated, e.g. "1-3,5,7-"' },
+      },
+      required: ['inputPath'],
+    },
+  },
+
+  pdf_pages: {
+    name: 'pdf_pages',
+    description:
+      'Page-level PDF operations, applied in the given order: extract page ranges, delete, reorder, rotate, insert blank pages, N-up imposition (2 or 4 pages per sheet) and crop or resize to a standard paper size (A4, Letter, A3, A5, Legal). Page ranges such as "1-3,5,7-" refer to the page order at the time each operation runs. Returns the resulting page count and the displayed size of every page in points. Output directory is controlled by OUTPUT_DIR environment variable.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        inputPath: { type: 'string', description: 'PDF file path' },
+        outputPath: {
+          type: 'string',
+          description:
+            'Output PDF path (optional, defaults to <input name>_pages.pdf in OUTPUT_DIR)',
+        },
+        operations: {
+          type: 'array',
+          description: 'Operations to apply in order',
+          items: {
+            type: 'object',
+            properties: {
+              type: {
+                type: 'string',
+                enum: [
+                  'extract',
+                  'delete',
+                  'reorder',
+                  'rotate',
+                  'insertBlank',
+                  'nup',
+                  'resize',
+                  'crop',
+                ],
+                description:
+                  'extract: keep only the given pages in the given order (pages may repeat); delete: remove pages; reorder: move the given pages to the front in the given order, the others follow; rotate: turn pages clockwise; insertBlank: add empty pages; nup: place 2 or 4 pages on each sheet; resize: scale pages to fit the paper size, centered; crop: cut pages to the paper size (centered) or by margins',
+              },
+              pages: {
+                type: 'string',
+                description:
+                  'Page ranges, e.g. "1-3,5,7-" (required for extract, delete and reorder; rotate, resize and crop default to all pages)',
+              },
+              angle: {
+                type: 'number',
+                description: 'rotate: clockwise angle, a multiple of 90',
+                default: 90,
+              },
+              after: {
+                type: 'number',
+                description:
+                  'insertBlank: insert after this page, 0 inserts before the first page (defaults to the end)',
+              },
+              count: {
+                type: 'number',
+                description: 'insertBlank: number of blank pages',
+                default: 1,
+              },
+              size: {
+                type: 'string',
+                enum: ['A4', 'Letter', 'A3', 'A5', 'Legal'],
+                description:
+                  'Paper size for insertBlank (defaults to the neighbouring page size), nup, resize and crop (defaults to A4)',
+              },
+              orientation: {
+                type: 'string',
+                enum: ['auto', 'portrait', 'landscape'],
+                description:
+                  'Paper orientation; auto follows each page (nup: landscape for 2, portrait for 4 pages per sheet)',
+              },
+              perSheet: {
+                type: 'number',
+                enum: [2, 4],
+                description: 'nup: pages per sheet',
+                default: 2,
+              },
+              margin: {
+                type: 'number',
+                description: 'nup: sheet margin and gap between pages in points',
+                default: 18,
+              },
+              margins: {
+                type: 'object',
+                description: 'crop: points to cut from each side as displayed',
+                properties: {
+                  top: { type: 'number' },
+                  right: { type: 'number' },
+                  bottom: { type: 'number' },
+                  left: { type: 'number' },
+                },
+              },
+            },
+            required: ['type'],
+          },
+        },
+      },
+      required: ['inputPath', 'operations'],
+    },
+  },
+
   convert_html_to_markdown: {
     name: 'convert_html_to_markdown',
     description:
@@ -3046,19 +3864,19 @@ const TOOL_DEFINITIONS = {
   plan_conversion: {
     name: 'plan_conversion',
     description:
-      "🎯 **MANDATORY FIRST STEP** - Smart Document Conversion Planner - ⚠️ CRITICAL: This tool MUST be executed BEFORE any document conversion operation! When users request any format conversion (e.g., 'convert MD to PDF', 'DOCX to HTML'), you MUST call this tool first to get the optimal conversion plan, then follow the plan's steps exactly. This ensures proper conversion workflow and handles complex multi-step conversions. For PDF conversions, note that playwright-mcp integration is required for final PDF generation, followed by process_pdf_post_conversion for watermarks/QR codes. Supports all format conversion path planning.",
+      "🎯 **MANDATORY FIRST STEP** - Smart Document Conversion Planner - ⚠️ CRITICAL: This tool MUST be executed BEFORE any document conversion operation! When users request any format conversion (e.g., 'convert MD to PDF', 'DOCX to HTML'), you MUST call this tool first to get the optimal conversion plan, then follow the plan's steps exactly. This ensures proper conversion workflow and handles complex multi-step conversions. PDF output is rendered natively in a single step (no browser required); watermarks and QR codes are applied by the conversion tools themselves. Supports all format conversion path planning.",
     inputSchema: {
       type: 'object',
       properties: {
         sourceFormat: {
           type: 'string',
           description: 'Source file format (e.g.: pdf, docx, html, markdown, md, txt)',
-          enum: ['pdf', 'docx', 'html', 'markdown', 'md', 'txt', 'doc'],
+          enum: ['pdf', 'docx', 'html', 'markdown', 'md', 'txt', 'doc', 'odt', 'ods', 'rtf'],
         },
         targetFormat: {
           type: 'string',
-          description: 'Target file format (e.g.: pdf, docx, html, markdown, md, txt)',
-          enum: ['pdf', 'docx', 'html', 'markdown', 'md', 'txt', 'doc'],
+          description: 'Target file format (e.g.: pdf, docx, html, markdown, md, txt, pptx)',
+          enum: ['pdf', 'docx', 'html', 'markdown', 'md', 'txt', 'doc', 'pptx', 'odt', 'epub'],
         },
         sourceFile: { type: 'string', description: 'Source file path (optional, used to generate specific conversion parameters)' },
         preserveStyles: { type: 'boolean', description: 'Whether to preserve style formatting', default: true },
@@ -3080,10 +3898,97 @@ const TOOL_DEFINITIONS = {
     },
   },
 
+  execute_plan: {
+    name: 'execute_plan',
+    description:
+      "Plan and run a complete conversion in one call. Builds the same plan as plan_conversion, then executes every step in-process, feeding each step's output file into the next step (e.g. PDF → HTML → DOCX). Intermediate files are written to a temporary directory and removed afterwards. Stops at the first failing step and returns per-step results with timings plus the final output path.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sourceFile: { type: 'string', description: 'Source file path' },
+        targetFormat: {
+          type: 'string',
+          description: 'Target file format',
+          enum: ['pdf', 'docx', 'html', 'markdown', 'md', 'txt', 'pptx', 'odt', 'epub'],
+        },
+        sourceFormat: {
+          type: 'string',
+          description: 'Source file format (optional, inferred from the file extension)',
+          enum: ['pdf', 'docx', 'html', 'markdown', 'md', 'txt', 'doc', 'odt', 'ods', 'rtf'],
+        },
+        outputPath: {
+          type: 'string',
+          description: 'Final output file path (optional, defaults to OUTPUT_DIR)',
+        },
+        preserveStyles: {
+          type: 'boolean',
+          description: 'Whether to preserve style formatting',
+          default: true,
+        },
+        includeImages: { type: 'boolean', description: 'Whether to include images', default: true },
+        theme: {
+          type: 'string',
+          description: 'Conversion theme (applicable to HTML/DOCX/PDF output)',
+          enum: ['github', 'academic', 'modern', 'professional', 'default'],
+        },
+        quality: {
+          type: 'string',
+          description: 'Conversion quality requirements',
+          enum: ['fast', 'balanced', 'high'],
+          default: 'balanced',
+        },
+      },
+      required: ['sourceFile', 'targetFormat'],
+    },
+  },
+
+  batch_convert: {
+    name: 'batch_convert',
+    description:
+      'Convert every matching file in a directory or glob pattern (e.g. "docs/**/*.md") to one target format in a single call. Conversions run with bounded concurrency, the source folder structure is mirrored under OUTPUT_DIR, and files whose output is newer than the input are skipped on re-runs. Returns a per-file manifest with status (converted/skipped/failed), output path, size and error.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        source: {
+          type: 'string',
+          description:
+            'Directory, single file or glob pattern (supports **, *, ?, [...] and {a,b})',
+        },
+        targetFormat: {
+          type: 'string',
+          enum: ['pdf', 'html', 'docx', 'markdown', 'md', 'txt', 'odt', 'epub'],
+          description: 'Target format for all files',
+        },
+        options: {
+          type: 'object',
+          description:
+            'Per-extension conversion options, e.g. {".md": {"theme": "academic"}, ".docx": {"revisionMode": "reject"}}',
+        },
+        extensions: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Input extensions to include when source is a directory (default: .docx, .md, .markdown, .html, .pdf, .txt, .odt, .ods, .rtf)',
+        },
+        concurrency: {
+          type: 'number',
+          description: 'Maximum number of parallel conversions (1-16)',
+          default: 4,
+        },
+        force: {
+          type: 'boolean',
+          description: 'Convert all files even if their output is up to date',
+          default: false,
+        },
+      },
+      required: ['source', 'targetFormat'],
+    },
+  },
+
   process_pdf_post_conversion: {
     name: 'process_pdf_post_conversion',
     description:
-      '🔧 PDF Post-Processing Unified Tool - ⚠️ IMPORTANT: This is a necessary follow-up step for playwright-mcp\'s browser_pdf_save command! After using playwright-mcp to generate PDF, this tool must be called immediately to complete final processing. Features include: 1) Automatically move PDF from playwright temporary path to target location 2) Uniformly add watermarks and QR codes 3) Clean up temporary files. Workflow: playwright-mcp:browser_pdf_save → doc-ops-mcp:process_pdf_post_conversion',
+      "🔧 PDF Post-Processing Unified Tool - Finalizes a PDF produced by an external tool such as playwright-mcp's browser_pdf_save. Not needed for PDFs generated by doc-ops-mcp itself, which are rendered natively. Features include: 1) Automatically move PDF from playwright temporary path to target location 2) Uniformly add headers/footers (page numbers, Bates numbers), watermarks and QR codes, then optionally password-protect the result 3) Clean up temporary files. Workflow: playwright-mcp:browser_pdf_save → doc-ops-mcp:process_pdf_post_conversion",
     inputSchema: {
       type: 'object',
       properties: {
@@ -3138,6 +4043,63 @@ const TOOL_DEFINITIONS = {
           description: 'Custom text below QR code',
           default: 'Scan QR code for more information',
         },
+        headerText: {
+          type: 'string',
+          description:
+            'Header template, e.g. "{title}". Placeholders: {n} page number, {total} page count, {date} today (YYYY-MM-DD), {filename} PDF file name, {title} PDF title (or file name), {bates} Bates number',
+        },
+        footerText: {
+          type: 'string',
+          description: 'Footer template, e.g. "Page {n} of {total}" or "{bates}"',
+        },
+        headerPosition: { type: 'string', enum: ['left', 'center', 'right'], default: 'center' },
+        footerPosition: { type: 'string', enum: ['left', 'center', 'right'], default: 'center' },
+        stampFont: {
+          type: 'string',
+          description:
+            'Header/footer font: a standard PDF font name (Helvetica, Helvetica-Bold, Times-Roman, Courier, ...) or a TTF/OTF file path. Chinese text uses a system Chinese font automatically',
+          default: 'Helvetica',
+        },
+        stampFontSize: { type: 'number', description: 'Header/footer font size', default: 9 },
+        stampColor: {
+          type: 'string',
+          description: 'Header/footer text color (#RRGGBB)',
+          default: '#000000',
+        },
+        stampMargin: {
+          type: 'number',
+          description: 'Distance from the page edge in points',
+          default: 24,
+        },
+        skipFirstPage: {
+          type: 'boolean',
+          description: 'Leave the first page (cover) without header/footer',
+          default: false,
+        },
+        batesPrefix: { type: 'string', description: 'Bates number prefix, e.g. "ABC"' },
+        batesStart: { type: 'number', description: 'First Bates number', default: 1 },
+        batesDigits: { type: 'number', description: 'Bates number width, zero padded', default: 6 },
+        userPassword: {
+          type: 'string',
+          description: 'Password required to open the PDF (optional)',
+        },
+        ownerPassword: {
+          type: 'string',
+          description:
+            'Password that lifts the permission restrictions (a random one is used when omitted)',
+        },
+        encryption: {
+          type: 'string',
+          enum: ['rc4-128', 'aes-128', 'aes-256'],
+          description: 'Encryption algorithm',
+          default: 'aes-256',
+        },
+        permissions: {
+          type: 'array',
+          items: { type: 'string', enum: ['print', 'copy', 'modify', 'annotate'] },
+          description:
+            'Operations allowed without the owner password (all when omitted; [] allows none)',
+        },
       },
       required: ['playwrightPdfPath'],
     },
@@ -3152,13 +4114,25 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     TOOL_DEFINITIONS.convert_document,
     TOOL_DEFINITIONS.add_watermark,
     TOOL_DEFINITIONS.add_qrcode,
+    TOOL_DEFINITIONS.stamp_pdf,
+    TOOL_DEFINITIONS.set_pdf_metadata,
+    TOOL_DEFINITIONS.encrypt_pdf,
+    TOOL_DEFINITIONS.decrypt_pdf,
     TOOL_DEFINITIONS.convert_docx_to_pdf,
     TOOL_DEFINITIONS.convert_markdown_to_html,
     TOOL_DEFINITIONS.convert_markdown_to_docx,
     TOOL_DEFINITIONS.convert_markdown_to_pdf,
+    TOOL_DEFINITIONS.convert_markdown_to_pptx,
     TOOL_DEFINITIONS.convert_html_to_markdown,
     TOOL_DEFINITIONS.create_word_document,
+    TOOL_DEFINITIONS.fill_docx_template,
+    TOOL_DEFINITIONS.compare_documents,
+    TOOL_DEFINITIONS.merge_documents,
+    TOOL_DEFINITIONS.split_document,
+    TOOL_DEFINITIONS.pdf_pages,
     TOOL_DEFINITIONS.plan_conversion,
+    TOOL_DEFINITIONS.execute_plan,
+    TOOL_DEFINITIONS.batch_convert,
     TOOL_DEFINITIONS.process_pdf_post_conversion,
 
   ],
@@ -3223,18 +4197,69 @@ async function handleToolCall(name: string, args: any) {
   if (name === 'add_qrcode') {
     return await addQRCode(args.pdfPath, args.qrCodePath, args);
   }
+
+  if (name === 'stamp_pdf') {
+    return await handleStampPdf(args);
+  }
+
+  if (name === 'set_pdf_metadata') {
+    return await handleSetPdfMetadata(args);
+  }
+
+  if (name === 'encrypt_pdf') {
+    return await handleEncryptPdf(args);
+  }
+
+  if (name === 'decrypt_pdf') {
+    return await handleDecryptPdf(args);
+  }
   
   // 转换规划操作
   if (name === 'plan_conversion') {
     return await handleConversionPlanning(args);
   }
+
+  // 执行转换计划
+  if (name === 'execute_plan') {
+    return await handleExecutePlan(args);
+  }
+
+  // 批量转换操作
+  if (name === 'batch_convert') {
+    return await handleBatchConvert(args);
+  }
+
+  // 文档比较
+  if (name === 'compare_documents') {
+    return await handleCompareDocuments(args);
+  }
+
+  // 文档合并与拆分
+  if (name === 'merge_documents') {
+    return await handleMergeDocuments(args);
+  }
+
+  if (name === 'split_document') {
+    return await handleSplitDocument(args);
+  }
+
+  // PDF 页面操作
+  if (name === 'pdf_pages') {
+    return await handlePdfPages(args);
+  }
   
   throw new Error(`Unknown tool: ${name}`);
 }
 
 // 检查是否为基础文档操作
 function isBasicDocumentOperation(name: string): boolean {
-  return ['read_document', 'write_document', 'convert_document', 'create_word_document'].includes(name);
+  return [
+    'read_document',
+    'write_document',
+    'convert_document',
+    'create_word_document',
+    'fill_docx_template',
+  ].includes(name);
 }
 
 // 检查是否为PDF操作
@@ -3244,7 +4269,12 @@ function isPdfOperation(name: string): boolean {
 
 // 检查是否为Markdown操作
 function isMarkdownOperation(name: string): boolean {
-  return ['convert_markdown_to_html', 'convert_markdown_to_docx', 'convert_markdown_to_pdf'].includes(name);
+  return [
+    'convert_markdown_to_html',
+    'convert_markdown_to_docx',
+    'convert_markdown_to_pdf',
+    'convert_markdown_to_pptx',
+  ].includes(name);
 }
 
 // 检查是否为HTML操作
@@ -3264,21 +4294,40 @@ async function handleBasicDocumentOperations(name: string, args: any) {
     case 'convert_document':
       // 传递 targetFormat 参数
       const convertOptions = { ...args, targetFormat: args.targetFormat };
-      return await convertDocument(args.inputPath, undefined, convertOptions);
+      return await convertDocument(args.inputPath, args.outputPath, convertOptions);
     case 'create_word_document':
       return await createWordDocument(args.content, undefined, args);
+    case 'fill_docx_template':
+      return await handleFillDocxTemplate(args);
     default:
       throw new Error(`Unknown basic document operation: ${name}`);
   }
 }
 
+// 处理DOCX模板填充
+async function handleFillDocxTemplate(args: any) {
+  const templatePath = validatePath(args.templatePath);
+  const data = typeof args.data === 'string' ? JSON.parse(args.data) : (args.data ?? {});
+  const outputPath = resolveOutputPath(args.outputPath, templatePath, '_filled.docx');
+
+  const result = await fillDocxTemplate(templatePath, data, {
+    outputPath,
+    imageBaseDir: args.imageBaseDir,
+    debug: args.debug ?? false,
+  });
+  // 文件已写入磁盘，不在工具结果中返回二进制内容
+  const summary = { ...result };
+  delete summary.content;
+  return summary;
+}
+
 // 处理PDF操作
 async function handlePdfOperations(name: string, args: any) {
   switch (name) {
     case 'process_pdf_post_conversion':
       return await processPdfPostConversion(args.playwrightPdfPath, args.targetPath, args);
     case 'convert_docx_to_pdf':
-      return await convertDocxToPdf(args.docxPath, undefined, args);
+      return await convertDocxToPdf(args.docxPath, args.outputPath, args);
     default:
       throw new Error(`Unknown PDF operation: ${name}`);
   }
@@ -3293,6 +4342,8 @@ async function handleMarkdownOperations(name: string, args: any) {
       return await handleMarkdownToDocx(args);
     case 'convert_markdown_to_pdf':
       return await handleMarkdownToPdf(args);
+    case 'convert_markdown_to_pptx':
+      return await handleMarkdownToPptx(args);
     default:
       throw new Error(`Unknown Markdown operation: ${name}`);
   }
@@ -3300,11 +4351,13 @@ async function handleMarkdownOperations(name: string, args: any) {
 
 // 处理Markdown到HTML转换
 async function handleMarkdownToHtml(args: any) {
-  const outputPath = resolveOutputPath(undefined, args.markdownPath, '.html');
+  const outputPath = resolveOutputPath(args.outputPath, args.markdownPath, '.html');
   
   return await convertMarkdownToHtml(args.markdownPath, {
     theme: args.theme ?? 'github',
     includeTableOfContents: args.includeTableOfContents ?? false,
+    enableSyntaxHighlighting: args.enableSyntaxHighlighting !== false,
+    renderDiagrams: args.renderDiagrams !== false,
     customCSS: args.customCSS,
     outputPath,
     standalone: true,
@@ -3314,12 +4367,16 @@ async function handleMarkdownToHtml(args: any) {
 
 // 处理Markdown到DOCX转换
 async function handleMarkdownToDocx(args: any) {
-  const outputPath = resolveOutputPath(undefined, args.markdownPath, '.docx');
+  const outputPath = resolveOutputPath(args.outputPath, args.markdownPath, '.docx');
   
   return await convertMarkdownToDocx(args.markdownPath, {
     theme: args.theme ?? 'professional',
     includeTableOfContents: args.includeTableOfContents ?? false,
     preserveStyles: args.preserveStyles !== false,
+    enableSyntaxHighlighting: args.enableSyntaxHighlighting !== false,
+    renderDiagrams: args.renderDiagrams !== false,
+    imageCaptions: args.imageCaptions ?? false,
+    remoteImages: args.remoteImages ?? 'placeholder',
     outputPath,
     debug: true,
   });
@@ -3327,15 +4384,44 @@ async function handleMarkdownToDocx(args: any) {
 
 // 处理Markdown到PDF转换
 async function handleMarkdownToPdf(args: any) {
-  const outputPath = resolveOutputPath(undefined, args.markdownPath, '.pdf');
+  const outputPath = resolveOutputPath(args.outputPath, args.markdownPath, '.pdf');
   
   return await convertMarkdownToPdf(args.markdownPath, outputPath, {
     theme: args.theme ?? 'github',
     includeTableOfContents: args.includeTableOfContents ?? false,
+    addWatermark: args.addWatermark ?? false,
     addQrCode: args.addQrCode ?? false,
+    title: args.title,
+    author: args.author,
+    subject: args.subject,
+    keywords: args.keywords,
+    outlineLevel: args.outlineLevel,
+    userPassword: args.userPassword,
+    ownerPassword: args.ownerPassword,
+    encryption: args.encryption,
+    permissions: args.permissions,
   });
 }
 
+// 处理Markdown到PPTX转换
+async function handleMarkdownToPptx(args: any) {
+  const outputPath = resolveOutputPath(args.outputPath, args.markdownPath, '.pptx');
+
+  const result = await convertMarkdownToPptx(args.markdownPath, {
+    theme: args.theme ?? 'professional',
+    splitOn: args.splitOn ?? 'auto',
+    enableSyntaxHighlighting: args.enableSyntaxHighlighting !== false,
+    renderDiagrams: args.renderDiagrams !== false,
+    remoteImages: args.remoteImages ?? 'placeholder',
+    outputPath,
+    debug: args.debug ?? false,
+  });
+  // 文件已写入磁盘，不在工具结果中返回二进制内容
+  const summary = { ...result };
+  delete summary.content;
+  return summary;
+}
+
 // 处理HTML操作
 async function handleHtmlOperations(name: string, args: any) {
   switch (name) {
@@ -3352,7 +4438,7 @@ async function handleHtmlToMarkdown(args: any) {
   const { EnhancedHtmlToMarkdownConverter } = await import('./tools/enhancedHtmlToMarkdownConverter.js');
   const enhancedConverter = new EnhancedHtmlToMarkdownConverter();
   
-  const finalOutputPath = resolveOutputPath(undefined, args.htmlPath, '.md');
+  const finalOutputPath = resolveOutputPath(args.outputPath, args.htmlPath, '.md');
   
   return await enhancedConverter.convertHtmlToMarkdown(args.htmlPath, {
     preserveStyles: args.preserveStyles !== false,
@@ -3364,6 +4450,45 @@ async function handleHtmlToMarkdown(args: any) {
 
 
 
+// 处理批量转换
+async function handleBatchConvert(args: any) {
+  return await batchConvert(args.source, convertBatchFile, {
+    targetFormat: args.targetFormat,
+    outputDir: defaultResourcePaths.outputDir,
+    optionsByExtension: args.options,
+    extensions: args.extensions,
+    concurrency: args.concurrency,
+    force: args.force ?? false,
+  });
+}
+
+// 批量转换中的单个文件：Markdown 使用专用转换器以应用主题，其余格式交给 convertDocument
+async function convertBatchFile(inputPath: string, outputPath: string, options: any) {
+  const inputExt = path.extname(inputPath).toLowerCase();
+  const outputExt = path.extname(outputPath).toLowerCase();
+  if (inputExt === '.md' || inputExt === '.markdown') {
+    if (outputExt === '.html') {
+      return await convertMarkdownToHtml(inputPath, {
+        theme: 'github',
+        ...options,
+        outputPath,
+        standalone: true,
+      });
+    }
+    if (outputExt === '.docx') {
+      return await convertMarkdownToDocx(inputPath, {
+        theme: 'professional',
+        ...options,
+        outputPath,
+      });
+    }
+    if (outputExt === '.pdf') {
+      return await convertMarkdownToPdf(inputPath, outputPath, options);
+    }
+  }
+  return await convertDocument(inputPath, outputPath, options);
+}
+
 // 处理转换规划
 async function handleConversionPlanning(args: any) {
   const planner = new ConversionPlanner();
@@ -3374,7 +4499,8 @@ async function handleConversionPlanning(args: any) {
     requirements: {
       preserveStyles: args.preserveStyles !== false,
       includeImages: args.includeImages !== false,
-      theme: args.theme ?? 'github',
+      // 未指定主题时由规划器按目标工具选择默认主题
+      theme: args.theme,
       quality: args.quality ?? 'balanced',
     },
   };
@@ -3382,6 +4508,154 @@ async function handleConversionPlanning(args: any) {
   return await planner.planConversion(conversionRequest);
 }
 
+// 规划并执行转换：各步骤通过 handleToolCall 在进程内运行，中间文件写入临时目录
+async function handleExecutePlan(args: any) {
+  const sourceFormat = args.sourceFormat ?? path.extname(args.sourceFile ?? '').slice(1);
+  const plan = await handleConversionPlanning({ ...args, sourceFormat });
+  // 最终文件以源文件命名，而不是沿用中间文件的临时名称
+  const targetFormat = String(args.targetFormat ?? '').toLowerCase();
+  const extension = targetFormat === 'markdown' ? '.md' : `.${targetFormat}`;
+
+  return await executePlan(plan, args.sourceFile, handleToolCall, {
+    outputPath: resolveOutputPath(args.outputPath, args.sourceFile ?? '', extension),
+    tempPath: createSecureTempPath,
+    debug: args.debug ?? false,
+  });
+}
+
+// 处理文档比较
+async function handleCompareDocuments(args: any) {
+  const format = args.format ?? 'html';
+  const extension = format === 'markdown' ? '.md' : `.${format}`;
+  const revisedPath = validatePath(args.revisedPath);
+  const outputPath = resolveOutputPath(args.outputPath, revisedPath, `_compare${extension}`);
+
+  const result = await compareDocuments(validatePath(args.originalPath), revisedPath, {
+    format,
+    outputPath,
+    author: args.author,
+    debug: args.debug ?? false,
+  });
+  // Markdown 摘要直接返回，HTML 和 DOCX 只返回文件路径
+  const { content, ...summary } = result;
+  return format === 'markdown' ? { ...summary, content } : summary;
+}
+
+// 处理文档合并：格式不同的输入先转换为输出格式
+async function handleMergeDocuments(args: any) {
+  const inputPaths: string[] = (args.inputPaths ?? []).map((inputPath: string) =>
+    validatePath(inputPath)
+  );
+  const firstInput = inputPaths[0] ?? 'merged';
+  const extension = args.format
+    ? (MERGE_EXTENSIONS[args.format as MergeFormat] ?? `.${args.format}`)
+    : path.extname(args.outputPath ?? firstInput).toLowerCase();
+  const outputPath = resolveOutputPath(args.outputPath, firstInput, `_merged${extension}`);
+
+  return await mergeDocuments(inputPaths, convertMergeInput, {
+    outputPath,
+    format: args.format,
+    styleMode: args.styleMode,
+    sectionBreak: args.sectionBreak,
+    tempPath: createSecureTempPath,
+    debug: args.debug ?? false,
+  });
+}
+
+// 合并前的格式转换：Markdown 转 DOCX 时由这里写出文件，临时目录不受转换器输出目录的限制
+async function convertMergeInput(inputPath: string, outputPath: string) {
+  const inputExt = path.extname(inputPath).toLowerCase();
+  if ((inputExt === '.md' || inputExt === '.markdown') && path.extname(outputPath) === '.docx') {
+    const result = await convertMarkdownToDocx(inputPath, { theme: 'professional' });
+    if (result.success && result.content) {
+      await fs.writeFile(outputPath, result.content);
+    }
+    return { ...result, outputPath };
+  }
+  return await convertBatchFile(inputPath, outputPath, {});
+}
+
+// 处理文档拆分
+async function handleSplitDocument(args: any) {
+  const inputPath = validatePath(args.inputPath);
+  const outputDir = args.outputDir
+    ? path.isAbsolute(args.outputDir)
+      ? args.outputDir
+      : path.join(defaultResourcePaths.outputDir, args.outputDir)
+    : path.join(
+        defaultResourcePaths.outputDir,
+        `${path.basename(inputPath, path.extname(inputPath))}_parts`
+      );
+
+  return await splitDocument(inputPath, {
+    outputDir,
+    mode: args.mode,
+    level: args.level,
+    pages: args.pages,
+    debug: args.debug ?? false,
+  });
+}
+
+// 处理PDF页眉页脚
+async function handleStampPdf(args: any) {
+  const pdfPath = validatePath(args.pdfPath);
+  const outputPath = args.outputPath
+    ? resolveOutputPath(args.outputPath, pdfPath, '.pdf')
+    : undefined;
+
+  return await stampPdf(pdfPath, { ...args, outputPath, debug: args.debug ?? false });
+}
+
+// 处理PDF文档属性与书签
+async function handleSetPdfMetadata(args: any) {
+  const pdfPath = validatePath(args.pdfPath);
+  const outputPath = args.outputPath
+    ? resolveOutputPath(args.outputPath, pdfPath, '.pdf')
+    : undefined;
+  const bookmarks =
+    typeof args.bookmarks === 'string' ? JSON.parse(args.bookmarks) : args.bookmarks;
+
+  return await setPdfMetadata(pdfPath, {
+    ...args,
+    outputPath,
+    bookmarks,
+    debug: args.debug ?? false,
+  });
+}
+
+// 处理PDF加密
+async function handleEncryptPdf(args: any) {
+  const pdfPath = validatePath(args.pdfPath);
+  const outputPath = args.outputPath
+    ? resolveOutputPath(args.outputPath, pdfPath, '.pdf')
+    : undefined;
+
+  return await encryptPdf(pdfPath, { ...args, outputPath, debug: args.debug ?? false });
+}
+
+// 处理PDF解密
+async function handleDecryptPdf(args: any) {
+  const pdfPath = validatePath(args.pdfPath);
+  const outputPath = args.outputPath
+    ? resolveOutputPath(args.outputPath, pdfPath, '.pdf')
+    : undefined;
+
+  return await decryptPdf(pdfPath, { ...args, outputPath, debug: args.debug ?? false });
+}
+
+// 处理PDF页面操作
+async function handlePdfPages(args: any) {
+  const inputPath = validatePath(args.inputPath);
+  const operations =
+    typeof args.operations === 'string' ? JSON.parse(args.operations) : args.operations;
+
+  return await editPdfPages(inputPath, {
+    outputPath: resolveOutputPath(args.outputPath, inputPath, '_pages.pdf'),
+    operations: operations ?? [],
+    debug: args.debug ?? false,
+  });
+}
+
 // 解析输出路径的辅助函数
 function resolveOutputPath(outputPath: string | undefined, inputPath: string, extension: string): string {
   if (outputPath) {
@@ -0,0 +1,352 @@
+/**
+ * 批量转换器
+ * 按目录或 glob 模式收集文件，以有限并发逐个转换，并在输出目录中镜像源目录结构；
+ * 重复运行时跳过输出比输入更新的文件
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+type BatchItemStatus = 'converted' | 'skipped' | 'failed';
+
+// 单个文件的转换函数，由调用方提供（通常路由到 convertDocument 或专用转换器）
+type BatchConvertFunction = (
+  inputPath: string,
+  outputPath: string,
+  options: Record<string, any>
+) => Promise<{ success: boolean; error?: string }>;
+
+interface BatchConvertOptions {
+  targetFormat: string;
+  outputDir: string;
+  concurrency?: number;
+  extensions?: string[]; // 目录模式下参与转换的输入扩展名
+  optionsByExtension?: Record<string, Record<string, any>>; // 如 { ".md": { theme: "academic" } }
+  force?: boolean; // 忽略增量判断，全部重新转换
+  debug?: boolean;
+}
+
+interface BatchItemResult {
+  inputPath: string;
+  outputPath: string;
+  status: BatchItemStatus;
+  size?: number;
+  durationMs?: number;
+  error?: string;
+}
+
+interface BatchConvertResult {
+  success: boolean;
+  source: string;
+  targetFormat: string;
+  outputDir: string;
+  total: number;
+  converted: number;
+  skipped: number;
+  failed: number;
+  manifest: BatchItemResult[];
+  error?: string;
+}
+
+const FORMAT_EXTENSIONS: Record<string, string> = {
+  pdf: '.pdf',
+  html: '.html',
+  docx: '.docx',
+  markdown: '.md',
+  md: '.md',
+  txt: '.txt',
+  odt: '.odt',
+  epub: '.epub',
+};
+
+const DEFAULT_EXTENSIONS = [
+  '.docx',
+  '.md',
+  '.markdown',
+  '.html',
+  '.pdf',
+  '.txt',
+  '.odt',
+  '.ods',
+  '.rtf',
+];
+const DEFAULT_CONCURRENCY = 4;
+const MAX_CONCURRENCY = 16;
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+/**
+ * 批量转换器类
+ */
+class BatchConverter {
+  constructor(private readonly convert: BatchConvertFunction) {}
+
+  async convertBatch(source: string, options: BatchConvertOptions): Promise<BatchConvertResult> {
+    const targetFormat = options.targetFormat.toLowerCase();
+    const outputDir = path.resolve(options.outputDir);
+    const result: BatchConvertResult = {
+      success: false,
+      source,
+      targetFormat,
+      outputDir,
+      total: 0,
+      converted: 0,
+      skipped: 0,
+      failed: 0,
+      manifest: [],
+    };
+
+    const targetExt = FORMAT_EXTENSIONS[targetFormat];
+    if (!targetExt) {
+      return { ...result, error: `不支持的目标格式: ${options.targetFormat}` };
+    }
+
+    try {
+      const { baseDir, files } = await this.collectFiles(source, options, outputDir);
+      const jobs = this.planOutputs(files, baseDir, outputDir, targetExt);
+      const concurrency = Math.min(
+        Math.max(1, Math.floor(options.concurrency ?? DEFAULT_CONCURRENCY)),
+        MAX_CONCURRENCY
+      );
+
+      if (options.debug) {
+        console.log(`📦 批量转换: ${jobs.length} 个文件 → ${targetFormat}，并发 ${concurrency}`);
+      }
+
+      // 固定数量的工作协程依次领取任务，结果按输入顺序写回
+      const manifest: BatchItemResult[] = new Array(jobs.length);
+      let next = 0;
+      const worker = async () => {
+        while (next < jobs.length) {
+          const index = next++;
+          manifest[index] = await this.convertOne(jobs[index], options);
+          if (options.debug) {
+            const item = manifest[index];
+            console.log(
+              `${item.status === 'failed' ? '❌' : item.status === 'skipped' ? '⏭️' : '✅'} ${item.inputPath}`
+            );
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(concurrency, jobs.length) }, worker));
+
+      result.manifest = manifest;
+      result.total = manifest.length;
+      for (const item of manifest) result[item.status]++;
+      result.success = result.failed === 0;
+      return result;
+    } catch (error: any) {
+      console.error('❌ 批量转换失败:', error.message);
+      return { ...result, error: error.message };
+    }
+  }
+
+  /**
+   * 收集输入文件：目录按扩展名过滤，glob 模式按路径匹配，单个文件直接使用
+   */
+  private async collectFiles(
+    source: string,
+    options: BatchConvertOptions,
+    outputDir: string
+  ): Promise<{ baseDir: string; files: string[] }> {
+    const targetExt = FORMAT_EXTENSIONS[options.targetFormat.toLowerCase()];
+    const extensions = (options.extensions ?? DEFAULT_EXTENSIONS).map(normalizeExtension);
+    // 与目标格式相同的文件无需转换
+    const accepts = (file: string) => {
+      const ext = path.extname(file).toLowerCase();
+      return extensions.includes(normalizeExtension(ext)) && normalizeExtension(ext) !== targetExt;
+    };
+
+    let baseDir: string;
+    let matches: (relative: string) => boolean;
+    if (hasGlob(source)) {
+      const segments = source.split(/[\\/]/);
+      const firstGlob = segments.findIndex(hasGlob);
+      baseDir = path.resolve(segments.slice(0, firstGlob).join('/') || '.');
+      const pattern = globToRegExp(segments.slice(firstGlob).join('/'));
+      matches = relative => pattern.test(relative) && accepts(relative);
+    } else {
+      const resolved = path.resolve(source);
+      const stat = await fs.stat(resolved);
+      if (stat.isFile()) {
+        return { baseDir: path.dirname(resolved), files: [resolved] };
+      }
+      baseDir = resolved;
+      matches = accepts;
+    }
+
+    const files: string[] = [];
+    const walk = async (dir: string) => {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          // 输出目录位于源目录内时不再扫描，避免重复转换上次的结果
+          if (entry.name.startsWith('.') || IGNORED_DIRECTORIES.has(entry.name)) continue;
+          if (fullPath === outputDir) continue;
+          await walk(fullPath);
+        } else if (entry.isFile()) {
+          const relative = path.relative(baseDir, fullPath).split(path.sep).join('/');
+          if (matches(relative)) files.push(fullPath);
+        }
+      }
+    };
+    await walk(baseDir);
+    return { baseDir, files };
+  }
+
+  /**
+   * 计算输出路径：保持相对目录结构；同名不同扩展名的文件冲突时在文件名中追加原扩展名
+   */
+  private planOutputs(
+    files: string[],
+    baseDir: string,
+    outputDir: string,
+    targetExt: string
+  ): { inputPath: string; outputPath: string }[] {
+    const claimed = new Set<string>();
+    return files.map(inputPath => {
+      const relative = path.relative(baseDir, inputPath);
+      const ext = path.extname(relative);
+      const stem = relative.slice(0, relative.length - ext.length);
+      let outputPath = path.join(outputDir, `${stem}${targetExt}`);
+      if (claimed.has(outputPath)) {
+        outputPath = path.join(outputDir, `${stem}-${ext.slice(1).toLowerCase()}${targetExt}`);
+      }
+      claimed.add(outputPath);
+      return { inputPath, outputPath };
+    });
+  }
+
+  private async convertOne(
+    job: { inputPath: string; outputPath: string },
+    options: BatchConvertOptions
+  ): Promise<BatchItemResult> {
+    const { inputPath, outputPath } = job;
+    const startTime = Date.now();
+    try {
+      if (!options.force) {
+        const [input, output] = await Promise.all([fs.stat(inputPath), statIfExists(outputPath)]);
+        if (output && output.mtimeMs >= input.mtimeMs) {
+          return { inputPath, outputPath, status: 'skipped', size: output.size };
+        }
+      }
+
+      await fs.mkdir(path.dirname(outputPath), { recursive: true });
+      const ext = path.extname(inputPath).toLowerCase();
+      const extraOptions =
+        options.optionsByExtension?.[ext] ??
+        options.optionsByExtension?.[ext.slice(1)] ??
+        options.optionsByExtension?.[normalizeExtension(ext)] ??
+        {};
+      const converted = await this.convert(inputPath, outputPath, { ...extraOptions });
+      if (!converted.success) {
+        throw new Error(converted.error ?? '转换失败');
+      }
+
+      const output = await statIfExists(outputPath);
+      if (!output) {
+        throw new Error(`转换完成但未找到输出文件: ${outputPath}`);
+      }
+      return {
+        inputPath,
+        outputPath,
+        status: 'converted',
+        size: output.size,
+        durationMs: Date.now() - startTime,
+      };
+    } catch (error: any) {
+      return {
+        inputPath,
+        outputPath,
+        status: 'failed',
+        durationMs: Date.now() - startTime,
+        error: error.message,
+      };
+    }
+  }
+}
+
+function normalizeExtension(ext: string): string {
+  const lower = (ext.startsWith('.') ? ext : `.${ext}`).toLowerCase();
+  if (lower === '.markdown') return '.md';
+  if (lower === '.htm') return '.html';
+  return lower;
+}
+
+async function statIfExists(file: string) {
+  try {
+    return await fs.stat(file);
+  } catch {
+    return null;
+  }
+}
+
+function hasGlob(value: string): boolean {
+  return /[*?[\]{}]/.test(value);
+}
+
+/**
+ * glob 转正则：支持 **、*、?、[...] 和 {a,b}
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const slash = glob[i + 2] === '/';
+        pattern += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        pattern += '[^/]*';
+      }
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        pattern += '\\[';
+      } else {
+        pattern += `[${glob
+          .slice(i + 1, end)
+          .replace(/^!/, '^')
+          .replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      braceDepth++;
+      pattern += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      pattern += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      pattern += '|';
+    } else {
+      pattern += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`, process.platform === 'win32' ? 'i' : '');
+}
+
+/**
+ * 便捷函数：批量转换
+ */
+export async function batchConvert(
+  source: string,
+  convert: BatchConvertFunction,
+  options: BatchConvertOptions
+): Promise<BatchConvertResult> {
+  const converter = new BatchConverter(convert);
+  return await converter.convertBatch(source, options);
+}
+
+export {
+  BatchConverter,
+  BatchConvertFunction,
+  BatchConvertOptions,
+  BatchConvertResult,
+  BatchItemResult,
+  globToRegExp,
+};
@@ -41,7 +41,20 @@ interface ConversionPlan {
 
 class ConversionPlanner {
   // 支持的格式
-  private supportedFormats = ['pdf', 'docx', 'html', 'markdown', 'md', 'txt', 'doc'];
+  private supportedFormats = [
+    'pdf',
+    'docx',
+    'html',
+    'markdown',
+    'md',
+    'txt',
+    'doc',
+    'pptx',
+    'odt',
+    'ods',
+    'rtf',
+    'epub',
+  ];
 
   // 直接转换映射（一步到位）
   private directConversions: Record<string, Record<string, string>> = {
@@ -51,32 +64,41 @@ class ConversionPlanner {
       markdown: 'convert_document',
       md: 'convert_document',
       txt: 'convert_document',
+      odt: 'convert_document',
+      epub: 'convert_document',
     },
     markdown: {
       html: 'convert_markdown_to_html',
       docx: 'convert_markdown_to_docx',
-      pdf: 'convert_markdown_to_html', // 需要两步：md->html->pdf
+      pdf: 'convert_markdown_to_pdf',
+      pptx: 'convert_markdown_to_pptx',
       txt: 'convert_document',
+      odt: 'convert_document',
+      epub: 'convert_document',
     },
     md: {
       html: 'convert_markdown_to_html',
       docx: 'convert_markdown_to_docx',
-      pdf: 'convert_markdown_to_html', // 需要两步：md->html->pdf
+      pdf: 'convert_markdown_to_pdf',
+      pptx: 'convert_markdown_to_pptx',
       txt: 'convert_document',
+      odt: 'convert_document',
+      epub: 'convert_document',
     },
     html: {
       markdown: 'convert_html_to_markdown',
       md: 'convert_html_to_markdown',
       docx: 'convert_document',
       txt: 'convert_document',
-      pdf: 'convert_document', // 需要外部工具
+      pdf: 'convert_document',
+      odt: 'convert_document',
+      epub: 'convert_document',
     },
     pdf: {
-      txt: 'read_document',
-      html: 'read_document', // 读取后写入
-      markdown: 'read_document',
-      md: 'read_document',
-      docx: 'read_document',
+      txt: 'convert_document',
+      html: 'convert_document', // 版面分析生成语义化HTML；docx/markdown 经由 HTML 多步转换
+      odt: 'convert_document',
+      epub: 'convert_document',
     },
     txt: {
       html: 'write_document',
@@ -85,6 +107,36 @@ class ConversionPlanner {
       docx: 'write_document',
       pdf: 'write_document',
     },
+    // OpenDocument 与 RTF 经由内置读取器转为 HTML 后再输出目标格式
+    odt: {
+      html: 'convert_document',
+      markdown: 'convert_document',
+      md: 'convert_document',
+      docx: 'convert_document',
+      pdf: 'convert_document',
+      txt: 'convert_document',
+      epub: 'convert_document',
+    },
+    ods: {
+      html: 'convert_document',
+      markdown: 'convert_document',
+      md: 'convert_document',
+      docx: 'convert_document',
+      pdf: 'convert_document',
+      txt: 'convert_document',
+      odt: 'convert_document',
+      epub: 'convert_document',
+    },
+    rtf: {
+      html: 'convert_document',
+      markdown: 'convert_document',
+      md: 'convert_document',
+      docx: 'convert_document',
+      pdf: 'convert_document',
+      txt: 'convert_document',
+      odt: 'convert_document',
+      epub: 'convert_document',
+    },
   };
 
   // 多步转换路径（当直接转换不可用时）
@@ -93,15 +145,23 @@ class ConversionPlanner {
       docx: ['pdf', 'html', 'docx'],
       markdown: ['pdf', 'html', 'markdown'],
       md: ['pdf', 'html', 'md'],
-    },
-    markdown: {
-      pdf: ['markdown', 'html', 'pdf'],
-    },
-    md: {
-      pdf: ['md', 'html', 'pdf'],
+      pptx: ['pdf', 'html', 'markdown', 'pptx'],
     },
     docx: {
       pdf: ['docx', 'html', 'pdf'], // 备用路径
+      pptx: ['docx', 'markdown', 'pptx'], // 幻灯片由 Markdown 结构生成
+    },
+    html: {
+      pptx: ['html', 'markdown', 'pptx'],
+    },
+    odt: {
+      pptx: ['odt', 'markdown', 'pptx'],
+    },
+    ods: {
+      pptx: ['ods', 'markdown', 'pptx'],
+    },
+    rtf: {
+      pptx: ['rtf', 'markdown', 'pptx'],
     },
   };
 
@@ -314,6 +374,8 @@ class ConversionPlanner {
       markdown: {
         html: 'convert_markdown_to_html',
         docx: 'convert_markdown_to_docx',
+        pdf: 'convert_markdown_to_pdf',
+        pptx: 'convert_markdown_to_pptx',
       },
       html: {
         markdown: 'convert_html_to_markdown',
@@ -348,11 +410,20 @@ class ConversionPlanner {
         params.includeTableOfContents = false;
         break;
 
+      case 'convert_markdown_to_pdf':
+        params.theme = request.requirements?.theme ?? 'github';
+        params.includeTableOfContents = false;
+        break;
+
       case 'convert_markdown_to_docx':
         params.theme = request.requirements?.theme ?? 'professional';
         params.preserveStyles = request.requirements?.preserveStyles !== false;
         break;
 
+      case 'convert_markdown_to_pptx':
+        params.theme = request.requirements?.theme ?? 'professional';
+        break;
+
       case 'convert_html_to_markdown':
         params.preserveStyles = request.requirements?.preserveStyles !== false;
         params.debug = false;
@@ -368,6 +439,7 @@ class ConversionPlanner {
         break;
 
       case 'convert_document':
+        params.targetFormat = toFormat;
         params.preserveFormatting = request.requirements?.preserveStyles !== false;
         break;
     }
@@ -384,10 +456,12 @@ class ConversionPlanner {
   /**
    * 获取输入参数名称
    */
-  private getInputParameterName(toolName: string): string {
+  getInputParameterName(toolName: string): string {
     const mappings: Record<string, string> = {
       convert_markdown_to_html: 'markdownPath',
       convert_markdown_to_docx: 'markdownPath',
+      convert_markdown_to_pdf: 'markdownPath',
+      convert_markdown_to_pptx: 'markdownPath',
       convert_html_to_markdown: 'htmlPath',
       convert_docx_to_pdf: 'docxPath',
       dual_parsing_docx_to_html: 'docxPath',
@@ -406,6 +480,8 @@ class ConversionPlanner {
 
       convert_markdown_to_html: '将Markdown文档转换为HTML格式，应用主题样式',
       convert_markdown_to_docx: '将Markdown文档转换为DOCX格式，应用专业样式',
+      convert_markdown_to_pdf: '将Markdown文档排版输出为PDF格式，应用主题样式',
+      convert_markdown_to_pptx: '将Markdown文档按分隔线或标题拆分为幻灯片，生成PPTX演示文稿',
       convert_html_to_markdown: '将HTML文档转换为Markdown格式，保留结构',
       convert_document: this.getConvertDocumentDescription(fromFormat, toFormat),
     };
@@ -426,9 +502,27 @@ class ConversionPlanner {
     if (fromFormat === 'docx' && toFormat === 'markdown') {
       return '将DOCX文档转换为Markdown格式，使用优化转换器提取文本内容和结构，保留标题、段落、列表等格式';
     }
+    if (fromFormat === 'pdf' && toFormat === 'html') {
+      return '对PDF文档进行版面分析，识别标题、段落、列表和简单表格，生成语义化HTML文档';
+    }
+    if (fromFormat === 'pdf' && toFormat === 'txt') {
+      return '按阅读顺序逐页提取PDF文本内容';
+    }
     if (fromFormat === 'docx' && toFormat === 'html') {
       return '将DOCX文档转换为HTML格式，使用OOXML解析器保留样式、格式和结构，生成完整的HTML文档';
     }
+    if (fromFormat === 'ods') {
+      return `读取ODS电子表格，每个工作表生成一个表格，再输出为${toFormat.toUpperCase()}格式`;
+    }
+    if (fromFormat === 'odt' || fromFormat === 'rtf') {
+      return `解析${fromFormat.toUpperCase()}文档的标题、列表、表格、图片和脚注，经由HTML输出为${toFormat.toUpperCase()}格式`;
+    }
+    if (toFormat === 'odt') {
+      return `将${fromFormat.toUpperCase()}文档转换为ODT格式，标题、列表和表格映射为OpenDocument命名样式`;
+    }
+    if (toFormat === 'epub') {
+      return `将${fromFormat.toUpperCase()}文档转换为EPUB电子书，按标题拆分章节并生成目录`;
+    }
     return `将${fromFormat.toUpperCase()}格式转换为${toFormat.toUpperCase()}格式，保持文档内容和基本结构`;
   }
 
@@ -445,6 +539,7 @@ class ConversionPlanner {
       markdown: {
         html: '5-15秒',
         docx: '10-30秒',
+        pptx: '5-15秒',
       },
       html: {
         markdown: '5-15秒',
@@ -455,6 +550,14 @@ class ConversionPlanner {
         markdown: '20-40秒',
         txt: '10-20秒',
       },
+      odt: {
+        html: '5-15秒',
+        markdown: '5-15秒',
+      },
+      rtf: {
+        html: '5-15秒',
+        markdown: '5-15秒',
+      },
     };
 
     return timeMappings[fromFormat]?.[toFormat] ?? '10-30秒';
@@ -468,8 +571,8 @@ class ConversionPlanner {
       return 'PDF转换可能会丢失部分格式信息';
     }
 
-    if (toFormat === 'pdf' && fromFormat !== 'docx') {
-      return '建议使用playwright-mcp完成最终的PDF生成';
+    if (toFormat === 'pdf') {
+      return '由内置排版引擎直接生成PDF，无需浏览器';
     }
 
     return undefined;
@@ -531,10 +634,44 @@ class ConversionPlanner {
       recommendations.push('📋 【必读前置条件】以下规则必须严格遵循：');
       recommendations.push('🔒 二维码规则：仅当用户明确要求添加二维码时才能添加，默认情况下不添加二维码');
       recommendations.push('📍 二维码位置：如需添加二维码，只能在PDF的最后一页底部中间位置，不能在每页都添加');
-      recommendations.push('⚠️ 重要：使用playwright mcp 中的 browser_pdf_save 方法时必须设置printBackground: true以保留背景色和样式');
-      recommendations.push('建议PDF生成参数：{"printBackground": true, "preferCSSPageSize": true, "format": "A4"}');
-      recommendations.push('如果PDF中缺少背景色或高亮样式，请检查printBackground参数是否已启用');
-      recommendations.push('PDF转换可能需要额外的字体支持以正确显示中文');
+      recommendations.push(
+        '水印和二维码通过转换工具的 addWatermark/addQrCode 参数一并添加，无需额外的后处理步骤'
+      );
+      recommendations.push('页面尺寸和页边距可通过 CSS @page 规则控制，默认 A4、20mm 页边距');
+      recommendations.push(
+        '中文等非拉丁字符需要系统中存在对应字体，或通过 PDF_FONT_PATH 环境变量指定字体文件'
+      );
+    }
+
+    if (targetFormat === 'epub') {
+      recommendations.push('EPUB 章节按 H1 拆分（仅有一个 H1 时按 H2 拆分），导航目录由标题生成');
+      recommendations.push(
+        '电子书标题取文档的第一个标题，语言取源文档的 lang 属性，没有时按正文内容识别，也可通过 language 参数指定'
+      );
+    }
+
+    if (targetFormat === 'odt') {
+      recommendations.push(
+        '生成的ODT文档使用标准命名样式（标题、引用、预格式文本），可在LibreOffice中统一调整'
+      );
+    }
+
+    if (sourceFormat === 'ods') {
+      recommendations.push('ODS 只保留单元格文本和合并关系，公式以计算结果输出');
+    }
+
+    if (sourceFormat === 'rtf') {
+      recommendations.push('RTF 按字体字符集解码，页眉页脚和批注不会输出');
+    }
+
+    if (targetFormat === 'pptx') {
+      recommendations.push('幻灯片按 --- 分隔线拆分；文档中没有分隔线时按 H1/H2 标题拆分');
+      recommendations.push(
+        '以 Note: 开头的段落及紧随其后的文字段落会作为该页的演讲者备注，之后的表格、图片等仍留在幻灯片上'
+      );
+      if (sourceFormat !== 'markdown') {
+        recommendations.push('先转换为Markdown再生成幻灯片，标题层级决定幻灯片的划分');
+      }
     }
 
     if (sourceFormat === 'pdf') {
@@ -564,10 +701,14 @@ class ConversionPlanner {
       warnings.push('此转换需要多个步骤，可能会有格式信息丢失');
     }
 
-    if (sourceFormat === 'pdf' || targetFormat === 'pdf') {
+    if (sourceFormat === 'pdf') {
       warnings.push('PDF格式转换可能需要额外的工具支持');
     }
 
+    if (targetFormat === 'pdf') {
+      warnings.push('内置排版引擎支持常用的CSS子集，浮动、弹性布局等复杂样式会按普通块级流排版');
+    }
+
     if (sourceFormat === 'html' && targetFormat === 'docx') {
       warnings.push('HTML到DOCX的转换可能无法完全保留所有CSS样式');
     }
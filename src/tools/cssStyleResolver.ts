@@ -0,0 +1,1003 @@
+/**
+ * CSS 样式解析器
+ * 解析 <style>/style 属性中的 CSS 子集（@media print、@page、@font-face），
+ * 按选择器优先级层叠并继承，得到每个元素的计算样式，供 PDF 排版引擎使用
+ */
+
+import type { CheerioAPI } from 'cheerio';
+
+// 颜色分量 0-255，alpha 0-1
+interface RgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+// 百分比在排版阶段按包含块宽度解析
+type CssLength = number | { percent: number } | 'auto';
+
+type BoxSides<T> = [T, T, T, T]; // top, right, bottom, left
+
+interface ComputedStyle {
+  display: string;
+  color: RgbaColor;
+  backgroundColor: RgbaColor | null;
+  fontFamily: string[];
+  fontSize: number;
+  fontWeight: number;
+  fontStyle: 'normal' | 'italic';
+  lineHeight: number;
+  textAlign: 'left' | 'right' | 'center' | 'justify';
+  textIndent: CssLength;
+  textTransform: string;
+  underline: boolean;
+  lineThrough: boolean;
+  whiteSpace: 'normal' | 'pre' | 'pre-wrap' | 'pre-line' | 'nowrap';
+  verticalAlign: string;
+  margin: BoxSides<CssLength>;
+  padding: BoxSides<CssLength>;
+  borderWidth: BoxSides<number>;
+  borderColor: BoxSides<RgbaColor>;
+  width: CssLength;
+  height: CssLength;
+  maxWidth: CssLength;
+  listStyleType: string;
+  breakBefore: boolean;
+  breakAfter: boolean;
+  breakInsideAvoid: boolean;
+  borderCollapse: boolean;
+  borderSpacing: number;
+  visible: boolean;
+  page?: string;
+}
+
+interface Declaration {
+  property: string;
+  value: string;
+  important: boolean;
+}
+
+interface StyleRule {
+  selectors: Array<{ text: string; specificity: number }>;
+  declarations: Declaration[];
+  order: number;
+}
+
+// @page 规则：size/margin 以及页边距盒（@top-left 等）的声明
+interface PageRule {
+  name?: string;
+  pseudo?: 'first' | 'left' | 'right';
+  declarations: Record<string, string>;
+  marginBoxes: Record<string, Record<string, string>>;
+}
+
+interface FontFaceRule {
+  family: string;
+  src: string[];
+  bold: boolean;
+  italic: boolean;
+}
+
+interface CssResolverOptions {
+  viewportWidth: number; // 用于媒体查询和 vw 单位
+}
+
+const DEFAULT_FONT_SIZE = 16;
+
+// 继承属性
+const INHERITED = new Set([
+  'color',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'font-style',
+  'line-height',
+  'text-align',
+  'text-indent',
+  'text-transform',
+  'text-decoration-line',
+  'white-space',
+  'list-style-type',
+  'visibility',
+  'border-collapse',
+  'border-spacing',
+]);
+
+// 不可用于静态排版的伪类/伪元素
+const DYNAMIC_SELECTOR =
+  /::|:(hover|focus|active|visited|before|after|first-line|first-letter|selection|target|focus-within|focus-visible)\b/i;
+
+// 浏览器默认样式（打印）
+const USER_AGENT_CSS = `
+  body { margin: 8px; }
+  p, dl, multicol { margin: 1em 0; }
+  h1 { font-size: 2em; margin: 0.67em 0; font-weight: bold; }
+  h2 { font-size: 1.5em; margin: 0.83em 0; font-weight: bold; }
+  h3 { font-size: 1.17em; margin: 1em 0; font-weight: bold; }
+  h4 { font-size: 1em; margin: 1.33em 0; font-weight: bold; }
+  h5 { font-size: 0.83em; margin: 1.67em 0; font-weight: bold; }
+  h6 { font-size: 0.67em; margin: 2.33em 0; font-weight: bold; }
+  blockquote, figure { margin: 1em 40px; }
+  ul, ol { margin: 1em 0; padding-left: 40px; }
+  ul ul, ul ol, ol ul, ol ol { margin-top: 0; margin-bottom: 0; }
+  ul { list-style-type: disc; }
+  ol { list-style-type: decimal; }
+  ul ul, ol ul { list-style-type: circle; }
+  ul ul ul, ul ol ul, ol ul ul, ol ol ul { list-style-type: square; }
+  dd { margin-left: 40px; }
+  pre { margin: 1em 0; white-space: pre; font-family: monospace; }
+  code, kbd, samp, tt, var { font-family: monospace; }
+  b, strong, th, dt { font-weight: bold; }
+  i, em, cite, dfn, address { font-style: italic; }
+  u, ins { text-decoration: underline; }
+  s, strike, del { text-decoration: line-through; }
+  a[href] { color: #0000ee; text-decoration: underline; }
+  sub { vertical-align: sub; font-size: smaller; }
+  sup { vertical-align: super; font-size: smaller; }
+  small { font-size: smaller; }
+  big { font-size: larger; }
+  mark { background-color: yellow; color: black; }
+  hr { border-top: 1px solid #999; margin: 0.5em 0; }
+  table { border-collapse: separate; border-spacing: 2px; }
+  td, th { padding: 1px; vertical-align: middle; }
+  th { text-align: center; }
+  caption, center { text-align: center; }
+`;
+
+// 元素默认 display
+const BLOCK_TAGS = new Set([
+  'html',
+  'body',
+  'div',
+  'p',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'ul',
+  'ol',
+  'dl',
+  'dt',
+  'dd',
+  'blockquote',
+  'pre',
+  'figure',
+  'figcaption',
+  'hr',
+  'section',
+  'article',
+  'header',
+  'footer',
+  'nav',
+  'aside',
+  'main',
+  'address',
+  'details',
+  'summary',
+  'form',
+  'fieldset',
+  'legend',
+  'center',
+  'caption',
+]);
+const HIDDEN_TAGS = new Set([
+  'head',
+  'script',
+  'style',
+  'title',
+  'meta',
+  'link',
+  'template',
+  'noscript',
+  'base',
+]);
+const TABLE_DISPLAY: Record<string, string> = {
+  table: 'table',
+  thead: 'table-header-group',
+  tbody: 'table-row-group',
+  tfoot: 'table-footer-group',
+  tr: 'table-row',
+  td: 'table-cell',
+  th: 'table-cell',
+  caption: 'table-caption',
+};
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '000000',
+  white: 'ffffff',
+  red: 'ff0000',
+  green: '008000',
+  blue: '0000ff',
+  yellow: 'ffff00',
+  orange: 'ffa500',
+  purple: '800080',
+  gray: '808080',
+  grey: '808080',
+  silver: 'c0c0c0',
+  maroon: '800000',
+  olive: '808000',
+  lime: '00ff00',
+  aqua: '00ffff',
+  cyan: '00ffff',
+  teal: '008080',
+  navy: '000080',
+  fuchsia: 'ff00ff',
+  magenta: 'ff00ff',
+  brown: 'a52a2a',
+  pink: 'ffc0cb',
+  gold: 'ffd700',
+  indigo: '4b0082',
+  violet: 'ee82ee',
+  darkgray: 'a9a9a9',
+  darkgrey: 'a9a9a9',
+  lightgray: 'd3d3d3',
+  lightgrey: 'd3d3d3',
+  dimgray: '696969',
+  whitesmoke: 'f5f5f5',
+  gainsboro: 'dcdcdc',
+  darkblue: '00008b',
+  darkred: '8b0000',
+  darkgreen: '006400',
+  lightblue: 'add8e6',
+  lightgreen: '90ee90',
+  lightyellow: 'ffffe0',
+  steelblue: '4682b4',
+  royalblue: '4169e1',
+  crimson: 'dc143c',
+  tomato: 'ff6347',
+  coral: 'ff7f50',
+  salmon: 'fa8072',
+  beige: 'f5f5dc',
+  ivory: 'fffff0',
+  lavender: 'e6e6fa',
+  slategray: '708090',
+  darkslategray: '2f4f4f',
+  aliceblue: 'f0f8ff',
+  ghostwhite: 'f8f8ff',
+  honeydew: 'f0fff0',
+  mintcream: 'f5fffa',
+  seashell: 'fff5ee',
+  linen: 'faf0e6',
+};
+
+const FONT_SIZE_KEYWORDS: Record<string, number> = {
+  'xx-small': 9,
+  'x-small': 10,
+  small: 13,
+  medium: 16,
+  large: 18,
+  'x-large': 24,
+  'xx-large': 32,
+};
+
+/**
+ * 解析 CSS 颜色：#hex、rgb()/rgba()、hsl()/hsla()、命名颜色、transparent
+ */
+function parseCssColor(value: string, current?: RgbaColor): RgbaColor | null {
+  const text = value.trim().toLowerCase();
+  if (text === 'transparent') return { r: 0, g: 0, b: 0, a: 0 };
+  if (text === 'currentcolor') return current ?? null;
+  const hex = text.startsWith('#') ? text.slice(1) : NAMED_COLORS[text];
+  if (hex && /^[0-9a-f]+$/.test(hex)) {
+    const full =
+      hex.length === 3 || hex.length === 4
+        ? hex
+            .split('')
+            .map(c => c + c)
+            .join('')
+        : hex;
+    if (full.length !== 6 && full.length !== 8) return null;
+    return {
+      r: parseInt(full.slice(0, 2), 16),
+      g: parseInt(full.slice(2, 4), 16),
+      b: parseInt(full.slice(4, 6), 16),
+      a: full.length === 8 ? parseInt(full.slice(6, 8), 16) / 255 : 1,
+    };
+  }
+
+  const fn = /^(rgba?|hsla?)\(([^)]*)\)$/.exec(text);
+  if (!fn) return null;
+  const parts = fn[2].split(/[\s,/]+/).filter(Boolean);
+  if (parts.length < 3) return null;
+  const alpha = parts[3] ? parseAlpha(parts[3]) : 1;
+  if (fn[1].startsWith('rgb')) {
+    const channel = (part: string) =>
+      part.endsWith('%') ? (parseFloat(part) * 255) / 100 : parseFloat(part);
+    const [r, g, b] = parts.slice(0, 3).map(channel);
+    if ([r, g, b].some(isNaN)) return null;
+    return { r: clamp(r, 0, 255), g: clamp(g, 0, 255), b: clamp(b, 0, 255), a: alpha };
+  }
+  const h = (((parseFloat(parts[0]) % 360) + 360) % 360) / 360;
+  const s = parseFloat(parts[1]) / 100;
+  const l = parseFloat(parts[2]) / 100;
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const hue = (t: number) => {
+    const k = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (k < 1 / 6) return p + (q - p) * 6 * k;
+    if (k < 1 / 2) return q;
+    if (k < 2 / 3) return p + (q - p) * (2 / 3 - k) * 6;
+    return p;
+  };
+  return {
+    r: Math.round(hue(h + 1 / 3) * 255),
+    g: Math.round(hue(h) * 255),
+    b: Math.round(hue(h - 1 / 3) * 255),
+    a: alpha,
+  };
+}
+
+function parseAlpha(part: string): number {
+  const value = part.endsWith('%') ? parseFloat(part) / 100 : parseFloat(part);
+  return isNaN(value) ? 1 : clamp(value, 0, 1);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * 解析长度为 px：px/pt/pc/in/cm/mm/em/rem/ex/ch/vw/vh，百分比返回 { percent }
+ */
+function parseCssLength(
+  value: string | undefined,
+  fontSize: number,
+  rootFontSize = DEFAULT_FONT_SIZE,
+  viewportWidth = 0
+): CssLength | null {
+  if (value === undefined) return null;
+  const text = value.trim().toLowerCase();
+  if (text === 'auto') return 'auto';
+  if (text === '0') return 0;
+  const match = /^(-?[\d.]+)([a-z%]*)$/.exec(text);
+  if (!match) return null;
+  const number = parseFloat(match[1]);
+  if (isNaN(number)) return null;
+  switch (match[2]) {
+    case '':
+    case 'px':
+      return number;
+    case 'pt':
+      return (number * 4) / 3;
+    case 'pc':
+      return number * 16;
+    case 'in':
+      return number * 96;
+    case 'cm':
+      return (number * 96) / 2.54;
+    case 'mm':
+      return (number * 96) / 25.4;
+    case 'q':
+      return (number * 96) / 101.6;
+    case 'em':
+      return number * fontSize;
+    case 'rem':
+      return number * rootFontSize;
+    case 'ex':
+    case 'ch':
+      return number * fontSize * 0.5;
+    case 'vw':
+    case 'vh':
+      return (number * viewportWidth) / 100;
+    case '%':
+      return { percent: number };
+    default:
+      return null;
+  }
+}
+
+/**
+ * 按包含块宽度解析长度（auto 返回 fallback）
+ */
+function resolveLength(length: CssLength, reference: number, fallback = 0): number {
+  if (length === 'auto') return fallback;
+  if (typeof length === 'number') return length;
+  return (length.percent * reference) / 100;
+}
+
+/**
+ * 按顶层逗号/空白拆分，忽略括号和引号内的分隔符
+ */
+function splitTopLevel(text: string, separator: ',' | ' ' | ';'): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let current = '';
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (depth === 0 && (separator === ' ' ? /\s/.test(char) : char === separator)) {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function unquote(text: string): string {
+  const trimmed = text.trim();
+  return /^(['"]).*\1$/s.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+}
+
+/**
+ * 选择器优先级，编码为 id*10000 + class*100 + type
+ */
+function specificity(selector: string): number {
+  const stripped = selector.replace(/"[^"]*"|'[^']*'/g, '').replace(/:not\(([^)]*)\)/g, ' $1');
+  const ids = (stripped.match(/#[\w-]+/g) ?? []).length;
+  const classes = (stripped.match(/\.[\w-]+|\[[^\]]*\]|:[\w-]+/g) ?? []).length;
+  const types = (
+    stripped.replace(/[#.:][\w-]+|\[[^\]]*\]/g, ' ').match(/(^|[\s>+~])[a-z][\w-]*/gi) ?? []
+  ).length;
+  return ids * 10000 + classes * 100 + types;
+}
+
+/**
+ * 简写属性展开为普通属性
+ */
+function expandDeclaration(property: string, value: string): Array<[string, string]> {
+  const sides = ['top', 'right', 'bottom', 'left'];
+  const boxValues = (text: string) => {
+    const parts = splitTopLevel(text, ' ');
+    const [top, right = top, bottom = top, left = right] = parts;
+    return [top, right, bottom, left];
+  };
+
+  switch (property) {
+    case 'margin':
+    case 'padding':
+      return boxValues(value).map((part, index) => [`${property}-${sides[index]}`, part]);
+    case 'border-width':
+    case 'border-style':
+    case 'border-color': {
+      const kind = property.slice(7);
+      return boxValues(value).map((part, index) => [`border-${sides[index]}-${kind}`, part]);
+    }
+    case 'border':
+      return sides.flatMap(side => expandBorder(`border-${side}`, value));
+    case 'border-top':
+    case 'border-right':
+    case 'border-bottom':
+    case 'border-left':
+      return expandBorder(property, value);
+    case 'background': {
+      const color = splitTopLevel(value, ' ').find(part => parseCssColor(part));
+      return [['background-color', color ?? 'transparent']];
+    }
+    case 'font':
+      return expandFont(value);
+    case 'list-style': {
+      const type = splitTopLevel(value, ' ').find(part => !/^(inside|outside|url\()/i.test(part));
+      return type ? [['list-style-type', type]] : [];
+    }
+    case 'text-decoration':
+      return [['text-decoration-line', value]];
+    case 'page-break-before':
+    case 'page-break-after':
+    case 'page-break-inside':
+      return [[property.replace('page-break', 'break'), value === 'always' ? 'page' : value]];
+    case 'border-spacing':
+      return [['border-spacing', splitTopLevel(value, ' ')[0] ?? value]];
+    default:
+      return [[property, value]];
+  }
+}
+
+function expandBorder(prefix: string, value: string): Array<[string, string]> {
+  let width = 'medium';
+  let style = 'none';
+  let color = 'currentcolor';
+  for (const part of splitTopLevel(value, ' ')) {
+    if (/^(none|hidden|solid|dashed|dotted|double|groove|ridge|inset|outset)$/i.test(part)) {
+      style = part;
+    } else if (/^(thin|medium|thick)$/i.test(part) || /^[\d.]/.test(part)) {
+      width = part;
+    } else {
+      color = part;
+    }
+  }
+  return [
+    [`${prefix}-width`, width],
+    [`${prefix}-style`, style],
+    [`${prefix}-color`, color],
+  ];
+}
+
+function expandFont(value: string): Array<[string, string]> {
+  const parts = splitTopLevel(value, ' ');
+  const result: Array<[string, string]> = [
+    ['font-style', 'normal'],
+    ['font-weight', 'normal'],
+    ['line-height', 'normal'],
+  ];
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (/^(italic|oblique)$/i.test(part)) result.push(['font-style', 'italic']);
+    else if (/^(bold|bolder|lighter|[1-9]00)$/i.test(part)) result.push(['font-weight', part]);
+    else if (/^(normal|small-caps)$/i.test(part)) continue;
+    else {
+      const [size, lineHeight] = part.split('/');
+      result.push(['font-size', size]);
+      if (lineHeight) result.push(['line-height', lineHeight]);
+      const family = parts.slice(i + 1).join(' ');
+      if (family) result.push(['font-family', family]);
+      break;
+    }
+  }
+  return result;
+}
+
+/**
+ * 解析声明块
+ */
+function parseDeclarations(block: string): Declaration[] {
+  const declarations: Declaration[] = [];
+  for (const item of splitTopLevel(block, ';')) {
+    const colon = item.indexOf(':');
+    if (colon <= 0) continue;
+    const property = item.slice(0, colon).trim().toLowerCase();
+    let value = item.slice(colon + 1).trim();
+    const important = /!\s*important$/i.test(value);
+    if (important) value = value.replace(/!\s*important$/i, '').trim();
+    if (!value) continue;
+    for (const [name, expanded] of expandDeclaration(property, value)) {
+      declarations.push({ property: name, value: expanded, important });
+    }
+  }
+  return declarations;
+}
+
+/**
+ * CSS 样式解析与层叠
+ */
+class CssStyleResolver {
+  private rules: StyleRule[] = [];
+  private order = 0;
+  readonly pageRules: PageRule[] = [];
+  readonly fontFaces: FontFaceRule[] = [];
+
+  constructor(private readonly options: CssResolverOptions) {
+    this.addStylesheet(USER_AGENT_CSS);
+  }
+
+  /**
+   * 添加样式表，按出现顺序参与层叠
+   */
+  addStylesheet(css: string): void {
+    this.parseBlock(css.replace(/\/\*[\s\S]*?\*\//g, ''));
+  }
+
+  private parseBlock(css: string): void {
+    let index = 0;
+    while (index < css.length) {
+      const open = this.findChar(css, '{', index);
+      const semicolon = this.findChar(css, ';', index);
+      // 无块的 @ 规则（@import/@charset）
+      if (semicolon !== -1 && (open === -1 || semicolon < open)) {
+        const statement = css.slice(index, semicolon).trim();
+        if (!statement.startsWith('@') && statement) {
+          // 非法语句，跳过
+        }
+        index = semicolon + 1;
+        if (open === -1) continue;
+        if (!css.slice(index, open).trim()) continue;
+      }
+      if (open === -1) break;
+      const close = this.matchBrace(css, open);
+      const prelude = css.slice(index, open).trim();
+      const body = css.slice(open + 1, close);
+      index = close + 1;
+
+      if (prelude.startsWith('@')) {
+        this.parseAtRule(prelude, body);
+      } else if (prelude) {
+        this.addRule(prelude, body);
+      }
+    }
+  }
+
+  private parseAtRule(prelude: string, body: string): void {
+    const name = /^@([\w-]+)/.exec(prelude)?.[1]?.toLowerCase();
+    if (name === 'media') {
+      if (this.matchesMedia(prelude.slice(6))) this.parseBlock(body);
+    } else if (name === 'supports') {
+      this.parseBlock(body);
+    } else if (name === 'page') {
+      this.parsePageRule(prelude.slice(5).trim(), body);
+    } else if (name === 'font-face') {
+      const declarations = Object.fromEntries(
+        parseDeclarations(body).map(d => [d.property, d.value])
+      );
+      const family = declarations['font-family'];
+      if (!family || !declarations.src) return;
+      const sources = splitTopLevel(declarations.src, ',')
+        .map(source => /url\(([^)]*)\)/i.exec(source)?.[1])
+        .filter((source): source is string => !!source)
+        .map(unquote);
+      this.fontFaces.push({
+        family: unquote(family).toLowerCase(),
+        src: sources,
+        bold: /bold|[6-9]00/.test(declarations['font-weight'] ?? ''),
+        italic: /italic|oblique/.test(declarations['font-style'] ?? ''),
+      });
+    }
+  }
+
+  private parsePageRule(selector: string, body: string): void {
+    const match = /^([\w-]+)?\s*(?::(first|left|right))?/.exec(selector);
+    const rule: PageRule = {
+      name: match?.[1],
+      pseudo: match?.[2] as PageRule['pseudo'],
+      declarations: {},
+      marginBoxes: {},
+    };
+    // 拆出页边距盒 @top-left { ... }
+    let rest = '';
+    let index = 0;
+    const boxPattern = /@([\w-]+)\s*\{/g;
+    let boxMatch: RegExpExecArray | null;
+    while ((boxMatch = boxPattern.exec(body))) {
+      const open = boxMatch.index + boxMatch[0].length - 1;
+      const close = this.matchBrace(body, open);
+      rest += body.slice(index, boxMatch.index);
+      rule.marginBoxes[boxMatch[1].toLowerCase()] = Object.fromEntries(
+        parseDeclarations(body.slice(open + 1, close)).map(d => [d.property, d.value])
+      );
+      index = close + 1;
+      boxPattern.lastIndex = index;
+    }
+    rest += body.slice(index);
+    for (const declaration of parseDeclarations(rest)) {
+      rule.declarations[declaration.property] = declaration.value;
+    }
+    this.pageRules.push(rule);
+  }
+
+  private matchesMedia(query: string): boolean {
+    return splitTopLevel(query, ',').some(part => {
+      const text = part.trim().toLowerCase();
+      if (/^not\s/.test(text)) return !/\bprint\b/.test(text);
+      if (/\b(screen|speech|tv|projection|handheld)\b/.test(text) && !/\bprint\b/.test(text)) {
+        return false;
+      }
+      const width = this.options.viewportWidth;
+      for (const feature of text.matchAll(/\(\s*(min|max)-width\s*:\s*([^)]+)\)/g)) {
+        const limit = parseCssLength(feature[2], DEFAULT_FONT_SIZE);
+        if (typeof limit !== 'number') continue;
+        if (feature[1] === 'min' ? width < limit : width > limit) return false;
+      }
+      return !/\(\s*orientation\s*:\s*landscape\s*\)/.test(text);
+    });
+  }
+
+  private addRule(prelude: string, body: string): void {
+    const selectors = splitTopLevel(prelude, ',')
+      .filter(selector => !DYNAMIC_SELECTOR.test(selector))
+      .map(text => ({ text, specificity: specificity(text) }));
+    if (selectors.length === 0) return;
+    this.rules.push({ selectors, declarations: parseDeclarations(body), order: this.order++ });
+  }
+
+  private findChar(text: string, char: string, from: number): number {
+    let quote = '';
+    let depth = 0;
+    for (let i = from; i < text.length; i++) {
+      const c = text[i];
+      if (quote) {
+        if (c === '\\') i++;
+        else if (c === quote) quote = '';
+      } else if (c === '"' || c === "'") quote = c;
+      else if (c === '(') depth++;
+      else if (c === ')') depth--;
+      else if (c === char && depth <= 0) return i;
+    }
+    return -1;
+  }
+
+  private matchBrace(text: string, open: number): number {
+    let depth = 0;
+    let quote = '';
+    for (let i = open; i < text.length; i++) {
+      const c = text[i];
+      if (quote) {
+        if (c === '\\') i++;
+        else if (c === quote) quote = '';
+      } else if (c === '"' || c === "'") quote = c;
+      else if (c === '{') depth++;
+      else if (c === '}' && --depth === 0) return i;
+    }
+    return text.length;
+  }
+
+  /**
+   * 计算文档中所有元素的样式
+   */
+  computeStyles($: CheerioAPI): Map<any, ComputedStyle> {
+    // 收集匹配的声明：逐条规则查询匹配元素
+    const matched = new Map<any, Array<{ declaration: Declaration; weight: number }>>();
+    for (const rule of this.rules) {
+      for (const selector of rule.selectors) {
+        let elements: any[];
+        try {
+          elements = $(selector.text).toArray();
+        } catch {
+          continue;
+        }
+        for (const element of elements) {
+          const list = matched.get(element) ?? [];
+          for (const declaration of rule.declarations) {
+            list.push({ declaration, weight: selector.specificity * 100000 + rule.order });
+          }
+          matched.set(element, list);
+        }
+      }
+    }
+
+    const styles = new Map<any, ComputedStyle>();
+    const root = $.root()[0];
+    const rootStyle = this.initialStyle();
+    const visit = (node: any, parent: ComputedStyle, parentValues: Record<string, string>) => {
+      for (const child of node.children ?? []) {
+        if (child.type !== 'tag' && child.type !== 'script' && child.type !== 'style') continue;
+        const values = this.cascade(child, matched.get(child) ?? [], parentValues);
+        const style = this.computeStyle(child, values, parent);
+        styles.set(child, style);
+        visit(child, style, values);
+      }
+    };
+    visit(root, rootStyle, {});
+    return styles;
+  }
+
+  private cascade(
+    element: any,
+    matches: Array<{ declaration: Declaration; weight: number }>,
+    parentValues: Record<string, string>
+  ): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (const [property, value] of Object.entries(parentValues)) {
+      if (INHERITED.has(property)) values[property] = value;
+    }
+    for (const [property, value] of this.presentationalHints(element)) {
+      values[property] = value;
+    }
+
+    const inline = element.attribs?.style
+      ? parseDeclarations(element.attribs.style).map(declaration => ({
+          declaration,
+          weight: 1e12,
+        }))
+      : [];
+    const ordered = [...matches, ...inline].sort(
+      (a, b) =>
+        Number(a.declaration.important) - Number(b.declaration.important) || a.weight - b.weight
+    );
+    for (const { declaration } of ordered) {
+      values[declaration.property] =
+        declaration.value.toLowerCase() === 'inherit'
+          ? (parentValues[declaration.property] ?? '')
+          : declaration.value;
+    }
+    return values;
+  }
+
+  /**
+   * HTML 表现属性（align、bgcolor、width 等），优先级低于所有 CSS 规则
+   */
+  private presentationalHints(element: any): Array<[string, string]> {
+    const attrs = element.attribs ?? {};
+    const hints: Array<[string, string]> = [];
+    if (attrs.align && element.name !== 'img') hints.push(['text-align', attrs.align]);
+    if (attrs.bgcolor) hints.push(['background-color', attrs.bgcolor]);
+    if (attrs.color && element.name === 'font') hints.push(['color', attrs.color]);
+    if (attrs.valign) hints.push(['vertical-align', attrs.valign]);
+    for (const dimension of ['width', 'height']) {
+      const value = attrs[dimension];
+      if (value && /^\d+(\.\d+)?%?$/.test(value)) {
+        hints.push([dimension, /%$/.test(value) ? value : `${value}px`]);
+      }
+    }
+    if (element.name === 'table' && attrs.border && attrs.border !== '0') {
+      hints.push(...expandDeclaration('border', `${attrs.border}px solid #808080`));
+    }
+    if (element.name === 'td' || element.name === 'th') {
+      const table = this.closestTable(element);
+      if (table?.attribs?.border && table.attribs.border !== '0') {
+        hints.push(...expandDeclaration('border', '1px solid #808080'));
+      }
+      const padding = table?.attribs?.cellpadding;
+      if (padding) hints.push(...expandDeclaration('padding', `${padding}px`));
+    }
+    if (element.name === 'table' && attrs.cellspacing) {
+      hints.push(['border-spacing', `${attrs.cellspacing}px`]);
+    }
+    return hints;
+  }
+
+  private closestTable(element: any): any {
+    let node = element.parent;
+    while (node && node.name !== 'table') node = node.parent;
+    return node;
+  }
+
+  private initialStyle(): ComputedStyle {
+    const black = { r: 0, g: 0, b: 0, a: 1 };
+    return {
+      display: 'block',
+      color: black,
+      backgroundColor: null,
+      fontFamily: ['serif'],
+      fontSize: DEFAULT_FONT_SIZE,
+      fontWeight: 400,
+      fontStyle: 'normal',
+      lineHeight: DEFAULT_FONT_SIZE * 1.2,
+      textAlign: 'left',
+      textIndent: 0,
+      textTransform: 'none',
+      underline: false,
+      lineThrough: false,
+      whiteSpace: 'normal',
+      verticalAlign: 'baseline',
+      margin: [0, 0, 0, 0],
+      padding: [0, 0, 0, 0],
+      borderWidth: [0, 0, 0, 0],
+      borderColor: [black, black, black, black],
+      width: 'auto',
+      height: 'auto',
+      maxWidth: 'auto',
+      listStyleType: 'disc',
+      breakBefore: false,
+      breakAfter: false,
+      breakInsideAvoid: false,
+      borderCollapse: false,
+      borderSpacing: 0,
+      visible: true,
+    };
+  }
+
+  private computeStyle(
+    element: any,
+    values: Record<string, string>,
+    parent: ComputedStyle
+  ): ComputedStyle {
+    const tag = (element.name ?? '').toLowerCase();
+    const fontSize = this.computeFontSize(values['font-size'], parent.fontSize);
+    const length = (value: string | undefined, fallback: CssLength = 0): CssLength =>
+      parseCssLength(value, fontSize, DEFAULT_FONT_SIZE, this.options.viewportWidth) ?? fallback;
+    const color = (values.color && parseCssColor(values.color, parent.color)) || parent.color;
+
+    let display = values.display?.toLowerCase();
+    if (!display) {
+      if (HIDDEN_TAGS.has(tag)) display = 'none';
+      else if (TABLE_DISPLAY[tag]) display = TABLE_DISPLAY[tag];
+      else if (tag === 'li') display = 'list-item';
+      else if (BLOCK_TAGS.has(tag)) display = 'block';
+      else display = 'inline';
+    }
+    if (values.position === 'running' || /^running\(/.test(values.position ?? '')) display = 'none';
+
+    const side = (prefix: string, suffix = '') =>
+      (['top', 'right', 'bottom', 'left'] as const).map(
+        s => values[`${prefix}-${s}${suffix}`]
+      ) as BoxSides<string | undefined>;
+    const borderStyles = side('border', '-style');
+    const borderWidths = side('border', '-width').map((value, index) => {
+      const style = borderStyles[index];
+      if (!style || /^(none|hidden)$/i.test(style)) return 0;
+      const keyword = { thin: 1, medium: 3, thick: 5 }[value ?? 'medium'];
+      if (keyword !== undefined) return keyword;
+      const parsed = length(value);
+      return typeof parsed === 'number' ? Math.max(0, parsed) : 0;
+    }) as BoxSides<number>;
+    const borderColors = side('border', '-color').map(
+      value => (value && parseCssColor(value, color)) || color
+    ) as BoxSides<RgbaColor>;
+
+    const lineHeight = this.computeLineHeight(values['line-height'], fontSize);
+    const decoration = (values['text-decoration-line'] ?? '').toLowerCase();
+    const weight = (values['font-weight'] ?? '').toLowerCase();
+    const textAlign = (values['text-align'] ?? 'left').toLowerCase();
+    const whiteSpace = (values['white-space'] ?? 'normal').toLowerCase();
+
+    return {
+      display,
+      color,
+      backgroundColor: values['background-color']
+        ? parseCssColor(values['background-color'], color)
+        : null,
+      fontFamily: values['font-family']
+        ? splitTopLevel(values['font-family'], ',').map(family => unquote(family).toLowerCase())
+        : parent.fontFamily,
+      fontSize,
+      fontWeight:
+        weight === 'bold' || weight === 'bolder'
+          ? 700
+          : weight === 'normal' || weight === 'lighter'
+            ? 400
+            : parseInt(weight, 10) || parent.fontWeight,
+      fontStyle: /italic|oblique/.test(values['font-style'] ?? '') ? 'italic' : 'normal',
+      lineHeight,
+      textAlign: (['right', 'center', 'justify'].includes(textAlign)
+        ? textAlign
+        : textAlign === 'end'
+          ? 'right'
+          : 'left') as ComputedStyle['textAlign'],
+      textIndent: length(values['text-indent']),
+      textTransform: (values['text-transform'] ?? 'none').toLowerCase(),
+      underline: decoration.includes('underline'),
+      lineThrough: decoration.includes('line-through'),
+      whiteSpace: (['pre', 'pre-wrap', 'pre-line', 'nowrap'].includes(whiteSpace)
+        ? whiteSpace
+        : 'normal') as ComputedStyle['whiteSpace'],
+      verticalAlign: (values['vertical-align'] ?? 'baseline').toLowerCase(),
+      margin: side('margin').map(value => length(value)) as BoxSides<CssLength>,
+      padding: side('padding').map(value => length(value)) as BoxSides<CssLength>,
+      borderWidth: borderWidths,
+      borderColor: borderColors,
+      width: length(values.width, 'auto'),
+      height: length(values.height, 'auto'),
+      maxWidth: values['max-width'] === 'none' ? 'auto' : length(values['max-width'], 'auto'),
+      listStyleType: (values['list-style-type'] ?? 'disc').toLowerCase(),
+      breakBefore: /^(page|always|left|right)$/i.test(values['break-before'] ?? ''),
+      breakAfter: /^(page|always|left|right)$/i.test(values['break-after'] ?? ''),
+      breakInsideAvoid: /^avoid/i.test(values['break-inside'] ?? ''),
+      borderCollapse: (values['border-collapse'] ?? '').toLowerCase() === 'collapse',
+      borderSpacing: (() => {
+        const spacing = length(values['border-spacing']);
+        return typeof spacing === 'number' ? spacing : 0;
+      })(),
+      visible: !/^(hidden|collapse)$/i.test(values.visibility ?? ''),
+      page: values.page && values.page !== 'auto' ? values.page : parent.page,
+    };
+  }
+
+  private computeFontSize(value: string | undefined, parentSize: number): number {
+    if (!value) return parentSize;
+    const text = value.trim().toLowerCase();
+    if (FONT_SIZE_KEYWORDS[text]) return FONT_SIZE_KEYWORDS[text];
+    if (text === 'smaller') return parentSize / 1.2;
+    if (text === 'larger') return parentSize * 1.2;
+    const length = parseCssLength(text, parentSize, DEFAULT_FONT_SIZE, this.options.viewportWidth);
+    if (typeof length === 'number') return Math.max(1, length);
+    if (length && typeof length === 'object') return (parentSize * length.percent) / 100;
+    return parentSize;
+  }
+
+  private computeLineHeight(value: string | undefined, fontSize: number): number {
+    if (!value || value === 'normal') return fontSize * 1.2;
+    if (/^[\d.]+$/.test(value.trim())) return fontSize * parseFloat(value);
+    const length = parseCssLength(value, fontSize, DEFAULT_FONT_SIZE, this.options.viewportWidth);
+    if (typeof length === 'number') return length;
+    if (length && typeof length === 'object') return (fontSize * length.percent) / 100;
+    return fontSize * 1.2;
+  }
+}
+
+export {
+  CssStyleResolver,
+  ComputedStyle,
+  CssLength,
+  BoxSides,
+  RgbaColor,
+  PageRule,
+  FontFaceRule,
+  CssResolverOptions,
+  parseCssColor,
+  parseCssLength,
+  resolveLength,
+  parseDeclarations,
+  splitTopLevel,
+  unquote,
+};
@@ -0,0 +1,269 @@
+/**
+ * 图表渲染器
+ * 将 ```dot / ```mermaid / ```plantuml 等代码块渲染为 SVG（HTML 内联）或 PNG（DOCX 嵌入）
+ * DOT 使用内置布局引擎；其他引擎通过 registerEngine 注册，或通过本地命令钩子接入：
+ *   - 代码调用 registerCommand('mermaid', 'mmdc -i {input} -o {output}')
+ *   - 环境变量 DIAGRAM_COMMAND_MERMAID='mmdc -i {input} -o {output}'
+ * 命令模板占位符：{input} 源码文件、{output} 输出文件、{format} 期望格式；
+ * 未使用 {input} 时源码写入 stdin，未使用 {output} 时读取 stdout
+ */
+
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DotLayoutEngine } from './dotLayout';
+import { DiagramScene, sceneToSvg, rectPath } from './diagramScene';
+import { SceneRasterizer } from './sceneRasterizer';
+import { svgSize } from './imageLoader';
+
+type DiagramFormat = 'svg' | 'png';
+
+// width/height 为显示尺寸（CSS 像素）
+interface DiagramOutput {
+  format: DiagramFormat;
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+interface DiagramEngine {
+  render(source: string, format: DiagramFormat): Promise<DiagramOutput>;
+}
+
+interface DiagramCommand {
+  command: string;
+  format?: DiagramFormat; // 模板不含 {format} 时命令固定输出的格式，默认 svg
+  timeout?: number;
+}
+
+const DEFAULT_COMMAND_TIMEOUT = 30000;
+
+// 语言别名
+const LANGUAGE_ALIASES: Record<string, string> = {
+  graphviz: 'dot',
+  gv: 'dot',
+  puml: 'plantuml',
+  uml: 'plantuml',
+};
+
+/**
+ * 内置 DOT 引擎：布局后输出 SVG，或光栅化为 2 倍分辨率的 PNG
+ */
+class DotDiagramEngine implements DiagramEngine {
+  private layoutEngine = new DotLayoutEngine();
+
+  async render(source: string, format: DiagramFormat): Promise<DiagramOutput> {
+    return renderScene(this.layoutEngine.layout(source), format);
+  }
+}
+
+/**
+ * 本地命令引擎
+ */
+class CommandDiagramEngine implements DiagramEngine {
+  constructor(private readonly options: DiagramCommand) {}
+
+  async render(source: string, format: DiagramFormat): Promise<DiagramOutput> {
+    const template = this.options.command;
+    const outputFormat = template.includes('{format}') ? format : (this.options.format ?? 'svg');
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'diagram-'));
+    const inputPath = path.join(workDir, 'diagram.txt');
+    const outputPath = path.join(workDir, `diagram.${outputFormat}`);
+
+    try {
+      await fs.writeFile(inputPath, source, 'utf-8');
+      const [command, ...args] = splitCommand(template).map(part =>
+        part
+          .replace(/\{input\}/g, inputPath)
+          .replace(/\{output\}/g, outputPath)
+          .replace(/\{format\}/g, outputFormat)
+      );
+      const stdout = await runCommand(
+        command,
+        args,
+        template.includes('{input}') ? undefined : source,
+        this.options.timeout ?? DEFAULT_COMMAND_TIMEOUT
+      );
+      const data = template.includes('{output}') ? await fs.readFile(outputPath) : stdout;
+      const size = outputFormat === 'png' ? pngSize(data) : svgSize(data.toString('utf-8'));
+      return { format: outputFormat, data, ...size };
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * 图表渲染器：按代码块语言分派到已注册的引擎
+ */
+class DiagramRenderer {
+  private engines = new Map<string, DiagramEngine>();
+
+  constructor() {
+    this.registerEngine('dot', new DotDiagramEngine());
+    for (const [key, value] of Object.entries(process.env)) {
+      const match = /^DIAGRAM_COMMAND_(\w+)$/.exec(key);
+      if (match && value) this.registerCommand(match[1].toLowerCase(), value);
+    }
+  }
+
+  registerEngine(language: string, engine: DiagramEngine): void {
+    this.engines.set(this.normalize(language), engine);
+  }
+
+  registerCommand(language: string, command: string | DiagramCommand): void {
+    const options = typeof command === 'string' ? { command } : command;
+    this.registerEngine(language, new CommandDiagramEngine(options));
+  }
+
+  supports(language?: string | null): boolean {
+    return !!language && this.engines.has(this.normalize(language));
+  }
+
+  getLanguages(): string[] {
+    return Array.from(this.engines.keys());
+  }
+
+  async render(language: string, source: string, format: DiagramFormat): Promise<DiagramOutput> {
+    const engine = this.engines.get(this.normalize(language));
+    if (!engine) {
+      throw new Error(`未注册的图表语言: ${language}`);
+    }
+    return engine.render(source, format);
+  }
+
+  /**
+   * HTML 片段：SVG 内联，PNG 使用 data URI
+   */
+  async renderHtml(language: string, source: string): Promise<string> {
+    const output = await this.render(language, source, 'svg');
+    const name = this.normalize(language);
+    const body =
+      output.format === 'svg'
+        ? output.data
+            .toString('utf-8')
+            .replace(/^\s*<\?xml[^>]*>\s*/, '')
+            .replace(/^\s*<!DOCTYPE[^>]*>\s*/i, '')
+        : `<img src="data:image/png;base64,${output.data.toString('base64')}" width="${output.width}" height="${output.height}" alt="${name} diagram">`;
+    return `<figure class="diagram diagram-${name}">${body}</figure>`;
+  }
+
+  private normalize(language: string): string {
+    const key = language.trim().toLowerCase();
+    return LANGUAGE_ALIASES[key] ?? key;
+  }
+}
+
+function renderScene(scene: DiagramScene, format: DiagramFormat): DiagramOutput {
+  const width = Math.ceil(scene.width);
+  const height = Math.ceil(scene.height);
+  if (format === 'svg') {
+    return { format, data: Buffer.from(sceneToSvg(scene), 'utf-8'), width, height };
+  }
+  return { format, data: new SceneRasterizer().rasterize(scene).png, width, height };
+}
+
+/**
+ * 仅输出 SVG 的引擎用于 DOCX 时的 PNG 后备图（旧版 Word 不支持 SVG）
+ */
+function placeholderPng(width: number, height: number, label: string): Buffer {
+  return renderScene(
+    {
+      width,
+      height,
+      background: '#ffffff',
+      items: [
+        { kind: 'path', commands: rectPath(0.5, 0.5, width - 1, height - 1), stroke: '#999999' },
+        {
+          kind: 'text',
+          x: width / 2,
+          y: height / 2,
+          text: label,
+          fontSize: 14,
+          color: '#666666',
+          anchor: 'middle',
+        },
+      ],
+    },
+    'png'
+  ).data;
+}
+
+function splitCommand(command: string): string[] {
+  const parts: string[] = [];
+  const pattern = /"((?:\\.|[^"\\])*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(command))) {
+    parts.push(match[1]?.replace(/\\(.)/g, '$1') ?? match[2] ?? match[3]);
+  }
+  return parts;
+}
+
+function runCommand(
+  command: string,
+  args: string[],
+  input: string | undefined,
+  timeout: number
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { timeout, stdio: ['pipe', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout.on('data', chunk => stdout.push(chunk));
+    child.stderr.on('data', chunk => stderr.push(chunk));
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) resolve(Buffer.concat(stdout));
+      else {
+        const message = Buffer.concat(stderr).toString('utf-8').trim();
+        reject(new Error(`图表命令执行失败 (${command}, 退出码 ${code}): ${message}`));
+      }
+    });
+    // 命令不读取 stdin 时会提前关闭管道，忽略 EPIPE
+    child.stdin.on('error', () => undefined);
+    child.stdin.end(input ?? '');
+  });
+}
+
+function pngSize(data: Buffer): { width: number; height: number } {
+  if (data.length < 24 || data.toString('ascii', 1, 4) !== 'PNG') {
+    throw new Error('图表命令未输出有效的 PNG');
+  }
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
+
+let defaultRenderer: DiagramRenderer | null = null;
+
+/**
+ * 转换器共用的默认渲染器（注册的引擎对所有转换生效）
+ */
+export function getDiagramRenderer(): DiagramRenderer {
+  defaultRenderer ??= new DiagramRenderer();
+  return defaultRenderer;
+}
+
+/**
+ * 便捷函数：注册图表引擎
+ */
+export function registerDiagramEngine(language: string, engine: DiagramEngine): void {
+  getDiagramRenderer().registerEngine(language, engine);
+}
+
+/**
+ * 便捷函数：注册本地命令钩子
+ */
+export function registerDiagramCommand(language: string, command: string | DiagramCommand): void {
+  getDiagramRenderer().registerCommand(language, command);
+}
+
+export {
+  DiagramRenderer,
+  DiagramEngine,
+  DiagramCommand,
+  DiagramOutput,
+  DiagramFormat,
+  DotDiagramEngine,
+  CommandDiagramEngine,
+  placeholderPng,
+};
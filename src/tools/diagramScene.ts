@@ -0,0 +1,210 @@
+/**
+ * 图表场景模型
+ * 布局引擎输出与渲染无关的路径/文本图元，再分别序列化为 SVG 或光栅化为 PNG
+ */
+
+// 路径命令：M/L 为直线，C 为三次贝塞尔曲线，Z 闭合
+type PathCommand =
+  | ['M', number, number]
+  | ['L', number, number]
+  | ['C', number, number, number, number, number, number]
+  | ['Z'];
+
+interface ScenePath {
+  kind: 'path';
+  commands: PathCommand[];
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  dash?: number[];
+}
+
+// y 为文本行的垂直中心
+interface SceneText {
+  kind: 'text';
+  x: number;
+  y: number;
+  text: string;
+  fontSize: number;
+  color: string;
+  anchor: 'start' | 'middle' | 'end';
+  bold?: boolean;
+  italic?: boolean;
+}
+
+type SceneItem = ScenePath | SceneText;
+
+interface DiagramScene {
+  width: number;
+  height: number;
+  background?: string;
+  items: SceneItem[];
+}
+
+// 基线相对于行中心的偏移（em）
+const TEXT_BASELINE_SHIFT = 0.35;
+
+// 字体字宽的近似值，布局阶段无需加载字体
+function measureText(text: string, fontSize: number): number {
+  let width = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code >= 0x2e80) width += 1;
+    else if (/[il.,:;'|!]/.test(char)) width += 0.3;
+    else if (/[mwMW@]/.test(char)) width += 0.85;
+    else if (/[A-Z]/.test(char)) width += 0.68;
+    else width += 0.58;
+  }
+  return width * fontSize;
+}
+
+function rectPath(x: number, y: number, width: number, height: number, radius = 0): PathCommand[] {
+  if (radius <= 0) {
+    return [
+      ['M', x, y],
+      ['L', x + width, y],
+      ['L', x + width, y + height],
+      ['L', x, y + height],
+      ['Z'],
+    ];
+  }
+  const r = Math.min(radius, width / 2, height / 2);
+  const k = r * 0.5523;
+  const right = x + width;
+  const bottom = y + height;
+  return [
+    ['M', x + r, y],
+    ['L', right - r, y],
+    ['C', right - r + k, y, right, y + r - k, right, y + r],
+    ['L', right, bottom - r],
+    ['C', right, bottom - r + k, right - r + k, bottom, right - r, bottom],
+    ['L', x + r, bottom],
+    ['C', x + r - k, bottom, x, bottom - r + k, x, bottom - r],
+    ['L', x, y + r],
+    ['C', x, y + r - k, x + r - k, y, x + r, y],
+    ['Z'],
+  ];
+}
+
+function ellipsePath(cx: number, cy: number, rx: number, ry: number): PathCommand[] {
+  const kx = rx * 0.5523;
+  const ky = ry * 0.5523;
+  return [
+    ['M', cx + rx, cy],
+    ['C', cx + rx, cy + ky, cx + kx, cy + ry, cx, cy + ry],
+    ['C', cx - kx, cy + ry, cx - rx, cy + ky, cx - rx, cy],
+    ['C', cx - rx, cy - ky, cx - kx, cy - ry, cx, cy - ry],
+    ['C', cx + kx, cy - ry, cx + rx, cy - ky, cx + rx, cy],
+    ['Z'],
+  ];
+}
+
+function polygonPath(points: Array<[number, number]>, closed = true): PathCommand[] {
+  const commands: PathCommand[] = points.map(([x, y], index) =>
+    index === 0 ? ['M', x, y] : ['L', x, y]
+  );
+  if (closed) commands.push(['Z']);
+  return commands;
+}
+
+/**
+ * 经过各点的平滑曲线（Catmull-Rom 转三次贝塞尔）
+ */
+function smoothPath(points: Array<[number, number]>): PathCommand[] {
+  const commands: PathCommand[] = [['M', points[0][0], points[0][1]]];
+  if (points.length === 2) {
+    commands.push(['L', points[1][0], points[1][1]]);
+    return commands;
+  }
+  for (let i = 0; i < points.length - 1; i++) {
+    const p0 = points[Math.max(i - 1, 0)];
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    const p3 = points[Math.min(i + 2, points.length - 1)];
+    commands.push([
+      'C',
+      p1[0] + (p2[0] - p0[0]) / 6,
+      p1[1] + (p2[1] - p0[1]) / 6,
+      p2[0] - (p3[0] - p1[0]) / 6,
+      p2[1] - (p3[1] - p1[1]) / 6,
+      p2[0],
+      p2[1],
+    ]);
+  }
+  return commands;
+}
+
+function round(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function pathData(commands: PathCommand[]): string {
+  return commands.map(([op, ...values]) => `${op}${values.map(round).join(' ')}`).join(' ');
+}
+
+/**
+ * 场景序列化为独立的 SVG 文档
+ */
+function sceneToSvg(scene: DiagramScene): string {
+  const parts: string[] = [];
+  if (scene.background && scene.background !== 'none') {
+    parts.push(`<rect width="100%" height="100%" fill="${scene.background}"/>`);
+  }
+
+  for (const item of scene.items) {
+    if (item.kind === 'path') {
+      const attrs = [
+        `d="${pathData(item.commands)}"`,
+        `fill="${item.fill ?? 'none'}"`,
+        `stroke="${item.stroke ?? 'none'}"`,
+      ];
+      if (item.stroke) attrs.push(`stroke-width="${round(item.strokeWidth ?? 1)}"`);
+      if (item.dash?.length) attrs.push(`stroke-dasharray="${item.dash.join(' ')}"`);
+      parts.push(`<path ${attrs.join(' ')}/>`);
+    } else {
+      const attrs = [
+        `x="${round(item.x)}"`,
+        `y="${round(item.y)}"`,
+        `dy="${TEXT_BASELINE_SHIFT}em"`,
+        `font-size="${round(item.fontSize)}"`,
+        `fill="${item.color}"`,
+        `text-anchor="${item.anchor}"`,
+      ];
+      if (item.bold) attrs.push('font-weight="bold"');
+      if (item.italic) attrs.push('font-style="italic"');
+      parts.push(`<text ${attrs.join(' ')}>${escapeXml(item.text)}</text>`);
+    }
+  }
+
+  const width = Math.ceil(scene.width);
+  const height = Math.ceil(scene.height);
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+    `viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif">` +
+    parts.join('') +
+    '</svg>'
+  );
+}
+
+export {
+  DiagramScene,
+  SceneItem,
+  ScenePath,
+  SceneText,
+  PathCommand,
+  TEXT_BASELINE_SHIFT,
+  measureText,
+  rectPath,
+  ellipsePath,
+  polygonPath,
+  smoothPath,
+  sceneToSvg,
+};
@@ -0,0 +1,1094 @@
+/**
+ * 文档比较
+ * 通过现有读取器（DOCX 使用 OOXMLParser，Markdown 使用 marked，HTML 直接读取）把两个版本统一为 HTML，
+ * 用 cheerio 提取标题、段落、列表项和表格等块；先按块计算差异，再在修改过的块和表格单元格内按词比较，
+ * 输出 HTML 修订稿、Markdown 变更摘要或带修订标记（w:ins/w:del）的 DOCX
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { marked } from 'marked';
+import * as cheerio from 'cheerio';
+import {
+  Document,
+  Packer,
+  Paragraph,
+  TextRun,
+  InsertedTextRun,
+  DeletedTextRun,
+  HeadingLevel,
+  Table,
+  TableRow,
+  TableCell,
+  WidthType,
+  ParagraphChild,
+} from 'docx';
+import { OOXMLParser } from './ooxmlParser';
+import { DocxNumbering } from './docxNumbering';
+import { validateAndSanitizePath } from '../security/securityConfig';
+
+type CompareFormat = 'html' | 'markdown' | 'docx';
+
+interface CompareOptions {
+  format?: CompareFormat;
+  outputPath?: string;
+  author?: string; // DOCX 修订的作者
+  date?: string; // DOCX 修订的时间（ISO 8601），默认为当前时间
+  debug?: boolean;
+}
+
+interface CompareSummary {
+  unchanged: number;
+  modified: number;
+  inserted: number;
+  deleted: number;
+  wordsInserted: number;
+  wordsDeleted: number;
+}
+
+interface CompareResult {
+  success: boolean;
+  content?: string | Buffer;
+  outputPath?: string;
+  summary?: CompareSummary;
+  metadata?: {
+    originalPath: string;
+    revisedPath: string;
+    format: CompareFormat;
+    originalBlocks: number;
+    revisedBlocks: number;
+  };
+  error?: string;
+}
+
+type BlockKind = 'heading' | 'paragraph' | 'list-item' | 'quote' | 'code' | 'image' | 'table';
+type ChangeType = 'equal' | 'modified' | 'inserted' | 'deleted';
+
+// 文档中的一个块；表格的 text 为各行单元格文本的拼接，仅用于比较
+interface DocumentBlock {
+  kind: BlockKind;
+  text: string;
+  level?: number; // 标题级别或列表嵌套层级（从 0 开始）
+  ordered?: boolean;
+  rows?: string[][];
+}
+
+interface WordChange {
+  type: 'equal' | 'inserted' | 'deleted';
+  text: string;
+}
+
+interface RowChange {
+  type: ChangeType;
+  cells: WordChange[][];
+}
+
+interface BlockChange {
+  type: ChangeType;
+  block: DocumentBlock; // 修改和新增取修订版的块，删除取原版的块
+  words: WordChange[];
+  rows?: RowChange[];
+}
+
+type DiffOperation = { type: 'equal' | 'deleted' | 'inserted'; a?: number; b?: number };
+
+// 超过该编辑距离时不再细分，剩余部分按整体删除加新增处理
+const MAX_EDIT_COST = 4000;
+// 删除块和新增块的相似度达到阈值时视为同一块被修改
+const BLOCK_SIMILARITY = 0.5;
+const TABLE_SIMILARITY = 0.3;
+const PAIRING_WINDOW = 50;
+const CONTAINER_TAGS = new Set([
+  'body',
+  'div',
+  'section',
+  'article',
+  'main',
+  'header',
+  'footer',
+  'aside',
+  'nav',
+  'figure',
+  'center',
+  'form',
+  'details',
+]);
+const WORD_PATTERN =
+  /\s+|[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[\p{L}\p{N}_]+(?:['’.,-][\p{L}\p{N}_]+)*|[^\s]/gu;
+
+const LABELS = {
+  en: {
+    title: 'Document comparison',
+    modified: 'Modified',
+    inserted: 'Inserted',
+    deleted: 'Deleted',
+    unchanged: 'Unchanged',
+    wordsInserted: 'Words inserted',
+    wordsDeleted: 'Words deleted',
+    changes: 'Changes',
+    noChanges: 'No differences found.',
+    change: (type: string, kind: string, section?: string) =>
+      `${type} ${kind}${section ? ` (in “${section}”)` : ''}`,
+    row: (number: number) => `Row ${number}`,
+    kinds: {
+      heading: 'heading',
+      paragraph: 'paragraph',
+      'list-item': 'list item',
+      quote: 'quote',
+      code: 'code block',
+      image: 'image',
+      table: 'table',
+    } as Record<BlockKind, string>,
+  },
+  zh: {
+    title: '文档比较',
+    modified: '修改',
+    inserted: '新增',
+    deleted: '删除',
+    unchanged: '未变',
+    wordsInserted: '新增字词',
+    wordsDeleted: '删除字词',
+    changes: '变更明细',
+    noChanges: '两个版本没有差异。',
+    change: (type: string, kind: string, section?: string) =>
+      `${type}${kind}${section ? `（位于“${section}”）` : ''}`,
+    row: (number: number) => `第 ${number} 行`,
+    kinds: {
+      heading: '标题',
+      paragraph: '段落',
+      'list-item': '列表项',
+      quote: '引用',
+      code: '代码块',
+      image: '图片',
+      table: '表格',
+    } as Record<BlockKind, string>,
+  },
+};
+
+const REDLINE_CSS = `
+body { font-family: "Segoe UI", "Microsoft YaHei", sans-serif; line-height: 1.6; max-width: 900px; margin: 2em auto; color: #24292f; }
+ins { color: #116329; background: #dafbe1; text-decoration: underline; }
+del { color: #a40e26; background: #ffebe9; text-decoration: line-through; }
+.block-inserted { border-left: 4px solid #1a7f37; padding-left: 8px; }
+.block-deleted { border-left: 4px solid #cf222e; padding-left: 8px; }
+.block-modified { border-left: 4px solid #bf8700; padding-left: 8px; }
+.compare-summary { border: 1px solid #d0d7de; border-radius: 6px; padding: 8px 16px; margin-bottom: 2em; background: #f6f8fa; }
+table { border-collapse: collapse; margin: 1em 0; }
+td, th { border: 1px solid #d0d7de; padding: 4px 8px; vertical-align: top; }
+tr.row-inserted { background: #dafbe1; }
+tr.row-deleted { background: #ffebe9; }
+pre { background: #f6f8fa; padding: 8px; white-space: pre-wrap; }
+blockquote { color: #57606a; margin-left: 0; }
+`;
+
+/**
+ * 文档比较器类
+ */
+class DocumentComparer {
+  private options: CompareOptions = {};
+
+  /**
+   * 比较两个版本的文档
+   */
+  async compareDocuments(
+    originalPath: string,
+    revisedPath: string,
+    options: CompareOptions = {}
+  ): Promise<CompareResult> {
+    try {
+      this.options = { format: 'html', ...options };
+      const format = this.options.format!;
+
+      if (this.options.debug) {
+        console.log('🚀 开始比较文档...');
+        console.log('📄 原始版本:', originalPath);
+        console.log('📄 修订版本:', revisedPath);
+      }
+
+      const original = await this.readBlocks(originalPath);
+      const revised = await this.readBlocks(revisedPath);
+      const changes = diffBlocks(original, revised);
+      const summary = summarize(changes);
+      const labels = detectLabels([...original, ...revised]);
+      const names = { original: path.basename(originalPath), revised: path.basename(revisedPath) };
+
+      let content: string | Buffer;
+      switch (format) {
+        case 'markdown':
+          content = renderMarkdown(changes, summary, names, labels);
+          break;
+        case 'docx':
+          content = await this.renderDocx(changes);
+          break;
+        case 'html':
+          content = renderHtml(changes, summary, names, labels);
+          break;
+        default:
+          throw new Error(`不支持的比较输出格式: ${format}`);
+      }
+
+      let outputPath: string | undefined;
+      if (this.options.outputPath) {
+        outputPath = validateAndSanitizePath(this.options.outputPath, []);
+        await fs.mkdir(path.dirname(outputPath!), { recursive: true });
+        await fs.writeFile(outputPath!, content);
+
+        if (this.options.debug) {
+          console.log('✅ 比较结果已保存:', outputPath);
+        }
+      }
+
+      if (this.options.debug) {
+        console.log('📊 比较统计:', summary);
+      }
+
+      return {
+        success: true,
+        content,
+        outputPath,
+        summary,
+        metadata: {
+          originalPath,
+          revisedPath,
+          format,
+          originalBlocks: original.length,
+          revisedBlocks: revised.length,
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ 文档比较失败:', error.message);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * 读取文档并提取块
+   */
+  private async readBlocks(filePath: string): Promise<DocumentBlock[]> {
+    const html = await this.readHtml(filePath);
+    return extractBlocks(cheerio.load(html));
+  }
+
+  /**
+   * 用现有读取器把文档转换为 HTML
+   */
+  private async readHtml(filePath: string): Promise<string> {
+    const extension = path.extname(filePath).toLowerCase();
+    switch (extension) {
+      case '.docx': {
+        // 解析时提取的图片写入临时目录，比较只需要文本
+        const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'doc-compare-'));
+        try {
+          const result = await new OOXMLParser({ revisionMode: 'accept' }).parseDocx(
+            filePath,
+            workDir
+          );
+          return result.html;
+        } finally {
+          await fs.rm(workDir, { recursive: true, force: true });
+        }
+      }
+      case '.md':
+      case '.markdown':
+        return marked.parse(await fs.readFile(filePath, 'utf-8'), { gfm: true });
+      case '.html':
+      case '.htm':
+        return await fs.readFile(filePath, 'utf-8');
+      case '.txt':
+        return (await fs.readFile(filePath, 'utf-8'))
+          .split(/\r?\n\s*\r?\n/)
+          .map(paragraph => `<p>${escapeHtml(paragraph)}</p>`)
+          .join('\n');
+      default:
+        throw new Error(`不支持比较的文件格式: ${extension || path.basename(filePath)}`);
+    }
+  }
+
+  /**
+   * 生成带修订标记的 DOCX：新增和删除的文字分别写成 w:ins/w:del，整段增删时同时标记段落标记和表格行
+   */
+  private async renderDocx(changes: BlockChange[]): Promise<Buffer> {
+    const author = this.options.author ?? 'doc-ops-mcp';
+    const date = this.options.date ?? new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    let revisionId = 1;
+    const revision = () => ({ id: revisionId++, author, date });
+
+    const runs = (words: WordChange[], style: { font?: string; italics?: boolean } = {}) =>
+      words.map((word): ParagraphChild => {
+        if (word.type === 'inserted')
+          return new InsertedTextRun({ text: word.text, ...style, ...revision() });
+        if (word.type === 'deleted')
+          return new DeletedTextRun({ text: word.text, ...style, ...revision() });
+        return new TextRun({ text: word.text, ...style });
+      });
+    const paragraphMark = (type: ChangeType) =>
+      type === 'inserted'
+        ? { insertion: revision() }
+        : type === 'deleted'
+          ? { deletion: revision() }
+          : undefined;
+
+    const numbering = new DocxNumbering();
+    const children: Array<Paragraph | Table> = [];
+    let list: { reference: string; end: number } | undefined;
+
+    changes.forEach((change, index) => {
+      const { block } = change;
+      const run = paragraphMark(change.type);
+
+      if (block.kind === 'list-item') {
+        // 连续的列表项登记为一个列表
+        if (!list || index >= list.end) {
+          let end = index;
+          while (end < changes.length && changes[end].block.kind === 'list-item') end++;
+          const items = changes.slice(index, end).map(item => ({
+            depth: item.block.level ?? 0,
+            kind: item.block.ordered ? ('decimal' as const) : ('bullet' as const),
+          }));
+          list = { reference: numbering.register(items), end };
+        }
+        children.push(
+          new Paragraph({
+            children: runs(change.words),
+            numbering: { reference: list.reference, level: Math.min(block.level ?? 0, 8) },
+            run,
+          })
+        );
+        return;
+      }
+
+      switch (block.kind) {
+        case 'heading':
+          children.push(
+            new Paragraph({
+              children: runs(change.words),
+              heading: HEADING_LEVELS[Math.min(Math.max(block.level ?? 1, 1), 6) - 1],
+              run,
+            })
+          );
+          break;
+        case 'table':
+          children.push(this.createTable(change, runs, revision));
+          children.push(new Paragraph({ children: [] }));
+          break;
+        case 'code':
+          children.push(new Paragraph({ children: runs(change.words, { font: 'Consolas' }), run }));
+          break;
+        case 'quote':
+          children.push(
+            new Paragraph({
+              children: runs(change.words, { italics: true }),
+              indent: { left: 720 },
+              run,
+            })
+          );
+          break;
+        default:
+          children.push(new Paragraph({ children: runs(change.words), run }));
+      }
+    });
+
+    const document = new Document({
+      features: { trackRevisions: true },
+      numbering: numbering.options,
+      sections: [{ children }],
+    });
+    return await Packer.toBuffer(document);
+  }
+
+  private createTable(
+    change: BlockChange,
+    runs: (words: WordChange[]) => ParagraphChild[],
+    revision: () => { id: number; author: string; date: string }
+  ): Table {
+    const rows = change.rows ?? [];
+    const columns = Math.max(1, ...rows.map(row => row.cells.length));
+    return new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: rows.map(row => {
+        const cells = Array.from({ length: columns }, (_, index) => row.cells[index] ?? []);
+        return new TableRow({
+          children: cells.map(
+            words => new TableCell({ children: [new Paragraph({ children: runs(words) })] })
+          ),
+          insertion: row.type === 'inserted' ? revision() : undefined,
+          deletion: row.type === 'deleted' ? revision() : undefined,
+        });
+      }),
+    });
+  }
+}
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+/**
+ * 从 HTML 中按文档顺序提取块
+ */
+function extractBlocks($: any): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  $('script, style, head, title, noscript').remove();
+
+  const push = (block: DocumentBlock) => {
+    if (block.text.length > 0) blocks.push(block);
+  };
+  const inlineText = (node: any): string => normalizeText($(node).text());
+
+  const walkList = (list: any, depth: number) => {
+    const ordered = list.tagName === 'ol';
+    $(list)
+      .children('li')
+      .each((_: number, item: any) => {
+        const clone = $(item).clone();
+        clone.find('ul, ol').remove();
+        push({ kind: 'list-item', text: normalizeText(clone.text()), level: depth, ordered });
+        $(item)
+          .find('ul, ol')
+          .filter((_: number, nested: any) => $(nested).parents('li').first()[0] === item)
+          .each((_: number, nested: any) => walkList(nested, depth + 1));
+      });
+  };
+
+  const walk = (node: any, quoted: boolean) => {
+    $(node)
+      .contents()
+      .each((_: number, child: any) => {
+        if (child.type === 'text') {
+          push({ kind: quoted ? 'quote' : 'paragraph', text: normalizeText(child.data ?? '') });
+          return;
+        }
+        if (child.type !== 'tag') return;
+        const tag = child.tagName.toLowerCase();
+
+        if (/^h[1-6]$/.test(tag)) {
+          push({ kind: 'heading', text: inlineText(child), level: parseInt(tag[1], 10) });
+        } else if (tag === 'ul' || tag === 'ol') {
+          walkList(child, 0);
+        } else if (tag === 'table') {
+          const rows: string[][] = [];
+          $(child)
+            .find('tr')
+            .filter((_: number, row: any) => $(row).closest('table')[0] === child)
+            .each((_: number, row: any) => {
+              rows.push(
+                $(row)
+                  .children('td, th')
+                  .map((_: number, cell: any) => inlineText(cell))
+                  .get()
+              );
+            });
+          const text = rows.map(row => row.join('\t')).join('\n');
+          if (rows.length > 0) blocks.push({ kind: 'table', text, rows });
+        } else if (tag === 'pre') {
+          push({ kind: 'code', text: $(child).text().replace(/\s+$/, '') });
+        } else if (tag === 'blockquote') {
+          walk(child, true);
+        } else if (tag === 'img') {
+          push({ kind: 'image', text: imageText($(child)) });
+        } else if (tag === 'hr' || tag === 'br') {
+          // 分隔线不参与比较
+        } else if (
+          CONTAINER_TAGS.has(tag) ||
+          $(child).children('p, div, table, ul, ol, h1, h2, h3, h4, h5, h6, pre, blockquote')
+            .length > 0
+        ) {
+          walk(child, quoted);
+        } else {
+          const text = inlineText(child);
+          if (text.length === 0 && $(child).find('img').length > 0) {
+            $(child)
+              .find('img')
+              .each((_: number, image: any) => push({ kind: 'image', text: imageText($(image)) }));
+          } else {
+            push({ kind: quoted ? 'quote' : 'paragraph', text });
+          }
+        }
+      });
+  };
+
+  walk($('body').length > 0 ? $('body')[0] : $.root()[0], false);
+  return blocks;
+}
+
+function imageText(image: any): string {
+  const alt = normalizeText(image.attr('alt') ?? '');
+  return `[${alt || 'image'}]`;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Myers 差分：返回把 a 变为 b 的最短操作序列
+ */
+function diffSequence<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): DiffOperation[] {
+  let head = 0;
+  while (head < a.length && head < b.length && equals(a[head], b[head])) head++;
+  let tail = 0;
+  while (
+    tail < a.length - head &&
+    tail < b.length - head &&
+    equals(a[a.length - 1 - tail], b[b.length - 1 - tail])
+  ) {
+    tail++;
+  }
+
+  const operations: DiffOperation[] = [];
+  for (let index = 0; index < head; index++) operations.push({ type: 'equal', a: index, b: index });
+
+  const n = a.length - head - tail;
+  const m = b.length - head - tail;
+  const middle: DiffOperation[] = [];
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+  let found = max === 0;
+  let cost = 0;
+
+  for (let d = 0; d <= max && !found; d++) {
+    if (d > MAX_EDIT_COST) break;
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && equals(a[head + x], b[head + y])) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) found = true;
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+    cost = d;
+  }
+
+  if (!found) {
+    // 差异过大时整体视为删除后新增
+    for (let index = 0; index < n; index++) middle.push({ type: 'deleted', a: head + index });
+    for (let index = 0; index < m; index++) middle.push({ type: 'inserted', b: head + index });
+  } else if (max > 0) {
+    let x = n;
+    let y = m;
+    for (let d = cost; d > 0; d--) {
+      const previous = trace[d - 1];
+      const at = (k: number) => previous[k + d - 1];
+      const k = x - y;
+      const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+      const previousX = at(previousK);
+      const previousY = previousX - previousK;
+      while (x > previousX && y > previousY) {
+        x--;
+        y--;
+        middle.push({ type: 'equal', a: head + x, b: head + y });
+      }
+      if (x === previousX) {
+        y--;
+        middle.push({ type: 'inserted', b: head + y });
+      } else {
+        x--;
+        middle.push({ type: 'deleted', a: head + x });
+      }
+    }
+    while (x > 0 && y > 0) {
+      x--;
+      y--;
+      middle.push({ type: 'equal', a: head + x, b: head + y });
+    }
+    middle.reverse();
+  }
+
+  operations.push(...middle);
+  for (let index = tail; index > 0; index--) {
+    operations.push({ type: 'equal', a: a.length - index, b: b.length - index });
+  }
+  return operations;
+}
+
+/**
+ * 把差分结果切分为连续的删除/新增片段，调用方在片段内配对修改
+ */
+function forEachHunk(
+  operations: DiffOperation[],
+  onEqual: (a: number, b: number) => void,
+  onHunk: (deleted: number[], inserted: number[]) => void
+): void {
+  let deleted: number[] = [];
+  let inserted: number[] = [];
+  const flush = () => {
+    if (deleted.length || inserted.length) onHunk(deleted, inserted);
+    deleted = [];
+    inserted = [];
+  };
+  for (const operation of operations) {
+    if (operation.type === 'equal') {
+      flush();
+      onEqual(operation.a!, operation.b!);
+    } else if (operation.type === 'deleted') {
+      deleted.push(operation.a!);
+    } else {
+      inserted.push(operation.b!);
+    }
+  }
+  flush();
+}
+
+/**
+ * 在删除和新增片段中按顺序配对相似的元素，返回按文档顺序排列的结果
+ */
+function pairHunk(
+  deleted: number[],
+  inserted: number[],
+  matches: (a: number, b: number) => boolean
+): Array<{ a?: number; b?: number }> {
+  const result: Array<{ a?: number; b?: number }> = [];
+  let next = 0;
+  for (const a of deleted) {
+    let paired = -1;
+    for (let j = next; j < inserted.length && j < next + PAIRING_WINDOW; j++) {
+      if (matches(a, inserted[j])) {
+        paired = j;
+        break;
+      }
+    }
+    if (paired < 0) {
+      result.push({ a });
+      continue;
+    }
+    for (let j = next; j < paired; j++) result.push({ b: inserted[j] });
+    result.push({ a, b: inserted[paired] });
+    next = paired + 1;
+  }
+  for (let j = next; j < inserted.length; j++) result.push({ b: inserted[j] });
+  return result;
+}
+
+function diffBlocks(original: DocumentBlock[], revised: DocumentBlock[]): BlockChange[] {
+  const key = (block: DocumentBlock) => `${block.kind}:${block.level ?? ''}:${block.text}`;
+  const operations = diffSequence(original.map(key), revised.map(key), (x, y) => x === y);
+  const changes: BlockChange[] = [];
+
+  forEachHunk(
+    operations,
+    (_, b) => {
+      const block = revised[b];
+      changes.push({
+        type: 'equal',
+        block,
+        words: [{ type: 'equal', text: block.text }],
+        rows: block.rows?.map(row => ({
+          type: 'equal',
+          cells: row.map(text => wholeText('equal', text)),
+        })),
+      });
+    },
+    (deleted, inserted) => {
+      const pairs = pairHunk(deleted, inserted, (a, b) => {
+        const before = original[a];
+        const after = revised[b];
+        if (before.kind !== after.kind) return false;
+        const threshold = before.kind === 'table' ? TABLE_SIMILARITY : BLOCK_SIMILARITY;
+        return similarity(before.text, after.text) >= threshold;
+      });
+      for (const { a, b } of pairs) {
+        if (a !== undefined && b !== undefined) {
+          changes.push(modifiedBlock(original[a], revised[b]));
+        } else if (a !== undefined) {
+          changes.push(wholeBlock('deleted', original[a]));
+        } else {
+          changes.push(wholeBlock('inserted', revised[b!]));
+        }
+      }
+    }
+  );
+  return changes;
+}
+
+function wholeText(type: WordChange['type'], text: string): WordChange[] {
+  return text.length > 0 ? [{ type, text }] : [];
+}
+
+function wholeBlock(type: 'inserted' | 'deleted', block: DocumentBlock): BlockChange {
+  return {
+    type,
+    block,
+    words: wholeText(type, block.text),
+    rows: block.rows?.map(row => ({ type, cells: row.map(text => wholeText(type, text)) })),
+  };
+}
+
+function modifiedBlock(before: DocumentBlock, after: DocumentBlock): BlockChange {
+  if (after.kind === 'table') {
+    return {
+      type: 'modified',
+      block: after,
+      words: [],
+      rows: diffRows(before.rows ?? [], after.rows ?? []),
+    };
+  }
+  return { type: 'modified', block: after, words: diffWords(before.text, after.text) };
+}
+
+/**
+ * 表格按行比较，配对的行再按单元格逐词比较
+ */
+function diffRows(original: string[][], revised: string[][]): RowChange[] {
+  const key = (row: string[]) => row.join('\t');
+  const operations = diffSequence(original.map(key), revised.map(key), (x, y) => x === y);
+  const rows: RowChange[] = [];
+
+  forEachHunk(
+    operations,
+    (_, b) => rows.push({ type: 'equal', cells: revised[b].map(text => wholeText('equal', text)) }),
+    (deleted, inserted) => {
+      const pairs = pairHunk(
+        deleted,
+        inserted,
+        (a, b) => similarity(key(original[a]), key(revised[b])) >= TABLE_SIMILARITY
+      );
+      for (const { a, b } of pairs) {
+        if (a !== undefined && b !== undefined) {
+          const columns = Math.max(original[a].length, revised[b].length);
+          const cells = Array.from({ length: columns }, (_, index) =>
+            diffWords(original[a][index] ?? '', revised[b][index] ?? '')
+          );
+          rows.push({ type: 'modified', cells });
+        } else if (a !== undefined) {
+          rows.push({
+            type: 'deleted',
+            cells: original[a].map(text => wholeText('deleted', text)),
+          });
+        } else {
+          rows.push({
+            type: 'inserted',
+            cells: revised[b!].map(text => wholeText('inserted', text)),
+          });
+        }
+      }
+    }
+  );
+  return rows;
+}
+
+function tokenize(text: string): string[] {
+  return text.match(WORD_PATTERN) ?? [];
+}
+
+/**
+ * 逐词比较；中日韩文字按单字比较
+ */
+function diffWords(before: string, after: string): WordChange[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const changes: WordChange[] = [];
+  const append = (type: WordChange['type'], text: string) => {
+    const last = changes[changes.length - 1];
+    if (last && last.type === type) last.text += text;
+    else changes.push({ type, text });
+  };
+
+  const operations = diffSequence(a, b, (x, y) => x === y);
+  for (let index = 0; index < operations.length; index++) {
+    const operation = operations[index];
+    if (operation.type === 'equal') {
+      const token = a[operation.a!];
+      // 两处改动之间的空白并入改动，避免修订被切得过碎
+      const previous = changes[changes.length - 1];
+      const next = operations[index + 1];
+      if (
+        /^\s+$/.test(token) &&
+        previous &&
+        previous.type !== 'equal' &&
+        next &&
+        next.type !== 'equal'
+      ) {
+        append('deleted', token);
+        append('inserted', token);
+        continue;
+      }
+      append('equal', token);
+    } else if (operation.type === 'deleted') {
+      append('deleted', a[operation.a!]);
+    } else {
+      append('inserted', b[operation.b!]);
+    }
+  }
+  return groupChanges(changes);
+}
+
+/**
+ * 把交替出现的删除和新增片段合并为“先删后增”
+ */
+function groupChanges(changes: WordChange[]): WordChange[] {
+  const result: WordChange[] = [];
+  let deleted = '';
+  let inserted = '';
+  const flush = () => {
+    if (deleted) result.push({ type: 'deleted', text: deleted });
+    if (inserted) result.push({ type: 'inserted', text: inserted });
+    deleted = '';
+    inserted = '';
+  };
+  for (const change of changes) {
+    if (change.type === 'deleted') deleted += change.text;
+    else if (change.type === 'inserted') inserted += change.text;
+    else {
+      flush();
+      result.push(change);
+    }
+  }
+  flush();
+  return result;
+}
+
+/**
+ * 两段文字的相似度：相同词数占总词数的比例（0～1）
+ */
+function similarity(before: string, after: string): number {
+  const a = tokenize(before).filter(token => !/^\s+$/.test(token));
+  const b = tokenize(after).filter(token => !/^\s+$/.test(token));
+  if (a.length === 0 && b.length === 0) return 1;
+  const common = diffSequence(a, b, (x, y) => x === y).filter(op => op.type === 'equal').length;
+  return (2 * common) / (a.length + b.length);
+}
+
+function countWords(text: string): number {
+  return tokenize(text).filter(token => !/^\s+$/.test(token)).length;
+}
+
+function summarize(changes: BlockChange[]): CompareSummary {
+  const summary: CompareSummary = {
+    unchanged: 0,
+    modified: 0,
+    inserted: 0,
+    deleted: 0,
+    wordsInserted: 0,
+    wordsDeleted: 0,
+  };
+  for (const change of changes) {
+    summary[change.type === 'equal' ? 'unchanged' : change.type]++;
+    const words = [...change.words, ...(change.rows ?? []).flatMap(row => row.cells.flat())];
+    for (const word of words) {
+      if (word.type === 'inserted') summary.wordsInserted += countWords(word.text);
+      if (word.type === 'deleted') summary.wordsDeleted += countWords(word.text);
+    }
+  }
+  return summary;
+}
+
+function detectLabels(blocks: DocumentBlock[]) {
+  const sample = blocks
+    .slice(0, 50)
+    .map(block => block.text)
+    .join('');
+  const han = (sample.match(/\p{Script=Han}/gu) ?? []).length;
+  return han > sample.length * 0.1 ? LABELS.zh : LABELS.en;
+}
+
+/**
+ * HTML 修订稿：完整文档，删除内容划线、新增内容加下划线，改动的块在左侧标出
+ */
+function renderHtml(
+  changes: BlockChange[],
+  summary: CompareSummary,
+  names: { original: string; revised: string },
+  labels: typeof LABELS.en
+): string {
+  const inline = (words: WordChange[]) =>
+    words
+      .map(word => {
+        const text = escapeHtml(word.text);
+        if (word.type === 'inserted') return `<ins>${text}</ins>`;
+        if (word.type === 'deleted') return `<del>${text}</del>`;
+        return text;
+      })
+      .join('');
+
+  const body: string[] = [];
+  let openList: string | undefined;
+  for (const change of changes) {
+    const { block } = change;
+    const className = change.type === 'equal' ? '' : ` class="block-${change.type}"`;
+
+    if (block.kind === 'list-item') {
+      const tag = block.ordered ? 'ol' : 'ul';
+      if (openList !== tag) {
+        if (openList) body.push(`</${openList}>`);
+        body.push(`<${tag}>`);
+        openList = tag;
+      }
+      const indent = block.level ? ` style="margin-left: ${block.level * 1.5}em"` : '';
+      body.push(`<li${className}${indent}>${inline(change.words)}</li>`);
+      continue;
+    }
+    if (openList) {
+      body.push(`</${openList}>`);
+      openList = undefined;
+    }
+
+    switch (block.kind) {
+      case 'heading': {
+        const level = Math.min(Math.max(block.level ?? 1, 1), 6);
+        body.push(`<h${level}${className}>${inline(change.words)}</h${level}>`);
+        break;
+      }
+      case 'table': {
+        const rows = (change.rows ?? []).map(row => {
+          const rowClass =
+            row.type === 'inserted' || row.type === 'deleted' ? ` class="row-${row.type}"` : '';
+          return `<tr${rowClass}>${row.cells.map(cell => `<td>${inline(cell)}</td>`).join('')}</tr>`;
+        });
+        body.push(`<div${className}><table>\n${rows.join('\n')}\n</table></div>`);
+        break;
+      }
+      case 'code':
+        body.push(`<pre${className}>${inline(change.words)}</pre>`);
+        break;
+      case 'quote':
+        body.push(`<blockquote${className}>${inline(change.words)}</blockquote>`);
+        break;
+      default:
+        body.push(`<p${className}>${inline(change.words)}</p>`);
+    }
+  }
+  if (openList) body.push(`</${openList}>`);
+
+  const title = `${labels.title}: ${names.original} → ${names.revised}`;
+  const counts = [
+    `${labels.modified}: ${summary.modified}`,
+    `${labels.inserted}: ${summary.inserted}`,
+    `${labels.deleted}: ${summary.deleted}`,
+    `${labels.wordsInserted}: ${summary.wordsInserted}`,
+    `${labels.wordsDeleted}: ${summary.wordsDeleted}`,
+  ].join(' · ');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(title)}</title>
+<style>${REDLINE_CSS}</style>
+</head>
+<body>
+<div class="compare-summary"><strong>${escapeHtml(title)}</strong><br>${escapeHtml(counts)}</div>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+/**
+ * Markdown 变更摘要：统计表加每处改动（删除用 ~~ ~~，新增用 ** **），并注明所在章节
+ */
+function renderMarkdown(
+  changes: BlockChange[],
+  summary: CompareSummary,
+  names: { original: string; revised: string },
+  labels: typeof LABELS.en
+): string {
+  const inline = (words: WordChange[]) =>
+    words
+      .map(word => {
+        const text = escapeMarkdown(word.text);
+        if (word.type === 'equal' || !text.trim()) return text;
+        // 强调标记必须紧贴文字，首尾空白放在标记外
+        const [, leading, core, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+        const marker = word.type === 'inserted' ? '**' : '~~';
+        return `${leading}${marker}${core}${marker}${trailing}`;
+      })
+      .join('');
+
+  const lines = [
+    `# ${labels.title}: ${escapeMarkdown(names.original)} → ${escapeMarkdown(names.revised)}`,
+    '',
+    `| ${labels.modified} | ${labels.inserted} | ${labels.deleted} | ${labels.unchanged} | ${labels.wordsInserted} | ${labels.wordsDeleted} |`,
+    '|---|---|---|---|---|---|',
+    `| ${summary.modified} | ${summary.inserted} | ${summary.deleted} | ${summary.unchanged} | ${summary.wordsInserted} | ${summary.wordsDeleted} |`,
+    '',
+    `## ${labels.changes}`,
+    '',
+  ];
+
+  let section: string | undefined;
+  let number = 0;
+  for (const change of changes) {
+    const { block } = change;
+    if (change.type !== 'equal') {
+      const typeLabel =
+        change.type === 'modified'
+          ? labels.modified
+          : change.type === 'inserted'
+            ? labels.inserted
+            : labels.deleted;
+      const heading = labels.change(
+        typeLabel,
+        labels.kinds[block.kind],
+        section ? escapeMarkdown(section) : undefined
+      );
+      lines.push(`### ${++number}. ${heading}`, '');
+
+      if (block.kind === 'table') {
+        (change.rows ?? []).forEach((row, index) => {
+          if (row.type === 'equal') return;
+          lines.push(`- ${labels.row(index + 1)}: ${row.cells.map(inline).join(' | ')}`);
+        });
+      } else {
+        lines.push(inline(change.words));
+      }
+      lines.push('');
+    }
+    if (block.kind === 'heading' && change.type !== 'deleted') {
+      section = block.text;
+    }
+  }
+  if (number === 0) lines.push(labels.noChanges, '');
+
+  return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_~|[\]])/g, '\\$1');
+}
+
+// 导出便捷函数
+export async function compareDocuments(
+  originalPath: string,
+  revisedPath: string,
+  options: CompareOptions = {}
+): Promise<CompareResult> {
+  const comparer = new DocumentComparer();
+  return await comparer.compareDocuments(originalPath, revisedPath, options);
+}
+
+export {
+  DocumentComparer,
+  CompareOptions,
+  CompareResult,
+  CompareSummary,
+  CompareFormat,
+  DocumentBlock,
+  BlockChange,
+  WordChange,
+  diffWords,
+};
@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import { promisify } from 'util';
 import { Document, Packer, Paragraph, TextRun, HeadingLevel } from 'docx';
+import { detectLanguage } from './languageDetector';
 const { rgb } = require('pdf-lib');
 
 interface DocumentContent {
@@ -200,7 +201,7 @@ export class DocumentConverter {
 
       const html = `
 <!DOCTYPE html>
-<html lang="zh-CN">
+<html lang="${detectLanguage(content.content)}">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -449,7 +450,7 @@ export class DocumentConverter {
 
     let html = `
 <!DOCTYPE html>
-<html lang="zh-CN">
+<html lang="${detectLanguage(content.content)}">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
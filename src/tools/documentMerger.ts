@@ -0,0 +1,378 @@
+/**
+ * 文档合并
+ * 按顺序把 DOCX、Markdown、HTML、PDF 文件合并为一个文档，格式与输出不同的文件先转换为输出格式。
+ * DOCX 由 DocxMerger 合并以协调样式和列表编号，PDF 用 pdf-lib 复制页面，Markdown 和 HTML 按顺序拼接正文
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import { PDFDocument } from 'pdf-lib';
+import { DocxMergeResult, SectionBreak, StyleMode, mergeDocx } from './docxMerger';
+import { validateAndSanitizePath } from '../security/securityConfig';
+
+type MergeFormat = 'docx' | 'pdf' | 'markdown' | 'html';
+
+// 格式转换函数，由调用方提供，按 outputPath 的扩展名转换
+type MergeConvertFunction = (
+  inputPath: string,
+  outputPath: string,
+  targetFormat: MergeFormat
+) => Promise<any>;
+
+interface MergeDocumentsOptions {
+  outputPath: string;
+  format?: MergeFormat; // 默认按 outputPath 的扩展名确定
+  styleMode?: StyleMode; // DOCX：同名样式冲突时使用哪一方的定义
+  sectionBreak?: SectionBreak; // DOCX：文档之间的分节方式
+  pageBreaks?: boolean; // HTML：打印时每个文档从新页开始，默认 true
+  tempPath: (prefix: string, extension: string) => string; // 中间文件路径生成函数
+  debug?: boolean;
+}
+
+interface MergedInput {
+  inputPath: string;
+  format: string;
+  converted: boolean; // 是否先转换为输出格式
+  pages?: string; // PDF：该文档在合并结果中的页码范围
+}
+
+type DocxMergeStats = NonNullable<DocxMergeResult['metadata']>;
+
+interface MergeDocumentsResult {
+  success: boolean;
+  outputPath?: string;
+  metadata?: {
+    format: MergeFormat;
+    inputs: MergedInput[];
+    pageCount?: number;
+    docx?: Omit<DocxMergeStats, 'inputs'>;
+  };
+  error?: string;
+}
+
+const FORMAT_EXTENSIONS: Record<MergeFormat, string> = {
+  docx: '.docx',
+  pdf: '.pdf',
+  markdown: '.md',
+  html: '.html',
+};
+
+// 相对路径的链接和图片：Markdown 内联语法与 HTML 的 src/href 属性
+const MARKDOWN_LINK_PATTERN = /(\]\()(<[^>]+>|[^)\s]+)/g;
+const HTML_LINK_PATTERN = /(\s(?:src|href)=["'])([^"']+)/g;
+const ABSOLUTE_URL_PATTERN = /^([a-z][a-z0-9+.-]*:|\/|#)/i;
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})/;
+const FRONT_MATTER_PATTERN = /^---\r?\n[\s\S]*?\r?\n---\r?\n/;
+
+/**
+ * 文档合并器类
+ */
+class DocumentMerger {
+  constructor(private readonly convert: MergeConvertFunction) {}
+
+  /**
+   * 按顺序合并文档
+   */
+  async merge(inputPaths: string[], options: MergeDocumentsOptions): Promise<MergeDocumentsResult> {
+    const intermediates: string[] = [];
+    try {
+      if (inputPaths.length === 0) {
+        throw new Error('至少需要一个输入文件');
+      }
+      const format = options.format ?? formatOf(options.outputPath);
+      if (!format) {
+        throw new Error(
+          `无法确定输出格式: ${path.basename(options.outputPath)}，支持 docx、pdf、markdown、html`
+        );
+      }
+      const outputPath: string = validateAndSanitizePath(options.outputPath, []);
+
+      if (options.debug) {
+        console.log(`🚀 开始合并 ${inputPaths.length} 个文档为 ${format.toUpperCase()}...`);
+      }
+
+      const inputs: MergedInput[] = [];
+      const files: string[] = [];
+      for (const inputPath of inputPaths) {
+        await fs.access(inputPath);
+        const inputFormat = formatOf(inputPath);
+        if (inputFormat === format) {
+          inputs.push({ inputPath, format, converted: false });
+          files.push(inputPath);
+          continue;
+        }
+
+        const file = options.tempPath('merge_input', FORMAT_EXTENSIONS[format]);
+        intermediates.push(file);
+        if (options.debug) {
+          console.log(`📝 转换 ${path.basename(inputPath)} → ${format}`);
+        }
+        const result = await this.convert(inputPath, file, format);
+        if (!result?.success) {
+          throw new Error(
+            `无法将 ${path.basename(inputPath)} 转换为 ${format}: ${result?.error ?? '转换失败'}`
+          );
+        }
+        inputs.push({
+          inputPath,
+          format: inputFormat ?? path.extname(inputPath).slice(1),
+          converted: true,
+        });
+        files.push(result.outputPath ?? file);
+      }
+
+      await fs.mkdir(path.dirname(outputPath), { recursive: true });
+      const metadata: MergeDocumentsResult['metadata'] = { format, inputs };
+      switch (format) {
+        case 'docx': {
+          const result = await mergeDocx(files, {
+            outputPath,
+            styleMode: options.styleMode,
+            sectionBreak: options.sectionBreak,
+            debug: options.debug,
+          });
+          if (!result.success) throw new Error(result.error);
+          // 输入列表中可能是中间文件，以 inputs 为准
+          const docx: Partial<DocxMergeStats> = { ...result.metadata };
+          delete docx.inputs;
+          metadata.docx = docx as Omit<DocxMergeStats, 'inputs'>;
+          break;
+        }
+        case 'pdf':
+          metadata.pageCount = await this.mergePdf(files, inputs, outputPath);
+          break;
+        case 'markdown':
+          await fs.writeFile(
+            outputPath,
+            await this.mergeMarkdown(files, inputs, outputPath),
+            'utf-8'
+          );
+          break;
+        case 'html':
+          await fs.writeFile(
+            outputPath,
+            await this.mergeHtml(files, inputs, outputPath, options.pageBreaks !== false),
+            'utf-8'
+          );
+          break;
+      }
+
+      if (options.debug) {
+        console.log('✅ 合并后的文档已保存:', outputPath);
+      }
+      return { success: true, outputPath, metadata };
+    } catch (error: any) {
+      console.error('❌ 文档合并失败:', error.message);
+      return {
+        success: false,
+        error: error.message,
+      };
+    } finally {
+      for (const file of intermediates) {
+        await fs.unlink(file).catch(() => {});
+      }
+    }
+  }
+
+  /**
+   * 复制各 PDF 的全部页面，返回总页数
+   */
+  private async mergePdf(
+    files: string[],
+    inputs: MergedInput[],
+    outputPath: string
+  ): Promise<number> {
+    const merged = await PDFDocument.create();
+    for (let index = 0; index < files.length; index++) {
+      const source = await PDFDocument.load(await fs.readFile(files[index]));
+      const first = merged.getPageCount() + 1;
+      const pages = await merged.copyPages(source, source.getPageIndices());
+      pages.forEach(page => merged.addPage(page));
+      inputs[index].pages = pageRange(first, merged.getPageCount());
+      if (index === 0) {
+        const title = source.getTitle();
+        if (title) merged.setTitle(title);
+      }
+    }
+    await fs.writeFile(outputPath, await merged.save());
+    return merged.getPageCount();
+  }
+
+  /**
+   * 拼接 Markdown，相对路径的图片和链接改写为相对输出文件，后续文档的 YAML 头信息去掉
+   */
+  private async mergeMarkdown(
+    files: string[],
+    inputs: MergedInput[],
+    outputPath: string
+  ): Promise<string> {
+    const parts: string[] = [];
+    for (let index = 0; index < files.length; index++) {
+      let markdown = await fs.readFile(files[index], 'utf-8');
+      if (index > 0) markdown = markdown.replace(FRONT_MATTER_PATTERN, '');
+      parts.push(
+        rebaseMarkdownLinks(
+          markdown.trim(),
+          path.dirname(linkBase(files[index], inputs[index])),
+          path.dirname(outputPath)
+        )
+      );
+    }
+    return parts.join('\n\n') + '\n';
+  }
+
+  /**
+   * 以第一个 HTML 为外壳，各文档正文依次放入 section，补充其余文档的样式表
+   */
+  private async mergeHtml(
+    files: string[],
+    inputs: MergedInput[],
+    outputPath: string,
+    pageBreaks: boolean
+  ): Promise<string> {
+    let $: CheerioAPI | undefined;
+    const styles = new Set<string>();
+    const sections: string[] = [];
+    for (let index = 0; index < files.length; index++) {
+      const html = rebaseHtmlLinks(
+        await fs.readFile(files[index], 'utf-8'),
+        path.dirname(linkBase(files[index], inputs[index])),
+        path.dirname(outputPath)
+      );
+      const doc: CheerioAPI = cheerio.load(html);
+      if (!$) {
+        $ = doc;
+        $('head style, head link[rel="stylesheet"]').each((_, element) => {
+          styles.add($!.html(element) ?? '');
+        });
+      } else {
+        doc('head style, head link[rel="stylesheet"]').each((_, element) => {
+          const markup = doc.html(element) ?? '';
+          if (!styles.has(markup)) {
+            styles.add(markup);
+            $!('head').append(markup);
+          }
+        });
+      }
+      const name = path.basename(inputs[index].inputPath).replace(/"/g, '&quot;');
+      sections.push(
+        `<section class="merged-document" data-source="${name}">${doc('body').html() ?? ''}</section>`
+      );
+    }
+
+    if (pageBreaks) {
+      $!('head').append(
+        '<style>@media print { .merged-document + .merged-document { break-before: page; page-break-before: always; } }</style>'
+      );
+    }
+    $!('body').html(sections.join('\n'));
+    return $!.html();
+  }
+}
+
+function formatOf(filePath: string): MergeFormat | undefined {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.docx':
+      return 'docx';
+    case '.pdf':
+      return 'pdf';
+    case '.md':
+    case '.markdown':
+      return 'markdown';
+    case '.html':
+    case '.htm':
+      return 'html';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 相对链接的基准：转换生成的中间文件仍以原文件所在目录为准
+ */
+function linkBase(file: string, input: MergedInput): string {
+  return input.converted ? input.inputPath : file;
+}
+
+function pageRange(first: number, last: number): string {
+  return first === last ? String(first) : `${first}-${last}`;
+}
+
+function rebaseLink(target: string, fromDir: string, toDir: string): string {
+  if (ABSOLUTE_URL_PATTERN.test(target) || path.resolve(fromDir) === path.resolve(toDir)) {
+    return target;
+  }
+  const [file, suffix] = /^([^?#]*)(.*)$/.exec(target)!.slice(1);
+  if (!file) return target;
+  let decoded = file;
+  try {
+    decoded = decodeURI(file);
+  } catch {
+    // 不是合法的百分号编码，按原样处理
+  }
+  const rebased = path.relative(toDir, path.resolve(fromDir, decoded));
+  return encodeURI(rebased.split(path.sep).join('/')) + suffix;
+}
+
+/**
+ * 把 Markdown 中相对路径的图片和链接改写为相对 toDir（代码块内不处理）
+ */
+function rebaseMarkdownLinks(markdown: string, fromDir: string, toDir: string): string {
+  if (path.resolve(fromDir) === path.resolve(toDir)) return markdown;
+  let fence: string | undefined;
+  return markdown
+    .split('\n')
+    .map(line => {
+      const marker = FENCE_PATTERN.exec(line)?.[1];
+      if (marker && (!fence || marker.startsWith(fence))) {
+        fence = fence ? undefined : marker;
+        return line;
+      }
+      if (fence) return line;
+      return line
+        .replace(MARKDOWN_LINK_PATTERN, (_, head, target) =>
+          target.startsWith('<')
+            ? `${head}<${rebaseLink(target.slice(1, -1), fromDir, toDir)}>`
+            : `${head}${rebaseLink(target, fromDir, toDir)}`
+        )
+        .replace(
+          HTML_LINK_PATTERN,
+          (_, head, target) => `${head}${rebaseLink(target, fromDir, toDir)}`
+        );
+    })
+    .join('\n');
+}
+
+function rebaseHtmlLinks(html: string, fromDir: string, toDir: string): string {
+  if (path.resolve(fromDir) === path.resolve(toDir)) return html;
+  return html.replace(
+    HTML_LINK_PATTERN,
+    (_, head, target) => `${head}${rebaseLink(target, fromDir, toDir)}`
+  );
+}
+
+/**
+ * 便捷函数：合并文档
+ */
+export async function mergeDocuments(
+  inputPaths: string[],
+  convert: MergeConvertFunction,
+  options: MergeDocumentsOptions
+): Promise<MergeDocumentsResult> {
+  const merger = new DocumentMerger(convert);
+  return await merger.merge(inputPaths, options);
+}
+
+export {
+  DocumentMerger,
+  MergeFormat,
+  MergeConvertFunction,
+  MergeDocumentsOptions,
+  MergeDocumentsResult,
+  MergedInput,
+  FORMAT_EXTENSIONS,
+  formatOf,
+  rebaseMarkdownLinks,
+};
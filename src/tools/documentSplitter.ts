@@ -0,0 +1,594 @@
+/**
+ * 文档拆分
+ * DOCX 和 Markdown 按标题级别拆分为多个文件，PDF 按页码范围或书签拆分。
+ * 拆分出的 DOCX 沿用原文档的样式、编号、页眉页脚和节属性，只保留该部分实际引用的图片等部件
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { PDFDocument } from 'pdf-lib';
+import {
+  attributeOf,
+  childElements,
+  loadDocx,
+  mainPartOf,
+  parseStyles,
+  readPart,
+  relatedPart,
+  relationshipsOf,
+  relsPartOf,
+  splitBody,
+} from './docxMerger';
+import { rebaseMarkdownLinks } from './documentMerger';
+import { readPdfOutline } from './pdfOutline';
+import { validateAndSanitizePath } from '../security/securityConfig';
+
+type SplitMode = 'heading' | 'pages' | 'bookmarks';
+
+interface SplitDocumentOptions {
+  outputDir: string;
+  mode?: SplitMode; // DOCX/Markdown 只支持 heading；PDF 指定 pages 时按页码范围，否则按书签
+  level?: number; // 在该级别及更高级别的标题（或书签）处拆分，默认 1
+  pages?: string; // PDF 页码范围，如 "1-3,4-6,7-"，每个范围输出一个文件
+  debug?: boolean;
+}
+
+interface SplitPart {
+  title: string;
+  outputPath: string;
+  pages?: string; // PDF：该部分在原文档中的页码范围
+}
+
+interface SplitDocumentResult {
+  success: boolean;
+  parts?: SplitPart[];
+  metadata?: {
+    inputPath: string;
+    mode: SplitMode;
+    level?: number;
+    partCount: number;
+  };
+  error?: string;
+}
+
+// 一个拆分部分：标题及其在原文档中的范围
+interface SplitRange {
+  title: string;
+  start: number;
+  end: number; // 不含
+}
+
+interface PageRange {
+  start: number; // 从 0 开始
+  end: number; // 含
+}
+
+// 主文档关系中与正文内容无关、拆分后始终保留的部件类型
+const DOCUMENT_LEVEL_RELATIONSHIPS = new Set([
+  'styles',
+  'stylesWithEffects',
+  'numbering',
+  'settings',
+  'webSettings',
+  'fontTable',
+  'theme',
+  'footnotes',
+  'endnotes',
+  'comments',
+  'commentsExtended',
+  'commentsIds',
+  'commentsExtensible',
+  'people',
+  'customXml',
+  'glossaryDocument',
+]);
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})/;
+// 引用式链接定义和脚注定义，如 [id]: https://... 或 [^1]: 注释
+const DEFINITION_PATTERN = /^ {0,3}\[(\^?[^\]]+)\]:/;
+const MAX_TITLE_LENGTH = 40;
+
+/**
+ * 文档拆分器类
+ */
+class DocumentSplitter {
+  private options: SplitDocumentOptions = { outputDir: '' };
+
+  /**
+   * 拆分文档，按原文顺序输出各部分
+   */
+  async split(inputPath: string, options: SplitDocumentOptions): Promise<SplitDocumentResult> {
+    try {
+      this.options = options;
+      const extension = path.extname(inputPath).toLowerCase();
+      const level = Math.min(Math.max(Math.floor(options.level ?? 1), 1), 9);
+      const mode: SplitMode =
+        options.mode ??
+        (extension === '.pdf' ? (options.pages ? 'pages' : 'bookmarks') : 'heading');
+      if (extension !== '.pdf' && mode !== 'heading') {
+        throw new Error('只有 PDF 支持按页码范围或书签拆分，DOCX 和 Markdown 按标题拆分');
+      }
+      if (extension === '.pdf' && mode === 'heading') {
+        throw new Error('PDF 请按页码范围（pages）或书签（bookmarks）拆分');
+      }
+
+      if (this.options.debug) {
+        console.log('🚀 开始拆分文档...');
+        console.log('📄 输入文件:', inputPath, `(${mode})`);
+      }
+
+      const outputDir: string = validateAndSanitizePath(options.outputDir, []);
+      await fs.mkdir(outputDir, { recursive: true });
+
+      let parts: SplitPart[];
+      switch (extension) {
+        case '.docx':
+          parts = await this.splitDocx(inputPath, level, outputDir);
+          break;
+        case '.md':
+        case '.markdown':
+          parts = await this.splitMarkdown(inputPath, level, outputDir);
+          break;
+        case '.pdf':
+          parts = await this.splitPdf(inputPath, mode, level, outputDir);
+          break;
+        default:
+          throw new Error(`不支持拆分 ${extension || '无扩展名'} 文件，支持 DOCX、Markdown 和 PDF`);
+      }
+
+      if (this.options.debug) {
+        console.log(`✅ 已拆分为 ${parts.length} 个文件:`, outputDir);
+      }
+      return {
+        success: true,
+        parts,
+        metadata: {
+          inputPath,
+          mode,
+          level: mode === 'pages' ? undefined : level,
+          partCount: parts.length,
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ 文档拆分失败:', error.message);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * 按 ATX 标题（# 开头）拆分 Markdown；引用式链接和脚注定义复制到用到它们的部分
+   */
+  private async splitMarkdown(
+    inputPath: string,
+    level: number,
+    outputDir: string
+  ): Promise<SplitPart[]> {
+    const lines = (await fs.readFile(inputPath, 'utf-8')).split('\n');
+    const starts: Array<{ line: number; title: string }> = [];
+    const definitions = new Map<string, string>();
+    let fence: string | undefined;
+    lines.forEach((line, index) => {
+      const marker = FENCE_PATTERN.exec(line)?.[1];
+      if (marker && (!fence || marker.startsWith(fence))) {
+        fence = fence ? undefined : marker;
+        return;
+      }
+      if (fence) return;
+      const heading = HEADING_PATTERN.exec(line);
+      if (heading && heading[1].length <= level) {
+        starts.push({ line: index, title: (heading[2] ?? '').trim() });
+      }
+      const definition = DEFINITION_PATTERN.exec(line);
+      if (definition) definitions.set(definition[1].toLowerCase(), line);
+    });
+
+    const ranges = rangesFrom(
+      starts.map(start => ({ at: start.line, title: start.title })),
+      lines.length,
+      path.basename(inputPath, path.extname(inputPath)),
+      start => lines.slice(0, start).some(line => line.trim())
+    );
+
+    const parts: SplitPart[] = [];
+    for (const [index, range] of ranges.entries()) {
+      let markdown = lines.slice(range.start, range.end).join('\n').trim();
+      const missing = Array.from(definitions)
+        .filter(([label, line]) => {
+          const escaped = label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+          return (
+            !markdown.includes(line) && new RegExp(`\\[${escaped}\\](?!:)`, 'i').test(markdown)
+          );
+        })
+        .map(([, line]) => line);
+      if (missing.length > 0) markdown += '\n\n' + missing.join('\n');
+
+      const outputPath = this.partPath(
+        inputPath,
+        outputDir,
+        index,
+        ranges.length,
+        range.title,
+        '.md'
+      );
+      markdown = rebaseMarkdownLinks(markdown, path.dirname(inputPath), outputDir);
+      await fs.writeFile(outputPath, markdown + '\n', 'utf-8');
+      parts.push({ title: range.title, outputPath });
+    }
+    return parts;
+  }
+
+  /**
+   * 按大纲级别不超过 level 的标题段落拆分 DOCX，每部分是原文档包的副本，只替换正文
+   */
+  private async splitDocx(
+    inputPath: string,
+    level: number,
+    outputDir: string
+  ): Promise<SplitPart[]> {
+    const data = await fs.readFile(inputPath);
+    const zip = await loadDocx(inputPath);
+    const mainPart = await mainPartOf(zip);
+    const xml = await readPart(zip, mainPart);
+    const layout = splitBody(xml);
+    const children = childElements(xml, layout.bodyStart, layout.bodyStart + layout.body.length);
+
+    const stylesPart = await relatedPart(zip, mainPart, 'styles');
+    const outlineLevels = headingLevels(stylesPart ? await readPart(zip, stylesPart) : '');
+    const starts: Array<{ at: number; title: string }> = [];
+    children.forEach((child, index) => {
+      if (child.name !== 'w:p') return;
+      const paragraph = xml.slice(child.start, child.end);
+      const outline = paragraphOutlineLevel(paragraph, outlineLevels);
+      if (outline !== undefined && outline < level) {
+        starts.push({ at: index, title: paragraphText(paragraph).trim() });
+      }
+    });
+
+    const hasContent = (end: number) =>
+      children
+        .slice(0, end)
+        .some(child => /<w:(t|drawing|pict|object)\b/.test(xml.slice(child.start, child.end)));
+    const ranges = rangesFrom(
+      starts,
+      children.length,
+      path.basename(inputPath, path.extname(inputPath)),
+      hasContent
+    );
+
+    // 每个元素适用的节属性：位于其后的第一个段落级 sectPr，最后一节使用正文末尾的 sectPr
+    const sections = children.map(child =>
+      child.name === 'w:p' ? paragraphSection(xml.slice(child.start, child.end)) : undefined
+    );
+
+    const parts: SplitPart[] = [];
+    for (const [index, range] of ranges.entries()) {
+      const content = children
+        .slice(range.start, range.end)
+        .map(child => xml.slice(child.start, child.end));
+      let sectPr = layout.sectPr;
+      const sectionAt = sections.findIndex((section, at) => at >= range.end - 1 && section);
+      if (sectionAt >= 0) {
+        sectPr = sections[sectionAt]!;
+        // 最后一个元素自带的节属性移到正文末尾
+        if (sectionAt === range.end - 1) {
+          content[content.length - 1] = content[content.length - 1].replace(sectPr, '');
+        }
+      }
+      const documentXml =
+        xml.slice(0, layout.bodyStart) + content.join('') + sectPr + xml.slice(layout.bodyEnd);
+
+      const part = await JSZip.loadAsync(data);
+      part.file(mainPart, documentXml);
+      await prunePackage(part, mainPart, documentXml);
+      const outputPath = this.partPath(
+        inputPath,
+        outputDir,
+        index,
+        ranges.length,
+        range.title,
+        '.docx'
+      );
+      await fs.writeFile(
+        outputPath,
+        await part.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+      );
+      parts.push({ title: range.title, outputPath });
+    }
+    return parts;
+  }
+
+  /**
+   * 按页码范围或书签拆分 PDF
+   */
+  private async splitPdf(
+    inputPath: string,
+    mode: SplitMode,
+    level: number,
+    outputDir: string
+  ): Promise<SplitPart[]> {
+    const source = await PDFDocument.load(await fs.readFile(inputPath));
+    const pageCount = source.getPageCount();
+    const baseName = path.basename(inputPath, path.extname(inputPath));
+
+    let ranges: SplitRange[];
+    if (mode === 'pages') {
+      ranges = parsePageRanges(this.options.pages ?? '', pageCount).map(range => ({
+        title: `${baseName} ${formatPageRange(range)}`,
+        start: range.start,
+        end: range.end + 1,
+      }));
+    } else {
+      const bookmarks = readPdfOutline(source).filter(
+        bookmark => bookmark.level <= level && bookmark.pageIndex !== undefined
+      );
+      if (bookmarks.length === 0) {
+        throw new Error('PDF 中没有可用的书签，请通过 pages 指定页码范围拆分');
+      }
+      // 书签按页码排序，同一页上的多个书签只取第一个
+      const starts = bookmarks
+        .map((bookmark, order) => ({ at: bookmark.pageIndex!, title: bookmark.title, order }))
+        .sort((a, b) => a.at - b.at || a.order - b.order)
+        .filter((start, index, all) => index === 0 || start.at !== all[index - 1].at);
+      ranges = rangesFrom(starts, pageCount, baseName, end => end > 0);
+    }
+
+    const author = source.getAuthor();
+    const parts: SplitPart[] = [];
+    for (const [index, range] of ranges.entries()) {
+      const output = await PDFDocument.create();
+      const indices = Array.from({ length: range.end - range.start }, (_, i) => range.start + i);
+      const pages = await output.copyPages(source, indices);
+      pages.forEach(page => output.addPage(page));
+      output.setTitle(range.title);
+      if (author) output.setAuthor(author);
+
+      const outputPath =
+        mode === 'pages'
+          ? path.join(
+              outputDir,
+              `${baseName}_p${formatPageRange({ start: range.start, end: range.end - 1 })}.pdf`
+            )
+          : this.partPath(inputPath, outputDir, index, ranges.length, range.title, '.pdf');
+      await fs.writeFile(outputPath, await output.save());
+      parts.push({
+        title: range.title,
+        outputPath,
+        pages: formatPageRange({ start: range.start, end: range.end - 1 }),
+      });
+    }
+    return parts;
+  }
+
+  /**
+   * 部分的输出文件名：原文件名_序号_标题
+   */
+  private partPath(
+    inputPath: string,
+    outputDir: string,
+    index: number,
+    count: number,
+    title: string,
+    extension: string
+  ): string {
+    const baseName = path.basename(inputPath, path.extname(inputPath));
+    const number = String(index + 1).padStart(Math.max(2, String(count).length), '0');
+    const slug = title
+      .replace(/[\\/:*?"<>|\s]+/g, '-')
+      .replace(/^[-.]+|[-.]+$/g, '')
+      .slice(0, MAX_TITLE_LENGTH)
+      .replace(/-+$/, '');
+    return path.join(outputDir, `${baseName}_${number}${slug ? `_${slug}` : ''}${extension}`);
+  }
+}
+
+/**
+ * 由拆分点得到各部分的范围；第一个拆分点之前有内容时作为单独的开头部分，标题取文件名
+ */
+function rangesFrom(
+  starts: Array<{ at: number; title: string }>,
+  total: number,
+  leadingTitle: string,
+  hasLeadingContent: (end: number) => boolean
+): SplitRange[] {
+  if (starts.length === 0) return [{ title: leadingTitle, start: 0, end: total }];
+  const ranges: SplitRange[] = starts.map((start, index) => ({
+    title: start.title || leadingTitle,
+    start: start.at,
+    end: index + 1 < starts.length ? starts[index + 1].at : total,
+  }));
+  if (starts[0].at > 0) {
+    if (hasLeadingContent(starts[0].at)) {
+      ranges.unshift({ title: leadingTitle, start: 0, end: starts[0].at });
+    } else {
+      ranges[0].start = 0;
+    }
+  }
+  return ranges;
+}
+
+/**
+ * 解析页码范围："1-3,5,7-" 表示第 1 至 3 页、第 5 页、第 7 页至末页，"-3" 表示第 1 至 3 页
+ */
+function parsePageRanges(spec: string, pageCount: number): PageRange[] {
+  const ranges: PageRange[] = [];
+  for (const item of spec
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean)) {
+    const match = /^(\d*)\s*(-?)\s*(\d*)$/.exec(item);
+    if (!match || (!match[1] && !match[3])) {
+      throw new Error(`无效的页码范围: ${item}`);
+    }
+    const start = match[1] ? parseInt(match[1], 10) : 1;
+    const end = match[3] ? parseInt(match[3], 10) : match[2] ? pageCount : start;
+    if (start < 1 || end > pageCount || start > end) {
+      throw new Error(`页码范围 ${item} 超出文档页数（共 ${pageCount} 页）`);
+    }
+    ranges.push({ start: start - 1, end: end - 1 });
+  }
+  if (ranges.length === 0) {
+    throw new Error('未指定页码范围');
+  }
+  return ranges;
+}
+
+function formatPageRange(range: PageRange): string {
+  return range.start === range.end ? `${range.start + 1}` : `${range.start + 1}-${range.end + 1}`;
+}
+
+/**
+ * 样式的大纲级别（从 0 开始）：样式自身或 basedOn 链上的 outlineLvl，其次按 heading N 名称推断
+ */
+function headingLevels(stylesXml: string): Map<string, number> {
+  const styles = new Map(parseStyles(stylesXml).map(style => [style.id, style]));
+  const levels = new Map<string, number>();
+  const resolve = (id: string, depth: number): number | undefined => {
+    const style = styles.get(id);
+    if (!style || depth > 10) return undefined;
+    const outline = /<w:outlineLvl\b[^>]*?\sw:val="(\d+)"/.exec(style.xml);
+    if (outline) return parseInt(outline[1], 10);
+    const named = /^heading\s*(\d)$/i.exec(style.name);
+    if (named) return parseInt(named[1], 10) - 1;
+    const basedOn = /<w:basedOn\b[^>]*?\sw:val="([^"]*)"/.exec(style.xml)?.[1];
+    return basedOn ? resolve(basedOn, depth + 1) : undefined;
+  };
+  for (const id of styles.keys()) {
+    const level = resolve(id, 0);
+    // 9 表示正文级别
+    if (level !== undefined && level < 9) levels.set(id, level);
+  }
+  // 没有样式定义时（如部分程序生成的文档）按 Heading1 这类 styleId 推断
+  for (let level = 1; level <= 9; level++) {
+    if (!styles.has(`Heading${level}`)) levels.set(`Heading${level}`, level - 1);
+  }
+  return levels;
+}
+
+function paragraphProperties(paragraph: string): string {
+  return /^<w:p\b[^>]*>\s*<w:pPr\b[^>]*>([\s\S]*?)<\/w:pPr>/.exec(paragraph)?.[1] ?? '';
+}
+
+function paragraphOutlineLevel(paragraph: string, levels: Map<string, number>): number | undefined {
+  const properties = paragraphProperties(paragraph);
+  const outline = /<w:outlineLvl\b[^>]*?\sw:val="(\d+)"/.exec(properties);
+  if (outline) {
+    const level = parseInt(outline[1], 10);
+    return level < 9 ? level : undefined;
+  }
+  const style = /<w:pStyle\b[^>]*?\sw:val="([^"]*)"/.exec(properties)?.[1];
+  return style ? levels.get(style) : undefined;
+}
+
+function paragraphSection(paragraph: string): string | undefined {
+  return /<w:sectPr\b[^>]*?(?:\/>|>[\s\S]*?<\/w:sectPr>)/.exec(paragraphProperties(paragraph))?.[0];
+}
+
+function paragraphText(paragraph: string): string {
+  return Array.from(paragraph.matchAll(/<w:t\b[^>]*>([^<]*)<\/w:t>/g), match => match[1])
+    .join('')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * 清理拆分后的包：去掉正文不再引用的关系，删除不可达的部件和未引用的脚注尾注
+ */
+async function prunePackage(zip: any, mainPart: string, documentXml: string): Promise<void> {
+  const referenced = new Set(
+    Array.from(documentXml.matchAll(/\s(?:r:[A-Za-z]+|o:relid)="([^"]*)"/g), match => match[1])
+  );
+  const relsPart = relsPartOf(mainPart);
+  const relsXml: string | undefined = await zip.file(relsPart)?.async('string');
+  if (relsXml) {
+    zip.file(
+      relsPart,
+      relsXml.replace(/<Relationship\b[^>]*>/g, (entry: string) => {
+        const type = (attributeOf(entry, 'Type') ?? '').split('/').pop() ?? '';
+        const id = attributeOf(entry, 'Id') ?? '';
+        return DOCUMENT_LEVEL_RELATIONSHIPS.has(type) || referenced.has(id) ? entry : '';
+      })
+    );
+  }
+
+  for (const kind of ['footnote', 'endnote']) {
+    const notesPart = await relatedPart(zip, mainPart, `${kind}s`);
+    if (!notesPart) continue;
+    const ids = new Set(
+      Array.from(
+        documentXml.matchAll(new RegExp(`<w:${kind}Reference\\b[^>]*?\\sw:id="([^"]*)"`, 'g')),
+        match => match[1]
+      )
+    );
+    const notesXml = await readPart(zip, notesPart);
+    zip.file(
+      notesPart,
+      notesXml.replace(
+        new RegExp(`<w:${kind}\\b[^>]*?(?:\\/>|>[\\s\\S]*?<\\/w:${kind}>)`, 'g'),
+        (note: string) => {
+          const open = note.slice(0, note.indexOf('>'));
+          const type = attributeOf(open, 'w:type');
+          return (type && type !== 'normal') || ids.has(attributeOf(open, 'w:id') ?? '')
+            ? note
+            : '';
+        }
+      )
+    );
+  }
+
+  // 从包关系出发标记可达部件，其余部件（及其关系文件）删除
+  const reachable = new Set<string>();
+  const queue = (await relationshipsOf(zip, ''))
+    .filter(rel => !rel.external)
+    .map(rel => rel.target);
+  while (queue.length > 0) {
+    const part = queue.pop()!;
+    if (reachable.has(part)) continue;
+    reachable.add(part);
+    for (const rel of await relationshipsOf(zip, part)) {
+      if (!rel.external) queue.push(rel.target);
+    }
+  }
+  let contentTypes: string = await readPart(zip, '[Content_Types].xml');
+  for (const name of Object.keys(zip.files)) {
+    if (zip.files[name].dir || name === '[Content_Types].xml' || name === '_rels/.rels') continue;
+    const owner = name.replace(/(^|\/)_rels\/([^/]+)\.rels$/, '$1$2');
+    if (reachable.has(name) || (owner !== name && reachable.has(owner))) continue;
+    zip.remove(name);
+    contentTypes = contentTypes.replace(
+      new RegExp(
+        `<Override\\b[^>]*?\\sPartName="/${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}"[^>]*>`
+      ),
+      ''
+    );
+  }
+  zip.file('[Content_Types].xml', contentTypes);
+}
+
+/**
+ * 便捷函数：拆分文档
+ */
+export async function splitDocument(
+  inputPath: string,
+  options: SplitDocumentOptions
+): Promise<SplitDocumentResult> {
+  const splitter = new DocumentSplitter();
+  return await splitter.split(inputPath, options);
+}
+
+export {
+  DocumentSplitter,
+  SplitMode,
+  SplitDocumentOptions,
+  SplitDocumentResult,
+  SplitPart,
+  PageRange,
+  parsePageRanges,
+  formatPageRange,
+};
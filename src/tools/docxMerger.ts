@@ -0,0 +1,1128 @@
+/**
+ * DOCX 合并
+ * 按顺序把多个 .docx 拼接为一个文档，每个来源文档成为独立的节，保留各自的页面设置和页眉页脚。
+ * 图片、超链接、页眉页脚等关联部件复制后重新命名，样式、列表编号、脚注尾注、书签和绘图编号统一协调。
+ * 直接在部件 XML 上拼接，第一个文档的设置、主题、字体表和默认格式作为合并结果的基础
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { validateAndSanitizePath } from '../security/securityConfig';
+
+type StyleMode = 'destination' | 'source';
+type SectionBreak = 'nextPage' | 'continuous';
+type NoteKind = 'footnote' | 'endnote';
+
+interface DocxMergeOptions {
+  outputPath?: string;
+  // 同名样式定义不同时：destination 统一使用第一个文档的定义，source 保留来源定义并重命名
+  styleMode?: StyleMode;
+  sectionBreak?: SectionBreak; // 来源文档之间的分节方式，默认从新页开始
+  debug?: boolean;
+}
+
+interface DocxMergeResult {
+  success: boolean;
+  content?: Buffer;
+  outputPath?: string;
+  metadata?: {
+    inputs: string[];
+    sections: number;
+    stylesAdded: number;
+    stylesRenamed: number;
+    numberingDefinitions: number;
+    notesCopied: number;
+    partsCopied: number;
+    commentsRemoved: number;
+  };
+  error?: string;
+}
+
+interface Relationship {
+  id: string;
+  type: string;
+  target: string; // 内部关系为包内部件路径（不带前导 /），外部关系为原始地址
+  external: boolean;
+}
+
+// 父元素内容中的一个直接子元素
+interface XmlChild {
+  name: string;
+  start: number;
+  end: number;
+}
+
+interface StyleDefinition {
+  id: string;
+  name: string;
+  type: string;
+  isDefault: boolean;
+  xml: string;
+}
+
+// 需要加入合并结果的来源样式
+interface StyleAddition {
+  style: StyleDefinition;
+  id: string;
+  renamed: boolean; // 与已有样式同名但定义不同
+}
+
+// 合并过程中的一个来源文档及其编号映射
+interface SourceDocument {
+  zip: any;
+  ordinal: number; // 在输入列表中的序号（从 1 开始）
+  mainPart: string;
+  contentTypes: string;
+  styleIds: Map<string, string>;
+  defaultParagraphStyle?: string; // source 模式下需要显式应用的来源默认段落样式
+  numIds: Map<string, string>;
+  noteIds: Record<NoteKind, Map<string, string>>;
+  bookmarkIds: Map<string, string>;
+  bookmarkNames: Map<string, string>;
+  copiedParts: Map<string, string>;
+}
+
+const RELATIONSHIP_TYPES = {
+  styles: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles',
+  numbering: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering',
+  footnotes: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/footnotes',
+  endnotes: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/endnotes',
+};
+const CONTENT_TYPES = {
+  styles: 'application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml',
+  numbering: 'application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml',
+  footnotes: 'application/vnd.openxmlformats-officedocument.wordprocessingml.footnotes+xml',
+  endnotes: 'application/vnd.openxmlformats-officedocument.wordprocessingml.endnotes+xml',
+};
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// 页眉页脚复制后同样需要协调样式、编号和书签
+const CONTENT_PART_PATTERN = /^word\/(header|footer)\d*\.xml$/;
+// r:id、r:embed 等关系引用，以及 VML 图片的 o:relid
+const RELATIONSHIP_REFERENCE_PATTERN = /(\s(?:r:[A-Za-z]+|o:relid)=")([^"]*)"/g;
+const XML_TAG_PATTERN = /<(\/?)([A-Za-z_][\w:.-]*)[^>]*?(\/?)>/g;
+const STYLE_PATTERN = /<w:style\b[^>]*?(?:\/>|>[\s\S]*?<\/w:style>)/g;
+const STYLE_REFERENCE_PATTERN =
+  /(<w:(?:pStyle|rStyle|tblStyle|basedOn|link|next|numStyleLink|styleLink)\b[^>]*?\sw:val=")([^"]*)"/g;
+// sectPr 中位于 w:type 之前的子元素
+const SECTION_LEADING_CHILDREN = [
+  'w:headerReference',
+  'w:footerReference',
+  'w:footnotePr',
+  'w:endnotePr',
+];
+
+/**
+ * DOCX 合并器类
+ */
+class DocxMerger {
+  private options: DocxMergeOptions = {};
+  private zip: any; // 合并结果，以第一个文档为基础
+  private mainPart = 'word/document.xml';
+  private documentXml = '';
+  private contentTypes = '';
+  private pendingRelationships = new Map<string, string[]>();
+  private createdParts = new Map<string, string>(); // 新建的部件，关系写出前 relatedPart 查不到
+  private relationshipPrefixes = new Map<string, string>();
+  private relationshipCounts = new Map<string, number>();
+  private nextDrawingId = 1;
+  private nextBookmarkId = 0;
+  private bookmarkNames = new Set<string>();
+  private nsids = new Set<string>();
+  private stats = {
+    stylesAdded: 0,
+    stylesRenamed: 0,
+    numberingDefinitions: 0,
+    notesCopied: 0,
+    partsCopied: 0,
+    commentsRemoved: 0,
+  };
+
+  /**
+   * 按顺序合并多个 DOCX 文件
+   */
+  async merge(inputPaths: string[], options: DocxMergeOptions = {}): Promise<DocxMergeResult> {
+    try {
+      this.options = options;
+      this.pendingRelationships.clear();
+      this.createdParts.clear();
+      this.relationshipPrefixes.clear();
+      this.relationshipCounts.clear();
+      this.bookmarkNames.clear();
+      this.nsids.clear();
+      this.stats = {
+        stylesAdded: 0,
+        stylesRenamed: 0,
+        numberingDefinitions: 0,
+        notesCopied: 0,
+        partsCopied: 0,
+        commentsRemoved: 0,
+      };
+
+      if (inputPaths.length === 0) {
+        throw new Error('至少需要一个 DOCX 文件');
+      }
+      if (this.options.debug) {
+        console.log('🚀 开始合并 DOCX 文档...');
+        console.log('📄 输入文件:', inputPaths.join(', '));
+      }
+
+      this.zip = await loadDocx(inputPaths[0]);
+      this.mainPart = await mainPartOf(this.zip);
+      this.contentTypes = await readPart(this.zip, '[Content_Types].xml');
+      this.documentXml = await readPart(this.zip, this.mainPart);
+      await this.scanTargetIds();
+
+      const first = splitBody(this.documentXml);
+      const bodies = [first.body];
+      let sectPr = first.sectPr;
+      for (let index = 1; index < inputPaths.length; index++) {
+        if (this.options.debug) {
+          console.log(`📝 合并第 ${index + 1} 个文档:`, path.basename(inputPaths[index]));
+        }
+        const source = await this.loadSource(inputPaths[index], index + 1);
+        const imported = await this.importDocument(source);
+        // 前一个文档的节属性移到其最后一个段落上，成为独立的一节
+        bodies.push(
+          sectPr
+            ? `<w:p><w:pPr>${sectPr}</w:pPr></w:p>`
+            : '<w:p><w:r><w:br w:type="page"/></w:r></w:p>'
+        );
+        bodies.push(imported.body);
+        sectPr = imported.sectPr;
+      }
+
+      // 合并命名空间会改变根元素，正文范围需要重新定位
+      const layout = splitBody(this.documentXml);
+      this.documentXml =
+        this.documentXml.slice(0, layout.bodyStart) +
+        bodies.join('') +
+        sectPr +
+        this.documentXml.slice(layout.bodyEnd);
+      this.zip.file(this.mainPart, this.documentXml);
+      await this.flushRelationships();
+      this.zip.file('[Content_Types].xml', this.contentTypes);
+
+      const buffer: Buffer = await this.zip.generateAsync({
+        type: 'nodebuffer',
+        compression: 'DEFLATE',
+      });
+
+      let outputPath: string | undefined;
+      if (this.options.outputPath) {
+        outputPath = validateAndSanitizePath(this.options.outputPath, []);
+        await fs.mkdir(path.dirname(outputPath!), { recursive: true });
+        await fs.writeFile(outputPath!, buffer);
+
+        if (this.options.debug) {
+          console.log('✅ 合并后的文档已保存:', outputPath);
+        }
+      }
+      if (this.options.debug) {
+        console.log('📊 合并统计:', this.stats);
+      }
+
+      return {
+        success: true,
+        content: buffer,
+        outputPath,
+        metadata: {
+          inputs: inputPaths,
+          sections: (this.documentXml.match(/<w:sectPr\b/g) ?? []).length,
+          ...this.stats,
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ DOCX 合并失败:', error.message);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * 记录基础文档中已使用的绘图、书签编号和列表 nsid，新内容从其后编号
+   */
+  private async scanTargetIds(): Promise<void> {
+    this.nextDrawingId = 1;
+    this.nextBookmarkId = 0;
+    for (const name of Object.keys(this.zip.files)) {
+      if (!/^word\/[^/]+\.xml$/.test(name)) continue;
+      const xml = await readPart(this.zip, name);
+      for (const match of xml.matchAll(/<wp:docPr\b[^>]*?\sid="(\d+)"/g)) {
+        this.nextDrawingId = Math.max(this.nextDrawingId, parseInt(match[1], 10) + 1);
+      }
+      for (const match of xml.matchAll(/<w:bookmarkStart\b[^>]*>/g)) {
+        const id = parseInt(attributeOf(match[0], 'w:id') ?? '', 10);
+        if (!isNaN(id)) this.nextBookmarkId = Math.max(this.nextBookmarkId, id + 1);
+        const name = attributeOf(match[0], 'w:name');
+        if (name) this.bookmarkNames.add(name);
+      }
+      for (const match of xml.matchAll(/<w:nsid\b[^>]*?\sw:val="([^"]*)"/g)) {
+        this.nsids.add(match[1].toUpperCase());
+      }
+    }
+  }
+
+  private async loadSource(inputPath: string, ordinal: number): Promise<SourceDocument> {
+    const zip = await loadDocx(inputPath);
+    return {
+      zip,
+      ordinal,
+      mainPart: await mainPartOf(zip),
+      contentTypes: await readPart(zip, '[Content_Types].xml'),
+      styleIds: new Map(),
+      numIds: new Map(),
+      noteIds: { footnote: new Map(), endnote: new Map() },
+      bookmarkIds: new Map(),
+      bookmarkNames: new Map(),
+      copiedParts: new Map(),
+    };
+  }
+
+  /**
+   * 导入一个来源文档，返回协调后的正文内容和最后一节的节属性
+   */
+  private async importDocument(source: SourceDocument): Promise<{ body: string; sectPr: string }> {
+    const xml = await readPart(source.zip, source.mainPart);
+    this.documentXml = mergeNamespaces(this.documentXml, xml);
+    const layout = splitBody(xml);
+
+    // 样式编号先于列表编号确定（numStyleLink 引用样式），样式定义中的 numPr 又引用列表编号
+    const styles = await this.planStyles(source);
+    await this.importNumbering(source);
+    await this.writeStyles(source, styles);
+    await this.importNotes(source, 'footnote');
+    await this.importNotes(source, 'endnote');
+
+    let body = this.transformContent(source, layout.body);
+    let sectPr = this.transformContent(source, layout.sectPr);
+    body = await this.importRelationships(source, source.mainPart, body, this.mainPart);
+    sectPr = await this.importRelationships(source, source.mainPart, sectPr, this.mainPart);
+
+    // 分节方式写在来源文档的第一个节属性上，它决定该文档从哪里开始
+    const break_ = this.options.sectionBreak ?? 'nextPage';
+    const firstSection = /<w:sectPr\b[^>]*?(?:\/>|>[\s\S]*?<\/w:sectPr>)/.exec(body);
+    if (firstSection) {
+      body =
+        body.slice(0, firstSection.index) +
+        withSectionType(firstSection[0], break_) +
+        body.slice(firstSection.index + firstSection[0].length);
+    } else if (sectPr) {
+      sectPr = withSectionType(sectPr, break_);
+    }
+    return { body, sectPr };
+  }
+
+  /**
+   * 确定来源文档中用到的样式如何映射到合并结果：
+   * 按 styleId 或样式名称（如 heading 1）匹配已有样式，新样式原样加入，
+   * source 模式下定义不同的同名样式以新的 styleId 加入
+   */
+  private async planStyles(source: SourceDocument): Promise<StyleAddition[]> {
+    const sourcePart = await relatedPart(source.zip, source.mainPart, 'styles');
+    if (!sourcePart) return [];
+    const sourceXml = await readPart(source.zip, sourcePart);
+    // 基础文档没有样式部件时新建一个空的样式表，来源的样式全部作为新样式加入
+    const targetPart =
+      (await this.targetPart('styles')) ??
+      this.createPart(
+        'word/styles.xml',
+        'styles',
+        rootElementOf(sourceXml, 'w:styles') + '</w:styles>'
+      );
+
+    const sourceStyles = parseStyles(sourceXml);
+    const targetXml = await readPart(this.zip, targetPart);
+    const targetStyles = parseStyles(targetXml);
+    const targetById = new Map(targetStyles.map(style => [style.id, style]));
+    const targetByName = new Map(targetStyles.map(style => [style.name.toLowerCase(), style]));
+    const byId = new Map(sourceStyles.map(style => [style.id, style]));
+
+    // 来源内容实际引用的样式及其 basedOn/link/next 链
+    const needed = new Set<string>();
+    const queue = await this.referencedStyles(source);
+    for (const style of sourceStyles) {
+      if (style.isDefault) queue.push(style.id);
+    }
+    while (queue.length > 0) {
+      const id = queue.pop()!;
+      const style = byId.get(id);
+      if (!style || needed.has(id)) continue;
+      needed.add(id);
+      for (const match of style.xml.matchAll(STYLE_REFERENCE_PATTERN)) queue.push(match[2]);
+    }
+
+    const mode = this.options.styleMode ?? 'destination';
+    const usedIds = new Set(targetStyles.map(style => style.id));
+    const added: StyleAddition[] = [];
+    for (const style of sourceStyles) {
+      if (!needed.has(style.id)) continue;
+      const match = targetById.get(style.id) ?? targetByName.get(style.name.toLowerCase());
+      const compatible = match && match.type === style.type;
+      if (compatible && (mode === 'destination' || sameDefinition(style, match!))) {
+        source.styleIds.set(style.id, match!.id);
+        continue;
+      }
+
+      let id = style.id;
+      if (usedIds.has(id)) {
+        id = `${style.id}_${source.ordinal}`;
+        for (let suffix = 2; usedIds.has(id); suffix++)
+          id = `${style.id}_${source.ordinal}_${suffix}`;
+      }
+      usedIds.add(id);
+      source.styleIds.set(style.id, id);
+      added.push({ style, id, renamed: Boolean(match) });
+      if (match) {
+        this.stats.stylesRenamed++;
+      } else {
+        this.stats.stylesAdded++;
+      }
+    }
+
+    // 来源的默认段落样式被重命名时，未指定样式的段落需要显式使用它
+    const sourceDefault = sourceStyles.find(s => s.isDefault && s.type === 'paragraph');
+    const targetDefault = targetStyles.find(s => s.isDefault && s.type === 'paragraph');
+    const mapped = sourceDefault && source.styleIds.get(sourceDefault.id);
+    if (mapped && mapped !== targetDefault?.id) {
+      source.defaultParagraphStyle = mapped;
+    }
+    return added;
+  }
+
+  /**
+   * 来源文档正文、页眉页脚、脚注尾注和列表定义中引用的样式
+   */
+  private async referencedStyles(source: SourceDocument): Promise<string[]> {
+    const ids: string[] = [];
+    const parts = Object.keys(source.zip.files).filter(
+      name =>
+        name === source.mainPart ||
+        CONTENT_PART_PATTERN.test(name) ||
+        /^word\/(footnotes|endnotes|numbering)\.xml$/.test(name)
+    );
+    for (const part of parts) {
+      const xml = await readPart(source.zip, part);
+      for (const match of xml.matchAll(STYLE_REFERENCE_PATTERN)) ids.push(match[2]);
+    }
+    return ids;
+  }
+
+  private async writeStyles(source: SourceDocument, styles: StyleAddition[]): Promise<void> {
+    if (styles.length === 0) return;
+    const targetPart = (await this.targetPart('styles'))!;
+    const sourcePart = (await relatedPart(source.zip, source.mainPart, 'styles'))!;
+    const additions = styles.map(({ style, id, renamed }) => {
+      // 第一个文档已有默认样式，来源的默认标记去掉
+      let xml = style.xml
+        .replace(/(\sw:styleId=")[^"]*"/, `$1${id}"`)
+        .replace(/\sw:default="[^"]*"/, '');
+      if (renamed) {
+        // 重命名的样式在名称后标注来源文档序号，避免样式列表中出现重名
+        xml = xml.replace(
+          /(<w:name\b[^>]*?\sw:val=")([^"]*)"/,
+          (_, head, name) => `${head}${name} (${source.ordinal})"`
+        );
+      }
+      return this.remapNumbering(source, remapStyles(source, xml));
+    });
+
+    let xml = await readPart(this.zip, targetPart);
+    xml = mergeNamespaces(xml, await readPart(source.zip, sourcePart));
+    this.zip.file(targetPart, xml.replace('</w:styles>', `${additions.join('')}</w:styles>`));
+  }
+
+  /**
+   * 导入来源文档的列表编号定义：abstractNum 和 num 编号顺延，nsid 重新生成，
+   * 使各文档的列表保持独立编号
+   */
+  private async importNumbering(source: SourceDocument): Promise<void> {
+    const sourcePart = await relatedPart(source.zip, source.mainPart, 'numbering');
+    if (!sourcePart) return;
+    const sourceXml = await readPart(source.zip, sourcePart);
+    const abstracts = Array.from(
+      sourceXml.matchAll(/<w:abstractNum\b[^>]*>[\s\S]*?<\/w:abstractNum>/g),
+      match => match[0]
+    );
+    const nums = Array.from(
+      sourceXml.matchAll(/<w:num\b[^>]*>[\s\S]*?<\/w:num>/g),
+      match => match[0]
+    );
+    if (nums.length === 0) return;
+
+    const targetPart =
+      (await this.targetPart('numbering')) ??
+      this.createPart(
+        'word/numbering.xml',
+        'numbering',
+        rootElementOf(sourceXml, 'w:numbering') + '</w:numbering>'
+      );
+    let targetXml = mergeNamespaces(await readPart(this.zip, targetPart), sourceXml);
+
+    let nextAbstractId =
+      maxAttribute(targetXml, /<w:abstractNum\b[^>]*?\sw:abstractNumId="(\d+)"/g) + 1;
+    let nextNumId = Math.max(maxAttribute(targetXml, /<w:num\b[^>]*?\sw:numId="(\d+)"/g), 0) + 1;
+    const abstractIds = new Map<string, string>();
+    const newAbstracts = abstracts.map(xml => {
+      const id = String(nextAbstractId++);
+      abstractIds.set(attributeOf(xml, 'w:abstractNumId') ?? '', id);
+      return remapStyles(
+        source,
+        xml
+          .replace(/(\sw:abstractNumId=")[^"]*"/, `$1${id}"`)
+          .replace(/(<w:nsid\b[^>]*?\sw:val=")[^"]*"/, (_, head) => `${head}${this.createNsid()}"`)
+          // 图片项目符号依赖 numPicBullet 定义，这里不复制，退回为普通项目符号
+          .replace(/<w:lvlPicBulletId\b[^>]*\/>/g, '')
+      );
+    });
+    const newNums = nums.map(xml => {
+      const id = String(nextNumId++);
+      source.numIds.set(attributeOf(xml, 'w:numId') ?? '', id);
+      return xml
+        .replace(/(\sw:numId=")[^"]*"/, `$1${id}"`)
+        .replace(
+          /(<w:abstractNumId\b[^>]*?\sw:val=")([^"]*)"/,
+          (_, head, value) => `${head}${abstractIds.get(value) ?? value}"`
+        );
+    });
+
+    // abstractNum 必须位于所有 num 之前，num 位于 numIdMacAtCleanup 之前
+    const numAt = targetXml.search(/<w:num\b/);
+    const tailAt = targetXml.search(/<w:numIdMacAtCleanup\b|<\/w:numbering>/);
+    const abstractAt = numAt >= 0 ? numAt : tailAt;
+    targetXml =
+      targetXml.slice(0, abstractAt) +
+      newAbstracts.join('') +
+      targetXml.slice(abstractAt, tailAt) +
+      newNums.join('') +
+      targetXml.slice(tailAt);
+    this.zip.file(targetPart, targetXml);
+    this.stats.numberingDefinitions += newNums.length;
+  }
+
+  /**
+   * 导入来源文档的脚注或尾注，编号顺延；分隔符等特殊注释沿用基础文档的定义
+   */
+  private async importNotes(source: SourceDocument, kind: NoteKind): Promise<void> {
+    const partType = kind === 'footnote' ? 'footnotes' : 'endnotes';
+    const sourcePart = await relatedPart(source.zip, source.mainPart, partType);
+    if (!sourcePart) return;
+    const sourceXml = await readPart(source.zip, sourcePart);
+    const notePattern = new RegExp(`<w:${kind}\\b[^>]*?(?:\\/>|>[\\s\\S]*?<\\/w:${kind}>)`, 'g');
+    const notes = Array.from(sourceXml.matchAll(notePattern), match => match[0]).filter(xml => {
+      const type = attributeOf(xml.slice(0, xml.indexOf('>')), 'w:type');
+      return !type || type === 'normal';
+    });
+    if (notes.length === 0) return;
+
+    // 基础文档没有注释部件时，以来源部件的特殊注释（分隔符）为模板新建
+    const targetPart =
+      (await this.targetPart(partType)) ??
+      this.createPart(
+        `word/${partType}.xml`,
+        partType,
+        sourceXml.replace(notePattern, xml => (notes.includes(xml) ? '' : xml))
+      );
+    let targetXml = mergeNamespaces(await readPart(this.zip, targetPart), sourceXml);
+
+    let nextId =
+      maxAttribute(targetXml, new RegExp(`<w:${kind}\\b[^>]*?\\sw:id="(-?\\d+)"`, 'g')) + 1;
+    nextId = Math.max(nextId, 1);
+    const imported: string[] = [];
+    for (const note of notes) {
+      const id = String(nextId++);
+      source.noteIds[kind].set(attributeOf(note.slice(0, note.indexOf('>')), 'w:id') ?? '', id);
+      let xml = note.replace(/(\sw:id=")[^"]*"/, `$1${id}"`);
+      xml = this.transformContent(source, xml);
+      xml = await this.importRelationships(source, sourcePart, xml, targetPart);
+      imported.push(xml);
+    }
+    targetXml = targetXml.replace(`</w:${partType}>`, `${imported.join('')}</w:${partType}>`);
+    this.zip.file(targetPart, targetXml);
+    this.stats.notesCopied += imported.length;
+  }
+
+  /**
+   * 协调来源内容中的样式、列表编号、注释引用、书签和绘图编号，并移除批注标记
+   */
+  private transformContent(source: SourceDocument, xml: string): string {
+    if (!xml) return xml;
+    const commentRuns =
+      /<w:r\b[^>]*>(?:(?!<\/w:r>)[\s\S])*?<w:commentReference\b[^>]*\/>(?:(?!<\/w:r>)[\s\S])*?<\/w:r>/g;
+    this.stats.commentsRemoved += (xml.match(/<w:commentReference\b/g) ?? []).length;
+    let result = xml
+      .replace(commentRuns, '')
+      .replace(/<w:commentReference\b[^>]*\/>/g, '')
+      .replace(/<w:comment(?:RangeStart|RangeEnd)\b[^>]*\/>/g, '');
+
+    result = this.remapNumbering(source, remapStyles(source, result));
+    if (source.defaultParagraphStyle) {
+      result = applyParagraphStyle(result, source.defaultParagraphStyle);
+    }
+    for (const kind of ['footnote', 'endnote'] as NoteKind[]) {
+      const ids = source.noteIds[kind];
+      result = result.replace(
+        new RegExp(`(<w:${kind}Reference\\b[^>]*?\\sw:id=")([^"]*)"`, 'g'),
+        (_, head, id) => `${head}${ids.get(id) ?? id}"`
+      );
+    }
+    result = result.replace(
+      /(<wp:docPr\b[^>]*?\sid=")\d+"/g,
+      (_, head) => `${head}${this.nextDrawingId++}"`
+    );
+    return this.remapBookmarks(source, result);
+  }
+
+  private remapNumbering(source: SourceDocument, xml: string): string {
+    return xml.replace(/(<w:numId\b[^>]*?\sw:val=")([^"]*)"/g, (_, head, id) =>
+      id === '0' ? `${head}0"` : `${head}${source.numIds.get(id) ?? id}"`
+    );
+  }
+
+  /**
+   * 书签编号顺延；与已有书签重名时改名，并同步更新指向它的超链接和 REF/PAGEREF 域
+   */
+  private remapBookmarks(source: SourceDocument, xml: string): string {
+    for (const match of xml.matchAll(/<w:bookmarkStart\b[^>]*>/g)) {
+      const name = attributeOf(match[0], 'w:name');
+      if (!name || source.bookmarkNames.has(name)) continue;
+      let renamed = name;
+      for (let suffix = source.ordinal; this.bookmarkNames.has(renamed); suffix++) {
+        renamed = `${name}_${suffix}`;
+      }
+      this.bookmarkNames.add(renamed);
+      source.bookmarkNames.set(name, renamed);
+    }
+
+    const bookmarkId = (id: string) => {
+      if (!source.bookmarkIds.has(id)) source.bookmarkIds.set(id, String(this.nextBookmarkId++));
+      return source.bookmarkIds.get(id)!;
+    };
+    let result = xml.replace(/<w:bookmark(?:Start|End)\b[^>]*>/g, tag =>
+      tag
+        .replace(/(\sw:id=")([^"]*)"/, (_, head, id) => `${head}${bookmarkId(id)}"`)
+        .replace(
+          /(\sw:name=")([^"]*)"/,
+          (_, head, name) => `${head}${source.bookmarkNames.get(name) ?? name}"`
+        )
+    );
+
+    const renamed = Array.from(source.bookmarkNames).filter(([from, to]) => from !== to);
+    if (renamed.length === 0) return result;
+    const rename = (text: string) =>
+      renamed.reduce(
+        (current, [from, to]) =>
+          current.replace(new RegExp(`(^|\\s)${escapeRegExp(from)}(?=\\s|$)`, 'g'), `$1${to}`),
+        text
+      );
+    result = result
+      .replace(
+        /(<w:hyperlink\b[^>]*?\sw:anchor=")([^"]*)"/g,
+        (_, head, name) => `${head}${source.bookmarkNames.get(name) ?? name}"`
+      )
+      .replace(/(<w:instrText\b[^>]*>)([^<]*)</g, (_, head, text) => `${head}${rename(text)}<`)
+      .replace(
+        /(<w:fldSimple\b[^>]*?\sw:instr=")([^"]*)"/g,
+        (_, head, text) => `${head}${rename(text)}"`
+      );
+    return result;
+  }
+
+  /**
+   * 把内容中引用的关系（r:id、r:embed 等）登记到目标部件，关联的内部部件一并复制
+   */
+  private async importRelationships(
+    source: SourceDocument,
+    sourcePart: string,
+    xml: string,
+    targetPart: string
+  ): Promise<string> {
+    if (!xml) return xml;
+    const relationships = await relationshipsOf(source.zip, sourcePart);
+    const byId = new Map(relationships.map(rel => [rel.id, rel]));
+    const ids = new Map<string, string>();
+    for (const match of xml.matchAll(RELATIONSHIP_REFERENCE_PATTERN)) {
+      const rel = byId.get(match[2]);
+      if (!rel || ids.has(rel.id)) continue;
+      const id = await this.addRelationship(source, targetPart, rel);
+      ids.set(rel.id, id);
+    }
+    return xml.replace(RELATIONSHIP_REFERENCE_PATTERN, (token, head, id) =>
+      ids.has(id) ? `${head}${ids.get(id)}"` : token
+    );
+  }
+
+  private async addRelationship(
+    source: SourceDocument,
+    targetPart: string,
+    rel: Relationship
+  ): Promise<string> {
+    const key = `${source.ordinal}:${targetPart}`;
+    let prefix = this.relationshipPrefixes.get(key);
+    if (!prefix) {
+      const existing = (await this.zip.file(relsPartOf(targetPart))?.async('string')) ?? '';
+      prefix = `rIdMerge${source.ordinal}_`;
+      while (existing.includes(`Id="${prefix}`)) prefix += '_';
+      this.relationshipPrefixes.set(key, prefix);
+    }
+
+    const count = (this.relationshipCounts.get(key) ?? 0) + 1;
+    this.relationshipCounts.set(key, count);
+    const id = `${prefix}${count}`;
+    const pending = this.pendingRelationships.get(targetPart) ?? [];
+    this.pendingRelationships.set(targetPart, pending);
+    if (rel.external) {
+      pending.push(
+        `<Relationship Id="${id}" Type="${rel.type}" Target="${escapeAttribute(rel.target)}" TargetMode="External"/>`
+      );
+    } else {
+      const copied = await this.copyPart(source, rel.target);
+      const target = path.posix.relative(path.posix.dirname(targetPart), copied);
+      pending.push(
+        `<Relationship Id="${id}" Type="${rel.type}" Target="${escapeAttribute(target)}"/>`
+      );
+    }
+    return id;
+  }
+
+  /**
+   * 复制来源文档中的部件（及其关联部件），返回合并结果中的新部件名
+   */
+  private async copyPart(source: SourceDocument, sourcePart: string): Promise<string> {
+    const copied = source.copiedParts.get(sourcePart);
+    if (copied) return copied;
+    const file = source.zip.file(sourcePart);
+    if (!file) {
+      throw new Error(`第 ${source.ordinal} 个文档缺少关联部件: ${sourcePart}`);
+    }
+
+    const part = this.uniquePartName(sourcePart, source.ordinal);
+    source.copiedParts.set(sourcePart, part);
+    this.stats.partsCopied++;
+
+    const relationships = await relationshipsOf(source.zip, sourcePart);
+    if (relationships.length > 0) {
+      const entries: string[] = [];
+      for (const rel of relationships) {
+        if (rel.external) {
+          entries.push(
+            `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${escapeAttribute(rel.target)}" TargetMode="External"/>`
+          );
+          continue;
+        }
+        const target = path.posix.relative(
+          path.posix.dirname(part),
+          await this.copyPart(source, rel.target)
+        );
+        entries.push(
+          `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${escapeAttribute(target)}"/>`
+        );
+      }
+      this.zip.file(relsPartOf(part), relationshipsXml(entries));
+    }
+
+    if (CONTENT_PART_PATTERN.test(sourcePart)) {
+      this.zip.file(part, this.transformContent(source, await file.async('string')));
+    } else {
+      this.zip.file(part, await file.async('nodebuffer'));
+    }
+    this.registerContentType(source, sourcePart, part);
+    return part;
+  }
+
+  /**
+   * 新部件名：页眉页脚按 header3.xml 的方式顺延编号，其余部件在文件名后追加来源序号
+   */
+  private uniquePartName(sourcePart: string, ordinal: number): string {
+    const dir = path.posix.dirname(sourcePart);
+    const extension = path.posix.extname(sourcePart);
+    const stem = path.posix.basename(sourcePart, extension);
+    const taken = (name: string) => this.zip.file(name) !== null;
+
+    const numbered = /^(header|footer)\d*$/.exec(stem);
+    if (numbered) {
+      let index = 1;
+      while (taken(`${dir}/${numbered[1]}${index}${extension}`)) index++;
+      return `${dir}/${numbered[1]}${index}${extension}`;
+    }
+    let name = `${dir}/${stem}_${ordinal}${extension}`;
+    for (let suffix = 2; taken(name); suffix++)
+      name = `${dir}/${stem}_${ordinal}_${suffix}${extension}`;
+    return name;
+  }
+
+  private registerContentType(source: SourceDocument, sourcePart: string, part: string): void {
+    const override = new RegExp(
+      `<Override\\b[^>]*?\\sPartName="/${escapeRegExp(sourcePart)}"[^>]*>`,
+      'i'
+    ).exec(source.contentTypes);
+    if (override) {
+      const contentType = attributeOf(override[0], 'ContentType');
+      this.contentTypes = this.contentTypes.replace(
+        '</Types>',
+        `<Override PartName="/${part}" ContentType="${contentType}"/></Types>`
+      );
+      return;
+    }
+
+    const extension = path.posix.extname(part).slice(1);
+    const defaultPattern = (xml: string) =>
+      new RegExp(`<Default\\b[^>]*?\\sExtension="${escapeRegExp(extension)}"[^>]*>`, 'i').exec(xml);
+    if (!extension || defaultPattern(this.contentTypes)) return;
+    const sourceDefault = defaultPattern(source.contentTypes);
+    if (sourceDefault) {
+      this.contentTypes = this.contentTypes.replace('</Types>', `${sourceDefault[0]}</Types>`);
+    }
+  }
+
+  /**
+   * 基础文档缺少样式、编号或注释部件时新建，并登记关系和内容类型
+   */
+  private createPart(part: string, type: keyof typeof RELATIONSHIP_TYPES, xml: string): string {
+    this.zip.file(part, xml.startsWith('<?xml') ? xml : XML_DECLARATION + xml);
+    const pending = this.pendingRelationships.get(this.mainPart) ?? [];
+    this.pendingRelationships.set(this.mainPart, pending);
+    pending.push(
+      `<Relationship Id="rIdMerge${type}" Type="${RELATIONSHIP_TYPES[type]}" Target="${path.posix.relative(path.posix.dirname(this.mainPart), part)}"/>`
+    );
+    // 内容类型中可能残留同名部件的登记，不重复添加
+    if (!this.contentTypes.includes(`PartName="/${part}"`)) {
+      this.contentTypes = this.contentTypes.replace(
+        '</Types>',
+        `<Override PartName="/${part}" ContentType="${CONTENT_TYPES[type]}"/></Types>`
+      );
+    }
+    this.createdParts.set(type, part);
+    return part;
+  }
+
+  /**
+   * 合并结果中主文档的关联部件，包括本次合并中新建、关系尚未写出的部件
+   */
+  private async targetPart(type: keyof typeof RELATIONSHIP_TYPES): Promise<string | null> {
+    return this.createdParts.get(type) ?? (await relatedPart(this.zip, this.mainPart, type));
+  }
+
+  private async flushRelationships(): Promise<void> {
+    for (const [part, entries] of this.pendingRelationships) {
+      if (entries.length === 0) continue;
+      const relsPart = relsPartOf(part);
+      const existing: string | undefined = await this.zip.file(relsPart)?.async('string');
+      this.zip.file(
+        relsPart,
+        existing
+          ? existing.replace('</Relationships>', `${entries.join('')}</Relationships>`)
+          : relationshipsXml(entries)
+      );
+    }
+  }
+
+  private createNsid(): string {
+    let nsid: string;
+    do {
+      nsid = Math.floor(Math.random() * 0xffffffff)
+        .toString(16)
+        .toUpperCase()
+        .padStart(8, '0');
+    } while (this.nsids.has(nsid));
+    this.nsids.add(nsid);
+    return nsid;
+  }
+}
+
+async function loadDocx(filePath: string): Promise<any> {
+  const data = await fs.readFile(filePath);
+  try {
+    return await JSZip.loadAsync(data);
+  } catch {
+    throw new Error(`不是有效的 DOCX 文件: ${path.basename(filePath)}`);
+  }
+}
+
+async function readPart(zip: any, part: string): Promise<string> {
+  const file = zip.file(part);
+  if (!file) throw new Error(`DOCX 中缺少部件: ${part}`);
+  return await file.async('string');
+}
+
+function relsPartOf(part: string): string {
+  return path.posix.join(path.posix.dirname(part), '_rels', `${path.posix.basename(part)}.rels`);
+}
+
+function relationshipsXml(entries: string[]): string {
+  return (
+    XML_DECLARATION +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    entries.join('') +
+    '</Relationships>'
+  );
+}
+
+/**
+ * 读取部件的关系，Target 解析为相对包根的部件路径
+ */
+async function relationshipsOf(zip: any, part: string): Promise<Relationship[]> {
+  const xml: string | undefined = await zip.file(relsPartOf(part))?.async('string');
+  if (!xml) return [];
+  const dir = path.posix.dirname(part);
+  const relationships: Relationship[] = [];
+  for (const match of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = attributeOf(match[0], 'Id');
+    const rawTarget = attributeOf(match[0], 'Target');
+    if (!id || rawTarget === undefined) continue;
+    const target = unescapeAttribute(rawTarget);
+    const external = attributeOf(match[0], 'TargetMode') === 'External';
+    relationships.push({
+      id,
+      type: attributeOf(match[0], 'Type') ?? '',
+      target: external
+        ? target
+        : target.startsWith('/')
+          ? target.slice(1)
+          : path.posix.normalize(path.posix.join(dir === '.' ? '' : dir, target)),
+      external,
+    });
+  }
+  return relationships;
+}
+
+/**
+ * 按关系类型（类型 URI 的最后一段，如 styles、numbering）查找关联部件
+ */
+async function relatedPart(zip: any, part: string, type: string): Promise<string | null> {
+  for (const rel of await relationshipsOf(zip, part)) {
+    if (!rel.external && rel.type.endsWith(`/${type}`) && zip.file(rel.target)) return rel.target;
+  }
+  return null;
+}
+
+/**
+ * 主文档部件（一般为 word/document.xml）
+ */
+async function mainPartOf(zip: any): Promise<string> {
+  const rels: string = (await zip.file('_rels/.rels')?.async('string')) ?? '';
+  for (const match of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+    const type = attributeOf(match[0], 'Type') ?? '';
+    const target = attributeOf(match[0], 'Target');
+    if (type.endsWith('/officeDocument') && target) return target.replace(/^\//, '');
+  }
+  if (!zip.file('word/document.xml')) {
+    throw new Error('DOCX 中没有 Word 正文部件');
+  }
+  return 'word/document.xml';
+}
+
+/**
+ * 列出 [start, end) 范围内的直接子元素
+ */
+function childElements(xml: string, start: number, end: number): XmlChild[] {
+  const children: XmlChild[] = [];
+  const pattern = new RegExp(XML_TAG_PATTERN.source, 'g');
+  pattern.lastIndex = start;
+  let depth = 0;
+  let current: XmlChild | undefined;
+  for (let match = pattern.exec(xml); match && match.index < end; match = pattern.exec(xml)) {
+    const [token, closing, name, selfClosing] = match;
+    if (closing) {
+      depth--;
+      if (depth === 0 && current) {
+        current.end = match.index + token.length;
+        children.push(current);
+        current = undefined;
+      }
+    } else if (selfClosing) {
+      if (depth === 0) children.push({ name, start: match.index, end: match.index + token.length });
+    } else {
+      if (depth === 0) current = { name, start: match.index, end: match.index };
+      depth++;
+    }
+  }
+  return children;
+}
+
+/**
+ * 拆分正文：bodyStart/bodyEnd 为 w:body 内容的范围，body 为不含最后节属性的正文
+ */
+function splitBody(xml: string): {
+  bodyStart: number;
+  bodyEnd: number;
+  body: string;
+  sectPr: string;
+} {
+  const open = /<w:body\b[^>]*>/.exec(xml);
+  const bodyEnd = xml.lastIndexOf('</w:body>');
+  if (!open || bodyEnd < 0) {
+    throw new Error('DOCX 正文中没有 w:body 元素');
+  }
+  const bodyStart = open.index + open[0].length;
+  const children = childElements(xml, bodyStart, bodyEnd);
+  const last = children[children.length - 1];
+  if (last?.name === 'w:sectPr') {
+    return {
+      bodyStart,
+      bodyEnd,
+      body: xml.slice(bodyStart, last.start),
+      sectPr: xml.slice(last.start, last.end),
+    };
+  }
+  return { bodyStart, bodyEnd, body: xml.slice(bodyStart, bodyEnd), sectPr: '' };
+}
+
+function parseStyles(xml: string): StyleDefinition[] {
+  return Array.from(xml.matchAll(STYLE_PATTERN), match => {
+    const open = match[0].slice(0, match[0].indexOf('>') + 1);
+    return {
+      id: attributeOf(open, 'w:styleId') ?? '',
+      name: /<w:name\b[^>]*?\sw:val="([^"]*)"/.exec(match[0])?.[1] ?? '',
+      type: attributeOf(open, 'w:type') ?? 'paragraph',
+      isDefault: /^(1|true|on)$/.test(attributeOf(open, 'w:default') ?? ''),
+      xml: match[0],
+    };
+  }).filter(style => style.id);
+}
+
+/**
+ * 样式定义是否相同（忽略 styleId、rsid 和空白差异）
+ */
+function sameDefinition(a: StyleDefinition, b: StyleDefinition): boolean {
+  const normalize = (style: StyleDefinition) =>
+    style.xml
+      .replace(/\sw:styleId="[^"]*"/, '')
+      .replace(/<w:rsid\b[^>]*\/>/g, '')
+      .replace(/>\s+</g, '><');
+  return normalize(a) === normalize(b);
+}
+
+function remapStyles(source: SourceDocument, xml: string): string {
+  if (source.styleIds.size === 0) return xml;
+  return xml.replace(
+    STYLE_REFERENCE_PATTERN,
+    (_, head, id) => `${head}${source.styleIds.get(id) ?? id}"`
+  );
+}
+
+/**
+ * 为未指定样式的段落显式加上段落样式（pStyle 必须是 pPr 的第一个子元素）
+ */
+function applyParagraphStyle(xml: string, styleId: string): string {
+  const pStyle = `<w:pStyle w:val="${styleId}"/>`;
+  return xml.replace(
+    /(<w:p\b[^>/]*>)(<w:pPr\b[^>/]*>(<w:pStyle\b)?|<w:pPr\s*\/>)?/g,
+    (token, p, pPr, hasStyle) => {
+      if (hasStyle) return token;
+      if (!pPr || pPr.endsWith('/>')) return `${p}<w:pPr>${pStyle}</w:pPr>`;
+      return `${p}${pPr}${pStyle}`;
+    }
+  );
+}
+
+/**
+ * 设置节属性的分节类型，w:type 按架构顺序放在页眉页脚引用和脚注尾注属性之后
+ */
+function withSectionType(sectPr: string, type: SectionBreak): string {
+  const open = /^<w:sectPr\b[^>]*?(\/?)>/.exec(sectPr)!;
+  if (open[1]) {
+    return `${open[0].slice(0, -2)}><w:type w:val="${type}"/></w:sectPr>`;
+  }
+  const contentEnd = sectPr.lastIndexOf('</w:sectPr>');
+  const children = childElements(sectPr, open[0].length, contentEnd).filter(
+    child => child.name !== 'w:type'
+  );
+  const content = children.map(child => sectPr.slice(child.start, child.end));
+  const at = children.findIndex(child => !SECTION_LEADING_CHILDREN.includes(child.name));
+  content.splice(at < 0 ? content.length : at, 0, `<w:type w:val="${type}"/>`);
+  return `${open[0]}${content.join('')}</w:sectPr>`;
+}
+
+/**
+ * 把来源部件根元素上声明而目标缺少的命名空间补到目标根元素上，并合并 mc:Ignorable 前缀
+ */
+function mergeNamespaces(targetXml: string, sourceXml: string): string {
+  const rootPattern = /<([A-Za-z_][\w.-]*:[\w.-]+)\b[^>]*>/;
+  const targetRoot = rootPattern.exec(targetXml.replace(/^<\?xml[^>]*\?>/, ''));
+  const sourceRoot = rootPattern.exec(sourceXml.replace(/^<\?xml[^>]*\?>/, ''));
+  if (!targetRoot || !sourceRoot) return targetXml;
+
+  let root = targetRoot[0];
+  for (const match of sourceRoot[0].matchAll(/\s(xmlns:[\w.-]+)="([^"]*)"/g)) {
+    if (!new RegExp(`\\s${escapeRegExp(match[1])}=`).test(root)) {
+      root = root.replace(/(\/?>)$/, ` ${match[1]}="${match[2]}"$1`);
+    }
+  }
+  const ignorable = (tag: string) =>
+    (attributeOf(tag, 'mc:Ignorable') ?? '').split(/\s+/).filter(Boolean);
+  const prefixes = Array.from(new Set([...ignorable(root), ...ignorable(sourceRoot[0])])).filter(
+    prefix => new RegExp(`\\sxmlns:${escapeRegExp(prefix)}=`).test(root)
+  );
+  if (prefixes.length > 0 && /\sxmlns:mc=/.test(root)) {
+    root = /\smc:Ignorable="/.test(root)
+      ? root.replace(/(\smc:Ignorable=")[^"]*"/, `$1${prefixes.join(' ')}"`)
+      : root.replace(/(\/?>)$/, ` mc:Ignorable="${prefixes.join(' ')}"$1`);
+  }
+  return targetXml.replace(targetRoot[0], () => root);
+}
+
+function rootElementOf(xml: string, name: string): string {
+  return new RegExp(`<${name}\\b[^>]*>`).exec(xml)?.[0] ?? `<${name}>`;
+}
+
+function maxAttribute(xml: string, pattern: RegExp): number {
+  let max = -1;
+  for (const match of xml.matchAll(pattern)) max = Math.max(max, parseInt(match[1], 10));
+  return max;
+}
+
+function attributeOf(tag: string, name: string): string | undefined {
+  return new RegExp(`\\s${escapeRegExp(name)}="([^"]*)"`).exec(tag)?.[1];
+}
+
+function escapeAttribute(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+function unescapeAttribute(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 便捷函数：合并 DOCX 文件
+ */
+export async function mergeDocx(
+  inputPaths: string[],
+  options: DocxMergeOptions = {}
+): Promise<DocxMergeResult> {
+  const merger = new DocxMerger();
+  return await merger.merge(inputPaths, options);
+}
+
+export {
+  DocxMerger,
+  DocxMergeOptions,
+  DocxMergeResult,
+  StyleMode,
+  SectionBreak,
+  Relationship,
+  XmlChild,
+  loadDocx,
+  readPart,
+  relsPartOf,
+  relationshipsOf,
+  relatedPart,
+  mainPartOf,
+  childElements,
+  splitBody,
+  parseStyles,
+  attributeOf,
+};
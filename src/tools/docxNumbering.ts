@@ -0,0 +1,145 @@
+/**
+ * DOCX 列表编号定义
+ * 每个顶层列表登记一套多级编号（numbering.xml 中的 abstractNum + num），
+ * 各级的符号或编号格式、起始值取自原列表，Word 中编辑时能正确续号和重新编号
+ */
+
+import { LevelFormat, AlignmentType } from 'docx';
+
+type ListKind =
+  'bullet' | 'decimal' | 'lower-alpha' | 'upper-alpha' | 'lower-roman' | 'upper-roman' | 'none'; // 任务列表等不显示编号的层级
+
+interface ListLevelSpec {
+  kind: ListKind;
+  start?: number;
+}
+
+// 列表中的一项，depth 从 0 开始
+interface ListItemSpec {
+  depth: number;
+  kind: ListKind;
+  start?: number;
+  checked?: boolean; // 任务列表项：true/false 为勾选状态，undefined 表示普通项
+}
+
+const MAX_LEVELS = 9;
+const LEVEL_INDENT = 720; // 每级缩进 0.5 英寸
+const HANGING_INDENT = 360;
+const BULLET_SYMBOLS = ['•', '◦', '▪'];
+const TASK_MARKERS = { checked: '☑', unchecked: '☐' };
+
+const KIND_FORMATS: Record<Exclude<ListKind, 'bullet' | 'none'>, string> = {
+  decimal: LevelFormat.DECIMAL,
+  'lower-alpha': LevelFormat.LOWER_LETTER,
+  'upper-alpha': LevelFormat.UPPER_LETTER,
+  'lower-roman': LevelFormat.LOWER_ROMAN,
+  'upper-roman': LevelFormat.UPPER_ROMAN,
+};
+
+/**
+ * HTML type 属性或 CSS list-style-type 对应的列表类型
+ */
+function listKindOf(tag: string, type?: string, listStyleType?: string): ListKind {
+  const style = (listStyleType ?? '').trim().toLowerCase();
+  if (style === 'none') return 'none';
+  if (/^(disc|circle|square)$/.test(style)) return 'bullet';
+  if (/^(decimal|decimal-leading-zero)$/.test(style)) return 'decimal';
+  if (/^lower-(alpha|latin)$/.test(style)) return 'lower-alpha';
+  if (/^upper-(alpha|latin)$/.test(style)) return 'upper-alpha';
+  if (style === 'lower-roman') return 'lower-roman';
+  if (style === 'upper-roman') return 'upper-roman';
+
+  if (tag !== 'ol') return 'bullet';
+  switch (type) {
+    case 'a':
+      return 'lower-alpha';
+    case 'A':
+      return 'upper-alpha';
+    case 'i':
+      return 'lower-roman';
+    case 'I':
+      return 'upper-roman';
+    default:
+      return 'decimal';
+  }
+}
+
+/**
+ * 编号定义登记表，一次文档转换使用一个实例
+ */
+class DocxNumbering {
+  private configs: Array<{ reference: string; levels: any[] }> = [];
+
+  /**
+   * 按列表项登记一套编号，返回段落使用的引用名。
+   * 同一层级取第一次出现的类型和起始值，下级在上级前进时自动重新编号
+   */
+  register(items: ListItemSpec[]): string {
+    const specs: Array<ListLevelSpec | undefined> = new Array(MAX_LEVELS).fill(undefined);
+    for (const item of items) {
+      const depth = Math.min(item.depth, MAX_LEVELS - 1);
+      specs[depth] = specs[depth] ?? { kind: item.kind, start: item.start };
+    }
+
+    const reference = `list-${this.configs.length + 1}`;
+    const levels = specs.map((spec, depth) => {
+      // 未出现的层级沿用上一级的类型，保证更深的嵌套仍有编号定义
+      const inherited = specs.slice(0, depth).reverse().find(Boolean);
+      return this.createLevel(depth, spec ?? { kind: inherited?.kind ?? 'bullet' });
+    });
+    this.configs.push({ reference, levels });
+    return reference;
+  }
+
+  /**
+   * docx Document 的 numbering 选项
+   */
+  get options(): { config: Array<{ reference: string; levels: any[] }> } {
+    return { config: this.configs };
+  }
+
+  get isEmpty(): boolean {
+    return this.configs.length === 0;
+  }
+
+  private createLevel(depth: number, spec: ListLevelSpec): any {
+    const paragraph = {
+      indent: { left: LEVEL_INDENT * (depth + 1), hanging: HANGING_INDENT },
+    };
+    if (spec.kind === 'bullet') {
+      return {
+        level: depth,
+        format: LevelFormat.BULLET,
+        text: BULLET_SYMBOLS[depth % BULLET_SYMBOLS.length],
+        alignment: AlignmentType.LEFT,
+        style: { paragraph },
+      };
+    }
+    if (spec.kind === 'none') {
+      return {
+        level: depth,
+        format: LevelFormat.NONE,
+        text: '',
+        alignment: AlignmentType.LEFT,
+        style: { paragraph },
+      };
+    }
+    return {
+      level: depth,
+      format: KIND_FORMATS[spec.kind],
+      text: `%${depth + 1}.`,
+      alignment: AlignmentType.LEFT,
+      start: Math.max(0, spec.start ?? 1),
+      style: { paragraph },
+    };
+  }
+}
+
+/**
+ * 任务列表项前的复选框符号
+ */
+function taskMarker(checked: boolean): string {
+  return checked ? TASK_MARKERS.checked : TASK_MARKERS.unchecked;
+}
+
+export { DocxNumbering, ListKind, ListItemSpec, ListLevelSpec, listKindOf, taskMarker };
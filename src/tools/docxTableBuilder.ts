@@ -0,0 +1,458 @@
+/**
+ * HTML 表格到 DOCX 表格的构建器
+ * 按 rowspan/colspan 展开单元格网格，将 CSS 宽度、背景色、边框和垂直对齐映射为 DOCX 表格属性，
+ * thead（或开头整行 th）作为标题行在跨页时重复
+ */
+
+import {
+  Table,
+  TableRow,
+  TableCell,
+  Paragraph,
+  WidthType,
+  VerticalAlign,
+  ShadingType,
+  BorderStyle,
+  TableLayoutType,
+} from 'docx';
+import type { CheerioAPI } from 'cheerio';
+import { CssStyleResolver, ComputedStyle, CssLength, RgbaColor } from './cssStyleResolver';
+
+const TWIPS_PER_PX = 15;
+const DEFAULT_AVAILABLE_WIDTH = 9026; // A4 纵向、左右页边距 1 英寸时的版心宽度
+const MIN_COLUMN_WIDTH = 360;
+const MAX_SPAN = 1000;
+const CELL_HORIZONTAL_MARGIN = 216; // Word 默认左右单元格边距之和
+
+type DocxTableChild = Paragraph | Table;
+
+interface HtmlTableCell {
+  node: any;
+  row: number;
+  column: number;
+  rowSpan: number;
+  columnSpan: number;
+  header: boolean;
+  width: number; // 所跨列宽之和（twips）
+  style?: ComputedStyle;
+}
+
+interface HtmlTableRow {
+  node: any;
+  header: boolean; // 跨页重复的标题行
+  cells: HtmlTableCell[];
+}
+
+interface HtmlTableModel {
+  node: any;
+  rows: HtmlTableRow[];
+  grid: Array<Array<HtmlTableCell | undefined>>; // grid[行][列] 指向覆盖该位置的单元格
+  columnCount: number;
+  columnWidths: number[]; // twips
+  width: number; // twips
+  fixedLayout: boolean; // 存在显式宽度时使用固定列宽
+}
+
+interface DocxTableBuilderOptions {
+  styles?: Map<any, ComputedStyle>; // 预先计算的样式，未提供时按文档中的 <style> 计算
+}
+
+// 单元格内容由调用方的块级转换逻辑生成，nested 表格通过 availableWidth 继续构建
+type CellRenderer = (cell: HtmlTableCell, availableWidth: number) => DocxTableChild[];
+
+/**
+ * HTML 表格构建器
+ */
+class DocxTableBuilder {
+  private styles?: Map<any, ComputedStyle>;
+
+  constructor(
+    private readonly $: CheerioAPI,
+    options: DocxTableBuilderOptions = {}
+  ) {
+    this.styles = options.styles;
+  }
+
+  /**
+   * 将 <table> 节点转换为 DOCX 表格
+   */
+  createTable(
+    table: any,
+    renderCell: CellRenderer,
+    availableWidth = DEFAULT_AVAILABLE_WIDTH
+  ): Table | null {
+    const model = this.buildModel(table, availableWidth);
+    if (model.rows.length === 0 || model.columnCount === 0) return null;
+
+    const tableStyle = this.styleOf(table);
+    const cssBorders = this.usesCssBorders(model);
+
+    const rows = model.rows.map((row, rowIndex) => {
+      const children: TableCell[] = [];
+      for (let column = 0; column < model.columnCount;) {
+        const cell = model.grid[rowIndex][column];
+        if (!cell) {
+          // 不齐整的行补齐空单元格，保证网格完整
+          children.push(
+            new TableCell({
+              children: [new Paragraph({})],
+              width: { size: model.columnWidths[column], type: WidthType.DXA },
+            })
+          );
+          column++;
+          continue;
+        }
+        // 上方单元格纵向合并的位置由 docx 自动插入 continue 单元格
+        if (cell.row === rowIndex) {
+          children.push(this.createCell(cell, model, renderCell, cssBorders));
+        }
+        column += cell.columnSpan;
+      }
+      return new TableRow({
+        children,
+        tableHeader: row.header || undefined,
+        cantSplit: row.header || undefined,
+      });
+    });
+
+    return new Table({
+      rows,
+      width: { size: model.width, type: WidthType.DXA },
+      columnWidths: model.columnWidths,
+      layout: model.fixedLayout ? TableLayoutType.FIXED : TableLayoutType.AUTOFIT,
+      borders: cssBorders ? this.tableBorders(tableStyle) : undefined,
+    });
+  }
+
+  /**
+   * 构建表格网格模型
+   */
+  buildModel(table: any, availableWidth = DEFAULT_AVAILABLE_WIDTH): HtmlTableModel {
+    const $ = this.$;
+    const sections: Array<{ header: boolean; rows: any[] }> = [];
+    const body: any[] = [];
+    const footer: any[] = [];
+
+    // 只取属于本表格的行，嵌套表格的行留给各自的单元格处理
+    for (const child of $(table).children().toArray()) {
+      const tag = child.tagName?.toLowerCase();
+      if (tag === 'thead') sections.push({ header: true, rows: this.rowsOf(child) });
+      else if (tag === 'tbody') body.push(...this.rowsOf(child));
+      else if (tag === 'tfoot') footer.push(...this.rowsOf(child));
+      else if (tag === 'tr') body.push(child);
+    }
+    sections.push({ header: false, rows: body }, { header: false, rows: footer });
+
+    const rows: HtmlTableRow[] = [];
+    const grid: Array<Array<HtmlTableCell | undefined>> = [];
+    let hasHeaderSection = false;
+    for (const section of sections) {
+      if (section.header && section.rows.length) hasHeaderSection = true;
+      const first = rows.length;
+      const last = first + section.rows.length; // rowspan 不跨越 thead/tbody/tfoot
+      section.rows.forEach((tr: any, index: number) => {
+        const rowIndex = first + index;
+        grid[rowIndex] = grid[rowIndex] ?? [];
+        const row: HtmlTableRow = { node: tr, header: section.header, cells: [] };
+        let column = 0;
+        for (const td of $(tr).children('td, th').toArray()) {
+          while (grid[rowIndex][column]) column++;
+          const columnSpan = this.spanOf(td, 'colspan', 1);
+          const rowSpanValue = this.spanOf(td, 'rowspan', 0);
+          const rowSpan = Math.min(
+            rowSpanValue === 0 ? last - rowIndex : rowSpanValue,
+            last - rowIndex
+          );
+          const cell: HtmlTableCell = {
+            node: td,
+            row: rowIndex,
+            column,
+            rowSpan,
+            columnSpan,
+            header: td.tagName.toLowerCase() === 'th',
+            width: 0,
+            style: this.styleOf(td),
+          };
+          for (let r = rowIndex; r < rowIndex + rowSpan; r++) {
+            grid[r] = grid[r] ?? [];
+            for (let c = column; c < column + columnSpan; c++) grid[r][c] = cell;
+          }
+          row.cells.push(cell);
+          column += columnSpan;
+        }
+        rows.push(row);
+      });
+    }
+
+    // 没有 thead 时，开头由 th 组成的整行视为标题行
+    if (!hasHeaderSection) {
+      for (const row of rows) {
+        if (row.cells.length === 0 || !row.cells.every(cell => cell.header)) break;
+        row.header = true;
+      }
+    }
+
+    const columnCount = grid.reduce((max, cells) => Math.max(max, cells?.length ?? 0), 0);
+    for (let r = 0; r < rows.length; r++) grid[r] = grid[r] ?? [];
+
+    const model: HtmlTableModel = {
+      node: table,
+      rows,
+      grid,
+      columnCount,
+      columnWidths: [],
+      width: 0,
+      fixedLayout: false,
+    };
+    this.resolveWidths(model, availableWidth);
+    return model;
+  }
+
+  /**
+   * 计算列宽：<col> 优先，其次是单列单元格的宽度，未指定的列平分剩余宽度
+   */
+  private resolveWidths(model: HtmlTableModel, availableWidth: number): void {
+    const tableLength = this.styleOf(model.node)?.width ?? 'auto';
+    const explicitTable = tableLength !== 'auto';
+    let tableWidth = explicitTable ? this.toTwips(tableLength, availableWidth) : availableWidth;
+    tableWidth = Math.max(MIN_COLUMN_WIDTH, Math.min(tableWidth, availableWidth));
+
+    const specs: Array<CssLength | undefined> = new Array(model.columnCount).fill(undefined);
+    let index = 0;
+    for (const col of this.$(model.node).find('col').toArray()) {
+      if (this.$(col).closest('table')[0] !== model.node) continue;
+      const span = this.spanOf(col, 'span', 1);
+      const width = this.styleOf(col)?.width;
+      for (let i = 0; i < span && index < model.columnCount; i++, index++) {
+        if (width !== undefined && width !== 'auto') specs[index] = width;
+      }
+    }
+
+    const spanned: HtmlTableCell[] = [];
+    for (const row of model.rows) {
+      for (const cell of row.cells) {
+        const width = cell.style?.width;
+        if (width === undefined || width === 'auto') continue;
+        if (cell.columnSpan === 1) specs[cell.column] = specs[cell.column] ?? width;
+        else spanned.push(cell);
+      }
+    }
+
+    const widths: Array<number | undefined> = specs.map(spec =>
+      spec === undefined ? undefined : this.toTwips(spec, tableWidth)
+    );
+    // 跨列单元格的宽度均分给其中尚未确定宽度的列
+    for (const cell of spanned) {
+      const columns = Array.from({ length: cell.columnSpan }, (_, i) => cell.column + i);
+      const unknown = columns.filter(column => widths[column] === undefined);
+      if (unknown.length === 0) continue;
+      const known = columns.reduce((sum, column) => sum + (widths[column] ?? 0), 0);
+      const share = (this.toTwips(cell.style!.width, tableWidth) - known) / unknown.length;
+      if (share > 0) unknown.forEach(column => (widths[column] = share));
+    }
+
+    const knownTotal = widths.reduce<number>((sum, width) => sum + (width ?? 0), 0);
+    const unknownCount = widths.filter(width => width === undefined).length;
+    if (unknownCount === 0 && !explicitTable) {
+      tableWidth = Math.min(knownTotal, availableWidth);
+    }
+    const share = unknownCount
+      ? Math.max(MIN_COLUMN_WIDTH, (tableWidth - knownTotal) / unknownCount)
+      : 0;
+    let columnWidths = widths.map(width => Math.max(width ?? share, 1));
+
+    // 总宽与表格宽度不一致时按比例缩放
+    const total = columnWidths.reduce((sum, width) => sum + width, 0);
+    if (total > 0 && (total > tableWidth || (explicitTable && unknownCount === 0))) {
+      columnWidths = columnWidths.map(width => (width * tableWidth) / total);
+    }
+
+    model.columnWidths = columnWidths.map(width => Math.max(1, Math.round(width)));
+    model.width = model.columnWidths.reduce((sum, width) => sum + width, 0);
+    model.fixedLayout = explicitTable || unknownCount < model.columnCount;
+    for (const row of model.rows) {
+      for (const cell of row.cells) {
+        cell.width = model.columnWidths
+          .slice(cell.column, cell.column + cell.columnSpan)
+          .reduce((sum, width) => sum + width, 0);
+      }
+    }
+  }
+
+  /**
+   * 创建单元格：跨行跨列、宽度、背景、边框、垂直对齐和内边距
+   */
+  private createCell(
+    cell: HtmlTableCell,
+    model: HtmlTableModel,
+    renderCell: CellRenderer,
+    cssBorders: boolean
+  ): TableCell {
+    const style = cell.style;
+    const children = renderCell(
+      cell,
+      Math.max(MIN_COLUMN_WIDTH, cell.width - CELL_HORIZONTAL_MARGIN)
+    );
+    // 单元格必须以段落结尾，嵌套表格之后补一个空段落
+    if (children.length === 0 || children[children.length - 1] instanceof Table) {
+      children.push(new Paragraph({}));
+    }
+
+    const background = this.cellBackground(cell, model);
+    const options: any = {
+      children,
+      width: { size: cell.width, type: WidthType.DXA },
+      columnSpan: cell.columnSpan > 1 ? cell.columnSpan : undefined,
+      rowSpan: cell.rowSpan > 1 ? cell.rowSpan : undefined,
+      verticalAlign: this.verticalAlign(style?.verticalAlign),
+    };
+    if (background) {
+      options.shading = { fill: background, type: ShadingType.CLEAR, color: 'auto' };
+    }
+    if (cssBorders && style) {
+      options.borders = this.sideBorders(style);
+    }
+    if (style) {
+      const padding = style.padding.map(value => (typeof value === 'number' ? value : 0));
+      // 浏览器默认的 1px 内边距不输出，保留 Word 默认单元格边距
+      if (padding.some(value => value > 1)) {
+        const [top, right, bottom, left] = padding.map(value => Math.round(value * TWIPS_PER_PX));
+        options.margins = { top, right, bottom, left };
+      }
+    }
+    return new TableCell(options);
+  }
+
+  /**
+   * 背景色按单元格、行、行组的顺序取第一个不透明的颜色
+   */
+  private cellBackground(cell: HtmlTableCell, model: HtmlTableModel): string | undefined {
+    const tr = cell.node.parent;
+    const group = tr?.parent && tr.parent !== model.node ? tr.parent : undefined;
+    for (const node of [cell.node, tr, group]) {
+      const color = node ? this.styleOf(node)?.backgroundColor : null;
+      if (color && color.a > 0) return cssColorToHex(color);
+    }
+    return undefined;
+  }
+
+  private verticalAlign(value?: string): any {
+    switch (value) {
+      case 'top':
+        return VerticalAlign.TOP;
+      case 'bottom':
+        return VerticalAlign.BOTTOM;
+      case 'middle':
+        return VerticalAlign.CENTER;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * 表格或任一单元格声明了 CSS 边框时按 CSS 输出，否则保留默认网格线
+   */
+  private usesCssBorders(model: HtmlTableModel): boolean {
+    const hasBorder = (style?: ComputedStyle) => !!style?.borderWidth.some(width => width > 0);
+    return (
+      hasBorder(this.styleOf(model.node)) ||
+      model.rows.some(row => row.cells.some(cell => hasBorder(cell.style)))
+    );
+  }
+
+  private tableBorders(style?: ComputedStyle): any {
+    const none = { style: BorderStyle.NONE, size: 0, color: 'auto' };
+    const sides = style ? this.sideBorders(style) : {};
+    return {
+      top: sides.top ?? none,
+      right: sides.right ?? none,
+      bottom: sides.bottom ?? none,
+      left: sides.left ?? none,
+      insideHorizontal: none,
+      insideVertical: none,
+    };
+  }
+
+  /**
+   * 边框宽度 px 转为 1/8 磅，宽度为 0 的边省略，交由相邻单元格决定
+   */
+  private sideBorders(style: ComputedStyle): Record<string, any> {
+    const names = ['top', 'right', 'bottom', 'left'];
+    const borders: Record<string, any> = {};
+    style.borderWidth.forEach((width, index) => {
+      if (width <= 0) return;
+      borders[names[index]] = {
+        style: BorderStyle.SINGLE,
+        size: Math.max(2, Math.round(width * 0.75 * 8)),
+        color: cssColorToHex(style.borderColor[index]),
+      };
+    });
+    return borders;
+  }
+
+  private rowsOf(group: any): any[] {
+    return this.$(group).children('tr').toArray();
+  }
+
+  private spanOf(node: any, attribute: string, fallback: number): number {
+    const value = parseInt(node.attribs?.[attribute] ?? '', 10);
+    if (isNaN(value) || value < 0) return Math.max(fallback, 1);
+    if (value === 0) return fallback === 0 ? 0 : 1; // rowspan="0" 表示延伸到行组末尾
+    return Math.min(value, MAX_SPAN);
+  }
+
+  private toTwips(length: CssLength, reference: number): number {
+    if (length === 'auto') return 0;
+    if (typeof length === 'number') return length * TWIPS_PER_PX;
+    return (length.percent * reference) / 100;
+  }
+
+  /**
+   * 元素的计算样式，首次调用时按文档中的 <style> 层叠计算
+   */
+  styleOf(node: any): ComputedStyle | undefined {
+    if (!this.styles) {
+      const resolver = new CssStyleResolver({
+        viewportWidth: DEFAULT_AVAILABLE_WIDTH / TWIPS_PER_PX,
+      });
+      this.$('style').each((_: number, element: any) => {
+        resolver.addStylesheet(this.$(element).text());
+      });
+      this.styles = resolver.computeStyles(this.$);
+    }
+    return this.styles.get(node);
+  }
+}
+
+/**
+ * CSS 颜色转为 DOCX 使用的 6 位十六进制
+ */
+function cssColorToHex(color: RgbaColor): string {
+  return [color.r, color.g, color.b]
+    .map(channel => Math.round(channel).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+}
+
+/**
+ * 便捷函数：将 HTML 表格转换为 DOCX 表格
+ */
+export function createDocxTable(
+  $: CheerioAPI,
+  table: any,
+  renderCell: CellRenderer,
+  availableWidth?: number
+): Table | null {
+  return new DocxTableBuilder($).createTable(table, renderCell, availableWidth);
+}
+
+export {
+  DocxTableBuilder,
+  DocxTableBuilderOptions,
+  HtmlTableModel,
+  HtmlTableRow,
+  HtmlTableCell,
+  CellRenderer,
+  DEFAULT_AVAILABLE_WIDTH,
+  cssColorToHex,
+};
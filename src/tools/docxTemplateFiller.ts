@@ -0,0 +1,855 @@
+/**
+ * DOCX 模板填充
+ * 在现有 .docx 模板中替换 {{字段}} 占位符，支持 {{#each}} 循环（表格行、段落或行内）、
+ * {{#if}}/{{#unless}}/{{else}} 条件块和 {{image 字段}} 图片占位符。
+ * 直接在部件 XML 上按字符区间替换，模板中未涉及的部件、样式和属性原样保留
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { LoadedImage, loadImage } from './imageLoader';
+import { validateAndSanitizePath } from '../security/securityConfig';
+
+interface DocxTemplateOptions {
+  outputPath?: string;
+  imageBaseDir?: string; // 图片相对路径的基准目录，默认为模板所在目录
+  debug?: boolean;
+}
+
+interface DocxTemplateResult {
+  success: boolean;
+  content?: Buffer;
+  outputPath?: string;
+  metadata?: {
+    templatePath: string;
+    parts: string[];
+    placeholdersReplaced: number;
+    blocksExpanded: number;
+    imagesInserted: number;
+    missingFields: string[];
+  };
+  error?: string;
+}
+
+// 部件 XML 中的元素区间：start 为开始标签的 <，end 为结束标签之后
+interface XmlElement {
+  name: string;
+  start: number;
+  contentStart: number;
+  contentEnd: number;
+  end: number;
+  parent?: XmlElement;
+}
+
+type TagKind = 'value' | 'image' | 'each' | 'if' | 'unless' | 'else' | 'close';
+
+// 文本节点中的一个 {{...}} 标签
+interface TemplateTag {
+  kind: TagKind;
+  expr: string;
+  raw: string;
+  start: number;
+  end: number;
+  node: XmlElement; // 所在的 w:t
+}
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+// 一个 {{#each}}/{{#if}}/{{#unless}} 块及其展开单元
+interface TemplateBlock {
+  kind: 'each' | 'if' | 'unless';
+  open: TemplateTag;
+  else?: TemplateTag;
+  close: TemplateTag;
+  unit: Range; // 每次展开复制的区间：行内块为标签本身，跨段落/表格行时扩展到整段或整行
+  removals: Range[]; // open、else、close 标签在输出中删除的区间
+  parent?: TemplateBlock;
+}
+
+interface Scope {
+  data: any;
+  index?: number;
+  count?: number;
+}
+
+// 每个部件共享的图片登记
+interface PartMedia {
+  idPrefix: string;
+  relationships: string[];
+  byKey: Map<string, string>;
+}
+
+const WORD_NAMESPACES = {
+  wp: 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+};
+const IMAGE_RELATIONSHIP =
+  'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image';
+const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+};
+const EMU_PER_PIXEL = 9525;
+const TWIPS_PER_PIXEL = 15;
+const DEFAULT_TEXT_WIDTH = 624; // 未读到页面设置时的版心宽度（A4/Letter 默认边距约 6.5 英寸）
+
+// 除正文外，页眉、页脚、脚注和尾注中的占位符同样替换
+const TEMPLATE_PART_PATTERN = /^word\/(header\d*|footer\d*|footnotes|endnotes)\.xml$/;
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const XML_TAG_PATTERN = /<(\/?)([A-Za-z_][\w:.-]*)[^>]*?(\/?)>/g;
+
+/**
+ * DOCX 模板填充器类
+ */
+class DocxTemplateFiller {
+  private options: DocxTemplateOptions = {};
+  private baseDir = process.cwd();
+  private zip: any;
+  private textWidth = DEFAULT_TEXT_WIDTH;
+  private nextDrawingId = 1;
+  private mediaCount = 0;
+  private imageCache = new Map<string, { image: LoadedImage; media: string }>();
+  private missing = new Set<string>();
+  private stats = { placeholdersReplaced: 0, blocksExpanded: 0, imagesInserted: 0 };
+
+  /**
+   * 用数据填充模板
+   */
+  async fillTemplate(
+    templatePath: string,
+    data: any,
+    options: DocxTemplateOptions = {}
+  ): Promise<DocxTemplateResult> {
+    try {
+      this.options = options;
+      this.baseDir = options.imageBaseDir ?? path.dirname(path.resolve(templatePath));
+      this.imageCache.clear();
+      this.missing.clear();
+      this.mediaCount = 0;
+      this.stats = { placeholdersReplaced: 0, blocksExpanded: 0, imagesInserted: 0 };
+
+      if (this.options.debug) {
+        console.log('🚀 开始填充 DOCX 模板...');
+        console.log('📄 模板文件:', templatePath);
+      }
+
+      try {
+        this.zip = await JSZip.loadAsync(await fs.readFile(templatePath));
+      } catch (error: any) {
+        if (error.code === 'ENOENT') throw error;
+        throw new Error(`不是有效的 DOCX 文件: ${path.basename(templatePath)}`);
+      }
+
+      const mainPart = await this.mainPart();
+      const parts = [
+        mainPart,
+        ...Object.keys(this.zip.files).filter(name => TEMPLATE_PART_PATTERN.test(name)),
+      ];
+      const mainXml = await this.zip.file(mainPart).async('string');
+      this.textWidth = textWidthOf(mainXml);
+      this.nextDrawingId = 1;
+      for (const part of parts) {
+        const xml = await this.zip.file(part).async('string');
+        for (const match of xml.matchAll(/<wp:docPr\b[^>]*?\sid="(\d+)"/g)) {
+          this.nextDrawingId = Math.max(this.nextDrawingId, parseInt(match[1], 10) + 1);
+        }
+      }
+
+      for (const part of parts) {
+        await this.fillPart(part, data);
+      }
+
+      const buffer: Buffer = await this.zip.generateAsync({
+        type: 'nodebuffer',
+        compression: 'DEFLATE',
+      });
+
+      let outputPath: string | undefined;
+      if (this.options.outputPath) {
+        outputPath = validateAndSanitizePath(this.options.outputPath, []);
+        await fs.mkdir(path.dirname(outputPath!), { recursive: true });
+        await fs.writeFile(outputPath!, buffer);
+
+        if (this.options.debug) {
+          console.log('✅ 填充后的文档已保存:', outputPath);
+        }
+      }
+
+      const missingFields = Array.from(this.missing);
+      if (this.options.debug) {
+        console.log('📊 填充统计:', this.stats);
+        if (missingFields.length > 0) {
+          console.warn('⚠️ 数据中缺少字段:', missingFields.join(', '));
+        }
+      }
+
+      return {
+        success: true,
+        content: buffer,
+        outputPath,
+        metadata: {
+          templatePath,
+          parts,
+          ...this.stats,
+          missingFields,
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ DOCX 模板填充失败:', error.message);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * 主文档部件（一般为 word/document.xml）
+   */
+  private async mainPart(): Promise<string> {
+    const rels: string = (await this.zip.file('_rels/.rels')?.async('string')) ?? '';
+    for (const match of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+      const type = /\sType="([^"]*)"/.exec(match[0])?.[1] ?? '';
+      const target = /\sTarget="([^"]*)"/.exec(match[0])?.[1];
+      if (type.endsWith('/officeDocument') && target) {
+        return target.replace(/^\//, '');
+      }
+    }
+    if (!this.zip.file('word/document.xml')) {
+      throw new Error('模板中没有 Word 正文部件');
+    }
+    return 'word/document.xml';
+  }
+
+  /**
+   * 填充一个部件
+   */
+  private async fillPart(part: string, data: any): Promise<void> {
+    const original: string = await this.zip.file(part).async('string');
+    // Word 可能把 {{ 拆到两个文本节点中，这里只做粗略判断
+    if (!original.includes('{')) return;
+
+    const xml = mergeSplitTags(original);
+    const tags = findTags(xml);
+    if (tags.length === 0) return;
+
+    const blocks = buildBlocks(xml, tags);
+    const media: PartMedia = {
+      idPrefix: await this.relationshipIdPrefix(part),
+      relationships: [],
+      byKey: new Map(),
+    };
+    const rendered = await this.render(
+      xml,
+      { start: 0, end: xml.length },
+      tags,
+      blocks,
+      [{ data }],
+      media
+    );
+
+    let result = rendered;
+    if (media.relationships.length > 0) {
+      result = ensureNamespaces(result);
+      await this.addRelationships(part, media.relationships);
+    }
+    this.zip.file(part, result);
+
+    if (this.options.debug) {
+      console.log(`📝 已填充部件: ${part}（${tags.length} 个标签）`);
+    }
+  }
+
+  /**
+   * 渲染区间：复制原始 XML，替换其中的占位符，并展开完全位于区间内的最外层块
+   */
+  private async render(
+    xml: string,
+    range: Range,
+    tags: TemplateTag[],
+    blocks: TemplateBlock[],
+    scopes: Scope[],
+    media: PartMedia,
+    owner?: TemplateBlock
+  ): Promise<string> {
+    // 只展开直接嵌套在 owner 中的块，更深的块在其外层块展开时处理
+    const outer: TemplateBlock[] = [];
+    for (const block of blocks) {
+      const { start, end } = block.unit;
+      if (block.parent !== owner || end <= range.start || start >= range.end) continue;
+      if (start < range.start || end > range.end) {
+        throw new Error(
+          `模板块 ${block.open.raw} 的位置无法展开，请检查块标签的嵌套和所在段落或表格行`
+        );
+      }
+      const last = outer[outer.length - 1];
+      if (last && start < last.unit.end) {
+        throw new Error(
+          `模板块 ${block.open.raw} 与 ${last.open.raw} 位于同一段落或表格行，无法分别展开`
+        );
+      }
+      outer.push(block);
+    }
+
+    const values = tags.filter(
+      tag =>
+        (tag.kind === 'value' || tag.kind === 'image') &&
+        tag.start >= range.start &&
+        tag.end <= range.end &&
+        !outer.some(block => tag.start >= block.unit.start && tag.end <= block.unit.end)
+    );
+
+    const events = [
+      ...values.map(tag => ({ start: tag.start, end: tag.end, tag, block: undefined })),
+      ...outer.map(block => ({ ...block.unit, tag: undefined, block })),
+    ].sort((a, b) => a.start - b.start);
+
+    let output = '';
+    let position = range.start;
+    for (const event of events) {
+      output += xml.slice(position, event.start);
+      if (event.tag) {
+        output += await this.renderTag(event.tag, scopes, media);
+      } else if (event.block) {
+        output += await this.renderBlock(xml, event.block, tags, blocks, scopes, media);
+      }
+      position = event.end;
+    }
+    return output + xml.slice(position, range.end);
+  }
+
+  /**
+   * 展开一个块：each 按数组逐项复制，if/unless 按条件选择分支
+   */
+  private async renderBlock(
+    xml: string,
+    block: TemplateBlock,
+    tags: TemplateTag[],
+    blocks: TemplateBlock[],
+    scopes: Scope[],
+    media: PartMedia
+  ): Promise<string> {
+    const [openRemoval, ...rest] = block.removals;
+    const closeRemoval = rest[rest.length - 1];
+    const elseRemoval = block.else ? rest[0] : undefined;
+    const prefix = { start: block.unit.start, end: openRemoval.start };
+    const suffix = { start: closeRemoval.end, end: block.unit.end };
+    const primary = { start: openRemoval.end, end: (elseRemoval ?? closeRemoval).start };
+    const alternative = elseRemoval
+      ? { start: elseRemoval.end, end: closeRemoval.start }
+      : undefined;
+
+    const emit = async (body: Range, itemScopes: Scope[]) =>
+      (await this.render(xml, prefix, tags, blocks, itemScopes, media, block)) +
+      (await this.render(xml, body, tags, blocks, itemScopes, media, block)) +
+      (await this.render(xml, suffix, tags, blocks, itemScopes, media, block));
+
+    this.stats.blocksExpanded++;
+    const value = this.lookup(block.open.expr, scopes);
+
+    if (block.kind === 'each') {
+      const items = Array.isArray(value) ? value : isTruthy(value) ? [value] : [];
+      if (items.length === 0) {
+        return alternative ? await emit(alternative, scopes) : '';
+      }
+      let output = '';
+      for (let index = 0; index < items.length; index++) {
+        output += await emit(primary, [
+          ...scopes,
+          { data: items[index], index, count: items.length },
+        ]);
+      }
+      return output;
+    }
+
+    const condition = block.kind === 'if' ? isTruthy(value) : !isTruthy(value);
+    if (condition) return await emit(primary, scopes);
+    return alternative ? await emit(alternative, scopes) : '';
+  }
+
+  /**
+   * 替换单个占位符；标签总在 w:t 文本内，换行和制表符转为 w:br / w:tab
+   */
+  private async renderTag(tag: TemplateTag, scopes: Scope[], media: PartMedia): Promise<string> {
+    const value = this.lookup(tag.expr, scopes);
+    this.stats.placeholdersReplaced++;
+
+    if (tag.kind === 'image') {
+      if (value === undefined || value === null || value === '') return '';
+      const drawing = await this.createDrawing(value, media);
+      this.stats.imagesInserted++;
+      return `</w:t>${drawing}<w:t xml:space="preserve">`;
+    }
+
+    return escapeXml(formatValue(value))
+      .replace(/\r?\n/g, '</w:t><w:br/><w:t xml:space="preserve">')
+      .replace(/\t/g, '</w:t><w:tab/><w:t xml:space="preserve">');
+  }
+
+  /**
+   * 按作用域链查找字段：支持 a.b.c、this、../、@index（从 0 开始）、@number（从 1 开始）、@first、@last
+   */
+  private lookup(expr: string, scopes: Scope[]): any {
+    let depth = scopes.length - 1;
+    let name = expr.trim();
+    while (name.startsWith('../')) {
+      depth = Math.max(0, depth - 1);
+      name = name.slice(3);
+    }
+    const scope = scopes[depth];
+
+    if (name.startsWith('@')) {
+      switch (name) {
+        case '@index':
+          return scope.index;
+        case '@number':
+          return scope.index === undefined ? undefined : scope.index + 1;
+        case '@first':
+          return scope.index === 0;
+        case '@last':
+          return scope.index !== undefined && scope.index === (scope.count ?? 0) - 1;
+        default:
+          this.missing.add(expr);
+          return undefined;
+      }
+    }
+
+    if (name === 'this' || name === '.') return scope.data;
+
+    let segments = name.split('.');
+    let candidates = scopes.slice(0, depth + 1).reverse();
+    if (segments[0] === 'this') {
+      segments = segments.slice(1);
+      candidates = [scope];
+    }
+    // 在最近的包含首个字段的作用域中查找，循环内可以直接引用外层字段
+    const owner = candidates.find(
+      candidate =>
+        candidate.data !== null &&
+        typeof candidate.data === 'object' &&
+        segments[0] in candidate.data
+    );
+    let value: any = owner?.data;
+    for (const segment of segments) {
+      if (value === null || value === undefined) break;
+      value = value[segment];
+    }
+    if (!owner || value === undefined) {
+      this.missing.add(expr);
+    }
+    return value;
+  }
+
+  /**
+   * 创建内联图片；同一部件内相同的图片只登记一次关系
+   */
+  private async createDrawing(value: any, media: PartMedia): Promise<string> {
+    const source = typeof value === 'string' ? value : (value?.src ?? value?.path);
+    if (typeof source !== 'string' || source.length === 0) {
+      throw new Error('图片字段需要是图片路径、data URI，或包含 src 的对象');
+    }
+
+    let cached = this.imageCache.get(source);
+    if (!cached) {
+      const image = await loadImage(source, this.baseDir);
+      if (!IMAGE_CONTENT_TYPES[image.type]) {
+        throw new Error(`模板图片不支持 ${image.type.toUpperCase()} 格式: ${source}`);
+      }
+      const media = `media/template_image${++this.mediaCount}.${image.type}`;
+      this.zip.file(`word/${media}`, image.data);
+      await this.ensureContentType(image.type);
+      cached = { image, media };
+      this.imageCache.set(source, cached);
+    }
+
+    let relationshipId = media.byKey.get(cached.media);
+    if (!relationshipId) {
+      relationshipId = `${media.idPrefix}${media.byKey.size + 1}`;
+      media.byKey.set(cached.media, relationshipId);
+      media.relationships.push(
+        `<Relationship Id="${relationshipId}" Type="${IMAGE_RELATIONSHIP}" Target="${cached.media}"/>`
+      );
+    }
+
+    const { width, height } = this.imageSize(cached.image, value);
+    const cx = Math.round(width * EMU_PER_PIXEL);
+    const cy = Math.round(height * EMU_PER_PIXEL);
+    const id = this.nextDrawingId++;
+    const name = path.posix.basename(cached.media);
+    return (
+      '<w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">' +
+      `<wp:extent cx="${cx}" cy="${cy}"/><wp:effectExtent l="0" t="0" r="0" b="0"/>` +
+      `<wp:docPr id="${id}" name="Picture ${id}"/>` +
+      '<wp:cNvGraphicFramePr><a:graphicFrameLocks xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" noChangeAspect="1"/></wp:cNvGraphicFramePr>' +
+      '<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">' +
+      '<a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+      '<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+      `<pic:nvPicPr><pic:cNvPr id="${id}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+      `<pic:blipFill><a:blip r:embed="${relationshipId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+      `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm>` +
+      '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>' +
+      '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing>'
+    );
+  }
+
+  /**
+   * 图片尺寸（像素）：优先使用数据中的 width/height，只给一边时按比例计算，且不超过版心宽度
+   */
+  private imageSize(image: LoadedImage, value: any): { width: number; height: number } {
+    const ratio = image.height > 0 ? image.width / image.height : 1;
+    let width = Number(value?.width) || 0;
+    let height = Number(value?.height) || 0;
+    if (width && !height) height = width / ratio;
+    if (height && !width) width = height * ratio;
+    if (!width && !height) {
+      width = image.width;
+      height = image.height;
+    }
+    if (width > this.textWidth) {
+      height = (height * this.textWidth) / width;
+      width = this.textWidth;
+    }
+    return { width, height };
+  }
+
+  private async ensureContentType(extension: string): Promise<void> {
+    const xml: string = await this.zip.file('[Content_Types].xml').async('string');
+    if (new RegExp(`<Default\\b[^>]*\\sExtension="${extension}"`, 'i').test(xml)) return;
+    this.zip.file(
+      '[Content_Types].xml',
+      xml.replace(
+        '</Types>',
+        `<Default Extension="${extension}" ContentType="${IMAGE_CONTENT_TYPES[extension]}"/></Types>`
+      )
+    );
+  }
+
+  /**
+   * 新增图片关系的 Id 前缀，避开部件中已有的关系
+   */
+  private async relationshipIdPrefix(part: string): Promise<string> {
+    const rels: string = (await this.zip.file(relsPartOf(part))?.async('string')) ?? '';
+    let prefix = 'rIdTemplateImage';
+    while (rels.includes(`Id="${prefix}`)) prefix += '_';
+    return prefix;
+  }
+
+  private async addRelationships(part: string, relationships: string[]): Promise<void> {
+    const relsPart = relsPartOf(part);
+    const existing: string | undefined = await this.zip.file(relsPart)?.async('string');
+    const xml =
+      existing ??
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>';
+    this.zip.file(
+      relsPart,
+      xml.replace('</Relationships>', `${relationships.join('')}</Relationships>`)
+    );
+  }
+}
+
+/**
+ * 扫描部件 XML 中的元素，返回所有 w:t 文本节点（带祖先链）
+ */
+function scanTextNodes(xml: string): XmlElement[] {
+  const textNodes: XmlElement[] = [];
+  const stack: XmlElement[] = [];
+  for (const match of xml.matchAll(XML_TAG_PATTERN)) {
+    const [token, closing, name, selfClosing] = match;
+    const index = match.index!;
+    if (closing) {
+      // 从栈顶向下找到同名元素，容忍个别未闭合的元素
+      const at = stack.map(element => element.name).lastIndexOf(name);
+      if (at < 0) continue;
+      const element = stack[at];
+      element.contentEnd = index;
+      element.end = index + token.length;
+      stack.length = at;
+      if (name === 'w:t') textNodes.push(element);
+      continue;
+    }
+    const element: XmlElement = {
+      name,
+      start: index,
+      contentStart: index + token.length,
+      contentEnd: index + token.length,
+      end: index + token.length,
+      parent: stack[stack.length - 1],
+    };
+    if (!selfClosing) stack.push(element);
+  }
+  return textNodes.sort((a, b) => a.start - b.start);
+}
+
+function relsPartOf(part: string): string {
+  return path.posix.join(path.posix.dirname(part), '_rels', `${path.posix.basename(part)}.rels`);
+}
+
+function ancestor(node: XmlElement, name: string): XmlElement | undefined {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current.name === name) return current;
+  }
+  return undefined;
+}
+
+function chainOf(node: XmlElement): XmlElement[] {
+  const chain: XmlElement[] = [];
+  for (let current: XmlElement | undefined = node; current; current = current.parent) {
+    chain.unshift(current);
+  }
+  return chain;
+}
+
+/**
+ * 合并被 Word 拆到多个文本节点中的标签：整个标签移入其开头所在的 w:t，后续节点删去对应字符
+ */
+function mergeSplitTags(xml: string): string {
+  const paragraphs = new Map<XmlElement | undefined, XmlElement[]>();
+  for (const node of scanTextNodes(xml)) {
+    const paragraph = ancestor(node, 'w:p');
+    paragraphs.set(paragraph, [...(paragraphs.get(paragraph) ?? []), node]);
+  }
+
+  const replacements: Array<{ node: XmlElement; text: string }> = [];
+  for (const nodes of paragraphs.values()) {
+    const texts = nodes.map(node => xml.slice(node.contentStart, node.contentEnd));
+    const joined = texts.join('');
+    if (!joined.includes('{{')) continue;
+
+    const owners: number[] = [];
+    texts.forEach((text, index) => owners.push(...new Array(text.length).fill(index)));
+    for (const match of joined.matchAll(TAG_PATTERN)) {
+      const start = match.index!;
+      owners.fill(owners[start], start, start + match[0].length);
+    }
+
+    const merged = texts.map(() => '');
+    for (let index = 0; index < joined.length; index++) {
+      merged[owners[index]] += joined[index];
+    }
+    nodes.forEach((node, index) => {
+      if (merged[index] !== texts[index] || merged[index].includes('{{')) {
+        replacements.push({ node, text: merged[index] });
+      }
+    });
+  }
+
+  replacements.sort((a, b) => b.node.start - a.node.start);
+  let result = xml;
+  for (const { node, text } of replacements) {
+    // 替换后的文本可能以空格开头或结尾，统一保留空白
+    let startTag = result.slice(node.start, node.contentStart);
+    if (!/xml:space=/.test(startTag)) {
+      startTag = startTag.replace(/^<w:t/, '<w:t xml:space="preserve"');
+    }
+    result = result.slice(0, node.start) + startTag + text + result.slice(node.contentEnd);
+  }
+  return result;
+}
+
+/**
+ * 找出所有文本节点中的模板标签
+ */
+function findTags(xml: string): TemplateTag[] {
+  const tags: TemplateTag[] = [];
+  for (const node of scanTextNodes(xml)) {
+    const text = xml.slice(node.contentStart, node.contentEnd);
+    for (const match of text.matchAll(TAG_PATTERN)) {
+      const body = unescapeXml(match[1]).trim();
+      if (body.length === 0) continue;
+      const start = node.contentStart + match.index!;
+      tags.push({ ...parseTag(body), raw: match[0], start, end: start + match[0].length, node });
+    }
+  }
+  return tags;
+}
+
+function parseTag(body: string): { kind: TagKind; expr: string } {
+  const block = /^#(each|if|unless)\s+(.+)$/.exec(body);
+  if (block) return { kind: block[1] as TagKind, expr: block[2].trim() };
+  const close = /^\/(each|if|unless)$/.exec(body);
+  if (close) return { kind: 'close', expr: close[1] };
+  if (body === 'else') return { kind: 'else', expr: '' };
+  const image = /^image\s+(.+)$/.exec(body);
+  if (image) return { kind: 'image', expr: image[1].trim() };
+  if (/^[#/^]/.test(body)) {
+    throw new Error(`不支持的模板标签: {{${body}}}`);
+  }
+  return { kind: 'value', expr: body };
+}
+
+/**
+ * 配对块标签并确定每个块的展开单元
+ */
+function buildBlocks(xml: string, tags: TemplateTag[]): TemplateBlock[] {
+  type Entry = { open: TemplateTag; else?: TemplateTag; parent?: Entry; block?: TemplateBlock };
+  const entries: Entry[] = [];
+  const stack: Entry[] = [];
+  for (const tag of tags) {
+    if (tag.kind === 'each' || tag.kind === 'if' || tag.kind === 'unless') {
+      stack.push({ open: tag, parent: stack[stack.length - 1] });
+    } else if (tag.kind === 'else') {
+      const current = stack[stack.length - 1];
+      if (!current || current.else) throw new Error('{{else}} 没有对应的 {{#if}}/{{#each}}');
+      current.else = tag;
+    } else if (tag.kind === 'close') {
+      const current = stack.pop();
+      if (!current || current.open.kind !== tag.expr) {
+        throw new Error(`模板标签不匹配: ${tag.raw}`);
+      }
+      current.block = layoutBlock(xml, current.open, current.else, tag);
+      entries.push(current);
+    }
+  }
+  if (stack.length > 0) {
+    throw new Error(`模板标签未闭合: ${stack[stack.length - 1].open.raw}`);
+  }
+  for (const entry of entries) {
+    entry.block!.parent = entry.parent?.block;
+  }
+  return entries
+    .map(entry => entry.block!)
+    .sort((a, b) => a.unit.start - b.unit.start || b.unit.end - a.unit.end);
+}
+
+/**
+ * 块标签在同一段落内时按行内文本展开；跨段落时展开整段，跨表格行（或同一行的不同单元格）时展开整行。
+ * 单独成段（或单独成行）的块标签连同所在段落（行）一起删除
+ */
+function layoutBlock(
+  xml: string,
+  open: TemplateTag,
+  elseTag: TemplateTag | undefined,
+  close: TemplateTag
+): TemplateBlock {
+  const kind = open.kind as TemplateBlock['kind'];
+  const marks = elseTag ? [open, elseTag, close] : [open, close];
+  const chains = marks.map(tag => chainOf(tag.node));
+  const openChain = chains[0];
+  const closeChain = chains[chains.length - 1];
+
+  let depth = 0;
+  while (depth < openChain.length && openChain[depth] === closeChain[depth]) depth++;
+  const common = openChain.slice(0, depth);
+
+  if (common.some(element => element.name === 'w:p')) {
+    return {
+      kind,
+      open,
+      else: elseTag,
+      close,
+      unit: { start: open.start, end: close.end },
+      removals: marks.map(tag => ({ start: tag.start, end: tag.end })),
+    };
+  }
+
+  // 同一表格行的不同单元格按整行复制
+  if (common[common.length - 1]?.name === 'w:tr') depth--;
+  const containers = chains.map(chain => chain[depth]);
+  const removals = marks.map((tag, index) => {
+    const container = containers[index];
+    return textOf(xml, container).trim() === tag.raw
+      ? { start: container.start, end: container.end }
+      : { start: tag.start, end: tag.end };
+  });
+
+  if (elseTag && removals[1].start === elseTag.start) {
+    throw new Error('跨段落或表格行的块中，{{else}} 需要单独占一段或一行');
+  }
+
+  return {
+    kind,
+    open,
+    else: elseTag,
+    close,
+    unit: { start: containers[0].start, end: containers[containers.length - 1].end },
+    removals,
+  };
+}
+
+function textOf(xml: string, element: XmlElement): string {
+  const content = xml.slice(element.start, element.end);
+  return Array.from(content.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g), match => match[1]).join(
+    ''
+  );
+}
+
+/**
+ * 根据第一节的页面宽度和左右边距估算版心宽度（像素）
+ */
+function textWidthOf(documentXml: string): number {
+  const pageWidth = /<w:pgSz\b[^>]*\sw:w="(\d+)"/.exec(documentXml)?.[1];
+  const margins = /<w:pgMar\b[^>]*>/.exec(documentXml)?.[0] ?? '';
+  const left = /\sw:left="(\d+)"/.exec(margins)?.[1] ?? '1440';
+  const right = /\sw:right="(\d+)"/.exec(margins)?.[1] ?? '1440';
+  if (!pageWidth) return DEFAULT_TEXT_WIDTH;
+  const width =
+    (parseInt(pageWidth, 10) - parseInt(left, 10) - parseInt(right, 10)) / TWIPS_PER_PIXEL;
+  return width > 0 ? width : DEFAULT_TEXT_WIDTH;
+}
+
+/**
+ * 插入图片需要的 wp 和 r 命名空间，模板根元素未声明时补上
+ */
+function ensureNamespaces(xml: string): string {
+  return xml.replace(
+    /<(w:(?:document|hdr|ftr|footnotes|endnotes))\b([^>]*)>/,
+    (tag, name, attrs) => {
+      let result = attrs;
+      for (const [prefix, uri] of Object.entries(WORD_NAMESPACES)) {
+        if (!new RegExp(`\\sxmlns:${prefix}=`).test(result)) {
+          result += ` xmlns:${prefix}="${uri}"`;
+        }
+      }
+      return `<${name}${result}>`;
+    }
+  );
+}
+
+function isTruthy(value: any): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+function formatValue(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (Array.isArray(value)) return value.map(formatValue).join(', ');
+  if (typeof value === 'object') return '';
+  return String(value);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[^\P{Cc}\t\n\r\x7f-\x9f]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// 导出便捷函数
+export async function fillDocxTemplate(
+  templatePath: string,
+  data: any,
+  options: DocxTemplateOptions = {}
+): Promise<DocxTemplateResult> {
+  const filler = new DocxTemplateFiller();
+  return await filler.fillTemplate(templatePath, data, options);
+}
+
+export { DocxTemplateFiller, DocxTemplateOptions, DocxTemplateResult };
@@ -0,0 +1,1452 @@
+/**
+ * Graphviz DOT 布局引擎
+ * 解析 DOT 语言子集，使用分层（Sugiyama）布局：去环 → 分层 → 虚拟节点 → 减少交叉 → 坐标分配 → 边路由
+ * 输出 DiagramScene，由 diagramScene/sceneRasterizer 生成 SVG 与 PNG
+ */
+
+import {
+  DiagramScene,
+  SceneItem,
+  PathCommand,
+  measureText,
+  rectPath,
+  ellipsePath,
+  polygonPath,
+  smoothPath,
+} from './diagramScene';
+
+type Attributes = Record<string, string>;
+
+interface DotNode {
+  id: string;
+  attrs: Attributes;
+}
+
+interface DotEdge {
+  from: string;
+  to: string;
+  attrs: Attributes;
+}
+
+interface DotCluster {
+  id: string;
+  attrs: Attributes;
+  nodes: Set<string>;
+}
+
+interface DotGraph {
+  directed: boolean;
+  attrs: Attributes;
+  nodes: Map<string, DotNode>;
+  edges: DotEdge[];
+  clusters: DotCluster[];
+  sameRanks: string[][];
+}
+
+// 布局中的节点（含长边拆分出的虚拟节点）
+interface LayoutNode {
+  id: string;
+  virtual: boolean;
+  width: number;
+  height: number;
+  rank: number;
+  order: number;
+  x: number;
+  y: number;
+}
+
+interface Token {
+  type: 'id' | 'punct';
+  value: string;
+  quoted?: boolean;
+}
+
+// 常用 X11/SVG 颜色名
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  red: '#ff0000',
+  green: '#00ff00',
+  blue: '#0000ff',
+  yellow: '#ffff00',
+  orange: '#ffa500',
+  purple: '#a020f0',
+  pink: '#ffc0cb',
+  brown: '#a52a2a',
+  cyan: '#00ffff',
+  magenta: '#ff00ff',
+  gray: '#c0c0c0',
+  grey: '#c0c0c0',
+  lightgray: '#d3d3d3',
+  lightgrey: '#d3d3d3',
+  darkgray: '#a9a9a9',
+  darkgrey: '#a9a9a9',
+  dimgray: '#696969',
+  lightblue: '#add8e6',
+  lightyellow: '#ffffe0',
+  lightgreen: '#90ee90',
+  lightpink: '#ffb6c1',
+  lightcyan: '#e0ffff',
+  lightsalmon: '#ffa07a',
+  darkgreen: '#006400',
+  darkblue: '#00008b',
+  darkred: '#8b0000',
+  darkorange: '#ff8c00',
+  navy: '#000080',
+  teal: '#008080',
+  olive: '#808000',
+  maroon: '#b03060',
+  gold: '#ffd700',
+  salmon: '#fa8072',
+  coral: '#ff7f50',
+  tomato: '#ff6347',
+  khaki: '#f0e68c',
+  beige: '#f5f5dc',
+  ivory: '#fffff0',
+  lavender: '#e6e6fa',
+  skyblue: '#87ceeb',
+  steelblue: '#4682b4',
+  royalblue: '#4169e1',
+  dodgerblue: '#1e90ff',
+  cornflowerblue: '#6495ed',
+  forestgreen: '#228b22',
+  seagreen: '#2e8b57',
+  palegreen: '#98fb98',
+  limegreen: '#32cd32',
+  crimson: '#dc143c',
+  firebrick: '#b22222',
+  indigo: '#4b0082',
+  violet: '#ee82ee',
+  orchid: '#da70d6',
+  plum: '#dda0dd',
+  tan: '#d2b48c',
+  wheat: '#f5deb3',
+  snow: '#fffafa',
+  whitesmoke: '#f5f5f5',
+  gainsboro: '#dcdcdc',
+  aliceblue: '#f0f8ff',
+  honeydew: '#f0fff0',
+  mintcream: '#f5fffa',
+  azure: '#f0ffff',
+  transparent: 'none',
+  none: 'none',
+};
+
+const DEFAULT_FONT_SIZE = 14;
+const ARROW_LENGTH = 10;
+const ARROW_WIDTH = 7;
+const MARGIN = 12;
+const CLUSTER_PADDING = 12;
+
+/**
+ * DOT 语法解析器（容错：未知属性忽略，端口与罗盘点忽略）
+ */
+class DotParser {
+  private tokens: Token[] = [];
+  private position = 0;
+  private graph!: DotGraph;
+
+  parse(source: string): DotGraph {
+    this.tokens = this.tokenize(source);
+    this.position = 0;
+
+    if (this.peekKeyword('strict')) this.position++;
+    const kind = this.next()?.value.toLowerCase();
+    if (kind !== 'graph' && kind !== 'digraph') {
+      throw new Error('DOT 源码必须以 graph 或 digraph 开头');
+    }
+    this.graph = {
+      directed: kind === 'digraph',
+      attrs: {},
+      nodes: new Map(),
+      edges: [],
+      clusters: [],
+      sameRanks: [],
+    };
+    if (this.peek()?.type === 'id') this.position++;
+    this.expect('{');
+    this.parseStatements({ node: {}, edge: {} }, this.graph.attrs, []);
+    return this.graph;
+  }
+
+  private tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < source.length) {
+      const char = source[i];
+      const rest = source.slice(i);
+      if (/\s/.test(char)) {
+        i++;
+      } else if (rest.startsWith('//') || (char === '#' && (i === 0 || source[i - 1] === '\n'))) {
+        const end = source.indexOf('\n', i);
+        i = end < 0 ? source.length : end;
+      } else if (rest.startsWith('/*')) {
+        const end = source.indexOf('*/', i + 2);
+        i = end < 0 ? source.length : end + 2;
+      } else if (rest.startsWith('->') || rest.startsWith('--')) {
+        tokens.push({ type: 'punct', value: rest.slice(0, 2) });
+        i += 2;
+      } else if ('{}[];,=:'.includes(char)) {
+        tokens.push({ type: 'punct', value: char });
+        i++;
+      } else if (char === '"') {
+        let value = '';
+        i++;
+        while (i < source.length && source[i] !== '"') {
+          if (source[i] === '\\' && source[i + 1] === '"') {
+            value += '"';
+            i += 2;
+          } else if (source[i] === '\\' && source[i + 1] === '\n') {
+            i += 2;
+          } else {
+            value += source[i++];
+          }
+        }
+        i++;
+        const previous = tokens[tokens.length - 1];
+        // "a" + "b" 字符串拼接
+        if (
+          previous?.type === 'punct' &&
+          previous.value === '+' &&
+          tokens[tokens.length - 2]?.quoted
+        ) {
+          tokens.pop();
+          tokens[tokens.length - 1].value += value;
+        } else {
+          tokens.push({ type: 'id', value, quoted: true });
+        }
+      } else if (char === '<') {
+        let depth = 0;
+        let j = i;
+        do {
+          if (source[j] === '<') depth++;
+          else if (source[j] === '>') depth--;
+          j++;
+        } while (depth > 0 && j < source.length);
+        // HTML 标签仅保留文本
+        const html = source.slice(i + 1, j - 1);
+        const text = html
+          .replace(/<br\s*\/?>/gi, '\\n')
+          .replace(/<[^>]+>/g, '')
+          .replace(/&lt;/g, '<')
+          .replace(/&gt;/g, '>')
+          .replace(/&amp;/g, '&');
+        tokens.push({ type: 'id', value: text, quoted: true });
+        i = j;
+      } else if (char === '+') {
+        tokens.push({ type: 'punct', value: '+' });
+        i++;
+      } else {
+        const match =
+          /^(?:-?(?:\.\d+|\d+(?:\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/.exec(rest);
+        if (!match) {
+          i++;
+          continue;
+        }
+        tokens.push({ type: 'id', value: match[0] });
+        i += match[0].length;
+      }
+    }
+    return tokens;
+  }
+
+  private parseStatements(
+    defaults: { node: Attributes; edge: Attributes },
+    graphAttrs: Attributes,
+    members: string[][]
+  ): void {
+    while (this.position < this.tokens.length) {
+      const token = this.peek()!;
+      if (token.type === 'punct' && token.value === '}') {
+        this.position++;
+        return;
+      }
+      if (token.type === 'punct' && (token.value === ';' || token.value === ',')) {
+        this.position++;
+        continue;
+      }
+      this.parseStatement(defaults, graphAttrs, members);
+    }
+  }
+
+  private parseStatement(
+    defaults: { node: Attributes; edge: Attributes },
+    graphAttrs: Attributes,
+    members: string[][]
+  ): void {
+    const token = this.peek()!;
+    const keyword = token.type === 'id' && !token.quoted ? token.value.toLowerCase() : '';
+
+    if (
+      (keyword === 'graph' || keyword === 'node' || keyword === 'edge') &&
+      this.peekAt(1)?.value === '['
+    ) {
+      this.position++;
+      const attrs = this.parseAttributeList();
+      if (keyword === 'graph') Object.assign(graphAttrs, attrs);
+      else Object.assign(defaults[keyword], attrs);
+      return;
+    }
+
+    if (token.type === 'id' && this.peekAt(1)?.value === '=') {
+      this.position += 2;
+      graphAttrs[token.value] = this.next()?.value ?? '';
+      return;
+    }
+
+    let operands: string[] = this.parseOperand(defaults, members);
+    const edgeStatement: string[][] = [operands];
+    while (this.peek()?.value === '->' || this.peek()?.value === '--') {
+      this.position++;
+      operands = this.parseOperand(defaults, members);
+      edgeStatement.push(operands);
+    }
+    const attrs = this.peek()?.value === '[' ? this.parseAttributeList() : {};
+
+    if (edgeStatement.length === 1) {
+      for (const id of operands) Object.assign(this.graph.nodes.get(id)!.attrs, attrs);
+      return;
+    }
+    for (let i = 0; i < edgeStatement.length - 1; i++) {
+      for (const from of edgeStatement[i]) {
+        for (const to of edgeStatement[i + 1]) {
+          this.graph.edges.push({ from, to, attrs: { ...defaults.edge, ...attrs } });
+        }
+      }
+    }
+  }
+
+  /**
+   * 边语句的一端：节点 ID 或子图
+   */
+  private parseOperand(
+    defaults: { node: Attributes; edge: Attributes },
+    members: string[][]
+  ): string[] {
+    const token = this.peek();
+    const keyword = token?.type === 'id' && !token.quoted ? token.value.toLowerCase() : '';
+    if (keyword === 'subgraph' || token?.value === '{') {
+      return this.parseSubgraph(defaults, members);
+    }
+
+    const id = this.next()?.value ?? '';
+    // 端口 a:port:compass
+    while (this.peek()?.value === ':') this.position += 2;
+    if (!this.graph.nodes.has(id)) {
+      this.graph.nodes.set(id, { id, attrs: { ...defaults.node } });
+    }
+    for (const group of members) group.push(id);
+    return [id];
+  }
+
+  private parseSubgraph(
+    defaults: { node: Attributes; edge: Attributes },
+    members: string[][]
+  ): string[] {
+    let name = '';
+    if (this.peek()?.value.toLowerCase() === 'subgraph') {
+      this.position++;
+      if (this.peek()?.type === 'id') name = this.next()!.value;
+    }
+    this.expect('{');
+
+    const nodes: string[] = [];
+    const attrs: Attributes = {};
+    this.parseStatements({ node: { ...defaults.node }, edge: { ...defaults.edge } }, attrs, [
+      ...members,
+      nodes,
+    ]);
+
+    if (name.startsWith('cluster')) {
+      this.graph.clusters.push({ id: name, attrs, nodes: new Set(nodes) });
+    }
+    if (attrs.rank === 'same' && nodes.length) {
+      this.graph.sameRanks.push([...new Set(nodes)]);
+    }
+    return [...new Set(nodes)];
+  }
+
+  private parseAttributeList(): Attributes {
+    const attrs: Attributes = {};
+    while (this.peek()?.value === '[') {
+      this.position++;
+      while (this.position < this.tokens.length && this.peek()!.value !== ']') {
+        const key = this.next()!;
+        if (key.type === 'punct') continue;
+        if (this.peek()?.value === '=') {
+          this.position++;
+          attrs[key.value] = this.next()?.value ?? '';
+        } else {
+          attrs[key.value] = 'true';
+        }
+      }
+      this.position++;
+    }
+    return attrs;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private peekAt(offset: number): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private peekKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token?.type === 'id' && token.value.toLowerCase() === keyword;
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.position++];
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token?.value !== value) {
+      throw new Error(`DOT 语法错误：期望 "${value}"，实际为 "${token?.value ?? '文件结尾'}"`);
+    }
+  }
+}
+
+/**
+ * DOT 分层布局引擎
+ */
+class DotLayoutEngine {
+  parse(source: string): DotGraph {
+    return new DotParser().parse(source);
+  }
+
+  layout(source: string): DiagramScene {
+    const graph = this.parse(source);
+    const rankdir = (graph.attrs.rankdir ?? 'TB').toUpperCase();
+    const horizontal = rankdir === 'LR' || rankdir === 'RL';
+    const fontSize = (id: string) =>
+      toNumber(graph.nodes.get(id)?.attrs.fontsize, DEFAULT_FONT_SIZE);
+
+    // 节点尺寸（横向布局时交换宽高，统一按自上而下计算）
+    const sizes = new Map<string, { width: number; height: number }>();
+    for (const node of graph.nodes.values()) {
+      sizes.set(node.id, this.nodeSize(node, fontSize(node.id)));
+    }
+
+    const selfLoops = graph.edges.filter(edge => edge.from === edge.to);
+    const edges = graph.edges.filter(edge => edge.from !== edge.to && !isInvisible(edge.attrs));
+    const layoutNodes = new Map<string, LayoutNode>();
+    for (const [id, size] of sizes) {
+      const loopSpace = selfLoops.some(edge => edge.from === id) ? 36 : 0;
+      layoutNodes.set(id, {
+        id,
+        virtual: false,
+        width: (horizontal ? size.height : size.width) + loopSpace,
+        height: horizontal ? size.width : size.height,
+        rank: 0,
+        order: 0,
+        x: 0,
+        y: 0,
+      });
+    }
+
+    const reversed = this.breakCycles([...graph.nodes.keys()], edges);
+    const oriented = edges.map((edge, index) =>
+      reversed.has(index) ? { from: edge.to, to: edge.from } : { from: edge.from, to: edge.to }
+    );
+    this.assignRanks(layoutNodes, oriented, graph.sameRanks);
+
+    // 长边拆分为经过虚拟节点的链
+    const chains: string[][] = [];
+    const hasLabels = edges.some(edge => edge.attrs.label);
+    oriented.forEach((edge, index) => {
+      const chain = [edge.from];
+      const from = layoutNodes.get(edge.from)!;
+      const to = layoutNodes.get(edge.to)!;
+      for (let rank = from.rank + 1; rank < to.rank; rank++) {
+        const id = `\u0000${index}:${rank}`;
+        layoutNodes.set(id, { id, virtual: true, width: 4, height: 4, rank, order: 0, x: 0, y: 0 });
+        chain.push(id);
+      }
+      chain.push(edge.to);
+      chains.push(chain);
+    });
+
+    // 所属分组（由外到内）；虚拟节点属于两端共同所在的分组
+    const memberships = new Map<string, DotCluster[]>();
+    const outermostFirst = [...graph.clusters].sort((a, b) => b.nodes.size - a.nodes.size);
+    for (const id of graph.nodes.keys()) {
+      memberships.set(
+        id,
+        outermostFirst.filter(cluster => cluster.nodes.has(id))
+      );
+    }
+    for (const chain of chains) {
+      const shared = memberships
+        .get(chain[0])!
+        .filter(cluster => cluster.nodes.has(chain[chain.length - 1]));
+      for (const id of chain.slice(1, -1)) memberships.set(id, shared);
+    }
+
+    const layers = this.orderLayers(layoutNodes, chains, memberships);
+    const nodesep = toNumber(graph.attrs.nodesep, 0.35) * 72;
+    const ranksep = toNumber(graph.attrs.ranksep, hasLabels ? 0.75 : 0.55) * 72;
+    // 不同分组的相邻节点之间预留分组框的边距（横向布局时还需容纳分组标题）
+    const clusterGap = (a: string, b: string) => {
+      const left = memberships.get(a) ?? [];
+      const right = memberships.get(b) ?? [];
+      const boundaries = [
+        ...left.filter(c => !right.includes(c)),
+        ...right.filter(c => !left.includes(c)),
+      ];
+      const titles = horizontal ? right.filter(c => !left.includes(c) && c.attrs.label).length : 0;
+      return boundaries.length * (CLUSTER_PADDING + 6) + titles * DEFAULT_FONT_SIZE * 1.4;
+    };
+    this.assignCoordinates(layers, layoutNodes, chains, nodesep, ranksep, clusterGap);
+
+    // 映射回实际方向
+    let width = 0;
+    let height = 0;
+    for (const node of layoutNodes.values()) {
+      if (horizontal) [node.x, node.y] = [node.y, node.x];
+      const size = sizes.get(node.id) ?? { width: node.width, height: node.height };
+      width = Math.max(width, node.x + size.width / 2);
+      height = Math.max(height, node.y + size.height / 2);
+    }
+    width += MARGIN + (selfLoops.length ? 40 : 0);
+    height += MARGIN;
+    for (const node of layoutNodes.values()) {
+      if (rankdir === 'BT') node.y = height - node.y;
+      if (rankdir === 'RL') node.x = width - node.x;
+    }
+
+    return this.buildScene(
+      graph,
+      layoutNodes,
+      sizes,
+      edges,
+      reversed,
+      chains,
+      selfLoops,
+      width,
+      height
+    );
+  }
+
+  /**
+   * 节点尺寸：按标签文本与形状计算
+   */
+  private nodeSize(node: DotNode, fontSize: number): { width: number; height: number } {
+    const shape = (node.attrs.shape ?? 'ellipse').toLowerCase();
+    const lines = labelLines(node.attrs.label ?? node.id, node.id);
+    const textWidth = Math.max(...lines.map(line => measureText(line, fontSize)), fontSize);
+    const textHeight = lines.length * fontSize * 1.2;
+    let width: number;
+    let height: number;
+
+    switch (shape) {
+      case 'point':
+        width = height = 8;
+        break;
+      case 'plaintext':
+      case 'plain':
+      case 'none':
+        width = textWidth + 8;
+        height = textHeight + 4;
+        break;
+      case 'circle':
+      case 'doublecircle':
+        width = height = Math.max(textWidth, textHeight) * 1.2 + 16;
+        break;
+      case 'diamond':
+        width = textWidth * 1.6 + 36;
+        height = textHeight * 1.6 + 24;
+        break;
+      case 'ellipse':
+      case 'oval':
+        width = textWidth * 1.25 + 24;
+        height = Math.max(textHeight * 1.4 + 8, 36);
+        break;
+      default:
+        width = textWidth + 24;
+        height = Math.max(textHeight + 16, 36);
+    }
+
+    // width/height 属性单位为英寸，作为最小尺寸
+    width = Math.max(width, toNumber(node.attrs.width, 0) * 72);
+    height = Math.max(height, toNumber(node.attrs.height, 0) * 72);
+    if (shape === 'square' || shape === 'circle' || shape === 'doublecircle') {
+      width = height = Math.max(width, height);
+    }
+    return { width: shape === 'point' ? width : Math.max(width, 54), height };
+  }
+
+  /**
+   * 深度优先搜索找出回边，返回需要反向的边下标
+   */
+  private breakCycles(ids: string[], edges: DotEdge[]): Set<number> {
+    const outgoing = new Map<string, number[]>();
+    edges.forEach((edge, index) => {
+      if (!outgoing.has(edge.from)) outgoing.set(edge.from, []);
+      outgoing.get(edge.from)!.push(index);
+    });
+
+    const reversed = new Set<number>();
+    const state = new Map<string, 'visiting' | 'done'>();
+    const visit = (id: string) => {
+      state.set(id, 'visiting');
+      for (const index of outgoing.get(id) ?? []) {
+        const target = edges[index].to;
+        if (state.get(target) === 'visiting') reversed.add(index);
+        else if (!state.has(target)) visit(target);
+      }
+      state.set(id, 'done');
+    };
+    for (const id of ids) if (!state.has(id)) visit(id);
+    return reversed;
+  }
+
+  /**
+   * 最长路径分层，并处理 rank=same 分组
+   */
+  private assignRanks(
+    nodes: Map<string, LayoutNode>,
+    edges: Array<{ from: string; to: string }>,
+    sameRanks: string[][]
+  ): void {
+    const ids = [...nodes.keys()];
+    const incoming = new Map(ids.map(id => [id, 0]));
+    for (const edge of edges) incoming.set(edge.to, incoming.get(edge.to)! + 1);
+
+    const queue = ids.filter(id => incoming.get(id) === 0);
+    const order: string[] = [];
+    while (queue.length) {
+      const id = queue.shift()!;
+      order.push(id);
+      for (const edge of edges) {
+        if (edge.from !== id) continue;
+        const target = nodes.get(edge.to)!;
+        target.rank = Math.max(target.rank, nodes.get(id)!.rank + 1);
+        incoming.set(edge.to, incoming.get(edge.to)! - 1);
+        if (incoming.get(edge.to) === 0) queue.push(edge.to);
+      }
+    }
+
+    // 同层约束：对齐到组内最大层后重新传播
+    for (let iteration = 0; iteration < ids.length && sameRanks.length; iteration++) {
+      let changed = false;
+      for (const group of sameRanks) {
+        const rank = Math.max(...group.map(id => nodes.get(id)?.rank ?? 0));
+        for (const id of group) {
+          const node = nodes.get(id);
+          if (node && node.rank !== rank) {
+            node.rank = rank;
+            changed = true;
+          }
+        }
+      }
+      for (const id of order) {
+        for (const edge of edges) {
+          if (edge.from !== id) continue;
+          const target = nodes.get(edge.to)!;
+          if (target.rank <= nodes.get(id)!.rank) {
+            target.rank = nodes.get(id)!.rank + 1;
+            changed = true;
+          }
+        }
+      }
+      if (!changed) break;
+    }
+
+    // 没有入边的节点下移到紧邻其后继的层
+    const grouped = new Set(sameRanks.flat());
+    for (const id of order.reverse()) {
+      const node = nodes.get(id)!;
+      if (grouped.has(id) || edges.some(edge => edge.to === id)) continue;
+      const successors = edges
+        .filter(edge => edge.from === id)
+        .map(edge => nodes.get(edge.to)!.rank);
+      if (successors.length) node.rank = Math.max(node.rank, Math.min(...successors) - 1);
+    }
+
+    // 压缩空层
+    const used = [...new Set([...nodes.values()].map(node => node.rank))].sort((a, b) => a - b);
+    for (const node of nodes.values()) node.rank = used.indexOf(node.rank);
+  }
+
+  /**
+   * 重心法排序各层节点，保留交叉数最少的结果
+   */
+  private orderLayers(
+    nodes: Map<string, LayoutNode>,
+    chains: string[][],
+    memberships: Map<string, DotCluster[]>
+  ): string[][] {
+    const maxRank = Math.max(0, ...[...nodes.values()].map(node => node.rank));
+    const layers: string[][] = Array.from({ length: maxRank + 1 }, () => []);
+    const up = new Map<string, string[]>();
+    const down = new Map<string, string[]>();
+    for (const chain of chains) {
+      for (let i = 0; i < chain.length - 1; i++) {
+        if (!down.has(chain[i])) down.set(chain[i], []);
+        if (!up.has(chain[i + 1])) up.set(chain[i + 1], []);
+        down.get(chain[i])!.push(chain[i + 1]);
+        up.get(chain[i + 1])!.push(chain[i]);
+      }
+    }
+
+    // 初始顺序：从各源点深度优先遍历
+    const seen = new Set<string>();
+    const place = (id: string) => {
+      if (seen.has(id)) return;
+      seen.add(id);
+      layers[nodes.get(id)!.rank].push(id);
+      for (const next of down.get(id) ?? []) place(next);
+    };
+    for (const node of nodes.values()) if (!up.get(node.id)?.length) place(node.id);
+    for (const node of nodes.values()) place(node.id);
+    for (const layer of layers) this.groupByCluster(layer, memberships);
+    const apply = (order: string[][]) =>
+      order.forEach(layer => layer.forEach((id, index) => (nodes.get(id)!.order = index)));
+    apply(layers);
+
+    let best = layers.map(layer => [...layer]);
+    let bestCrossings = this.countCrossings(layers, nodes, down);
+    for (let iteration = 0; iteration < 16 && bestCrossings > 0; iteration++) {
+      const downward = iteration % 2 === 0;
+      const ranks = layers.map((_, index) => index);
+      for (const rank of downward ? ranks.slice(1) : ranks.reverse().slice(1)) {
+        const neighbours = downward ? up : down;
+        const barycenter = new Map<string, number>();
+        for (const id of layers[rank]) {
+          const adjacent = neighbours.get(id) ?? [];
+          barycenter.set(
+            id,
+            adjacent.length
+              ? adjacent.reduce((sum, other) => sum + nodes.get(other)!.order, 0) / adjacent.length
+              : nodes.get(id)!.order
+          );
+        }
+        layers[rank].sort((a, b) => barycenter.get(a)! - barycenter.get(b)!);
+        this.groupByCluster(layers[rank], memberships);
+        layers[rank].forEach((id, index) => (nodes.get(id)!.order = index));
+      }
+      this.transpose(layers, nodes, down, memberships);
+
+      const crossings = this.countCrossings(layers, nodes, down);
+      if (crossings < bestCrossings) {
+        bestCrossings = crossings;
+        best = layers.map(layer => [...layer]);
+      }
+    }
+    apply(best);
+    return best;
+  }
+
+  /**
+   * 相邻节点交换，交叉数减少时保留
+   */
+  private transpose(
+    layers: string[][],
+    nodes: Map<string, LayoutNode>,
+    down: Map<string, string[]>,
+    memberships: Map<string, DotCluster[]>
+  ): void {
+    const sameClusters = (a: string, b: string) => {
+      const left = memberships.get(a) ?? [];
+      const right = memberships.get(b) ?? [];
+      return left.length === right.length && left.every((cluster, i) => cluster === right[i]);
+    };
+    for (let rank = 0; rank < layers.length; rank++) {
+      const layer = layers[rank];
+      for (let i = 0; i < layer.length - 1; i++) {
+        if (!sameClusters(layer[i], layer[i + 1])) continue;
+        const before = this.countCrossings(layers, nodes, down);
+        [layer[i], layer[i + 1]] = [layer[i + 1], layer[i]];
+        nodes.get(layer[i])!.order = i;
+        nodes.get(layer[i + 1])!.order = i + 1;
+        if (this.countCrossings(layers, nodes, down) >= before) {
+          [layer[i], layer[i + 1]] = [layer[i + 1], layer[i]];
+          nodes.get(layer[i])!.order = i;
+          nodes.get(layer[i + 1])!.order = i + 1;
+        }
+      }
+    }
+  }
+
+  /**
+   * 同一分组的节点在层内保持连续：由内到外逐级按分组平均位置稳定排序
+   */
+  private groupByCluster(layer: string[], memberships: Map<string, DotCluster[]>): void {
+    const depth = Math.max(0, ...layer.map(id => memberships.get(id)?.length ?? 0));
+    for (let level = depth - 1; level >= 0; level--) {
+      const key = (id: string) => memberships.get(id)?.[level] ?? id;
+      const positions = new Map<string | DotCluster, number[]>();
+      layer.forEach((id, index) => {
+        if (!positions.has(key(id))) positions.set(key(id), []);
+        positions.get(key(id))!.push(index);
+      });
+      const rank = (id: string) => {
+        const indexes = positions.get(key(id))!;
+        return indexes.reduce((sum, index) => sum + index, 0) / indexes.length + indexes[0] * 1e-6;
+      };
+      const current = new Map(layer.map((id, index) => [id, index]));
+      layer.sort((a, b) => rank(a) - rank(b) || current.get(a)! - current.get(b)!);
+    }
+  }
+
+  private countCrossings(
+    layers: string[][],
+    nodes: Map<string, LayoutNode>,
+    down: Map<string, string[]>
+  ): number {
+    let crossings = 0;
+    for (let rank = 0; rank < layers.length - 1; rank++) {
+      const segments: Array<[number, number]> = [];
+      for (const id of layers[rank]) {
+        for (const target of down.get(id) ?? []) {
+          segments.push([nodes.get(id)!.order, nodes.get(target)!.order]);
+        }
+      }
+      for (let i = 0; i < segments.length; i++) {
+        for (let j = i + 1; j < segments.length; j++) {
+          const [a1, b1] = segments[i];
+          const [a2, b2] = segments[j];
+          if ((a1 - a2) * (b1 - b2) < 0) crossings++;
+        }
+      }
+    }
+    return crossings;
+  }
+
+  /**
+   * 坐标分配：各层按序排列后，反复向相邻层邻居的均值靠拢（保序回归保证最小间距）
+   */
+  private assignCoordinates(
+    layers: string[][],
+    nodes: Map<string, LayoutNode>,
+    chains: string[][],
+    nodesep: number,
+    ranksep: number,
+    clusterGap: (a: string, b: string) => number
+  ): void {
+    const neighbours = new Map<string, string[]>();
+    for (const chain of chains) {
+      for (let i = 0; i < chain.length - 1; i++) {
+        if (!neighbours.has(chain[i])) neighbours.set(chain[i], []);
+        if (!neighbours.has(chain[i + 1])) neighbours.set(chain[i + 1], []);
+        neighbours.get(chain[i])!.push(chain[i + 1]);
+        neighbours.get(chain[i + 1])!.push(chain[i]);
+      }
+    }
+    const gap = (a: LayoutNode, b: LayoutNode) =>
+      (a.width + b.width) / 2 +
+      (a.virtual && b.virtual ? nodesep / 3 : nodesep) +
+      clusterGap(a.id, b.id);
+
+    for (const layer of layers) {
+      let x = 0;
+      layer.forEach((id, index) => {
+        const node = nodes.get(id)!;
+        if (index > 0) x += gap(nodes.get(layer[index - 1])!, node);
+        node.x = x;
+      });
+    }
+
+    for (let iteration = 0; iteration < 24; iteration++) {
+      const ranks = layers.map((_, index) => index);
+      for (const rank of iteration % 2 === 0 ? ranks : ranks.reverse()) {
+        const layer = layers[rank];
+        const desired = layer.map(id => {
+          const adjacent = neighbours.get(id) ?? [];
+          const node = nodes.get(id)!;
+          if (!adjacent.length) return node.x;
+          // 虚拟节点权重更高，使长边尽量保持竖直
+          const weight = (other: string) => (nodes.get(other)!.virtual || node.virtual ? 2 : 1);
+          const total = adjacent.reduce((sum, other) => sum + weight(other), 0);
+          return (
+            adjacent.reduce((sum, other) => sum + nodes.get(other)!.x * weight(other), 0) / total
+          );
+        });
+        const offsets = [0];
+        for (let i = 1; i < layer.length; i++) {
+          offsets.push(offsets[i - 1] + gap(nodes.get(layer[i - 1])!, nodes.get(layer[i])!));
+        }
+        const fitted = isotonicRegression(desired.map((value, i) => value - offsets[i]));
+        layer.forEach((id, i) => (nodes.get(id)!.x = fitted[i] + offsets[i]));
+      }
+    }
+
+    const minX = Math.min(...[...nodes.values()].map(node => node.x - node.width / 2));
+    let y = MARGIN;
+    for (const layer of layers) {
+      const height = Math.max(0, ...layer.map(id => nodes.get(id)!.height));
+      for (const id of layer) {
+        const node = nodes.get(id)!;
+        node.x += MARGIN - minX;
+        node.y = y + height / 2;
+      }
+      y += height + ranksep;
+    }
+  }
+
+  /**
+   * 生成场景图元：分组框 → 边 → 节点 → 标签
+   */
+  private buildScene(
+    graph: DotGraph,
+    nodes: Map<string, LayoutNode>,
+    sizes: Map<string, { width: number; height: number }>,
+    edges: DotEdge[],
+    reversed: Set<number>,
+    chains: string[][],
+    selfLoops: DotEdge[],
+    width: number,
+    height: number
+  ): DiagramScene {
+    const items: SceneItem[] = [];
+    const shapeOf = (id: string) => (graph.nodes.get(id)?.attrs.shape ?? 'ellipse').toLowerCase();
+    const bounds = (id: string) => {
+      const node = nodes.get(id)!;
+      const size = sizes.get(id)!;
+      return { x: node.x, y: node.y, hw: size.width / 2, hh: size.height / 2 };
+    };
+
+    // 分组框：外层先画，嵌套越深的外层留白越大；超出画布时整体平移
+    const clusters = graph.clusters
+      .filter(cluster => [...cluster.nodes].some(id => nodes.has(id)))
+      .sort((a, b) => b.nodes.size - a.nodes.size);
+    const depth = (cluster: DotCluster): number => {
+      const inner = clusters.filter(
+        other =>
+          other !== cluster &&
+          other.nodes.size < cluster.nodes.size &&
+          [...other.nodes].every(id => cluster.nodes.has(id))
+      );
+      return inner.length ? 1 + Math.max(...inner.map(depth)) : 0;
+    };
+    const clusterBox = (cluster: DotCluster) => {
+      const members = [...cluster.nodes].filter(id => nodes.has(id)).map(bounds);
+      const padding = CLUSTER_PADDING + depth(cluster) * 10;
+      const fontSize = toNumber(cluster.attrs.fontsize, DEFAULT_FONT_SIZE);
+      return {
+        top:
+          Math.min(...members.map(b => b.y - b.hh)) -
+          padding -
+          (cluster.attrs.label ? fontSize * 1.4 : 0),
+        left: Math.min(...members.map(b => b.x - b.hw)) - padding,
+        right: Math.max(...members.map(b => b.x + b.hw)) + padding,
+        bottom: Math.max(...members.map(b => b.y + b.hh)) + padding,
+      };
+    };
+    if (clusters.length) {
+      const boxes = clusters.map(clusterBox);
+      const dx = Math.max(0, MARGIN - Math.min(...boxes.map(box => box.left)));
+      const dy = Math.max(0, MARGIN - Math.min(...boxes.map(box => box.top)));
+      for (const node of nodes.values()) {
+        node.x += dx;
+        node.y += dy;
+      }
+      width += dx;
+      height += dy;
+    }
+
+    for (const cluster of clusters) {
+      const { top, left, right, bottom } = clusterBox(cluster);
+      const fontSize = toNumber(cluster.attrs.fontsize, DEFAULT_FONT_SIZE);
+      const label = cluster.attrs.label ?? '';
+      const styles = styleList(cluster.attrs.style);
+      const stroke = toColor(cluster.attrs.pencolor ?? cluster.attrs.color, '#000000');
+      const fill = styles.has('filled')
+        ? toColor(
+            cluster.attrs.fillcolor ?? cluster.attrs.color ?? cluster.attrs.bgcolor,
+            '#d3d3d3'
+          )
+        : toColor(cluster.attrs.bgcolor, 'none');
+      items.push({
+        kind: 'path',
+        commands: rectPath(left, top, right - left, bottom - top, styles.has('rounded') ? 8 : 0),
+        fill,
+        stroke,
+        strokeWidth: 1,
+        dash: dashFor(styles),
+      });
+      if (label) {
+        items.push({
+          kind: 'text',
+          x: (left + right) / 2,
+          y: top + fontSize * 0.9,
+          text: label,
+          fontSize,
+          color: toColor(cluster.attrs.fontcolor, '#000000'),
+          anchor: 'middle',
+        });
+      }
+      width = Math.max(width, right + MARGIN);
+      height = Math.max(height, bottom + MARGIN);
+    }
+
+    // 边：同一对节点间的多条相邻边向两侧弯开
+    const pairKey = (edge: DotEdge) => [edge.from, edge.to].sort().join('\u0000');
+    const parallel = new Map<string, number[]>();
+    edges.forEach((edge, index) => {
+      if (chains[index].length > 2) return;
+      if (!parallel.has(pairKey(edge))) parallel.set(pairKey(edge), []);
+      parallel.get(pairKey(edge))!.push(index);
+    });
+
+    edges.forEach((edge, index) => {
+      let points: Array<[number, number]> = chains[index].map(id => [
+        nodes.get(id)!.x,
+        nodes.get(id)!.y,
+      ]);
+      if (reversed.has(index)) points = points.reverse();
+      const siblings = parallel.get(pairKey(edge)) ?? [];
+      if (siblings.length > 1) {
+        const [[x1, y1], [x2, y2]] = points;
+        const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+        // 以固定方向（from < to）计算法线，保证往返两条边分居两侧
+        const sign = edge.from < edge.to ? 1 : -1;
+        const offset = (siblings.indexOf(index) - (siblings.length - 1) / 2) * 24 * sign;
+        points.splice(1, 0, [
+          (x1 + x2) / 2 - ((y2 - y1) / length) * offset,
+          (y1 + y2) / 2 + ((x2 - x1) / length) * offset,
+        ]);
+      }
+      points[0] = clipToShape(points[0], points[1], bounds(edge.from), shapeOf(edge.from));
+      const last = points.length - 1;
+      points[last] = clipToShape(points[last], points[last - 1], bounds(edge.to), shapeOf(edge.to));
+      const labelAt: [number, number] =
+        points.length > 2
+          ? points[Math.floor(points.length / 2)]
+          : [(points[0][0] + points[last][0]) / 2, (points[0][1] + points[last][1]) / 2];
+      items.push(...this.edgeItems(graph, edge, points, labelAt));
+    });
+
+    for (const edge of selfLoops) {
+      if (isInvisible(edge.attrs)) continue;
+      const { x, y, hw, hh } = bounds(edge.from);
+      const start: [number, number] = [x + hw * 0.9, y - hh * 0.45];
+      const end: [number, number] = [x + hw * 0.9, y + hh * 0.45];
+      const loop: Array<[number, number]> = [
+        start,
+        [x + hw + 28, y - hh * 0.2],
+        [x + hw + 28, y + hh * 0.2],
+        end,
+      ];
+      items.push(...this.edgeItems(graph, edge, loop, [x + hw + 34, y], 'start'));
+    }
+
+    // 节点与标签
+    for (const node of graph.nodes.values()) {
+      if (isInvisible(node.attrs)) continue;
+      items.push(...this.nodeItems(node, bounds(node.id)));
+    }
+
+    // 图标题（默认位于底部）
+    if (graph.attrs.label) {
+      const fontSize = toNumber(graph.attrs.fontsize, DEFAULT_FONT_SIZE + 2);
+      const atTop = graph.attrs.labelloc?.toLowerCase() === 't';
+      if (atTop) {
+        for (const item of items) this.shift(item, fontSize * 1.8);
+      }
+      height += fontSize * 1.8;
+      items.push({
+        kind: 'text',
+        x: width / 2,
+        y: atTop ? MARGIN + fontSize * 0.6 : height - MARGIN - fontSize * 0.6,
+        text: graph.attrs.label.replace(/\\n/g, ' '),
+        fontSize,
+        color: toColor(graph.attrs.fontcolor, '#000000'),
+        anchor: 'middle',
+      });
+    }
+
+    return { width, height, background: toColor(graph.attrs.bgcolor, '#ffffff'), items };
+  }
+
+  private nodeItems(
+    node: DotNode,
+    box: { x: number; y: number; hw: number; hh: number }
+  ): SceneItem[] {
+    const items: SceneItem[] = [];
+    const { x, y, hw, hh } = box;
+    const attrs = node.attrs;
+    const shape = (attrs.shape ?? 'ellipse').toLowerCase();
+    const styles = styleList(attrs.style);
+    const stroke = toColor(attrs.color, '#000000');
+    const fill =
+      styles.has('filled') || shape === 'point'
+        ? toColor(attrs.fillcolor ?? attrs.color, shape === 'point' ? '#000000' : '#d3d3d3')
+        : 'none';
+    const strokeWidth = toNumber(attrs.penwidth, styles.has('bold') ? 2 : 1);
+    const dash = dashFor(styles);
+    const outline = (commands: PathCommand[]) =>
+      items.push({ kind: 'path', commands, fill, stroke, strokeWidth, dash });
+
+    switch (shape) {
+      case 'plaintext':
+      case 'plain':
+      case 'none':
+        break;
+      case 'ellipse':
+      case 'oval':
+      case 'circle':
+      case 'point':
+        outline(ellipsePath(x, y, hw, hh));
+        break;
+      case 'doublecircle':
+        outline(ellipsePath(x, y, hw, hh));
+        items.push({
+          kind: 'path',
+          commands: ellipsePath(x, y, hw - 4, hh - 4),
+          stroke,
+          strokeWidth,
+        });
+        break;
+      case 'diamond':
+        outline(
+          polygonPath([
+            [x, y - hh],
+            [x + hw, y],
+            [x, y + hh],
+            [x - hw, y],
+          ])
+        );
+        break;
+      case 'hexagon':
+        outline(
+          polygonPath([
+            [x - hw, y],
+            [x - hw / 2, y - hh],
+            [x + hw / 2, y - hh],
+            [x + hw, y],
+            [x + hw / 2, y + hh],
+            [x - hw / 2, y + hh],
+          ])
+        );
+        break;
+      case 'parallelogram':
+        outline(
+          polygonPath([
+            [x - hw + 12, y - hh],
+            [x + hw, y - hh],
+            [x + hw - 12, y + hh],
+            [x - hw, y + hh],
+          ])
+        );
+        break;
+      case 'cylinder': {
+        const ry = Math.min(8, hh / 3);
+        outline([
+          ['M', x - hw, y - hh + ry],
+          ...ellipseArc(x, y - hh + ry, hw, ry, true),
+          ['L', x + hw, y + hh - ry],
+          ...ellipseArc(x, y + hh - ry, hw, ry, false),
+          ['Z'],
+        ]);
+        items.push({
+          kind: 'path',
+          commands: [['M', x - hw, y - hh + ry], ...ellipseArc(x, y - hh + ry, hw, ry, false)],
+          stroke,
+          strokeWidth,
+        });
+        break;
+      }
+      default:
+        outline(rectPath(x - hw, y - hh, hw * 2, hh * 2, styles.has('rounded') ? 8 : 0));
+    }
+
+    if (shape === 'point') return items;
+    const fontSize = toNumber(attrs.fontsize, DEFAULT_FONT_SIZE);
+    const lines = labelLines(attrs.label ?? node.id, node.id);
+    lines.forEach((line, index) => {
+      items.push({
+        kind: 'text',
+        x,
+        y: y + (index - (lines.length - 1) / 2) * fontSize * 1.2,
+        text: line,
+        fontSize,
+        color: toColor(attrs.fontcolor, '#000000'),
+        anchor: 'middle',
+      });
+    });
+    return items;
+  }
+
+  private edgeItems(
+    graph: DotGraph,
+    edge: DotEdge,
+    points: Array<[number, number]>,
+    labelAt: [number, number],
+    labelAnchor: 'middle' | 'start' = 'middle'
+  ): SceneItem[] {
+    const items: SceneItem[] = [];
+    const attrs = edge.attrs;
+    const styles = styleList(attrs.style);
+    const color = toColor(attrs.color, '#000000');
+    const strokeWidth = toNumber(attrs.penwidth, styles.has('bold') ? 2 : 1);
+    const dir = (attrs.dir ?? (graph.directed ? 'forward' : 'none')).toLowerCase();
+    const head =
+      dir === 'forward' || dir === 'both' ? (attrs.arrowhead ?? 'normal').toLowerCase() : 'none';
+    const tail =
+      dir === 'back' || dir === 'both' ? (attrs.arrowtail ?? 'normal').toLowerCase() : 'none';
+
+    const line = [...points];
+    const arrows: SceneItem[] = [];
+    if (head !== 'none') {
+      const tip = line[line.length - 1];
+      arrows.push(...arrowItems(head, tip, line[line.length - 2], color, strokeWidth));
+      line[line.length - 1] = retreat(tip, line[line.length - 2], ARROW_LENGTH);
+    }
+    if (tail !== 'none') {
+      const tip = line[0];
+      arrows.push(...arrowItems(tail, tip, line[1], color, strokeWidth));
+      line[0] = retreat(tip, line[1], ARROW_LENGTH);
+    }
+
+    items.push({
+      kind: 'path',
+      commands: smoothPath(line),
+      stroke: color,
+      strokeWidth,
+      dash: dashFor(styles),
+    });
+    items.push(...arrows);
+
+    if (attrs.label) {
+      const fontSize = toNumber(attrs.fontsize, DEFAULT_FONT_SIZE - 2);
+      const lines = labelLines(attrs.label, '');
+      const labelWidth = Math.max(...lines.map(text => measureText(text, fontSize)));
+      const labelHeight = lines.length * fontSize * 1.2;
+      const left = labelAnchor === 'middle' ? labelAt[0] - labelWidth / 2 : labelAt[0];
+      items.push({
+        kind: 'path',
+        commands: rectPath(left - 2, labelAt[1] - labelHeight / 2, labelWidth + 4, labelHeight),
+        fill: toColor(graph.attrs.bgcolor, '#ffffff'),
+      });
+      lines.forEach((text, index) => {
+        items.push({
+          kind: 'text',
+          x: labelAt[0],
+          y: labelAt[1] + (index - (lines.length - 1) / 2) * fontSize * 1.2,
+          text,
+          fontSize,
+          color: toColor(attrs.fontcolor, '#000000'),
+          anchor: labelAnchor,
+        });
+      });
+    }
+    return items;
+  }
+
+  private shift(item: SceneItem, dy: number): void {
+    if (item.kind === 'text') {
+      item.y += dy;
+      return;
+    }
+    item.commands = item.commands.map(command => {
+      if (command[0] === 'Z') return command;
+      const values = command.slice(1) as number[];
+      return [
+        command[0],
+        ...values.map((value, index) => (index % 2 ? value + dy : value)),
+      ] as PathCommand;
+    });
+  }
+}
+
+/**
+ * 保序回归（PAV）：求非递减序列使与输入的平方误差最小
+ */
+function isotonicRegression(values: number[]): number[] {
+  const blocks: Array<{ sum: number; count: number }> = [];
+  for (const value of values) {
+    blocks.push({ sum: value, count: 1 });
+    while (
+      blocks.length > 1 &&
+      blocks[blocks.length - 2].sum / blocks[blocks.length - 2].count >
+        blocks[blocks.length - 1].sum / blocks[blocks.length - 1].count
+    ) {
+      const last = blocks.pop()!;
+      blocks[blocks.length - 1].sum += last.sum;
+      blocks[blocks.length - 1].count += last.count;
+    }
+  }
+  return blocks.flatMap(block => Array(block.count).fill(block.sum / block.count));
+}
+
+/**
+ * 从中心指向 toward 的射线与节点边界的交点
+ */
+function clipToShape(
+  center: [number, number],
+  toward: [number, number],
+  box: { hw: number; hh: number },
+  shape: string
+): [number, number] {
+  const dx = toward[0] - center[0];
+  const dy = toward[1] - center[1];
+  if (!dx && !dy) return center;
+  let t: number;
+  if (['ellipse', 'oval', 'circle', 'doublecircle', 'point'].includes(shape)) {
+    t = 1 / Math.sqrt((dx / box.hw) ** 2 + (dy / box.hh) ** 2);
+  } else if (shape === 'diamond') {
+    t = 1 / (Math.abs(dx) / box.hw + Math.abs(dy) / box.hh);
+  } else {
+    t = Math.min(dx ? box.hw / Math.abs(dx) : Infinity, dy ? box.hh / Math.abs(dy) : Infinity);
+  }
+  t = Math.min(t, 1);
+  return [center[0] + dx * t, center[1] + dy * t];
+}
+
+function retreat(
+  tip: [number, number],
+  from: [number, number],
+  distance: number
+): [number, number] {
+  const length = Math.hypot(tip[0] - from[0], tip[1] - from[1]) || 1;
+  const ratio = Math.min(distance / length, 0.9);
+  return [tip[0] + (from[0] - tip[0]) * ratio, tip[1] + (from[1] - tip[1]) * ratio];
+}
+
+function arrowItems(
+  kind: string,
+  tip: [number, number],
+  from: [number, number],
+  color: string,
+  strokeWidth: number
+): SceneItem[] {
+  const length = Math.hypot(tip[0] - from[0], tip[1] - from[1]) || 1;
+  const ux = (tip[0] - from[0]) / length;
+  const uy = (tip[1] - from[1]) / length;
+  const base: [number, number] = [tip[0] - ux * ARROW_LENGTH, tip[1] - uy * ARROW_LENGTH];
+  const side = (scale: number): [number, number] => [
+    base[0] - uy * (ARROW_WIDTH / 2) * scale,
+    base[1] + ux * (ARROW_WIDTH / 2) * scale,
+  ];
+
+  if (kind === 'dot' || kind === 'odot') {
+    return [
+      {
+        kind: 'path',
+        commands: ellipsePath(tip[0] - ux * 4, tip[1] - uy * 4, 4, 4),
+        fill: kind === 'dot' ? color : '#ffffff',
+        stroke: color,
+        strokeWidth,
+      },
+    ];
+  }
+  const points: Array<[number, number]> =
+    kind === 'vee'
+      ? [
+          tip,
+          side(1),
+          [tip[0] - ux * ARROW_LENGTH * 0.6, tip[1] - uy * ARROW_LENGTH * 0.6],
+          side(-1),
+        ]
+      : [tip, side(1), side(-1)];
+  return [
+    {
+      kind: 'path',
+      commands: polygonPath(points),
+      fill: kind === 'empty' || kind === 'onormal' ? '#ffffff' : color,
+      stroke: color,
+      strokeWidth,
+    },
+  ];
+}
+
+// 椭圆的上半或下半弧（从左端到右端）
+function ellipseArc(cx: number, cy: number, rx: number, ry: number, upper: boolean): PathCommand[] {
+  const k = 0.5523;
+  const sign = upper ? -1 : 1;
+  return [
+    ['C', cx - rx, cy + sign * ry * k, cx - rx * k, cy + sign * ry, cx, cy + sign * ry],
+    ['C', cx + rx * k, cy + sign * ry, cx + rx, cy + sign * ry * k, cx + rx, cy],
+  ];
+}
+
+function labelLines(label: string, id: string): string[] {
+  return label
+    .replace(/\\N/g, id)
+    .split(/\\[nlr]|\n/)
+    .map(line => line.trim())
+    .filter((line, index, lines) => line || lines.length === 1);
+}
+
+function styleList(style?: string): Set<string> {
+  return new Set(
+    (style ?? '')
+      .toLowerCase()
+      .split(/[\s,]+/)
+      .filter(Boolean)
+  );
+}
+
+function dashFor(styles: Set<string>): number[] | undefined {
+  if (styles.has('dashed')) return [6, 4];
+  if (styles.has('dotted')) return [1.5, 3];
+  return undefined;
+}
+
+function isInvisible(attrs: Attributes): boolean {
+  return styleList(attrs.style).has('invis');
+}
+
+function toNumber(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined ? NaN : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * DOT 颜色：#rrggbb[aa]、颜色名、"H S V" 三元组；多色列表取第一个
+ */
+function toColor(value: string | undefined, fallback: string): string {
+  if (!value) return fallback;
+  const color = value
+    .split(':')[0]
+    .trim()
+    .toLowerCase()
+    .replace(/^\/\w+\//, '');
+  if (/^#[0-9a-f]{6}/.test(color)) return color.slice(0, 7);
+  if (/^#[0-9a-f]{3}$/.test(color)) return '#' + color.slice(1).replace(/./g, c => c + c);
+  const hsv = color.split(/[\s,]+/).map(Number);
+  if (hsv.length === 3 && hsv.every(n => Number.isFinite(n) && n >= 0 && n <= 1)) {
+    return hsvToHex(hsv[0], hsv[1], hsv[2]);
+  }
+  return NAMED_COLORS[color.replace(/\d+$/, '')] ?? fallback;
+}
+
+function hsvToHex(h: number, s: number, v: number): string {
+  const i = Math.floor(h * 6);
+  const f = h * 6 - i;
+  const p = v * (1 - s);
+  const q = v * (1 - f * s);
+  const t = v * (1 - (1 - f) * s);
+  const [r, g, b] = [
+    [v, t, p],
+    [q, v, p],
+    [p, v, t],
+    [p, q, v],
+    [t, p, v],
+    [v, p, q],
+  ][i % 6];
+  return (
+    '#' +
+    [r, g, b]
+      .map(c =>
+        Math.round(c * 255)
+          .toString(16)
+          .padStart(2, '0')
+      )
+      .join('')
+  );
+}
+
+/**
+ * 便捷函数：DOT 源码布局为场景
+ */
+export function layoutDot(source: string): DiagramScene {
+  return new DotLayoutEngine().layout(source);
+}
+
+export { DotLayoutEngine, DotParser, DotGraph, DotNode, DotEdge, DotCluster };
@@ -13,6 +13,9 @@ import {
   UnderlineType,
 } from 'docx';
 import { promises as fs } from 'fs';
+import { SyntaxHighlighter } from './syntaxHighlighter';
+import { DocxTableBuilder, HtmlTableCell, cssColorToHex } from './docxTableBuilder';
+import { DocxNumbering, ListItemSpec, listKindOf, taskMarker } from './docxNumbering';
 const cheerio = require('cheerio');
 const path = require('path');
 
@@ -33,10 +36,28 @@ interface ParsedElement {
   html: string;
   styles: any;
   children: ParsedElement[];
+  node?: any; // 原始节点，表格转换需要按网格和计算样式处理
 }
 
+// 单元格中按块级处理的元素，其余节点合并为行内段落
+const CELL_BLOCK_TAGS = new Set([
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'pre',
+  'blockquote',
+  'ul',
+  'ol',
+]);
+const CELL_CONTAINER_TAGS = new Set(['div', 'section', 'article', 'figure']);
+
 class EnhancedHtmlToDocxConverter {
   private styleMap: Map<string, StyleMapping> = new Map();
+  private tableBuilder?: DocxTableBuilder;
+  private numbering = new DocxNumbering();
 
   constructor() {
     this.initializeStyles();
@@ -155,6 +176,8 @@ class EnhancedHtmlToDocxConverter {
   async convertHtmlToDocx(htmlContent: string): Promise<Buffer> {
     const $ = cheerio.load(htmlContent);
     const docElements: any[] = [];
+    this.tableBuilder = new DocxTableBuilder($);
+    this.numbering = new DocxNumbering();
 
     // 解析 HTML 结构
     const elements = this.parseHtmlElements($);
@@ -173,6 +196,7 @@ class EnhancedHtmlToDocxConverter {
 
     // 创建文档
     const doc = new Document({
+      numbering: this.numbering.options,
       sections: [
         {
           properties: {},
@@ -202,6 +226,7 @@ class EnhancedHtmlToDocxConverter {
           html: $elem.html(),
           styles: styles,
           children: this.parseChildren($elem),
+          node: elem,
         });
       });
 
@@ -341,7 +366,6 @@ class EnhancedHtmlToDocxConverter {
         return this.createListElements(element, finalStyle, $);
 
       case 'table':
-        // 表格处理（简化版）
         return this.createTableElements(element, finalStyle, $);
 
       default:
@@ -383,7 +407,8 @@ class EnhancedHtmlToDocxConverter {
 
     // 清理HTML内容防止XSS
     const sanitizedHtml = this.sanitizeHtml(html);
-    const $content = $(sanitizedHtml);
+    // 包裹一层容器，避免纯文本片段被 cheerio 当作选择器解析
+    const $content = $(`<span>${sanitizedHtml}</span>`);
 
     if ($content.length === 0) {
       return [this.createSimpleTextRun(element.text, baseStyle)];
@@ -548,73 +573,251 @@ class EnhancedHtmlToDocxConverter {
     return nodeOptions;
   }
 
+  /**
+   * 列表：每个顶层列表登记一套多级编号，嵌套层级、start 和有序/无序混排写入 numbering.xml
+   */
   private createListElements(element: ParsedElement, baseStyle: StyleMapping, $: any): any[] {
     const paragraphs: any[] = [];
-    const sanitizedHtml = this.sanitizeHtml(element.html);
-    const $list = $(sanitizedHtml);
-
-    $list.find('li').each((i: number, li: any) => {
-      const $li = $(li);
-      const text = $li.text();
-      const bullet = element.tag === 'ul' ? '• ' : `${i + 1}. `;
+    // 以列表标签包裹，保证顶层 li 能被找到
+    const $list = element.node
+      ? $(element.node)
+      : $(`<${element.tag}>${this.sanitizeHtml(element.html)}</${element.tag}>`);
+
+    const items: Array<ListItemSpec & { node: any }> = [];
+    this.collectListItems($list, element.tag, 0, items, $);
+    if (items.length === 0) return paragraphs;
+    const reference = this.numbering.register(items);
+
+    for (const item of items) {
+      const $content = $(item.node).clone();
+      $content.children('ul, ol').remove();
+      this.taskCheckbox($content).remove();
+      const html = ($content.html() ?? '')
+        .replace(/\s+/g, ' ')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .trim();
+      const runs = html
+        ? this.createTextRuns(
+            { tag: 'li', text: $content.text().trim(), html, styles: {}, children: [] },
+            baseStyle,
+            $
+          )
+        : [];
+      if (item.checked !== undefined) {
+        runs.unshift(
+          new TextRun({
+            text: `${taskMarker(item.checked)} `,
+            size: baseStyle.size,
+            font: { name: 'Segoe UI Symbol' },
+          })
+        );
+      }
 
-      const listRunOptions: any = {
-        text: bullet + text,
-        size: baseStyle.size,
-        color: baseStyle.color,
-      };
       paragraphs.push(
         new Paragraph({
-          children: [new TextRun(listRunOptions)],
-          indent: {
-            left: 720, // 0.5 inch
-          },
+          children: runs,
+          numbering: { reference, level: Math.min(item.depth, 8) },
+          spacing: { after: 60 },
         })
       );
+    }
+    return paragraphs;
+  }
+
+  /**
+   * 按文档顺序展开列表项，记录层级、列表类型、起始值和任务勾选状态
+   */
+  private collectListItems(
+    $list: any,
+    listTag: string,
+    depth: number,
+    items: Array<ListItemSpec & { node: any }>,
+    $: any
+  ): void {
+    const styles = this.extractStyles($list);
+    const kind = listKindOf(listTag, $list.attr('type'), styles['list-style-type']);
+    const start = parseInt($list.attr('start') ?? '', 10);
+    const $items = $list.children('li');
+    // 全部为任务项的列表不显示项目符号，只保留复选框
+    const allTasks =
+      $items.length > 0 && $items.toArray().every((li: any) => this.taskCheckbox($(li)).length > 0);
+
+    $items.each((i: number, li: any) => {
+      const $li = $(li);
+      const checkbox = this.taskCheckbox($li);
+      items.push({
+        node: li,
+        depth,
+        kind: allTasks ? 'none' : kind,
+        start: isNaN(start) ? undefined : start,
+        checked: checkbox.length > 0 ? checkbox.attr('checked') !== undefined : undefined,
+      });
+
+      $li.children('ul, ol').each((j: number, nested: any) => {
+        this.collectListItems($(nested), nested.tagName.toLowerCase(), depth + 1, items, $);
+      });
     });
+  }
 
-    return paragraphs;
+  /**
+   * 任务列表项开头的复选框（紧凑列表在 li 下，松散列表在首个段落中）
+   */
+  private taskCheckbox($li: any): any {
+    const direct = $li.children('input[type="checkbox"]').first();
+    if (direct.length) return direct;
+    return $li.children('p').first().children('input[type="checkbox"]').first();
   }
 
-  private createTableElements(element: ParsedElement, baseStyle: StyleMapping, $: any): any[] {
-    const paragraphs: any[] = [];
-    const sanitizedHtml = this.sanitizeHtml(element.html);
-    const $table = $(sanitizedHtml);
+  /**
+   * 表格：按网格展开合并单元格，标题行跨页重复，单元格内容按块级元素转换
+   */
+  private createTableElements(
+    element: ParsedElement,
+    baseStyle: StyleMapping,
+    $: any,
+    availableWidth?: number
+  ): any[] {
+    const node = element.node ?? $(`<table>${this.sanitizeHtml(element.html)}</table>`)[0];
+    this.tableBuilder = this.tableBuilder ?? new DocxTableBuilder($);
+    const elements: any[] = [];
+
+    const caption = $(node).children('caption').first();
+    if (caption.length && caption.text().trim()) {
+      elements.push(
+        new Paragraph({
+          alignment: AlignmentType.CENTER,
+          spacing: { before: 120, after: 60 },
+          keepNext: true,
+          children: this.createTextRuns(
+            this.toParsedElement(caption[0], $),
+            { ...baseStyle, bold: true, size: 20 },
+            $
+          ),
+        })
+      );
+    }
 
-    // 简化的表格处理 - 转换为段落
-    $table.find('tr').each((i: number, tr: any) => {
-      const $tr = $(tr);
-      const cells: string[] = [];
+    const table = this.tableBuilder.createTable(
+      node,
+      (cell, width) => this.createCellContent(cell, width, $),
+      availableWidth
+    );
+    if (!table) return elements;
+    elements.push(table);
 
-      $tr.find('td, th').each((j: number, cell: any) => {
-        const $cell = $(cell);
-        cells.push($cell.text());
-      });
+    // 相邻表格之间需要段落分隔，否则 Word 会把它们合并成一个表格
+    elements.push(new Paragraph({ children: [], spacing: { before: 0, after: 120 } }));
+    return elements;
+  }
 
-      if (cells.length > 0) {
-        const tableRunOptions: any = {
-          text: cells.join(' | '),
-          size: baseStyle.size,
-          color: baseStyle.color,
-          bold: $tr.find('th').length > 0, // 表头加粗
-        };
-        paragraphs.push(
-          new Paragraph({
-            children: [new TextRun(tableRunOptions)],
-          })
-        );
+  /**
+   * 单元格内容：连续的行内节点合并为一个段落，段落、列表、代码块和嵌套表格分别转换
+   */
+  private createCellContent(cell: HtmlTableCell, availableWidth: number, $: any): any[] {
+    const children: any[] = [];
+    // 单元格的文字颜色和粗细取计算样式，样式表中为表头设置的白色文字等得以保留
+    const baseStyle: StyleMapping = { size: 20 };
+    if (cell.header || (cell.style?.fontWeight ?? 400) >= 600) baseStyle.bold = true;
+    if (cell.style && cell.style.color.a > 0) baseStyle.color = cssColorToHex(cell.style.color);
+    this.appendCellBlocks(cell.node, cell.node, baseStyle, availableWidth, children, $);
+    return children;
+  }
+
+  private appendCellBlocks(
+    container: any,
+    cellNode: any,
+    baseStyle: StyleMapping,
+    availableWidth: number,
+    children: any[],
+    $: any
+  ): void {
+    let inline: string[] = [];
+    const flush = () => {
+      const html = inline.join('').replace(/^ +| +$/g, '');
+      inline = [];
+      if (html.trim()) {
+        children.push(this.createCellParagraph(html, container, baseStyle, $));
       }
+    };
+
+    $(container)
+      .contents()
+      .each((i: number, node: any) => {
+        const tag = node.type === 'tag' ? node.tagName.toLowerCase() : '';
+        if (node.type === 'text') {
+          inline.push($.html(node).replace(/\s+/g, ' '));
+        } else if (tag === 'br') {
+          inline.push('\n');
+        } else if (tag === 'p') {
+          flush();
+          const html = ($(node).html() ?? '').replace(/\s+/g, ' ').replace(/<br\s*\/?>/gi, '\n');
+          children.push(this.createCellParagraph(html, node, baseStyle, $));
+        } else if (tag === 'table') {
+          flush();
+          children.push(
+            ...this.createTableElements(this.toParsedElement(node, $), baseStyle, $, availableWidth)
+          );
+        } else if (CELL_CONTAINER_TAGS.has(tag)) {
+          flush();
+          this.appendCellBlocks(node, cellNode, baseStyle, availableWidth, children, $);
+        } else if (CELL_BLOCK_TAGS.has(tag)) {
+          flush();
+          const converted = this.createDocxElement(this.toParsedElement(node, $), $);
+          if (Array.isArray(converted)) children.push(...converted);
+          else if (converted) children.push(converted);
+        } else if (tag) {
+          inline.push($.html(node));
+        }
+      });
+    flush();
+  }
+
+  /**
+   * 单元格段落：紧凑行距，对齐方式取元素的计算样式（th 默认居中）
+   */
+  private createCellParagraph(html: string, node: any, baseStyle: StyleMapping, $: any): any {
+    const styles = this.extractStyles($(node));
+    const style = { ...baseStyle, ...this.convertCssToDocx(styles) };
+    const textAlign = this.tableBuilder?.styleOf(node)?.textAlign;
+    const alignment =
+      style.alignment ??
+      (textAlign === 'center'
+        ? AlignmentType.CENTER
+        : textAlign === 'right'
+          ? AlignmentType.RIGHT
+          : textAlign === 'justify'
+            ? AlignmentType.JUSTIFIED
+            : AlignmentType.LEFT);
+    const text = $('<span>').html(html).text();
+
+    return new Paragraph({
+      alignment,
+      spacing: { before: 0, after: 60, line: 276, lineRule: 'auto' },
+      children: this.createTextRuns({ tag: 'p', text, html, styles, children: [] }, style, $),
     });
+  }
 
-    return paragraphs;
+  private toParsedElement(node: any, $: any): ParsedElement {
+    const $node = $(node);
+    return {
+      tag: node.tagName.toLowerCase(),
+      text: $node.text(),
+      html: $node.html() ?? '',
+      styles: this.extractStyles($node),
+      children: this.parseChildren($node),
+      node,
+    };
   }
 
   private createCodeBlock(element: ParsedElement, $: any): any[] {
     const paragraphs: any[] = [];
-    const codeContent = element.text;
+    const codeContent = this.decodeHtmlEntities(element.text);
 
-    // 处理代码块内容，保持格式
-    const lines = codeContent.split('\n');
+    // 按 <code class="language-xxx"> 识别语言并逐词着色
+    const highlighter = new SyntaxHighlighter();
+    const palette = highlighter.getPalette('github');
+    const language = /class="[^"]*\blanguage-([^\s"]+)/.exec(element.html ?? '')?.[1];
+    const lines = highlighter.tokenizeLines(codeContent, language);
 
     // 添加代码块前的空行
     paragraphs.push(
@@ -624,22 +827,24 @@ class EnhancedHtmlToDocxConverter {
       })
     );
 
-    lines.forEach((line: string, index: number) => {
-      // 解码HTML实体
-      const decodedLine = this.decodeHtmlEntities(line);
+    lines.forEach(line => {
+      const tokens = line.length ? line : [{ type: 'plain' as const, text: ' ' }]; // 空行用空格代替
 
       paragraphs.push(
         new Paragraph({
-          children: [
-            new TextRun({
-              text: decodedLine ?? ' ', // 空行用空格代替
-              font: {
-                name: 'Consolas',
-              },
-              size: 20, // 稍微增大字体
-              color: '24292f',
-            }),
-          ],
+          children: tokens.map(
+            token =>
+              new TextRun({
+                text: token.text,
+                font: {
+                  name: 'Consolas',
+                },
+                size: 20, // 稍微增大字体
+                color: palette.tokens[token.type].color,
+                bold: palette.tokens[token.type].bold,
+                italics: palette.tokens[token.type].italic,
+              })
+          ),
           spacing: {
             line: 276, // 1.15倍行距
             lineRule: 'auto',
@@ -654,12 +859,12 @@ class EnhancedHtmlToDocxConverter {
             left: {
               style: 'single',
               size: 4,
-              color: 'e1e4e8',
+              color: palette.border,
             },
           },
           shading: {
             type: 'solid',
-            color: 'f6f8fa',
+            color: palette.background,
           },
         })
       );
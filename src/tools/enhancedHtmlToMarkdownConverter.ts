@@ -28,6 +28,9 @@ interface HtmlToMarkdownResult {
   error?: string;
 }
 
+// 块级元素选择器，用于判断容器是否需要按块转换
+const BLOCK_TAGS = 'p, h1, h2, h3, h4, h5, h6, ul, ol, table, pre, blockquote, div, section, hr';
+
 class EnhancedHtmlToMarkdownConverter {
   private options: HtmlToMarkdownOptions = {};
 
@@ -180,6 +183,9 @@ class EnhancedHtmlToMarkdownConverter {
   private htmlToMarkdown($: any): string {
     let markdown = '';
 
+    // DOCX 页眉页脚只用于打印版面，域代码留空后在 Markdown 中只剩残缺文字
+    $('.docx-header, .docx-footer').remove();
+
     // 处理body内容，如果没有body则处理整个文档
     const body = $('body').length > 0 ? $('body') : $.root();
 
@@ -255,6 +261,11 @@ class EnhancedHtmlToMarkdownConverter {
       return this.convertFormattingToMarkdown(tagName, text);
     }
 
+    // 处理脚注/尾注列表
+    if (element.hasClass('docx-notes')) {
+      return this.processNotesToMarkdown($, element);
+    }
+
     // 处理特殊元素
     switch (tagName) {
       case 'p':
@@ -276,6 +287,8 @@ class EnhancedHtmlToMarkdownConverter {
         return `> ${quoteText}\n\n`;
       case 'hr':
         return `---\n\n`;
+      case 'math':
+        return `${this.convertMathToMarkdown(element).trim()}\n\n`;
       case 'br':
         return '\n';
       case 'div':
@@ -353,6 +366,15 @@ class EnhancedHtmlToMarkdownConverter {
   }
 
   private convertContainerToMarkdown($: any, element: any, text: string): string {
+    // 包含块级子元素的容器（如分节容器）逐个转换子元素，保留段落结构
+    if (element.children(BLOCK_TAGS).length > 0) {
+      let blockContent = '';
+      element.children().each((i: number, child: any) => {
+        blockContent += this.processElementToMarkdown($, $(child));
+      });
+      return blockContent;
+    }
+
     const inlineContent = this.processInlineElements($, element);
     if (inlineContent.trim()) {
       return inlineContent + '\n';
@@ -365,6 +387,22 @@ class EnhancedHtmlToMarkdownConverter {
     return divContent || (text ? `${text}\n` : '');
   }
 
+  /**
+   * 将脚注/尾注列表转换为 Markdown 脚注定义
+   */
+  private processNotesToMarkdown($: any, element: any): string {
+    let notesMarkdown = '';
+
+    element.find('li[data-note]').each((i: number, li: any) => {
+      const $li = $(li).clone();
+      $li.find('.docx-note-backref').remove();
+      const content = this.processInlineElements($, $li).trim().replace(/\n+/g, '\n    ');
+      notesMarkdown += `[^${$li.attr('data-note')}]: ${content}\n`;
+    });
+
+    return notesMarkdown + '\n';
+  }
+
   /**
    * 处理列表转换为Markdown
    */
@@ -457,6 +495,12 @@ class EnhancedHtmlToMarkdownConverter {
         return this.processInlineImage($node);
       case 'span':
         return this.processSpanElement($, $node, nodeText);
+      case 'sup':
+        return $node.hasClass('docx-note-ref')
+          ? `[^${$node.find('a').attr('data-note')}]`
+          : this.processInlineElements($, $node);
+      case 'math':
+        return this.convertMathToMarkdown($node);
       case 'br':
         return '\n';
       default:
@@ -464,6 +508,15 @@ class EnhancedHtmlToMarkdownConverter {
     }
   }
 
+  /**
+   * MathML 公式转为 LaTeX：行内公式 $...$，独立公式 $$...$$
+   */
+  private convertMathToMarkdown($node: any): string {
+    const latex = ($node.attr('alttext') ?? '').trim();
+    if (!latex) return $node.text();
+    return $node.attr('display') === 'block' ? `\n$$\n${latex}\n$$\n` : `$${latex}$`;
+  }
+
   private processInlineLink($node: any, nodeText: string): string {
     const href = $node.attr('href');
     return href ? `[${nodeText}](${href})` : nodeText;
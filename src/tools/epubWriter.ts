@@ -0,0 +1,513 @@
+/**
+ * EPUB 写入器
+ * 将 HTML 按标题拆分为章节，生成 EPUB 3 电子书：XHTML 章节、由标题生成的 nav 目录与 toc.ncx、
+ * 按阅读顺序排列的 spine、内嵌图片与样式表
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import JSZip from 'jszip';
+import * as cheerio from 'cheerio';
+import { loadImage, isRemoteImage } from './imageLoader';
+import { detectLanguage } from './languageDetector';
+
+interface EpubWriterOptions {
+  title?: string;
+  author?: string;
+  language?: string;
+  identifier?: string; // 默认生成 urn:uuid
+  splitLevel?: 1 | 2; // 章节拆分的标题级别，默认有多个 H1 时按 H1，否则按 H2
+  baseDir?: string; // 相对图片路径的基准目录
+  outputPath?: string;
+  debug?: boolean;
+}
+
+interface EpubWriterResult {
+  success: boolean;
+  content?: Buffer;
+  outputPath?: string;
+  metadata?: {
+    targetFormat: string;
+    converter: string;
+    title: string;
+    language: string;
+    identifier: string;
+    chapterCount: number;
+    tocEntries: number;
+    imagesCount: number;
+    contentLength: number;
+  };
+  error?: string;
+}
+
+interface EpubChapter {
+  file: string;
+  title: string;
+  nodes: any[];
+}
+
+interface TocEntry {
+  level: number;
+  title: string;
+  href: string;
+}
+
+// 可以向下查找章节标题的单一包装容器
+const WRAPPER_TAGS = new Set(['div', 'main', 'article', 'section']);
+
+// 目录最多包含拆分级别以下两级标题
+const TOC_DEPTH = 3;
+
+// 章节中的外来元素：清单条目要声明 properties，XHTML 中要带命名空间
+const FOREIGN_ELEMENTS = [
+  { tag: 'math', property: 'mathml', namespace: 'http://www.w3.org/1998/Math/MathML' },
+  { tag: 'svg', property: 'svg', namespace: 'http://www.w3.org/2000/svg' },
+];
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.6; margin: 0 5%; }
+h1, h2, h3, h4, h5, h6 { font-family: sans-serif; line-height: 1.3; page-break-after: avoid; }
+p { margin: 0 0 0.8em; }
+pre { background: #f6f8fa; padding: 0.6em; white-space: pre-wrap; font-size: 0.9em; }
+code { font-family: monospace; }
+blockquote { border-left: 3px solid #ccc; margin-left: 0; padding-left: 1em; color: #555; }
+table { border-collapse: collapse; margin: 1em 0; }
+th, td { border: 1px solid #999; padding: 0.3em 0.6em; }
+img { max-width: 100%; height: auto; }
+section.docx-notes { font-size: 0.9em; }
+`;
+
+/**
+ * EPUB 写入器类
+ */
+class EpubWriter {
+  private $: any;
+  private baseDir = process.cwd();
+  private images: { file: string; data: Buffer; mediaType: string }[] = [];
+
+  async write(html: string, options: EpubWriterOptions = {}): Promise<EpubWriterResult> {
+    try {
+      this.baseDir = options.baseDir ?? process.cwd();
+      this.$ = cheerio.load(html);
+      const $ = this.$;
+      // DOCX 页眉页脚只用于打印版面，电子书中没有页面
+      $('script, style, link, meta, noscript, .docx-header, .docx-footer').remove();
+
+      if (options.debug) {
+        console.log('🚀 开始 HTML 到 EPUB 转换...');
+      }
+
+      const title =
+        options.title ??
+        ($('h1').first().text().trim() || $('title').first().text().trim() || 'Untitled');
+      // 语言取自选项或文档的 lang 属性，都没有时按正文内容识别
+      const language =
+        options.language ?? ($('html').attr('lang') || detectLanguage($('body').text()));
+      const identifier = options.identifier ?? `urn:uuid:${randomUUID()}`;
+
+      await this.embedImages();
+      const chapters = this.splitChapters(title, options.splitLevel);
+      const toc = this.collectToc(chapters);
+      this.rewriteLinks(chapters);
+
+      const zip = new JSZip();
+      // mimetype 必须是第一个且不压缩的条目
+      zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+      zip.file('META-INF/container.xml', containerXml());
+      zip.file(
+        'OEBPS/content.opf',
+        this.packageXml(chapters, title, language, identifier, options.author)
+      );
+      zip.file('OEBPS/nav.xhtml', navXhtml(toc, title, language));
+      zip.file('OEBPS/toc.ncx', ncxXml(toc, title, identifier));
+      zip.file('OEBPS/style.css', STYLESHEET);
+      for (const chapter of chapters) {
+        zip.file(`OEBPS/${chapter.file}`, this.chapterXhtml(chapter, language));
+      }
+      for (const image of this.images) {
+        zip.file(`OEBPS/${image.file}`, image.data);
+      }
+      const buffer: Buffer = await zip.generateAsync({
+        type: 'nodebuffer',
+        compression: 'DEFLATE',
+        mimeType: 'application/epub+zip',
+      });
+
+      let outputPath: string | undefined;
+      if (options.outputPath) {
+        outputPath = options.outputPath;
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+        await fs.writeFile(outputPath, buffer);
+        if (options.debug) {
+          console.log('✅ EPUB 文件已保存:', outputPath);
+        }
+      }
+
+      return {
+        success: true,
+        content: buffer,
+        outputPath,
+        metadata: {
+          targetFormat: 'epub',
+          converter: 'epub-writer',
+          title,
+          language,
+          identifier,
+          chapterCount: chapters.length,
+          tocEntries: toc.length,
+          imagesCount: this.images.length,
+          contentLength: buffer.length,
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ HTML 转 EPUB 失败:', error.message);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * 本地与 data URI 图片存入 images/ 并改写 src；远程或无法读取的图片替换为替代文本
+   */
+  private async embedImages(): Promise<void> {
+    const $ = this.$;
+    const saved = new Map<string, string>();
+    for (const node of $('img').toArray()) {
+      const image = $(node);
+      const src = image.attr('src') ?? '';
+      let file = saved.get(src);
+      if (!file && src && !isRemoteImage(src)) {
+        try {
+          const loaded = await loadImage(src, this.baseDir);
+          file = `images/image${this.images.length + 1}.${loaded.type}`;
+          const mediaType =
+            loaded.type === 'jpg'
+              ? 'image/jpeg'
+              : loaded.type === 'svg'
+                ? 'image/svg+xml'
+                : `image/${loaded.type}`;
+          this.images.push({ file, data: loaded.data, mediaType });
+          saved.set(src, file);
+        } catch (error: any) {
+          console.warn('⚠️ 图片读取失败:', error.message);
+        }
+      }
+      if (file) {
+        image.attr('src', file);
+        if (image.attr('alt') === undefined) image.attr('alt', '');
+      } else {
+        const alt = image.attr('alt');
+        image.replaceWith(alt ? `[${alt}]` : '');
+      }
+    }
+  }
+
+  /**
+   * 按标题拆分章节；正文只有一个包装容器时向下查找
+   */
+  private splitChapters(title: string, splitLevel?: 1 | 2): EpubChapter[] {
+    const $ = this.$;
+    let container = $('body').length ? $('body')[0] : $.root()[0];
+    const elementChildren = (node: any) =>
+      (node.children ?? []).filter((child: any) => child.type === 'tag');
+    let elements = elementChildren(container);
+    while (
+      elements.length === 1 &&
+      WRAPPER_TAGS.has(elements[0].name) &&
+      !$(elements[0]).hasClass('docx-notes')
+    ) {
+      container = elements[0];
+      elements = elementChildren(container);
+    }
+
+    const nodes: any[] = container.children ?? [];
+    const h1Count = nodes.filter((node: any) => node.name === 'h1').length;
+    const level = splitLevel ?? (h1Count > 1 ? 1 : 2);
+    const splitTag = `h${level}`;
+
+    const chapters: EpubChapter[] = [];
+    let current: EpubChapter | null = null;
+    for (const node of nodes) {
+      if (node.type === 'tag' && node.name === splitTag) {
+        current = { file: '', title: $(node).text().trim(), nodes: [] };
+        chapters.push(current);
+      } else if (!current) {
+        // 第一个章节标题之前的内容作为卷首
+        if (node.type === 'text' && !node.data.trim()) continue;
+        current = { file: '', title, nodes: [] };
+        chapters.push(current);
+      }
+      current.nodes.push(node);
+    }
+    if (!chapters.length) chapters.push({ file: '', title, nodes: [] });
+    chapters.forEach((chapter, index) => {
+      chapter.file = `chapter${String(index + 1).padStart(3, '0')}.xhtml`;
+      if (!chapter.title) chapter.title = `${title} ${index + 1}`;
+    });
+    return chapters;
+  }
+
+  /**
+   * 从章节中的标题生成目录项，缺少 id 的标题补充锚点
+   */
+  private collectToc(chapters: EpubChapter[]): TocEntry[] {
+    const $ = this.$;
+    const entries: TocEntry[] = [];
+    let headingIndex = 0;
+    for (const chapter of chapters) {
+      const headings = $(chapter.nodes)
+        .filter('h1, h2, h3, h4, h5, h6')
+        .add($(chapter.nodes).find('h1, h2, h3, h4, h5, h6'));
+      if (
+        !headings.length ||
+        headings[0] !== chapter.nodes.find((node: any) => node.type === 'tag')
+      ) {
+        // 卷首或标题不在开头的章节以章节标题作为入口
+        entries.push({ level: 1, title: chapter.title, href: chapter.file });
+      }
+      headings.each((_: number, heading: any) => {
+        const text = $(heading).text().trim();
+        if (!text) return;
+        let id = $(heading).attr('id');
+        if (!id) {
+          id = `heading-${++headingIndex}`;
+          $(heading).attr('id', id);
+        }
+        entries.push({
+          level: Number(heading.name[1]),
+          title: text,
+          href: `${chapter.file}#${id}`,
+        });
+      });
+    }
+
+    // 以最浅的标题级别为第一级，层级跳跃不超过一级
+    const minLevel = Math.min(...entries.map(entry => entry.level));
+    let previous = 0;
+    const normalized: TocEntry[] = [];
+    for (const entry of entries) {
+      const level = Math.min(entry.level - minLevel + 1, previous + 1);
+      if (level > TOC_DEPTH) continue;
+      normalized.push({ ...entry, level });
+      previous = level;
+    }
+    return normalized;
+  }
+
+  /**
+   * 章节内锚点链接（如脚注）改写为跨文件链接
+   */
+  private rewriteLinks(chapters: EpubChapter[]): void {
+    const $ = this.$;
+    const owners = new Map<string, string>();
+    for (const chapter of chapters) {
+      $(chapter.nodes)
+        .filter('[id]')
+        .add($(chapter.nodes).find('[id]'))
+        .each((_: number, node: any) => {
+          owners.set($(node).attr('id'), chapter.file);
+        });
+    }
+    for (const chapter of chapters) {
+      $(chapter.nodes)
+        .filter('a[href^="#"]')
+        .add($(chapter.nodes).find('a[href^="#"]'))
+        .each((_: number, node: any) => {
+          const target = $(node).attr('href').slice(1);
+          const owner = owners.get(target);
+          if (owner && owner !== chapter.file) $(node).attr('href', `${owner}#${target}`);
+        });
+    }
+  }
+
+  private chapterXhtml(chapter: EpubChapter, language: string): string {
+    const $ = this.$;
+    for (const { tag, namespace } of FOREIGN_ELEMENTS) {
+      this.findInChapter(chapter, tag).not('[xmlns]').attr('xmlns', namespace);
+    }
+    // 以 XML 模式序列化，空元素自闭合，满足 XHTML 要求
+    const body = $.xml(chapter.nodes);
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(language)}" lang="${escapeXml(language)}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(chapter.title)}</title>
+  <link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+  }
+
+  /**
+   * 章节包含 MathML 或内联 SVG 时，清单条目需要声明对应的 properties
+   */
+  private chapterProperties(chapter: EpubChapter): string {
+    const properties = FOREIGN_ELEMENTS.filter(
+      ({ tag }) => this.findInChapter(chapter, tag).length > 0
+    ).map(({ property }) => property);
+    return properties.length > 0 ? ` properties="${properties.join(' ')}"` : '';
+  }
+
+  private findInChapter(chapter: EpubChapter, selector: string): any {
+    const nodes = this.$(chapter.nodes);
+    return nodes.filter(selector).add(nodes.find(selector));
+  }
+
+  private packageXml(
+    chapters: EpubChapter[],
+    title: string,
+    language: string,
+    identifier: string,
+    author?: string
+  ): string {
+    const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const manifest = [
+      '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+      '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+      '<item id="css" href="style.css" media-type="text/css"/>',
+      ...chapters.map(
+        (chapter, index) =>
+          `<item id="chapter${index + 1}" href="${chapter.file}" media-type="application/xhtml+xml"${this.chapterProperties(chapter)}/>`
+      ),
+      ...this.images.map(
+        (image, index) =>
+          `<item id="image${index + 1}" href="${image.file}" media-type="${image.mediaType}"/>`
+      ),
+    ];
+    const spine = chapters.map((_, index) => `<itemref idref="chapter${index + 1}"/>`);
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="bookid" xml:lang="${escapeXml(language)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="bookid">${escapeXml(identifier)}</dc:identifier>
+    <dc:title>${escapeXml(title)}</dc:title>
+    <dc:language>${escapeXml(language)}</dc:language>
+${author ? `    <dc:creator>${escapeXml(author)}</dc:creator>\n` : ''}    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine toc="ncx">
+    ${spine.join('\n    ')}
+  </spine>
+</package>`;
+  }
+}
+
+/**
+ * 按层级生成嵌套的 <ol>，render 输出单个条目的内容
+ */
+function nestedList(entries: TocEntry[], render: (entry: TocEntry) => string): string {
+  let xml = '';
+  let depth = 0;
+  for (const entry of entries) {
+    if (entry.level > depth) {
+      while (depth < entry.level) {
+        xml += '<ol>';
+        depth++;
+      }
+    } else {
+      xml += '</li>';
+      while (depth > entry.level) {
+        xml += '</ol></li>';
+        depth--;
+      }
+    }
+    xml += `<li>${render(entry)}`;
+  }
+  while (depth > 0) {
+    xml += '</li></ol>';
+    depth--;
+  }
+  return xml;
+}
+
+function navXhtml(toc: TocEntry[], title: string, language: string): string {
+  const list = nestedList(
+    toc,
+    entry => `<a href="${escapeXml(entry.href)}">${escapeXml(entry.title)}</a>`
+  );
+  const heading = language.startsWith('zh') ? '目录' : 'Contents';
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(language)}" lang="${escapeXml(language)}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+<nav epub:type="toc" id="toc">
+<h1>${heading}</h1>
+${list}
+</nav>
+</body>
+</html>`;
+}
+
+/**
+ * EPUB 2 阅读器使用的 NCX 目录
+ */
+function ncxXml(toc: TocEntry[], title: string, identifier: string): string {
+  let xml = '';
+  let depth = 0;
+  toc.forEach((entry, index) => {
+    while (depth >= entry.level) {
+      xml += '</navPoint>';
+      depth--;
+    }
+    xml += `<navPoint id="nav${index + 1}" playOrder="${index + 1}"><navLabel><text>${escapeXml(
+      entry.title
+    )}</text></navLabel><content src="${escapeXml(entry.href)}"/>`;
+    depth = entry.level;
+  });
+  while (depth > 0) {
+    xml += '</navPoint>';
+    depth--;
+  }
+  const maxDepth = Math.max(1, ...toc.map(entry => entry.level));
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+<head>
+  <meta name="dtb:uid" content="${escapeXml(identifier)}"/>
+  <meta name="dtb:depth" content="${maxDepth}"/>
+  <meta name="dtb:totalPageCount" content="0"/>
+  <meta name="dtb:maxPageNumber" content="0"/>
+</head>
+<docTitle><text>${escapeXml(title)}</text></docTitle>
+<navMap>${xml}</navMap>
+</ncx>`;
+}
+
+function containerXml(): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+}
+
+// 同时去除 XML 1.0 不允许的控制字符
+function escapeXml(text: string): string {
+  return text
+    .replace(/[^\P{Cc}\t\n\r\x7f-\x9f]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 便捷函数：HTML 转 EPUB
+ */
+export async function writeEpub(
+  html: string,
+  options: EpubWriterOptions = {}
+): Promise<EpubWriterResult> {
+  const writer = new EpubWriter();
+  return await writer.write(html, options);
+}
+
+export { EpubWriter, EpubWriterOptions, EpubWriterResult };
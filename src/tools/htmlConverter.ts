@@ -9,6 +9,8 @@ const cheerio = require('cheerio');
 const path = require('path');
 import { EnhancedHtmlToMarkdownConverter } from './enhancedHtmlToMarkdownConverter';
 import { EnhancedHtmlToDocxConverter } from './enhancedHtmlToDocxConverter';
+import { renderHtmlToPdf, PdfPageFormat } from './htmlToPdfRenderer';
+import { DocxTableBuilder, HtmlTableCell } from './docxTableBuilder';
 
 // 转换选项接口
 interface HtmlConversionOptions {
@@ -17,7 +19,7 @@ interface HtmlConversionOptions {
   debug?: boolean;
   // PDF特定选项
   pdfOptions?: {
-    format?: 'A4' | 'A3' | 'Letter';
+    format?: PdfPageFormat;
     orientation?: 'portrait' | 'landscape';
     margins?: {
       top?: string;
@@ -44,10 +46,9 @@ interface HtmlConversionResult {
     targetFormat: string;
     contentLength: number;
     converter: string;
+    pageCount?: number;
   };
   error?: string;
-  requiresExternalTool?: boolean;
-  externalToolInstructions?: string;
 }
 
 /**
@@ -55,6 +56,7 @@ interface HtmlConversionResult {
  */
 class HtmlConverter {
   private options: HtmlConversionOptions = {};
+  private tableBuilder?: DocxTableBuilder;
 
   /**
    * 清理HTML内容，防止XSS攻击
@@ -106,43 +108,28 @@ class HtmlConverter {
       // 生成输出路径
       const outputPath = this.options.outputPath || inputPath.replace(/\.html?$/i, '.pdf');
 
-      // 由于需要浏览器引擎来生成 PDF，返回外部工具指令
-      const instructions = `
-HTML 转 PDF 转换 - 需要 playwright-mcp 完成
-
-✅ 已完成 (当前 MCP):
-  1. HTML 文件验证: ${inputPath}
-  2. 输出路径确定: ${outputPath}
-
-🎯 需要执行 (playwright-mcp):
-  请运行以下命令完成 PDF 转换:
-  
-  1. browser_navigate("file://${path.resolve(inputPath)}")
-  2. browser_wait_for({ time: 3 })
-  3. browser_pdf_save({ filename: "${outputPath}" })
-
-📁 最终输出: ${outputPath}
-
-💡 优势:
-  - 完美保留 HTML 样式和布局
-  - 支持CSS样式和图片
-  - 高质量PDF输出
-`;
+      // 使用内置排版引擎渲染，相对路径的图片和样式表以输入文件所在目录为基准
+      const { pageCount } = await renderHtmlToPdf(htmlContent, outputPath, {
+        baseDir: path.dirname(path.resolve(inputPath)),
+        format: this.options.pdfOptions?.format,
+        orientation: this.options.pdfOptions?.orientation,
+        margins: this.options.pdfOptions?.margins,
+        debug: this.options.debug,
+      });
 
       if (this.options.debug) {
-        console.log(instructions);
+        console.log(`✅ PDF 已生成: ${outputPath} (${pageCount} 页)`);
       }
 
       return {
         success: true,
         outputPath,
-        requiresExternalTool: true,
-        externalToolInstructions: instructions,
         metadata: {
           originalFormat: 'html',
           targetFormat: 'pdf',
           contentLength: htmlContent.length,
           converter: 'html-converter',
+          pageCount,
         },
       };
     } catch (error: any) {
@@ -548,6 +535,7 @@ HTML 转 PDF 转换 - 需要 playwright-mcp 完成
   private async htmlToDocx($: any): Promise<Buffer> {
     const paragraphs: any[] = [];
     const docxOptions = this.options.docxOptions!;
+    this.tableBuilder = new DocxTableBuilder($);
 
     // 处理body内容
     const body = $('body').length > 0 ? $('body') : $.root();
@@ -690,6 +678,8 @@ HTML 转 PDF 转换 - 需要 playwright-mcp 完成
         return this.createHorizontalRuleParagraph(baseFontSize, baseFontFamily);
       case 'blockquote':
         return this.createBlockquoteParagraph(paragraphConfig, $, element, docxOptions);
+      case 'table':
+        return this.createTable($, element, docxOptions);
       default:
         return this.createDefaultParagraph(text, paragraphConfig, elementStyles, baseFontSize, baseFontFamily);
     }
@@ -769,6 +759,62 @@ HTML 转 PDF 转换 - 需要 playwright-mcp 完成
     return new Paragraph(paragraphConfig);
   }
 
+  /**
+   * 创建表格：合并单元格、列宽、背景色和重复标题行由 DocxTableBuilder 处理
+   */
+  private createTable($: any, element: any, docxOptions: any, availableWidth?: number): any {
+    this.tableBuilder = this.tableBuilder ?? new DocxTableBuilder($);
+    return this.tableBuilder.createTable(
+      element[0],
+      (cell: HtmlTableCell, width: number) =>
+        this.createTableCellContent($, cell, docxOptions, width),
+      availableWidth
+    );
+  }
+
+  /**
+   * 创建单元格内容：块级子元素逐个转换（嵌套表格按单元格宽度构建），否则整体作为一个段落
+   */
+  private createTableCellContent(
+    $: any,
+    cell: HtmlTableCell,
+    docxOptions: any,
+    availableWidth: number
+  ): any[] {
+    const $cell = $(cell.node);
+    const blocks = $cell.children('p, div, h1, h2, h3, h4, h5, h6, blockquote, table');
+    if (blocks.length === 0) {
+      // 表头单元格整体加粗居中
+      const runs = cell.header
+        ? [
+            new TextRun({
+              text: $cell.text().trim(),
+              bold: true,
+              size: docxOptions.fontSize * 2,
+              font: docxOptions.fontFamily,
+            }),
+          ]
+        : this.processInlineElementsToDocx($, $cell, docxOptions);
+      return [
+        new Paragraph({
+          alignment: cell.header ? AlignmentType.CENTER : undefined,
+          children: runs,
+        }),
+      ];
+    }
+
+    const children: any[] = [];
+    blocks.each((i: number, block: any) => {
+      const $block = $(block);
+      const converted =
+        block.tagName.toLowerCase() === 'table'
+          ? this.createTable($, $block, docxOptions, availableWidth)
+          : this.processElementToDocx($, $block, docxOptions);
+      if (converted) children.push(converted);
+    });
+    return children;
+  }
+
   /**
    * 创建默认段落
    */
@@ -0,0 +1,1732 @@
+/**
+ * HTML 排版引擎
+ * 把计算好样式的 DOM 排成一条连续的长栏（CSS 像素，y 向下），输出绘制指令，
+ * 同时记录不可拆分区间、强制分页点和需要重复的表头，由分页器切成页面
+ * 支持：块级流（外边距折叠）、行内流（断行、对齐、上下标、行内背景、链接）、
+ * 列表标记、表格（列宽自适应、合并单元格、表头重复）、图片、内联 SVG
+ */
+
+import type { CheerioAPI } from 'cheerio';
+import { ComputedStyle, RgbaColor, resolveLength } from './cssStyleResolver';
+import { PdfFontRegistry, FontFace, FontSelection } from './pdfFontRegistry';
+import { LoadedImage, isRemoteImage, svgSize } from './imageLoader';
+
+type DrawItem =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; color: RgbaColor }
+  | {
+      kind: 'text';
+      x: number;
+      y: number; // 基线
+      top: number;
+      text: string;
+      face: FontFace;
+      size: number;
+      color: RgbaColor;
+      syntheticBold: boolean;
+      syntheticItalic: boolean;
+    }
+  | { kind: 'image'; x: number; y: number; width: number; height: number; image: LoadedImage }
+  | { kind: 'svg'; x: number; y: number; width: number; height: number; svg: string }
+  | { kind: 'link'; x: number; y: number; width: number; height: number; href: string }
+  | { kind: 'anchor'; y: number; id: string }
+  | { kind: 'group'; items: DrawItem[] };
+
+// 分页时需要在新页顶部重复的表头
+interface RepeatedHeader {
+  top: number;
+  bottom: number;
+  tableBottom: number;
+  items: DrawItem[];
+}
+
+interface LayoutResult {
+  items: DrawItem[];
+  keeps: Array<[number, number]>;
+  breaks: number[];
+  headers: RepeatedHeader[];
+  height: number;
+}
+
+interface LayoutOptions {
+  fonts: PdfFontRegistry;
+  images: Map<string, LoadedImage | null>;
+  pageHeight: number; // 页面内容区高度，用于限制图片尺寸
+}
+
+// 块级流的游标：y 与尚未落定的可折叠外边距
+interface FlowState {
+  y: number;
+  positive: number;
+  negative: number;
+  waiting: Array<{ y?: number }>;
+}
+
+interface InlineBox {
+  kind: 'image' | 'svg' | 'checkbox';
+  width: number;
+  height: number;
+  image?: LoadedImage;
+  svg?: string;
+  checked?: boolean;
+}
+
+interface InlineOwner {
+  style: ComputedStyle;
+}
+
+interface InlineToken {
+  kind: 'text' | 'space' | 'box' | 'break';
+  text: string;
+  width: number;
+  style: ComputedStyle;
+  font?: FontSelection;
+  breakBefore: boolean;
+  shift: number; // 基线上移量（上标为正）
+  href?: string;
+  owners: InlineOwner[];
+  anchors: string[];
+  box?: InlineBox;
+}
+
+interface ListMarker {
+  text: string;
+  style: ComputedStyle;
+  right: number;
+}
+
+interface TableCell {
+  element: any;
+  style: ComputedStyle;
+  row: number;
+  col: number;
+  colspan: number;
+  rowspan: number;
+}
+
+interface TableGrid {
+  rows: Array<{ element: any; style: ComputedStyle; group: 'head' | 'body' | 'foot' }>;
+  cells: TableCell[];
+  columns: number;
+  captions: any[];
+}
+
+const CJK_PATTERN = /[\u2e80-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef\u3000-\u303f]/;
+// 避头标点：不能出现在行首
+const NO_BREAK_BEFORE = /^[、。，．,.!?！？）)\]」』】》〉：；:;%’”]/;
+const BLOCK_DISPLAYS = new Set(['block', 'list-item', 'table', 'flex', 'grid', 'flow-root']);
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+const TAB_SIZE = 8;
+
+// 行内元素两侧的内边距/外边距占位
+function isSpacer(token: InlineToken): boolean {
+  return token.kind === 'text' && token.text === '';
+}
+
+function isElement(node: any): boolean {
+  return node && (node.type === 'tag' || node.type === 'script' || node.type === 'style');
+}
+
+/**
+ * HTML 排版引擎
+ */
+class HtmlLayoutEngine {
+  private items: DrawItem[] = [];
+  private keeps: Array<[number, number]> = [];
+  private breaks: number[] = [];
+  private headers: RepeatedHeader[] = [];
+  private markers: ListMarker[] = [];
+  private keepFrom: number | null = null;
+  private blockLevel = new WeakMap<any, boolean>();
+
+  constructor(
+    private readonly styles: Map<any, ComputedStyle>,
+    private readonly options: LayoutOptions
+  ) {}
+
+  /**
+   * 从根元素开始排版，width 为内容区宽度
+   */
+  layout(root: any, width: number): LayoutResult {
+    const state: FlowState = { y: 0, positive: 0, negative: 0, waiting: [] };
+    const style = this.styles.get(root);
+    if (style && style.display !== 'none') {
+      this.layoutBlock(root, style, 0, width, state);
+    }
+    this.commit(state);
+    return {
+      items: this.items,
+      keeps: this.keeps,
+      breaks: this.breaks,
+      headers: this.headers,
+      height: state.y,
+    };
+  }
+
+  // ===== 块级流 =====
+
+  private addMargin(state: FlowState, margin: number): void {
+    if (margin > 0) state.positive = Math.max(state.positive, margin);
+    else state.negative = Math.min(state.negative, margin);
+  }
+
+  private commit(state: FlowState): void {
+    state.y += state.positive + state.negative;
+    state.positive = 0;
+    state.negative = 0;
+    for (const waiting of state.waiting) waiting.y = state.y;
+    state.waiting = [];
+  }
+
+  private forceBreak(state: FlowState): void {
+    if (this.items.length === 0) return;
+    this.breaks.push(state.y);
+    state.positive = 0;
+    state.negative = 0;
+  }
+
+  private isBlockLevel(node: any, style: ComputedStyle): boolean {
+    if (BLOCK_DISPLAYS.has(style.display) || style.display.startsWith('table')) return true;
+    if (node.name === 'svg' || node.name === 'img') return false;
+    const cached = this.blockLevel.get(node);
+    if (cached !== undefined) return cached;
+    // 包含块级后代的行内元素（如 <a><div>…</div></a>）按块处理
+    const result = (node.children ?? []).some((child: any) => {
+      const childStyle = isElement(child) ? this.styles.get(child) : undefined;
+      return !!childStyle && childStyle.display !== 'none' && this.isBlockLevel(child, childStyle);
+    });
+    this.blockLevel.set(node, result);
+    return result;
+  }
+
+  private layoutChildren(
+    parent: any,
+    style: ComputedStyle,
+    x: number,
+    width: number,
+    state: FlowState
+  ): void {
+    let run: any[] = [];
+    const flush = () => {
+      if (run.length > 0) this.layoutInline(run, style, x, width, state);
+      run = [];
+    };
+    for (const child of parent.children ?? []) {
+      if (child.type === 'text') {
+        run.push(child);
+        continue;
+      }
+      if (!isElement(child)) continue;
+      const childStyle = this.styles.get(child);
+      if (!childStyle || childStyle.display === 'none') continue;
+      if (this.isBlockLevel(child, childStyle)) {
+        flush();
+        this.layoutBlockLevel(child, childStyle, x, width, state);
+      } else {
+        run.push(child);
+      }
+    }
+    flush();
+  }
+
+  private layoutBlockLevel(
+    element: any,
+    style: ComputedStyle,
+    x: number,
+    width: number,
+    state: FlowState
+  ): void {
+    if (style.display === 'table') {
+      this.layoutTable(element, style, x, width, state);
+    } else if (element.name === 'img' || element.name === 'svg') {
+      this.layoutInline([element], style, x, width, state);
+    } else {
+      this.layoutBlock(element, style, x, width, state);
+    }
+  }
+
+  private layoutBlock(
+    element: any,
+    style: ComputedStyle,
+    x: number,
+    width: number,
+    state: FlowState
+  ): void {
+    const [mt, , mb] = style.margin.map(value => resolveLength(value, width));
+    const [pt, pr, pb, pl] = style.padding.map(value => resolveLength(value, width));
+    const [bt, br, bb, bl] = style.borderWidth;
+    const { left, contentWidth } = this.horizontalBox(style, width, pl + pr + bl + br);
+
+    if (style.breakBefore) this.forceBreak(state);
+    this.addMargin(state, mt);
+
+    const top: { y?: number } = {};
+    const underlay = this.reserve();
+    if (bt + pt > 0) {
+      this.commit(state);
+      top.y = state.y;
+      state.y += bt + pt;
+    } else {
+      state.waiting.push(top);
+    }
+    // 锚点位置要等外边距折叠后才确定，先占位，盒子顶部确定后再回填
+    const id = element.attribs?.id;
+    const anchor = id ? { kind: 'anchor' as const, y: state.y, id } : null;
+    if (anchor) this.items.push(anchor);
+
+    const marker =
+      style.display === 'list-item' ? this.createMarker(element, style, x + left + bl + pl) : null;
+    if (marker) this.markers.push(marker);
+    const contentX = x + left + bl + pl;
+    this.layoutChildren(element, style, contentX, contentWidth, state);
+
+    const height = style.height === 'auto' ? null : resolveLength(style.height, width);
+    if (pb + bb > 0 || height !== null) this.commit(state);
+    if (top.y === undefined) {
+      state.waiting.splice(state.waiting.indexOf(top), 1);
+      top.y = state.y;
+    }
+    if (anchor) anchor.y = top.y;
+    let bottom = state.y + pb + bb;
+    if (height !== null) bottom = Math.max(bottom, top.y + bt + pt + height + pb + bb);
+    state.y = bottom;
+
+    const boxWidth = contentWidth + pl + pr + bl + br;
+    this.paintBox(underlay.items, style, x + left, top.y, boxWidth, bottom - top.y);
+    if (marker && this.markers.includes(marker)) {
+      // 没有任何行（如只含表格）时标记对齐到盒子顶部
+      this.drawMarker(marker, top.y + bt + pt + style.fontSize);
+    }
+    if (style.breakInsideAvoid) this.keeps.push([top.y, bottom]);
+    if (HEADING_TAGS.has(element.name)) this.keepFrom = top.y;
+
+    this.addMargin(state, mb);
+    if (style.breakAfter) this.forceBreak(state);
+  }
+
+  /**
+   * 计算左外边距和内容宽度（处理 width/max-width 与 auto 外边距居中）
+   */
+  private horizontalBox(
+    style: ComputedStyle,
+    width: number,
+    extras: number
+  ): { left: number; contentWidth: number } {
+    const [, mr, , ml] = style.margin.map(value => resolveLength(value, width));
+    let contentWidth =
+      style.width === 'auto' ? width - ml - mr - extras : resolveLength(style.width, width);
+    if (style.maxWidth !== 'auto') {
+      contentWidth = Math.min(contentWidth, resolveLength(style.maxWidth, width));
+    }
+    contentWidth = Math.max(0, Math.min(contentWidth, width - extras));
+    const free = width - contentWidth - extras;
+    let left = ml;
+    if (style.margin[1] === 'auto' && style.margin[3] === 'auto') left = Math.max(0, free / 2);
+    else if (style.margin[3] === 'auto') left = Math.max(0, free - mr);
+    return { left, contentWidth };
+  }
+
+  private reserve(): { kind: 'group'; items: DrawItem[] } {
+    const group = { kind: 'group' as const, items: [] as DrawItem[] };
+    this.items.push(group);
+    return group;
+  }
+
+  /**
+   * 背景与边框（边框以矩形绘制）
+   */
+  private paintBox(
+    target: DrawItem[],
+    style: ComputedStyle,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): void {
+    if (height <= 0 || width <= 0 || !style.visible) return;
+    if (style.backgroundColor && style.backgroundColor.a > 0) {
+      target.push({ kind: 'rect', x, y, width, height, color: style.backgroundColor });
+    }
+    const [bt, br, bb, bl] = style.borderWidth;
+    const [ct, cr, cb, cl] = style.borderColor;
+    if (bt > 0) target.push({ kind: 'rect', x, y, width, height: bt, color: ct });
+    if (bb > 0) target.push({ kind: 'rect', x, y: y + height - bb, width, height: bb, color: cb });
+    if (bl > 0) target.push({ kind: 'rect', x, y, width: bl, height, color: cl });
+    if (br > 0) target.push({ kind: 'rect', x: x + width - br, y, width: br, height, color: cr });
+  }
+
+  // ===== 列表标记 =====
+
+  private createMarker(element: any, style: ComputedStyle, contentX: number): ListMarker | null {
+    const type = style.listStyleType;
+    if (type === 'none') return null;
+    const text =
+      type === 'disc'
+        ? '•'
+        : type === 'circle'
+          ? '◦'
+          : type === 'square'
+            ? '▪'
+            : `${formatCounter(this.listIndex(element), type)}.`;
+    return { text, style, right: contentX - style.fontSize * 0.5 };
+  }
+
+  private listIndex(element: any): number {
+    const value = parseInt(element.attribs?.value ?? '', 10);
+    if (!isNaN(value)) return value;
+    const parent = element.parent;
+    let index = parseInt(parent?.attribs?.start ?? '', 10);
+    index = isNaN(index) ? 1 : index;
+    for (const sibling of parent?.children ?? []) {
+      if (sibling === element) break;
+      if (sibling.type !== 'tag' || sibling.name !== 'li') continue;
+      const siblingValue = parseInt(sibling.attribs?.value ?? '', 10);
+      index = isNaN(siblingValue) ? index + 1 : siblingValue + 1;
+    }
+    return index;
+  }
+
+  private drawMarker(marker: ListMarker, baseline: number): void {
+    this.markers = this.markers.filter(pending => pending !== marker);
+    const selection = this.selectFont(marker.style);
+    const width = this.options.fonts.measure(marker.text, selection, marker.style.fontSize);
+    this.pushText(marker.text, marker.right - width, baseline, marker.style, selection, baseline);
+  }
+
+  // ===== 行内流 =====
+
+  private selectFont(style: ComputedStyle): FontSelection {
+    return this.options.fonts.select(
+      style.fontFamily,
+      style.fontWeight >= 600,
+      style.fontStyle === 'italic'
+    );
+  }
+
+  /**
+   * 收集行内内容为 token 序列
+   */
+  private collectTokens(nodes: any[], style: ComputedStyle, width: number): InlineToken[] {
+    const tokens: InlineToken[] = [];
+    let lastSpace = true;
+    let pendingAnchors: string[] = [];
+    let breakNext = false;
+
+    const push = (token: InlineToken) => {
+      token.anchors = pendingAnchors;
+      pendingAnchors = [];
+      tokens.push(token);
+    };
+    const base = (
+      current: ComputedStyle,
+      context: { shift: number; href?: string; owners: InlineOwner[] }
+    ) => ({
+      style: current,
+      shift: context.shift,
+      href: context.href,
+      owners: context.owners,
+      anchors: [],
+    });
+
+    const visitText = (
+      raw: string,
+      current: ComputedStyle,
+      context: { shift: number; href?: string; owners: InlineOwner[] }
+    ) => {
+      const text = applyTransform(raw, current.textTransform);
+      const font = this.selectFont(current);
+      const measure = (value: string) => this.options.fonts.measure(value, font, current.fontSize);
+      const mode = current.whiteSpace;
+
+      if (mode === 'pre' || mode === 'pre-wrap') {
+        const lines = text.split(/\r?\n/);
+        lines.forEach((line, index) => {
+          if (index > 0) {
+            push({
+              kind: 'break',
+              text: '',
+              width: 0,
+              breakBefore: true,
+              ...base(current, context),
+            });
+          }
+          for (const part of expandTabs(line).match(/ +|[^ ]+/g) ?? []) {
+            push({
+              kind: 'text',
+              text: part,
+              width: measure(part),
+              font,
+              breakBefore: mode === 'pre-wrap',
+              ...base(current, context),
+            });
+          }
+        });
+        lastSpace = false;
+        return;
+      }
+
+      const segments =
+        mode === 'pre-line'
+          ? text.replace(/[ \t\f]+/g, ' ').split(/\r?\n/)
+          : [text.replace(/[ \t\n\r\f]+/g, ' ')];
+      segments.forEach((segment, index) => {
+        if (index > 0) {
+          push({ kind: 'break', text: '', width: 0, breakBefore: true, ...base(current, context) });
+          lastSpace = true;
+        }
+        for (const part of segment.match(/ |[^ ]+/g) ?? []) {
+          if (part === ' ') {
+            if (lastSpace) continue;
+            lastSpace = true;
+            push({
+              kind: mode === 'nowrap' ? 'text' : 'space',
+              text: ' ',
+              width: measure(' '),
+              font,
+              breakBefore: false,
+              ...base(current, context),
+            });
+            continue;
+          }
+          lastSpace = false;
+          for (const word of splitCjk(part)) {
+            const cjk = CJK_PATTERN.test(word);
+            push({
+              kind: 'text',
+              text: word,
+              width: measure(word),
+              font,
+              breakBefore: mode !== 'nowrap' && (cjk || breakNext) && !NO_BREAK_BEFORE.test(word),
+              ...base(current, context),
+            });
+            breakNext = cjk;
+          }
+        }
+      });
+    };
+
+    const visit = (
+      node: any,
+      current: ComputedStyle,
+      context: { shift: number; href?: string; owners: InlineOwner[] }
+    ) => {
+      if (node.type === 'text') {
+        visitText(node.data ?? '', current, context);
+        return;
+      }
+      if (!isElement(node)) return;
+      const nodeStyle = this.styles.get(node);
+      if (!nodeStyle || nodeStyle.display === 'none') return;
+      const id = node.attribs?.id ?? (node.name === 'a' ? node.attribs?.name : undefined);
+      if (id) pendingAnchors.push(id);
+
+      if (node.name === 'br') {
+        push({ kind: 'break', text: '', width: 0, breakBefore: true, ...base(nodeStyle, context) });
+        lastSpace = true;
+        return;
+      }
+      const box = this.replacedBox(node, nodeStyle, width);
+      if (box) {
+        push({
+          kind: 'box',
+          text: '',
+          width: box.width,
+          breakBefore: true,
+          box,
+          ...base(nodeStyle, context),
+        });
+        if (box.kind === 'checkbox') {
+          push({
+            kind: 'space',
+            text: ' ',
+            width: nodeStyle.fontSize * 0.4,
+            breakBefore: false,
+            ...base(nodeStyle, context),
+          });
+        }
+        lastSpace = false;
+        breakNext = true;
+        return;
+      }
+      if (node.name === 'img') {
+        // 远程或无法读取的图片显示替代文本
+        const alt = node.attribs?.alt;
+        if (alt) visitText(`[${alt}]`, nodeStyle, context);
+        return;
+      }
+      if (
+        [
+          'input',
+          'select',
+          'textarea',
+          'button',
+          'iframe',
+          'object',
+          'video',
+          'audio',
+          'canvas',
+        ].includes(node.name)
+      ) {
+        return;
+      }
+
+      let shift = context.shift;
+      if (nodeStyle.verticalAlign === 'super') shift += current.fontSize * 0.35;
+      else if (nodeStyle.verticalAlign === 'sub') shift -= current.fontSize * 0.2;
+      const href = node.name === 'a' && node.attribs?.href ? node.attribs.href : context.href;
+      const hasBackground = !!nodeStyle.backgroundColor && nodeStyle.backgroundColor.a > 0;
+      const owners = hasBackground ? [...context.owners, { style: nodeStyle }] : context.owners;
+      const next = { shift, href, owners };
+
+      const [, pr, , pl] = nodeStyle.padding.map(value => resolveLength(value, 0));
+      const [, mr, , ml] = nodeStyle.margin.map(value => resolveLength(value, 0));
+      const [, br, , bl] = nodeStyle.borderWidth;
+      const leading = pl + ml + bl;
+      const trailing = pr + mr + br;
+      if (leading > 0) {
+        push({
+          kind: 'text',
+          text: '',
+          width: leading,
+          breakBefore: false,
+          ...base(nodeStyle, next),
+        });
+      }
+      for (const child of node.children ?? []) visit(child, nodeStyle, next);
+      if (trailing > 0) {
+        push({
+          kind: 'text',
+          text: '',
+          width: trailing,
+          breakBefore: false,
+          ...base(nodeStyle, next),
+        });
+      }
+    };
+
+    for (const node of nodes) {
+      const parentStyle = node.parent ? (this.styles.get(node.parent) ?? style) : style;
+      visit(node, parentStyle, { shift: 0, owners: [] });
+    }
+    if (pendingAnchors.length > 0 && tokens.length > 0) {
+      tokens[tokens.length - 1].anchors.push(...pendingAnchors);
+    }
+    return tokens;
+  }
+
+  /**
+   * 图片、SVG、复选框等原子行内盒
+   */
+  private replacedBox(node: any, style: ComputedStyle, width: number): InlineBox | null {
+    if (node.name === 'input' && (node.attribs?.type ?? '').toLowerCase() === 'checkbox') {
+      const size = style.fontSize * 0.85;
+      return { kind: 'checkbox', width: size, height: size, checked: 'checked' in node.attribs };
+    }
+    if (node.name === 'svg') {
+      const svg = this.serializeSvg(node);
+      let natural: { width: number; height: number };
+      try {
+        natural = svgSize(svg);
+      } catch {
+        return null;
+      }
+      return { kind: 'svg', svg, ...this.fitBox(style, natural, width) };
+    }
+    if (node.name !== 'img') return null;
+    const src = node.attribs?.src;
+    const image = src ? this.options.images.get(src) : null;
+    if (!image) return null;
+    const natural = { width: image.width || 300, height: image.height || 150 };
+    const size = this.fitBox(style, natural, width);
+    return image.type === 'svg'
+      ? { kind: 'svg', svg: image.data.toString('utf-8'), ...size }
+      : { kind: 'image', image, ...size };
+  }
+
+  private serializeSvg(node: any): string {
+    const render = (current: any): string => {
+      if (current.type === 'text') return escapeXml(current.data ?? '');
+      if (!isElement(current)) return '';
+      const attrs = Object.entries(current.attribs ?? {})
+        .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+        .join('');
+      return `<${current.name}${attrs}>${(current.children ?? []).map(render).join('')}</${current.name}>`;
+    };
+    return render(node);
+  }
+
+  /**
+   * 按 CSS 尺寸、max-width 与可用宽度/页面高度等比缩放
+   */
+  private fitBox(
+    style: ComputedStyle,
+    natural: { width: number; height: number },
+    available: number
+  ): { width: number; height: number } {
+    const ratio = natural.height / Math.max(1, natural.width);
+    let width = style.width === 'auto' ? null : resolveLength(style.width, available);
+    let height = style.height === 'auto' ? null : resolveLength(style.height, 0);
+    if (style.height !== 'auto' && typeof style.height !== 'number') height = null;
+    if (width !== null && height === null) height = width * ratio;
+    else if (height !== null && width === null) width = height / ratio;
+    else if (width === null || height === null) {
+      width = natural.width;
+      height = natural.height;
+    }
+    const limits = [Number.isFinite(available) ? available : Infinity];
+    if (style.maxWidth !== 'auto' && Number.isFinite(available)) {
+      limits.push(resolveLength(style.maxWidth, available));
+    }
+    const maxWidth = Math.min(...limits);
+    if (width > maxWidth) {
+      height *= maxWidth / width;
+      width = maxWidth;
+    }
+    const maxHeight = this.options.pageHeight * 0.95;
+    if (height > maxHeight) {
+      width *= maxHeight / height;
+      height = maxHeight;
+    }
+    return { width: Math.max(1, width), height: Math.max(1, height) };
+  }
+
+  /**
+   * 断行：空格与 CJK 字符处为断点，超宽单词按字符拆分
+   */
+  private breakLines(
+    tokens: InlineToken[],
+    width: number,
+    indent: number
+  ): Array<{ tokens: InlineToken[]; last: boolean }> {
+    const lines: Array<{ tokens: InlineToken[]; last: boolean }> = [];
+    let current: InlineToken[] = [];
+    let currentWidth = 0;
+    const hasContent = () => current.some(token => token.kind !== 'space');
+    const limit = () => width - (lines.length === 0 ? indent : 0);
+    const finish = (last: boolean) => {
+      while (current.length > 0 && current[current.length - 1].kind === 'space') current.pop();
+      lines.push({ tokens: current, last });
+      current = [];
+      currentWidth = 0;
+    };
+    const place = (unit: InlineToken[]) => {
+      const unitWidth = unit.reduce((sum, token) => sum + token.width, 0);
+      if (currentWidth + unitWidth > limit() + 0.01 && hasContent()) finish(false);
+      if (
+        unitWidth > limit() + 0.01 &&
+        unit.some(token => token.kind === 'text' && token.text.length > 1)
+      ) {
+        for (const piece of this.splitUnit(unit)) {
+          if (currentWidth + piece.width > limit() + 0.01 && hasContent()) finish(false);
+          current.push(piece);
+          currentWidth += piece.width;
+        }
+        return;
+      }
+      current.push(...unit);
+      currentWidth += unitWidth;
+    };
+
+    let index = 0;
+    while (index < tokens.length) {
+      const token = tokens[index];
+      if (token.kind === 'break') {
+        finish(true);
+        index++;
+        continue;
+      }
+      if (token.kind === 'space') {
+        if (hasContent()) {
+          current.push(token);
+          currentWidth += token.width;
+        }
+        index++;
+        continue;
+      }
+      let end = index + 1;
+      while (
+        end < tokens.length &&
+        !tokens[end].breakBefore &&
+        tokens[end].kind !== 'break' &&
+        tokens[end].kind !== 'space'
+      ) {
+        end++;
+      }
+      place(tokens.slice(index, end));
+      index = end;
+    }
+    if (current.length > 0 || lines.length === 0) finish(true);
+    else lines[lines.length - 1].last = true;
+    return lines;
+  }
+
+  private splitUnit(unit: InlineToken[]): InlineToken[] {
+    const pieces: InlineToken[] = [];
+    for (const token of unit) {
+      if (token.kind !== 'text' || !token.font || token.text.length <= 1) {
+        pieces.push(token);
+        continue;
+      }
+      Array.from(token.text).forEach((char, index) => {
+        pieces.push({
+          ...token,
+          text: char,
+          width: this.options.fonts.measure(char, token.font!, token.style.fontSize),
+          anchors: index === 0 ? token.anchors : [],
+        });
+      });
+    }
+    return pieces;
+  }
+
+  private layoutInline(
+    nodes: any[],
+    style: ComputedStyle,
+    x: number,
+    width: number,
+    state: FlowState
+  ): void {
+    const tokens = this.collectTokens(nodes, style, width);
+    // 仅由空白组成的匿名块（块之间的换行符）不产生行
+    if (!tokens.some(token => token.kind !== 'space')) return;
+
+    const indent = resolveLength(style.textIndent, width);
+    const lines = this.breakLines(tokens, width, indent);
+    const strut = this.metrics(style, this.selectFont(style), 0);
+
+    lines.forEach((line, lineIndex) => {
+      let above = strut.above;
+      let below = strut.below;
+      for (const token of line.tokens) {
+        const metrics = this.tokenMetrics(token);
+        above = Math.max(above, metrics.above);
+        below = Math.max(below, metrics.below);
+      }
+
+      this.commit(state);
+      const top = state.y;
+      const baseline = top + above;
+      const bottom = baseline + below;
+
+      const offset = lineIndex === 0 ? indent : 0;
+      const used = line.tokens.reduce((sum, token) => sum + token.width, 0);
+      const free = width - offset - used;
+      const spaces = line.tokens.filter(token => token.kind === 'space').length;
+      let cursor = x + offset;
+      let spacing = 0;
+      if (style.textAlign === 'right') cursor += Math.max(0, free);
+      else if (style.textAlign === 'center') cursor += Math.max(0, free / 2);
+      else if (style.textAlign === 'justify' && !line.last && spaces > 0 && free > 0) {
+        spacing = free / spaces;
+      }
+
+      this.paintLine(line.tokens, cursor, spacing, top, baseline, bottom);
+      for (const marker of [...this.markers]) this.drawMarker(marker, baseline);
+
+      this.keeps.push([top, bottom]);
+      if (this.keepFrom !== null) {
+        this.keeps.push([this.keepFrom, bottom]);
+        this.keepFrom = null;
+      }
+      state.y = bottom;
+    });
+  }
+
+  private metrics(
+    style: ComputedStyle,
+    font: FontSelection,
+    shift: number
+  ): { above: number; below: number } {
+    const face = font.faces[0];
+    const ascent = face.ascent * style.fontSize;
+    const descent = face.descent * style.fontSize;
+    const half = (style.lineHeight - ascent - descent) / 2;
+    return { above: ascent + half + shift, below: descent + half - shift };
+  }
+
+  private tokenMetrics(token: InlineToken): { above: number; below: number } {
+    if (token.box) {
+      if (token.box.kind === 'checkbox' || token.style.verticalAlign === 'middle') {
+        const center = token.style.fontSize * 0.3 + token.shift;
+        return {
+          above: center + token.box.height / 2,
+          below: token.box.height / 2 - center,
+        };
+      }
+      return { above: token.box.height + token.shift, below: -token.shift };
+    }
+    if (!token.font) return { above: 0, below: 0 };
+    return this.metrics(token.style, token.font, token.shift);
+  }
+
+  /**
+   * 输出一行的背景、文本、装饰线、链接和原子盒
+   */
+  private paintLine(
+    tokens: InlineToken[],
+    startX: number,
+    spacing: number,
+    top: number,
+    baseline: number,
+    bottom: number
+  ): void {
+    const positions: number[] = [];
+    let cursor = startX;
+    for (const token of tokens) {
+      positions.push(cursor);
+      cursor += token.width + (token.kind === 'space' ? spacing : 0);
+    }
+    const end = (index: number) =>
+      positions[index] + tokens[index].width + (tokens[index].kind === 'space' ? spacing : 0);
+
+    // 行内背景：同一元素在本行的连续范围
+    const owners = new Map<InlineOwner, [number, number]>();
+    tokens.forEach((token, index) => {
+      for (const owner of token.owners) {
+        const range = owners.get(owner);
+        owners.set(owner, range ? [range[0], end(index)] : [positions[index], end(index)]);
+      }
+    });
+    for (const [owner, [from, to]] of owners) {
+      const font = this.selectFont(owner.style);
+      const face = font.faces[0];
+      const [pt, , pb] = owner.style.padding.map(value => resolveLength(value, 0));
+      const y = baseline - face.ascent * owner.style.fontSize - pt;
+      const height = (face.ascent + face.descent) * owner.style.fontSize + pt + pb;
+      this.items.push({
+        kind: 'rect',
+        x: from,
+        y,
+        width: to - from,
+        height,
+        color: owner.style.backgroundColor!,
+      });
+    }
+
+    let index = 0;
+    while (index < tokens.length) {
+      const token = tokens[index];
+      for (const anchor of token.anchors) this.items.push({ kind: 'anchor', y: top, id: anchor });
+      if (token.box) {
+        this.paintReplaced(token, positions[index], baseline);
+        index++;
+        continue;
+      }
+      // 合并同样式的连续文本；两端对齐时空格宽度不同，逐词输出
+      let last = index;
+      let text = token.text;
+      while (
+        last + 1 < tokens.length &&
+        !tokens[last + 1].box &&
+        !isSpacer(token) &&
+        !isSpacer(tokens[last + 1]) &&
+        tokens[last + 1].style === token.style &&
+        tokens[last + 1].shift === token.shift &&
+        tokens[last + 1].href === token.href &&
+        tokens[last + 1].anchors.length === 0 &&
+        !(spacing > 0 && (tokens[last + 1].kind === 'space' || tokens[last].kind === 'space'))
+      ) {
+        last++;
+        text += tokens[last].text;
+      }
+      const x = positions[index];
+      const width =
+        end(last) - x - (tokens[last].kind === 'space' ? tokens[last].width + spacing : 0);
+      if (token.font && token.style.visible && text.trim()) {
+        const y = baseline - token.shift;
+        this.pushText(text, x, y, token.style, token.font, top);
+        const size = token.style.fontSize;
+        const thickness = Math.max(0.75, size / 16);
+        if (token.style.underline) {
+          this.items.push({
+            kind: 'rect',
+            x,
+            y: y + size * 0.12,
+            width,
+            height: thickness,
+            color: token.style.color,
+          });
+        }
+        if (token.style.lineThrough) {
+          this.items.push({
+            kind: 'rect',
+            x,
+            y: y - size * 0.3,
+            width,
+            height: thickness,
+            color: token.style.color,
+          });
+        }
+      }
+      index = last + 1;
+    }
+
+    // 链接区域
+    let linkStart = -1;
+    tokens.forEach((token, tokenIndex) => {
+      const next = tokens[tokenIndex + 1];
+      if (!token.href) return;
+      if (linkStart < 0) linkStart = tokenIndex;
+      if (!next || next.href !== token.href) {
+        const x = positions[linkStart];
+        this.items.push({
+          kind: 'link',
+          x,
+          y: top,
+          width: end(tokenIndex) - x,
+          height: bottom - top,
+          href: token.href,
+        });
+        linkStart = -1;
+      }
+    });
+  }
+
+  private paintReplaced(token: InlineToken, x: number, baseline: number): void {
+    const box = token.box!;
+    const metrics = this.tokenMetrics(token);
+    const y = baseline - metrics.above;
+    if (!token.style.visible) return;
+    if (box.kind === 'image') {
+      this.items.push({
+        kind: 'image',
+        x,
+        y,
+        width: box.width,
+        height: box.height,
+        image: box.image!,
+      });
+    } else if (box.kind === 'svg') {
+      this.items.push({ kind: 'svg', x, y, width: box.width, height: box.height, svg: box.svg! });
+    } else {
+      const line = Math.max(0.75, box.width / 12);
+      const color = token.style.color;
+      this.items.push(
+        { kind: 'rect', x, y, width: box.width, height: line, color },
+        { kind: 'rect', x, y: y + box.height - line, width: box.width, height: line, color },
+        { kind: 'rect', x, y, width: line, height: box.height, color },
+        { kind: 'rect', x: x + box.width - line, y, width: line, height: box.height, color }
+      );
+      if (box.checked) {
+        const size = box.height;
+        const selection = this.selectFont(token.style);
+        const mark = '✓';
+        const markWidth = this.options.fonts.measure(mark, selection, size);
+        this.pushText(
+          mark,
+          x + (box.width - markWidth) / 2,
+          y + size * 0.85,
+          { ...token.style, fontSize: size },
+          selection,
+          y
+        );
+      }
+    }
+  }
+
+  private pushText(
+    text: string,
+    x: number,
+    baseline: number,
+    style: ComputedStyle,
+    font: FontSelection,
+    top: number
+  ): void {
+    let cursor = x;
+    for (const run of this.options.fonts.splitRuns(text, font)) {
+      this.items.push({
+        kind: 'text',
+        x: cursor,
+        y: baseline,
+        top,
+        text: run.text,
+        face: run.face,
+        size: style.fontSize,
+        color: style.color,
+        syntheticBold: font.syntheticBold,
+        syntheticItalic: font.syntheticItalic,
+      });
+      cursor += run.face.widthOf(run.text, style.fontSize);
+    }
+  }
+
+  // ===== 表格 =====
+
+  private buildGrid(table: any): TableGrid {
+    const grid: TableGrid = { rows: [], cells: [], columns: 0, captions: [] };
+    const groups: Record<'head' | 'body' | 'foot', any[]> = { head: [], body: [], foot: [] };
+    const addRow = (row: any, group: 'head' | 'body' | 'foot') => {
+      const style = this.styles.get(row);
+      if (style && style.display !== 'none') groups[group].push({ element: row, style, group });
+    };
+    for (const child of table.children ?? []) {
+      if (!isElement(child)) continue;
+      const style = this.styles.get(child);
+      if (!style || style.display === 'none') continue;
+      if (style.display === 'table-caption') grid.captions.push(child);
+      else if (style.display === 'table-row') addRow(child, 'body');
+      else if (/^table-(header|row|footer)-group$/.test(style.display)) {
+        const group =
+          style.display === 'table-header-group'
+            ? 'head'
+            : style.display === 'table-footer-group'
+              ? 'foot'
+              : 'body';
+        for (const row of child.children ?? []) {
+          if (isElement(row) && this.styles.get(row)?.display === 'table-row') addRow(row, group);
+        }
+      }
+    }
+    // 没有 thead 时，首行全部为 th 视为表头
+    if (groups.head.length === 0 && groups.body.length > 1) {
+      const first = groups.body[0].element;
+      const cells = (first.children ?? []).filter(isElement);
+      if (cells.length > 0 && cells.every((cell: any) => cell.name === 'th')) {
+        groups.head.push({ ...groups.body.shift(), group: 'head' });
+      }
+    }
+    grid.rows = [...groups.head, ...groups.body, ...groups.foot];
+
+    const occupied: boolean[][] = [];
+    grid.rows.forEach((row, rowIndex) => {
+      occupied[rowIndex] ??= [];
+      let col = 0;
+      for (const cell of row.element.children ?? []) {
+        if (!isElement(cell)) continue;
+        const style = this.styles.get(cell);
+        if (!style || style.display !== 'table-cell') continue;
+        while (occupied[rowIndex][col]) col++;
+        const colspan = Math.max(1, parseInt(cell.attribs?.colspan ?? '1', 10) || 1);
+        const rowspan = Math.max(
+          1,
+          Math.min(grid.rows.length - rowIndex, parseInt(cell.attribs?.rowspan ?? '1', 10) || 1)
+        );
+        for (let r = rowIndex; r < rowIndex + rowspan; r++) {
+          occupied[r] ??= [];
+          for (let c = col; c < col + colspan; c++) occupied[r][c] = true;
+        }
+        grid.cells.push({ element: cell, style, row: rowIndex, col, colspan, rowspan });
+        col += colspan;
+        grid.columns = Math.max(grid.columns, col);
+      }
+    });
+    return grid;
+  }
+
+  /**
+   * 单元格内容到边框外沿的水平额外宽度
+   */
+  private cellInsets(cell: TableCell, collapse: boolean): [number, number] {
+    const [, pr, , pl] = cell.style.padding.map(value => resolveLength(value, 0));
+    const [, br, , bl] = cell.style.borderWidth;
+    return collapse ? [bl / 2 + pl, br / 2 + pr] : [bl + pl, br + pr];
+  }
+
+  private columnWidths(grid: TableGrid, collapse: boolean): { min: number[]; max: number[] } {
+    const min = new Array(grid.columns).fill(0);
+    const max = new Array(grid.columns).fill(0);
+    const sorted = [...grid.cells].sort((a, b) => a.colspan - b.colspan);
+    for (const cell of sorted) {
+      const [left, right] = this.cellInsets(cell, collapse);
+      const intrinsic = this.intrinsic(cell.element, cell.style);
+      let cellMin = intrinsic.min + left + right;
+      let cellMax = Math.max(cellMin, intrinsic.max + left + right);
+      if (typeof cell.style.width === 'number') {
+        cellMin = Math.max(cellMin, Math.min(cell.style.width + left + right, cellMax));
+        cellMax = Math.max(cellMin, cell.style.width + left + right);
+      }
+      const cols = Array.from({ length: cell.colspan }, (_, i) => cell.col + i);
+      const spread = (target: number[], value: number) => {
+        const current = cols.reduce((sum, c) => sum + target[c], 0);
+        if (value <= current) return;
+        const extra = (value - current) / cols.length;
+        for (const c of cols) target[c] += extra;
+      };
+      spread(min, cellMin);
+      spread(max, cellMax);
+    }
+    return { min, max: max.map((value, index) => Math.max(value, min[index])) };
+  }
+
+  /**
+   * 最小/最大内容宽度
+   */
+  private intrinsic(element: any, style: ComputedStyle): { min: number; max: number } {
+    let min = 0;
+    let max = 0;
+    let run: any[] = [];
+    const flush = () => {
+      if (run.length === 0) return;
+      const tokens = this.collectTokens(run, style, Infinity);
+      run = [];
+      let line = 0;
+      let unit = 0;
+      for (const token of tokens) {
+        if (token.kind === 'break') {
+          max = Math.max(max, line);
+          line = 0;
+          unit = 0;
+          continue;
+        }
+        line += token.width;
+        if (token.kind === 'space' || token.breakBefore) unit = 0;
+        if (token.kind !== 'space') unit += token.width;
+        const percentImage =
+          token.box && token.style.maxWidth !== 'auto' && typeof token.style.maxWidth === 'object';
+        if (!percentImage) min = Math.max(min, unit);
+      }
+      max = Math.max(max, line);
+    };
+    for (const child of element.children ?? []) {
+      if (child.type === 'text') {
+        run.push(child);
+        continue;
+      }
+      if (!isElement(child)) continue;
+      const childStyle = this.styles.get(child);
+      if (!childStyle || childStyle.display === 'none') continue;
+      if (!this.isBlockLevel(child, childStyle)) {
+        run.push(child);
+        continue;
+      }
+      flush();
+      const [, mr, , ml] = childStyle.margin.map(value => resolveLength(value, 0));
+      const [, pr, , pl] = childStyle.padding.map(value => resolveLength(value, 0));
+      const [, br, , bl] = childStyle.borderWidth;
+      const extras = ml + mr + pl + pr + bl + br;
+      let inner: { min: number; max: number };
+      if (childStyle.display === 'table') {
+        const grid = this.buildGrid(child);
+        const widths = this.columnWidths(grid, childStyle.borderCollapse);
+        const spacing = childStyle.borderCollapse
+          ? 0
+          : childStyle.borderSpacing * (grid.columns + 1);
+        inner = {
+          min: widths.min.reduce((a, b) => a + b, 0) + spacing,
+          max: widths.max.reduce((a, b) => a + b, 0) + spacing,
+        };
+      } else if (typeof childStyle.width === 'number') {
+        inner = { min: childStyle.width, max: childStyle.width };
+      } else {
+        inner = this.intrinsic(child, childStyle);
+      }
+      min = Math.max(min, inner.min + extras);
+      max = Math.max(max, inner.max + extras);
+    }
+    flush();
+    return { min, max };
+  }
+
+  private layoutTable(
+    element: any,
+    style: ComputedStyle,
+    x: number,
+    width: number,
+    state: FlowState
+  ): void {
+    const grid = this.buildGrid(element);
+    if (grid.columns === 0) return;
+    const collapse = style.borderCollapse;
+    const spacing = collapse ? 0 : style.borderSpacing;
+    const [mt, mr, mb, ml] = style.margin.map(value => resolveLength(value, width));
+    const [pt, pr, pb, pl] = collapse
+      ? [0, 0, 0, 0]
+      : style.padding.map(value => resolveLength(value, width));
+    const [bt, br, bb, bl] = style.borderWidth.map(value => (collapse ? value / 2 : value));
+    const frame = bl + br + pl + pr + spacing * (grid.columns + 1);
+
+    const available = Math.max(0, width - ml - mr);
+    const { min, max } = this.columnWidths(grid, collapse);
+    const sumMin = min.reduce((a, b) => a + b, 0);
+    const sumMax = max.reduce((a, b) => a + b, 0);
+    let inner =
+      style.width === 'auto'
+        ? Math.min(available - frame, sumMax)
+        : resolveLength(style.width, available) - frame;
+    inner = Math.max(0, Math.min(Math.max(inner, sumMin), available - frame));
+
+    let columns: number[];
+    if (sumMax <= inner) {
+      columns = max.map(value =>
+        sumMax > 0 ? value + ((inner - sumMax) * value) / sumMax : inner / grid.columns
+      );
+    } else if (sumMin <= inner && sumMax > sumMin) {
+      const ratio = (inner - sumMin) / (sumMax - sumMin);
+      columns = min.map((value, index) => value + (max[index] - value) * ratio);
+    } else {
+      columns = min.map(value => (sumMin > 0 ? (value * inner) / sumMin : inner / grid.columns));
+    }
+
+    const tableWidth = inner + frame;
+    let left = x + ml;
+    if (style.margin[1] === 'auto' && style.margin[3] === 'auto') {
+      left = x + Math.max(0, (width - tableWidth) / 2);
+    }
+
+    if (style.breakBefore) this.forceBreak(state);
+    this.addMargin(state, mt);
+    this.commit(state);
+    const id = element.attribs?.id;
+    if (id) this.items.push({ kind: 'anchor', y: state.y, id });
+
+    for (const caption of grid.captions) {
+      const captionStyle = this.styles.get(caption)!;
+      this.layoutBlock(caption, captionStyle, left, tableWidth, state);
+      this.commit(state);
+    }
+
+    const tableTop = state.y;
+    const underlay = this.reserve();
+    const columnX: number[] = [left + bl + pl + spacing];
+    columns.forEach((columnWidth, index) => {
+      columnX[index + 1] = columnX[index] + columnWidth + spacing;
+    });
+
+    const rowTops: number[] = [];
+    const rowHeights: number[] = [];
+    const placed: Array<{
+      cell: TableCell;
+      group: { kind: 'group'; items: DrawItem[] };
+      start: number;
+      end: number;
+      keepStart: number;
+      keepEnd: number;
+      contentHeight: number;
+    }> = [];
+    let y = tableTop + bt + pt + spacing;
+    let headerEnd: { y: number; items: number } | null = null;
+    const headerRows = grid.rows.filter(row => row.group === 'head').length;
+
+    grid.rows.forEach((row, rowIndex) => {
+      rowTops[rowIndex] = y;
+      const rowGroup = this.reserve();
+      let rowHeight = typeof row.style.height === 'number' ? row.style.height : 0;
+
+      for (const cell of grid.cells.filter(candidate => candidate.row === rowIndex)) {
+        const [insetLeft, insetRight] = this.cellInsets(cell, collapse);
+        const [cpt, , cpb] = cell.style.padding.map(value => resolveLength(value, 0));
+        const [cbt, , cbb] = cell.style.borderWidth.map(value => (collapse ? value / 2 : value));
+        const cellX = columnX[cell.col];
+        const cellWidth =
+          columnX[cell.col + cell.colspan] - cellX - spacing - insetLeft - insetRight;
+        const group = this.reserve();
+        const start = this.items.length;
+        const keepStart = this.keeps.length;
+        const cellState: FlowState = { y: y + cbt + cpt, positive: 0, negative: 0, waiting: [] };
+        this.layoutChildren(
+          cell.element,
+          cell.style,
+          cellX + insetLeft,
+          Math.max(0, cellWidth),
+          cellState
+        );
+        this.commit(cellState);
+        const contentHeight = cellState.y - y + cpb + cbb;
+        const minHeight = typeof cell.style.height === 'number' ? cell.style.height : 0;
+        placed.push({
+          cell,
+          group,
+          start,
+          end: this.items.length,
+          keepStart,
+          keepEnd: this.keeps.length,
+          contentHeight: Math.max(contentHeight, minHeight),
+        });
+        if (cell.rowspan === 1) rowHeight = Math.max(rowHeight, contentHeight, minHeight);
+      }
+      // 跨行单元格在其最后一行补足高度
+      for (const entry of placed) {
+        const { cell } = entry;
+        if (cell.rowspan > 1 && cell.row + cell.rowspan - 1 === rowIndex) {
+          const spanned = y + rowHeight - rowTops[cell.row];
+          if (entry.contentHeight > spanned) rowHeight += entry.contentHeight - spanned;
+        }
+      }
+      rowHeights[rowIndex] = rowHeight;
+      if (row.style.backgroundColor && row.style.backgroundColor.a > 0) {
+        rowGroup.items.push({
+          kind: 'rect',
+          x: columnX[0],
+          y,
+          width: columnX[grid.columns] - spacing - columnX[0],
+          height: rowHeight,
+          color: row.style.backgroundColor,
+        });
+      }
+      this.keeps.push([y, y + rowHeight]);
+      y += rowHeight + spacing;
+      if (rowIndex === headerRows - 1) headerEnd = { y, items: this.items.length };
+    });
+
+    // 单元格垂直对齐、背景和边框
+    for (const entry of placed) {
+      const { cell } = entry;
+      const top = rowTops[cell.row];
+      const lastRow = cell.row + cell.rowspan - 1;
+      const height = rowTops[lastRow] + rowHeights[lastRow] - top;
+      const free = height - entry.contentHeight;
+      const align = cell.style.verticalAlign;
+      const dy = align === 'middle' ? free / 2 : align === 'bottom' ? free : 0;
+      if (dy > 0.5) this.shift(entry.start, entry.end, entry.keepStart, entry.keepEnd, dy);
+      if (cell.rowspan > 1) this.keeps.push([top, top + height]);
+
+      const cellX = columnX[cell.col];
+      const cellWidth = columnX[cell.col + cell.colspan] - spacing - cellX;
+      if (collapse) {
+        const [cbt, cbr, cbb, cbl] = cell.style.borderWidth;
+        const background = cell.style.backgroundColor;
+        if (background && background.a > 0) {
+          entry.group.items.push({
+            kind: 'rect',
+            x: cellX,
+            y: top,
+            width: cellWidth,
+            height,
+            color: background,
+          });
+        }
+        const [ct, cr, cb, cl] = cell.style.borderColor;
+        const edges: Array<[number, number, number, number, number, RgbaColor]> = [
+          [cellX - cbl / 2, top - cbt / 2, cellWidth + (cbl + cbr) / 2, cbt, cbt, ct],
+          [cellX - cbl / 2, top + height - cbb / 2, cellWidth + (cbl + cbr) / 2, cbb, cbb, cb],
+          [cellX - cbl / 2, top - cbt / 2, cbl, height + (cbt + cbb) / 2, cbl, cl],
+          [cellX + cellWidth - cbr / 2, top - cbt / 2, cbr, height + (cbt + cbb) / 2, cbr, cr],
+        ];
+        for (const [ex, ey, ew, eh, size, color] of edges) {
+          if (size > 0)
+            entry.group.items.push({ kind: 'rect', x: ex, y: ey, width: ew, height: eh, color });
+        }
+      } else {
+        this.paintBox(entry.group.items, cell.style, cellX, top, cellWidth, height);
+      }
+    }
+
+    const tableBottom = y + pb + bb;
+    if (collapse) {
+      const [obt, obr, obb, obl] = style.borderWidth;
+      const boxX = left;
+      const boxY = tableTop;
+      const boxW = tableWidth;
+      const boxH = tableBottom - tableTop;
+      if (style.backgroundColor && style.backgroundColor.a > 0) {
+        underlay.items.push({
+          kind: 'rect',
+          x: boxX,
+          y: boxY,
+          width: boxW,
+          height: boxH,
+          color: style.backgroundColor,
+        });
+      }
+      const [ct, cr, cb, cl] = style.borderColor;
+      if (obt > 0)
+        this.items.push({
+          kind: 'rect',
+          x: boxX - obl / 2,
+          y: boxY - obt / 2,
+          width: boxW + (obl + obr) / 2,
+          height: obt,
+          color: ct,
+        });
+      if (obb > 0)
+        this.items.push({
+          kind: 'rect',
+          x: boxX - obl / 2,
+          y: boxY + boxH - obb / 2,
+          width: boxW + (obl + obr) / 2,
+          height: obb,
+          color: cb,
+        });
+      if (obl > 0)
+        this.items.push({
+          kind: 'rect',
+          x: boxX - obl / 2,
+          y: boxY - obt / 2,
+          width: obl,
+          height: boxH + (obt + obb) / 2,
+          color: cl,
+        });
+      if (obr > 0)
+        this.items.push({
+          kind: 'rect',
+          x: boxX + boxW - obr / 2,
+          y: boxY - obt / 2,
+          width: obr,
+          height: boxH + (obt + obb) / 2,
+          color: cr,
+        });
+    } else {
+      this.paintBox(underlay.items, style, left, tableTop, tableWidth, tableBottom - tableTop);
+    }
+
+    if (headerEnd && grid.rows.length > headerRows) {
+      const end = headerEnd as { y: number; items: number };
+      const startIndex = this.items.indexOf(underlay) + 1;
+      this.headers.push({
+        top: tableTop,
+        bottom: end.y,
+        tableBottom,
+        items: flattenItems(this.items.slice(startIndex, end.items)),
+      });
+      // 表头与第一行数据不分开
+      this.keeps.push([tableTop, rowTops[headerRows] + rowHeights[headerRows]]);
+    }
+
+    state.y = tableBottom;
+    this.addMargin(state, mb);
+    if (style.breakAfter) this.forceBreak(state);
+  }
+
+  private shift(
+    itemStart: number,
+    itemEnd: number,
+    keepStart: number,
+    keepEnd: number,
+    dy: number
+  ): void {
+    const move = (item: DrawItem) => {
+      if (item.kind === 'group') item.items.forEach(move);
+      else {
+        item.y += dy;
+        if (item.kind === 'text') item.top += dy;
+      }
+    };
+    for (let i = itemStart; i < itemEnd; i++) move(this.items[i]);
+    for (let i = keepStart; i < keepEnd; i++) {
+      this.keeps[i] = [this.keeps[i][0] + dy, this.keeps[i][1] + dy];
+    }
+  }
+}
+
+/**
+ * 展开 group 占位，得到按绘制顺序排列的指令
+ */
+function flattenItems(items: DrawItem[]): DrawItem[] {
+  const result: DrawItem[] = [];
+  const visit = (item: DrawItem) => {
+    if (item.kind === 'group') item.items.forEach(visit);
+    else result.push(item);
+  };
+  items.forEach(visit);
+  return result;
+}
+
+function applyTransform(text: string, transform: string): string {
+  if (transform === 'uppercase') return text.toUpperCase();
+  if (transform === 'lowercase') return text.toLowerCase();
+  if (transform === 'capitalize') return text.replace(/\b\p{L}/gu, char => char.toUpperCase());
+  return text;
+}
+
+function expandTabs(line: string): string {
+  if (!line.includes('\t')) return line;
+  let result = '';
+  for (const char of line) {
+    if (char === '\t') result += ' '.repeat(TAB_SIZE - (result.length % TAB_SIZE));
+    else result += char;
+  }
+  return result;
+}
+
+/**
+ * 把 CJK 字符拆成单独的断行单位
+ */
+function splitCjk(word: string): string[] {
+  if (!CJK_PATTERN.test(word)) return [word];
+  const parts: string[] = [];
+  let current = '';
+  for (const char of word) {
+    if (CJK_PATTERN.test(char)) {
+      if (current) parts.push(current);
+      current = '';
+      // 避头标点附在前一个字符后
+      if (NO_BREAK_BEFORE.test(char) && parts.length > 0) parts[parts.length - 1] += char;
+      else parts.push(char);
+    } else if (NO_BREAK_BEFORE.test(char) && !current && parts.length > 0) {
+      parts[parts.length - 1] += char;
+    } else {
+      current += char;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+function formatCounter(value: number, type: string): string {
+  if (
+    type === 'lower-alpha' ||
+    type === 'lower-latin' ||
+    type === 'upper-alpha' ||
+    type === 'upper-latin'
+  ) {
+    let text = '';
+    let n = value;
+    while (n > 0) {
+      n--;
+      text = String.fromCharCode(97 + (n % 26)) + text;
+      n = Math.floor(n / 26);
+    }
+    return type.startsWith('upper') ? text.toUpperCase() : text;
+  }
+  if (type === 'lower-roman' || type === 'upper-roman') {
+    const numerals: Array<[number, string]> = [
+      [1000, 'm'],
+      [900, 'cm'],
+      [500, 'd'],
+      [400, 'cd'],
+      [100, 'c'],
+      [90, 'xc'],
+      [50, 'l'],
+      [40, 'xl'],
+      [10, 'x'],
+      [9, 'ix'],
+      [5, 'v'],
+      [4, 'iv'],
+      [1, 'i'],
+    ];
+    let text = '';
+    let n = value;
+    for (const [amount, numeral] of numerals) {
+      while (n >= amount) {
+        text += numeral;
+        n -= amount;
+      }
+    }
+    return type === 'upper-roman' ? text.toUpperCase() : text;
+  }
+  if (type === 'decimal-leading-zero') return String(value).padStart(2, '0');
+  return String(value);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 把 MathML 转为带上下标的行内 HTML（PDF 中以文本近似排版）
+ */
+function convertMathToHtml($: CheerioAPI): void {
+  const render = (node: any): string => {
+    if (node.type === 'text') return escapeXml(node.data ?? '');
+    if (!isElement(node)) return '';
+    const children = (node.children ?? []).filter(
+      (child: any) => isElement(child) || (child.data ?? '').trim()
+    );
+    const inner = () => children.map(render).join('');
+    const group = (child: any) => {
+      const html = child ? render(child) : '';
+      const simple =
+        !child ||
+        ['mi', 'mn', 'mo', 'mtext'].includes(child.name) ||
+        $(child).text().trim().length <= 1;
+      return simple ? html : `(${html})`;
+    };
+    switch (node.name) {
+      case 'mi': {
+        const text = $(node).text();
+        return text.length === 1 && node.attribs?.mathvariant !== 'normal'
+          ? `<i>${escapeXml(text)}</i>`
+          : escapeXml(text);
+      }
+      case 'mo': {
+        const text = $(node).text().trim();
+        return /^[=<>≤≥≠≈±×÷→←↔⇒⇔∈∉⊂⊆∪∩+−-]$/.test(text) ? ` ${escapeXml(text)} ` : escapeXml(text);
+      }
+      case 'mn':
+      case 'mtext':
+      case 'ms':
+        return escapeXml($(node).text());
+      case 'mspace':
+        return ' ';
+      case 'mfrac':
+        return `${group(children[0])}/${group(children[1])}`;
+      case 'msqrt':
+        return `√(${inner()})`;
+      case 'mroot':
+        return `<sup>${render(children[1])}</sup>√${group(children[0])}`;
+      case 'msup':
+      case 'mover':
+        return `${render(children[0])}<sup>${render(children[1])}</sup>`;
+      case 'msub':
+      case 'munder':
+        return `${render(children[0])}<sub>${render(children[1])}</sub>`;
+      case 'msubsup':
+      case 'munderover':
+        return `${render(children[0])}<sub>${render(children[1])}</sub><sup>${render(children[2])}</sup>`;
+      case 'mfenced': {
+        const open = node.attribs?.open ?? '(';
+        const close = node.attribs?.close ?? ')';
+        return `${open}${children.map(render).join(node.attribs?.separators ?? ', ')}${close}`;
+      }
+      case 'mtable':
+        return `[${children.map(render).join('; ')}]`;
+      case 'mtr':
+      case 'mlabeledtr':
+        return children.map(render).join(', ');
+      case 'semantics':
+        return children[0] ? render(children[0]) : '';
+      case 'annotation':
+      case 'annotation-xml':
+      case 'mphantom':
+        return '';
+      default:
+        return inner();
+    }
+  };
+
+  $('math').each((_, element: any) => {
+    const block = element.attribs?.display === 'block';
+    const html = render(element).replace(/\s+/g, ' ').trim();
+    const tag = block ? 'div' : 'span';
+    const style = block ? ' style="text-align:center;margin:0.5em 0"' : '';
+    $(element).replaceWith(`<${tag} class="math"${style}>${html}</${tag}>`);
+  });
+}
+
+/**
+ * 预先读取文档中的本地图片（远程图片不下载，渲染替代文本）
+ */
+async function preloadImages(
+  $: CheerioAPI,
+  baseDir: string,
+  load: (src: string, baseDir: string) => Promise<LoadedImage>
+): Promise<Map<string, LoadedImage | null>> {
+  const images = new Map<string, LoadedImage | null>();
+  for (const element of $('img').toArray()) {
+    const src = $(element).attr('src');
+    if (!src || images.has(src)) continue;
+    if (isRemoteImage(src)) {
+      console.warn(`⚠️ PDF 渲染不下载远程图片，使用替代文本: ${src}`);
+      images.set(src, null);
+      continue;
+    }
+    try {
+      const image = await load(src, baseDir);
+      if (image.type === 'gif' || image.type === 'bmp') {
+        throw new Error(`PDF 不支持直接嵌入 ${image.type.toUpperCase()} 图片`);
+      }
+      images.set(src, image);
+    } catch (error: any) {
+      console.warn(
+        `⚠️ 图片读取失败 (${src.startsWith('data:') ? 'data URI' : src}): ${error.message}`
+      );
+      images.set(src, null);
+    }
+  }
+  return images;
+}
+
+export {
+  HtmlLayoutEngine,
+  DrawItem,
+  LayoutResult,
+  LayoutOptions,
+  RepeatedHeader,
+  flattenItems,
+  convertMathToHtml,
+  preloadImages,
+  formatCounter,
+};
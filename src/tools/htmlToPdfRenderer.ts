@@ -0,0 +1,720 @@
+/**
+ * HTML 转 PDF 渲染器（内置排版引擎，无需浏览器）
+ * 解析 CSS → 排版为连续长栏 → 按不可拆分区间/强制分页点分页 → 用 pdf-lib 绘制，
+ * 支持 @page 页面尺寸、页边距和页边距盒（页眉页脚、counter(page)/counter(pages)）、
+ * 嵌入子集字体、图片、SVG，外部链接和文档内 #锚点链接，以及按标题生成的书签和文档属性
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PDFDocument, PDFImage, PDFName, PDFPage, PDFString, degrees } from 'pdf-lib';
+import * as cheerio from 'cheerio';
+import {
+  ComputedStyle,
+  CssStyleResolver,
+  PageRule,
+  parseCssColor,
+  parseCssLength,
+  splitTopLevel,
+  unquote,
+} from './cssStyleResolver';
+import { PdfFontRegistry } from './pdfFontRegistry';
+import { PdfMetadata, applyPdfMetadata } from './pdfMetadata';
+import { outlineFromHeadings, writePdfOutline } from './pdfOutline';
+import {
+  HtmlLayoutEngine,
+  DrawItem,
+  LayoutResult,
+  RepeatedHeader,
+  flattenItems,
+  convertMathToHtml,
+  preloadImages,
+  formatCounter,
+} from './htmlLayoutEngine';
+import { PdfSvgRenderer, toRgb } from './pdfSvgRenderer';
+import { LoadedImage, loadImage, isRemoteImage } from './imageLoader';
+
+type PdfPageFormat = 'A3' | 'A4' | 'A5' | 'Letter' | 'Legal';
+
+interface HtmlToPdfOptions {
+  baseDir?: string; // 解析相对图片、样式表和字体路径的目录
+  format?: PdfPageFormat;
+  orientation?: 'portrait' | 'landscape';
+  margins?: {
+    top?: string;
+    right?: string;
+    bottom?: string;
+    left?: string;
+  };
+  title?: string;
+  metadata?: PdfMetadata; // 作者、主题、关键词等文档属性
+  outlineLevel?: number; // 按 h1 至该级标题生成书签，0 或省略时不生成
+  debug?: boolean;
+}
+
+interface HtmlToPdfResult {
+  pdfBytes: Uint8Array;
+  pageCount: number;
+  bookmarkCount: number;
+}
+
+// 尺寸单位为 pt
+interface PageGeometry {
+  width: number;
+  height: number;
+  margins: [number, number, number, number];
+}
+
+interface RenderedSection {
+  name?: string;
+  geometry: PageGeometry;
+  painter: PagePainter;
+  items: DrawItem[];
+  slices: PageSlice[];
+  pages: PDFPage[];
+}
+
+interface PageSlice {
+  start: number;
+  end: number;
+  header?: RepeatedHeader;
+  offset: number;
+}
+
+const PAGE_SIZES: Record<string, [number, number]> = {
+  a3: [841.89, 1190.55],
+  a4: [595.28, 841.89],
+  a5: [419.53, 595.28],
+  b4: [708.66, 1000.63],
+  b5: [498.9, 708.66],
+  letter: [612, 792],
+  legal: [612, 1008],
+};
+
+const DEFAULT_MARGIN = '20mm';
+const PX_TO_PT = 0.75;
+const MARGIN_BOXES = [
+  'top-left',
+  'top-center',
+  'top-right',
+  'bottom-left',
+  'bottom-center',
+  'bottom-right',
+];
+
+/**
+ * HTML 转 PDF 渲染器
+ */
+class HtmlToPdfRenderer {
+  async render(html: string, options: HtmlToPdfOptions = {}): Promise<HtmlToPdfResult> {
+    const baseDir = options.baseDir ?? process.cwd();
+    const $ = cheerio.load(html);
+    convertMathToHtml($);
+
+    const stylesheets = await this.collectStylesheets($, baseDir);
+    const probe = new CssStyleResolver({ viewportWidth: 0 });
+    stylesheets.forEach(css => probe.addStylesheet(css));
+    const initial = this.pageGeometry(probe.pageRules, undefined, options);
+
+    const resolver = new CssStyleResolver({
+      viewportWidth: (initial.width - initial.margins[1] - initial.margins[3]) / PX_TO_PT,
+    });
+    stylesheets.forEach(css => resolver.addStylesheet(css));
+    const styles = resolver.computeStyles($);
+
+    const doc = await PDFDocument.create();
+    const fonts = new PdfFontRegistry(doc, { fontFaces: resolver.fontFaces, baseDir });
+    const images = await preloadImages($, baseDir, loadImage);
+    const imageCache = new Map<LoadedImage, Promise<PDFImage | null>>();
+    const anchors = new Map<string, { page: PDFPage; y: number }>();
+    const headings = this.outlineHeadings($, options.outlineLevel ?? 0);
+
+    // 每个命名页面分组（如 DOCX 分节）按各自的页面规则排版
+    const sections: RenderedSection[] = [];
+    for (const group of this.pageGroups($, styles)) {
+      const geometry = this.pageGeometry(resolver.pageRules, group.name, options);
+      const [marginTop, marginRight, marginBottom, marginLeft] = geometry.margins;
+      const contentWidth = (geometry.width - marginLeft - marginRight) / PX_TO_PT;
+      const contentHeight = (geometry.height - marginTop - marginBottom) / PX_TO_PT;
+
+      const engine = new HtmlLayoutEngine(group.styles, {
+        fonts,
+        images,
+        pageHeight: contentHeight,
+      });
+      const layout = engine.layout($('html')[0], contentWidth);
+      const slices = paginate(layout, contentHeight);
+      const painter = new PagePainter(doc, fonts, geometry, imageCache);
+      const items = flattenItems(layout.items);
+      const pages = slices.map(() => doc.addPage([geometry.width, geometry.height]));
+      painter.collectAnchors(items, slices, pages, anchors);
+      sections.push({ name: group.name, geometry, painter, items, slices, pages });
+    }
+
+    const pageCount = doc.getPageCount();
+    let firstNumber = 1;
+    for (const section of sections) {
+      for (const [index, slice] of section.slices.entries()) {
+        await section.painter.paint(section.pages[index], section.items, slice, anchors);
+      }
+      await this.drawMarginBoxes(section, resolver.pageRules, fonts, firstNumber, pageCount);
+      firstNumber += section.pages.length;
+    }
+
+    // 书签指向标题锚点所在的页和位置，未排版出来的标题（如隐藏元素）跳过
+    const pages = doc.getPages();
+    const bookmarkCount = writePdfOutline(
+      doc,
+      outlineFromHeadings(
+        headings
+          .filter(heading => anchors.has(heading.id))
+          .map(heading => {
+            const anchor = anchors.get(heading.id)!;
+            return { ...heading, pageIndex: pages.indexOf(anchor.page), top: anchor.y };
+          })
+      )
+    );
+    if (bookmarkCount > 0) {
+      doc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+    }
+
+    const title =
+      options.metadata?.title || options.title || $('title').first().text().trim() || undefined;
+    applyPdfMetadata(doc, { creator: 'doc-ops-mcp', ...options.metadata, title });
+    const pdfBytes = await doc.save();
+    if (options.debug) {
+      console.log(
+        `📄 PDF 渲染完成: ${pageCount} 页, ${bookmarkCount} 个书签, ${pdfBytes.length} 字节`
+      );
+    }
+    return { pdfBytes, pageCount, bookmarkCount };
+  }
+
+  /**
+   * 书签用的标题（h1 至 maxLevel 级）；没有 id 的标题补上 id，排版时生成锚点
+   */
+  private outlineHeadings(
+    $: any,
+    maxLevel: number
+  ): { id: string; title: string; level: number }[] {
+    if (maxLevel < 1) return [];
+    const used = new Set<string>(
+      $('[id]')
+        .toArray()
+        .map((element: any) => element.attribs.id)
+    );
+    const selector = Array.from({ length: Math.min(maxLevel, 6) }, (_, index) => `h${index + 1}`);
+    const headings: { id: string; title: string; level: number }[] = [];
+    for (const element of $(selector.join(', ')).toArray()) {
+      const title = $(element).text().replace(/\s+/g, ' ').trim();
+      if (!title) continue;
+      let id: string = element.attribs.id;
+      if (!id) {
+        for (let index = headings.length + 1; !id || used.has(id); index++) {
+          id = `pdf-outline-${index}`;
+        }
+        used.add(id);
+        element.attribs.id = id;
+      }
+      headings.push({ id, title, level: Number(element.tagName.slice(1)) });
+    }
+    return headings;
+  }
+
+  /**
+   * 按 body 子元素的 page 属性划分命名页面分组，相邻分组之间强制分页；
+   * 每个分组得到一份样式表，组外元素被设为 display: none
+   */
+  private pageGroups(
+    $: any,
+    styles: Map<any, ComputedStyle>
+  ): { name?: string; styles: Map<any, ComputedStyle> }[] {
+    const body = $('body')[0];
+    const children: any[] = (body?.children ?? []).filter((child: any) => child.type === 'tag');
+    const hasText = (body?.children ?? []).some(
+      (child: any) => child.type === 'text' && child.data.trim()
+    );
+    const runs: { name?: string; elements: any[] }[] = [];
+    for (const child of children) {
+      const name = styles.get(child)?.page;
+      const last = runs[runs.length - 1];
+      if (last && (name === undefined || name === last.name)) last.elements.push(child);
+      else runs.push({ name, elements: [child] });
+    }
+    const named = Array.from(styles.values()).find(style => style.page)?.page;
+    if (runs.length <= 1 || hasText) return [{ name: runs[0]?.name ?? named, styles }];
+
+    return runs.map(run => {
+      const groupStyles = new Map(styles);
+      for (const child of children) {
+        const style = styles.get(child);
+        if (style && !run.elements.includes(child))
+          groupStyles.set(child, { ...style, display: 'none' });
+      }
+      return { name: run.name, styles: groupStyles };
+    });
+  }
+
+  /**
+   * 按文档顺序收集 <style> 与本地 <link rel="stylesheet">
+   */
+  private async collectStylesheets($: any, baseDir: string): Promise<string[]> {
+    const sheets: string[] = [];
+    for (const element of $('style, link').toArray()) {
+      if (element.name === 'style') {
+        const media = element.attribs?.media;
+        if (!media || /print|all/i.test(media)) sheets.push($(element).text());
+        continue;
+      }
+      const rel = (element.attribs?.rel ?? '').toLowerCase();
+      const href = element.attribs?.href;
+      if (!rel.split(/\s+/).includes('stylesheet') || !href) continue;
+      if (isRemoteImage(href)) {
+        console.warn(`⚠️ PDF 渲染不下载远程样式表: ${href}`);
+        continue;
+      }
+      try {
+        sheets.push(await fs.readFile(path.resolve(baseDir, decodeURI(href)), 'utf-8'));
+      } catch (error: any) {
+        console.warn(`⚠️ 样式表读取失败 (${href}): ${error.message}`);
+      }
+    }
+    return sheets;
+  }
+
+  /**
+   * 页面尺寸与页边距：显式选项 > @page 规则 > 默认值（A4，20mm）
+   */
+  private pageGeometry(
+    rules: PageRule[],
+    pageName: string | undefined,
+    options: HtmlToPdfOptions
+  ): PageGeometry {
+    const declarations: Record<string, string> = {};
+    for (const rule of rules) {
+      if (rule.pseudo || (rule.name && rule.name !== pageName)) continue;
+      Object.assign(declarations, rule.declarations);
+    }
+
+    let [width, height] = PAGE_SIZES.a4;
+    let landscape: boolean | undefined;
+    const size = declarations.size?.toLowerCase().trim();
+    if (size && size !== 'auto') {
+      const parts = size.split(/\s+/);
+      const named = parts.find(part => PAGE_SIZES[part]);
+      const lengths = parts
+        .map(part => parseCssLength(part, 16))
+        .filter((value): value is number => typeof value === 'number');
+      if (named) [width, height] = PAGE_SIZES[named];
+      else if (lengths.length >= 1) {
+        width = lengths[0] * PX_TO_PT;
+        height = (lengths[1] ?? lengths[0]) * PX_TO_PT;
+      }
+      if (parts.includes('landscape')) landscape = true;
+      else if (parts.includes('portrait')) landscape = false;
+    }
+    if (options.format) [width, height] = PAGE_SIZES[options.format.toLowerCase()];
+    if (options.orientation) landscape = options.orientation === 'landscape';
+    else if (options.format) landscape = false;
+    if (landscape !== undefined && landscape !== width > height) [width, height] = [height, width];
+
+    const sides = ['top', 'right', 'bottom', 'left'] as const;
+    const margins = sides.map(side => {
+      const value = options.margins?.[side] ?? declarations[`margin-${side}`] ?? DEFAULT_MARGIN;
+      const length = parseCssLength(value, 16);
+      if (typeof length === 'number') return length * PX_TO_PT;
+      if (length && typeof length === 'object') {
+        return ((side === 'top' || side === 'bottom' ? height : width) * length.percent) / 100;
+      }
+      return (parseCssLength(DEFAULT_MARGIN, 16) as number) * PX_TO_PT;
+    }) as [number, number, number, number];
+    return { width, height, margins };
+  }
+
+  /**
+   * 页边距盒：@top-left/center/right、@bottom-*，支持 :first、:left/:right 变体
+   */
+  private async drawMarginBoxes(
+    section: RenderedSection,
+    rules: PageRule[],
+    fonts: PdfFontRegistry,
+    firstNumber: number,
+    pageCount: number
+  ): Promise<void> {
+    const { pages, geometry } = section;
+    const applicable = rules.filter(rule => !rule.name || rule.name === section.name);
+    if (!applicable.some(rule => Object.keys(rule.marginBoxes).length > 0)) return;
+    const [marginTop, marginRight, marginBottom, marginLeft] = geometry.margins;
+
+    for (const [index, page] of pages.entries()) {
+      const number = firstNumber + index;
+      const boxes: Record<string, Record<string, string>> = {};
+      // 未命名规则 → 命名规则 → 伪类变体
+      const ordered = [
+        ...applicable.filter(rule => !rule.pseudo && !rule.name),
+        ...applicable.filter(rule => !rule.pseudo && rule.name),
+        ...applicable.filter(
+          rule =>
+            (rule.pseudo === 'first' && index === 0) ||
+            (rule.pseudo === 'left' && number % 2 === 0) ||
+            (rule.pseudo === 'right' && number % 2 === 1)
+        ),
+      ];
+      for (const rule of ordered) {
+        for (const [name, declarations] of Object.entries(rule.marginBoxes)) {
+          boxes[name] = { ...(boxes[name] ?? {}), ...declarations };
+        }
+      }
+
+      for (const name of MARGIN_BOXES) {
+        const box = boxes[name];
+        if (!box?.content) continue;
+        const text = evaluateContent(box.content, number, pageCount);
+        if (!text.trim()) continue;
+
+        const fontSize = (parseCssLength(box['font-size'] ?? '9pt', 12) as number) * PX_TO_PT || 9;
+        const color = parseCssColor(box.color ?? '#333333') ?? { r: 51, g: 51, b: 51, a: 1 };
+        const families = box['font-family']
+          ? splitTopLevel(box['font-family'], ',').map(family => unquote(family).toLowerCase())
+          : ['sans-serif'];
+        const selection = fonts.select(
+          families,
+          /bold|[6-9]00/.test(box['font-weight'] ?? ''),
+          false
+        );
+        const [vertical, horizontal] = name.split('-');
+        const align = box['text-align'] ?? (horizontal === 'center' ? 'center' : horizontal);
+        const lines = text.split('\n');
+        const lineHeight = fontSize * 1.2;
+        const blockHeight = lines.length * lineHeight;
+
+        let firstBaseline: number;
+        if (vertical === 'top') {
+          const padding = parseCssLength(box['padding-top'], 12);
+          const top =
+            typeof padding === 'number'
+              ? geometry.height - padding * PX_TO_PT
+              : geometry.height - (marginTop - blockHeight) / 2;
+          firstBaseline = top - fontSize * 0.9;
+        } else {
+          const padding = parseCssLength(box['padding-bottom'], 12);
+          const bottom =
+            typeof padding === 'number' ? padding * PX_TO_PT : (marginBottom - blockHeight) / 2;
+          firstBaseline = bottom + blockHeight - fontSize * 0.9;
+        }
+
+        for (const [lineIndex, line] of lines.entries()) {
+          const width = fonts.measure(line, selection, fontSize);
+          const left = marginLeft;
+          const right = geometry.width - marginRight;
+          let x = left;
+          if (align === 'center') x = (left + right - width) / 2;
+          else if (align === 'right') x = right - width;
+          const y = firstBaseline - lineIndex * lineHeight;
+          for (const run of fonts.splitRuns(line, selection)) {
+            page.drawText(run.face.sanitize(run.text), {
+              x,
+              y,
+              size: fontSize,
+              font: await run.face.embed(page.doc),
+              color: toRgb(color),
+              opacity: color.a,
+            });
+            x += run.face.widthOf(run.text, fontSize);
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * 把一个页面片段中的绘制指令输出到 PDF 页面
+ */
+class PagePainter {
+  private svg: PdfSvgRenderer;
+
+  constructor(
+    private readonly doc: PDFDocument,
+    private readonly fonts: PdfFontRegistry,
+    private readonly geometry: PageGeometry,
+    private readonly images: Map<LoadedImage, Promise<PDFImage | null>>
+  ) {
+    this.svg = new PdfSvgRenderer(doc, fonts);
+  }
+
+  /**
+   * 记录锚点所在页和位置，供内部链接使用
+   */
+  collectAnchors(
+    items: DrawItem[],
+    slices: PageSlice[],
+    pages: PDFPage[],
+    anchors: Map<string, { page: PDFPage; y: number }>
+  ): void {
+    for (const item of items) {
+      if (item.kind !== 'anchor' || anchors.has(item.id)) continue;
+      const index = slices.findIndex(slice => item.y < slice.end - 0.5);
+      const slice = slices[index === -1 ? slices.length - 1 : index];
+      anchors.set(item.id, {
+        page: pages[index === -1 ? slices.length - 1 : index],
+        y: this.toPdfY(Math.max(item.y, slice.start), slice),
+      });
+    }
+  }
+
+  async paint(
+    page: PDFPage,
+    items: DrawItem[],
+    slice: PageSlice,
+    anchors: Map<string, { page: PDFPage; y: number }>
+  ): Promise<void> {
+    if (slice.header) {
+      const repeated: PageSlice = { start: slice.header.top, end: slice.header.bottom, offset: 0 };
+      for (const item of slice.header.items) {
+        await this.paintItem(page, item, repeated, anchors);
+      }
+    }
+    for (const item of items) {
+      await this.paintItem(page, item, slice, anchors);
+    }
+  }
+
+  private toPdfX(x: number): number {
+    return this.geometry.margins[3] + x * PX_TO_PT;
+  }
+
+  private toPdfY(y: number, slice: PageSlice): number {
+    return (
+      this.geometry.height - this.geometry.margins[0] - (y - slice.start + slice.offset) * PX_TO_PT
+    );
+  }
+
+  private async paintItem(
+    page: PDFPage,
+    item: DrawItem,
+    slice: PageSlice,
+    anchors: Map<string, { page: PDFPage; y: number }>
+  ): Promise<void> {
+    const inSlice = (top: number) => top >= slice.start - 0.5 && top < slice.end - 0.5;
+    switch (item.kind) {
+      case 'rect': {
+        // 背景与边框可跨页，按页面范围裁剪
+        const top = Math.max(item.y, slice.start);
+        const bottom = Math.min(item.y + item.height, slice.end);
+        if (bottom - top <= 0.01 || item.color.a <= 0) return;
+        page.drawRectangle({
+          x: this.toPdfX(item.x),
+          y: this.toPdfY(bottom, slice),
+          width: item.width * PX_TO_PT,
+          height: (bottom - top) * PX_TO_PT,
+          color: toRgb(item.color),
+          opacity: item.color.a,
+        });
+        return;
+      }
+      case 'text': {
+        if (!inSlice(item.top)) return;
+        const font = await item.face.embed(this.doc);
+        const size = item.size * PX_TO_PT;
+        const text = item.face.sanitize(item.text);
+        const options = {
+          x: this.toPdfX(item.x),
+          y: this.toPdfY(item.y, slice),
+          size,
+          font,
+          color: toRgb(item.color),
+          opacity: item.color.a,
+          ySkew: item.syntheticItalic ? degrees(12) : undefined,
+        };
+        page.drawText(text, options);
+        // 缺少粗体字形时以小位移重绘加粗
+        if (item.syntheticBold) page.drawText(text, { ...options, x: options.x + size * 0.04 });
+        return;
+      }
+      case 'image': {
+        if (!inSlice(item.y)) return;
+        const image = await this.embedImage(item.image);
+        if (!image) return;
+        page.drawImage(image, {
+          x: this.toPdfX(item.x),
+          y: this.toPdfY(item.y + item.height, slice),
+          width: item.width * PX_TO_PT,
+          height: item.height * PX_TO_PT,
+        });
+        return;
+      }
+      case 'svg': {
+        if (!inSlice(item.y)) return;
+        await this.svg.draw(page, item.svg, {
+          x: this.toPdfX(item.x),
+          top: this.toPdfY(item.y, slice),
+          width: item.width * PX_TO_PT,
+          height: item.height * PX_TO_PT,
+        });
+        return;
+      }
+      case 'link': {
+        if (!inSlice(item.y)) return;
+        this.addLink(page, item, slice, anchors);
+        return;
+      }
+      default:
+        return;
+    }
+  }
+
+  private addLink(
+    page: PDFPage,
+    item: Extract<DrawItem, { kind: 'link' }>,
+    slice: PageSlice,
+    anchors: Map<string, { page: PDFPage; y: number }>
+  ): void {
+    const rect = [
+      this.toPdfX(item.x),
+      this.toPdfY(item.y + item.height, slice),
+      this.toPdfX(item.x + item.width),
+      this.toPdfY(item.y, slice),
+    ];
+    let action: Record<string, unknown>;
+    if (item.href.startsWith('#')) {
+      let id = item.href.slice(1);
+      try {
+        id = decodeURIComponent(id);
+      } catch {
+        // 保留原始锚点
+      }
+      const target = anchors.get(id);
+      if (!target) return;
+      action = { Dest: [target.page.ref, 'XYZ', null, target.y, null] };
+    } else if (/^(https?|mailto|ftp|file):/i.test(item.href)) {
+      action = { A: { Type: 'Action', S: 'URI', URI: PDFString.of(item.href) } };
+    } else {
+      return;
+    }
+    const annotation = this.doc.context.obj({
+      Type: 'Annot',
+      Subtype: 'Link',
+      Rect: rect,
+      Border: [0, 0, 0],
+      ...action,
+    } as any);
+    page.node.addAnnot(this.doc.context.register(annotation));
+  }
+
+  private embedImage(image: LoadedImage): Promise<PDFImage | null> {
+    let embedded = this.images.get(image);
+    if (!embedded) {
+      const embed =
+        image.type === 'png' ? this.doc.embedPng(image.data) : this.doc.embedJpg(image.data);
+      embedded = embed.catch((error: any) => {
+        console.warn(`⚠️ 图片嵌入失败: ${error.message}`);
+        return null;
+      });
+      this.images.set(image, embedded);
+    }
+    return embedded;
+  }
+}
+
+/**
+ * 分页：在强制分页点或页面底部切分，切点落在不可拆分区间内时上移到区间顶部；
+ * 跨页表格在新页顶部重复表头
+ */
+function paginate(layout: LayoutResult, pageHeight: number): PageSlice[] {
+  const items = flattenItems(layout.items);
+  const bounds = items
+    .filter(item => item.kind !== 'anchor' && item.kind !== 'group')
+    .map(item => {
+      if (item.kind === 'text') return [item.top, item.y + item.size * 0.3];
+      const box = item as { y: number; height: number };
+      return [box.y, box.y + box.height];
+    });
+  const breaks = Array.from(new Set(layout.breaks)).sort((a, b) => a - b);
+  const total = Math.max(layout.height, ...bounds.map(bound => bound[1]), 0);
+
+  const slices: PageSlice[] = [];
+  let start = 0;
+  while (slices.length === 0 || start < total - 0.5) {
+    const header = layout.headers.find(
+      candidate => start > candidate.bottom + 0.5 && start < candidate.tableBottom - 0.5
+    );
+    const offset =
+      header && header.bottom - header.top < pageHeight / 3 ? header.bottom - header.top : 0;
+    const available = pageHeight - offset;
+
+    let end = start + available;
+    const forced = breaks.find(position => position > start + 0.5 && position < end);
+    if (forced !== undefined) {
+      end = forced;
+    } else if (end < total) {
+      let moved = true;
+      while (moved) {
+        moved = false;
+        for (const [top, bottom] of layout.keeps) {
+          if (
+            top > start + 0.5 &&
+            top < end - 0.01 &&
+            bottom > end + 0.01 &&
+            bottom - top <= available
+          ) {
+            end = top;
+            moved = true;
+          }
+        }
+      }
+    }
+    if (end <= start + 0.5) end = start + available;
+    slices.push({ start, end, header: offset > 0 ? header : undefined, offset });
+
+    // 页面顶部跳过空白（被截断的外边距）
+    let next = end;
+    if (forced === undefined) {
+      const following = bounds
+        .filter(bound => bound[1] > end + 0.01)
+        .map(bound => Math.max(bound[0], end));
+      if (following.length > 0) next = Math.min(...following);
+    }
+    start = next;
+  }
+  return slices;
+}
+
+/**
+ * 计算 content 属性：字符串、counter(page)、counter(pages)
+ */
+function evaluateContent(content: string, page: number, pages: number): string {
+  if (content.trim() === 'none' || content.trim() === 'normal') return '';
+  let text = '';
+  // url() 图片不绘制，只跳过其中的引号字符串
+  const pattern =
+    /url\((?:"[^"]*"|'[^']*'|[^)]*)\)|"((?:\\.|[^"\\])*)"|'((?:\\.|[^'\\])*)'|counter\(\s*(page|pages)\s*(?:,\s*([\w-]+)\s*)?\)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content))) {
+    if (match[0].startsWith('url(')) continue;
+    if (match[3]) {
+      text += formatCounter(match[3] === 'page' ? page : pages, match[4] ?? 'decimal');
+    } else {
+      text += (match[1] ?? match[2])
+        .replace(/\\([0-9a-fA-F]{1,6})\s?/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/\\(.)/g, '$1');
+    }
+  }
+  return text;
+}
+
+/**
+ * 便捷函数：渲染 HTML 并写入 PDF 文件
+ */
+export async function renderHtmlToPdf(
+  html: string,
+  outputPath: string,
+  options: HtmlToPdfOptions = {}
+): Promise<HtmlToPdfResult> {
+  const result = await new HtmlToPdfRenderer().render(html, options);
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  await fs.writeFile(outputPath, result.pdfBytes);
+  return result;
+}
+
+export { HtmlToPdfRenderer, HtmlToPdfOptions, HtmlToPdfResult, PdfPageFormat, paginate };
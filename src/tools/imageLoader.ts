@@ -0,0 +1,134 @@
+/**
+ * 图片加载工具
+ * 读取本地文件或 data URI 中的图片，识别格式与像素尺寸，供 DOCX 嵌入使用
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+// docx ImageRun 支持的图片类型
+type ImageType = 'png' | 'jpg' | 'gif' | 'bmp' | 'svg';
+
+// width/height 为像素尺寸
+interface LoadedImage {
+  type: ImageType;
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+// 无法读出尺寸的 SVG 使用的默认尺寸
+const DEFAULT_SVG_SIZE = { width: 600, height: 400 };
+
+function isRemoteImage(src: string): boolean {
+  return /^(https?:)?\/\//i.test(src);
+}
+
+/**
+ * 读取图片：支持 data URI、file:// 地址、绝对路径和相对 baseDir 的路径
+ */
+async function loadImage(src: string, baseDir: string): Promise<LoadedImage> {
+  if (src.startsWith('data:')) {
+    return detectImage(parseDataUri(src));
+  }
+  if (isRemoteImage(src)) {
+    throw new Error(`不支持直接读取远程图片: ${src}`);
+  }
+
+  let filePath = src.startsWith('file:') ? fileURLToPath(src) : src;
+  if (!src.startsWith('file:')) {
+    try {
+      filePath = decodeURI(filePath);
+    } catch {
+      // 保留原始路径
+    }
+  }
+  return detectImage(await fs.readFile(path.resolve(baseDir, filePath)));
+}
+
+function parseDataUri(uri: string): Buffer {
+  const match = /^data:([^,]*?)(;base64)?,(.*)$/s.exec(uri);
+  if (!match) {
+    throw new Error('无效的 data URI');
+  }
+  return match[2]
+    ? Buffer.from(match[3], 'base64')
+    : Buffer.from(decodeURIComponent(match[3]), 'utf-8');
+}
+
+/**
+ * 按文件头识别图片格式并读取尺寸
+ */
+function detectImage(data: Buffer): LoadedImage {
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { type: 'png', data, width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    return { type: 'jpg', data, ...jpegSize(data) };
+  }
+  if (data.length >= 10 && data.toString('ascii', 0, 4) === 'GIF8') {
+    return { type: 'gif', data, width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+  if (data.length >= 26 && data.toString('ascii', 0, 2) === 'BM') {
+    return {
+      type: 'bmp',
+      data,
+      width: Math.abs(data.readInt32LE(18)),
+      height: Math.abs(data.readInt32LE(22)),
+    };
+  }
+
+  const head = data.subarray(0, 4096).toString('utf-8');
+  if (/<svg\b/i.test(head)) {
+    return { type: 'svg', data, ...svgSize(data.toString('utf-8')) };
+  }
+  if (data.length >= 12 && data.toString('ascii', 8, 12) === 'WEBP') {
+    throw new Error('DOCX 不支持 WebP 图片');
+  }
+  throw new Error('无法识别的图片格式');
+}
+
+// 在 SOF 段中读取尺寸（跳过 DHT/JPG/DAC 等同前缀的段）
+function jpegSize(data: Buffer): { width: number; height: number } {
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  throw new Error('无法读取 JPEG 图片尺寸');
+}
+
+/**
+ * 根元素的 width/height（px/pt），缺省时使用 viewBox
+ */
+function svgSize(svg: string): { width: number; height: number } {
+  const root = /<svg\b[^>]*>/i.exec(svg)?.[0];
+  if (!root) throw new Error('无效的 SVG');
+  const attr = (name: string) => new RegExp(`\\s${name}="([\\d.]+)(px|pt)?"`).exec(root);
+  const width = attr('width');
+  const height = attr('height');
+  if (width && height) {
+    const unit = (match: RegExpExecArray) => (match[2] === 'pt' ? 4 / 3 : 1);
+    return {
+      width: Math.round(parseFloat(width[1]) * unit(width)),
+      height: Math.round(parseFloat(height[1]) * unit(height)),
+    };
+  }
+  const viewBox = /viewBox="[\d.-]+[\s,]+[\d.-]+[\s,]+([\d.]+)[\s,]+([\d.]+)"/.exec(root);
+  if (viewBox) return { width: Math.round(+viewBox[1]), height: Math.round(+viewBox[2]) };
+  return DEFAULT_SVG_SIZE;
+}
+
+export { LoadedImage, ImageType, loadImage, detectImage, isRemoteImage, svgSize };
@@ -0,0 +1,33 @@
+/**
+ * 文档语言识别工具
+ * 按正文中汉字与拉丁字母的比例给出 BCP 47 语言标签，用于 HTML 模板的 lang 属性和 ODT/EPUB 元数据
+ */
+
+const HAN_PATTERN = /[㐀-䶿一-鿿豈-﫿]/g;
+const LATIN_PATTERN = /[A-Za-zÀ-ɏ]/g;
+
+// 一个汉字大致相当于一个拉丁单词（约 4 个字母）
+const LETTERS_PER_HAN = 4;
+
+/**
+ * 识别文本语言：汉字占主导时为 zh-CN，否则为 en-US（英文中夹杂少量中文不会被识别为中文）
+ */
+function detectLanguage(text: string): string {
+  const han = text.match(HAN_PATTERN)?.length ?? 0;
+  const latin = text.match(LATIN_PATTERN)?.length ?? 0;
+  return han > 0 && han * LETTERS_PER_HAN >= latin ? 'zh-CN' : 'en-US';
+}
+
+/**
+ * 识别 HTML 片段的语言（忽略标签与属性）
+ */
+function detectHtmlLanguage(html: string): string {
+  return detectLanguage(
+    html
+      .replace(/<(style|script)\b[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/&[#\w]+;/g, ' ')
+  );
+}
+
+export { detectLanguage, detectHtmlLanguage };
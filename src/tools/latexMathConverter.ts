@@ -0,0 +1,886 @@
+/**
+ * LaTeX 公式转换器
+ * 解析 Markdown 中的 $...$ / $$...$$ 公式，生成 MathML（HTML 输出）和 OMML（DOCX 原生公式）
+ * 符号表与 OMML -> LaTeX 方向共用，保证两个方向的转换结果一致
+ */
+
+import {
+  MATHML_NS,
+  LATEX_SYMBOLS,
+  NARY_OPERATORS,
+  LATEX_DELIMITERS,
+  ACCENTS,
+  KNOWN_FUNCTIONS,
+} from './ommlConverter';
+
+type MathVariant =
+  'normal' | 'bold' | 'double-struck' | 'script' | 'fraktur' | 'sans-serif' | 'monospace';
+
+// 公式语法树
+type MathNode =
+  | { type: 'token'; kind: 'mi' | 'mn' | 'mo' | 'mtext'; text: string; variant?: MathVariant }
+  | { type: 'row'; children: MathNode[] }
+  | { type: 'frac'; num: MathNode; den: MathNode; bar: boolean }
+  | { type: 'sqrt'; base: MathNode; degree?: MathNode }
+  | { type: 'scripts'; base: MathNode; sub?: MathNode; sup?: MathNode }
+  | {
+      type: 'nary';
+      operator: string;
+      limits: boolean;
+      sub?: MathNode;
+      sup?: MathNode;
+      body?: MathNode;
+    }
+  | { type: 'func'; name: string; limits: boolean; sub?: MathNode; sup?: MathNode; arg?: MathNode }
+  | { type: 'fenced'; open: string; close: string; separator: string; parts: MathNode[] }
+  | { type: 'table'; aligned: boolean; rows: MathNode[][] }
+  | { type: 'accent'; accent: string; base: MathNode }
+  | { type: 'bar'; top: boolean; base: MathNode }
+  | { type: 'brace'; top: boolean; base: MathNode }
+  | { type: 'stack'; top: boolean; base: MathNode; script: MathNode }
+  | { type: 'space'; width: number };
+
+// OMML 元素树，可序列化为 XML 或转换为 docx 组件
+interface OmmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: (OmmlElement | string)[];
+}
+
+// 行内公式：$$...$$ 或 $...$（开头和结尾不能是空白，结尾 $ 后不能紧跟数字，以排除金额）
+const INLINE_MATH_PATTERN = /\$\$([^$]+?)\$\$|\$(?!\s)((?:\\\$|[^$\n])*?[^\s\\])\$(?!\d)/g;
+
+// LaTeX 命令 -> 字符，由 OMML 方向的符号表反推，并补充常用别名
+const COMMAND_SYMBOLS: Record<string, string> = {};
+for (const [char, command] of Object.entries({ ...LATEX_SYMBOLS, ...LATEX_DELIMITERS })) {
+  const name = /^\\([A-Za-z]+|[^A-Za-z])$/.exec(command)?.[1];
+  if (name && !(name in COMMAND_SYMBOLS) && char) COMMAND_SYMBOLS[name] = char;
+}
+Object.assign(COMMAND_SYMBOLS, {
+  cdot: '⋅',
+  sim: '∼',
+  le: '≤',
+  ge: '≥',
+  ne: '≠',
+  to: '→',
+  gets: '←',
+  lnot: '¬',
+  land: '∧',
+  lor: '∨',
+  iff: '⟺',
+  implies: '⟹',
+  dots: '…',
+  star: '⋆',
+  bullet: '∙',
+  prime: '′',
+  setminus: '∖',
+  varnothing: '∅',
+  lt: '<',
+  gt: '>',
+  vert: '|',
+  Vert: '‖',
+  lbrace: '{',
+  rbrace: '}',
+  colon: ':',
+  Re: 'ℜ',
+  Im: 'ℑ',
+  aleph: 'ℵ',
+});
+
+const NARY_COMMANDS: Record<string, string> = {};
+for (const [char, command] of Object.entries(NARY_OPERATORS)) {
+  NARY_COMMANDS[command.slice(1)] = char;
+}
+
+const ACCENT_COMMANDS: Record<string, string> = { widehat: '̂', widetilde: '̃', overrightarrow: '⃗' };
+for (const [char, [command]] of Object.entries(ACCENTS)) {
+  if (command !== '\\overline') ACCENT_COMMANDS[command.slice(1)] = char;
+}
+
+// 在显示模式下把上下限放在运算符上下方的函数
+const LIMIT_FUNCTIONS = new Set(['lim', 'max', 'min', 'sup', 'inf', 'det', 'gcd', 'Pr']);
+
+const VARIANT_COMMANDS: Record<string, MathVariant> = {
+  mathrm: 'normal',
+  mathbf: 'bold',
+  boldsymbol: 'bold',
+  bm: 'bold',
+  mathbb: 'double-struck',
+  mathcal: 'script',
+  mathscr: 'script',
+  mathfrak: 'fraktur',
+  mathsf: 'sans-serif',
+  mathtt: 'monospace',
+};
+
+// 间距命令，单位 em
+const SPACES: Record<string, number> = {
+  ',': 0.167,
+  ':': 0.222,
+  '>': 0.222,
+  ';': 0.278,
+  ' ': 0.25,
+  quad: 1,
+  qquad: 2,
+  '!': 0,
+};
+
+// 矩阵环境的左右定界符
+const MATRIX_FENCES: Record<string, [string, string]> = {
+  matrix: ['', ''],
+  smallmatrix: ['', ''],
+  array: ['', ''],
+  pmatrix: ['(', ')'],
+  bmatrix: ['[', ']'],
+  Bmatrix: ['{', '}'],
+  vmatrix: ['|', '|'],
+  Vmatrix: ['‖', '‖'],
+  cases: ['{', ''],
+};
+
+// 多行对齐环境，转换为 OMML 公式数组
+const ALIGNED_ENVIRONMENTS = new Set([
+  'aligned',
+  'align',
+  'alignat',
+  'gathered',
+  'gather',
+  'split',
+  'eqnarray',
+  'multline',
+]);
+
+// 结束 n 元运算符作用范围的运算符
+const BOUNDARY_OPERATORS = new Set('+ - − = < > ≤ ≥ ≠ ≈ ≡ ∼ ≅ ∝ , ; ± ∓ → ⇒ ⇔ ⟹ ⟺'.split(' '));
+
+const OPENING_BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 递归下降解析器，遇到无法识别的输入时尽量保留为普通符号而不抛出异常
+ */
+class LatexParser {
+  private tokens: string[];
+  private pos = 0;
+
+  constructor(latex: string) {
+    this.tokens = latex.match(/\\[A-Za-z]+|\\[^A-Za-z]|\d+(?:\.\d+)?|\s+|[\s\S]/gu) || [];
+  }
+
+  parse(): MathNode {
+    return this.row(this.parseExpression(() => false));
+  }
+
+  private parseExpression(stop: (token: string) => boolean): MathNode[] {
+    const nodes: MathNode[] = [];
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos];
+      if (stop(token)) break;
+      if (/^\s+$/.test(token)) {
+        this.pos++;
+        continue;
+      }
+      const node = this.parseScripted();
+      if (node) nodes.push(node);
+    }
+    return this.attachOperands(nodes);
+  }
+
+  /**
+   * 解析一个原子及其后的上下标、撇号和 \limits
+   */
+  private parseScripted(): MathNode | null {
+    let node = this.parseAtom();
+    if (!node) return null;
+
+    for (;;) {
+      this.skipSpaces();
+      const token = this.tokens[this.pos];
+      if (token === '^' || token === '_') {
+        this.pos++;
+        node = this.attachScript(node, token === '^' ? 'sup' : 'sub', this.parseArgument());
+      } else if (token === "'") {
+        this.pos++;
+        node = this.attachScript(node, 'sup', { type: 'token', kind: 'mo', text: '′' });
+      } else if (
+        (token === '\\limits' || token === '\\nolimits') &&
+        (node.type === 'nary' || node.type === 'func')
+      ) {
+        this.pos++;
+        node.limits = token === '\\limits';
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private attachScript(node: MathNode, slot: 'sub' | 'sup', script: MathNode): MathNode {
+    if (node.type === 'brace' && node.top === (slot === 'sup')) {
+      return { type: 'stack', top: node.top, base: node, script };
+    }
+    if (node.type !== 'nary' && node.type !== 'func' && node.type !== 'scripts') {
+      return { type: 'scripts', base: node, [slot]: script };
+    }
+    const existing = node[slot];
+    node[slot] = existing ? this.row([existing, script]) : script;
+    return node;
+  }
+
+  private parseAtom(): MathNode | null {
+    const token = this.tokens[this.pos++];
+    if (token === '{') {
+      this.pos--;
+      return this.parseGroup();
+    }
+    if (token === '^' || token === '_') {
+      // 缺少底数的上下标
+      this.pos--;
+      return this.row([]);
+    }
+    if (token === '}' || token === '&') return null;
+    if (token.startsWith('\\')) return this.parseCommand(token.slice(1));
+    if (/^\d/.test(token)) return { type: 'token', kind: 'mn', text: token };
+    if (this.isIdentifier(token)) return { type: 'token', kind: 'mi', text: token };
+    if (token === '~') return { type: 'space', width: 0.25 };
+    return { type: 'token', kind: 'mo', text: token === '-' ? '−' : token };
+  }
+
+  private parseCommand(name: string): MathNode | null {
+    switch (name) {
+      case 'frac':
+      case 'dfrac':
+      case 'tfrac':
+      case 'cfrac':
+        return { type: 'frac', num: this.parseArgument(), den: this.parseArgument(), bar: true };
+      case 'binom':
+      case 'dbinom':
+      case 'tbinom': {
+        const fraction: MathNode = {
+          type: 'frac',
+          num: this.parseArgument(),
+          den: this.parseArgument(),
+          bar: false,
+        };
+        return { type: 'fenced', open: '(', close: ')', separator: '', parts: [fraction] };
+      }
+      case 'sqrt': {
+        const degree = this.parseOptional();
+        return { type: 'sqrt', degree, base: this.parseArgument() };
+      }
+      case 'left':
+        return this.parseFenced();
+      case 'right':
+      case 'middle':
+        this.parseDelimiter();
+        return null;
+      case 'begin':
+        return this.parseEnvironment();
+      case 'end':
+        this.readRawGroup();
+        return null;
+      case 'text':
+      case 'textrm':
+      case 'textit':
+      case 'textbf':
+      case 'textnormal':
+      case 'mbox':
+        return { type: 'token', kind: 'mtext', text: this.readRawGroup() };
+      case 'operatorname':
+        return { type: 'func', name: this.readRawGroup().trim(), limits: false };
+      case 'overline':
+      case 'underline':
+        return { type: 'bar', top: name === 'overline', base: this.parseArgument() };
+      case 'overbrace':
+      case 'underbrace':
+        return { type: 'brace', top: name === 'overbrace', base: this.parseArgument() };
+      case 'overset':
+      case 'underset':
+      case 'stackrel': {
+        const script = this.parseArgument();
+        return { type: 'stack', top: name !== 'underset', base: this.parseArgument(), script };
+      }
+      case 'limits':
+      case 'nolimits':
+      case 'displaystyle':
+      case 'textstyle':
+      case 'scriptstyle':
+      case 'nonumber':
+      case 'notag':
+      case '\\':
+        return null;
+    }
+
+    if (VARIANT_COMMANDS[name])
+      return this.applyVariant(this.parseArgument(), VARIANT_COMMANDS[name]);
+    if (name in SPACES) return { type: 'space', width: SPACES[name] };
+    if (NARY_COMMANDS[name]) {
+      const operator = NARY_COMMANDS[name];
+      return { type: 'nary', operator, limits: !/[∫∬∭∮]/.test(operator) };
+    }
+    if (KNOWN_FUNCTIONS.has(name)) return { type: 'func', name, limits: LIMIT_FUNCTIONS.has(name) };
+    if (ACCENT_COMMANDS[name])
+      return { type: 'accent', accent: ACCENT_COMMANDS[name], base: this.parseArgument() };
+
+    const symbol = COMMAND_SYMBOLS[name];
+    if (symbol) {
+      return { type: 'token', kind: this.isIdentifier(symbol) ? 'mi' : 'mo', text: symbol };
+    }
+    // 未知命令按正体名称输出
+    return { type: 'token', kind: 'mi', text: name, variant: 'normal' };
+  }
+
+  /**
+   * 命令参数：花括号分组或单个原子
+   */
+  private parseArgument(): MathNode {
+    this.skipSpaces();
+    if (this.tokens[this.pos] === '{') return this.parseGroup();
+    if (this.pos >= this.tokens.length) return this.row([]);
+    return this.parseAtom() || this.row([]);
+  }
+
+  private parseGroup(): MathNode {
+    this.pos++;
+    const nodes = this.parseExpression(token => token === '}');
+    this.pos++;
+    return this.row(nodes);
+  }
+
+  /**
+   * 可选参数，如 \sqrt[3]{x}
+   */
+  private parseOptional(): MathNode | undefined {
+    this.skipSpaces();
+    if (this.tokens[this.pos] !== '[') return undefined;
+    this.pos++;
+    const nodes = this.parseExpression(token => token === ']');
+    this.pos++;
+    return this.row(nodes);
+  }
+
+  /**
+   * 原样读取花括号中的文本，用于 \text 和环境名
+   */
+  private readRawGroup(): string {
+    this.skipSpaces();
+    if (this.tokens[this.pos] !== '{') return this.tokens[this.pos++] || '';
+    let depth = 0;
+    let text = '';
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos++];
+      if (token === '{' && depth++ === 0) continue;
+      if (token === '}' && --depth === 0) break;
+      text += token.length === 2 && token.startsWith('\\') ? token[1] : token;
+    }
+    return text;
+  }
+
+  private parseDelimiter(): string {
+    this.skipSpaces();
+    const token = this.tokens[this.pos++] || '';
+    if (token === '.') return '';
+    if (token.startsWith('\\')) return COMMAND_SYMBOLS[token.slice(1)] ?? '';
+    return token;
+  }
+
+  /**
+   * \left( ... \middle| ... \right)
+   */
+  private parseFenced(): MathNode {
+    const open = this.parseDelimiter();
+    const parts: MathNode[] = [];
+    let separator = '';
+    for (;;) {
+      parts.push(
+        this.row(this.parseExpression(token => token === '\\middle' || token === '\\right'))
+      );
+      const token = this.tokens[this.pos++];
+      if (token === '\\middle') {
+        separator = separator || this.parseDelimiter();
+        continue;
+      }
+      const close = token === '\\right' ? this.parseDelimiter() : '';
+      return { type: 'fenced', open, close, separator, parts };
+    }
+  }
+
+  /**
+   * \begin{env} ... \end{env}：矩阵类环境与多行对齐环境
+   */
+  private parseEnvironment(): MathNode {
+    const name = this.readRawGroup().replace(/\*$/, '');
+    if (name === 'array' || name === 'alignat') this.readRawGroup();
+
+    const rows: MathNode[][] = [];
+    let cells: MathNode[] = [];
+    while (this.pos < this.tokens.length) {
+      cells.push(this.row(this.parseExpression(token => ['&', '\\\\', '\\end'].includes(token))));
+      const token = this.tokens[this.pos++];
+      if (token === '&') continue;
+      rows.push(cells);
+      cells = [];
+      if (token !== '\\\\') {
+        if (token === '\\end') this.readRawGroup();
+        break;
+      }
+      this.parseOptional(); // 行距参数 \\[2pt]
+    }
+    // 去掉末尾 \\ 产生的空行
+    const last = rows[rows.length - 1];
+    if (
+      rows.length > 1 &&
+      last.length === 1 &&
+      last[0].type === 'row' &&
+      last[0].children.length === 0
+    ) {
+      rows.pop();
+    }
+
+    const table: MathNode = { type: 'table', aligned: ALIGNED_ENVIRONMENTS.has(name), rows };
+    const [open, close] = MATRIX_FENCES[name] || ['', ''];
+    return open || close ? { type: 'fenced', open, close, separator: '', parts: [table] } : table;
+  }
+
+  /**
+   * 为 n 元运算符收集被积/求和项，为函数收集参数
+   */
+  private attachOperands(nodes: MathNode[]): MathNode[] {
+    const result: MathNode[] = [];
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+      if (node.type === 'nary' && !node.body) {
+        let end = i + 1;
+        while (end < nodes.length && !this.isBoundary(nodes[end])) end++;
+        node.body = this.row(this.attachOperands(nodes.slice(i + 1, end)));
+        i = end - 1;
+      } else if (
+        node.type === 'func' &&
+        !node.arg &&
+        i + 1 < nodes.length &&
+        !this.isBoundary(nodes[i + 1])
+      ) {
+        const end = this.findArgumentEnd(nodes, i + 1);
+        node.arg = this.row(this.attachOperands(nodes.slice(i + 1, end)));
+        i = end - 1;
+      }
+      result.push(node);
+    }
+    return result;
+  }
+
+  /**
+   * 函数参数为下一个原子；以括号开始时延伸到匹配的右括号
+   */
+  private findArgumentEnd(nodes: MathNode[], start: number): number {
+    const first = nodes[start];
+    if (first.type !== 'token' || first.kind !== 'mo' || !OPENING_BRACKETS[first.text]) {
+      return start + 1;
+    }
+    const open = first.text;
+    const close = OPENING_BRACKETS[open];
+
+    let depth = 0;
+    for (let i = start; i < nodes.length; i++) {
+      const node = nodes[i];
+      if (node.type !== 'token' || node.kind !== 'mo') continue;
+      if (node.text === open) depth++;
+      if (node.text === close && --depth === 0) return i + 1;
+    }
+    return start + 1;
+  }
+
+  private isBoundary(node: MathNode): boolean {
+    return node.type === 'token' && node.kind === 'mo' && BOUNDARY_OPERATORS.has(node.text);
+  }
+
+  /**
+   * \mathrm{...} 等字体命令：应用到其中的标识符，正体的连续字母合并为一个标识符
+   */
+  private applyVariant(node: MathNode, variant: MathVariant): MathNode {
+    if (node.type === 'token') return node.kind === 'mo' ? node : { ...node, variant };
+    if (node.type === 'row') {
+      const children = node.children.map(child => this.applyVariant(child, variant));
+      const letters = children.every(child => child.type === 'token' && child.kind === 'mi');
+      if (variant === 'normal' && letters && children.length > 1) {
+        const text = children.map(child => (child.type === 'token' ? child.text : '')).join('');
+        return { type: 'token', kind: 'mi', text, variant };
+      }
+      return { type: 'row', children };
+    }
+
+    const copy: any = { ...node };
+    for (const key of ['base', 'num', 'den', 'degree', 'sub', 'sup', 'body', 'arg', 'script']) {
+      if (copy[key]) copy[key] = this.applyVariant(copy[key], variant);
+    }
+    if (copy.parts)
+      copy.parts = copy.parts.map((part: MathNode) => this.applyVariant(part, variant));
+    if (copy.rows) {
+      copy.rows = copy.rows.map((row: MathNode[]) =>
+        row.map(cell => this.applyVariant(cell, variant))
+      );
+    }
+    return copy;
+  }
+
+  private isIdentifier(char: string): boolean {
+    return /^\p{L}$/u.test(char) || '∞∂∇∅'.includes(char);
+  }
+
+  private skipSpaces(): void {
+    while (this.pos < this.tokens.length && /^\s+$/.test(this.tokens[this.pos])) this.pos++;
+  }
+
+  private row(nodes: MathNode[]): MathNode {
+    return nodes.length === 1 ? nodes[0] : { type: 'row', children: nodes };
+  }
+}
+
+class LatexMathConverter {
+  /**
+   * 解析 LaTeX 为语法树
+   */
+  parse(latex: string): MathNode {
+    return new LatexParser(latex).parse();
+  }
+
+  /**
+   * LaTeX -> MathML，原始 LaTeX 写入 alttext 以便转回 Markdown
+   */
+  toMathml(latex: string, display = false): string {
+    const source = latex.trim().replace(/\s+/g, ' ');
+    return (
+      `<math xmlns="${MATHML_NS}" display="${display ? 'block' : 'inline'}" ` +
+      `alttext="${escapeXml(source)}"><mrow>${this.renderMathml(this.parse(latex))}</mrow></math>`
+    );
+  }
+
+  /**
+   * LaTeX -> OMML 元素树，显示公式包装为 m:oMathPara
+   */
+  toOmml(latex: string, display = false): OmmlElement {
+    const math = this.element('m:oMath', {}, this.renderOmml(this.parse(latex)));
+    return display ? this.element('m:oMathPara', {}, [math]) : math;
+  }
+
+  /**
+   * LaTeX -> OMML XML 字符串
+   */
+  toOmmlXml(latex: string, display = false): string {
+    return this.serialize(this.toOmml(latex, display));
+  }
+
+  renderMathml(node: MathNode): string {
+    switch (node.type) {
+      case 'token': {
+        // 多字母标识符默认即为正体
+        const implicit = node.kind === 'mi' && node.text.length > 1 && node.variant === 'normal';
+        const variant = node.variant && !implicit ? ` mathvariant="${node.variant}"` : '';
+        return `<${node.kind}${variant}>${escapeXml(node.text)}</${node.kind}>`;
+      }
+      case 'row':
+        return `<mrow>${node.children.map(child => this.renderMathml(child)).join('')}</mrow>`;
+      case 'frac':
+        return (
+          `<mfrac${node.bar ? '' : ' linethickness="0"'}>` +
+          `${this.renderMathml(node.num)}${this.renderMathml(node.den)}</mfrac>`
+        );
+      case 'sqrt':
+        return node.degree
+          ? `<mroot>${this.renderMathml(node.base)}${this.renderMathml(node.degree)}</mroot>`
+          : `<msqrt>${this.renderMathml(node.base)}</msqrt>`;
+      case 'scripts':
+        return this.mathmlScripts(this.renderMathml(node.base), node.sub, node.sup, false);
+      case 'nary': {
+        const movable = node.limits ? ' movablelimits="true"' : '';
+        const operator = `<mo largeop="true"${movable}>${escapeXml(node.operator)}</mo>`;
+        const body = node.body ? this.renderMathml(node.body) : '';
+        return `<mrow>${this.mathmlScripts(operator, node.sub, node.sup, node.limits)}${body}</mrow>`;
+      }
+      case 'func': {
+        const name = this.mathmlScripts(
+          `<mi>${escapeXml(node.name)}</mi>`,
+          node.sub,
+          node.sup,
+          node.limits
+        );
+        const arg = node.arg ? this.renderMathml(node.arg) : '';
+        return `<mrow>${name}<mo>&#x2061;</mo>${arg}</mrow>`;
+      }
+      case 'fenced': {
+        const fence = (char: string) =>
+          char ? `<mo fence="true" stretchy="true">${escapeXml(char)}</mo>` : '';
+        const separator = node.separator
+          ? `<mo stretchy="true">${escapeXml(node.separator)}</mo>`
+          : '';
+        const parts = node.parts.map(part => this.renderMathml(part)).join(separator);
+        return `<mrow>${fence(node.open)}${parts}${fence(node.close)}</mrow>`;
+      }
+      case 'table': {
+        const align = node.aligned ? ' columnalign="right left"' : '';
+        const rows = node.rows.map(
+          row => `<mtr>${row.map(cell => `<mtd>${this.renderMathml(cell)}</mtd>`).join('')}</mtr>`
+        );
+        return `<mtable${align}>${rows.join('')}</mtable>`;
+      }
+      case 'accent': {
+        const mark = ACCENTS[node.accent] ? ACCENTS[node.accent][1] : node.accent;
+        return `<mover accent="true">${this.renderMathml(node.base)}<mo>${escapeXml(mark)}</mo></mover>`;
+      }
+      case 'bar':
+        return node.top
+          ? `<mover accent="true">${this.renderMathml(node.base)}<mo>‾</mo></mover>`
+          : `<munder accentunder="true">${this.renderMathml(node.base)}<mo>_</mo></munder>`;
+      case 'brace':
+        return node.top
+          ? `<mover>${this.renderMathml(node.base)}<mo>⏞</mo></mover>`
+          : `<munder>${this.renderMathml(node.base)}<mo>⏟</mo></munder>`;
+      case 'stack': {
+        const tag = node.top ? 'mover' : 'munder';
+        return `<${tag}>${this.renderMathml(node.base)}${this.renderMathml(node.script)}</${tag}>`;
+      }
+      case 'space':
+        return `<mspace width="${node.width}em"/>`;
+    }
+  }
+
+  /**
+   * 上下标：limits 为真时放在正上/正下方
+   */
+  mathmlScripts(
+    base: string,
+    sub: MathNode | undefined,
+    sup: MathNode | undefined,
+    limits: boolean
+  ): string {
+    const [both, lower, upper] = limits
+      ? ['munderover', 'munder', 'mover']
+      : ['msubsup', 'msub', 'msup'];
+    if (sub && sup)
+      return `<${both}>${base}${this.renderMathml(sub)}${this.renderMathml(sup)}</${both}>`;
+    if (sub) return `<${lower}>${base}${this.renderMathml(sub)}</${lower}>`;
+    if (sup) return `<${upper}>${base}${this.renderMathml(sup)}</${upper}>`;
+    return base;
+  }
+
+  /**
+   * 生成 OMML 元素；row 展开为元素序列
+   */
+  renderOmml(node: MathNode | undefined): OmmlElement[] {
+    if (!node) return [];
+    const el = this.element.bind(this);
+    const val = (name: string, value: string) => el(name, { 'm:val': value });
+
+    switch (node.type) {
+      case 'token':
+        return [this.ommlRun(node.text, node.kind, node.variant)];
+      case 'row':
+        return node.children.flatMap(child => this.renderOmml(child));
+      case 'frac':
+        return [
+          el('m:f', {}, [
+            ...(node.bar ? [] : [el('m:fPr', {}, [val('m:type', 'noBar')])]),
+            el('m:num', {}, this.renderOmml(node.num)),
+            el('m:den', {}, this.renderOmml(node.den)),
+          ]),
+        ];
+      case 'sqrt':
+        return [
+          el('m:rad', {}, [
+            el('m:radPr', {}, node.degree ? [] : [val('m:degHide', '1')]),
+            el('m:deg', {}, this.renderOmml(node.degree)),
+            el('m:e', {}, this.renderOmml(node.base)),
+          ]),
+        ];
+      case 'scripts':
+        return [this.ommlScripts(this.renderOmml(node.base), node.sub, node.sup)];
+      case 'nary': {
+        const properties = [
+          val('m:chr', node.operator),
+          val('m:limLoc', node.limits ? 'undOvr' : 'subSup'),
+        ];
+        if (!node.sub) properties.push(val('m:subHide', '1'));
+        if (!node.sup) properties.push(val('m:supHide', '1'));
+        return [
+          el('m:nary', {}, [
+            el('m:naryPr', {}, properties),
+            el('m:sub', {}, this.renderOmml(node.sub)),
+            el('m:sup', {}, this.renderOmml(node.sup)),
+            el('m:e', {}, this.renderOmml(node.body)),
+          ]),
+        ];
+      }
+      case 'func': {
+        let name = [this.ommlRun(node.name, 'mi', 'normal')];
+        if (node.limits && node.sub && !node.sup) {
+          name = [
+            el('m:limLow', {}, [el('m:e', {}, name), el('m:lim', {}, this.renderOmml(node.sub))]),
+          ];
+        } else if (node.sub || node.sup) {
+          name = [this.ommlScripts(name, node.sub, node.sup)];
+        }
+        return [
+          el('m:func', {}, [el('m:fName', {}, name), el('m:e', {}, this.renderOmml(node.arg))]),
+        ];
+      }
+      case 'fenced': {
+        const properties = [val('m:begChr', node.open)];
+        if (node.separator) properties.push(val('m:sepChr', node.separator));
+        properties.push(val('m:endChr', node.close));
+        return [
+          el('m:d', {}, [
+            el('m:dPr', {}, properties),
+            ...node.parts.map(part => el('m:e', {}, this.renderOmml(part))),
+          ]),
+        ];
+      }
+      case 'table': {
+        if (node.aligned) {
+          // 公式数组中 & 为对齐点
+          const rows = node.rows.map(row =>
+            el(
+              'm:e',
+              {},
+              row.flatMap((cell, index) => [
+                ...(index > 0 ? [this.ommlRun('&', 'mo')] : []),
+                ...this.renderOmml(cell),
+              ])
+            )
+          );
+          return [el('m:eqArr', {}, rows)];
+        }
+        const columns = Math.max(1, ...node.rows.map(row => row.length));
+        const columnProperties = el('m:mcs', {}, [
+          el('m:mc', {}, [
+            el('m:mcPr', {}, [val('m:count', String(columns)), val('m:mcJc', 'center')]),
+          ]),
+        ]);
+        const rows = node.rows.map(row =>
+          el(
+            'm:mr',
+            {},
+            Array.from({ length: columns }, (_, index) =>
+              el('m:e', {}, this.renderOmml(row[index]))
+            )
+          )
+        );
+        return [el('m:m', {}, [el('m:mPr', {}, [columnProperties]), ...rows])];
+      }
+      case 'accent':
+        return [
+          el('m:acc', {}, [
+            el('m:accPr', {}, [val('m:chr', node.accent)]),
+            el('m:e', {}, this.renderOmml(node.base)),
+          ]),
+        ];
+      case 'bar':
+        return [
+          el('m:bar', {}, [
+            el('m:barPr', {}, [val('m:pos', node.top ? 'top' : 'bot')]),
+            el('m:e', {}, this.renderOmml(node.base)),
+          ]),
+        ];
+      case 'brace':
+        return [
+          el('m:groupChr', {}, [
+            el('m:groupChrPr', {}, [
+              val('m:chr', node.top ? '⏞' : '⏟'),
+              val('m:pos', node.top ? 'top' : 'bot'),
+              val('m:vertJc', node.top ? 'bot' : 'top'),
+            ]),
+            el('m:e', {}, this.renderOmml(node.base)),
+          ]),
+        ];
+      case 'stack':
+        return [
+          el(node.top ? 'm:limUpp' : 'm:limLow', {}, [
+            el('m:e', {}, this.renderOmml(node.base)),
+            el('m:lim', {}, this.renderOmml(node.script)),
+          ]),
+        ];
+      case 'space': {
+        if (node.width <= 0) return [];
+        // 全角空格、三分之一 em 空格与细空格
+        const space =
+          node.width >= 1 ? '\u2003'.repeat(node.width) : node.width > 0.2 ? '\u2004' : '\u2009';
+        return [this.ommlRun(space, 'mo')];
+      }
+    }
+  }
+
+  /**
+   * 上下标：m:sSub / m:sSup / m:sSubSup
+   */
+  ommlScripts(
+    base: OmmlElement[],
+    sub: MathNode | undefined,
+    sup: MathNode | undefined
+  ): OmmlElement {
+    const children = [this.element('m:e', {}, base)];
+    if (sub) children.push(this.element('m:sub', {}, this.renderOmml(sub)));
+    if (sup) children.push(this.element('m:sup', {}, this.renderOmml(sup)));
+    return this.element(sub && sup ? 'm:sSubSup' : sub ? 'm:sSub' : 'm:sSup', {}, children);
+  }
+
+  /**
+   * 公式文本运行：正体（sty=p）、粗体（sty=b）、字体族（m:scr）与普通文本（m:nor）
+   */
+  ommlRun(text: string, kind: 'mi' | 'mn' | 'mo' | 'mtext', variant?: MathVariant): OmmlElement {
+    const properties: OmmlElement[] = [];
+    if (kind === 'mtext') {
+      properties.push(this.element('m:nor'));
+    } else if (variant === 'normal' || (kind === 'mi' && text.length > 1)) {
+      properties.push(this.element('m:sty', { 'm:val': 'p' }));
+    } else if (variant === 'bold') {
+      properties.push(this.element('m:sty', { 'm:val': 'b' }));
+    } else if (variant) {
+      properties.push(this.element('m:scr', { 'm:val': variant }));
+    }
+
+    return this.element('m:r', {}, [
+      ...(properties.length ? [this.element('m:rPr', {}, properties)] : []),
+      this.element('m:t', { 'xml:space': 'preserve' }, [text]),
+    ]);
+  }
+
+  element(
+    name: string,
+    attrs: Record<string, string> = {},
+    children: (OmmlElement | string)[] = []
+  ): OmmlElement {
+    return { name, attrs, children };
+  }
+
+  serialize(element: OmmlElement): string {
+    const attrs = Object.entries(element.attrs)
+      .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+      .join('');
+    if (!element.children.length) return `<${element.name}${attrs}/>`;
+    const children = element.children
+      .map(child => (typeof child === 'string' ? escapeXml(child) : this.serialize(child)))
+      .join('');
+    return `<${element.name}${attrs}>${children}</${element.name}>`;
+  }
+}
+
+/**
+ * 便捷函数：LaTeX 转 MathML
+ */
+export function latexToMathml(latex: string, display = false): string {
+  return new LatexMathConverter().toMathml(latex, display);
+}
+
+/**
+ * 便捷函数：LaTeX 转 OMML 元素树
+ */
+export function latexToOmml(latex: string, display = false): OmmlElement {
+  return new LatexMathConverter().toOmml(latex, display);
+}
+
+export { LatexMathConverter, MathNode, OmmlElement, INLINE_MATH_PATTERN };
@@ -4,6 +4,7 @@
  */
 
 import { promises as fs } from 'fs';
+import * as path from 'path';
 import {
   Document,
   Packer,
@@ -16,13 +17,26 @@ import {
   WidthType,
   AlignmentType,
   UnderlineType,
+  ImportedXmlComponent,
+  ParagraphChild,
+  ImageRun,
 } from 'docx';
+import { latexToOmml, OmmlElement, INLINE_MATH_PATTERN } from './latexMathConverter';
+import { SyntaxHighlighter } from './syntaxHighlighter';
+import { DiagramRenderer, getDiagramRenderer, placeholderPng } from './diagramRenderer';
+import { LoadedImage, loadImage, isRemoteImage } from './imageLoader';
+import { DocxNumbering, ListKind, taskMarker } from './docxNumbering';
 
 // 转换选项接口
 interface MarkdownToDocxOptions {
   preserveStyles?: boolean;
   theme?: 'default' | 'professional' | 'academic' | 'modern';
   includeTableOfContents?: boolean;
+  enableSyntaxHighlighting?: boolean;
+  renderDiagrams?: boolean;
+  diagramRenderer?: DiagramRenderer;
+  imageCaptions?: boolean; // 在图片下方添加题注（优先使用图片标题，其次为替代文本）
+  remoteImages?: 'skip' | 'placeholder'; // 远程图片不下载，跳过或显示占位图
   customStyles?: {
     fontSize?: number;
     fontFamily?: string;
@@ -59,19 +73,35 @@ interface MarkdownToDocxResult {
 
 // 解析的内容元素接口
 interface ParsedElement {
-  type: 'heading' | 'paragraph' | 'list' | 'table' | 'blockquote' | 'code' | 'hr';
+  type:
+    'heading' | 'paragraph' | 'list' | 'table' | 'blockquote' | 'code' | 'hr' | 'math' | 'image';
   level?: number;
   content: string;
   children?: ParsedElement[];
   attributes?: { [key: string]: any };
 }
 
+// 列表项：缩进、标记（- * + 或 1. 1)）、正文
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+// 任务列表复选框 [ ] / [x]
+const TASK_PATTERN = /^\[([ xX])\]\s+/;
+
+// 图片语法 ![alt](src "title")，以及带链接的图片 [![alt](src)](href)
+const IMAGE_PATTERN = /!\[([^\]]*)\]\(\s*<?([^\s)>]+)>?(?:\s+["']([^"']*)["'])?\s*\)/g;
+const LINKED_IMAGE_PATTERN = /\[(!\[[^\]]*\]\([^)]*\))\]\([^)]*\)/g;
+
+// 远程图片占位图尺寸（像素）
+const REMOTE_IMAGE_PLACEHOLDER = { width: 320, height: 180 };
+
 /**
  * Markdown 到 DOCX 转换器类
  */
 class MarkdownToDocxConverter {
   private options: MarkdownToDocxOptions = {};
   private themes: Map<string, any>;
+  private highlighter = new SyntaxHighlighter();
+  private baseDir = process.cwd();
+  private numbering = new DocxNumbering();
 
   constructor() {
     this.themes = new Map();
@@ -159,9 +189,15 @@ class MarkdownToDocxConverter {
         preserveStyles: true,
         theme: 'default',
         includeTableOfContents: false,
+        enableSyntaxHighlighting: true,
+        renderDiagrams: true,
+        imageCaptions: false,
+        remoteImages: 'placeholder',
         debug: false,
         ...options,
       };
+      // 图片的相对路径以 Markdown 文件所在目录为基准
+      this.baseDir = path.dirname(path.resolve(inputPath));
 
       if (this.options.debug) {
         console.log('🚀 开始 Markdown 到 DOCX 转换...');
@@ -237,18 +273,31 @@ class MarkdownToDocxConverter {
     const state = {
       inCodeBlock: false,
       codeBlockContent: '',
+      codeBlockLanguage: undefined as string | undefined,
+      inMathBlock: false,
+      mathBlockContent: '',
       inTable: false,
-      tableRows: [] as string[]
+      tableRows: [] as string[],
+      listItems: [] as ParsedElement[],
+      listIndents: [] as number[],
     };
 
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
       const trimmedLine = line.trim();
 
+      if (!state.inCodeBlock && !state.inMathBlock && this.processList(line, state, elements)) {
+        continue;
+      }
+
       if (this.processCodeBlock(trimmedLine, line, state, elements)) {
         continue;
       }
 
+      if (this.processMathBlock(trimmedLine, state, elements)) {
+        continue;
+      }
+
       if (this.processTable(trimmedLine, line, state, elements)) {
         continue;
       }
@@ -258,10 +307,79 @@ class MarkdownToDocxConverter {
       }
     }
 
+    this.finalizeList(state, elements);
     this.finalizeTable(state, elements);
     return elements;
   }
 
+  /**
+   * 处理列表：连续的列表行合并为一个列表元素，按缩进确定嵌套层级
+   */
+  private processList(line: string, state: any, elements: ParsedElement[]): boolean {
+    const match = line.match(LIST_ITEM_PATTERN);
+    if (!match) {
+      if (state.listItems.length === 0) return false;
+      // 列表项之间的空行不结束列表
+      if (line.trim().length === 0) return true;
+      // 缩进的续行并入上一项
+      if (/^\s{2,}/.test(line) && !line.trim().startsWith('```')) {
+        const last = state.listItems[state.listItems.length - 1];
+        last.content += ' ' + line.trim();
+        return true;
+      }
+      this.finalizeList(state, elements);
+      return false;
+    }
+
+    const indent = match[1].replace(/\t/g, '    ').length;
+    const marker = match[2];
+    const ordered = /^\d/.test(marker);
+    const indents: number[] = state.listIndents;
+    while (indents.length > 0 && indent < indents[indents.length - 1]) {
+      indents.pop();
+    }
+    if (indents.length === 0 || indent > indents[indents.length - 1]) {
+      indents.push(indent);
+    }
+    const depth = indents.length - 1;
+
+    // 顶层标记字符变化（- * + 或 . )）时开始新列表
+    const delimiter = ordered ? marker.slice(-1) : marker;
+    const first = state.listItems[0];
+    if (depth === 0 && first && first.attributes?.delimiter !== delimiter) {
+      this.finalizeList(state, elements);
+      state.listIndents = [indent];
+    }
+
+    let content = match[3];
+    const task = content.match(TASK_PATTERN);
+    if (task) content = content.slice(task[0].length);
+
+    state.listItems.push({
+      type: 'list',
+      level: depth,
+      content,
+      attributes: {
+        ordered,
+        delimiter,
+        start: ordered ? parseInt(marker, 10) : undefined,
+        checked: task ? task[1] !== ' ' : undefined,
+      },
+    });
+    return true;
+  }
+
+  /**
+   * 结束当前列表
+   */
+  private finalizeList(state: any, elements: ParsedElement[]): void {
+    if (state.listItems.length > 0) {
+      elements.push({ type: 'list', content: '', children: state.listItems });
+    }
+    state.listItems = [];
+    state.listIndents = [];
+  }
+
   /**
    * 处理代码块
    */
@@ -276,11 +394,13 @@ class MarkdownToDocxConverter {
         elements.push({
           type: 'code',
           content: state.codeBlockContent.trim(),
+          attributes: { language: state.codeBlockLanguage },
         });
         state.inCodeBlock = false;
         state.codeBlockContent = '';
       } else {
         state.inCodeBlock = true;
+        state.codeBlockLanguage = trimmedLine.slice(3).trim().split(/\s+/)[0] || undefined;
       }
       return true;
     }
@@ -293,6 +413,37 @@ class MarkdownToDocxConverter {
     return false;
   }
 
+  /**
+   * 处理独立公式 $$...$$（单行或多行）
+   */
+  private processMathBlock(trimmedLine: string, state: any, elements: ParsedElement[]): boolean {
+    const singleLine = trimmedLine.match(/^\$\$(.+)\$\$$/);
+    if (singleLine && !state.inMathBlock) {
+      elements.push({ type: 'math', content: singleLine[1].trim() });
+      return true;
+    }
+
+    if (trimmedLine.startsWith('$$') || (state.inMathBlock && trimmedLine.endsWith('$$'))) {
+      if (state.inMathBlock) {
+        state.mathBlockContent += trimmedLine.slice(0, -2);
+        elements.push({ type: 'math', content: state.mathBlockContent.trim() });
+        state.inMathBlock = false;
+        state.mathBlockContent = '';
+      } else {
+        state.inMathBlock = true;
+        state.mathBlockContent = trimmedLine.slice(2) + '\n';
+      }
+      return true;
+    }
+
+    if (state.inMathBlock) {
+      state.mathBlockContent += trimmedLine + '\n';
+      return true;
+    }
+
+    return false;
+  }
+
   /**
    * 处理表格
    */
@@ -302,7 +453,8 @@ class MarkdownToDocxConverter {
     state: any,
     elements: ParsedElement[]
   ): boolean {
-    if (trimmedLine.includes('|') && !state.inTable) {
+    // 行内公式中的 | 不作为表格分隔符
+    if (trimmedLine.replace(INLINE_MATH_PATTERN, '').includes('|') && !state.inTable) {
       state.inTable = true;
       state.tableRows = [line];
       return true;
@@ -359,12 +511,8 @@ class MarkdownToDocxConverter {
       return true;
     }
 
-    // 处理列表
-    if (trimmedLine.match(/^[-*+]\s+/) || trimmedLine.match(/^\d+\.\s+/)) {
-      elements.push({
-        type: 'list',
-        content: trimmedLine,
-      });
+    // 处理图片
+    if (this.processImages(trimmedLine, elements)) {
       return true;
     }
 
@@ -380,6 +528,31 @@ class MarkdownToDocxConverter {
     return false;
   }
 
+  /**
+   * 处理图片：每张图片成为独立的图片块，同一行中的其余文本按段落处理
+   */
+  private processImages(trimmedLine: string, elements: ParsedElement[]): boolean {
+    const line = trimmedLine.replace(LINKED_IMAGE_PATTERN, '$1');
+    const matches = Array.from(line.matchAll(IMAGE_PATTERN));
+    if (matches.length === 0) return false;
+
+    const pushText = (text: string) => {
+      if (text.trim()) elements.push({ type: 'paragraph', content: text.trim() });
+    };
+    let lastIndex = 0;
+    for (const match of matches) {
+      pushText(line.slice(lastIndex, match.index));
+      elements.push({
+        type: 'image',
+        content: match[1],
+        attributes: { src: match[2], title: match[3] },
+      });
+      lastIndex = match.index! + match[0].length;
+    }
+    pushText(line.slice(lastIndex));
+    return true;
+  }
+
   /**
    * 完成表格处理
    */
@@ -398,6 +571,7 @@ class MarkdownToDocxConverter {
   private async generateDocxDocument(elements: ParsedElement[]): Promise<Document> {
     const theme = this.themes.get(this.options.theme ?? 'default')!;
     const children: any[] = [];
+    this.numbering = new DocxNumbering();
 
     for (const element of elements) {
       switch (element.type) {
@@ -411,22 +585,31 @@ class MarkdownToDocxConverter {
           children.push(this.createBlockquote(element, theme));
           break;
         case 'list':
-          children.push(this.createListItem(element, theme));
+          children.push(...this.createList(element, theme));
           break;
         case 'table':
           const table = this.createTable(element, theme);
           if (table) children.push(table);
           break;
         case 'code':
-          children.push(this.createCodeBlock(element, theme));
+          children.push(
+            (await this.createDiagram(element, theme)) ?? this.createCodeBlock(element, theme)
+          );
           break;
         case 'hr':
           children.push(this.createHorizontalRule(theme));
           break;
+        case 'math':
+          children.push(this.createMathBlock(element));
+          break;
+        case 'image':
+          children.push(...(await this.createImage(element, theme)));
+          break;
       }
     }
 
     return new Document({
+      numbering: this.numbering.options,
       sections: [
         {
           properties: {
@@ -536,43 +719,41 @@ class MarkdownToDocxConverter {
   }
 
   /**
-   * 创建列表项
+   * 创建列表：整个列表登记一套多级编号，每项一个段落
    */
-  private createListItem(element: ParsedElement, theme: any): Paragraph {
-    const isNumbered = element.content.match(/^\d+\.\s+/);
-    const content = element.content.replace(/^[-*+\d+\.\s]+/, '');
-
-    // 检测emoji字符 - 扩展Unicode范围以支持更多emoji
-    const emojiRegex =
-      /[\u{1F600}-\u{1F64F}]|[\u{1F300}-\u{1F5FF}]|[\u{1F680}-\u{1F6FF}]|[\u{1F1E0}-\u{1F1FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]|[\u{1F900}-\u{1F9FF}]|[\u{1FA70}-\u{1FAFF}]|[\u{2B50}]|[\u{2B55}]|[\u{231A}-\u{231B}]|[\u{23E9}-\u{23EC}]|[\u{23F0}]|[\u{23F3}]|[\u{25FD}-\u{25FE}]|[\u{2614}-\u{2615}]|[\u{2648}-\u{2653}]|[\u{267F}]|[\u{2693}]|[\u{26A1}]|[\u{26AA}-\u{26AB}]|[\u{26BD}-\u{26BE}]|[\u{26C4}-\u{26C5}]|[\u{26CE}]|[\u{26D4}]|[\u{26EA}]|[\u{26F2}-\u{26F3}]|[\u{26F5}]|[\u{26FA}]|[\u{26FD}]|[\u{2705}]|[\u{270A}-\u{270B}]|[\u{2728}]|[\u{274C}]|[\u{274E}]|[\u{2753}-\u{2755}]|[\u{2757}]|[\u{2795}-\u{2797}]|[\u{27B0}]|[\u{27BF}]|[\u{2934}-\u{2935}]|[\u{2B05}-\u{2B07}]|[\u{2B1B}-\u{2B1C}]|[\u{3030}]|[\u{303D}]|[\u{3297}]|[\u{3299}]/gu;
-    const hasEmoji = emojiRegex.test(content);
-
-    return new Paragraph({
-      children: [
-        new TextRun({
-          text: content,
-          font: hasEmoji ? 'Segoe UI Emoji' : theme.fontFamily,
-          size: theme.fontSize * 2,
-        }),
-      ],
-      bullet: isNumbered
-        ? undefined
-        : {
-            level: 0,
-          },
-      numbering: isNumbered
-        ? {
-            reference: 'default-numbering',
-            level: 0,
-          }
-        : undefined,
-      indent: {
-        left: 720, // 0.5 inch
-      },
-      spacing: {
-        line: Math.round(theme.lineSpacing * 240),
-        after: 60,
-      },
+  private createList(element: ParsedElement, theme: any): Paragraph[] {
+    const items = element.children ?? [];
+    // 全部为任务项的列表不显示项目符号，只显示复选框
+    const taskList = items.every(item => item.attributes?.checked !== undefined);
+    const reference = this.numbering.register(
+      items.map(item => ({
+        depth: item.level ?? 0,
+        kind: (taskList ? 'none' : item.attributes?.ordered ? 'decimal' : 'bullet') as ListKind,
+        start: item.attributes?.start,
+      }))
+    );
+
+    return items.map(item => {
+      const children: ParagraphChild[] = [];
+      if (item.attributes?.checked !== undefined) {
+        children.push(
+          new TextRun({
+            text: taskMarker(item.attributes.checked) + ' ',
+            font: 'Segoe UI Symbol',
+            size: theme.fontSize * 2,
+          })
+        );
+      }
+      children.push(...this.parseInlineFormatting(item.content, theme));
+
+      return new Paragraph({
+        children,
+        numbering: { reference, level: item.level ?? 0 },
+        spacing: {
+          line: Math.round(theme.lineSpacing * 240),
+          after: 60,
+        },
+      });
     });
   }
 
@@ -636,21 +817,154 @@ class MarkdownToDocxConverter {
    * 创建代码块
    */
   private createCodeBlock(element: ParsedElement, theme: any): Paragraph {
+    const palette = this.highlighter.getPalette(this.options.theme);
+    const language = this.options.enableSyntaxHighlighting ? element.attributes?.language : null;
+    const children: TextRun[] = [];
+
+    // 每行的第一个文本前插入换行，空行也保留
+    this.highlighter.tokenizeLines(element.content, language).forEach((line, index) => {
+      const tokens = line.length ? line : [{ type: 'plain' as const, text: '' }];
+      tokens.forEach((token, position) => {
+        const style = palette.tokens[token.type];
+        children.push(
+          new TextRun({
+            text: token.text,
+            font: 'Consolas',
+            size: (theme.fontSize - 1) * 2,
+            color: style.color,
+            bold: style.bold,
+            italics: style.italic,
+            break: index > 0 && position === 0 ? 1 : undefined,
+          })
+        );
+      });
+    });
+
+    return new Paragraph({
+      children,
+      shading: {
+        fill: palette.background,
+      },
+      indent: {
+        left: 360, // 0.25 inch
+      },
+      spacing: {
+        before: 120,
+        after: 120,
+      },
+    });
+  }
+
+  /**
+   * 图表代码块渲染为 PNG 图片；不支持的语言或渲染失败时返回 null，按普通代码块处理
+   */
+  private async createDiagram(element: ParsedElement, theme: any): Promise<Paragraph | null> {
+    const language = element.attributes?.language;
+    const renderer = this.options.diagramRenderer ?? getDiagramRenderer();
+    if (!this.options.renderDiagrams || !renderer.supports(language)) return null;
+
+    try {
+      const output = await renderer.render(language, element.content, 'png');
+      if (this.options.debug) {
+        console.log('📈 已渲染图表:', language, `${output.width}x${output.height}`);
+      }
+      const image: LoadedImage = {
+        type: output.format,
+        data: output.data,
+        width: output.width,
+        height: output.height,
+      };
+      return this.createImageParagraph(image, `${language} diagram`, theme);
+    } catch (error: any) {
+      console.warn(`⚠️ 图表渲染失败 (${language}):`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * 创建图片：本地路径相对 Markdown 文件解析，远程图片按 remoteImages 策略跳过或显示占位图
+   * 无法加载的图片以替代文本代替
+   */
+  private async createImage(element: ParsedElement, theme: any): Promise<Paragraph[]> {
+    const { src, title } = element.attributes ?? {};
+    const description = element.content || title || path.basename(src);
+    const source = src.startsWith('data:') ? 'data URI' : src;
+    let image: LoadedImage;
+
+    try {
+      if (isRemoteImage(src)) {
+        if (this.options.remoteImages === 'skip') {
+          if (this.options.debug) {
+            console.log('⏭️ 跳过远程图片:', source);
+          }
+          return [];
+        }
+        const { width, height } = REMOTE_IMAGE_PLACEHOLDER;
+        image = { type: 'png', data: placeholderPng(width, height, description), width, height };
+      } else {
+        image = await loadImage(src, this.baseDir);
+      }
+    } catch (error: any) {
+      console.warn('⚠️ 图片加载失败:', source, error.message);
+      return [this.createParagraph({ type: 'paragraph', content: `[${description}]` }, theme)];
+    }
+
+    if (this.options.debug) {
+      console.log('🖼️ 已嵌入图片:', source, `${image.width}x${image.height}`);
+    }
+    const paragraphs = [this.createImageParagraph(image, description, theme)];
+    const caption = title || element.content;
+    if (this.options.imageCaptions && caption) {
+      paragraphs.push(this.createCaption(caption, theme));
+    }
+    return paragraphs;
+  }
+
+  /**
+   * 创建图片题注
+   */
+  private createCaption(text: string, theme: any): Paragraph {
     return new Paragraph({
       children: [
         new TextRun({
-          text: element.content,
-          font: 'Consolas',
+          text,
+          font: theme.fontFamily,
           size: (theme.fontSize - 1) * 2,
-          color: '000000',
+          italics: true,
+          color: '595959',
         }),
       ],
-      shading: {
-        fill: 'F5F5F5',
-      },
-      indent: {
-        left: 360, // 0.25 inch
+      alignment: AlignmentType.CENTER,
+      spacing: {
+        after: 120,
       },
+    });
+  }
+
+  /**
+   * 居中的图片段落，宽度不超过页面内容宽度并保持宽高比
+   */
+  private createImageParagraph(image: LoadedImage, description: string, theme: any): Paragraph {
+    const scale = Math.min(1, this.getContentWidth(theme) / image.width);
+    const transformation = {
+      width: Math.round(image.width * scale),
+      height: Math.round(image.height * scale),
+    };
+    const altText = { name: description, description, title: description };
+    const run =
+      image.type === 'svg'
+        ? new ImageRun({
+            type: 'svg',
+            data: image.data,
+            fallback: { type: 'png', data: placeholderPng(image.width, image.height, description) },
+            transformation,
+            altText,
+          })
+        : new ImageRun({ type: image.type, data: image.data, transformation, altText });
+
+    return new Paragraph({
+      children: [run],
+      alignment: AlignmentType.CENTER,
       spacing: {
         before: 120,
         after: 120,
@@ -658,6 +972,13 @@ class MarkdownToDocxConverter {
     });
   }
 
+  /**
+   * 页面内容宽度（像素）：A4 宽度减去左右页边距，1px = 15twips
+   */
+  private getContentWidth(theme: any): number {
+    return (11906 - theme.margins.left - theme.margins.right) / 15;
+  }
+
   /**
    * 创建水平线
    */
@@ -684,10 +1005,58 @@ class MarkdownToDocxConverter {
     });
   }
 
+  /**
+   * 创建独立公式段落
+   */
+  private createMathBlock(element: ParsedElement): Paragraph {
+    return new Paragraph({
+      children: [this.createMath(element.content, true)],
+      spacing: {
+        before: 120,
+        after: 120,
+      },
+    });
+  }
+
+  /**
+   * LaTeX 公式转为 Word 原生公式（OMML）
+   * docx 的 Math 组件不支持矩阵、重音等结构，因此直接导入转换得到的 OMML 元素
+   */
+  private createMath(latex: string, display: boolean): ParagraphChild {
+    return this.createOmmlComponent(latexToOmml(latex, display)) as unknown as ParagraphChild;
+  }
+
+  private createOmmlComponent(element: OmmlElement): ImportedXmlComponent {
+    const attrs = Object.keys(element.attrs).length > 0 ? element.attrs : undefined;
+    const component = new ImportedXmlComponent(element.name, attrs);
+    for (const child of element.children) {
+      component.push(typeof child === 'string' ? child : this.createOmmlComponent(child));
+    }
+    return component;
+  }
+
   /**
    * 解析内联格式
    */
-  private parseInlineFormatting(text: string, theme: any): TextRun[] {
+  private parseInlineFormatting(text: string, theme: any): ParagraphChild[] {
+    // 行内公式 $...$ 转为原生公式，其余文本按原有规则处理
+    const mathMatches = Array.from(text.matchAll(INLINE_MATH_PATTERN));
+    if (mathMatches.length > 0) {
+      const children: ParagraphChild[] = [];
+      let lastIndex = 0;
+      for (const match of mathMatches) {
+        if (match.index! > lastIndex) {
+          children.push(...this.parseInlineFormatting(text.slice(lastIndex, match.index), theme));
+        }
+        children.push(this.createMath(match[1] ?? match[2], match[1] !== undefined));
+        lastIndex = match.index! + match[0].length;
+      }
+      if (lastIndex < text.length) {
+        children.push(...this.parseInlineFormatting(text.slice(lastIndex), theme));
+      }
+      return children;
+    }
+
     const runs: TextRun[] = [];
     let currentText = text;
 
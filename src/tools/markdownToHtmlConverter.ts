@@ -7,6 +7,13 @@ const fs = require('fs').promises;
 const path = require('path');
 const marked = require('marked');
 const cheerio = require('cheerio');
+import { LatexMathConverter, INLINE_MATH_PATTERN } from './latexMathConverter';
+import { SyntaxHighlighter } from './syntaxHighlighter';
+import { DiagramRenderer, getDiagramRenderer } from './diagramRenderer';
+import { detectHtmlLanguage } from './languageDetector';
+
+// marked 为全局实例，公式扩展只注册一次
+let mathExtensionRegistered = false;
 
 // 转换选项接口
 interface MarkdownToHtmlOptions {
@@ -14,6 +21,8 @@ interface MarkdownToHtmlOptions {
   theme?: 'default' | 'github' | 'academic' | 'modern';
   includeTableOfContents?: boolean;
   enableSyntaxHighlighting?: boolean;
+  renderDiagrams?: boolean;
+  diagramRenderer?: DiagramRenderer;
   customCSS?: string;
   outputPath?: string;
   standalone?: boolean;
@@ -100,6 +109,22 @@ class MarkdownToHtmlConverter {
         margin-bottom: 16px;
       }
       
+      math[display="block"] {
+        margin: 1em 0;
+        overflow-x: auto;
+      }
+      
+      figure.diagram {
+        margin: 1em 0;
+        text-align: center;
+        overflow-x: auto;
+      }
+      
+      figure.diagram svg {
+        max-width: 100%;
+        height: auto;
+      }
+      
       blockquote {
         padding: 0 1em;
         color: #656d76;
@@ -235,6 +260,22 @@ class MarkdownToHtmlConverter {
         text-indent: 2em;
       }
       
+      math[display="block"] {
+        margin: 1em 0;
+        overflow-x: auto;
+      }
+      
+      figure.diagram {
+        margin: 1em 0;
+        text-align: center;
+        overflow-x: auto;
+      }
+      
+      figure.diagram svg {
+        max-width: 100%;
+        height: auto;
+      }
+      
       blockquote {
         margin: 12pt 2em;
         padding: 0;
@@ -343,6 +384,22 @@ class MarkdownToHtmlConverter {
         color: #4a5568;
       }
       
+      math[display="block"] {
+        margin: 1em 0;
+        overflow-x: auto;
+      }
+      
+      figure.diagram {
+        margin: 1em 0;
+        text-align: center;
+        overflow-x: auto;
+      }
+      
+      figure.diagram svg {
+        max-width: 100%;
+        height: auto;
+      }
+      
       blockquote {
         border-left: 4px solid #e2e8f0;
         padding: 1rem 1.5rem;
@@ -472,6 +529,22 @@ class MarkdownToHtmlConverter {
         margin-bottom: 1rem;
       }
       
+      math[display="block"] {
+        margin: 1em 0;
+        overflow-x: auto;
+      }
+      
+      figure.diagram {
+        margin: 1em 0;
+        text-align: center;
+        overflow-x: auto;
+      }
+      
+      figure.diagram svg {
+        max-width: 100%;
+        height: auto;
+      }
+      
       blockquote {
         border-left: 4px solid #3498db;
         padding-left: 1rem;
@@ -547,7 +620,8 @@ class MarkdownToHtmlConverter {
         preserveStyles: true,
         theme: 'default',
         includeTableOfContents: false,
-        enableSyntaxHighlighting: false,
+        enableSyntaxHighlighting: true,
+        renderDiagrams: true,
         standalone: true,
         debug: false,
         ...options,
@@ -566,7 +640,13 @@ class MarkdownToHtmlConverter {
       this.configureMarked();
 
       // 转换为 HTML
-      const htmlContent = marked.parse(markdownContent);
+      let htmlContent = marked.parse(markdownContent);
+      if (this.options.renderDiagrams) {
+        htmlContent = await this.renderDiagramBlocks(htmlContent);
+      }
+      if (this.options.enableSyntaxHighlighting) {
+        htmlContent = this.highlightCodeBlocks(htmlContent);
+      }
 
       // 分析内容统计
       const stats = this.analyzeContent(htmlContent);
@@ -630,6 +710,107 @@ class MarkdownToHtmlConverter {
 
     // 使用更简单的配置，避免自定义渲染器的问题
     // 暂时移除自定义渲染器，使用默认的marked渲染
+
+    if (!mathExtensionRegistered) {
+      marked.use({ extensions: this.createMathExtensions() });
+      mathExtensionRegistered = true;
+    }
+  }
+
+  /**
+   * LaTeX 公式扩展：$$...$$ 为独立公式，$...$ 为行内公式，均渲染为 MathML
+   */
+  private createMathExtensions(): any[] {
+    const converter = new LatexMathConverter();
+    const inlinePattern = new RegExp(`^(?:${INLINE_MATH_PATTERN.source})`);
+
+    return [
+      {
+        name: 'mathBlock',
+        level: 'block',
+        start: (src: string) => src.match(/^\$\$/m)?.index,
+        tokenizer: (src: string) => {
+          const match = /^\$\$([\s\S]+?)\$\$[ \t]*(?:\n+|$)/.exec(src);
+          if (match) {
+            return { type: 'mathBlock', raw: match[0], text: match[1].trim() };
+          }
+          return undefined;
+        },
+        renderer: (token: any) => `${converter.toMathml(token.text, true)}\n`,
+      },
+      {
+        name: 'mathInline',
+        level: 'inline',
+        start: (src: string) => {
+          const index = src.indexOf('$');
+          return index >= 0 ? index : undefined;
+        },
+        tokenizer: (src: string) => {
+          const match = inlinePattern.exec(src);
+          if (match) {
+            const display = match[1] !== undefined;
+            return {
+              type: 'mathInline',
+              raw: match[0],
+              text: (match[1] ?? match[2]).trim(),
+              display,
+            };
+          }
+          return undefined;
+        },
+        renderer: (token: any) => converter.toMathml(token.text, token.display),
+      },
+    ];
+  }
+
+  /**
+   * 图表代码块（dot/mermaid/plantuml 等）渲染为内联 SVG，失败时保留原代码块
+   */
+  private async renderDiagramBlocks(htmlContent: string): Promise<string> {
+    const renderer = this.options.diagramRenderer ?? getDiagramRenderer();
+    const $ = cheerio.load(htmlContent, null, false);
+    let rendered = 0;
+
+    for (const elem of $('pre > code[class*="language-"]').toArray()) {
+      const $code = $(elem);
+      const language = /(?:^|\s)language-(\S+)/.exec($code.attr('class') ?? '')?.[1];
+      if (!renderer.supports(language)) continue;
+      try {
+        $code.parent().replaceWith(await renderer.renderHtml(language!, $code.text()));
+        rendered++;
+      } catch (error: any) {
+        console.warn(`⚠️ 图表渲染失败 (${language}):`, error.message);
+      }
+    }
+
+    if (this.options.debug && rendered) {
+      console.log('📈 已渲染图表:', rendered);
+    }
+    return rendered ? $.html() : htmlContent;
+  }
+
+  /**
+   * 代码块语法高亮：按 language-* 类名分词，输出 hl-* 类名的 span
+   */
+  private highlightCodeBlocks(htmlContent: string): string {
+    const highlighter = new SyntaxHighlighter();
+    const $ = cheerio.load(htmlContent, null, false);
+    let highlighted = 0;
+
+    $('pre > code[class*="language-"]').each((_: number, elem: any) => {
+      const $code = $(elem);
+      const match = /(?:^|\s)language-(\S+)/.exec($code.attr('class') ?? '');
+      const language = highlighter.resolveLanguage(match?.[1]);
+      if (!language) return;
+      $code.html(highlighter.toHtml($code.text(), language));
+      $code.addClass('hl');
+      highlighted++;
+    });
+
+    if (this.options.debug && highlighted) {
+      console.log('🖍️ 已高亮代码块:', highlighted);
+    }
+    return highlighted ? $.html() : htmlContent;
   }
 
   /**
@@ -660,6 +841,9 @@ class MarkdownToHtmlConverter {
     const theme = this.options.theme ?? 'default';
     const themeCSS = this.themes.get(theme) ?? this.themes.get('default')!;
     const customCSS = this.options.customCSS ?? '';
+    const highlightCSS = this.options.enableSyntaxHighlighting
+      ? new SyntaxHighlighter().generateCss(theme)
+      : '';
 
     // 生成目录（如果启用）
     let tocHtml = '';
@@ -668,13 +852,14 @@ class MarkdownToHtmlConverter {
     }
 
     return `<!DOCTYPE html>
-<html lang="zh-CN">
+<html lang="${detectHtmlLanguage(content)}">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>Markdown Document</title>
     <style>
 ${themeCSS}
+${highlightCSS}
 ${customCSS}
     </style>
 </head>
@@ -0,0 +1,1584 @@
+/**
+ * Markdown 到 PPTX 转换器
+ * 按 --- 分隔线或 H1/H2 标题拆分幻灯片，用 JSZip 生成包含母版、版式、主题和备注页的演示文稿；
+ * 支持项目符号、图片、表格、代码块（语法高亮）、图表以及 Note: 演讲者备注
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { Lexer } from 'marked';
+import { SyntaxHighlighter } from './syntaxHighlighter';
+import { DiagramRenderer, getDiagramRenderer, placeholderPng } from './diagramRenderer';
+import { LoadedImage, loadImage, isRemoteImage } from './imageLoader';
+import { validateAndSanitizePath } from '../security/securityConfig';
+
+// 转换选项接口
+interface MarkdownToPptxOptions {
+  theme?: 'default' | 'professional' | 'academic' | 'modern';
+  splitOn?: 'auto' | 'hr' | 'heading'; // auto：文档含 --- 时按分隔线拆分，否则按 H1/H2 标题
+  enableSyntaxHighlighting?: boolean;
+  renderDiagrams?: boolean;
+  diagramRenderer?: DiagramRenderer;
+  remoteImages?: 'skip' | 'placeholder';
+  outputPath?: string;
+  debug?: boolean;
+}
+
+// 转换结果接口
+interface MarkdownToPptxResult {
+  success: boolean;
+  content?: Buffer;
+  pptxPath?: string;
+  metadata?: {
+    originalFormat: string;
+    targetFormat: string;
+    theme: string;
+    converter: string;
+    contentLength: number;
+    slideCount: number;
+    notesCount: number;
+    imagesCount: number;
+    tablesCount: number;
+  };
+  error?: string;
+}
+
+// 幻灯片主题，颜色为不带 # 的十六进制
+interface SlideTheme {
+  fontFamily: string;
+  codeFontFamily: string;
+  background: string;
+  titleColor: string;
+  textColor: string;
+  mutedColor: string;
+  accent: string;
+  titleSlide: { background: string; titleColor: string; subtitleColor: string };
+  table: { header: string; band: string; border: string };
+}
+
+interface TextRunModel {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  href?: string;
+  break?: boolean;
+}
+
+interface ParagraphModel {
+  kind: 'body' | 'heading' | 'quote';
+  runs: TextRunModel[];
+  level: number;
+  bullet?: 'bullet' | 'number';
+  start?: number;
+}
+
+type SlideBlock =
+  | { kind: 'text'; paragraphs: ParagraphModel[] }
+  | { kind: 'code'; code: string; language?: string }
+  | {
+      kind: 'table';
+      header: TextRunModel[][];
+      rows: TextRunModel[][][];
+      align: (string | null)[];
+    }
+  | { kind: 'image'; image: LoadedImage; description: string };
+
+interface SlideModel {
+  title?: TextRunModel[];
+  titleDepth?: number;
+  blocks: SlideBlock[];
+  notes: string[];
+}
+
+// 单张幻灯片的关系与媒体收集器
+interface SlidePart {
+  relationships: { id: string; type: string; target: string; external?: boolean }[];
+  media: { name: string; data: Buffer }[];
+}
+
+// 演讲者备注：以 Note: 或 Notes: 开头的段落及紧随其后的文字段落
+const NOTE_PATTERN = /^notes?:\s*/i;
+
+const EMU_PER_PT = 12700;
+const EMU_PER_PX = 9525;
+const SLIDE_WIDTH = 12192000; // 16:9，13.333 × 7.5 英寸
+const SLIDE_HEIGHT = 6858000;
+const MARGIN_X = 609600;
+const CONTENT_WIDTH = SLIDE_WIDTH - MARGIN_X * 2;
+const TITLE_TOP = 365760;
+const TITLE_HEIGHT = 1005840;
+const BODY_TOP = 1554480;
+const BODY_BOTTOM = SLIDE_HEIGHT - 457200;
+const BLOCK_GAP = 137160;
+const MIN_IMAGE_HEIGHT = 1371600;
+const MIN_SCALE = 0.6;
+
+// 字号（pt）
+const TITLE_SIZE = 36;
+const TITLE_SLIDE_SIZE = 44;
+const SUBTITLE_SIZE = 24;
+const BODY_SIZES = [24, 20, 18, 16];
+const HEADING_SIZE = 26;
+const CODE_SIZE = 14;
+const TABLE_SIZE = 16;
+const BULLET_CHARS = ['•', '–', '◦'];
+
+const NS = {
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  p: 'http://schemas.openxmlformats.org/presentationml/2006/main',
+};
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const CT = 'application/vnd.openxmlformats-officedocument.presentationml';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const PML_NAMESPACES = `xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}"`;
+const GROUP_PROPERTIES =
+  '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+
+/**
+ * Markdown 到 PPTX 转换器类
+ */
+class MarkdownToPptxConverter {
+  private options: MarkdownToPptxOptions = {};
+  private themes: Map<string, SlideTheme>;
+  private highlighter = new SyntaxHighlighter();
+  private baseDir = process.cwd();
+  private mediaCount = 0;
+
+  constructor() {
+    this.themes = new Map();
+    this.initializeThemes();
+  }
+
+  /**
+   * 初始化预设主题（与 MarkdownToDocxConverter 的主题名称一致）
+   */
+  private initializeThemes(): void {
+    this.themes.set('default', {
+      fontFamily: 'Segoe UI',
+      codeFontFamily: 'Consolas',
+      background: 'FFFFFF',
+      titleColor: '2F5496',
+      textColor: '262626',
+      mutedColor: '595959',
+      accent: '4472C4',
+      titleSlide: { background: 'FFFFFF', titleColor: '2F5496', subtitleColor: '595959' },
+      table: { header: '4472C4', band: 'D9E2F3', border: 'B4C6E7' },
+    });
+
+    this.themes.set('professional', {
+      fontFamily: 'Segoe UI',
+      codeFontFamily: 'Consolas',
+      background: 'FFFFFF',
+      titleColor: '000000',
+      textColor: '262626',
+      mutedColor: '595959',
+      accent: '404040',
+      titleSlide: { background: '262626', titleColor: 'FFFFFF', subtitleColor: 'D9D9D9' },
+      table: { header: '404040', band: 'F2F2F2', border: 'BFBFBF' },
+    });
+
+    this.themes.set('academic', {
+      fontFamily: 'Georgia',
+      codeFontFamily: 'Consolas',
+      background: 'FFFFFF',
+      titleColor: '1F1F1F',
+      textColor: '000000',
+      mutedColor: '404040',
+      accent: '7B2C2C',
+      titleSlide: { background: 'FFFFFF', titleColor: '7B2C2C', subtitleColor: '404040' },
+      table: { header: '7B2C2C', band: 'F4EDED', border: 'D9C3C3' },
+    });
+
+    this.themes.set('modern', {
+      fontFamily: 'Segoe UI',
+      codeFontFamily: 'Consolas',
+      background: 'FFFFFF',
+      titleColor: '0078D4',
+      textColor: '323130',
+      mutedColor: '605E5C',
+      accent: '0078D4',
+      titleSlide: { background: '0078D4', titleColor: 'FFFFFF', subtitleColor: 'DEECF9' },
+      table: { header: '0078D4', band: 'DEECF9', border: 'C7E0F4' },
+    });
+  }
+
+  /**
+   * 主转换函数
+   */
+  async convertMarkdownToPptx(
+    inputPath: string,
+    options: MarkdownToPptxOptions = {}
+  ): Promise<MarkdownToPptxResult> {
+    try {
+      this.options = {
+        theme: 'professional',
+        splitOn: 'auto',
+        enableSyntaxHighlighting: true,
+        renderDiagrams: true,
+        remoteImages: 'placeholder',
+        debug: false,
+        ...options,
+      };
+      this.baseDir = path.dirname(path.resolve(inputPath));
+      this.mediaCount = 0;
+      const themeName = this.themes.has(this.options.theme!) ? this.options.theme! : 'default';
+      const theme = this.themes.get(themeName)!;
+
+      if (this.options.debug) {
+        console.log('🚀 开始 Markdown 到 PPTX 转换...');
+        console.log('📄 输入文件:', inputPath);
+        console.log('🎨 使用主题:', themeName);
+      }
+
+      const markdownContent = await fs.readFile(inputPath, 'utf-8');
+      const { body, title } = this.stripFrontMatter(markdownContent);
+      const tokens = new Lexer({ gfm: true }).lex(body);
+
+      const slides: SlideModel[] = [];
+      for (const group of this.splitSlides(tokens)) {
+        const slide = await this.buildSlide(group);
+        if (slide.title || slide.blocks.length || slide.notes.length) slides.push(slide);
+      }
+      if (slides.length === 0) {
+        throw new Error('Markdown 中没有可生成幻灯片的内容');
+      }
+
+      const documentTitle =
+        title ??
+        (slides[0].title
+          ? plainText(slides[0].title)
+          : path.basename(inputPath, path.extname(inputPath)));
+      const pptxBuffer = await this.buildPackage(slides, theme, themeName, documentTitle);
+
+      let pptxPath: string | undefined;
+      if (this.options.outputPath) {
+        pptxPath = validateAndSanitizePath(this.options.outputPath, []);
+        await fs.writeFile(pptxPath!, pptxBuffer);
+
+        if (this.options.debug) {
+          console.log('✅ PPTX 文件已保存:', pptxPath);
+        }
+      }
+
+      const blocks = slides.flatMap(slide => slide.blocks);
+      const stats = {
+        slideCount: slides.length,
+        notesCount: slides.filter(slide => slide.notes.length > 0).length,
+        imagesCount: blocks.filter(block => block.kind === 'image').length,
+        tablesCount: blocks.filter(block => block.kind === 'table').length,
+      };
+      if (this.options.debug) {
+        console.log('📊 转换统计:', stats);
+      }
+
+      return {
+        success: true,
+        content: pptxBuffer,
+        pptxPath,
+        metadata: {
+          originalFormat: 'markdown',
+          targetFormat: 'pptx',
+          theme: themeName,
+          converter: 'markdown-to-pptx-converter',
+          contentLength: pptxBuffer.length,
+          ...stats,
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ Markdown 转 PPTX 失败:', error.message);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * 去掉 YAML front matter，保留其中的 title
+   */
+  private stripFrontMatter(content: string): { body: string; title?: string } {
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\s*(?:\r?\n|$)/);
+    if (!match) return { body: content };
+    const title = match[1].match(/^title:\s*["']?(.+?)["']?\s*$/m)?.[1];
+    return { body: content.slice(match[0].length), title };
+  }
+
+  /**
+   * 拆分幻灯片：分隔线模式下 --- 开始新幻灯片，标题模式下每个 H1/H2 开始新幻灯片
+   */
+  private splitSlides(tokens: any[]): any[][] {
+    const splitOn =
+      this.options.splitOn === 'auto' || !this.options.splitOn
+        ? tokens.some(token => token.type === 'hr')
+          ? 'hr'
+          : 'heading'
+        : this.options.splitOn;
+    const hasContent = (group: any[]) => group.some(token => token.type !== 'space');
+
+    const groups: any[][] = [[]];
+    for (const token of tokens) {
+      if (token.type === 'hr') {
+        if (splitOn === 'hr') groups.push([]);
+        continue;
+      }
+      const current = groups[groups.length - 1];
+      if (
+        splitOn === 'heading' &&
+        token.type === 'heading' &&
+        token.depth <= 2 &&
+        hasContent(current)
+      ) {
+        groups.push([]);
+      }
+      groups[groups.length - 1].push(token);
+    }
+    return groups.filter(hasContent);
+  }
+
+  /**
+   * 构建单张幻灯片：开头的标题作为幻灯片标题，Note: 段落及紧随其后的文字段落作为备注，
+   * 备注之后的表格、图片、列表等块元素仍放在幻灯片上
+   */
+  private async buildSlide(tokens: any[]): Promise<SlideModel> {
+    const slide: SlideModel = { blocks: [], notes: [] };
+    let content = tokens.filter(token => token.type !== 'space');
+
+    if (content[0]?.type === 'heading') {
+      slide.title = inlineRuns(content[0].tokens ?? []);
+      slide.titleDepth = content[0].depth;
+      content = content.slice(1);
+    }
+
+    const noteIndex = content.findIndex(
+      token => token.type === 'paragraph' && NOTE_PATTERN.test(token.text)
+    );
+    if (noteIndex >= 0) {
+      let noteEnd = noteIndex + 1;
+      while (noteEnd < content.length && isNoteParagraph(content[noteEnd])) noteEnd++;
+      slide.notes = content
+        .slice(noteIndex, noteEnd)
+        .map((token, index) => {
+          const text = tokenText(token);
+          return index === 0 ? text.replace(NOTE_PATTERN, '') : text;
+        })
+        .join('\n')
+        .trim()
+        .split('\n')
+        .map(line => line.trim());
+      content = [...content.slice(0, noteIndex), ...content.slice(noteEnd)];
+    }
+
+    for (const token of content) {
+      await this.addBlock(slide.blocks, token);
+    }
+    return slide;
+  }
+
+  private async addBlock(blocks: SlideBlock[], token: any, level = 0): Promise<void> {
+    switch (token.type) {
+      case 'heading':
+        pushParagraph(blocks, { kind: 'heading', runs: inlineRuns(token.tokens ?? []), level: 0 });
+        break;
+
+      case 'paragraph':
+      case 'text': {
+        const inline = token.tokens ?? [{ type: 'text', text: token.text }];
+        // 只含图片的段落作为独立图片，其余情况图片以替代文本显示
+        const meaningful = inline.filter(
+          (child: any) => !(child.type === 'text' && !child.text.trim()) && child.type !== 'br'
+        );
+        if (meaningful.length > 0 && meaningful.every((child: any) => child.type === 'image')) {
+          for (const image of meaningful) await this.addImage(blocks, image);
+        } else {
+          pushParagraph(blocks, { kind: 'body', runs: inlineRuns(inline), level });
+        }
+        break;
+      }
+
+      case 'list':
+        await this.addList(blocks, token, level);
+        break;
+
+      case 'blockquote':
+        for (const child of token.tokens ?? []) {
+          if (child.type === 'space') continue;
+          pushParagraph(blocks, {
+            kind: 'quote',
+            runs: child.tokens ? inlineRuns(child.tokens) : [{ text: tokenText(child) }],
+            level: 0,
+          });
+        }
+        break;
+
+      case 'code':
+        await this.addCode(blocks, token);
+        break;
+
+      case 'table':
+        blocks.push({
+          kind: 'table',
+          header: token.header.map((cell: any) => inlineRuns(cell.tokens ?? [])),
+          rows: token.rows.map((row: any[]) => row.map(cell => inlineRuns(cell.tokens ?? []))),
+          align: token.align ?? [],
+        });
+        break;
+
+      case 'html': {
+        const text = stripTags(token.text ?? '').trim();
+        if (text) pushParagraph(blocks, { kind: 'body', runs: [{ text }], level });
+        break;
+      }
+
+      case 'space':
+      case 'hr':
+        break;
+
+      default: {
+        const text = tokenText(token).trim();
+        if (text) pushParagraph(blocks, { kind: 'body', runs: [{ text }], level });
+      }
+    }
+  }
+
+  /**
+   * 列表项转为带项目符号的段落，嵌套列表提高缩进级别
+   */
+  private async addList(blocks: SlideBlock[], list: any, level: number): Promise<void> {
+    const start = typeof list.start === 'number' ? list.start : 1;
+    for (const item of list.items ?? []) {
+      let first = true;
+      for (const child of item.tokens ?? []) {
+        if (child.type === 'list') {
+          await this.addList(blocks, child, level + 1);
+        } else if (child.type === 'text' || child.type === 'paragraph') {
+          const runs = inlineRuns(child.tokens ?? [{ type: 'text', text: child.text }]);
+          if (first && item.task) runs.unshift({ text: item.checked ? '☑ ' : '☐ ' });
+          pushParagraph(blocks, {
+            kind: 'body',
+            runs,
+            level,
+            bullet: first ? (list.ordered ? 'number' : 'bullet') : undefined,
+            start,
+          });
+          first = false;
+        } else if (child.type !== 'space' && child.type !== 'checkbox') {
+          await this.addBlock(blocks, child, level);
+        }
+      }
+    }
+  }
+
+  /**
+   * 代码块：图表语言渲染为 PNG 图片，其余按主题配色高亮
+   */
+  private async addCode(blocks: SlideBlock[], token: any): Promise<void> {
+    const language = token.lang ? String(token.lang).split(/\s+/)[0] : undefined;
+    const renderer = this.options.diagramRenderer ?? getDiagramRenderer();
+    if (this.options.renderDiagrams && language && renderer.supports(language)) {
+      try {
+        const output = await renderer.render(language, token.text, 'png');
+        blocks.push({
+          kind: 'image',
+          image: {
+            type: output.format,
+            data: output.data,
+            width: output.width,
+            height: output.height,
+          },
+          description: `${language} diagram`,
+        });
+        return;
+      } catch (error: any) {
+        console.warn(`⚠️ 图表渲染失败 (${language}):`, error.message);
+      }
+    }
+    blocks.push({ kind: 'code', code: token.text.replace(/\t/g, '    '), language });
+  }
+
+  /**
+   * 图片：本地路径相对 Markdown 文件解析，远程图片按 remoteImages 策略跳过或显示占位图
+   */
+  private async addImage(blocks: SlideBlock[], token: any): Promise<void> {
+    const src: string = token.href ?? '';
+    const description = token.text || token.title || path.basename(src);
+    try {
+      let image: LoadedImage;
+      if (isRemoteImage(src)) {
+        if (this.options.remoteImages === 'skip') return;
+        image = {
+          type: 'png',
+          data: placeholderPng(320, 180, description),
+          width: 320,
+          height: 180,
+        };
+      } else {
+        image = await loadImage(src, this.baseDir);
+      }
+      blocks.push({ kind: 'image', image, description });
+    } catch (error: any) {
+      console.warn('⚠️ 图片加载失败:', src.startsWith('data:') ? 'data URI' : src, error.message);
+      pushParagraph(blocks, { kind: 'body', runs: [{ text: `[${description}]` }], level: 0 });
+    }
+  }
+
+  /**
+   * 生成 PPTX 包
+   */
+  private async buildPackage(
+    slides: SlideModel[],
+    theme: SlideTheme,
+    themeName: string,
+    title: string
+  ): Promise<Buffer> {
+    const zip = new JSZip();
+    const slideCount = slides.length;
+    const notesSlides = slides.map((slide, index) => (slide.notes.length ? index + 1 : 0));
+    const hasNotes = notesSlides.some(Boolean);
+
+    // 演示文稿关系：rId1 母版，rId2.. 幻灯片，其后为备注母版、属性与主题
+    const presentationRels: SlidePart['relationships'] = [
+      { id: 'rId1', type: `${REL}/slideMaster`, target: 'slideMasters/slideMaster1.xml' },
+      ...slides.map((_, index) => ({
+        id: `rId${index + 2}`,
+        type: `${REL}/slide`,
+        target: `slides/slide${index + 1}.xml`,
+      })),
+    ];
+    const nextId = () => `rId${presentationRels.length + 1}`;
+    const notesMasterId = nextId();
+    if (hasNotes) {
+      presentationRels.push({
+        id: notesMasterId,
+        type: `${REL}/notesMaster`,
+        target: 'notesMasters/notesMaster1.xml',
+      });
+    }
+    for (const [type, target] of [
+      ['presProps', 'presProps.xml'],
+      ['viewProps', 'viewProps.xml'],
+      ['theme', 'theme/theme1.xml'],
+      ['tableStyles', 'tableStyles.xml'],
+    ]) {
+      presentationRels.push({ id: nextId(), type: `${REL}/${type}`, target });
+    }
+
+    zip.file('[Content_Types].xml', this.contentTypesXml(slideCount, notesSlides, hasNotes));
+    zip.file(
+      '_rels/.rels',
+      relationshipsXml([
+        { id: 'rId1', type: `${REL}/officeDocument`, target: 'ppt/presentation.xml' },
+        {
+          id: 'rId2',
+          type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+          target: 'docProps/core.xml',
+        },
+        { id: 'rId3', type: `${REL}/extended-properties`, target: 'docProps/app.xml' },
+      ])
+    );
+    zip.file('docProps/core.xml', coreXml(title));
+    zip.file('docProps/app.xml', appXml(slideCount, notesSlides.filter(Boolean).length));
+
+    zip.file(
+      'ppt/presentation.xml',
+      XML_HEADER +
+        `<p:presentation ${PML_NAMESPACES} saveSubsetFonts="1">` +
+        '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>' +
+        (hasNotes
+          ? `<p:notesMasterIdLst><p:notesMasterId r:id="${notesMasterId}"/></p:notesMasterIdLst>`
+          : '') +
+        '<p:sldIdLst>' +
+        slides.map((_, index) => `<p:sldId id="${256 + index}" r:id="rId${index + 2}"/>`).join('') +
+        '</p:sldIdLst>' +
+        `<p:sldSz cx="${SLIDE_WIDTH}" cy="${SLIDE_HEIGHT}"/><p:notesSz cx="6858000" cy="9144000"/>` +
+        '</p:presentation>'
+    );
+    zip.file('ppt/_rels/presentation.xml.rels', relationshipsXml(presentationRels));
+    zip.file('ppt/presProps.xml', XML_HEADER + `<p:presentationPr ${PML_NAMESPACES}/>`);
+    zip.file(
+      'ppt/viewProps.xml',
+      XML_HEADER + `<p:viewPr ${PML_NAMESPACES}><p:gridSpacing cx="76200" cy="76200"/></p:viewPr>`
+    );
+    zip.file(
+      'ppt/tableStyles.xml',
+      XML_HEADER + `<a:tblStyleLst xmlns:a="${NS.a}" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>`
+    );
+    zip.file('ppt/theme/theme1.xml', themeXml(theme, themeName));
+
+    zip.file('ppt/slideMasters/slideMaster1.xml', this.slideMasterXml(theme));
+    zip.file(
+      'ppt/slideMasters/_rels/slideMaster1.xml.rels',
+      relationshipsXml([
+        { id: 'rId1', type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+        { id: 'rId2', type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout2.xml' },
+        { id: 'rId3', type: `${REL}/theme`, target: '../theme/theme1.xml' },
+      ])
+    );
+    zip.file('ppt/slideLayouts/slideLayout1.xml', this.titleLayoutXml(theme));
+    zip.file('ppt/slideLayouts/slideLayout2.xml', this.titleOnlyLayoutXml());
+    for (const layout of [1, 2]) {
+      zip.file(
+        `ppt/slideLayouts/_rels/slideLayout${layout}.xml.rels`,
+        relationshipsXml([
+          { id: 'rId1', type: `${REL}/slideMaster`, target: '../slideMasters/slideMaster1.xml' },
+        ])
+      );
+    }
+
+    if (hasNotes) {
+      zip.file('ppt/theme/theme2.xml', themeXml(theme, `${themeName} notes`));
+      zip.file('ppt/notesMasters/notesMaster1.xml', notesMasterXml());
+      zip.file(
+        'ppt/notesMasters/_rels/notesMaster1.xml.rels',
+        relationshipsXml([{ id: 'rId1', type: `${REL}/theme`, target: '../theme/theme2.xml' }])
+      );
+    }
+
+    for (const [index, slide] of slides.entries()) {
+      const number = index + 1;
+      const titleLayout = this.isTitleSlide(slide);
+      const part: SlidePart = {
+        relationships: [
+          {
+            id: 'rId1',
+            type: `${REL}/slideLayout`,
+            target: `../slideLayouts/slideLayout${titleLayout ? 1 : 2}.xml`,
+          },
+        ],
+        media: [],
+      };
+      const xml = titleLayout
+        ? this.titleSlideXml(slide, theme, part)
+        : this.contentSlideXml(slide, theme, part);
+
+      if (slide.notes.length) {
+        part.relationships.push({
+          id: `rId${part.relationships.length + 1}`,
+          type: `${REL}/notesSlide`,
+          target: `../notesSlides/notesSlide${number}.xml`,
+        });
+        zip.file(`ppt/notesSlides/notesSlide${number}.xml`, notesSlideXml(slide.notes));
+        zip.file(
+          `ppt/notesSlides/_rels/notesSlide${number}.xml.rels`,
+          relationshipsXml([
+            { id: 'rId1', type: `${REL}/notesMaster`, target: '../notesMasters/notesMaster1.xml' },
+            { id: 'rId2', type: `${REL}/slide`, target: `../slides/slide${number}.xml` },
+          ])
+        );
+      }
+
+      zip.file(`ppt/slides/slide${number}.xml`, xml);
+      zip.file(`ppt/slides/_rels/slide${number}.xml.rels`, relationshipsXml(part.relationships));
+      for (const media of part.media) {
+        zip.file(`ppt/media/${media.name}`, media.data);
+      }
+    }
+
+    return await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  /**
+   * 标题版式：H1 开头且只有不超过三段普通文字的幻灯片（封面、章节页）
+   */
+  private isTitleSlide(slide: SlideModel): boolean {
+    if (slide.titleDepth !== 1) return false;
+    const paragraphs: ParagraphModel[] = [];
+    for (const block of slide.blocks) {
+      if (block.kind !== 'text') return false;
+      paragraphs.push(...block.paragraphs);
+    }
+    return paragraphs.length <= 3 && paragraphs.every(paragraph => !paragraph.bullet);
+  }
+
+  private titleSlideXml(slide: SlideModel, theme: SlideTheme, part: SlidePart): string {
+    const colors = theme.titleSlide;
+    const subtitle = slide.blocks
+      .flatMap(block => (block.kind === 'text' ? block.paragraphs : []))
+      .map(paragraph =>
+        this.paragraphXml(
+          { ...paragraph, kind: 'body', level: 0 },
+          SUBTITLE_SIZE,
+          colors.subtitleColor,
+          theme,
+          part,
+          'ctr'
+        )
+      )
+      .join('');
+
+    const shapes = [
+      placeholderShape(
+        2,
+        'Title 1',
+        '<p:ph type="ctrTitle"/>',
+        { x: MARGIN_X, y: 1600200, cx: CONTENT_WIDTH, cy: 1828800 },
+        '<a:bodyPr anchor="b"><a:normAutofit/></a:bodyPr>',
+        this.paragraphXml(
+          { kind: 'body', runs: slide.title ?? [], level: 0 },
+          TITLE_SLIDE_SIZE,
+          colors.titleColor,
+          theme,
+          part,
+          'ctr',
+          true
+        )
+      ),
+    ];
+    if (subtitle) {
+      shapes.push(
+        placeholderShape(
+          3,
+          'Subtitle 2',
+          '<p:ph type="subTitle" idx="1"/>',
+          { x: MARGIN_X, y: 3611880, cx: CONTENT_WIDTH, cy: 1600200 },
+          '<a:bodyPr><a:normAutofit/></a:bodyPr>',
+          subtitle
+        )
+      );
+    }
+    return slideXml(shapes.join(''));
+  }
+
+  private contentSlideXml(slide: SlideModel, theme: SlideTheme, part: SlidePart): string {
+    const shapes: string[] = [];
+    let nextShapeId = 2;
+    let top = TITLE_TOP;
+
+    if (slide.title) {
+      shapes.push(
+        placeholderShape(
+          nextShapeId++,
+          'Title 1',
+          '<p:ph type="title"/>',
+          { x: MARGIN_X, y: TITLE_TOP, cx: CONTENT_WIDTH, cy: TITLE_HEIGHT },
+          '<a:bodyPr anchor="b"><a:normAutofit/></a:bodyPr>',
+          this.paragraphXml(
+            { kind: 'body', runs: slide.title, level: 0 },
+            TITLE_SIZE,
+            theme.titleColor,
+            theme,
+            part,
+            undefined,
+            true
+          )
+        )
+      );
+      // 标题下方的强调色短线
+      const id = nextShapeId++;
+      shapes.push(
+        `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="Accent ${id - 1}"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>` +
+          `<p:spPr>${xfrm({ x: MARGIN_X, y: TITLE_TOP + TITLE_HEIGHT + 45720, cx: 914400, cy: 45720 })}` +
+          `<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>${solidFill(theme.accent)}<a:ln><a:noFill/></a:ln></p:spPr></p:sp>`
+      );
+      top = BODY_TOP;
+    }
+
+    const { scale, heights } = this.layoutBlocks(slide.blocks, BODY_BOTTOM - top);
+    for (const [index, block] of slide.blocks.entries()) {
+      const height = heights[index];
+      const id = nextShapeId++;
+      switch (block.kind) {
+        case 'text':
+          shapes.push(
+            textShape(
+              id,
+              `TextBox ${id - 1}`,
+              { x: MARGIN_X, y: top, cx: CONTENT_WIDTH, cy: height },
+              '',
+              '<a:bodyPr wrap="square" lIns="0" tIns="45720" rIns="0" bIns="45720" rtlCol="0"><a:normAutofit/></a:bodyPr>',
+              block.paragraphs
+                .map(paragraph =>
+                  this.paragraphXml(
+                    paragraph,
+                    paragraphSize(paragraph) * scale,
+                    paragraph.kind === 'quote' ? theme.mutedColor : theme.textColor,
+                    theme,
+                    part
+                  )
+                )
+                .join('')
+            )
+          );
+          break;
+        case 'code':
+          shapes.push(
+            this.codeShape(
+              id,
+              block,
+              { x: MARGIN_X, y: top, cx: CONTENT_WIDTH, cy: height },
+              scale,
+              theme
+            )
+          );
+          break;
+        case 'table':
+          shapes.push(
+            this.tableFrame(
+              id,
+              block,
+              { x: MARGIN_X, y: top, cx: CONTENT_WIDTH, cy: height },
+              scale,
+              theme,
+              part
+            )
+          );
+          break;
+        case 'image': {
+          const width = Math.round((height * block.image.width) / block.image.height);
+          const box = {
+            x: MARGIN_X + Math.round((CONTENT_WIDTH - width) / 2),
+            y: top,
+            cx: width,
+            cy: height,
+          };
+          shapes.push(this.pictureShape(id, block, box, part));
+          break;
+        }
+      }
+      top += height + BLOCK_GAP;
+    }
+
+    return slideXml(shapes.join(''));
+  }
+
+  /**
+   * 估算各块高度；内容超出可用高度时整体缩小字号（不低于 MIN_SCALE），图片平分剩余空间
+   */
+  private layoutBlocks(
+    blocks: SlideBlock[],
+    available: number
+  ): { scale: number; heights: number[] } {
+    let scale = 1;
+    for (;;) {
+      const heights = blocks.map(block =>
+        block.kind === 'image' ? 0 : this.blockHeight(block, scale)
+      );
+      const images = blocks.filter(block => block.kind === 'image').length;
+      const gaps = BLOCK_GAP * Math.max(0, blocks.length - 1);
+      const remaining = available - gaps - heights.reduce((sum, height) => sum + height, 0);
+      const share = images ? remaining / images : remaining;
+      const fits = images ? share >= MIN_IMAGE_HEIGHT : remaining >= 0;
+
+      if (fits || scale <= MIN_SCALE) {
+        blocks.forEach((block, index) => {
+          if (block.kind !== 'image') return;
+          const { width, height } = block.image;
+          const natural = height * EMU_PER_PX;
+          const fitWidth = (CONTENT_WIDTH * height) / width;
+          heights[index] = Math.round(
+            Math.max(
+              Math.min(natural, fitWidth, share),
+              Math.min(natural, fitWidth, MIN_IMAGE_HEIGHT)
+            )
+          );
+        });
+        return { scale, heights };
+      }
+      scale = Math.max(MIN_SCALE, scale * 0.9);
+    }
+  }
+
+  private blockHeight(block: SlideBlock, scale: number): number {
+    const lineHeight = (size: number) => size * 1.2 * EMU_PER_PT;
+    switch (block.kind) {
+      case 'text':
+        return (
+          91440 +
+          block.paragraphs.reduce((sum, paragraph) => {
+            const size = paragraphSize(paragraph) * scale;
+            const width = CONTENT_WIDTH - paragraphIndent(paragraph);
+            return (
+              sum +
+              wrappedLines(paragraph.runs, width, size) * lineHeight(size) +
+              6 * scale * EMU_PER_PT
+            );
+          }, 0)
+        );
+      case 'code':
+        return 182880 + block.code.split('\n').length * lineHeight(CODE_SIZE * scale);
+      case 'table': {
+        const columnWidth = CONTENT_WIDTH / Math.max(1, block.header.length);
+        const size = TABLE_SIZE * scale;
+        return [block.header, ...block.rows].reduce(
+          (sum, row) =>
+            sum +
+            91440 +
+            Math.max(1, ...row.map(cell => wrappedLines(cell, columnWidth - 182880, size))) *
+              lineHeight(size),
+          0
+        );
+      }
+      default:
+        return 0;
+    }
+  }
+
+  private paragraphXml(
+    paragraph: ParagraphModel,
+    size: number,
+    color: string,
+    theme: SlideTheme,
+    part: SlidePart,
+    align?: string,
+    bold = false
+  ): string {
+    const attributes: string[] = [];
+    let bullet = '<a:buNone/>';
+    if (paragraph.bullet || paragraph.kind === 'quote' || paragraph.level > 0) {
+      attributes.push(`marL="${paragraphIndent(paragraph)}"`);
+    }
+    if (paragraph.bullet) {
+      attributes.push(`lvl="${Math.min(paragraph.level, 8)}"`, 'indent="-285750"');
+      bullet =
+        paragraph.bullet === 'number'
+          ? `<a:buFont typeface="+mj-lt"/><a:buAutoNum type="arabicPeriod"${paragraph.start && paragraph.start > 1 ? ` startAt="${paragraph.start}"` : ''}/>`
+          : `<a:buFont typeface="Arial"/><a:buChar char="${BULLET_CHARS[paragraph.level % BULLET_CHARS.length]}"/>`;
+    } else if (paragraph.kind !== 'quote') {
+      attributes.push('indent="0"');
+    }
+    if (align) attributes.push(`algn="${align}"`);
+
+    const runStyle = {
+      size,
+      color,
+      bold: bold || paragraph.kind === 'heading',
+      italic: paragraph.kind === 'quote',
+    };
+    const runs = paragraph.runs.map(run => this.runXml(run, runStyle, theme, part)).join('');
+    return (
+      `<a:p><a:pPr ${attributes.join(' ')}><a:spcBef><a:spcPts val="${Math.round((size / 4) * 100)}"/></a:spcBef>${bullet}</a:pPr>` +
+      `${runs}<a:endParaRPr lang="en-US" sz="${Math.round(size * 100)}" dirty="0"/></a:p>`
+    );
+  }
+
+  private runXml(
+    run: TextRunModel,
+    style: { size: number; color: string; bold?: boolean; italic?: boolean },
+    theme: SlideTheme,
+    part: SlidePart
+  ): string {
+    if (run.break) return '<a:br/>';
+    const attributes = [`lang="en-US"`, `sz="${Math.round(style.size * 100)}"`];
+    if (run.bold || style.bold) attributes.push('b="1"');
+    if (run.italic || style.italic) attributes.push('i="1"');
+    if (run.strike) attributes.push('strike="sngStrike"');
+    if (run.href) attributes.push('u="sng"');
+    attributes.push('dirty="0"');
+
+    const font = run.code ? theme.codeFontFamily : theme.fontFamily;
+    let hyperlink = '';
+    if (run.href) {
+      const id = `rId${part.relationships.length + 1}`;
+      part.relationships.push({ id, type: `${REL}/hyperlink`, target: run.href, external: true });
+      hyperlink = `<a:hlinkClick r:id="${id}"/>`;
+    }
+    return (
+      `<a:r><a:rPr ${attributes.join(' ')}>${solidFill(run.href ? theme.accent : style.color)}` +
+      `<a:latin typeface="${escapeXml(font)}"/><a:cs typeface="${escapeXml(font)}"/>${hyperlink}</a:rPr>` +
+      `<a:t>${escapeXml(run.text)}</a:t></a:r>`
+    );
+  }
+
+  private codeShape(
+    id: number,
+    block: Extract<SlideBlock, { kind: 'code' }>,
+    box: Box,
+    scale: number,
+    theme: SlideTheme
+  ): string {
+    const palette = this.highlighter.getPalette(this.options.theme);
+    const language = this.options.enableSyntaxHighlighting ? block.language : null;
+    const size = Math.round(CODE_SIZE * scale * 100);
+    const font = escapeXml(theme.codeFontFamily);
+    const paragraphs = this.highlighter
+      .tokenizeLines(block.code, language)
+      .map(line => {
+        const runs = line
+          .map(token => {
+            const tokenStyle = palette.tokens[token.type];
+            const attributes = [`lang="en-US"`, `sz="${size}"`];
+            if (tokenStyle.bold) attributes.push('b="1"');
+            if (tokenStyle.italic) attributes.push('i="1"');
+            return (
+              `<a:r><a:rPr ${attributes.join(' ')} dirty="0">${solidFill(tokenStyle.color)}` +
+              `<a:latin typeface="${font}"/><a:cs typeface="${font}"/></a:rPr><a:t>${escapeXml(token.text)}</a:t></a:r>`
+            );
+          })
+          .join('');
+        return `<a:p><a:pPr><a:buNone/></a:pPr>${runs}<a:endParaRPr lang="en-US" sz="${size}" dirty="0"/></a:p>`;
+      })
+      .join('');
+
+    return textShape(
+      id,
+      `Code ${id - 1}`,
+      box,
+      `${solidFill(palette.background)}<a:ln w="9525">${solidFill(palette.border)}</a:ln>`,
+      '<a:bodyPr wrap="square" lIns="137160" tIns="91440" rIns="137160" bIns="91440" rtlCol="0"><a:normAutofit/></a:bodyPr>',
+      paragraphs
+    );
+  }
+
+  private tableFrame(
+    id: number,
+    block: Extract<SlideBlock, { kind: 'table' }>,
+    box: Box,
+    scale: number,
+    theme: SlideTheme,
+    part: SlidePart
+  ): string {
+    const columns = Math.max(block.header.length, ...block.rows.map(row => row.length));
+    // 列宽按各列最长文本分配
+    const weights = Array.from({ length: columns }, (_, column) =>
+      Math.min(
+        40,
+        Math.max(
+          4,
+          ...[block.header, ...block.rows].map(row => plainText(row[column] ?? []).length)
+        )
+      )
+    );
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    const widths = weights.map(weight => Math.round((box.cx * weight) / total));
+    const size = TABLE_SIZE * scale;
+    const rowHeight = Math.round(size * 1.2 * EMU_PER_PT + 91440);
+    const border = (tag: string) =>
+      `<a:${tag} w="12700" cmpd="sng">${solidFill(theme.table.border)}</a:${tag}>`;
+
+    const rowXml = (cells: TextRunModel[][], rowIndex: number) => {
+      const header = rowIndex === 0;
+      const fill = header ? theme.table.header : rowIndex % 2 === 0 ? theme.table.band : 'FFFFFF';
+      const tcs = Array.from({ length: columns }, (_, column) => {
+        const align = { left: 'l', center: 'ctr', right: 'r' }[block.align[column] ?? ''] ?? 'l';
+        const runs = (cells[column] ?? [])
+          .map(run =>
+            this.runXml(
+              run,
+              { size, color: header ? 'FFFFFF' : theme.textColor, bold: header },
+              theme,
+              part
+            )
+          )
+          .join('');
+        return (
+          `<a:tc><a:txBody><a:bodyPr/><a:lstStyle/><a:p><a:pPr algn="${align}"/>${runs}` +
+          `<a:endParaRPr lang="en-US" sz="${Math.round(size * 100)}" dirty="0"/></a:p></a:txBody>` +
+          `<a:tcPr marL="91440" marR="91440" marT="45720" marB="45720" anchor="ctr">` +
+          `${border('lnL')}${border('lnR')}${border('lnT')}${border('lnB')}${solidFill(fill)}</a:tcPr></a:tc>`
+        );
+      }).join('');
+      return `<a:tr h="${rowHeight}">${tcs}</a:tr>`;
+    };
+
+    return (
+      `<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="${id}" name="Table ${id - 1}"/>` +
+      '<p:cNvGraphicFramePr><a:graphicFrameLocks noGrp="1"/></p:cNvGraphicFramePr><p:nvPr/></p:nvGraphicFramePr>' +
+      `<p:xfrm><a:off x="${box.x}" y="${box.y}"/><a:ext cx="${box.cx}" cy="${box.cy}"/></p:xfrm>` +
+      '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table">' +
+      '<a:tbl><a:tblPr firstRow="1" bandRow="1"/><a:tblGrid>' +
+      widths.map(width => `<a:gridCol w="${width}"/>`).join('') +
+      '</a:tblGrid>' +
+      [block.header, ...block.rows].map(rowXml).join('') +
+      '</a:tbl></a:graphicData></a:graphic></p:graphicFrame>'
+    );
+  }
+
+  /**
+   * 图片：SVG 同时嵌入 PNG 后备图（旧版 PowerPoint 不支持 SVG）
+   */
+  private pictureShape(
+    id: number,
+    block: Extract<SlideBlock, { kind: 'image' }>,
+    box: Box,
+    part: SlidePart
+  ): string {
+    const { image, description } = block;
+    const embed = (data: Buffer, extension: string) => {
+      const name = `image${++this.mediaCount}.${extension}`;
+      const relId = `rId${part.relationships.length + 1}`;
+      part.media.push({ name, data });
+      part.relationships.push({ id: relId, type: `${REL}/image`, target: `../media/${name}` });
+      return relId;
+    };
+
+    let blip: string;
+    if (image.type === 'svg') {
+      const fallback = embed(placeholderPng(image.width, image.height, description), 'png');
+      const svg = embed(image.data, 'svg');
+      blip =
+        `<a:blip r:embed="${fallback}"><a:extLst><a:ext uri="{96DAC541-7B7A-43D3-8B79-37D633B846F1}">` +
+        `<asvg:svgBlip xmlns:asvg="http://schemas.microsoft.com/office/drawing/2016/SVG/main" r:embed="${svg}"/>` +
+        '</a:ext></a:extLst></a:blip>';
+    } else {
+      blip = `<a:blip r:embed="${embed(image.data, image.type === 'jpg' ? 'jpeg' : image.type)}"/>`;
+    }
+
+    return (
+      `<p:pic><p:nvPicPr><p:cNvPr id="${id}" name="Picture ${id - 1}" descr="${escapeXml(description)}"/>` +
+      '<p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr>' +
+      `<p:blipFill>${blip}<a:stretch><a:fillRect/></a:stretch></p:blipFill>` +
+      `<p:spPr>${xfrm(box)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>`
+    );
+  }
+
+  private contentTypesXml(slideCount: number, notesSlides: number[], hasNotes: boolean): string {
+    const overrides: [string, string][] = [
+      ['/ppt/presentation.xml', `${CT}.presentation.main+xml`],
+      ['/ppt/presProps.xml', `${CT}.presProps+xml`],
+      ['/ppt/viewProps.xml', `${CT}.viewProps+xml`],
+      ['/ppt/tableStyles.xml', `${CT}.tableStyles+xml`],
+      ['/ppt/theme/theme1.xml', 'application/vnd.openxmlformats-officedocument.theme+xml'],
+      ['/ppt/slideMasters/slideMaster1.xml', `${CT}.slideMaster+xml`],
+      ['/ppt/slideLayouts/slideLayout1.xml', `${CT}.slideLayout+xml`],
+      ['/ppt/slideLayouts/slideLayout2.xml', `${CT}.slideLayout+xml`],
+      ['/docProps/core.xml', 'application/vnd.openxmlformats-package.core-properties+xml'],
+      [
+        '/docProps/app.xml',
+        'application/vnd.openxmlformats-officedocument.extended-properties+xml',
+      ],
+    ];
+    for (let number = 1; number <= slideCount; number++) {
+      overrides.push([`/ppt/slides/slide${number}.xml`, `${CT}.slide+xml`]);
+    }
+    if (hasNotes) {
+      overrides.push(
+        ['/ppt/theme/theme2.xml', 'application/vnd.openxmlformats-officedocument.theme+xml'],
+        ['/ppt/notesMasters/notesMaster1.xml', `${CT}.notesMaster+xml`]
+      );
+      for (const number of notesSlides.filter(Boolean)) {
+        overrides.push([`/ppt/notesSlides/notesSlide${number}.xml`, `${CT}.notesSlide+xml`]);
+      }
+    }
+
+    const defaults: [string, string][] = [
+      ['rels', 'application/vnd.openxmlformats-package.relationships+xml'],
+      ['xml', 'application/xml'],
+      ['png', 'image/png'],
+      ['jpeg', 'image/jpeg'],
+      ['gif', 'image/gif'],
+      ['bmp', 'image/bmp'],
+      ['svg', 'image/svg+xml'],
+    ];
+    return (
+      XML_HEADER +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      defaults
+        .map(([extension, type]) => `<Default Extension="${extension}" ContentType="${type}"/>`)
+        .join('') +
+      overrides
+        .map(([part, type]) => `<Override PartName="${part}" ContentType="${type}"/>`)
+        .join('') +
+      '</Types>'
+    );
+  }
+
+  private slideMasterXml(theme: SlideTheme): string {
+    const textFill = solidFill(theme.textColor);
+    return (
+      XML_HEADER +
+      `<p:sldMaster ${PML_NAMESPACES}><p:cSld>` +
+      `<p:bg><p:bgPr>${solidFill(theme.background)}<a:effectLst/></p:bgPr></p:bg>` +
+      `<p:spTree>${GROUP_PROPERTIES}` +
+      placeholderShape(
+        2,
+        'Title Placeholder 1',
+        '<p:ph type="title"/>',
+        { x: MARGIN_X, y: TITLE_TOP, cx: CONTENT_WIDTH, cy: TITLE_HEIGHT },
+        '<a:bodyPr anchor="b"><a:normAutofit/></a:bodyPr>',
+        '<a:p><a:endParaRPr lang="en-US"/></a:p>'
+      ) +
+      placeholderShape(
+        3,
+        'Text Placeholder 2',
+        '<p:ph type="body" idx="1"/>',
+        { x: MARGIN_X, y: BODY_TOP, cx: CONTENT_WIDTH, cy: BODY_BOTTOM - BODY_TOP },
+        '<a:bodyPr><a:normAutofit/></a:bodyPr>',
+        '<a:p><a:endParaRPr lang="en-US"/></a:p>'
+      ) +
+      '</p:spTree></p:cSld>' +
+      '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>' +
+      '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/><p:sldLayoutId id="2147483650" r:id="rId2"/></p:sldLayoutIdLst>' +
+      '<p:txStyles>' +
+      `<p:titleStyle><a:lvl1pPr algn="l"><a:defRPr sz="${TITLE_SIZE * 100}" b="1">${solidFill(theme.titleColor)}<a:latin typeface="+mj-lt"/><a:ea typeface="+mj-ea"/><a:cs typeface="+mj-cs"/></a:defRPr></a:lvl1pPr></p:titleStyle>` +
+      `<p:bodyStyle><a:lvl1pPr marL="342900" indent="-285750"><a:spcBef><a:spcPts val="600"/></a:spcBef><a:buFont typeface="Arial"/><a:buChar char="•"/><a:defRPr sz="${BODY_SIZES[0] * 100}">${textFill}<a:latin typeface="+mn-lt"/><a:ea typeface="+mn-ea"/><a:cs typeface="+mn-cs"/></a:defRPr></a:lvl1pPr></p:bodyStyle>` +
+      `<p:otherStyle><a:lvl1pPr><a:defRPr sz="1800">${textFill}<a:latin typeface="+mn-lt"/><a:ea typeface="+mn-ea"/><a:cs typeface="+mn-cs"/></a:defRPr></a:lvl1pPr></p:otherStyle>` +
+      '</p:txStyles></p:sldMaster>'
+    );
+  }
+
+  private titleLayoutXml(theme: SlideTheme): string {
+    const colors = theme.titleSlide;
+    return (
+      XML_HEADER +
+      `<p:sldLayout ${PML_NAMESPACES} type="title" preserve="1"><p:cSld name="Title Slide">` +
+      `<p:bg><p:bgPr>${solidFill(colors.background)}<a:effectLst/></p:bgPr></p:bg>` +
+      `<p:spTree>${GROUP_PROPERTIES}` +
+      placeholderShape(
+        2,
+        'Title 1',
+        '<p:ph type="ctrTitle"/>',
+        { x: MARGIN_X, y: 1600200, cx: CONTENT_WIDTH, cy: 1828800 },
+        '<a:bodyPr anchor="b"><a:normAutofit/></a:bodyPr>',
+        '<a:p><a:endParaRPr lang="en-US"/></a:p>',
+        `<a:lstStyle><a:lvl1pPr algn="ctr"><a:defRPr sz="${TITLE_SLIDE_SIZE * 100}">${solidFill(colors.titleColor)}</a:defRPr></a:lvl1pPr></a:lstStyle>`
+      ) +
+      placeholderShape(
+        3,
+        'Subtitle 2',
+        '<p:ph type="subTitle" idx="1"/>',
+        { x: MARGIN_X, y: 3611880, cx: CONTENT_WIDTH, cy: 1600200 },
+        '<a:bodyPr><a:normAutofit/></a:bodyPr>',
+        '<a:p><a:endParaRPr lang="en-US"/></a:p>',
+        `<a:lstStyle><a:lvl1pPr marL="0" indent="0" algn="ctr"><a:buNone/><a:defRPr sz="${SUBTITLE_SIZE * 100}">${solidFill(colors.subtitleColor)}</a:defRPr></a:lvl1pPr></a:lstStyle>`
+      ) +
+      '</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>'
+    );
+  }
+
+  private titleOnlyLayoutXml(): string {
+    return (
+      XML_HEADER +
+      `<p:sldLayout ${PML_NAMESPACES} type="titleOnly" preserve="1"><p:cSld name="Title Only">` +
+      `<p:spTree>${GROUP_PROPERTIES}` +
+      '<p:sp><p:nvSpPr><p:cNvPr id="2" name="Title 1"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr>' +
+      '<p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr><p:spPr/>' +
+      '<p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:endParaRPr lang="en-US"/></a:p></p:txBody></p:sp>' +
+      '</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>'
+    );
+  }
+
+  /**
+   * 获取可用主题列表
+   */
+  getAvailableThemes(): string[] {
+    return Array.from(this.themes.keys());
+  }
+}
+
+interface Box {
+  x: number;
+  y: number;
+  cx: number;
+  cy: number;
+}
+
+/**
+ * 行内词法单元转为文本片段
+ */
+function inlineRuns(tokens: any[], style: Omit<TextRunModel, 'text'> = {}): TextRunModel[] {
+  const runs: TextRunModel[] = [];
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'strong':
+        runs.push(...inlineRuns(token.tokens ?? [], { ...style, bold: true }));
+        break;
+      case 'em':
+        runs.push(...inlineRuns(token.tokens ?? [], { ...style, italic: true }));
+        break;
+      case 'del':
+        runs.push(...inlineRuns(token.tokens ?? [], { ...style, strike: true }));
+        break;
+      case 'link':
+        runs.push(...inlineRuns(token.tokens ?? [], { ...style, href: token.href }));
+        break;
+      case 'codespan':
+        runs.push({ ...style, text: decodeEntities(token.text), code: true });
+        break;
+      case 'br':
+        runs.push({ text: '', break: true });
+        break;
+      case 'image':
+        runs.push({ ...style, text: `[${token.text || path.basename(token.href ?? '')}]` });
+        break;
+      case 'html':
+        runs.push({ ...style, text: stripTags(token.text ?? '') });
+        break;
+      case 'checkbox':
+        break;
+      case 'text':
+        if (token.tokens?.length) {
+          runs.push(...inlineRuns(token.tokens, style));
+          break;
+        }
+      // falls through
+      default:
+        if (token.text) {
+          runs.push({ ...style, text: decodeEntities(token.text).replace(/\s*\n\s*/g, ' ') });
+        }
+    }
+  }
+  return runs.filter(run => run.break || run.text);
+}
+
+/**
+ * 块级词法单元的纯文本（用于备注）
+ */
+function tokenText(token: any): string {
+  switch (token.type) {
+    case 'list':
+      return (token.items ?? [])
+        .map((item: any, index: number) => {
+          const marker = token.ordered ? `${(Number(token.start) || 1) + index}.` : '-';
+          return `${marker} ${item.text}`;
+        })
+        .join('\n');
+    case 'code':
+      return token.text;
+    case 'paragraph':
+    case 'heading':
+    case 'text':
+      return plainText(inlineRuns(token.tokens ?? [{ type: 'text', text: token.text }]));
+    default:
+      return stripTags(token.raw ?? token.text ?? '').trim();
+  }
+}
+
+/**
+ * 备注的续行只能是文字段落：含图片的段落及表格、列表等块元素结束备注
+ */
+function isNoteParagraph(token: any): boolean {
+  if (token.type !== 'paragraph') return false;
+  const inline: any[] = token.tokens ?? [];
+  return !inline.some(child => child.type === 'image');
+}
+
+function plainText(runs: TextRunModel[]): string {
+  return runs.map(run => (run.break ? '\n' : run.text)).join('');
+}
+
+function pushParagraph(blocks: SlideBlock[], paragraph: ParagraphModel): void {
+  if (!paragraph.runs.length && !paragraph.bullet) return;
+  const last = blocks[blocks.length - 1];
+  if (last?.kind === 'text') {
+    last.paragraphs.push(paragraph);
+  } else {
+    blocks.push({ kind: 'text', paragraphs: [paragraph] });
+  }
+}
+
+function paragraphSize(paragraph: ParagraphModel): number {
+  if (paragraph.kind === 'heading') return HEADING_SIZE;
+  return BODY_SIZES[Math.min(paragraph.level, BODY_SIZES.length - 1)];
+}
+
+function paragraphIndent(paragraph: ParagraphModel): number {
+  const base = paragraph.kind === 'quote' ? 457200 : 0;
+  return base + (paragraph.bullet ? 342900 : 0) + paragraph.level * 457200;
+}
+
+/**
+ * 估算换行后的行数：西文字符按 0.55em、CJK 字符按 1em 计宽
+ */
+function wrappedLines(runs: TextRunModel[], width: number, size: number): number {
+  const unitsPerLine = Math.max(4, width / EMU_PER_PT / (size * 0.55));
+  return plainText(runs)
+    .split('\n')
+    .reduce((sum, line) => {
+      let units = 0;
+      for (const char of line) units += /[⺀-￿]/.test(char) ? 1.8 : 1;
+      return sum + Math.max(1, Math.ceil(units / unitsPerLine));
+    }, 0);
+}
+
+function xfrm(box: Box): string {
+  return `<a:xfrm><a:off x="${Math.round(box.x)}" y="${Math.round(box.y)}"/><a:ext cx="${Math.round(box.cx)}" cy="${Math.round(box.cy)}"/></a:xfrm>`;
+}
+
+function solidFill(color: string): string {
+  return `<a:solidFill><a:srgbClr val="${color}"/></a:solidFill>`;
+}
+
+function placeholderShape(
+  id: number,
+  name: string,
+  placeholder: string,
+  box: Box,
+  bodyProperties: string,
+  paragraphs: string,
+  listStyle = '<a:lstStyle/>'
+): string {
+  return (
+    `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${name}"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr>` +
+    `<p:nvPr>${placeholder}</p:nvPr></p:nvSpPr><p:spPr>${xfrm(box)}</p:spPr>` +
+    `<p:txBody>${bodyProperties}${listStyle}${paragraphs}</p:txBody></p:sp>`
+  );
+}
+
+function textShape(
+  id: number,
+  name: string,
+  box: Box,
+  fill: string,
+  bodyProperties: string,
+  paragraphs: string
+): string {
+  return (
+    `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${name}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>` +
+    `<p:spPr>${xfrm(box)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>${fill || '<a:noFill/>'}</p:spPr>` +
+    `<p:txBody>${bodyProperties}<a:lstStyle/>${paragraphs}</p:txBody></p:sp>`
+  );
+}
+
+function slideXml(shapes: string): string {
+  return (
+    XML_HEADER +
+    `<p:sld ${PML_NAMESPACES}><p:cSld><p:spTree>${GROUP_PROPERTIES}${shapes}</p:spTree></p:cSld>` +
+    '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>'
+  );
+}
+
+function notesMasterXml(): string {
+  return (
+    XML_HEADER +
+    `<p:notesMaster ${PML_NAMESPACES}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg>` +
+    `<p:spTree>${GROUP_PROPERTIES}` +
+    '<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr>' +
+    '<p:nvPr><p:ph type="sldImg" idx="2"/></p:nvPr></p:nvSpPr>' +
+    `<p:spPr>${xfrm({ x: 381000, y: 685800, cx: 6096000, cy: 3429000 })}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/>` +
+    '<a:ln w="12700"><a:solidFill><a:prstClr val="black"/></a:solidFill></a:ln></p:spPr></p:sp>' +
+    placeholderShape(
+      3,
+      'Notes Placeholder 2',
+      '<p:ph type="body" sz="quarter" idx="3"/>',
+      { x: 685800, y: 4343400, cx: 5486400, cy: 4114800 },
+      '<a:bodyPr/>',
+      '<a:p><a:endParaRPr lang="en-US"/></a:p>'
+    ) +
+    '</p:spTree></p:cSld>' +
+    '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>' +
+    '<p:notesStyle><a:lvl1pPr marL="0" algn="l"><a:defRPr sz="1200"><a:solidFill><a:schemeClr val="tx1"/></a:solidFill>' +
+    '<a:latin typeface="+mn-lt"/><a:ea typeface="+mn-ea"/><a:cs typeface="+mn-cs"/></a:defRPr></a:lvl1pPr></p:notesStyle>' +
+    '</p:notesMaster>'
+  );
+}
+
+function notesSlideXml(notes: string[]): string {
+  const paragraphs = notes
+    .map(line =>
+      line
+        ? `<a:p><a:r><a:rPr lang="en-US" dirty="0"/><a:t>${escapeXml(line)}</a:t></a:r></a:p>`
+        : '<a:p><a:endParaRPr lang="en-US" dirty="0"/></a:p>'
+    )
+    .join('');
+  return (
+    XML_HEADER +
+    `<p:notes ${PML_NAMESPACES}><p:cSld><p:spTree>${GROUP_PROPERTIES}` +
+    '<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr>' +
+    '<p:nvPr><p:ph type="sldImg"/></p:nvPr></p:nvSpPr><p:spPr/></p:sp>' +
+    '<p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr>' +
+    '<p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:spPr/>' +
+    `<p:txBody><a:bodyPr/><a:lstStyle/>${paragraphs}</p:txBody></p:sp>` +
+    '</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:notes>'
+  );
+}
+
+function themeXml(theme: SlideTheme, name: string): string {
+  const color = (tag: string, value: string) => `<a:${tag}><a:srgbClr val="${value}"/></a:${tag}>`;
+  const font = escapeXml(theme.fontFamily);
+  const fonts = `<a:latin typeface="${font}"/><a:ea typeface=""/><a:cs typeface=""/>`;
+  const phFill = (modifier = '') =>
+    `<a:solidFill><a:schemeClr val="phClr">${modifier}</a:schemeClr></a:solidFill>`;
+  const line = (width: number) => `<a:ln w="${width}">${phFill()}</a:ln>`;
+  return (
+    XML_HEADER +
+    `<a:theme xmlns:a="${NS.a}" name="${escapeXml(name)}"><a:themeElements>` +
+    `<a:clrScheme name="${escapeXml(name)}">` +
+    color('dk1', theme.textColor) +
+    color('lt1', 'FFFFFF') +
+    color('dk2', theme.titleColor) +
+    color('lt2', 'E7E6E6') +
+    color('accent1', theme.accent) +
+    color('accent2', 'ED7D31') +
+    color('accent3', 'A5A5A5') +
+    color('accent4', 'FFC000') +
+    color('accent5', '5B9BD5') +
+    color('accent6', '70AD47') +
+    color('hlink', theme.accent) +
+    color('folHlink', '954F72') +
+    '</a:clrScheme>' +
+    `<a:fontScheme name="${escapeXml(name)}"><a:majorFont>${fonts}</a:majorFont><a:minorFont>${fonts}</a:minorFont></a:fontScheme>` +
+    `<a:fmtScheme name="${escapeXml(name)}">` +
+    `<a:fillStyleLst>${phFill()}${phFill('<a:tint val="50000"/>')}${phFill('<a:shade val="80000"/>')}</a:fillStyleLst>` +
+    `<a:lnStyleLst>${line(6350)}${line(12700)}${line(19050)}</a:lnStyleLst>` +
+    '<a:effectStyleLst><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle></a:effectStyleLst>' +
+    `<a:bgFillStyleLst>${phFill()}${phFill('<a:tint val="95000"/>')}${phFill('<a:shade val="90000"/>')}</a:bgFillStyleLst>` +
+    '</a:fmtScheme></a:themeElements><a:objectDefaults/><a:extraClrSchemeLst/></a:theme>'
+  );
+}
+
+function relationshipsXml(relationships: SlidePart['relationships']): string {
+  return (
+    XML_HEADER +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    relationships
+      .map(
+        rel =>
+          `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${escapeXml(rel.target)}"${rel.external ? ' TargetMode="External"' : ''}/>`
+      )
+      .join('') +
+    '</Relationships>'
+  );
+}
+
+function coreXml(title: string): string {
+  const now = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  return (
+    XML_HEADER +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+    'xmlns:dcmitype="http://purl.org/dc/dcmitype/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    `<dc:title>${escapeXml(title)}</dc:title><dc:creator>doc-ops-mcp</dc:creator>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>` +
+    `<dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>` +
+    '</cp:coreProperties>'
+  );
+}
+
+function appXml(slideCount: number, notesCount: number): string {
+  return (
+    XML_HEADER +
+    '<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties" ' +
+    'xmlns:vt="http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes">' +
+    `<Application>doc-ops-mcp</Application><PresentationFormat>On-screen Show (16:9)</PresentationFormat>` +
+    `<Slides>${slideCount}</Slides><Notes>${notesCount}</Notes></Properties>`
+  );
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, ''));
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+// 同时去除 XML 1.0 不允许的控制字符
+function escapeXml(text: string): string {
+  return text
+    .replace(/[^\P{Cc}\t\n\r\x7f-\x9f]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// 导出便捷函数
+export async function convertMarkdownToPptx(
+  inputPath: string,
+  options: MarkdownToPptxOptions = {}
+): Promise<MarkdownToPptxResult> {
+  const converter = new MarkdownToPptxConverter();
+  return await converter.convertMarkdownToPptx(inputPath, options);
+}
+
+export { MarkdownToPptxConverter, MarkdownToPptxOptions, MarkdownToPptxResult };
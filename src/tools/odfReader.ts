@@ -0,0 +1,719 @@
+/**
+ * OpenDocument 读取器
+ * 解析 ODT/ODS 包中的 content.xml、styles.xml 与 meta.xml，生成与 OOXML 解析器同构的独立 HTML：
+ * 标题、段落样式、列表、表格、图片、超链接和脚注（docx-note-ref / docx-notes 标记）
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import JSZip from 'jszip';
+import * as cheerio from 'cheerio';
+
+interface OdfReadResult {
+  success: boolean;
+  content: string;
+  metadata: Record<string, any>;
+  error?: string;
+}
+
+interface OdfStyle {
+  family: string;
+  parent?: string;
+  displayName: string;
+  text: Record<string, string>; // style:text-properties 转换后的 CSS
+  paragraph: Record<string, string>; // style:paragraph-properties / table-cell-properties 转换后的 CSS
+}
+
+interface OdfNote {
+  kind: 'footnote' | 'endnote';
+  label: string;
+  content: string;
+}
+
+// 行内语义标签，对应的 CSS 不再写入 style 属性
+const SEMANTIC_TEXT: [string, string, string][] = [
+  ['font-weight', 'bold', 'strong'],
+  ['font-style', 'italic', 'em'],
+  ['text-decoration', 'underline', 'u'],
+  ['text-decoration', 'line-through', 's'],
+  ['vertical-align', 'super', 'sup'],
+  ['vertical-align', 'sub', 'sub'],
+];
+
+// 工作表展开重复行列时的上限，防止尾部空白的百万级重复
+const MAX_SHEET_ROWS = 10000;
+const MAX_SHEET_COLUMNS = 1024;
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.bmp': 'image/bmp',
+  '.svg': 'image/svg+xml',
+};
+
+/**
+ * OpenDocument 读取器类
+ */
+class OdfReader {
+  private zip: any = null;
+  private styles = new Map<string, OdfStyle>(); // `${family}:${name}` -> 样式
+  private listStyles = new Map<string, ('ul' | 'ol')[]>(); // 列表样式 -> 各级列表类型
+  private notes: OdfNote[] = [];
+  private images = 0;
+
+  async read(filePath: string): Promise<OdfReadResult> {
+    const extension = path.extname(filePath).toLowerCase().slice(1) || 'odt';
+    try {
+      const data = await fs.readFile(filePath);
+      try {
+        this.zip = await JSZip.loadAsync(data);
+      } catch {
+        throw new Error(`不是有效的 OpenDocument 文件: ${path.basename(filePath)}`);
+      }
+
+      const contentXml = await this.readPart('content.xml');
+      if (!contentXml) {
+        throw new Error('无法找到 content.xml');
+      }
+      const stylesXml = await this.readPart('styles.xml');
+      if (stylesXml) this.loadStyles(cheerio.load(stylesXml, { xmlMode: true }));
+      const $ = cheerio.load(contentXml, { xmlMode: true });
+      this.loadStyles($);
+
+      const meta = await this.readMeta();
+      const spreadsheet = $('office\\:spreadsheet').first();
+      let body: string;
+      let originalFormat = extension;
+      if (spreadsheet.length) {
+        body = await this.renderSpreadsheet(spreadsheet[0]);
+        originalFormat = 'ods';
+      } else {
+        const text = $('office\\:text').first();
+        if (!text.length) {
+          throw new Error('不支持的 OpenDocument 类型：仅支持文本文档和电子表格');
+        }
+        body = (await this.renderBlocks(text[0].children ?? [])) + this.renderNotes();
+        originalFormat = 'odt';
+      }
+
+      return {
+        success: true,
+        content: wrapHtml(body, meta.title),
+        metadata: {
+          ...meta,
+          format: 'html',
+          originalFormat,
+          converter: 'odf-reader',
+          imagesCount: this.images,
+          notesCount: this.notes.length,
+          standalone: true,
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ OpenDocument 读取失败:', error.message);
+      return {
+        success: false,
+        content: '',
+        metadata: { originalFormat: extension, converter: 'odf-reader' },
+        error: error.message,
+      };
+    }
+  }
+
+  private async readPart(part: string): Promise<string | null> {
+    const file = this.zip.file(part);
+    return file ? await file.async('string') : null;
+  }
+
+  private async readMeta(): Promise<Record<string, string>> {
+    const metaXml = await this.readPart('meta.xml');
+    if (!metaXml) return {};
+    const $ = cheerio.load(metaXml, { xmlMode: true });
+    const value = (selector: string) => $(selector).first().text().trim() || undefined;
+    const meta: Record<string, any> = {
+      title: value('dc\\:title'),
+      subject: value('dc\\:subject'),
+      author: value('meta\\:initial-creator') ?? value('dc\\:creator'),
+      created: value('meta\\:creation-date'),
+      modified: value('dc\\:date'),
+    };
+    for (const key of Object.keys(meta)) if (meta[key] === undefined) delete meta[key];
+    return meta;
+  }
+
+  /**
+   * 收集命名样式、自动样式与列表样式
+   */
+  private loadStyles($: any): void {
+    $('style\\:style').each((_: number, node: any) => {
+      const name = node.attribs['style:name'];
+      if (!name) return;
+      const family = node.attribs['style:family'] ?? 'paragraph';
+      const textProps = $(node).children('style\\:text-properties')[0]?.attribs ?? {};
+      const blockProps =
+        $(node).children('style\\:paragraph-properties, style\\:table-cell-properties')[0]
+          ?.attribs ?? {};
+      this.styles.set(`${family}:${name}`, {
+        family,
+        parent: node.attribs['style:parent-style-name'],
+        displayName: node.attribs['style:display-name'] ?? name.replace(/_20_/g, ' '),
+        text: textPropertiesToCss(textProps),
+        paragraph: paragraphPropertiesToCss(blockProps),
+      });
+    });
+
+    $('text\\:list-style').each((_: number, node: any) => {
+      const levels: ('ul' | 'ol')[] = [];
+      $(node)
+        .children()
+        .each((__: number, level: any) => {
+          const index = Number(level.attribs['text:level'] ?? 1) - 1;
+          levels[index] = level.name === 'text:list-level-style-number' ? 'ol' : 'ul';
+        });
+      this.listStyles.set(node.attribs['style:name'], levels);
+    });
+  }
+
+  /**
+   * 沿父样式链合并 CSS，子样式优先
+   */
+  private resolveStyle(
+    family: string,
+    name: string | undefined
+  ): { text: Record<string, string>; paragraph: Record<string, string>; names: string[] } {
+    const chain: OdfStyle[] = [];
+    const seen = new Set<string>();
+    let current = name;
+    while (current && !seen.has(current)) {
+      seen.add(current);
+      const style = this.styles.get(`${family}:${current}`);
+      if (!style) break;
+      chain.unshift(style);
+      current = style.parent;
+    }
+    return {
+      text: Object.assign({}, ...chain.map(style => style.text)),
+      paragraph: Object.assign({}, ...chain.map(style => style.paragraph)),
+      names: chain.map(style => style.displayName.toLowerCase()),
+    };
+  }
+
+  private async renderBlocks(nodes: any[], listDepth = 0, listStyle?: string): Promise<string> {
+    const parts: string[] = [];
+    for (const node of nodes) {
+      if (node.type !== 'tag') continue;
+      switch (node.name) {
+        case 'text:h': {
+          const level = Math.min(Math.max(Number(node.attribs['text:outline-level'] ?? 1), 1), 6);
+          const content = await this.renderInline(node.children ?? []);
+          const align = this.resolveStyle('paragraph', node.attribs['text:style-name']).paragraph[
+            'text-align'
+          ];
+          const style = align ? ` style="text-align: ${align}"` : '';
+          if (content.trim()) parts.push(`<h${level}${style}>${content.trim()}</h${level}>`);
+          break;
+        }
+        case 'text:p':
+          parts.push(await this.renderParagraph(node));
+          break;
+        case 'text:list':
+          parts.push(await this.renderList(node, listDepth, listStyle));
+          break;
+        case 'table:table':
+          parts.push(await this.renderTable(node));
+          break;
+        case 'draw:frame':
+        case 'draw:a': {
+          const content = await this.renderInline([node]);
+          if (content) parts.push(`<p>${content}</p>`);
+          break;
+        }
+        case 'text:section':
+        case 'text:index-body':
+        case 'text:table-of-content':
+        case 'text:illustration-index':
+        case 'text:alphabetical-index':
+        case 'text:bibliography':
+          parts.push(await this.renderBlocks(node.children ?? [], listDepth, listStyle));
+          break;
+        default:
+          // 声明、修订记录、表单等非正文元素
+          break;
+      }
+    }
+    // 相邻的预格式段落与引用段落合并为一个块
+    return parts
+      .filter(Boolean)
+      .join('\n')
+      .replace(/<\/pre>\n<pre>/g, '\n')
+      .replace(/<\/blockquote>\n<blockquote>/g, '\n');
+  }
+
+  private async renderParagraph(node: any): Promise<string> {
+    const style = this.resolveStyle('paragraph', node.attribs['text:style-name']);
+    const preformatted = style.names.some(name => /preformatted text|source text/.test(name));
+    const content = await this.renderInline(node.children ?? [], preformatted);
+    if (!content.trim()) return '';
+
+    const heading = style.names
+      .map(name => /^heading (\d)$/.exec(name)?.[1] ?? (name === 'title' ? '1' : null))
+      .filter(Boolean)
+      .pop();
+    if (heading) {
+      return `<h${heading}>${content.trim()}</h${heading}>`;
+    }
+    if (preformatted) {
+      return `<pre>${content}</pre>`;
+    }
+    const css = cssToString({ ...style.paragraph, ...nonSemanticCss(style.text) });
+    const paragraph = `<p${css ? ` style="${css}"` : ''}>${wrapSemantic(content.trim(), style.text)}</p>`;
+    return style.names.includes('quotations') ? `<blockquote>${paragraph}</blockquote>` : paragraph;
+  }
+
+  private async renderList(node: any, depth: number, inheritedStyle?: string): Promise<string> {
+    const styleName = node.attribs['text:style-name'] ?? inheritedStyle;
+    const tag = (styleName && this.listStyles.get(styleName)?.[depth]) ?? 'ul';
+    const items: string[] = [];
+    for (const item of node.children ?? []) {
+      if (item.type !== 'tag' || !/^text:list-(item|header)$/.test(item.name)) continue;
+      const inline: string[] = [];
+      const nested: string[] = [];
+      for (const child of item.children ?? []) {
+        if (child.type !== 'tag') continue;
+        if (child.name === 'text:list') {
+          nested.push(await this.renderList(child, depth + 1, styleName));
+        } else if (child.name === 'text:p' || child.name === 'text:h') {
+          const content = (await this.renderInline(child.children ?? [])).trim();
+          if (content) inline.push(content);
+        } else {
+          nested.push(await this.renderBlocks([child], depth + 1, styleName));
+        }
+      }
+      items.push(`<li>${inline.join('<br>')}${nested.join('')}</li>`);
+    }
+    return items.length ? `<${tag}>${items.join('')}</${tag}>` : '';
+  }
+
+  private async renderTable(node: any): Promise<string> {
+    const rows: string[] = [];
+    const walkRows = async (nodes: any[], header: boolean) => {
+      for (const child of nodes) {
+        if (child.type !== 'tag') continue;
+        if (child.name === 'table:table-row') {
+          rows.push(await this.renderTableRow(child, header));
+        } else if (child.name === 'table:table-header-rows') {
+          await walkRows(child.children ?? [], true);
+        } else if (child.name === 'table:table-rows' || child.name === 'table:table-row-group') {
+          await walkRows(child.children ?? [], header);
+        }
+      }
+    };
+    await walkRows(node.children ?? [], false);
+    return rows.length ? `<table>\n${rows.join('\n')}\n</table>` : '';
+  }
+
+  private async renderTableRow(row: any, header: boolean): Promise<string> {
+    const cells: string[] = [];
+    const tag = header ? 'th' : 'td';
+    for (const cell of row.children ?? []) {
+      if (cell.type !== 'tag' || cell.name !== 'table:table-cell') continue;
+      const style = this.resolveStyle('table-cell', cell.attribs['table:style-name']);
+      const colspan = Number(cell.attribs['table:number-columns-spanned'] ?? 1);
+      const rowspan = Number(cell.attribs['table:number-rows-spanned'] ?? 1);
+      const css = cssToString(style.paragraph);
+      const attributes =
+        (colspan > 1 ? ` colspan="${colspan}"` : '') +
+        (rowspan > 1 ? ` rowspan="${rowspan}"` : '') +
+        (css ? ` style="${css}"` : '');
+      const content = await this.renderBlocks(cell.children ?? []);
+      // 单段落单元格去掉 <p> 包裹，保持表格紧凑
+      const simplified = /^<p>(?:(?!<p[ >]).)*<\/p>$/s.test(content)
+        ? content.slice(3, -4)
+        : content;
+      cells.push(`<${tag}${attributes}>${simplified}</${tag}>`);
+    }
+    return `<tr>${cells.join('')}</tr>`;
+  }
+
+  /**
+   * 电子表格：每个工作表一个标题加表格，裁掉四周的空行空列
+   */
+  private async renderSpreadsheet(spreadsheet: any): Promise<string> {
+    const sections: string[] = [];
+    for (const table of spreadsheet.children ?? []) {
+      if (table.type !== 'tag' || table.name !== 'table:table') continue;
+      const name = table.attribs['table:name'] ?? `Sheet${sections.length + 1}`;
+      const grid: {
+        html: string;
+        numeric: boolean;
+        colspan: number;
+        rowspan: number;
+        covered: boolean;
+      }[][] = [];
+
+      const rowNodes: { node: any; header: boolean }[] = [];
+      const collect = (nodes: any[], header: boolean) => {
+        for (const child of nodes) {
+          if (child.type !== 'tag') continue;
+          if (child.name === 'table:table-row') rowNodes.push({ node: child, header });
+          else if (/^table:table-(header-rows|rows|row-group)$/.test(child.name)) {
+            collect(child.children ?? [], header || child.name === 'table:table-header-rows');
+          }
+        }
+      };
+      collect(table.children ?? [], false);
+
+      for (const { node } of rowNodes) {
+        const cells: (typeof grid)[number] = [];
+        for (const cell of node.children ?? []) {
+          if (cell.type !== 'tag' || !/^table:(covered-)?table-cell$/.test(cell.name)) continue;
+          const covered = cell.name === 'table:covered-table-cell';
+          const html = covered ? '' : await this.renderCellContent(cell);
+          const valueType = cell.attribs['office:value-type'];
+          const value = {
+            html,
+            numeric: ['float', 'percentage', 'currency'].includes(valueType),
+            colspan: Number(cell.attribs['table:number-columns-spanned'] ?? 1),
+            rowspan: Number(cell.attribs['table:number-rows-spanned'] ?? 1),
+            covered,
+          };
+          const repeat = Number(cell.attribs['table:number-columns-repeated'] ?? 1);
+          for (let i = 0; i < repeat && cells.length < MAX_SHEET_COLUMNS; i++) cells.push(value);
+        }
+        const repeat = Number(node.attribs['table:number-rows-repeated'] ?? 1);
+        for (let i = 0; i < repeat && grid.length < MAX_SHEET_ROWS; i++) grid.push(cells);
+      }
+
+      // 有内容的区域
+      let [top, left, bottom, right] = [Infinity, Infinity, -1, -1];
+      grid.forEach((cells, row) =>
+        cells.forEach((cell, col) => {
+          if (!cell.html) return;
+          top = Math.min(top, row);
+          bottom = Math.max(bottom, row + cell.rowspan - 1);
+          left = Math.min(left, col);
+          right = Math.max(right, col + cell.colspan - 1);
+        })
+      );
+
+      const heading = `<h2>${escapeHtml(name)}</h2>`;
+      if (bottom < 0) {
+        sections.push(
+          `<section class="sheet">\n${heading}\n<p class="empty">（空工作表）</p>\n</section>`
+        );
+        continue;
+      }
+      const rows: string[] = [];
+      for (let row = top; row <= Math.min(bottom, grid.length - 1); row++) {
+        const cells: string[] = [];
+        for (let col = left; col <= right; col++) {
+          const cell = grid[row][col];
+          if (!cell) {
+            cells.push('<td></td>');
+            continue;
+          }
+          if (cell.covered) continue;
+          const attributes =
+            (cell.colspan > 1 ? ` colspan="${cell.colspan}"` : '') +
+            (cell.rowspan > 1 ? ` rowspan="${cell.rowspan}"` : '') +
+            (cell.numeric ? ' class="num"' : '');
+          cells.push(`<td${attributes}>${cell.html}</td>`);
+        }
+        rows.push(`<tr>${cells.join('')}</tr>`);
+      }
+      sections.push(
+        `<section class="sheet">\n${heading}\n<table>\n${rows.join('\n')}\n</table>\n</section>`
+      );
+    }
+    return sections.join('\n');
+  }
+
+  private async renderCellContent(cell: any): Promise<string> {
+    const paragraphs: string[] = [];
+    for (const child of cell.children ?? []) {
+      if (child.type === 'tag' && child.name === 'text:p') {
+        paragraphs.push((await this.renderInline(child.children ?? [])).trim());
+      }
+    }
+    return paragraphs.filter(Boolean).join('<br>');
+  }
+
+  /**
+   * 行内内容；ODF 规定普通段落中的连续空白折叠为一个空格，显式空格由 text:s 表示
+   */
+  private async renderInline(nodes: any[], preformatted = false): Promise<string> {
+    let html = '';
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        html += escapeHtml(preformatted ? node.data : node.data.replace(/[ \t\r\n]+/g, ' '));
+        continue;
+      }
+      if (node.type !== 'tag') continue;
+      switch (node.name) {
+        case 'text:s': {
+          const count = Number(node.attribs['text:c'] ?? 1);
+          html += preformatted ? ' '.repeat(count) : '&nbsp;'.repeat(count);
+          break;
+        }
+        case 'text:tab':
+          html += preformatted ? '\t' : '&emsp;';
+          break;
+        case 'text:line-break':
+          html += preformatted ? '\n' : '<br>';
+          break;
+        case 'text:span': {
+          const style = this.resolveStyle('text', node.attribs['text:style-name']);
+          const content = await this.renderInline(node.children ?? [], preformatted);
+          const css = cssToString(nonSemanticCss(style.text));
+          const wrapped = wrapSemantic(content, style.text);
+          html += css ? `<span style="${css}">${wrapped}</span>` : wrapped;
+          break;
+        }
+        case 'text:a': {
+          const href = node.attribs['xlink:href'] ?? '';
+          const content = await this.renderInline(node.children ?? [], preformatted);
+          html += `<a href="${escapeHtml(href)}">${content}</a>`;
+          break;
+        }
+        case 'text:note':
+          html += await this.renderNoteReference(node);
+          break;
+        case 'draw:frame':
+          html += await this.renderFrame(node);
+          break;
+        case 'draw:a':
+          html += await this.renderInline(node.children ?? [], preformatted);
+          break;
+        case 'office:annotation':
+        case 'office:annotation-end':
+        case 'text:bookmark':
+        case 'text:bookmark-start':
+        case 'text:bookmark-end':
+        case 'text:soft-page-break':
+        case 'text:reference-mark':
+        case 'text:reference-mark-start':
+        case 'text:reference-mark-end':
+          break;
+        default:
+          // 字段（日期、页码、交叉引用等）保留显示文本
+          html += await this.renderInline(node.children ?? [], preformatted);
+      }
+    }
+    return html;
+  }
+
+  private async renderNoteReference(note: any): Promise<string> {
+    const kind = note.attribs['text:note-class'] === 'endnote' ? 'endnote' : 'footnote';
+    const sameKind = this.notes.filter(item => item.kind === kind).length;
+    const label = kind === 'footnote' ? String(sameKind + 1) : toRoman(sameKind + 1);
+    const body = (note.children ?? []).find((child: any) => child.name === 'text:note-body');
+    const content = body ? await this.renderBlocks(body.children ?? []) : '';
+    this.notes.push({ kind, label, content });
+    const anchor = `${kind === 'footnote' ? 'fn' : 'en'}-${label}`;
+    return `<sup class="docx-note-ref"><a href="#${anchor}" id="${anchor}-ref" data-note="${label}">${label}</a></sup>`;
+  }
+
+  private renderNotes(): string {
+    return (['footnote', 'endnote'] as const)
+      .map(kind => {
+        const notes = this.notes.filter(note => note.kind === kind);
+        if (!notes.length) return '';
+        const items = notes.map(note => {
+          const anchor = `${kind === 'footnote' ? 'fn' : 'en'}-${note.label}`;
+          const backref = `<a href="#${anchor}-ref" class="docx-note-backref">↩</a>`;
+          return `<li id="${anchor}" data-note="${note.label}">${note.content} ${backref}</li>`;
+        });
+        const listType = kind === 'footnote' ? '' : ' type="i"';
+        return `\n<section class="docx-notes docx-${kind}s">\n<hr>\n<ol${listType}>\n${items.join('\n')}\n</ol>\n</section>`;
+      })
+      .join('');
+  }
+
+  /**
+   * 图片框：嵌入包内图片为 data URI；文本框按行内内容展开
+   */
+  private async renderFrame(frame: any): Promise<string> {
+    const children = (frame.children ?? []).filter((child: any) => child.type === 'tag');
+    const alt =
+      children.find((child: any) => child.name === 'svg:title' || child.name === 'svg:desc')
+        ?.children?.[0]?.data ?? '';
+    const image = children.find((child: any) => child.name === 'draw:image');
+    if (image) {
+      const href = image.attribs['xlink:href'] ?? '';
+      const file = this.zip.file(href.replace(/^\.\//, ''));
+      const type = IMAGE_TYPES[path.extname(href).toLowerCase()];
+      if (!file || !type) return alt ? escapeHtml(`[${alt}]`) : '';
+      const data = await file.async('base64');
+      const width = lengthToPixels(frame.attribs['svg:width']);
+      const height = lengthToPixels(frame.attribs['svg:height']);
+      this.images++;
+      return `<img src="data:${type};base64,${data}" alt="${escapeHtml(alt)}"${
+        width ? ` width="${width}"` : ''
+      }${height ? ` height="${height}"` : ''}>`;
+    }
+    const textBox = children.find((child: any) => child.name === 'draw:text-box');
+    if (textBox) {
+      const lines: string[] = [];
+      for (const child of textBox.children ?? []) {
+        if (child.type === 'tag' && (child.name === 'text:p' || child.name === 'text:h')) {
+          const content = (await this.renderInline(child.children ?? [])).trim();
+          if (content) lines.push(content);
+        }
+      }
+      return lines.join('<br>');
+    }
+    return '';
+  }
+}
+
+function textPropertiesToCss(props: Record<string, string>): Record<string, string> {
+  const css: Record<string, string> = {};
+  if (/^(bold|[6-9]00)$/.test(props['fo:font-weight'] ?? '')) css['font-weight'] = 'bold';
+  if (props['fo:font-style'] === 'italic') css['font-style'] = 'italic';
+  const decorations = [
+    props['style:text-underline-style'] && props['style:text-underline-style'] !== 'none'
+      ? 'underline'
+      : '',
+    props['style:text-line-through-style'] && props['style:text-line-through-style'] !== 'none'
+      ? 'line-through'
+      : '',
+  ].filter(Boolean);
+  if (decorations.length) css['text-decoration'] = decorations.join(' ');
+  if (props['fo:color']) css['color'] = props['fo:color'];
+  if (/pt$/.test(props['fo:font-size'] ?? '')) css['font-size'] = props['fo:font-size'];
+  if (props['style:font-name']) css['font-family'] = `'${props['style:font-name']}'`;
+  const background = props['fo:background-color'];
+  if (background && background !== 'transparent') css['background-color'] = background;
+  const position = props['style:text-position'] ?? '';
+  if (/^super|^\d/.test(position) && !/^0%?\b/.test(position)) css['vertical-align'] = 'super';
+  else if (/^sub|^-/.test(position)) css['vertical-align'] = 'sub';
+  return css;
+}
+
+function paragraphPropertiesToCss(props: Record<string, string>): Record<string, string> {
+  const css: Record<string, string> = {};
+  const align: Record<string, string> = {
+    center: 'center',
+    end: 'right',
+    right: 'right',
+    justify: 'justify',
+  };
+  if (align[props['fo:text-align']]) css['text-align'] = align[props['fo:text-align']];
+  if (props['fo:margin-left'] && parseFloat(props['fo:margin-left']) > 0) {
+    css['margin-left'] = props['fo:margin-left'];
+  }
+  if (props['fo:text-indent'] && parseFloat(props['fo:text-indent']) !== 0) {
+    css['text-indent'] = props['fo:text-indent'];
+  }
+  const background = props['fo:background-color'];
+  if (background && background !== 'transparent') css['background-color'] = background;
+  return css;
+}
+
+function nonSemanticCss(css: Record<string, string>): Record<string, string> {
+  const rest = { ...css };
+  delete rest['font-weight'];
+  delete rest['font-style'];
+  delete rest['text-decoration'];
+  delete rest['vertical-align'];
+  return rest;
+}
+
+function wrapSemantic(content: string, css: Record<string, string>): string {
+  let html = content;
+  for (const [property, value, tag] of SEMANTIC_TEXT) {
+    if ((css[property] ?? '').split(' ').includes(value)) html = `<${tag}>${html}</${tag}>`;
+  }
+  return html;
+}
+
+function cssToString(css: Record<string, string>): string {
+  return Object.entries(css)
+    .map(([property, value]) => `${property}: ${value}`)
+    .join('; ')
+    .replace(/"/g, "'");
+}
+
+function lengthToPixels(value: string | undefined): number | null {
+  const match = /^([\d.]+)(cm|mm|in|pt|pc|px)?$/.exec(value ?? '');
+  if (!match) return null;
+  const factors: Record<string, number> = {
+    cm: 96 / 2.54,
+    mm: 96 / 25.4,
+    in: 96,
+    pt: 4 / 3,
+    pc: 16,
+    px: 1,
+  };
+  return Math.round(parseFloat(match[1]) * factors[match[2] ?? 'px']);
+}
+
+function toRoman(index: number): string {
+  const numerals: [number, string][] = [
+    [1000, 'm'],
+    [900, 'cm'],
+    [500, 'd'],
+    [400, 'cd'],
+    [100, 'c'],
+    [90, 'xc'],
+    [50, 'l'],
+    [40, 'xl'],
+    [10, 'x'],
+    [9, 'ix'],
+    [5, 'v'],
+    [4, 'iv'],
+    [1, 'i'],
+  ];
+  let remaining = index;
+  let label = '';
+  for (const [value, numeral] of numerals) {
+    while (remaining >= value) {
+      label += numeral;
+      remaining -= value;
+    }
+  }
+  return label;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function wrapHtml(body: string, title?: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(title ?? 'Document')}</title>
+  <style>
+    body { font-family: "Liberation Serif", "Times New Roman", serif; font-size: 12pt; line-height: 1.5; margin: 24px auto; max-width: 800px; color: #222; }
+    table { border-collapse: collapse; margin: 12px 0; }
+    th, td { border: 1px solid #c0c0c0; padding: 4px 8px; vertical-align: top; }
+    td.num { text-align: right; }
+    pre { background: #f6f8fa; padding: 8px 12px; white-space: pre-wrap; }
+    blockquote { border-left: 3px solid #ccc; margin-left: 0; padding-left: 12px; color: #555; }
+    img { max-width: 100%; height: auto; }
+    .empty { color: #666; font-style: italic; }
+  </style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+/**
+ * 便捷函数：读取 ODT/ODS 文件为 HTML
+ */
+export async function readOdf(filePath: string): Promise<OdfReadResult> {
+  const reader = new OdfReader();
+  return await reader.read(filePath);
+}
+
+export { OdfReader, OdfReadResult };
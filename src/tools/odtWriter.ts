@@ -0,0 +1,730 @@
+/**
+ * ODT 写入器
+ * 将 HTML 转换为 OpenDocument 文本：标题、段落对齐、行内格式、超链接、列表、代码块、引用、
+ * 表格（含合并单元格）、图片和脚注，命名样式写入 styles.xml，行内格式组合生成自动样式
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import JSZip from 'jszip';
+import * as cheerio from 'cheerio';
+import { LoadedImage, loadImage, isRemoteImage } from './imageLoader';
+import { detectLanguage } from './languageDetector';
+
+interface OdtWriterOptions {
+  title?: string;
+  author?: string;
+  language?: string;
+  baseDir?: string; // 相对图片路径的基准目录
+  outputPath?: string;
+  debug?: boolean;
+}
+
+interface OdtWriterResult {
+  success: boolean;
+  content?: Buffer;
+  outputPath?: string;
+  metadata?: {
+    targetFormat: string;
+    converter: string;
+    title: string;
+    paragraphCount: number;
+    tablesCount: number;
+    imagesCount: number;
+    notesCount: number;
+    contentLength: number;
+  };
+  error?: string;
+}
+
+// 行内格式组合，对应一个自动文本样式
+interface InlineFormat {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  position?: 'super' | 'sub';
+  code?: boolean;
+  color?: string;
+}
+
+interface BlockContext {
+  paragraphStyle: string;
+  format: InlineFormat;
+}
+
+const BLOCK_TAGS = new Set([
+  'p',
+  'div',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'ul',
+  'ol',
+  'pre',
+  'blockquote',
+  'table',
+  'hr',
+  'section',
+  'article',
+  'header',
+  'footer',
+  'main',
+  'nav',
+  'aside',
+  'figure',
+  'figcaption',
+  'dl',
+  'dt',
+  'dd',
+  'address',
+  'center',
+]);
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'head', 'title', 'meta', 'link', 'noscript']);
+
+// A4 版心宽度
+const MAX_IMAGE_WIDTH_CM = 17;
+
+const NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+  'xmlns:draw="urn:oasis:names:tc:opendocument:xmlns:drawing:1.0"',
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+  'xmlns:xlink="http://www.w3.org/1999/xlink"',
+  'xmlns:dc="http://purl.org/dc/elements/1.1/"',
+  'xmlns:meta="urn:oasis:names:tc:opendocument:xmlns:meta:1.0"',
+  'xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0"',
+  'xmlns:loext="urn:org:documentfoundation:names:experimental:office:xmlns:loext:1.0"',
+].join(' ');
+
+/**
+ * ODT 写入器类
+ */
+class OdtWriter {
+  private $: any;
+  private baseDir = process.cwd();
+  private textStyles = new Map<string, string>(); // 格式键 -> 自动样式名
+  private paragraphStyles = new Map<string, string>(); // 父样式|对齐 -> 自动样式名
+  private pictures: { name: string; data: Buffer; mediaType: string }[] = [];
+  private imageCache = new Map<string, { name: string; image: LoadedImage }>();
+  private notes = new Map<string, any>(); // 脚注 id -> 脚注内容元素
+  private noteCount = 0;
+  private stats = { paragraphCount: 0, tablesCount: 0 };
+
+  async write(html: string, options: OdtWriterOptions = {}): Promise<OdtWriterResult> {
+    try {
+      this.baseDir = options.baseDir ?? process.cwd();
+      this.$ = cheerio.load(html);
+      const $ = this.$;
+
+      if (options.debug) {
+        console.log('🚀 开始 HTML 到 ODT 转换...');
+      }
+
+      // 脚注区域（OOXML/ODF/RTF 读取器生成的 docx-notes 结构）转为 ODF 原生脚注
+      $('a.docx-note-backref').remove();
+      $('section.docx-notes li[id]').each((_: number, item: any) => {
+        this.notes.set($(item).attr('id'), item);
+      });
+      $('section.docx-notes').remove();
+      // DOCX 页眉页脚只用于打印版面，不作为正文写入
+      $('.docx-header, .docx-footer').remove();
+
+      const title =
+        options.title ??
+        ($('h1').first().text().trim() || $('title').first().text().trim() || 'Document');
+      const body = $('body').length ? $('body')[0] : $.root()[0];
+      const text = await this.blocks(body.children ?? [], {
+        paragraphStyle: 'Text_20_body',
+        format: {},
+      });
+
+      const zip = new JSZip();
+      // mimetype 必须是第一个且不压缩的条目
+      zip.file('mimetype', 'application/vnd.oasis.opendocument.text', { compression: 'STORE' });
+      zip.file('content.xml', this.contentXml(text));
+      zip.file('styles.xml', stylesXml());
+      zip.file(
+        'meta.xml',
+        metaXml(
+          title,
+          options.author,
+          options.language ?? ($('html').attr('lang') || detectLanguage($('body').text()))
+        )
+      );
+      for (const picture of this.pictures) {
+        zip.file(`Pictures/${picture.name}`, picture.data);
+      }
+      zip.file('META-INF/manifest.xml', this.manifestXml());
+      const buffer: Buffer = await zip.generateAsync({
+        type: 'nodebuffer',
+        compression: 'DEFLATE',
+        mimeType: 'application/vnd.oasis.opendocument.text',
+      });
+
+      let outputPath: string | undefined;
+      if (options.outputPath) {
+        outputPath = options.outputPath;
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+        await fs.writeFile(outputPath, buffer);
+        if (options.debug) {
+          console.log('✅ ODT 文件已保存:', outputPath);
+        }
+      }
+
+      return {
+        success: true,
+        content: buffer,
+        outputPath,
+        metadata: {
+          targetFormat: 'odt',
+          converter: 'odt-writer',
+          title,
+          ...this.stats,
+          imagesCount: this.pictures.length,
+          notesCount: this.noteCount,
+          contentLength: buffer.length,
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ HTML 转 ODT 失败:', error.message);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * 块级内容；块容器中的零散行内节点合并为一个隐式段落
+   */
+  private async blocks(nodes: any[], context: BlockContext): Promise<string> {
+    const parts: string[] = [];
+    let inline: any[] = [];
+    const flush = async () => {
+      if (inline.length) parts.push(await this.paragraph(inline, context.paragraphStyle, context));
+      inline = [];
+    };
+
+    for (const node of nodes) {
+      if (node.type === 'tag' && SKIPPED_TAGS.has(node.name)) continue;
+      if (node.type !== 'tag' || !BLOCK_TAGS.has(node.name)) {
+        inline.push(node);
+        continue;
+      }
+      await flush();
+      parts.push(await this.block(node, context));
+    }
+    await flush();
+    return parts.filter(Boolean).join('');
+  }
+
+  private async block(node: any, context: BlockContext): Promise<string> {
+    const $ = this.$;
+    const name = node.name;
+    const children = node.children ?? [];
+
+    if (/^h[1-6]$/.test(name)) {
+      const level = Number(name[1]);
+      const style = this.alignedStyle(`Heading_20_${level}`, node);
+      const content = await this.inline(children, context.format);
+      this.stats.paragraphCount++;
+      return `<text:h text:style-name="${style}" text:outline-level="${level}">${content}</text:h>`;
+    }
+
+    switch (name) {
+      case 'p':
+      case 'dt':
+      case 'address':
+        return await this.paragraph(
+          children,
+          this.alignedStyle(context.paragraphStyle, node),
+          context
+        );
+      case 'figcaption':
+        return await this.paragraph(children, 'Caption', context);
+      case 'dd':
+      case 'blockquote':
+        return await this.blocks(children, { ...context, paragraphStyle: 'Quotations' });
+      case 'pre':
+        return this.preformatted($(node).text());
+      case 'hr':
+        this.stats.paragraphCount++;
+        return '<text:p text:style-name="Horizontal_20_Line"/>';
+      case 'ul':
+      case 'ol':
+        return await this.list(node, context);
+      case 'table':
+        return await this.table(node, context);
+      default:
+        // div、section 等容器
+        return await this.blocks(children, context);
+    }
+  }
+
+  private async paragraph(nodes: any[], style: string, context: BlockContext): Promise<string> {
+    const content = await this.inline(nodes, context.format);
+    // 只有空白的段落不输出（图片、脚注等元素除外）
+    if (!/<draw:frame|<text:note/.test(content) && !content.replace(/<[^>]+>/g, '').trim()) {
+      return '';
+    }
+    this.stats.paragraphCount++;
+    return `<text:p text:style-name="${style}">${content}</text:p>`;
+  }
+
+  /**
+   * 代码块逐行输出，连续空格用 text:s 保留
+   */
+  private preformatted(code: string): string {
+    const lines = code.replace(/\r\n?/g, '\n').replace(/\n$/, '').split('\n');
+    this.stats.paragraphCount += lines.length;
+    return lines
+      .map(line => {
+        const content = escapeXml(line)
+          .replace(/\t/g, '<text:tab/>')
+          .replace(/ {2,}/g, spaces => ` <text:s text:c="${spaces.length - 1}"/>`)
+          .replace(/^ /, '<text:s/>');
+        return `<text:p text:style-name="Preformatted_20_Text">${content}</text:p>`;
+      })
+      .join('');
+  }
+
+  private async list(node: any, context: BlockContext): Promise<string> {
+    const style = node.name === 'ol' ? 'Numbering_20_123' : 'List_20_1';
+    const items: string[] = [];
+    for (const item of node.children ?? []) {
+      if (item.type !== 'tag' || item.name !== 'li') continue;
+      const content = await this.blocks(item.children ?? [], {
+        ...context,
+        paragraphStyle: 'List_20_Paragraph',
+      });
+      items.push(
+        `<text:list-item>${content || '<text:p text:style-name="List_20_Paragraph"/>'}</text:list-item>`
+      );
+    }
+    return items.length
+      ? `<text:list text:style-name="${style}">${items.join('')}</text:list>`
+      : '';
+  }
+
+  /**
+   * 表格：rowspan/colspan 展开为网格，被合并的位置写入 covered-table-cell
+   */
+  private async table(node: any, context: BlockContext): Promise<string> {
+    const $ = this.$;
+    const rows = $(node)
+      .find('tr')
+      .filter((_: number, row: any) => $(row).closest('table')[0] === node);
+    const headerRows: string[] = [];
+    const bodyRows: string[] = [];
+    const occupied: boolean[][] = [];
+    let columns = 0;
+
+    for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+      const row = rows[rowIndex];
+      const cells: string[] = [];
+      occupied[rowIndex] = occupied[rowIndex] ?? [];
+      let column = 0;
+      const cellNodes = (row.children ?? []).filter(
+        (cell: any) => cell.type === 'tag' && (cell.name === 'td' || cell.name === 'th')
+      );
+      for (const cell of cellNodes) {
+        while (occupied[rowIndex][column]) {
+          cells.push('<table:covered-table-cell/>');
+          column++;
+        }
+        const colspan = Math.max(Number($(cell).attr('colspan')) || 1, 1);
+        const rowspan = Math.max(Number($(cell).attr('rowspan')) || 1, 1);
+        for (let r = rowIndex; r < rowIndex + rowspan; r++) {
+          occupied[r] = occupied[r] ?? [];
+          for (let c = column; c < column + colspan; c++) occupied[r][c] = true;
+        }
+        const isHeader = cell.name === 'th';
+        let content = await this.blocks(cell.children ?? [], {
+          paragraphStyle: this.alignedStyle(
+            isHeader ? 'Table_20_Heading' : 'Table_20_Contents',
+            cell
+          ),
+          format: context.format,
+        });
+        if (!content) content = '<text:p text:style-name="Table_20_Contents"/>';
+        const spans =
+          (colspan > 1 ? ` table:number-columns-spanned="${colspan}"` : '') +
+          (rowspan > 1 ? ` table:number-rows-spanned="${rowspan}"` : '');
+        cells.push(
+          `<table:table-cell table:style-name="TableCell" office:value-type="string"${spans}>${content}</table:table-cell>`
+        );
+        for (let c = 1; c < colspan; c++) cells.push('<table:covered-table-cell/>');
+        column += colspan;
+      }
+      while (occupied[rowIndex][column]) {
+        cells.push('<table:covered-table-cell/>');
+        column++;
+      }
+      columns = Math.max(columns, column);
+      const xml = `<table:table-row>${cells.join('')}</table:table-row>`;
+      const inHead = $(row).parent().is('thead');
+      const allHeaders = cellNodes.length > 0 && cellNodes.every((cell: any) => cell.name === 'th');
+      if ((inHead || allHeaders) && bodyRows.length === 0) headerRows.push(xml);
+      else bodyRows.push(xml);
+    }
+    if (!columns) return '';
+
+    this.stats.tablesCount++;
+    const name = `Table${this.stats.tablesCount}`;
+    return (
+      `<table:table table:name="${name}" table:style-name="Table">` +
+      `<table:table-column table:number-columns-repeated="${columns}"/>` +
+      (headerRows.length
+        ? `<table:table-header-rows>${headerRows.join('')}</table:table-header-rows>`
+        : '') +
+      bodyRows.join('') +
+      '</table:table>'
+    );
+  }
+
+  /**
+   * 行内内容：格式沿元素嵌套累积，文本按格式组合套用自动样式
+   */
+  private async inline(nodes: any[], format: InlineFormat): Promise<string> {
+    const $ = this.$;
+    let xml = '';
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        // 仅折叠 HTML 空白字符，保留不换行空格等
+        const text = node.data.replace(/[ \t\n\r\f]+/g, ' ');
+        if (!text) continue;
+        xml += this.span(escapeXml(text), format);
+        continue;
+      }
+      if (node.type !== 'tag' || SKIPPED_TAGS.has(node.name)) continue;
+      const children = node.children ?? [];
+      switch (node.name) {
+        case 'br':
+          xml += '<text:line-break/>';
+          break;
+        case 'strong':
+        case 'b':
+          xml += await this.inline(children, { ...format, bold: true });
+          break;
+        case 'em':
+        case 'i':
+        case 'cite':
+        case 'var':
+          xml += await this.inline(children, { ...format, italic: true });
+          break;
+        case 'u':
+        case 'ins':
+          xml += await this.inline(children, { ...format, underline: true });
+          break;
+        case 's':
+        case 'del':
+        case 'strike':
+          xml += await this.inline(children, { ...format, strike: true });
+          break;
+        case 'sup': {
+          const noteLink = $(node).hasClass('docx-note-ref') ? $(node).find('a').first() : null;
+          const note = noteLink
+            ? this.notes.get((noteLink.attr('href') ?? '').slice(1))
+            : undefined;
+          xml += note
+            ? await this.note(note, noteLink.text().trim())
+            : await this.inline(children, { ...format, position: 'super' });
+          break;
+        }
+        case 'sub':
+          xml += await this.inline(children, { ...format, position: 'sub' });
+          break;
+        case 'code':
+        case 'kbd':
+        case 'samp':
+        case 'tt':
+          xml += await this.inline(children, { ...format, code: true });
+          break;
+        case 'a': {
+          const href = $(node).attr('href');
+          const content = await this.inline(children, format);
+          xml += href
+            ? `<text:a xlink:type="simple" xlink:href="${escapeXml(href)}" text:style-name="Internet_20_link">${content}</text:a>`
+            : content;
+          break;
+        }
+        case 'img':
+          xml += await this.image(node);
+          break;
+        default:
+          xml += await this.inline(children, { ...format, ...styleFormat($(node).attr('style')) });
+      }
+    }
+    return xml;
+  }
+
+  private span(text: string, format: InlineFormat): string {
+    const key = JSON.stringify(
+      Object.fromEntries(
+        Object.entries(format).filter(([, value]) => value !== undefined && value !== false)
+      )
+    );
+    if (key === '{}') return text;
+    let name = this.textStyles.get(key);
+    if (!name) {
+      name = `T${this.textStyles.size + 1}`;
+      this.textStyles.set(key, name);
+    }
+    return `<text:span text:style-name="${name}">${text}</text:span>`;
+  }
+
+  private async note(item: any, label: string): Promise<string> {
+    const $ = this.$;
+    this.noteCount++;
+    const endnote = /^en-/.test($(item).attr('id') ?? '');
+    const body = await this.blocks(item.children ?? [], { paragraphStyle: 'Footnote', format: {} });
+    return (
+      `<text:note text:id="ftn${this.noteCount}" text:note-class="${endnote ? 'endnote' : 'footnote'}">` +
+      `<text:note-citation>${escapeXml(label)}</text:note-citation>` +
+      `<text:note-body>${body || '<text:p text:style-name="Footnote"/>'}</text:note-body></text:note>`
+    );
+  }
+
+  /**
+   * 图片嵌入 Pictures/，按 HTML 尺寸或像素尺寸换算为厘米，宽度不超过版心
+   */
+  private async image(node: any): Promise<string> {
+    const $ = this.$;
+    const src = $(node).attr('src') ?? '';
+    const alt = $(node).attr('alt') ?? '';
+    if (!src || isRemoteImage(src)) {
+      return alt ? escapeXml(`[${alt}]`) : '';
+    }
+    let entry = this.imageCache.get(src);
+    if (!entry) {
+      try {
+        const image = await loadImage(src, this.baseDir);
+        const extension = image.type === 'jpg' ? 'jpg' : image.type;
+        const name = `image${this.pictures.length + 1}.${extension}`;
+        this.pictures.push({ name, data: image.data, mediaType: mediaType(image.type) });
+        entry = { name, image };
+        this.imageCache.set(src, entry);
+      } catch (error: any) {
+        console.warn('⚠️ 图片读取失败:', error.message);
+        return alt ? escapeXml(`[${alt}]`) : '';
+      }
+    }
+
+    const attrWidth = Number($(node).attr('width')) || 0;
+    const attrHeight = Number($(node).attr('height')) || 0;
+    let width = attrWidth || entry.image.width || 300;
+    let height =
+      attrHeight ||
+      (attrWidth && entry.image.width ? (entry.image.height * attrWidth) / entry.image.width : 0) ||
+      entry.image.height ||
+      200;
+    let widthCm = (width / 96) * 2.54;
+    if (widthCm > MAX_IMAGE_WIDTH_CM) {
+      height = (height * MAX_IMAGE_WIDTH_CM) / widthCm;
+      width = (width * MAX_IMAGE_WIDTH_CM) / widthCm;
+      widthCm = MAX_IMAGE_WIDTH_CM;
+    }
+    const heightCm = (height / 96) * 2.54;
+    return (
+      `<draw:frame draw:style-name="Graphics" draw:name="${escapeXml(entry.name)}" text:anchor-type="as-char" ` +
+      `svg:width="${widthCm.toFixed(3)}cm" svg:height="${heightCm.toFixed(3)}cm">` +
+      `<draw:image xlink:href="Pictures/${entry.name}" xlink:type="simple" xlink:show="embed" xlink:actuate="onLoad"/>` +
+      (alt ? `<svg:title>${escapeXml(alt)}</svg:title>` : '') +
+      '</draw:frame>'
+    );
+  }
+
+  /**
+   * 带 text-align 的块元素使用以命名样式为父样式的自动段落样式
+   */
+  private alignedStyle(parent: string, node: any): string {
+    const style = this.$(node).attr('style') ?? '';
+    const alignAttribute = this.$(node).attr('align') ?? '';
+    const align = (
+      /text-align\s*:\s*(left|center|right|justify)/i.exec(style)?.[1] ?? alignAttribute
+    ).toLowerCase();
+    if (!['center', 'right', 'justify'].includes(align)) return parent;
+    const key = `${parent}|${align}`;
+    let name = this.paragraphStyles.get(key);
+    if (!name) {
+      name = `P${this.paragraphStyles.size + 1}`;
+      this.paragraphStyles.set(key, name);
+    }
+    return name;
+  }
+
+  private contentXml(text: string): string {
+    const paragraphStyles = Array.from(this.paragraphStyles.entries()).map(([key, name]) => {
+      const [parent, align] = key.split('|');
+      const foAlign = align === 'right' ? 'end' : align;
+      return `<style:style style:name="${name}" style:family="paragraph" style:parent-style-name="${parent}"><style:paragraph-properties fo:text-align="${foAlign}"/></style:style>`;
+    });
+    const textStyles = Array.from(this.textStyles.entries()).map(([key, name]) => {
+      const format: InlineFormat = JSON.parse(key);
+      const props = [
+        format.bold ? 'fo:font-weight="bold" style:font-weight-asian="bold"' : '',
+        format.italic ? 'fo:font-style="italic" style:font-style-asian="italic"' : '',
+        format.underline
+          ? 'style:text-underline-style="solid" style:text-underline-width="auto" style:text-underline-color="font-color"'
+          : '',
+        format.strike ? 'style:text-line-through-style="solid"' : '',
+        format.position ? `style:text-position="${format.position} 58%"` : '',
+        format.code ? 'style:font-name="Liberation Mono" fo:font-family="\'Liberation Mono\'"' : '',
+        format.color ? `fo:color="${format.color}"` : '',
+      ].filter(Boolean);
+      return `<style:style style:name="${name}" style:family="text"><style:text-properties ${props.join(' ')}/></style:style>`;
+    });
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content ${NAMESPACES} office:version="1.3">
+<office:automatic-styles>
+<style:style style:name="Table" style:family="table"><style:table-properties style:width="17cm" table:align="margins"/></style:style>
+<style:style style:name="TableCell" style:family="table-cell"><style:table-cell-properties fo:padding="0.1cm" fo:border="0.5pt solid #000000"/></style:style>
+<style:style style:name="Graphics" style:family="graphic"><style:graphic-properties style:vertical-pos="top" style:vertical-rel="baseline"/></style:style>
+${paragraphStyles.join('\n')}
+${textStyles.join('\n')}
+</office:automatic-styles>
+<office:body><office:text>${text || '<text:p text:style-name="Standard"/>'}</office:text></office:body>
+</office:document-content>`;
+  }
+
+  private manifestXml(): string {
+    const entries = [
+      '<manifest:file-entry manifest:full-path="/" manifest:version="1.3" manifest:media-type="application/vnd.oasis.opendocument.text"/>',
+      '<manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>',
+      '<manifest:file-entry manifest:full-path="styles.xml" manifest:media-type="text/xml"/>',
+      '<manifest:file-entry manifest:full-path="meta.xml" manifest:media-type="text/xml"/>',
+      ...this.pictures.map(
+        picture =>
+          `<manifest:file-entry manifest:full-path="Pictures/${picture.name}" manifest:media-type="${picture.mediaType}"/>`
+      ),
+    ];
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.3">
+${entries.join('\n')}
+</manifest:manifest>`;
+  }
+}
+
+/**
+ * 从 style 属性中读取可映射的行内格式
+ */
+function styleFormat(style: string | undefined): InlineFormat {
+  if (!style) return {};
+  const format: InlineFormat = {};
+  if (/font-weight\s*:\s*(bold|[6-9]00)/i.test(style)) format.bold = true;
+  if (/font-style\s*:\s*italic/i.test(style)) format.italic = true;
+  if (/text-decoration[^;]*underline/i.test(style)) format.underline = true;
+  if (/text-decoration[^;]*line-through/i.test(style)) format.strike = true;
+  const color = /(?:^|;)\s*color\s*:\s*(#[0-9a-f]{6}|#[0-9a-f]{3})\b/i.exec(style)?.[1];
+  if (color) {
+    format.color =
+      color.length === 4
+        ? `#${color[1]}${color[1]}${color[2]}${color[2]}${color[3]}${color[3]}`
+        : color;
+    format.color = format.color.toLowerCase();
+  }
+  return format;
+}
+
+function mediaType(type: LoadedImage['type']): string {
+  return type === 'jpg' ? 'image/jpeg' : type === 'svg' ? 'image/svg+xml' : `image/${type}`;
+}
+
+function stylesXml(): string {
+  const headingSizes = ['130%', '115%', '101%', '95%', '85%', '85%'];
+  const headings = headingSizes
+    .map(
+      (size, index) =>
+        `<style:style style:name="Heading_20_${index + 1}" style:display-name="Heading ${index + 1}" style:family="paragraph" style:parent-style-name="Heading" style:next-style-name="Text_20_body" style:default-outline-level="${index + 1}" style:class="text"><style:text-properties fo:font-size="${size}" fo:font-weight="bold" style:font-size-asian="${size}" style:font-weight-asian="bold"/></style:style>`
+    )
+    .join('\n');
+  const listLevels = (kind: 'bullet' | 'number') =>
+    Array.from({ length: 10 }, (_, index) => {
+      const level = index + 1;
+      const indent = `<style:list-level-properties text:list-level-position-and-space-mode="label-alignment"><style:list-level-label-alignment text:label-followed-by="listtab" text:list-tab-stop-position="${(level * 0.635).toFixed(3)}cm" fo:text-indent="-0.635cm" fo:margin-left="${(level * 0.635).toFixed(3)}cm"/></style:list-level-properties>`;
+      return kind === 'bullet'
+        ? `<text:list-level-style-bullet text:level="${level}" text:bullet-char="${['•', '◦', '▪'][index % 3]}">${indent}</text:list-level-style-bullet>`
+        : `<text:list-level-style-number text:level="${level}" style:num-suffix="." style:num-format="1">${indent}</text:list-level-style-number>`;
+    }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-styles ${NAMESPACES} office:version="1.3">
+<office:font-face-decls>
+<style:font-face style:name="Liberation Serif" svg:font-family="'Liberation Serif'" style:font-family-generic="roman" style:font-pitch="variable"/>
+<style:font-face style:name="Liberation Sans" svg:font-family="'Liberation Sans'" style:font-family-generic="swiss" style:font-pitch="variable"/>
+<style:font-face style:name="Liberation Mono" svg:font-family="'Liberation Mono'" style:font-family-generic="modern" style:font-pitch="fixed"/>
+</office:font-face-decls>
+<office:styles>
+<style:default-style style:family="paragraph"><style:paragraph-properties style:writing-mode="page"/><style:text-properties style:font-name="Liberation Serif" fo:font-size="12pt" style:font-size-asian="12pt" fo:language="en" fo:country="US"/></style:default-style>
+<style:style style:name="Standard" style:family="paragraph" style:class="text"/>
+<style:style style:name="Text_20_body" style:display-name="Text body" style:family="paragraph" style:parent-style-name="Standard" style:class="text"><style:paragraph-properties fo:margin-top="0cm" fo:margin-bottom="0.247cm" fo:line-height="115%"/></style:style>
+<style:style style:name="Heading" style:family="paragraph" style:parent-style-name="Standard" style:next-style-name="Text_20_body" style:class="text"><style:paragraph-properties fo:margin-top="0.423cm" fo:margin-bottom="0.212cm" fo:keep-with-next="always"/><style:text-properties style:font-name="Liberation Sans" fo:font-size="14pt"/></style:style>
+${headings}
+<style:style style:name="List_20_Paragraph" style:display-name="List Paragraph" style:family="paragraph" style:parent-style-name="Text_20_body" style:class="list"><style:paragraph-properties fo:margin-bottom="0.1cm"/></style:style>
+<style:style style:name="Quotations" style:family="paragraph" style:parent-style-name="Standard" style:class="html"><style:paragraph-properties fo:margin-left="1cm" fo:margin-right="1cm" fo:margin-top="0cm" fo:margin-bottom="0.247cm"/><style:text-properties fo:color="#555555"/></style:style>
+<style:style style:name="Preformatted_20_Text" style:display-name="Preformatted Text" style:family="paragraph" style:parent-style-name="Standard" style:class="html"><style:paragraph-properties fo:margin-top="0cm" fo:margin-bottom="0cm" fo:background-color="#f6f8fa"/><style:text-properties style:font-name="Liberation Mono" fo:font-size="10pt"/></style:style>
+<style:style style:name="Table_20_Contents" style:display-name="Table Contents" style:family="paragraph" style:parent-style-name="Standard" style:class="extra"/>
+<style:style style:name="Table_20_Heading" style:display-name="Table Heading" style:family="paragraph" style:parent-style-name="Table_20_Contents" style:class="extra"><style:paragraph-properties fo:text-align="center"/><style:text-properties fo:font-weight="bold"/></style:style>
+<style:style style:name="Caption" style:family="paragraph" style:parent-style-name="Standard" style:class="extra"><style:paragraph-properties fo:margin-top="0.212cm" fo:margin-bottom="0.212cm"/><style:text-properties fo:font-size="10pt" fo:font-style="italic"/></style:style>
+<style:style style:name="Footnote" style:family="paragraph" style:parent-style-name="Standard" style:class="extra"><style:text-properties fo:font-size="10pt"/></style:style>
+<style:style style:name="Horizontal_20_Line" style:display-name="Horizontal Line" style:family="paragraph" style:parent-style-name="Standard" style:class="html"><style:paragraph-properties fo:margin-bottom="0.5cm" fo:border-bottom="0.5pt solid #808080" fo:padding="0cm"/><style:text-properties fo:font-size="6pt"/></style:style>
+<style:style style:name="Internet_20_link" style:display-name="Internet link" style:family="text"><style:text-properties fo:color="#000080" style:text-underline-style="solid" style:text-underline-width="auto" style:text-underline-color="font-color"/></style:style>
+<text:list-style style:name="List_20_1" style:display-name="List 1">${listLevels('bullet')}</text:list-style>
+<text:list-style style:name="Numbering_20_123" style:display-name="Numbering 123">${listLevels('number')}</text:list-style>
+<text:outline-style style:name="Outline">${Array.from(
+    { length: 10 },
+    (_, index) => `<text:outline-level-style text:level="${index + 1}" style:num-format=""/>`
+  ).join('')}</text:outline-style>
+<text:notes-configuration text:note-class="footnote" style:num-format="1" text:start-value="0" text:footnotes-position="page" text:start-numbering-at="document"/>
+<text:notes-configuration text:note-class="endnote" style:num-format="i" text:start-value="0"/>
+</office:styles>
+<office:automatic-styles>
+<style:page-layout style:name="pm1"><style:page-layout-properties fo:page-width="21.001cm" fo:page-height="29.7cm" style:print-orientation="portrait" fo:margin-top="2cm" fo:margin-bottom="2cm" fo:margin-left="2cm" fo:margin-right="2cm"/></style:page-layout>
+</office:automatic-styles>
+<office:master-styles>
+<style:master-page style:name="Standard" style:page-layout-name="pm1"/>
+</office:master-styles>
+</office:document-styles>`;
+}
+
+function metaXml(title: string, author: string | undefined, language: string): string {
+  const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-meta ${NAMESPACES} office:version="1.3">
+<office:meta>
+<meta:generator>doc-ops-mcp</meta:generator>
+<dc:title>${escapeXml(title)}</dc:title>
+${author ? `<meta:initial-creator>${escapeXml(author)}</meta:initial-creator><dc:creator>${escapeXml(author)}</dc:creator>` : ''}
+<meta:creation-date>${now}</meta:creation-date>
+<dc:date>${now}</dc:date>
+<dc:language>${escapeXml(language)}</dc:language>
+</office:meta>
+</office:document-meta>`;
+}
+
+// 同时去除 XML 1.0 不允许的控制字符
+function escapeXml(text: string): string {
+  return text
+    .replace(/[^\P{Cc}\t\n\r\x7f-\x9f]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 便捷函数：HTML 转 ODT
+ */
+export async function writeOdt(
+  html: string,
+  options: OdtWriterOptions = {}
+): Promise<OdtWriterResult> {
+  const writer = new OdtWriter();
+  return await writer.write(html, options);
+}
+
+export { OdtWriter, OdtWriterOptions, OdtWriterResult };
@@ -0,0 +1,751 @@
+/**
+ * OMML（Office Math Markup Language）公式转换器
+ * 将 Word 公式 m:oMath / m:oMathPara 转换为 MathML（HTML 输出）和 LaTeX（Markdown 输出）
+ * 公式结构对子元素顺序敏感，因此直接解析原始 XML 片段而不经过 xml2js 对象模式
+ */
+
+// 解析后的 OMML 元素，name 为去掉命名空间前缀的本地名
+interface OmmlNode {
+  name: string;
+  prefix: string;
+  attrs: Record<string, string>;
+  children: OmmlNode[];
+  text: string;
+}
+
+// 转换结果
+interface MathConversion {
+  mathml: string;
+  latex: string;
+  display: boolean;
+}
+
+// 转换上下文：函数名中的文本按正体函数名处理，公式数组中的 & 是对齐标记
+interface LatexContext {
+  functionName?: boolean;
+  equationArray?: boolean;
+}
+
+const MATHML_NS = 'http://www.w3.org/1998/Math/MathML';
+
+// Unicode 符号到 LaTeX 命令
+const LATEX_SYMBOLS: Record<string, string> = {
+  α: '\\alpha',
+  β: '\\beta',
+  γ: '\\gamma',
+  δ: '\\delta',
+  ϵ: '\\epsilon',
+  ε: '\\varepsilon',
+  ζ: '\\zeta',
+  η: '\\eta',
+  θ: '\\theta',
+  ϑ: '\\vartheta',
+  ι: '\\iota',
+  κ: '\\kappa',
+  λ: '\\lambda',
+  μ: '\\mu',
+  ν: '\\nu',
+  ξ: '\\xi',
+  π: '\\pi',
+  ϖ: '\\varpi',
+  ρ: '\\rho',
+  ϱ: '\\varrho',
+  σ: '\\sigma',
+  ς: '\\varsigma',
+  τ: '\\tau',
+  υ: '\\upsilon',
+  ϕ: '\\phi',
+  φ: '\\varphi',
+  χ: '\\chi',
+  ψ: '\\psi',
+  ω: '\\omega',
+  Γ: '\\Gamma',
+  Δ: '\\Delta',
+  Θ: '\\Theta',
+  Λ: '\\Lambda',
+  Ξ: '\\Xi',
+  Π: '\\Pi',
+  Σ: '\\Sigma',
+  Υ: '\\Upsilon',
+  Φ: '\\Phi',
+  Ψ: '\\Psi',
+  Ω: '\\Omega',
+  '×': '\\times',
+  '÷': '\\div',
+  '·': '\\cdot',
+  '⋅': '\\cdot',
+  '±': '\\pm',
+  '∓': '\\mp',
+  '−': '-',
+  '∗': '\\ast',
+  '≤': '\\leq',
+  '≥': '\\geq',
+  '≠': '\\neq',
+  '≈': '\\approx',
+  '≡': '\\equiv',
+  '∼': '\\sim',
+  '≅': '\\cong',
+  '∝': '\\propto',
+  '≪': '\\ll',
+  '≫': '\\gg',
+  '∞': '\\infty',
+  '∂': '\\partial',
+  '∇': '\\nabla',
+  '∈': '\\in',
+  '∉': '\\notin',
+  '∋': '\\ni',
+  '⊂': '\\subset',
+  '⊆': '\\subseteq',
+  '⊃': '\\supset',
+  '⊇': '\\supseteq',
+  '∪': '\\cup',
+  '∩': '\\cap',
+  '∅': '\\emptyset',
+  '∀': '\\forall',
+  '∃': '\\exists',
+  '¬': '\\neg',
+  '∧': '\\wedge',
+  '∨': '\\vee',
+  '⊕': '\\oplus',
+  '⊗': '\\otimes',
+  '∘': '\\circ',
+  '°': '^{\\circ}',
+  '′': "'",
+  '″': "''",
+  '→': '\\rightarrow',
+  '←': '\\leftarrow',
+  '↔': '\\leftrightarrow',
+  '⇒': '\\Rightarrow',
+  '⇐': '\\Leftarrow',
+  '⇔': '\\Leftrightarrow',
+  '↦': '\\mapsto',
+  '…': '\\ldots',
+  '⋯': '\\cdots',
+  '⋮': '\\vdots',
+  '⋱': '\\ddots',
+  '∠': '\\angle',
+  '⊥': '\\perp',
+  '∥': '\\parallel',
+  '∣': '\\mid',
+  ℏ: '\\hbar',
+  ℓ: '\\ell',
+  ℝ: '\\mathbb{R}',
+  ℕ: '\\mathbb{N}',
+  ℤ: '\\mathbb{Z}',
+  ℚ: '\\mathbb{Q}',
+  ℂ: '\\mathbb{C}',
+  '{': '\\{',
+  '}': '\\}',
+  '%': '\\%',
+  '#': '\\#',
+  '&': '\\&',
+  $: '\\$',
+  _: '\\_',
+  '~': '\\sim',
+  '^': '\\hat{}',
+  '\\': '\\backslash',
+  '\u2003': '\\quad',
+  '\u2004': '\\;',
+  '\u2009': '\\,',
+};
+
+// m:scr 字体族到 LaTeX 字体命令
+const SCRIPT_COMMANDS: Record<string, string> = {
+  'double-struck': '\\mathbb',
+  script: '\\mathcal',
+  fraktur: '\\mathfrak',
+  'sans-serif': '\\mathsf',
+  monospace: '\\mathtt',
+};
+
+// n 元运算符，未列出的字符原样输出
+const NARY_OPERATORS: Record<string, string> = {
+  '∑': '\\sum',
+  '∏': '\\prod',
+  '∐': '\\coprod',
+  '∫': '\\int',
+  '∬': '\\iint',
+  '∭': '\\iiint',
+  '∮': '\\oint',
+  '⋃': '\\bigcup',
+  '⋂': '\\bigcap',
+  '⋁': '\\bigvee',
+  '⋀': '\\bigwedge',
+  '⨁': '\\bigoplus',
+  '⨂': '\\bigotimes',
+};
+
+// 定界符，空字符串表示省略该侧
+const LATEX_DELIMITERS: Record<string, string> = {
+  '': '.',
+  '{': '\\{',
+  '}': '\\}',
+  '∣': '|',
+  '‖': '\\|',
+  '⟨': '\\langle',
+  '⟩': '\\rangle',
+  '〈': '\\langle',
+  '〉': '\\rangle',
+  '⌊': '\\lfloor',
+  '⌋': '\\rfloor',
+  '⌈': '\\lceil',
+  '⌉': '\\rceil',
+};
+
+// 重音符号：组合字符 -> [LaTeX 命令, MathML 中使用的非组合字符]
+const ACCENTS: Record<string, [string, string]> = {
+  '̀': ['\\grave', '`'],
+  '́': ['\\acute', '´'],
+  '̂': ['\\hat', '^'],
+  '̃': ['\\tilde', '~'],
+  '̄': ['\\bar', '¯'],
+  '̅': ['\\overline', '¯'],
+  '̆': ['\\breve', '˘'],
+  '̇': ['\\dot', '˙'],
+  '̈': ['\\ddot', '¨'],
+  '̌': ['\\check', 'ˇ'],
+  '⃗': ['\\vec', '→'],
+  '⃖': ['\\overleftarrow', '←'],
+};
+
+// 按正体函数名输出的文本
+const KNOWN_FUNCTIONS = new Set(
+  (
+    'sin cos tan cot sec csc arcsin arccos arctan sinh cosh tanh coth ' +
+    'log ln lg exp lim max min sup inf det gcd deg dim ker arg Pr'
+  ).split(' ')
+);
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+class OmmlConverter {
+  /**
+   * 转换一个 m:oMath 或 m:oMathPara 片段
+   */
+  convert(ommlXml: string): MathConversion {
+    const root = this.parse(ommlXml);
+    const display = root.name === 'oMathPara';
+    const equations = display ? root.children.filter(child => child.name === 'oMath') : [root];
+
+    const mathml = equations
+      .map(equation => this.wrapMathml(equation, display))
+      .join(display ? '\n' : '');
+    const latex = equations.map(equation => this.cleanLatex(this.toLatex(equation))).join(' \\\\ ');
+
+    return { mathml, latex, display };
+  }
+
+  /**
+   * 解析 XML 片段为保留子元素顺序的树
+   */
+  parse(xml: string): OmmlNode {
+    const root: OmmlNode = { name: '', prefix: '', attrs: {}, children: [], text: '' };
+    const stack: OmmlNode[] = [root];
+    const tokenPattern =
+      /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<\/([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = tokenPattern.exec(xml)) !== null) {
+      const current = stack[stack.length - 1];
+      if (match[1]) {
+        if (stack.length > 1) stack.pop();
+      } else if (match[2]) {
+        const [prefix, name] = match[2].includes(':') ? match[2].split(':') : ['', match[2]];
+        const node: OmmlNode = { name, prefix, attrs: {}, children: [], text: '' };
+        const attrPattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+        let attr: RegExpExecArray | null;
+        while ((attr = attrPattern.exec(match[3] || '')) !== null) {
+          const attrName = attr[1].includes(':') ? attr[1].split(':')[1] : attr[1];
+          node.attrs[attrName] = this.decodeEntities(attr[2] ?? attr[3]);
+        }
+        current.children.push(node);
+        if (!match[4]) stack.push(node);
+      } else if (match[5]) {
+        current.text += this.decodeEntities(match[5]);
+      }
+    }
+
+    return root.children[0] || root;
+  }
+
+  /**
+   * 生成 <math> 元素，LaTeX 写入 alttext 供 Markdown 转换使用
+   */
+  wrapMathml(equation: OmmlNode, display: boolean): string {
+    const latex = this.cleanLatex(this.toLatex(equation));
+    return (
+      `<math xmlns="${MATHML_NS}" display="${display ? 'block' : 'inline'}" ` +
+      `alttext="${this.escapeXml(latex)}"><mrow>${this.toMathml(equation)}</mrow></math>`
+    );
+  }
+
+  /**
+   * OMML -> MathML
+   */
+  toMathml(node: OmmlNode): string {
+    if (node.prefix !== 'm' && node.prefix !== '') return '';
+
+    switch (node.name) {
+      case 'oMath':
+      case 'e':
+      case 'num':
+      case 'den':
+      case 'sub':
+      case 'sup':
+      case 'deg':
+      case 'lim':
+      case 'fName':
+      case 'box':
+        return this.mathmlChildren(node);
+      case 'r':
+        return this.mathmlRun(node);
+      case 'f': {
+        const type = this.property(node, 'fPr', 'type');
+        const num = this.mathmlRow(this.child(node, 'num'));
+        const den = this.mathmlRow(this.child(node, 'den'));
+        if (type === 'lin' || type === 'skw') return `${num}<mo>/</mo>${den}`;
+        const thickness = type === 'noBar' ? ' linethickness="0"' : '';
+        return `<mfrac${thickness}>${num}${den}</mfrac>`;
+      }
+      case 'rad': {
+        const base = this.mathmlRow(this.child(node, 'e'));
+        const degree = this.child(node, 'deg');
+        if (this.isOn(this.property(node, 'radPr', 'degHide')) || !this.hasContent(degree)) {
+          return `<msqrt>${base}</msqrt>`;
+        }
+        return `<mroot>${base}${this.mathmlRow(degree)}</mroot>`;
+      }
+      case 'sSub':
+        return `<msub>${this.mathmlRow(this.child(node, 'e'))}${this.mathmlRow(this.child(node, 'sub'))}</msub>`;
+      case 'sSup':
+        return `<msup>${this.mathmlRow(this.child(node, 'e'))}${this.mathmlRow(this.child(node, 'sup'))}</msup>`;
+      case 'sSubSup':
+        return (
+          `<msubsup>${this.mathmlRow(this.child(node, 'e'))}` +
+          `${this.mathmlRow(this.child(node, 'sub'))}${this.mathmlRow(this.child(node, 'sup'))}</msubsup>`
+        );
+      case 'sPre':
+        return (
+          `<mmultiscripts>${this.mathmlRow(this.child(node, 'e'))}<mprescripts/>` +
+          `${this.mathmlRow(this.child(node, 'sub'))}${this.mathmlRow(this.child(node, 'sup'))}</mmultiscripts>`
+        );
+      case 'nary':
+        return this.mathmlNary(node);
+      case 'd':
+        return this.mathmlDelimiter(node);
+      case 'm': {
+        const rows = node.children
+          .filter(row => row.name === 'mr')
+          .map(row => {
+            const cells = row.children.filter(cell => cell.name === 'e');
+            return `<mtr>${cells.map(cell => `<mtd>${this.mathmlRow(cell)}</mtd>`).join('')}</mtr>`;
+          });
+        return `<mtable>${rows.join('')}</mtable>`;
+      }
+      case 'eqArr': {
+        const rows = node.children.filter(row => row.name === 'e');
+        return `<mtable>${rows.map(row => `<mtr><mtd>${this.mathmlRow(row)}</mtd></mtr>`).join('')}</mtable>`;
+      }
+      case 'acc': {
+        const chr = this.property(node, 'accPr', 'chr') ?? '̂';
+        const mark = ACCENTS[chr] ? ACCENTS[chr][1] : chr;
+        return `<mover accent="true">${this.mathmlRow(this.child(node, 'e'))}<mo>${this.escapeXml(mark)}</mo></mover>`;
+      }
+      case 'bar': {
+        const base = this.mathmlRow(this.child(node, 'e'));
+        return this.property(node, 'barPr', 'pos') === 'top'
+          ? `<mover accent="true">${base}<mo>‾</mo></mover>`
+          : `<munder accentunder="true">${base}<mo>_</mo></munder>`;
+      }
+      case 'groupChr': {
+        const chr = this.property(node, 'groupChrPr', 'chr') ?? '⏟';
+        const tag = this.property(node, 'groupChrPr', 'pos') === 'top' ? 'mover' : 'munder';
+        return `<${tag}>${this.mathmlRow(this.child(node, 'e'))}<mo>${this.escapeXml(chr)}</mo></${tag}>`;
+      }
+      case 'limLow':
+        return `<munder>${this.mathmlRow(this.child(node, 'e'))}${this.mathmlRow(this.child(node, 'lim'))}</munder>`;
+      case 'limUpp':
+        return `<mover>${this.mathmlRow(this.child(node, 'e'))}${this.mathmlRow(this.child(node, 'lim'))}</mover>`;
+      case 'func': {
+        const name = this.child(node, 'fName');
+        const nameText = name ? this.plainText(name).trim() : '';
+        const nameMathml =
+          name && name.children.every(child => child.name === 'r' || child.name.endsWith('Pr'))
+            ? `<mi>${this.escapeXml(nameText)}</mi>`
+            : this.mathmlRow(name);
+        return `<mrow>${nameMathml}<mo>&#x2061;</mo>${this.mathmlRow(this.child(node, 'e'))}</mrow>`;
+      }
+      case 'borderBox':
+        return `<menclose notation="box">${this.mathmlRow(this.child(node, 'e'))}</menclose>`;
+      case 'phant':
+        return `<mphantom>${this.mathmlRow(this.child(node, 'e'))}</mphantom>`;
+      default:
+        // 属性元素（*Pr）及未知元素：仅输出其中可能包含的内容
+        return node.name.endsWith('Pr') ? '' : this.mathmlChildren(node);
+    }
+  }
+
+  /**
+   * n 元运算符（求和、积分等）
+   */
+  mathmlNary(node: OmmlNode): string {
+    const chr = this.property(node, 'naryPr', 'chr') ?? '∫';
+    const limLoc =
+      this.property(node, 'naryPr', 'limLoc') ?? (chr.match(/[∫∬∭∮]/) ? 'subSup' : 'undOvr');
+    const hideSub = this.isOn(this.property(node, 'naryPr', 'subHide'));
+    const hideSup = this.isOn(this.property(node, 'naryPr', 'supHide'));
+    const operator = `<mo largeop="true">${this.escapeXml(chr)}</mo>`;
+    const sub = this.mathmlRow(this.child(node, 'sub'));
+    const sup = this.mathmlRow(this.child(node, 'sup'));
+
+    const [both, lower, upper] =
+      limLoc === 'subSup' ? ['msubsup', 'msub', 'msup'] : ['munderover', 'munder', 'mover'];
+    let op = operator;
+    if (!hideSub && !hideSup) op = `<${both}>${operator}${sub}${sup}</${both}>`;
+    else if (!hideSub) op = `<${lower}>${operator}${sub}</${lower}>`;
+    else if (!hideSup) op = `<${upper}>${operator}${sup}</${upper}>`;
+
+    return `<mrow>${op}${this.mathmlRow(this.child(node, 'e'))}</mrow>`;
+  }
+
+  /**
+   * 定界符（括号），多个 m:e 之间插入分隔符
+   */
+  mathmlDelimiter(node: OmmlNode): string {
+    const begin = this.property(node, 'dPr', 'begChr') ?? '(';
+    const end = this.property(node, 'dPr', 'endChr') ?? ')';
+    const separator = this.property(node, 'dPr', 'sepChr') ?? '|';
+    const elements = node.children
+      .filter(child => child.name === 'e')
+      .map(child => this.mathmlRow(child));
+
+    const open = begin ? `<mo fence="true">${this.escapeXml(begin)}</mo>` : '';
+    const close = end ? `<mo fence="true">${this.escapeXml(end)}</mo>` : '';
+    return `<mrow>${open}${elements.join(`<mo separator="true">${this.escapeXml(separator)}</mo>`)}${close}</mrow>`;
+  }
+
+  /**
+   * 文本运行：拆分为标识符、数字和运算符
+   */
+  mathmlRun(node: OmmlNode): string {
+    const text = this.runText(node);
+    const plain = this.isPlainRun(node);
+    const tokens = text.match(/\d+(?:\.\d+)?|[A-Za-zͰ-Ͽ]+|\s+|[\s\S]/gu) || [];
+
+    return tokens
+      .map(token => {
+        if (/^\s+$/.test(token)) return '';
+        if (/^\d/.test(token)) return `<mn>${token}</mn>`;
+        if (/^[A-Za-zͰ-Ͽ]/.test(token)) {
+          if (plain || KNOWN_FUNCTIONS.has(token)) return `<mi>${this.escapeXml(token)}</mi>`;
+          return token
+            .split('')
+            .map(letter => `<mi>${this.escapeXml(letter)}</mi>`)
+            .join('');
+        }
+        return `<mo>${this.escapeXml(token)}</mo>`;
+      })
+      .join('');
+  }
+
+  mathmlChildren(node: OmmlNode): string {
+    return node.children.map(child => this.toMathml(child)).join('');
+  }
+
+  mathmlRow(node: OmmlNode | undefined): string {
+    return node ? `<mrow>${this.mathmlChildren(node)}</mrow>` : '<mrow></mrow>';
+  }
+
+  /**
+   * OMML -> LaTeX
+   */
+  toLatex(node: OmmlNode, context: LatexContext = {}): string {
+    if (node.prefix !== 'm' && node.prefix !== '') return '';
+
+    switch (node.name) {
+      case 'oMath':
+      case 'e':
+      case 'num':
+      case 'den':
+      case 'sub':
+      case 'sup':
+      case 'deg':
+      case 'lim':
+      case 'box':
+        return this.latexChildren(node, context);
+      case 'r':
+        return this.latexRun(node, context);
+      case 'f': {
+        const type = this.property(node, 'fPr', 'type');
+        const num = this.latexChildren(this.child(node, 'num'), context);
+        const den = this.latexChildren(this.child(node, 'den'), context);
+        if (type === 'lin' || type === 'skw') return `${this.group(num)}/${this.group(den)}`;
+        if (type === 'noBar') return `\\genfrac{}{}{0pt}{}{${num}}{${den}}`;
+        return `\\frac{${num}}{${den}}`;
+      }
+      case 'rad': {
+        const base = this.latexChildren(this.child(node, 'e'), context);
+        const degree = this.child(node, 'deg');
+        if (this.isOn(this.property(node, 'radPr', 'degHide')) || !this.hasContent(degree)) {
+          return `\\sqrt{${base}}`;
+        }
+        return `\\sqrt[${this.latexChildren(degree, context)}]{${base}}`;
+      }
+      case 'sSub':
+        return `${this.latexBase(node, context)}_{${this.latexChildren(this.child(node, 'sub'), context)}}`;
+      case 'sSup':
+        return `${this.latexBase(node, context)}^{${this.latexChildren(this.child(node, 'sup'), context)}}`;
+      case 'sSubSup':
+        return (
+          `${this.latexBase(node, context)}_{${this.latexChildren(this.child(node, 'sub'), context)}}` +
+          `^{${this.latexChildren(this.child(node, 'sup'), context)}}`
+        );
+      case 'sPre':
+        return (
+          `{}_{${this.latexChildren(this.child(node, 'sub'), context)}}` +
+          `^{${this.latexChildren(this.child(node, 'sup'), context)}}${this.latexBase(node, context)}`
+        );
+      case 'nary':
+        return this.latexNary(node, context);
+      case 'd':
+        return this.latexDelimiter(node, context);
+      case 'm': {
+        const rows = node.children
+          .filter(row => row.name === 'mr')
+          .map(row =>
+            row.children
+              .filter(cell => cell.name === 'e')
+              .map(cell => this.latexChildren(cell, context))
+              .join(' & ')
+          );
+        return `\\begin{matrix} ${rows.join(' \\\\ ')} \\end{matrix}`;
+      }
+      case 'eqArr': {
+        const rows = node.children
+          .filter(row => row.name === 'e')
+          .map(row => this.latexChildren(row, { ...context, equationArray: true }));
+        return `\\begin{aligned} ${rows.join(' \\\\ ')} \\end{aligned}`;
+      }
+      case 'acc': {
+        const chr = this.property(node, 'accPr', 'chr') ?? '̂';
+        const command = ACCENTS[chr] ? ACCENTS[chr][0] : '\\hat';
+        return `${command}{${this.latexChildren(this.child(node, 'e'), context)}}`;
+      }
+      case 'bar': {
+        const command =
+          this.property(node, 'barPr', 'pos') === 'top' ? '\\overline' : '\\underline';
+        return `${command}{${this.latexChildren(this.child(node, 'e'), context)}}`;
+      }
+      case 'groupChr': {
+        const chr = this.property(node, 'groupChrPr', 'chr') ?? '⏟';
+        const top = this.property(node, 'groupChrPr', 'pos') === 'top';
+        const base = this.latexChildren(this.child(node, 'e'), context);
+        if (chr === '⏟') return `\\underbrace{${base}}`;
+        if (chr === '⏞') return `\\overbrace{${base}}`;
+        return `${top ? '\\overset' : '\\underset'}{${this.latexText(chr, context)}}{${base}}`;
+      }
+      case 'limLow':
+      case 'limUpp': {
+        const base = this.latexChildren(this.child(node, 'e'), context);
+        const limit = this.latexChildren(this.child(node, 'lim'), context);
+        const lower = node.name === 'limLow';
+        // lim、max 及大括号等运算符直接使用上下标
+        if (/^\\(?:lim|max|min|sup|inf|underbrace\{.*\}|overbrace\{.*\})\s*$/.test(base)) {
+          return `${base.trim()}${lower ? '_' : '^'}{${limit}}`;
+        }
+        return `${lower ? '\\underset' : '\\overset'}{${limit}}{${base}}`;
+      }
+      case 'func': {
+        const name = this.latexChildren(this.child(node, 'fName'), {
+          ...context,
+          functionName: true,
+        });
+        return `${name.trim()}{${this.latexChildren(this.child(node, 'e'), context)}}`;
+      }
+      case 'borderBox':
+        return `\\boxed{${this.latexChildren(this.child(node, 'e'), context)}}`;
+      case 'phant':
+        return `\\phantom{${this.latexChildren(this.child(node, 'e'), context)}}`;
+      default:
+        return node.name.endsWith('Pr') ? '' : this.latexChildren(node, context);
+    }
+  }
+
+  /**
+   * n 元运算符：\sum_{...}^{...}{...}
+   */
+  latexNary(node: OmmlNode, context: LatexContext): string {
+    const chr = this.property(node, 'naryPr', 'chr') ?? '∫';
+    const hideSub = this.isOn(this.property(node, 'naryPr', 'subHide'));
+    const hideSup = this.isOn(this.property(node, 'naryPr', 'supHide'));
+
+    let operator = NARY_OPERATORS[chr] || this.latexText(chr, context);
+    if (!hideSub) operator += `_{${this.latexChildren(this.child(node, 'sub'), context)}}`;
+    if (!hideSup) operator += `^{${this.latexChildren(this.child(node, 'sup'), context)}}`;
+    return `${operator}{${this.latexChildren(this.child(node, 'e'), context)}}`;
+  }
+
+  /**
+   * 定界符：\left( ... \middle| ... \right)
+   */
+  latexDelimiter(node: OmmlNode, context: LatexContext): string {
+    const delimiter = (chr: string) => LATEX_DELIMITERS[chr] ?? chr;
+    const begin = delimiter(this.property(node, 'dPr', 'begChr') ?? '(');
+    const end = delimiter(this.property(node, 'dPr', 'endChr') ?? ')');
+    const separator = delimiter(this.property(node, 'dPr', 'sepChr') ?? '|');
+    const elements = node.children
+      .filter(child => child.name === 'e')
+      .map(child => this.latexChildren(child, context));
+
+    return `\\left${begin} ${elements.join(` \\middle${separator} `)} \\right${end}`;
+  }
+
+  /**
+   * 文本运行：正体多字母文本输出为 \mathrm{...}，已知函数名输出为 \sin 等
+   */
+  latexRun(node: OmmlNode, context: LatexContext): string {
+    const text = this.runText(node);
+    const word = text.trim();
+    const properties = this.child(node, 'rPr');
+    if (properties && this.child(properties, 'nor')) return `\\text{${text}}`;
+    if ((context.functionName || this.isPlainRun(node)) && /^[A-Za-z]+$/.test(word)) {
+      if (KNOWN_FUNCTIONS.has(word)) return `\\${word} `;
+      if (word.length > 1)
+        return context.functionName ? `\\operatorname{${word}}` : `\\mathrm{${word}}`;
+    }
+
+    // 字体族与粗体
+    const script = properties ? this.child(properties, 'scr')?.attrs.val : undefined;
+    const bold = properties ? this.child(properties, 'sty')?.attrs.val === 'b' : false;
+    const command = (script && SCRIPT_COMMANDS[script]) || (bold ? '\\mathbf' : '');
+    const latex = this.latexText(text, context);
+    return command && word ? `${command}{${latex.trim()}}` : latex;
+  }
+
+  /**
+   * 普通文本逐字符转义
+   */
+  latexText(text: string, context: LatexContext): string {
+    return Array.from(text)
+      .map(char => {
+        if (char === '&' && context.equationArray) return '&';
+        const symbol = LATEX_SYMBOLS[char];
+        if (!symbol) return char;
+        // 命令后补空格，避免与后续字母粘连
+        return /\\[A-Za-z]+$/.test(symbol) ? `${symbol} ` : symbol;
+      })
+      .join('');
+  }
+
+  latexChildren(node: OmmlNode | undefined, context: LatexContext = {}): string {
+    return node ? node.children.map(child => this.toLatex(child, context)).join('') : '';
+  }
+
+  /**
+   * 上下标的底数，多个记号时加花括号
+   */
+  latexBase(node: OmmlNode, context: LatexContext): string {
+    return this.group(this.latexChildren(this.child(node, 'e'), context));
+  }
+
+  group(latex: string): string {
+    const trimmed = latex.trim();
+    return /^(?:[A-Za-z0-9]|\\[A-Za-z]+)$/.test(trimmed) ? trimmed : `{${trimmed}}`;
+  }
+
+  /**
+   * 整理空白：合并连续空格，去掉花括号和上下标前后的多余空格
+   */
+  cleanLatex(latex: string): string {
+    return latex
+      .replace(/\s+/g, ' ')
+      .replace(/\s+([}_^])/g, '$1')
+      .replace(/\{\s+/g, '{')
+      .trim();
+  }
+
+  child(node: OmmlNode, name: string): OmmlNode | undefined {
+    return node.children.find(child => child.name === name && child.prefix === 'm');
+  }
+
+  /**
+   * 读取属性元素中某个子元素的 m:val，如 m:naryPr/m:chr
+   */
+  property(node: OmmlNode, propertyName: string, name: string): string | undefined {
+    const properties = this.child(node, propertyName);
+    const element = properties ? this.child(properties, name) : undefined;
+    if (!element) return undefined;
+    // 开关属性没有 m:val 时表示开启
+    return element.attrs.val ?? 'on';
+  }
+
+  isOn(value: string | undefined): boolean {
+    return value !== undefined && !['0', 'false', 'off'].includes(value);
+  }
+
+  hasContent(node: OmmlNode | undefined): boolean {
+    return !!node && node.children.some(child => !child.name.endsWith('Pr'));
+  }
+
+  runText(node: OmmlNode): string {
+    return node.children
+      .filter(child => child.name === 't')
+      .map(child => child.text)
+      .join('');
+  }
+
+  plainText(node: OmmlNode): string {
+    if (node.name === 't') return node.text;
+    return node.children.map(child => this.plainText(child)).join('');
+  }
+
+  /**
+   * m:rPr/m:sty="p" 或 m:nor 表示正体文本
+   */
+  isPlainRun(node: OmmlNode): boolean {
+    const properties = this.child(node, 'rPr');
+    if (!properties) return false;
+    const style = this.child(properties, 'sty');
+    return style?.attrs.val === 'p' || !!this.child(properties, 'nor');
+  }
+
+  decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity: string, code: string) => {
+      if (code.startsWith('#x')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+      if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+      return XML_ENTITIES[code] ?? entity;
+    });
+  }
+
+  escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
+
+/**
+ * 便捷函数：转换 OMML 片段
+ */
+export function convertOmml(ommlXml: string): MathConversion {
+  return new OmmlConverter().convert(ommlXml);
+}
+
+export {
+  OmmlConverter,
+  MathConversion,
+  MATHML_NS,
+  LATEX_SYMBOLS,
+  NARY_OPERATORS,
+  LATEX_DELIMITERS,
+  ACCENTS,
+  KNOWN_FUNCTIONS,
+};
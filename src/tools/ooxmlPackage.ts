@@ -0,0 +1,183 @@
+/**
+ * OOXML 包读取工具
+ * 基于 JSZip 与 xml2js 读取 Office Open XML 包中的部件、关系和核心文档属性，供 XLSX/PPTX 读取器共用
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import JSZip from 'jszip';
+import * as xml2js from 'xml2js';
+
+interface PackageRelationship {
+  id: string;
+  type: string;
+  target: string; // 内部关系为包内部件路径（不带前导 /），外部关系为原始地址
+  external: boolean;
+}
+
+interface PackageProperties {
+  title?: string;
+  subject?: string;
+  author?: string;
+  keywords?: string;
+  lastModifiedBy?: string;
+  created?: string;
+  modified?: string;
+}
+
+const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.bmp': 'image/bmp',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.svg': 'image/svg+xml',
+  '.emf': 'image/x-emf',
+  '.wmf': 'image/x-wmf',
+};
+
+/**
+ * OOXML 包类
+ */
+class OoxmlPackage {
+  // 与 OOXMLParser 相同的对象模式：属性合并到元素对象，标签名转为小写
+  private readonly parser = new xml2js.Parser({
+    explicitArray: false,
+    mergeAttrs: true,
+    normalizeTags: true,
+  });
+  private readonly relationshipCache = new Map<string, Map<string, PackageRelationship>>();
+
+  private constructor(private readonly zip: any) {}
+
+  static async load(filePath: string): Promise<OoxmlPackage> {
+    const data = await fs.readFile(filePath);
+    try {
+      return new OoxmlPackage(await JSZip.loadAsync(data));
+    } catch {
+      throw new Error(`不是有效的 Office Open XML 文件: ${path.basename(filePath)}`);
+    }
+  }
+
+  has(part: string): boolean {
+    return this.zip.file(part) !== null;
+  }
+
+  async readText(part: string): Promise<string | null> {
+    const file = this.zip.file(part);
+    return file ? await file.async('string') : null;
+  }
+
+  async readBinary(part: string): Promise<Buffer | null> {
+    const file = this.zip.file(part);
+    return file ? await file.async('nodebuffer') : null;
+  }
+
+  /**
+   * 读取并解析 XML 部件；preprocess 用于解析前调整 XML（如恢复兄弟元素顺序）
+   */
+  async readXml(part: string, preprocess?: (xml: string) => string): Promise<any | null> {
+    const xml = await this.readText(part);
+    if (xml === null) return null;
+    return await this.parser.parseStringPromise(preprocess ? preprocess(xml) : xml);
+  }
+
+  /**
+   * 读取部件的关系，Target 解析为相对包根的部件路径
+   */
+  async relationships(part: string): Promise<Map<string, PackageRelationship>> {
+    const cached = this.relationshipCache.get(part);
+    if (cached) return cached;
+
+    const dir = path.posix.dirname(part);
+    const relsPart = path.posix.join(
+      dir === '.' ? '' : dir,
+      '_rels',
+      `${path.posix.basename(part)}.rels`
+    );
+    const relationships = new Map<string, PackageRelationship>();
+    const rels = await this.readXml(relsPart);
+    for (const rel of asArray(rels?.relationships?.relationship)) {
+      if (!rel?.Id || !rel?.Target) continue;
+      const external = rel.TargetMode === 'External';
+      const target = external
+        ? rel.Target
+        : rel.Target.startsWith('/')
+          ? rel.Target.slice(1)
+          : path.posix.normalize(path.posix.join(dir === '.' ? '' : dir, rel.Target));
+      relationships.set(rel.Id, { id: rel.Id, type: rel.Type ?? '', target, external });
+    }
+    this.relationshipCache.set(part, relationships);
+    return relationships;
+  }
+
+  /**
+   * 按关系类型（类型 URI 的最后一段，如 officeDocument、styles）查找第一个关联部件
+   */
+  async relatedPart(part: string, type: string): Promise<string | null> {
+    for (const rel of (await this.relationships(part)).values()) {
+      if (!rel.external && rel.type.endsWith(`/${type}`)) return rel.target;
+    }
+    return null;
+  }
+
+  /**
+   * 主文档部件，如 xl/workbook.xml、ppt/presentation.xml
+   */
+  async mainPart(fallback: string): Promise<string> {
+    return (await this.relatedPart('', 'officeDocument')) ?? fallback;
+  }
+
+  async properties(): Promise<PackageProperties> {
+    const core = (await this.readXml('docProps/core.xml'))?.['cp:coreproperties'];
+    if (!core) return {};
+    const value = (node: any) => textOf(node).trim() || undefined;
+    return {
+      title: value(core['dc:title']),
+      subject: value(core['dc:subject']),
+      author: value(core['dc:creator']),
+      keywords: value(core['cp:keywords']),
+      lastModifiedBy: value(core['cp:lastmodifiedby']),
+      created: value(core['dcterms:created']),
+      modified: value(core['dcterms:modified']),
+    };
+  }
+}
+
+function asArray<T = any>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * 取元素文本：无属性元素解析为字符串，带属性元素的文本在 _ 中
+ */
+function textOf(node: any): string {
+  if (node === undefined || node === null) return '';
+  if (typeof node === 'string') return node;
+  if (Array.isArray(node)) return node.map(textOf).join('');
+  return typeof node._ === 'string' ? node._ : '';
+}
+
+/**
+ * 解码 OOXML 字符串中的 _xHHHH_ 转义（如 _x000D_）
+ */
+function decodeOoxmlEscapes(text: string): string {
+  return text.replace(/_x([0-9A-Fa-f]{4})_/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function imageContentType(part: string): string {
+  return IMAGE_CONTENT_TYPES[path.posix.extname(part).toLowerCase()] ?? 'application/octet-stream';
+}
+
+export {
+  OoxmlPackage,
+  PackageRelationship,
+  PackageProperties,
+  asArray,
+  textOf,
+  decodeOoxmlEscapes,
+  imageContentType,
+};
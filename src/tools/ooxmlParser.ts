@@ -8,6 +8,8 @@ const fs = require('fs').promises;
 const JSZip = require('jszip');
 const xml2js = require('xml2js');
 import path from 'path';
+import { OmmlConverter, MathConversion } from './ommlConverter';
+import { detectHtmlLanguage } from './languageDetector';
 
 interface StyleDefinition {
   type: string;
@@ -27,10 +29,21 @@ interface NumberingDefinition {
   [level: string]: NumberingLevel;
 }
 
+type RevisionMode = 'accept' | 'reject' | 'markup';
+
+interface RevisionInfo {
+  type: 'ins' | 'del';
+  author: string;
+  date: string;
+  move: boolean; // w:moveFrom / w:moveTo
+}
+
 interface RunNode {
   type: 'run' | 'break';
   text: string;
   style: Record<string, string>;
+  field?: 'page' | 'numpages'; // 页码域，text 为缓存结果
+  revision?: RevisionInfo; // 仅 markup 模式保留
 }
 
 interface ImageNode {
@@ -43,16 +56,30 @@ interface ImageNode {
 interface HyperlinkNode {
   type: 'hyperlink';
   href: string;
-  children: (RunNode | ImageNode)[];
+  children: (RunNode | ImageNode | NoteReferenceNode | MathNode)[];
 }
 
-type ChildNode = RunNode | ImageNode | HyperlinkNode;
+type NoteKind = 'footnote' | 'endnote';
+
+interface NoteReferenceNode {
+  type: 'noteReference';
+  noteType: NoteKind;
+  id: string;
+}
+
+// Office 公式，由 extractEquations 预处理转换
+interface MathNode extends MathConversion {
+  type: 'math';
+}
+
+type ChildNode = RunNode | ImageNode | HyperlinkNode | NoteReferenceNode | MathNode;
 
 interface ParagraphNode {
   type: 'paragraph';
   style: Record<string, string>;
   children: ChildNode[];
   numbering: { numId: string; level: string } | null;
+  styleId?: string;
 }
 
 interface TableCellNode {
@@ -75,6 +102,51 @@ interface TableNode {
   rows: TableRowNode[];
 }
 
+interface DocxComment {
+  id: string;
+  author: string;
+  initials: string;
+  date: string;
+  text: string;
+  anchoredText: string;
+  resolved: boolean;
+  replies: DocxComment[];
+}
+
+interface OOXMLParserOptions {
+  revisionMode?: RevisionMode;
+}
+
+interface SectionBreakNode {
+  type: 'sectionBreak';
+  sectPr: any;
+}
+
+type HeaderFooterVariant = 'default' | 'first' | 'even';
+
+interface HeaderFooterNode {
+  type: 'header' | 'footer';
+  children: (ParagraphNode | TableNode)[];
+}
+
+interface SectionProperties {
+  breakType: 'nextPage' | 'continuous' | 'evenPage' | 'oddPage';
+  pageWidth: number; // pt
+  pageHeight: number; // pt
+  orientation: 'portrait' | 'landscape';
+  margins: {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+    header: number;
+    footer: number;
+  };
+  titlePage: boolean;
+  headers: Partial<Record<HeaderFooterVariant, HeaderFooterNode>>;
+  footers: Partial<Record<HeaderFooterVariant, HeaderFooterNode>>;
+}
+
 class OOXMLParser {
   private parser: any;
   private styles: Record<string, StyleDefinition>;
@@ -88,18 +160,24 @@ class OOXMLParser {
   private outputDir: string;
   private cacheDir: string;
   private imageCache: Map<string, string>; // 图片缓存映射
+  private sections: SectionProperties[];
+  private notes: Record<NoteKind, Map<string, (ParagraphNode | TableNode)[]>>;
+  private noteOrder: Record<NoteKind, string[]>; // 按引用出现顺序编号
+  private revisionMode: RevisionMode;
+  private comments: DocxComment[];
+  private equations: MathConversion[]; // 按占位运行 mathIndex 索引
   // 移除了listCounters，现在使用HTML原生列表功能
 
   private tempImageId = 0;
 
-  constructor() {
+  constructor(options: OOXMLParserOptions = {}) {
+    // 不启用 normalize，以保留 xml:space="preserve" 文本中的空格
     this.parser = new xml2js.Parser({ 
       explicitArray: false, 
       mergeAttrs: true,
-      normalize: true,
-      normalizeTags: true
+      normalizeTags: true,
     });
-    
+
     // 存储解析后的数据
     this.styles = {};
     this.numbering = {};
@@ -107,6 +185,12 @@ class OOXMLParser {
     this.themes = {};
     this.settings = {};
     this.media = {};
+    this.sections = [];
+    this.notes = { footnote: new Map(), endnote: new Map() };
+    this.noteOrder = { footnote: [], endnote: [] };
+    this.revisionMode = options.revisionMode || 'accept';
+    this.comments = [];
+    this.equations = [];
     
     // 样式映射缓存
     this.styleCache = new Map();
@@ -122,7 +206,10 @@ class OOXMLParser {
   /**
    * 主解析入口
    */
-  async parseDocx(docxPath: string, outputDir?: string): Promise<{ html: string; css: string; media: Record<string, any> }> {
+  async parseDocx(
+    docxPath: string,
+    outputDir?: string
+  ): Promise<{ html: string; css: string; media: Record<string, any>; comments: DocxComment[] }> {
     try {
       console.log('🚀 开始自定义OOXML解析器转换...');
       
@@ -156,20 +243,28 @@ class OOXMLParser {
         this.loadMedia(zip)
       ]);
       
+      // 脚注尾注依赖样式与关系，需在上述加载完成后解析
+      await this.loadNotes(zip);
+
       // 3. 解析主文档
       const documentXml = await this.getFileContent(zip, 'word/document.xml');
       if (!documentXml) {
         throw new Error('无法找到主文档 word/document.xml');
       }
-      const document = await this.parseXml(documentXml);
+      const preparedXml = this.preprocessXml(documentXml);
+      const document = await this.parseXml(preparedXml);
+      await this.loadComments(zip, preparedXml);
       
       // 4. 构建DOM树
       const dom = await this.buildDocumentDOM(document);
       
-      // 5. 生成HTML
+      // 5. 解析分节属性与页眉页脚
+      await this.loadSections(zip, document, dom);
+
+      // 6. 生成HTML
       const html = this.renderToHTML(dom);
       
-      // 6. 复制图片到输出目录
+      // 7. 复制图片到输出目录
       await this.copyImagesToOutput();
       
       console.log('✅ 自定义OOXML解析器转换完成');
@@ -178,7 +273,8 @@ class OOXMLParser {
       return {
         html,
         css: this.generateCSS(),
-        media: this.media
+        media: this.media,
+        comments: this.comments,
       };
     } catch (error: any) {
       console.error('❌ OOXML解析器转换失败:', error);
@@ -686,34 +782,43 @@ class OOXMLParser {
         return;
       }
       
-      const result = await this.parseXml(relsXml);
-      
-      // 尝试不同的属性名格式（大小写）
-      let relationshipArray = null;
-      if (result && result['Relationships'] && result['Relationships']['Relationship']) {
-        relationshipArray = result['Relationships']['Relationship'];
-      } else if (result && result['relationships'] && result['relationships']['relationship']) {
-        relationshipArray = result['relationships']['relationship'];
-      }
-      
-      if (relationshipArray) {
-        const relationships = Array.isArray(relationshipArray)
-          ? relationshipArray
-          : [relationshipArray].filter(Boolean);
-          
-        relationships.forEach(rel => {
-          if (rel['Id'] && rel['Target']) {
-            this.relationships[rel['Id']] = rel['Target'];
-          }
-        });
-        
-        console.log(`📊 解析了 ${Object.keys(this.relationships).length} 个关系`);
-      }
+      this.relationships = await this.parseRelationships(relsXml);
+      console.log(`📊 解析了 ${Object.keys(this.relationships).length} 个关系`);
     } catch (e: any) {
       console.log('⚠️ 关系文件解析失败:', e.message);
     }
   }
 
+  /**
+   * 解析关系文件为 Id -> Target 映射
+   */
+  async parseRelationships(relsXml: string): Promise<Record<string, string>> {
+    const result = await this.parseXml(relsXml);
+    const map: Record<string, string> = {};
+
+    // 尝试不同的属性名格式（大小写）
+    let relationshipArray = null;
+    if (result && result['Relationships'] && result['Relationships']['Relationship']) {
+      relationshipArray = result['Relationships']['Relationship'];
+    } else if (result && result['relationships'] && result['relationships']['relationship']) {
+      relationshipArray = result['relationships']['relationship'];
+    }
+
+    if (relationshipArray) {
+      const relationships = Array.isArray(relationshipArray)
+        ? relationshipArray
+        : [relationshipArray].filter(Boolean);
+
+      relationships.forEach(rel => {
+        if (rel['Id'] && rel['Target']) {
+          map[rel['Id']] = rel['Target'];
+        }
+      });
+    }
+
+    return map;
+  }
+
   /**
    * 加载主题定义
    */
@@ -777,6 +882,203 @@ class OOXMLParser {
     }
   }
 
+  /**
+   * 解析分节属性：每个分节符对应一节，body 末尾的 w:sectPr 为最后一节
+   */
+  async loadSections(zip: any, document: any, dom: any[]): Promise<void> {
+    try {
+      const body = document['w:document']['w:body'] || {};
+      const sectPrs = dom.filter(node => node.type === 'sectionBreak').map(node => node.sectPr);
+      sectPrs.push(body['w:sectpr'] || {});
+
+      const evenAndOdd = this.hasEvenAndOddHeaders();
+      const partCache = new Map<string, HeaderFooterNode>();
+
+      this.sections = [];
+      for (const sectPr of sectPrs) {
+        const previous = this.sections[this.sections.length - 1];
+        const section = this.parseSectionProperties(sectPr);
+
+        // 未声明的页眉页脚沿用上一节
+        for (const kind of ['header', 'footer'] as const) {
+          const refs = sectPr[`w:${kind}reference`];
+          const refList = Array.isArray(refs) ? refs : [refs].filter(Boolean);
+          const target = kind === 'header' ? section.headers : section.footers;
+          if (previous) {
+            Object.assign(target, kind === 'header' ? previous.headers : previous.footers);
+          }
+          for (const ref of refList) {
+            const variant: HeaderFooterVariant =
+              ref['w:type'] === 'first' || ref['w:type'] === 'even' ? ref['w:type'] : 'default';
+            if (variant === 'even' && !evenAndOdd) continue;
+            const relId = ref['r:id'];
+            if (!partCache.has(relId)) {
+              const part = await this.loadHeaderFooter(zip, relId, kind);
+              if (part) partCache.set(relId, part);
+            }
+            const part = partCache.get(relId);
+            if (part) target[variant] = part;
+          }
+        }
+
+        this.sections.push(section);
+      }
+
+      console.log(`📊 解析了 ${this.sections.length} 个分节，${partCache.size} 个页眉页脚`);
+    } catch (e: any) {
+      console.log('⚠️ 分节属性解析失败:', e.message);
+      this.sections = [];
+    }
+  }
+
+  /**
+   * 解析 w:sectPr 中的页面尺寸、方向与页边距
+   */
+  parseSectionProperties(sectPr: any): SectionProperties {
+    const pgSz = sectPr['w:pgsz'] || {};
+    const pgMar = sectPr['w:pgmar'] || {};
+    const typeVal = sectPr['w:type'] ? sectPr['w:type']['w:val'] : 'nextPage';
+    // 缺省为 Letter 纸张、1 英寸页边距，与 Word 默认值一致
+    const width = this.twipToPoint(pgSz['w:w'], 612);
+    const height = this.twipToPoint(pgSz['w:h'], 792);
+    const orientation =
+      pgSz['w:orient'] === 'landscape' || width > height ? 'landscape' : 'portrait';
+
+    return {
+      breakType: ['continuous', 'evenPage', 'oddPage'].includes(typeVal) ? typeVal : 'nextPage',
+      pageWidth: width,
+      pageHeight: height,
+      orientation,
+      margins: {
+        top: Math.abs(this.twipToPoint(pgMar['w:top'], 72)),
+        right: this.twipToPoint(pgMar['w:right'], 72),
+        bottom: Math.abs(this.twipToPoint(pgMar['w:bottom'], 72)),
+        left: this.twipToPoint(pgMar['w:left'], 72),
+        header: this.twipToPoint(pgMar['w:header'], 36),
+        footer: this.twipToPoint(pgMar['w:footer'], 36),
+      },
+      titlePage: this.isOnOff(sectPr['w:titlepg']),
+      headers: {},
+      footers: {},
+    };
+  }
+
+  /**
+   * 加载页眉/页脚部件，图片关系使用部件自己的 .rels 文件
+   */
+  async loadHeaderFooter(
+    zip: any,
+    relId: string,
+    kind: 'header' | 'footer'
+  ): Promise<HeaderFooterNode | null> {
+    const target = this.relationships[relId];
+    if (!target) {
+      console.log(`⚠️ 未找到${kind === 'header' ? '页眉' : '页脚'}关系ID: ${relId}`);
+      return null;
+    }
+
+    const partPath = target.startsWith('/') ? target.slice(1) : `word/${target}`;
+    const part = await this.loadPart(zip, partPath);
+    if (!part) {
+      console.log(`⚠️ 未找到部件: ${partPath}`);
+      return null;
+    }
+
+    const root = part[kind === 'header' ? 'w:hdr' : 'w:ftr'] || {};
+    const children = await this.withPartRelationships(zip, partPath, () => this.buildBlocks(root));
+    return { type: kind, children };
+  }
+
+  /**
+   * 读取并解析独立部件（页眉页脚、脚注尾注等）
+   */
+  async loadPart(zip: any, partPath: string): Promise<any | null> {
+    const partXml = await this.getFileContent(zip, partPath);
+    if (!partXml) return null;
+
+    return this.parseXml(this.preprocessXml(partXml));
+  }
+
+  /**
+   * 部件内的关系ID与主文档相互独立，构建期间临时切换关系表和图片缓存
+   */
+  async withPartRelationships<T>(zip: any, partPath: string, build: () => Promise<T>): Promise<T> {
+    const relsPath = path.posix.join(
+      path.posix.dirname(partPath),
+      '_rels',
+      `${path.posix.basename(partPath)}.rels`
+    );
+    const relsXml = await this.getFileContent(zip, relsPath);
+    const partRelationships = relsXml ? await this.parseRelationships(relsXml) : {};
+
+    const documentRelationships = this.relationships;
+    const documentImageCache = this.imageCache;
+    this.relationships = { ...documentRelationships, ...partRelationships };
+    this.imageCache = new Map();
+
+    try {
+      return await build();
+    } finally {
+      for (const [imageRelId, imagePath] of this.imageCache) {
+        documentImageCache.set(`${partPath}#${imageRelId}`, imagePath);
+      }
+      this.relationships = documentRelationships;
+      this.imageCache = documentImageCache;
+    }
+  }
+
+  /**
+   * 构建容器元素中的段落和表格
+   */
+  async buildBlocks(container: any): Promise<(ParagraphNode | TableNode)[]> {
+    const blocks: (ParagraphNode | TableNode)[] = [];
+    const paragraphs = Array.isArray(container['w:p'])
+      ? container['w:p']
+      : [container['w:p']].filter(Boolean);
+    for (const p of paragraphs) {
+      const paragraph = await this.buildParagraph(p);
+      if (paragraph) blocks.push(paragraph);
+    }
+    const tables = Array.isArray(container['w:tbl'])
+      ? container['w:tbl']
+      : [container['w:tbl']].filter(Boolean);
+    for (const tbl of tables) {
+      const table = await this.buildTable(tbl);
+      if (table) blocks.push(table);
+    }
+    return blocks;
+  }
+
+  /**
+   * 加载脚注和尾注，分隔符等非正文注释被忽略
+   */
+  async loadNotes(zip: any): Promise<void> {
+    for (const kind of ['footnote', 'endnote'] as const) {
+      try {
+        const partPath = `word/${kind}s.xml`;
+        const part = await this.loadPart(zip, partPath);
+        if (!part) continue;
+
+        const root = part[`w:${kind}s`] || {};
+        const notes = Array.isArray(root[`w:${kind}`])
+          ? root[`w:${kind}`]
+          : [root[`w:${kind}`]].filter(Boolean);
+        await this.withPartRelationships(zip, partPath, async () => {
+          for (const note of notes) {
+            if (note['w:type'] && note['w:type'] !== 'normal') continue;
+            this.notes[kind].set(String(note['w:id']), await this.buildBlocks(note));
+          }
+        });
+
+        console.log(
+          `📊 解析了 ${this.notes[kind].size} 个${kind === 'footnote' ? '脚注' : '尾注'}`
+        );
+      } catch (e: any) {
+        console.log(`⚠️ ${kind === 'footnote' ? '脚注' : '尾注'}解析失败:`, e.message);
+      }
+    }
+  }
+
   /**
    * 构建文档DOM
    */
@@ -817,6 +1119,7 @@ class OOXMLParser {
         if (element.type === 'paragraph') {
           const paragraph = await this.buildParagraph(element.data);
           if (paragraph) dom.push(paragraph);
+          this.pushSectionBreak(element.data, dom);
         } else if (element.type === 'table') {
           const table = await this.buildTable(element.data);
           if (table) dom.push(table);
@@ -834,12 +1137,24 @@ class OOXMLParser {
     if (element['w:p']) {
       const paragraph = await this.buildParagraph(element['w:p']);
       if (paragraph) dom.push(paragraph);
+      this.pushSectionBreak(element['w:p'], dom);
     } else if (element['w:tbl']) {
       const table = await this.buildTable(element['w:tbl']);
       if (table) dom.push(table);
     }
   }
 
+  /**
+   * 段落属性中的 w:sectPr 表示一个分节符，该段落是上一节的最后一段
+   */
+  pushSectionBreak(p: any, dom: any[]): void {
+    const sectPr = p && p['w:ppr'] ? p['w:ppr']['w:sectpr'] : null;
+    if (sectPr) {
+      const node: SectionBreakNode = { type: 'sectionBreak', sectPr };
+      dom.push(node);
+    }
+  }
+
   /**
    * 构建段落DOM
    */
@@ -865,6 +1180,7 @@ class OOXMLParser {
       // 检查段落样式引用
       if (p['w:ppr']['w:pstyle']) {
         const styleId = p['w:ppr']['w:pstyle']['w:val'];
+        paragraph.styleId = styleId;
         if (this.styles[styleId]) {
           paragraph.style = { ...this.styles[styleId].css, ...paragraph.style };
         }
@@ -874,12 +1190,62 @@ class OOXMLParser {
     // 解析文本内容
     if (p['w:r']) {
       const runs = Array.isArray(p['w:r']) ? p['w:r'] : [p['w:r']].filter(Boolean);
+      // 复杂域：begin -> instrText -> separate -> 缓存结果 -> end
+      let field: { instr: string; node: RunNode | null } | null = null;
       for (const r of runs) {
+        const fldCharType = r['w:fldchar'] ? r['w:fldchar']['w:fldCharType'] : null;
+        if (fldCharType === 'begin') {
+          field = { instr: '', node: null };
+          continue;
+        }
+        if (field && r['w:instrtext']) {
+          field.instr += this.getNodeText(r['w:instrtext']);
+          continue;
+        }
+        if (field && fldCharType === 'separate') {
+          field.node = this.createFieldRun(field.instr, r);
+          if (field.node) paragraph.children.push(field.node);
+          continue;
+        }
+        if (field && fldCharType === 'end') {
+          if (!field.node) {
+            const node = this.createFieldRun(field.instr, r);
+            if (node) paragraph.children.push(node);
+          }
+          field = null;
+          continue;
+        }
+        if (field && field.node) {
+          // 页码域的缓存结果并入域节点
+          field.node.text += this.getNodeText(r['w:t']);
+          continue;
+        }
+
         const run = await this.buildRun(r);
         if (run) paragraph.children.push(run);
       }
     }
     
+    // 简单域，如 <w:fldSimple w:instr="PAGE">
+    if (p['w:fldsimple']) {
+      const fields = Array.isArray(p['w:fldsimple'])
+        ? p['w:fldsimple']
+        : [p['w:fldsimple']].filter(Boolean);
+      for (const fld of fields) {
+        const fieldRuns = Array.isArray(fld['w:r']) ? fld['w:r'] : [fld['w:r']].filter(Boolean);
+        const node = this.createFieldRun(fld['w:instr'] || '', fieldRuns[0]);
+        if (node) {
+          node.text = fieldRuns.map((r: any) => this.getNodeText(r['w:t'])).join('');
+          paragraph.children.push(node);
+        } else {
+          for (const r of fieldRuns) {
+            const run = await this.buildRun(r);
+            if (run) paragraph.children.push(run);
+          }
+        }
+      }
+    }
+
     // 处理特殊元素（如超链接）
     if (p['w:hyperlink']) {
       const hyperlinks = Array.isArray(p['w:hyperlink']) ? p['w:hyperlink'] : [p['w:hyperlink']].filter(Boolean);
@@ -892,6 +1258,36 @@ class OOXMLParser {
     return paragraph;
   }
 
+  /**
+   * 为 PAGE / NUMPAGES 域创建节点，其他域返回 null 以保留其缓存文本
+   */
+  createFieldRun(instr: string, r: any): RunNode | null {
+    const fieldName = instr.trim().split(/\s+/)[0].toUpperCase();
+    const fieldMap: Record<string, RunNode['field']> = {
+      PAGE: 'page',
+      NUMPAGES: 'numpages',
+    };
+    const field = fieldMap[fieldName];
+    if (!field) return null;
+
+    return {
+      type: 'run',
+      text: '',
+      style: r && r['w:rpr'] ? this.parseRunProperties(r['w:rpr']) : {},
+      field,
+    };
+  }
+
+  /**
+   * 读取文本节点内容（字符串或带属性的对象）
+   */
+  getNodeText(node: any): string {
+    if (!node) return '';
+    if (Array.isArray(node)) return node.map(item => this.getNodeText(item)).join('');
+    if (typeof node === 'string') return node;
+    return node['_'] || '';
+  }
+
   /**
    * 解析编号属性
    */
@@ -911,9 +1307,40 @@ class OOXMLParser {
   /**
    * 构建文本运行DOM
    */
-  async buildRun(r: any): Promise<RunNode | ImageNode | null> {
+  async buildRun(r: any): Promise<RunNode | ImageNode | NoteReferenceNode | MathNode | null> {
     if (!r) return null;
     
+    // 修订标记由 markRevisions 预处理写入运行属性
+    const revision: RevisionInfo | null = r['rev']
+      ? {
+          type: r['rev'],
+          author: r['revAuthor'] || '',
+          date: r['revDate'] || '',
+          move: r['revMove'] === '1',
+        }
+      : null;
+    if (revision && this.revisionMode === 'accept' && revision.type === 'del') return null;
+    if (revision && this.revisionMode === 'reject' && (revision.type === 'ins' || r['revInserted']))
+      return null;
+
+    // 公式占位运行
+    if (r['mathIndex'] !== undefined) {
+      const equation = this.equations[Number(r['mathIndex'])];
+      return equation ? { type: 'math', ...equation } : null;
+    }
+
+    // 脚注/尾注引用
+    for (const noteType of ['footnote', 'endnote'] as const) {
+      const reference = r[`w:${noteType}reference`];
+      if (reference) {
+        return { type: 'noteReference', noteType, id: String(reference['w:id']) };
+      }
+      // 注释正文开头的编号标记由渲染时的列表序号代替
+      if (r[`w:${noteType}ref`]) {
+        return null;
+      }
+    }
+
     const run: RunNode = {
       type: 'run',
       text: '',
@@ -944,6 +1371,15 @@ class OOXMLParser {
       }
     }
     
+    // 删除修订中的文本
+    if (r['w:deltext']) {
+      run.text += this.getNodeText(r['w:deltext']);
+    }
+
+    if (revision && this.revisionMode === 'markup') {
+      run.revision = revision;
+    }
+
     // 处理制表符
     if (r['w:tab']) {
       run.text += '\t';
@@ -1342,9 +1778,30 @@ class OOXMLParser {
     const htmlParts: string[] = [];
     const listStack: string[] = []; // 用于跟踪列表嵌套
     let lastWasListItem = false;
+    let sectionIndex = 0;
+    this.noteOrder = { footnote: [], endnote: [] };
+
+    if (this.sections.length > 0) {
+      htmlParts.push(this.renderSectionStart(sectionIndex));
+    }
     
     for (let i = 0; i < dom.length; i++) {
       const node = dom[i];
+
+      // 分节符：关闭当前节的列表和节容器，开始下一节
+      if (node.type === 'sectionBreak') {
+        while (listStack.length > 0) {
+          htmlParts.push(`</${listStack.pop()}>`);
+        }
+        lastWasListItem = false;
+        if (sectionIndex + 1 < this.sections.length) {
+          htmlParts.push(this.renderSectionEnd(sectionIndex));
+          sectionIndex++;
+          htmlParts.push(this.renderSectionStart(sectionIndex));
+        }
+        continue;
+      }
+
       const html = this.renderNode(node, listStack);
       
       if (html) {
@@ -1372,9 +1829,59 @@ class OOXMLParser {
       }
     }
     
+    // 脚注尾注统一放在文末（最后一节的页脚之前）
+    for (const noteType of ['footnote', 'endnote'] as const) {
+      const notesHtml = this.renderNotesSection(noteType);
+      if (notesHtml) htmlParts.push(notesHtml);
+    }
+
+    if (this.sections.length > 0) {
+      htmlParts.push(this.renderSectionEnd(sectionIndex));
+    }
+
     return this.wrapHTML(htmlParts.join('\n'));
   }
 
+  /**
+   * 渲染节容器开头及页眉（屏幕显示用，打印时由 @page 页边距盒重复输出）
+   */
+  renderSectionStart(index: number): string {
+    const section = this.sections[index];
+    const header = (section.titlePage ? section.headers.first : null) || section.headers.default;
+    const parts = [`<div class="docx-section docx-section-${index + 1}">`];
+    if (header) {
+      parts.push(`<div class="docx-header">${this.renderBlockContent(header.children)}</div>`);
+    }
+    return parts.join('\n');
+  }
+
+  /**
+   * 渲染节页脚及容器结尾
+   */
+  renderSectionEnd(index: number): string {
+    const section = this.sections[index];
+    const footer = section.footers.default || (section.titlePage ? section.footers.first : null);
+    const parts: string[] = [];
+    if (footer) {
+      parts.push(`<div class="docx-footer">${this.renderBlockContent(footer.children)}</div>`);
+    }
+    parts.push('</div>');
+    return parts.join('\n');
+  }
+
+  /**
+   * 渲染页眉页脚、注释等独立部件中的段落和表格
+   */
+  renderBlockContent(blocks: (ParagraphNode | TableNode)[]): string {
+    const listStack: string[] = [];
+    const html = blocks.map(child => this.renderNode(child, listStack)).join('\n');
+    const closing = listStack
+      .reverse()
+      .map(listType => `</${listType}>`)
+      .join('');
+    return html + closing;
+  }
+
   /**
    * 渲染单个节点
    */
@@ -1568,16 +2075,100 @@ class OOXMLParser {
         return this.renderHyperlink(child);
       } else if (child.type === 'image') {
         return this.renderImage(child);
+      } else if (child.type === 'noteReference') {
+        return this.renderNoteReference(child);
+      } else if (child.type === 'math') {
+        return child.mathml;
       }
       return '';
     }).join('');
   }
 
+  /**
+   * 渲染脚注/尾注引用为上标编号，首次出现时分配序号
+   */
+  renderNoteReference(reference: NoteReferenceNode): string {
+    if (!this.notes[reference.noteType].has(reference.id)) return '';
+
+    const order = this.noteOrder[reference.noteType];
+    if (!order.includes(reference.id)) {
+      order.push(reference.id);
+    }
+    const label = this.getNoteLabel(reference.noteType, order.indexOf(reference.id) + 1);
+    const anchor = this.getNoteAnchor(reference.noteType, label);
+    return `<sup class="docx-note-ref"><a href="#${anchor}" id="${anchor}-ref" data-note="${label}">${label}</a></sup>`;
+  }
+
+  /**
+   * 脚注使用阿拉伯数字，尾注使用小写罗马数字（与 Word 默认一致）
+   */
+  getNoteLabel(noteType: NoteKind, index: number): string {
+    if (noteType === 'footnote') return String(index);
+
+    const numerals: Array<[number, string]> = [
+      [1000, 'm'],
+      [900, 'cm'],
+      [500, 'd'],
+      [400, 'cd'],
+      [100, 'c'],
+      [90, 'xc'],
+      [50, 'l'],
+      [40, 'xl'],
+      [10, 'x'],
+      [9, 'ix'],
+      [5, 'v'],
+      [4, 'iv'],
+      [1, 'i'],
+    ];
+    let remaining = index;
+    let label = '';
+    for (const [value, numeral] of numerals) {
+      while (remaining >= value) {
+        label += numeral;
+        remaining -= value;
+      }
+    }
+    return label;
+  }
+
+  getNoteAnchor(noteType: NoteKind, label: string): string {
+    return `${noteType === 'footnote' ? 'fn' : 'en'}-${label}`;
+  }
+
+  /**
+   * 在文末渲染被引用的脚注或尾注列表
+   */
+  renderNotesSection(noteType: NoteKind): string {
+    const order = this.noteOrder[noteType];
+    if (order.length === 0) return '';
+
+    const items: string[] = [];
+    // 注释内容中可能引用新的注释，order 会在遍历中增长
+    for (let i = 0; i < order.length; i++) {
+      const label = this.getNoteLabel(noteType, i + 1);
+      const anchor = this.getNoteAnchor(noteType, label);
+      const content = this.renderBlockContent(this.notes[noteType].get(order[i]) || []);
+      const backref = `<a href="#${anchor}-ref" class="docx-note-backref">↩</a>`;
+      items.push(`<li id="${anchor}" data-note="${label}">${content} ${backref}</li>`);
+    }
+
+    const listType = noteType === 'footnote' ? '' : ' type="i"';
+    return `<section class="docx-notes docx-${noteType}s">\n<hr>\n<ol${listType}>\n${items.join('\n')}\n</ol>\n</section>`;
+  }
+
   /**
    * 渲染文本运行
    */
   renderRun(run: RunNode): string {
+    if (run.field) {
+      const style = this.cssToString(run.style);
+      const styleAttr = style ? ` style="${style}"` : '';
+      return `<span class="docx-field" data-field="${run.field}"${styleAttr}>${this.escapeHtml(run.text)}</span>`;
+    }
     if (!run.text && run.text !== '0') return '';
+    if (run.revision) {
+      return this.renderRevision(run.revision, this.renderRun({ ...run, revision: undefined }));
+    }
     
     const style = this.cssToString(run.style);
     let text = this.escapeHtml(run.text);
@@ -1598,6 +2189,23 @@ class OOXMLParser {
     return text;
   }
 
+  /**
+   * 以 <ins>/<del> 标记修订内容，附带作者与时间
+   */
+  renderRevision(revision: RevisionInfo, content: string): string {
+    const tag = revision.type;
+    const classes = revision.move ? 'docx-revision docx-move' : 'docx-revision';
+    const attrs = [`class="${classes}"`, `data-author="${this.escapeHtml(revision.author)}"`];
+    if (revision.date) {
+      attrs.push(`datetime="${this.escapeHtml(revision.date)}"`);
+    }
+    const title = [revision.author, revision.date].filter(Boolean).join(' ');
+    if (title) {
+      attrs.push(`title="${this.escapeHtml(title)}"`);
+    }
+    return `<${tag} ${attrs.join(' ')}>${content}</${tag}>`;
+  }
+
   /**
    * 渲染超链接
    */
@@ -1782,8 +2390,16 @@ class OOXMLParser {
    * 检查是否有标题样式
    */
   hasHeadingStyle(paragraph: ParagraphNode): number | null {
-    // 这里可以根据样式名称判断是否为标题
-    // 例如检查样式ID是否包含"Heading"等
+    // 根据样式ID或样式名称（heading 1、标题 1 等）判断，沿 basedOn 向上查找
+    let styleId = paragraph.styleId;
+    for (let depth = 0; styleId && depth < 10; depth++) {
+      const style = this.styles[styleId];
+      for (const name of [styleId, style ? style.name : '']) {
+        const match = /^(?:heading|标题)\s*([1-6])$/i.exec(name.trim());
+        if (match) return parseInt(match[1]);
+      }
+      styleId = style ? style.basedOn || undefined : undefined;
+    }
     return null;
   }
 
@@ -1879,6 +2495,28 @@ class OOXMLParser {
         padding: 0;
         display: inline;
       }
+      .docx-note-ref {
+        font-size: 0.75em;
+        line-height: 0;
+      }
+      .docx-note-ref a, .docx-note-backref {
+        text-decoration: none;
+      }
+      .docx-notes {
+        margin-top: 24px;
+        font-size: 0.9em;
+      }
+      ins.docx-revision {
+        color: #1a7f37;
+        text-decoration: underline;
+      }
+      del.docx-revision {
+        color: #cf222e;
+        text-decoration: line-through;
+      }
+      math[display="block"] {
+        margin: 8px 0;
+      }
       blockquote {
          margin: 16px 0;
          padding: 12px 20px;
@@ -1898,15 +2536,205 @@ class OOXMLParser {
       }
     }
     
+    css.push(this.generateSectionCSS());
+
+    return css.join('\n');
+  }
+
+  /**
+   * 生成分节的打印样式：@page 页面尺寸、页边距，页眉页脚输出到页边距盒
+   */
+  generateSectionCSS(): string {
+    if (this.sections.length === 0) return '';
+
+    const css: string[] = [
+      `
+      .docx-header, .docx-footer {
+        color: #555;
+        font-size: 0.9em;
+      }
+      .docx-header { border-bottom: 1px solid #eee; margin-bottom: 12px; }
+      .docx-footer { border-top: 1px solid #eee; margin-top: 12px; }
+      .docx-header p, .docx-footer p { margin: 2px 0; padding: 0; }
+      @media print {
+        body { margin: 0; }
+        .docx-header, .docx-footer { display: none; }
+      }
+    `,
+    ];
+
+    const pageBreaks: Record<string, string> = { oddPage: 'right', evenPage: 'left' };
+    let pageName = '';
+    this.sections.forEach((section, index) => {
+      const className = `docx-section-${index + 1}`;
+      // 连续分节不换页，沿用上一节的页面规则
+      if (index === 0 || section.breakType !== 'continuous') {
+        pageName = className;
+        const { margins } = section;
+        css.push(`@page ${pageName} {
+        size: ${section.pageWidth}pt ${section.pageHeight}pt;
+        margin: ${margins.top}pt ${margins.right}pt ${margins.bottom}pt ${margins.left}pt;
+        ${this.renderMarginBoxes(section, section.headers.default, section.footers.default)}
+      }`);
+        if (section.titlePage) {
+          css.push(`@page ${pageName}:first {
+        ${this.renderMarginBoxes(section, section.headers.first, section.footers.first)}
+      }`);
+        }
+        if (this.hasEvenAndOddHeaders()) {
+          css.push(`@page ${pageName}:left {
+        ${this.renderMarginBoxes(section, section.headers.even, section.footers.even)}
+      }`);
+        }
+      }
+
+      const breakBefore = pageBreaks[section.breakType];
+      css.push(
+        `.${className} { page: ${pageName};${breakBefore && index > 0 ? ` break-before: ${breakBefore};` : ''} }`
+      );
+    });
+
     return css.join('\n');
   }
 
+  /**
+   * 是否启用奇偶页不同的页眉页脚（settings.xml 中的 w:evenAndOddHeaders）
+   */
+  hasEvenAndOddHeaders(): boolean {
+    const settings = this.settings['w:settings'] || {};
+    return this.isOnOff(settings['w:evenandoddheaders']);
+  }
+
+  /**
+   * 生成六个页边距盒，未设置内容的盒子显式置空以覆盖继承的规则
+   */
+  renderMarginBoxes(
+    section: SectionProperties,
+    header?: HeaderFooterNode,
+    footer?: HeaderFooterNode
+  ): string {
+    const boxes: string[] = [];
+    const edges = [
+      {
+        edge: 'top',
+        node: header,
+        padding: `padding-top: ${section.margins.header}pt; vertical-align: top;`,
+      },
+      {
+        edge: 'bottom',
+        node: footer,
+        padding: `padding-bottom: ${section.margins.footer}pt; vertical-align: bottom;`,
+      },
+    ];
+
+    for (const { edge, node, padding } of edges) {
+      const slots = node ? this.buildMarginBoxSlots(node) : { left: [], center: [], right: [] };
+      for (const slot of ['left', 'center', 'right'] as const) {
+        const lines = slots[slot].filter(line => line.length > 0);
+        const content = lines.length > 0 ? lines.join(' "\\A" ') : 'none';
+        boxes.push(
+          `@${edge}-${slot} { content: ${content}; text-align: ${slot}; white-space: pre-wrap; font-size: 9pt; ${padding} }`
+        );
+      }
+    }
+
+    return boxes.join('\n        ');
+  }
+
+  /**
+   * 把页眉页脚内容分配到左/中/右三个位置：制表符分隔的段落依次占位，
+   * 单段内容按段落对齐方式放置，多列表格按列位置放置
+   */
+  buildMarginBoxSlots(node: HeaderFooterNode): Record<'left' | 'center' | 'right', string[]> {
+    const slots: Record<'left' | 'center' | 'right', string[]> = {
+      left: [],
+      center: [],
+      right: [],
+    };
+
+    const placeParagraph = (paragraph: ParagraphNode, fixedSlot?: 'left' | 'center' | 'right') => {
+      const segments = this.paragraphToContentSegments(paragraph.children);
+      if (fixedSlot || segments.length === 1) {
+        const align = paragraph.style['text-align'];
+        const slot = fixedSlot || (align === 'center' || align === 'right' ? align : 'left');
+        slots[slot].push(segments.join(' '));
+      } else if (segments.length === 2) {
+        slots.left.push(segments[0]);
+        slots.right.push(segments[1]);
+      } else {
+        slots.left.push(segments[0]);
+        slots.center.push(segments[1]);
+        slots.right.push(segments.slice(2).join(' '));
+      }
+    };
+
+    for (const child of node.children) {
+      if (child.type === 'paragraph') {
+        placeParagraph(child);
+        continue;
+      }
+      for (const row of child.rows) {
+        const cells = row.cells.filter(cell => cell.rowspan !== 0);
+        cells.forEach((cell, cellIndex) => {
+          const slot =
+            cells.length === 1
+              ? undefined
+              : cellIndex === 0
+                ? 'left'
+                : cellIndex === cells.length - 1
+                  ? 'right'
+                  : 'center';
+          cell.children.forEach(paragraph => placeParagraph(paragraph, slot));
+        });
+      }
+    }
+
+    return slots;
+  }
+
+  /**
+   * 段落内容转换为 CSS content 片段，按制表符分段
+   */
+  paragraphToContentSegments(children: ChildNode[]): string[] {
+    const segments: string[][] = [[]];
+    const visit = (nodes: ChildNode[]) => {
+      for (const node of nodes) {
+        const current = segments[segments.length - 1];
+        if (node.type === 'noteReference' || node.type === 'math') {
+          continue;
+        } else if (node.type === 'hyperlink') {
+          visit(node.children);
+        } else if (node.type === 'image') {
+          current.push(`url("${this.escapeCssString(node.src)}")`);
+        } else if (node.type === 'break') {
+          current.push('"\\A"');
+        } else if (node.field) {
+          current.push(node.field === 'page' ? 'counter(page)' : 'counter(pages)');
+        } else if (node.text) {
+          node.text.split('\t').forEach((part, partIndex) => {
+            if (partIndex > 0) segments.push([]);
+            if (part) segments[segments.length - 1].push(`"${this.escapeCssString(part)}"`);
+          });
+        }
+      }
+    };
+    visit(children);
+    return segments.map(segment => segment.join(' '));
+  }
+
+  /**
+   * 转义 CSS 字符串
+   */
+  escapeCssString(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\A ');
+  }
+
   /**
    * 包装HTML
    */
   wrapHTML(content: string): string {
     return `<!DOCTYPE html>
-<html lang="zh-CN">
+<html lang="${detectHtmlLanguage(content)}">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -1943,6 +2771,235 @@ class OOXMLParser {
     });
   }
 
+  /**
+   * 仅提取批注列表，不生成 HTML
+   */
+  async extractComments(docxPath: string): Promise<DocxComment[]> {
+    const data = await fs.readFile(docxPath);
+    const zip = await JSZip.loadAsync(data);
+    const documentXml = await this.getFileContent(zip, 'word/document.xml');
+    await this.loadComments(zip, this.markRevisions(documentXml || ''));
+    return this.comments;
+  }
+
+  /**
+   * 解析前的 XML 预处理，弥补 xml2js 对象模式丢失兄弟元素顺序的问题
+   */
+  preprocessXml(xml: string): string {
+    return this.extractEquations(this.splitFieldRuns(this.markRevisions(xml)));
+  }
+
+  /**
+   * 把 m:oMathPara / m:oMath 转换为 MathML 与 LaTeX，并在原位置留下占位运行，
+   * 使公式保持在段落运行序列中的位置
+   */
+  extractEquations(xml: string): string {
+    const converter = new OmmlConverter();
+    const replaceEquation = (omml: string) => {
+      try {
+        this.equations.push(converter.convert(omml));
+        return `<w:r mathIndex="${this.equations.length - 1}"></w:r>`;
+      } catch (error: any) {
+        console.warn('⚠️ 公式转换失败，已跳过:', error.message);
+        return '';
+      }
+    };
+    return xml
+      .replace(/<m:oMathPara\b[\s\S]*?<\/m:oMathPara>/g, replaceEquation)
+      .replace(/<m:oMath\b[\s\S]*?<\/m:oMath>/g, replaceEquation);
+  }
+
+  /**
+   * 展开 w:ins / w:del / w:moveFrom / w:moveTo，把修订信息写到其中每个运行上，
+   * 使修订内容留在段落的运行序列中。嵌套时内层修订优先（如被删除的插入）
+   */
+  markRevisions(xml: string): string {
+    const wrapperPattern =
+      /<w:(ins|del|moveFrom|moveTo)(\s[^>]*?)?(?<!\/)>((?:(?!<w:(?:ins|del|moveFrom|moveTo)(?:\s[^>]*?)?(?<!\/)>)[\s\S])*?)<\/w:\1>/g;
+    let previous: string;
+    do {
+      previous = xml;
+      xml = xml.replace(
+        wrapperPattern,
+        (match: string, tag: string, attrs: string | undefined, content: string) => {
+          const type = tag === 'ins' || tag === 'moveTo' ? 'ins' : 'del';
+          const author = /w:author="([^"]*)"/.exec(attrs || '')?.[1] ?? '';
+          const date = /w:date="([^"]*)"/.exec(attrs || '')?.[1] ?? '';
+          const move = tag.startsWith('move') ? ' revMove="1"' : '';
+          return content.replace(
+            /<w:r(\s[^>]*)?>/g,
+            (run: string, runAttrs: string | undefined) => {
+              if (!runAttrs || !runAttrs.includes(' rev=')) {
+                return `<w:r${runAttrs || ''} rev="${type}" revAuthor="${author}" revDate="${date}"${move}>`;
+              }
+              // 被删除的插入：接受和拒绝时都不出现
+              return type === 'ins' && !runAttrs.includes(' revInserted=')
+                ? `<w:r${runAttrs} revInserted="1">`
+                : run;
+            }
+          );
+        }
+      );
+    } while (xml !== previous);
+    return xml;
+  }
+
+  /**
+   * 加载批注：作者、时间、批注内容、锚定文本，以及 commentsExtended.xml 中的回复关系与解决状态
+   */
+  async loadComments(zip: any, documentXml: string): Promise<void> {
+    try {
+      const commentsXml = await this.getFileContent(zip, 'word/comments.xml');
+      if (!commentsXml) return;
+
+      const anchors = this.extractCommentAnchors(documentXml);
+      const byParaId = new Map<string, DocxComment>();
+      const comments: DocxComment[] = [];
+
+      const markedXml = this.markRevisions(commentsXml);
+      const commentPattern = /<w:comment\b([^>]*)>([\s\S]*?)<\/w:comment>/g;
+      let match: RegExpExecArray | null;
+      while ((match = commentPattern.exec(markedXml))) {
+        const attrs = match[1];
+        const attr = (name: string) =>
+          this.decodeXmlEntities(new RegExp(`${name}="([^"]*)"`).exec(attrs)?.[1] ?? '');
+        const comment: DocxComment = {
+          id: attr('w:id'),
+          author: attr('w:author'),
+          initials: attr('w:initials'),
+          date: attr('w:date'),
+          text: this.extractPlainText(match[2]),
+          anchoredText: anchors.get(attr('w:id')) ?? '',
+          resolved: false,
+          replies: [],
+        };
+        comments.push(comment);
+
+        // 批注最后一个段落的 w14:paraId 用于关联回复
+        const paraIds = [...match[2].matchAll(/<w:p\b[^>]*w14:paraId="([^"]+)"/g)];
+        if (paraIds.length > 0) {
+          byParaId.set(paraIds[paraIds.length - 1][1], comment);
+        }
+      }
+
+      const parentOf = new Map<DocxComment, DocxComment>();
+      const extendedXml = await this.getFileContent(zip, 'word/commentsExtended.xml');
+      if (extendedXml) {
+        for (const [, attrs] of extendedXml.matchAll(/<w15:commentEx\b([^>]*?)\/?>/g)) {
+          const comment = byParaId.get(/w15:paraId="([^"]+)"/.exec(attrs)?.[1] ?? '');
+          if (!comment) continue;
+          comment.resolved = /w15:done="(1|true)"/.test(attrs);
+          const parent = byParaId.get(/w15:paraIdParent="([^"]+)"/.exec(attrs)?.[1] ?? '');
+          if (parent && parent !== comment) parentOf.set(comment, parent);
+        }
+      }
+
+      this.comments = [];
+      for (const comment of comments) {
+        const parent = parentOf.get(comment);
+        if (parent) {
+          // 回复沿用所属批注的锚定文本
+          comment.anchoredText = comment.anchoredText || parent.anchoredText;
+          parent.replies.push(comment);
+        } else {
+          this.comments.push(comment);
+        }
+      }
+
+      console.log(`📊 解析了 ${comments.length} 条批注`);
+    } catch (e: any) {
+      console.log('⚠️ 批注解析失败:', e.message);
+      this.comments = [];
+    }
+  }
+
+  /**
+   * 提取 w:commentRangeStart 与 w:commentRangeEnd 之间的文本
+   */
+  extractCommentAnchors(documentXml: string): Map<string, string> {
+    const anchors = new Map<string, string>();
+    const starts = new Map<string, number>();
+    const rangePattern = /<w:commentRange(Start|End)\b[^>]*w:id="([^"]+)"[^>]*>/g;
+    let match: RegExpExecArray | null;
+    while ((match = rangePattern.exec(documentXml))) {
+      const [tag, kind, id] = match;
+      if (kind === 'Start') {
+        starts.set(id, match.index + tag.length);
+      } else if (starts.has(id)) {
+        anchors.set(id, this.extractPlainText(documentXml.slice(starts.get(id), match.index)));
+      }
+    }
+    return anchors;
+  }
+
+  /**
+   * 从 WordprocessingML 片段提取纯文本，按当前修订模式取舍插入/删除内容
+   */
+  extractPlainText(xml: string): string {
+    const paragraphs = xml.split(/<\/w:p>/).map(part => {
+      let text = '';
+      const runPattern = /<w:r(\s[^>]*)?>([\s\S]*?)<\/w:r>/g;
+      let run: RegExpExecArray | null;
+      while ((run = runPattern.exec(part))) {
+        const revision = / rev="(ins|del)"/.exec(run[1] || '')?.[1];
+        if (revision === 'del' && this.revisionMode === 'accept') continue;
+        if (
+          (revision === 'ins' || / revInserted=/.test(run[1] || '')) &&
+          this.revisionMode === 'reject'
+        )
+          continue;
+
+        const pieces =
+          run[2].match(/<w:(t|delText)\b[^>]*>[^<]*<\/w:\1>|<w:tab\/>|<w:br\b[^>]*\/>/g) || [];
+        for (const piece of pieces) {
+          if (piece.startsWith('<w:tab')) text += '\t';
+          else if (piece.startsWith('<w:br')) text += '\n';
+          else text += this.decodeXmlEntities(piece.replace(/<[^>]+>/g, ''));
+        }
+      }
+      return text;
+    });
+    return paragraphs
+      .filter(text => text.trim())
+      .join('\n')
+      .trim();
+  }
+
+  /**
+   * 解码 XML 实体
+   */
+  decodeXmlEntities(text: string): string {
+    const entities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const value =
+          code[1] === 'x' || code[1] === 'X'
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1), 10);
+        return String.fromCodePoint(value);
+      }
+      return entities[code] ?? entity;
+    });
+  }
+
+  /**
+   * 拆分包含域字符的多子元素运行，避免 xml2js 合并同名子元素后丢失先后顺序
+   */
+  splitFieldRuns(xml: string): string {
+    const runPattern = /<w:r(\s[^>]*)?>((?:(?!<w:r[\s>])(?!<\/w:r>)[\s\S])*)<\/w:r>/g;
+    return xml.replace(runPattern, (match: string, attrs: string | undefined, content: string) => {
+      if (!/<w:(fldChar|instrText)\b/.test(content)) return match;
+
+      const rPrMatch = /^\s*<w:rPr>[\s\S]*?<\/w:rPr>/.exec(content);
+      const rPr = rPrMatch ? rPrMatch[0].trim() : '';
+      const rest = rPrMatch ? content.slice(rPrMatch[0].length) : content;
+      const children = rest.match(/<w:(\w+)\b[^>]*\/>|<w:(\w+)\b[^>]*>[\s\S]*?<\/w:\2>/g) || [];
+      if (children.length <= 1) return match;
+
+      return children.map(child => `<w:r${attrs || ''}>${rPr}${child}</w:r>`).join('');
+    });
+  }
+
   /**
    * CSS对象转字符串
    */
@@ -1961,6 +3018,23 @@ class OOXMLParser {
     return Math.round(parseInt(String(twip)) / 20);
   }
 
+  /**
+   * Twip转磅，缺失或非法时返回默认值
+   */
+  twipToPoint(twip: string | number | undefined, fallback: number): number {
+    const value = parseInt(String(twip));
+    return isNaN(value) ? fallback : value / 20;
+  }
+
+  /**
+   * 解析开关属性，如 <w:titlePg/> 或 <w:titlePg w:val="0"/>
+   */
+  isOnOff(node: any): boolean {
+    if (node === undefined || node === null) return false;
+    const val = typeof node === 'object' ? node['w:val'] : undefined;
+    return val === undefined || !['0', 'false', 'off'].includes(String(val));
+  }
+
   /**
    * 八分之一点转像素
    */
@@ -2111,7 +3185,7 @@ class OOXMLParser {
 // 导出转换函数
 export async function convertDocxToHtmlWithOOXML(inputPath: string, options: any = {}): Promise<any> {
   try {
-    const parser = new OOXMLParser();
+    const parser = new OOXMLParser({ revisionMode: options.revisionMode });
     
     console.log('🚀 开始自定义OOXML解析器转换...');
     console.log('📁 输入文件:', inputPath);
@@ -2131,6 +3205,7 @@ export async function convertDocxToHtmlWithOOXML(inputPath: string, options: any
       content: result.html,
       css: result.css,
       media: result.media,
+      comments: result.comments,
       metadata: {
         format: 'html',
         originalFormat: 'docx',
@@ -2138,7 +3213,9 @@ export async function convertDocxToHtmlWithOOXML(inputPath: string, options: any
         stylesPreserved: true,
         standalone: true,
         conversionTime: Date.now(),
-        mediaCount: Object.keys(result.media).length
+        mediaCount: Object.keys(result.media).length,
+        revisionMode: options.revisionMode || 'accept',
+        commentCount: result.comments.length,
       }
     };
   } catch (error: any) {
@@ -2154,4 +3231,18 @@ export async function convertDocxToHtmlWithOOXML(inputPath: string, options: any
   }
 }
 
-export { OOXMLParser };
\ No newline at end of file
+// 导出批注提取函数
+export async function extractDocxComments(
+  inputPath: string,
+  options: OOXMLParserOptions = {}
+): Promise<DocxComment[]> {
+  try {
+    const parser = new OOXMLParser(options);
+    return await parser.extractComments(inputPath);
+  } catch (error: any) {
+    console.error('❌ 批注提取失败:', error);
+    return [];
+  }
+}
+
+export { OOXMLParser, OOXMLParserOptions, RevisionMode, DocxComment };
@@ -0,0 +1,377 @@
+/**
+ * PDF 字体编码表
+ * 提供简单字体的内置编码（StandardEncoding / WinAnsiEncoding / MacRomanEncoding）
+ * 以及 Differences 数组中字形名称到 Unicode 的映射
+ */
+
+// WinAnsiEncoding 中 0x80-0x9F 区间与 Latin-1 不同的码位
+const WIN_ANSI_OVERRIDES: Record<number, number> = {
+  0x80: 0x20ac,
+  0x82: 0x201a,
+  0x83: 0x0192,
+  0x84: 0x201e,
+  0x85: 0x2026,
+  0x86: 0x2020,
+  0x87: 0x2021,
+  0x88: 0x02c6,
+  0x89: 0x2030,
+  0x8a: 0x0160,
+  0x8b: 0x2039,
+  0x8c: 0x0152,
+  0x8e: 0x017d,
+  0x91: 0x2018,
+  0x92: 0x2019,
+  0x93: 0x201c,
+  0x94: 0x201d,
+  0x95: 0x2022,
+  0x96: 0x2013,
+  0x97: 0x2014,
+  0x98: 0x02dc,
+  0x99: 0x2122,
+  0x9a: 0x0161,
+  0x9b: 0x203a,
+  0x9c: 0x0153,
+  0x9e: 0x017e,
+  0x9f: 0x0178,
+};
+
+// MacRomanEncoding 0x80-0xFF
+const MAC_ROMAN_HIGH =
+  'ÄÅÇÉÑÖÜáàâäãåçéèêëíìîïñóòôöõúùûü†°¢£§•¶ß®©™´¨≠ÆØ∞±≤≥¥µ∂∑∏π∫ªºΩæø' +
+  '¿¡¬√ƒ≈∆«»… ÀÃÕŒœ–—“”‘’÷◊ÿŸ⁄€‹›ﬁﬂ‡·‚„‰ÂÊÁËÈÍÎÏÌÓÔ\uF8FFÒÚÛÙıˆ˜¯˘˙˚¸˝˛ˇ';
+
+// StandardEncoding 中与 ASCII / Latin-1 不同的码位
+const STANDARD_OVERRIDES: Record<number, string> = {
+  0x27: '’',
+  0x60: '‘',
+  0xa1: '¡',
+  0xa2: '¢',
+  0xa3: '£',
+  0xa4: '⁄',
+  0xa5: '¥',
+  0xa6: 'ƒ',
+  0xa7: '§',
+  0xa8: '¤',
+  0xa9: "'",
+  0xaa: '“',
+  0xab: '«',
+  0xac: '‹',
+  0xad: '›',
+  0xae: 'ﬁ',
+  0xaf: 'ﬂ',
+  0xb1: '–',
+  0xb2: '†',
+  0xb3: '‡',
+  0xb4: '·',
+  0xb6: '¶',
+  0xb7: '•',
+  0xb8: '‚',
+  0xb9: '„',
+  0xba: '”',
+  0xbb: '»',
+  0xbc: '…',
+  0xbd: '‰',
+  0xbf: '¿',
+  0xc1: '`',
+  0xc2: '´',
+  0xc3: 'ˆ',
+  0xc4: '˜',
+  0xc5: '¯',
+  0xc6: '˘',
+  0xc7: '˙',
+  0xc8: '¨',
+  0xca: '˚',
+  0xcb: '¸',
+  0xcd: '˝',
+  0xce: '˛',
+  0xcf: 'ˇ',
+  0xd0: '—',
+  0xe1: 'Æ',
+  0xe3: 'ª',
+  0xe8: 'Ł',
+  0xe9: 'Ø',
+  0xea: 'Œ',
+  0xeb: 'º',
+  0xf1: 'æ',
+  0xf5: 'ı',
+  0xf8: 'ł',
+  0xf9: 'ø',
+  0xfa: 'œ',
+  0xfb: 'ß',
+};
+
+// 无法通过规则推导的常用字形名称
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ',
+  exclam: '!',
+  quotedbl: '"',
+  numbersign: '#',
+  dollar: '$',
+  percent: '%',
+  ampersand: '&',
+  quotesingle: "'",
+  quoteright: '’',
+  quoteleft: '‘',
+  parenleft: '(',
+  parenright: ')',
+  asterisk: '*',
+  plus: '+',
+  comma: ',',
+  hyphen: '-',
+  minus: '−',
+  period: '.',
+  slash: '/',
+  zero: '0',
+  one: '1',
+  two: '2',
+  three: '3',
+  four: '4',
+  five: '5',
+  six: '6',
+  seven: '7',
+  eight: '8',
+  nine: '9',
+  colon: ':',
+  semicolon: ';',
+  less: '<',
+  equal: '=',
+  greater: '>',
+  question: '?',
+  at: '@',
+  bracketleft: '[',
+  backslash: '\\',
+  bracketright: ']',
+  asciicircum: '^',
+  underscore: '_',
+  grave: '`',
+  braceleft: '{',
+  bar: '|',
+  braceright: '}',
+  asciitilde: '~',
+  exclamdown: '¡',
+  cent: '¢',
+  sterling: '£',
+  currency: '¤',
+  yen: '¥',
+  brokenbar: '¦',
+  section: '§',
+  dieresis: '¨',
+  copyright: '©',
+  ordfeminine: 'ª',
+  guillemotleft: '«',
+  guillemotright: '»',
+  logicalnot: '¬',
+  registered: '®',
+  macron: '¯',
+  degree: '°',
+  plusminus: '±',
+  twosuperior: '²',
+  threesuperior: '³',
+  onesuperior: '¹',
+  acute: '´',
+  mu: 'µ',
+  paragraph: '¶',
+  periodcentered: '·',
+  middot: '·',
+  cedilla: '¸',
+  ordmasculine: 'º',
+  onequarter: '¼',
+  onehalf: '½',
+  threequarters: '¾',
+  questiondown: '¿',
+  multiply: '×',
+  divide: '÷',
+  AE: 'Æ',
+  ae: 'æ',
+  Oslash: 'Ø',
+  oslash: 'ø',
+  Eth: 'Ð',
+  eth: 'ð',
+  Thorn: 'Þ',
+  thorn: 'þ',
+  germandbls: 'ß',
+  OE: 'Œ',
+  oe: 'œ',
+  Lslash: 'Ł',
+  lslash: 'ł',
+  dotlessi: 'ı',
+  dotlessj: 'ȷ',
+  florin: 'ƒ',
+  circumflex: 'ˆ',
+  tilde: '˜',
+  caron: 'ˇ',
+  breve: '˘',
+  dotaccent: '˙',
+  ring: '˚',
+  ogonek: '˛',
+  hungarumlaut: '˝',
+  endash: '–',
+  emdash: '—',
+  quotesinglbase: '‚',
+  quotedblbase: '„',
+  quotedblleft: '“',
+  quotedblright: '”',
+  dagger: '†',
+  daggerdbl: '‡',
+  bullet: '•',
+  ellipsis: '…',
+  perthousand: '‰',
+  guilsinglleft: '‹',
+  guilsinglright: '›',
+  fraction: '⁄',
+  Euro: '€',
+  trademark: '™',
+  ff: 'ﬀ',
+  fi: 'ﬁ',
+  fl: 'ﬂ',
+  ffi: 'ﬃ',
+  ffl: 'ﬄ',
+  nbspace: ' ',
+  sfthyphen: '­',
+  notequal: '≠',
+  lessequal: '≤',
+  greaterequal: '≥',
+  infinity: '∞',
+  partialdiff: '∂',
+  summation: '∑',
+  product: '∏',
+  integral: '∫',
+  radical: '√',
+  approxequal: '≈',
+  Delta: '∆',
+  Omega: 'Ω',
+  pi: 'π',
+  lozenge: '◊',
+  arrowleft: '←',
+  arrowright: '→',
+  arrowup: '↑',
+  arrowdown: '↓',
+};
+
+// 组合附加符号到字形名称后缀的映射，用于推导 aacute、Ccedilla 等名称
+const ACCENT_SUFFIXES: Record<string, string> = {
+  '\u0300': 'grave',
+  '\u0301': 'acute',
+  '\u0302': 'circumflex',
+  '\u0303': 'tilde',
+  '\u0304': 'macron',
+  '\u0306': 'breve',
+  '\u0307': 'dotaccent',
+  '\u0308': 'dieresis',
+  '\u030a': 'ring',
+  '\u030b': 'hungarumlaut',
+  '\u030c': 'caron',
+  '\u0327': 'cedilla',
+  '\u0328': 'ogonek',
+};
+
+let glyphNameTable: Map<string, string> | null = null;
+
+/**
+ * 构建字形名称表：显式名称 + 拉丁字母 + 带附加符号的拉丁字母
+ */
+function getGlyphNameTable(): Map<string, string> {
+  if (glyphNameTable) {
+    return glyphNameTable;
+  }
+
+  const table = new Map<string, string>(Object.entries(GLYPH_NAMES));
+  for (let code = 0x41; code <= 0x7a; code++) {
+    const char = String.fromCharCode(code);
+    if (/[A-Za-z]/.test(char)) {
+      table.set(char, char);
+    }
+  }
+
+  // Latin-1 补充与扩展 A 区的字母可由 NFD 分解为“基字母 + 附加符号”
+  for (let code = 0xc0; code <= 0x17f; code++) {
+    const char = String.fromCharCode(code);
+    const decomposed = char.normalize('NFD');
+    if (decomposed.length !== 2) {
+      continue;
+    }
+    const suffix = ACCENT_SUFFIXES[decomposed[1]];
+    if (suffix && !table.has(decomposed[0] + suffix)) {
+      table.set(decomposed[0] + suffix, char);
+    }
+  }
+
+  glyphNameTable = table;
+  return table;
+}
+
+/**
+ * 将字形名称转换为 Unicode 文本，无法识别时返回 undefined
+ */
+function glyphNameToUnicode(glyphName: string): string | undefined {
+  const table = getGlyphNameTable();
+  const direct = table.get(glyphName);
+  if (direct !== undefined) {
+    return direct;
+  }
+
+  // 连字名称，如 f_f_i
+  if (glyphName.includes('_')) {
+    const parts = glyphName.split('_').map(part => glyphNameToUnicode(part));
+    return parts.every(part => part !== undefined) ? parts.join('') : undefined;
+  }
+
+  // 带变体后缀的名称，如 a.sc、one.oldstyle
+  const dotIndex = glyphName.indexOf('.');
+  if (dotIndex > 0) {
+    return glyphNameToUnicode(glyphName.slice(0, dotIndex));
+  }
+
+  const uniMatch = /^uni((?:[0-9A-F]{4})+)$/.exec(glyphName);
+  if (uniMatch) {
+    const units = uniMatch[1].match(/.{4}/g) ?? [];
+    return String.fromCharCode(...units.map(unit => parseInt(unit, 16)));
+  }
+
+  const uMatch = /^u([0-9A-F]{4,6})$/.exec(glyphName);
+  if (uMatch) {
+    const codePoint = parseInt(uMatch[1], 16);
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * 获取内置编码的 256 项 Unicode 表
+ */
+function getBaseEncoding(encodingName: string): Array<string | undefined> {
+  const table: Array<string | undefined> = new Array(256).fill(undefined);
+
+  for (let code = 0x20; code < 0x7f; code++) {
+    table[code] = String.fromCharCode(code);
+  }
+
+  switch (encodingName) {
+    case 'WinAnsiEncoding':
+      for (let code = 0xa0; code <= 0xff; code++) {
+        table[code] = String.fromCharCode(code);
+      }
+      for (const [code, unicode] of Object.entries(WIN_ANSI_OVERRIDES)) {
+        table[Number(code)] = String.fromCharCode(unicode);
+      }
+      // 不换行空格与软连字符按普通字符输出
+      table[0xa0] = ' ';
+      table[0xad] = '-';
+      break;
+    case 'MacRomanEncoding':
+      for (let code = 0x80; code <= 0xff; code++) {
+        table[code] = MAC_ROMAN_HIGH[code - 0x80];
+      }
+      break;
+    default:
+      for (const [code, unicode] of Object.entries(STANDARD_OVERRIDES)) {
+        table[Number(code)] = unicode;
+      }
+      break;
+  }
+
+  return table;
+}
+
+export { glyphNameToUnicode, getBaseEncoding };
@@ -0,0 +1,749 @@
+/**
+ * PDF 加密与解密
+ * 实现标准安全处理程序：RC4-128（R3）、AES-128（R4）和 AES-256（R6），写入用户密码、所有者密码和权限标志；
+ * 读取受保护的 PDF 时用用户或所有者密码解密全部字符串和流（支持 R2–R6），得到可供 pdf-lib 处理的未加密文档
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  LoadOptions,
+  PDFArray,
+  PDFBool,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFInvalidObject,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFObjectParser,
+  PDFObjectStreamParser,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  PDFWriter,
+} from 'pdf-lib';
+import { validateAndSanitizePath } from '../security/securityConfig';
+
+type PdfEncryptionAlgorithm = 'rc4-128' | 'aes-128' | 'aes-256';
+
+// 可授予的操作：打印、复制内容、修改文档、添加注释和填写表单
+type PdfPermission = 'print' | 'copy' | 'modify' | 'annotate';
+
+interface PdfEncryptOptions {
+  outputPath?: string; // 默认覆盖原文件
+  userPassword?: string; // 打开文档所需的密码，为空时无需密码即可打开
+  ownerPassword?: string; // 解除权限限制的密码，未指定时随机生成
+  encryption?: PdfEncryptionAlgorithm; // 默认 aes-256
+  permissions?: PdfPermission[]; // 允许的操作，未指定时全部允许
+  debug?: boolean;
+}
+
+interface PdfDecryptOptions {
+  outputPath?: string; // 默认覆盖原文件
+  password?: string; // 用户密码或所有者密码
+  debug?: boolean;
+}
+
+interface PdfEncryptionResult {
+  success: boolean;
+  outputPath?: string;
+  metadata?: {
+    pageCount: number;
+    encryption?: PdfEncryptionAlgorithm;
+    permissions?: PdfPermission[];
+  };
+  error?: string;
+}
+
+type CryptMethod = 'identity' | 'rc4' | 'aes-128' | 'aes-256';
+
+// 标准安全处理程序的解析结果
+interface SecurityHandler {
+  fileKey: Buffer;
+  stringMethod: CryptMethod;
+  streamMethod: CryptMethod;
+  encryptMetadata: boolean;
+}
+
+// R2–R4 计算密钥时用来补足 32 字节的填充串
+const PASSWORD_PADDING = Buffer.from(
+  '28BF4E5E4E758A4164004E56FFFA01082E2E00B6D0683E802F0CA9FE6453697A',
+  'hex'
+);
+const PERMISSION_FLAGS: Record<PdfPermission, number> = {
+  print: (1 << 2) | (1 << 11), // 打印、高质量打印
+  modify: (1 << 3) | (1 << 10), // 修改内容、组合页面
+  copy: 1 << 4, // 复制文本和图像
+  annotate: (1 << 5) | (1 << 8), // 添加注释、填写表单
+};
+// 保留位必须为 1；为辅助功能提取内容始终允许
+const BASE_PERMISSIONS = 0xfffff0c0 | (1 << 9);
+const ALL_PERMISSIONS: PdfPermission[] = ['print', 'copy', 'modify', 'annotate'];
+const DEFAULT_ALGORITHM: PdfEncryptionAlgorithm = 'aes-256';
+
+/**
+ * PDF 加密类
+ */
+class PdfEncryptor {
+  /**
+   * 为 PDF 设置密码和权限
+   */
+  async encrypt(pdfPath: string, options: PdfEncryptOptions = {}): Promise<PdfEncryptionResult> {
+    try {
+      const algorithm = options.encryption ?? DEFAULT_ALGORITHM;
+      if (!['rc4-128', 'aes-128', 'aes-256'].includes(algorithm)) {
+        throw new Error(`不支持的加密算法: ${algorithm}`);
+      }
+      const permissions = options.permissions ?? ALL_PERMISSIONS;
+      const unknown = permissions.filter(permission => !ALL_PERMISSIONS.includes(permission));
+      if (unknown.length > 0) {
+        throw new Error(`未知的权限: ${unknown.join(', ')}`);
+      }
+      if (!options.userPassword && !options.ownerPassword && !options.permissions) {
+        throw new Error('未指定密码或权限（userPassword/ownerPassword/permissions）');
+      }
+
+      if (options.debug) {
+        console.log('🚀 开始加密PDF...');
+        console.log('📄 输入文件:', pdfPath);
+      }
+
+      const outputPath: string = validateAndSanitizePath(options.outputPath ?? pdfPath, []);
+      const pdfDoc = await loadPdfDocument(await fs.readFile(pdfPath), undefined, {
+        updateMetadata: false,
+      });
+      encryptContext(pdfDoc.context, {
+        userPassword: options.userPassword ?? '',
+        ownerPassword: options.ownerPassword || randomBytes(16).toString('hex'),
+        algorithm,
+        permissions,
+      });
+
+      await fs.mkdir(path.dirname(outputPath), { recursive: true });
+      await fs.writeFile(outputPath, await serializeContext(pdfDoc.context));
+
+      if (options.debug) {
+        console.log(`✅ PDF加密完成（${algorithm}）:`, outputPath);
+      }
+      return {
+        success: true,
+        outputPath,
+        metadata: {
+          pageCount: pdfDoc.getPageCount(),
+          encryption: algorithm,
+          permissions,
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ PDF加密失败:', error.message);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * 用密码解密 PDF，输出不带密码和权限限制的文档
+   */
+  async decrypt(pdfPath: string, options: PdfDecryptOptions = {}): Promise<PdfEncryptionResult> {
+    try {
+      if (options.debug) {
+        console.log('🚀 开始解密PDF...');
+        console.log('📄 输入文件:', pdfPath);
+      }
+
+      const outputPath: string = validateAndSanitizePath(options.outputPath ?? pdfPath, []);
+      const pdfDoc = await loadPdfDocument(await fs.readFile(pdfPath), options.password, {
+        updateMetadata: false,
+      });
+
+      await fs.mkdir(path.dirname(outputPath), { recursive: true });
+      await fs.writeFile(outputPath, await pdfDoc.save());
+
+      if (options.debug) {
+        console.log('✅ PDF解密完成:', outputPath);
+      }
+      return {
+        success: true,
+        outputPath,
+        metadata: {
+          pageCount: pdfDoc.getPageCount(),
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ PDF解密失败:', error.message);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+}
+
+/**
+ * 读取 PDF；加密的文档先用密码解密（未提供密码时尝试空的用户密码），未加密的文档按原样加载
+ */
+async function loadPdfDocument(
+  bytes: Uint8Array,
+  password?: string,
+  options: LoadOptions = {}
+): Promise<PDFDocument> {
+  // 加密对象流中的信息字典此时还读不到，先不更新文档信息，以免覆盖原有的信息字典
+  const pdfDoc = await PDFDocument.load(bytes, {
+    ...options,
+    ignoreEncryption: true,
+    updateMetadata: false,
+  });
+  if (!pdfDoc.isEncrypted) {
+    return options.updateMetadata === false ? pdfDoc : await PDFDocument.load(bytes, options);
+  }
+
+  await decryptContext(pdfDoc.context, password ?? '');
+  return await PDFDocument.load(await serializeContext(pdfDoc.context), options);
+}
+
+/**
+ * 按对象写出文档，不经过 PDFDocument.save，以免保存时再生成未加密的对象或对象流
+ */
+async function serializeContext(context: PDFContext): Promise<Uint8Array> {
+  return await PDFWriter.forContext(context, 50).serializeToBuffer();
+}
+
+/**
+ * 加密文档中的全部字符串和流，并在文件尾写入 Encrypt 字典
+ */
+function encryptContext(
+  context: PDFContext,
+  options: {
+    userPassword: string;
+    ownerPassword: string;
+    algorithm: PdfEncryptionAlgorithm;
+    permissions: PdfPermission[];
+  }
+): void {
+  const permissions =
+    options.permissions.reduce(
+      (flags, permission) => flags | PERMISSION_FLAGS[permission],
+      BASE_PERMISSIONS
+    ) | 0;
+  const documentId = ensureDocumentId(context);
+
+  let handler: SecurityHandler;
+  let encryptDict: PDFDict;
+  if (options.algorithm === 'aes-256') {
+    const fileKey = randomBytes(32);
+    const user = utf8Password(options.userPassword);
+    const owner = utf8Password(options.ownerPassword);
+    const [userValidationSalt, userKeySalt] = [randomBytes(8), randomBytes(8)];
+    const u = Buffer.concat([
+      hashR6(user, userValidationSalt, Buffer.alloc(0), 6),
+      userValidationSalt,
+      userKeySalt,
+    ]);
+    const [ownerValidationSalt, ownerKeySalt] = [randomBytes(8), randomBytes(8)];
+    const o = Buffer.concat([
+      hashR6(owner, ownerValidationSalt, u, 6),
+      ownerValidationSalt,
+      ownerKeySalt,
+    ]);
+    const perms = Buffer.alloc(16);
+    perms.writeInt32LE(permissions, 0);
+    perms.fill(0xff, 4, 8);
+    perms.write('Tadb', 8, 'latin1');
+    randomBytes(4).copy(perms, 12);
+
+    handler = { fileKey, stringMethod: 'aes-256', streamMethod: 'aes-256', encryptMetadata: true };
+    encryptDict = context.obj({
+      Filter: 'Standard',
+      V: 5,
+      R: 6,
+      Length: 256,
+      CF: { StdCF: { Type: 'CryptFilter', CFM: 'AESV3', AuthEvent: 'DocOpen', Length: 32 } },
+      StmF: 'StdCF',
+      StrF: 'StdCF',
+      O: hexString(o),
+      U: hexString(u),
+      OE: hexString(aesNoPadding('aes-256-cbc', hashR6(owner, ownerKeySalt, u, 6), fileKey, false)),
+      UE: hexString(
+        aesNoPadding('aes-256-cbc', hashR6(user, userKeySalt, Buffer.alloc(0), 6), fileKey, false)
+      ),
+      Perms: hexString(aesNoPadding('aes-256-ecb', fileKey, perms, false)),
+      P: permissions,
+    });
+  } else {
+    const revision = options.algorithm === 'rc4-128' ? 3 : 4;
+    const method: CryptMethod = options.algorithm === 'rc4-128' ? 'rc4' : 'aes-128';
+    const o = computeOwnerEntry(
+      padPassword(options.ownerPassword),
+      padPassword(options.userPassword),
+      revision,
+      16
+    );
+    const fileKey = computeFileKey(
+      padPassword(options.userPassword),
+      o,
+      permissions,
+      documentId,
+      revision,
+      16,
+      true
+    );
+
+    handler = { fileKey, stringMethod: method, streamMethod: method, encryptMetadata: true };
+    encryptDict = context.obj({
+      Filter: 'Standard',
+      V: revision === 3 ? 2 : 4,
+      R: revision,
+      Length: 128,
+      O: hexString(o),
+      U: hexString(computeUserEntry(fileKey, documentId, revision)),
+      P: permissions,
+    });
+    if (revision === 4) {
+      encryptDict.set(
+        PDFName.of('CF'),
+        context.obj({
+          StdCF: { Type: 'CryptFilter', CFM: 'AESV2', AuthEvent: 'DocOpen', Length: 16 },
+        })
+      );
+      encryptDict.set(PDFName.of('StmF'), PDFName.of('StdCF'));
+      encryptDict.set(PDFName.of('StrF'), PDFName.of('StdCF'));
+      encryptDict.set(PDFName.of('EncryptMetadata'), PDFBool.True);
+    }
+  }
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (object instanceof PDFInvalidObject) continue;
+    context.assign(ref, cryptObject(ref, object, handler, 'encrypt'));
+  }
+  context.trailerInfo.Encrypt = context.register(encryptDict);
+}
+
+/**
+ * 验证密码并解密全部字符串和流，移除 Encrypt 字典；
+ * pdf-lib 无法展开加密的对象流，这些对象流解密后再解析
+ */
+async function decryptContext(context: PDFContext, password: string): Promise<void> {
+  const encryptDict = context.lookup(context.trailerInfo.Encrypt);
+  if (!(encryptDict instanceof PDFDict)) {
+    throw new Error('无法读取 PDF 的加密字典');
+  }
+  const handler = authenticate(encryptDict, documentIdOf(context), password);
+
+  if (context.trailerInfo.Encrypt instanceof PDFRef) {
+    context.delete(context.trailerInfo.Encrypt);
+  }
+  context.trailerInfo.Encrypt = undefined;
+
+  const pending: [PDFRef, PDFInvalidObject][] = [];
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (object instanceof PDFInvalidObject) {
+      pending.push([ref, object]);
+      continue;
+    }
+    context.assign(ref, cryptObject(ref, object, handler, 'decrypt'));
+  }
+
+  for (const [ref, invalid] of pending) {
+    const bytes = new Uint8Array(invalid.sizeInBytes());
+    invalid.copyBytesInto(bytes, 0);
+    let object: PDFObject;
+    try {
+      object = PDFObjectParser.forBytes(bytes, context).parseObject();
+    } catch {
+      continue; // 本身已损坏的对象保持原样
+    }
+    const decrypted = cryptObject(ref, object, handler, 'decrypt');
+    if (
+      decrypted instanceof PDFRawStream &&
+      decrypted.dict.lookup(PDFName.of('Type')) === PDFName.of('ObjStm')
+    ) {
+      // 对象流中的对象不再单独加密
+      context.delete(ref);
+      await PDFObjectStreamParser.forStream(decrypted).parseIntoContext();
+    } else {
+      context.assign(ref, decrypted);
+    }
+  }
+}
+
+/**
+ * 用密码验证标准安全处理程序，返回文件密钥和字符串、流所用的加密方法；先按所有者密码、再按用户密码验证
+ */
+function authenticate(encryptDict: PDFDict, documentId: Buffer, password: string): SecurityHandler {
+  const filter = encryptDict.lookup(PDFName.of('Filter'));
+  if (filter !== PDFName.of('Standard')) {
+    throw new Error(`不支持的 PDF 安全处理程序: ${filter?.toString() ?? '未知'}`);
+  }
+  const number = (key: string, fallback: number) => {
+    const value = encryptDict.lookup(PDFName.of(key));
+    return value instanceof PDFNumber ? value.asNumber() : fallback;
+  };
+  const bytes = (key: string) => {
+    const value = encryptDict.lookup(PDFName.of(key));
+    return value instanceof PDFString || value instanceof PDFHexString
+      ? Buffer.from(value.asBytes())
+      : Buffer.alloc(0);
+  };
+  const version = number('V', 0);
+  const revision = number('R', 2);
+  const permissions = number('P', -1) | 0;
+  const encryptMetadata = encryptDict.lookup(PDFName.of('EncryptMetadata')) !== PDFBool.False;
+  const o = bytes('O');
+  const u = bytes('U');
+
+  let fileKey: Buffer | undefined;
+  if (revision >= 5) {
+    const candidate = utf8Password(password);
+    const userEntry = u.subarray(0, 48);
+    if (hashR6(candidate, o.subarray(32, 40), userEntry, revision).equals(o.subarray(0, 32))) {
+      fileKey = aesNoPadding(
+        'aes-256-cbc',
+        hashR6(candidate, o.subarray(40, 48), userEntry, revision),
+        bytes('OE'),
+        true
+      );
+    } else if (
+      hashR6(candidate, u.subarray(32, 40), Buffer.alloc(0), revision).equals(u.subarray(0, 32))
+    ) {
+      fileKey = aesNoPadding(
+        'aes-256-cbc',
+        hashR6(candidate, u.subarray(40, 48), Buffer.alloc(0), revision),
+        bytes('UE'),
+        true
+      );
+    }
+  } else {
+    const keyLength = version === 1 ? 5 : number('Length', 40) / 8;
+    const tryUser = (padded: Buffer) => {
+      const key = computeFileKey(
+        padded,
+        o,
+        permissions,
+        documentId,
+        revision,
+        keyLength,
+        encryptMetadata
+      );
+      const expected = computeUserEntry(key, documentId, revision);
+      const compared = revision === 2 ? 32 : 16;
+      return expected.subarray(0, compared).equals(u.subarray(0, compared)) ? key : undefined;
+    };
+    // 所有者密码：用所有者密钥从 O 项还原出补齐后的用户密码
+    const ownerKey = computeOwnerKey(padPassword(password), revision, keyLength);
+    let userPadded: Buffer = o.subarray(0, 32);
+    if (revision === 2) {
+      userPadded = rc4(ownerKey, userPadded);
+    } else {
+      for (let round = 19; round >= 0; round--) {
+        userPadded = rc4(xorKey(ownerKey, round), userPadded);
+      }
+    }
+    fileKey = tryUser(userPadded) ?? tryUser(padPassword(password));
+  }
+  if (!fileKey) {
+    throw new Error(password ? 'PDF 密码错误' : 'PDF 文件已加密，请提供密码');
+  }
+
+  if (version < 4) {
+    return { fileKey, stringMethod: 'rc4', streamMethod: 'rc4', encryptMetadata };
+  }
+  const filters = encryptDict.lookupMaybe(PDFName.of('CF'), PDFDict);
+  const methodOf = (key: string): CryptMethod => {
+    const name = encryptDict.lookup(PDFName.of(key));
+    if (!(name instanceof PDFName) || name === PDFName.of('Identity')) return 'identity';
+    const cfm = filters?.lookupMaybe(name, PDFDict)?.lookup(PDFName.of('CFM'));
+    if (cfm === PDFName.of('V2')) return 'rc4';
+    if (cfm === PDFName.of('AESV2')) return 'aes-128';
+    if (cfm === PDFName.of('AESV3')) return 'aes-256';
+    return 'identity';
+  };
+  return {
+    fileKey,
+    stringMethod: methodOf('StrF'),
+    streamMethod: methodOf('StmF'),
+    encryptMetadata,
+  };
+}
+
+/**
+ * 加密或解密一个间接对象：字典和数组中的字符串逐个处理，流同时处理字典和内容
+ */
+function cryptObject(
+  ref: PDFRef,
+  object: PDFObject,
+  handler: SecurityHandler,
+  direction: 'encrypt' | 'decrypt'
+): PDFObject {
+  const crypt = (method: CryptMethod, data: Uint8Array) =>
+    cryptData(method, objectKey(handler, method, ref), Buffer.from(data), direction);
+  const transformStrings = (value: PDFObject): PDFObject => {
+    if (value instanceof PDFString || value instanceof PDFHexString) {
+      return hexString(crypt(handler.stringMethod, value.asBytes()));
+    }
+    if (value instanceof PDFDict) {
+      for (const [key, entry] of value.entries()) value.set(key, transformStrings(entry));
+    } else if (value instanceof PDFArray) {
+      for (let index = 0; index < value.size(); index++) {
+        value.set(index, transformStrings(value.get(index)));
+      }
+    }
+    return value;
+  };
+
+  if (!(object instanceof PDFStream)) {
+    return transformStrings(object);
+  }
+  transformStrings(object.dict);
+  const type = object.dict.lookup(PDFName.of('Type'));
+  if (
+    type === PDFName.of('XRef') ||
+    (type === PDFName.of('Metadata') && !handler.encryptMetadata)
+  ) {
+    return object;
+  }
+  return PDFRawStream.of(object.dict, crypt(handler.streamMethod, object.getContents()));
+}
+
+/**
+ * 对象密钥：AES-256 直接使用文件密钥，其余方法由文件密钥、对象号和生成号经 MD5 得到
+ */
+function objectKey(handler: SecurityHandler, method: CryptMethod, ref: PDFRef): Buffer {
+  if (method === 'aes-256' || method === 'identity') return handler.fileKey;
+  const suffix = Buffer.alloc(5);
+  suffix.writeUIntLE(ref.objectNumber, 0, 3);
+  suffix.writeUIntLE(ref.generationNumber, 3, 2);
+  const parts = [handler.fileKey, suffix];
+  if (method === 'aes-128') parts.push(Buffer.from('sAlT', 'latin1'));
+  return md5(Buffer.concat(parts)).subarray(0, Math.min(handler.fileKey.length + 5, 16));
+}
+
+/**
+ * 按加密方法处理数据；AES 数据以 16 字节随机初始向量开头，使用 PKCS#7 填充
+ */
+function cryptData(
+  method: CryptMethod,
+  key: Buffer,
+  data: Buffer,
+  direction: 'encrypt' | 'decrypt'
+): Buffer {
+  if (method === 'identity') return data;
+  if (method === 'rc4') return rc4(key, data);
+
+  const algorithm = method === 'aes-128' ? 'aes-128-cbc' : 'aes-256-cbc';
+  if (direction === 'encrypt') {
+    const iv = randomBytes(16);
+    const cipher = createCipheriv(algorithm, key, iv);
+    return Buffer.concat([iv, cipher.update(data), cipher.final()]);
+  }
+  if (data.length < 32 || data.length % 16 !== 0) {
+    return Buffer.alloc(0); // 长度不合法的数据（如空字符串）无法解密
+  }
+  try {
+    const decipher = createDecipheriv(algorithm, key, data.subarray(0, 16));
+    return Buffer.concat([decipher.update(data.subarray(16)), decipher.final()]);
+  } catch {
+    return Buffer.alloc(0);
+  }
+}
+
+/**
+ * 算法 3 的 a–d 步：由补齐后的所有者密码得到 RC4 密钥
+ */
+function computeOwnerKey(ownerPadded: Buffer, revision: number, keyLength: number): Buffer {
+  let key = md5(ownerPadded);
+  if (revision >= 3) {
+    for (let round = 0; round < 50; round++) key = md5(key);
+  }
+  return key.subarray(0, keyLength);
+}
+
+/**
+ * O 项：用所有者密钥多轮 RC4 加密补齐后的用户密码
+ */
+function computeOwnerEntry(
+  ownerPadded: Buffer,
+  userPadded: Buffer,
+  revision: number,
+  keyLength: number
+): Buffer {
+  const key = computeOwnerKey(ownerPadded, revision, keyLength);
+  let entry = rc4(key, userPadded);
+  if (revision >= 3) {
+    for (let round = 1; round <= 19; round++) entry = rc4(xorKey(key, round), entry);
+  }
+  return entry;
+}
+
+/**
+ * 算法 2：由补齐后的用户密码、O 项、权限和文档 ID 计算文件密钥
+ */
+function computeFileKey(
+  userPadded: Buffer,
+  ownerEntry: Buffer,
+  permissions: number,
+  documentId: Buffer,
+  revision: number,
+  keyLength: number,
+  encryptMetadata: boolean
+): Buffer {
+  const p = Buffer.alloc(4);
+  p.writeInt32LE(permissions | 0, 0);
+  const parts = [userPadded, ownerEntry.subarray(0, 32), p, documentId];
+  if (revision >= 4 && !encryptMetadata) parts.push(Buffer.from([0xff, 0xff, 0xff, 0xff]));
+  let key = md5(Buffer.concat(parts));
+  if (revision >= 3) {
+    for (let round = 0; round < 50; round++) key = md5(key.subarray(0, keyLength));
+  }
+  return key.subarray(0, keyLength);
+}
+
+/**
+ * U 项：R2 为用文件密钥加密的填充串，R3 及以上为多轮 RC4 加密的填充串与文档 ID 的摘要，补足 32 字节
+ */
+function computeUserEntry(fileKey: Buffer, documentId: Buffer, revision: number): Buffer {
+  if (revision === 2) return rc4(fileKey, PASSWORD_PADDING);
+  let entry = rc4(fileKey, md5(Buffer.concat([PASSWORD_PADDING, documentId])));
+  for (let round = 1; round <= 19; round++) entry = rc4(xorKey(fileKey, round), entry);
+  return Buffer.concat([entry, Buffer.alloc(16)]);
+}
+
+/**
+ * R5 使用 SHA-256；R6 按算法 2.B 交替使用 AES-128 和 SHA-256/384/512 迭代至少 64 轮
+ */
+function hashR6(password: Buffer, salt: Buffer, userEntry: Buffer, revision: number): Buffer {
+  let key = createHash('sha256')
+    .update(Buffer.concat([password, salt, userEntry]))
+    .digest();
+  if (revision === 5) return key;
+  for (let round = 0; ; round++) {
+    const block = Buffer.concat([password, key, userEntry]);
+    const repeated = Buffer.concat(Array(64).fill(block));
+    const encrypted = aesNoPadding(
+      'aes-128-cbc',
+      key.subarray(0, 16),
+      repeated,
+      false,
+      key.subarray(16, 32)
+    );
+    const remainder = encrypted.subarray(0, 16).reduce((sum, byte) => sum + byte, 0) % 3;
+    key = createHash(['sha256', 'sha384', 'sha512'][remainder]).update(encrypted).digest();
+    if (round >= 63 && encrypted[encrypted.length - 1] <= round - 31) break;
+  }
+  return key.subarray(0, 32);
+}
+
+function aesNoPadding(
+  algorithm: 'aes-128-cbc' | 'aes-256-cbc' | 'aes-256-ecb',
+  key: Buffer,
+  data: Buffer,
+  decrypt: boolean,
+  iv: Buffer | null = algorithm === 'aes-256-ecb' ? null : Buffer.alloc(16)
+): Buffer {
+  const cipher = decrypt
+    ? createDecipheriv(algorithm, key, iv)
+    : createCipheriv(algorithm, key, iv);
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+function rc4(key: Buffer, data: Buffer): Buffer {
+  const state = new Uint8Array(256);
+  for (let index = 0; index < 256; index++) state[index] = index;
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+  const output = Buffer.alloc(data.length);
+  for (let index = 0, i = 0, j = 0; index < data.length; index++) {
+    i = (i + 1) & 0xff;
+    j = (j + state[i]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+    output[index] = data[index] ^ state[(state[i] + state[j]) & 0xff];
+  }
+  return output;
+}
+
+function xorKey(key: Buffer, value: number): Buffer {
+  return Buffer.from(key.map(byte => byte ^ value));
+}
+
+function md5(data: Buffer): Buffer {
+  return createHash('md5').update(data).digest();
+}
+
+/**
+ * R2–R4 的密码：按 Latin-1 编码，截断或用填充串补足到 32 字节
+ */
+function padPassword(password: string): Buffer {
+  const bytes = Buffer.from(password, 'latin1').subarray(0, 32);
+  return Buffer.concat([bytes, PASSWORD_PADDING.subarray(0, 32 - bytes.length)]);
+}
+
+/**
+ * R5/R6 的密码：UTF-8 编码，最长 127 字节
+ */
+function utf8Password(password: string): Buffer {
+  return Buffer.from(password.normalize('NFKC'), 'utf8').subarray(0, 127);
+}
+
+function hexString(bytes: Uint8Array): PDFHexString {
+  return PDFHexString.of(Buffer.from(bytes).toString('hex'));
+}
+
+function documentIdOf(context: PDFContext): Buffer {
+  const id = context.lookup(context.trailerInfo.ID);
+  const first = id instanceof PDFArray ? id.lookup(0) : undefined;
+  return first instanceof PDFString || first instanceof PDFHexString
+    ? Buffer.from(first.asBytes())
+    : Buffer.alloc(0);
+}
+
+/**
+ * 文档 ID 参与 R2–R4 的密钥计算；文件尾没有 ID 时生成一个
+ */
+function ensureDocumentId(context: PDFContext): Buffer {
+  const existing = documentIdOf(context);
+  if (existing.length > 0) return existing;
+  const id = randomBytes(16);
+  context.trailerInfo.ID = context.obj([hexString(id), hexString(id)]);
+  return id;
+}
+
+/**
+ * 便捷函数：为 PDF 设置密码和权限
+ */
+export async function encryptPdf(
+  pdfPath: string,
+  options: PdfEncryptOptions = {}
+): Promise<PdfEncryptionResult> {
+  const encryptor = new PdfEncryptor();
+  return await encryptor.encrypt(pdfPath, options);
+}
+
+/**
+ * 便捷函数：用密码解密 PDF
+ */
+export async function decryptPdf(
+  pdfPath: string,
+  options: PdfDecryptOptions = {}
+): Promise<PdfEncryptionResult> {
+  const encryptor = new PdfEncryptor();
+  return await encryptor.decrypt(pdfPath, options);
+}
+
+export {
+  PdfEncryptor,
+  PdfEncryptionAlgorithm,
+  PdfPermission,
+  PdfEncryptOptions,
+  PdfDecryptOptions,
+  PdfEncryptionResult,
+  loadPdfDocument,
+};
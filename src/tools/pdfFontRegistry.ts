@@ -0,0 +1,466 @@
+/**
+ * PDF 字体注册表
+ * 按 CSS font-family 选择系统字体（无衬线/衬线/等宽），逐字符回退到 CJK 等补充字体，
+ * 排版阶段用 fontkit 同步测量宽度，输出阶段按需嵌入 pdf-lib 子集字体；
+ * 找不到任何 TrueType 字体时退回 PDF 标准 14 字体（仅 WinAnsi 字符）
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { PDFDocument, PDFFont, StandardFonts } from 'pdf-lib';
+import * as fontkit from 'fontkit';
+import type { FontFaceRule } from './cssStyleResolver';
+
+type FontCategory = 'sans' | 'serif' | 'mono';
+
+// regular / bold / italic / boldItalic 的候选文件
+type VariantFiles = [string[], string[], string[], string[]];
+
+interface FontFace {
+  id: string;
+  hasGlyph(codePoint: number): boolean;
+  widthOf(text: string, size: number): number;
+  ascent: number; // 相对字号的比例
+  descent: number; // 相对字号的比例（正数）
+  embed(doc: PDFDocument): Promise<PDFFont>;
+  sanitize(text: string): string;
+}
+
+// 一次选择的结果：主字体 + 回退字体 + 合成粗体/斜体
+interface FontSelection {
+  faces: FontFace[];
+  syntheticBold: boolean;
+  syntheticItalic: boolean;
+}
+
+interface TextRun {
+  text: string;
+  face: FontFace;
+}
+
+const LINUX_DIRS = [
+  '/usr/share/fonts/truetype/dejavu/',
+  '/usr/share/fonts/dejavu/',
+  '/usr/share/fonts/TTF/',
+  '/usr/share/fonts/truetype/liberation/',
+  '/usr/share/fonts/liberation/',
+];
+const MAC_DIR = '/System/Library/Fonts/Supplemental/';
+const WINDOWS_DIR = 'C:\\Windows\\Fonts\\';
+
+function variants(linux: string[][], mac: string[], windows: string[]): VariantFiles {
+  return [0, 1, 2, 3].map(index => [
+    ...linux[index].flatMap(file => LINUX_DIRS.map(dir => dir + file)),
+    MAC_DIR + mac[index],
+    WINDOWS_DIR + windows[index],
+  ]) as VariantFiles;
+}
+
+const SYSTEM_FONTS: Record<FontCategory, VariantFiles> = {
+  sans: variants(
+    [
+      ['DejaVuSans.ttf', 'LiberationSans-Regular.ttf'],
+      ['DejaVuSans-Bold.ttf', 'LiberationSans-Bold.ttf'],
+      ['DejaVuSans-Oblique.ttf', 'LiberationSans-Italic.ttf'],
+      ['DejaVuSans-BoldOblique.ttf', 'LiberationSans-BoldItalic.ttf'],
+    ],
+    ['Arial.ttf', 'Arial Bold.ttf', 'Arial Italic.ttf', 'Arial Bold Italic.ttf'],
+    ['arial.ttf', 'arialbd.ttf', 'ariali.ttf', 'arialbi.ttf']
+  ),
+  serif: variants(
+    [
+      ['DejaVuSerif.ttf', 'LiberationSerif-Regular.ttf'],
+      ['DejaVuSerif-Bold.ttf', 'LiberationSerif-Bold.ttf'],
+      ['DejaVuSerif-Italic.ttf', 'LiberationSerif-Italic.ttf'],
+      ['DejaVuSerif-BoldItalic.ttf', 'LiberationSerif-BoldItalic.ttf'],
+    ],
+    [
+      'Times New Roman.ttf',
+      'Times New Roman Bold.ttf',
+      'Times New Roman Italic.ttf',
+      'Times New Roman Bold Italic.ttf',
+    ],
+    ['times.ttf', 'timesbd.ttf', 'timesi.ttf', 'timesbi.ttf']
+  ),
+  mono: variants(
+    [
+      ['DejaVuSansMono.ttf', 'LiberationMono-Regular.ttf'],
+      ['DejaVuSansMono-Bold.ttf', 'LiberationMono-Bold.ttf'],
+      ['DejaVuSansMono-Oblique.ttf', 'LiberationMono-Italic.ttf'],
+      ['DejaVuSansMono-BoldOblique.ttf', 'LiberationMono-BoldItalic.ttf'],
+    ],
+    [
+      'Courier New.ttf',
+      'Courier New Bold.ttf',
+      'Courier New Italic.ttf',
+      'Courier New Bold Italic.ttf',
+    ],
+    ['cour.ttf', 'courbd.ttf', 'couri.ttf', 'courbi.ttf']
+  ),
+};
+
+// 主字体缺字时的补充字体（CJK 等）
+const FALLBACK_FONTS = [
+  '/usr/share/fonts/opentype/noto/NotoSansCJK-Regular.ttc',
+  '/usr/share/fonts/noto-cjk/NotoSansCJK-Regular.ttc',
+  '/usr/share/fonts/google-noto-cjk/NotoSansCJK-Regular.ttc',
+  '/usr/share/fonts/truetype/wqy/wqy-microhei.ttc',
+  '/usr/share/fonts/truetype/wqy/wqy-zenhei.ttc',
+  '/usr/share/fonts/wqy-microhei/wqy-microhei.ttc',
+  '/usr/share/fonts/truetype/droid/DroidSansFallbackFull.ttf',
+  '/usr/share/fonts/truetype/arphic/uming.ttc',
+  '/System/Library/Fonts/PingFang.ttc',
+  '/System/Library/Fonts/Hiragino Sans GB.ttc',
+  '/System/Library/Fonts/STHeiti Light.ttc',
+  '/Library/Fonts/Arial Unicode.ttf',
+  'C:\\Windows\\Fonts\\msyh.ttc',
+  'C:\\Windows\\Fonts\\simsun.ttc',
+  'C:\\Windows\\Fonts\\simhei.ttf',
+  'C:\\Windows\\Fonts\\seguisym.ttf',
+];
+
+const STANDARD_FONTS: Record<FontCategory, StandardFonts[]> = {
+  sans: [
+    StandardFonts.Helvetica,
+    StandardFonts.HelveticaBold,
+    StandardFonts.HelveticaOblique,
+    StandardFonts.HelveticaBoldOblique,
+  ],
+  serif: [
+    StandardFonts.TimesRoman,
+    StandardFonts.TimesRomanBold,
+    StandardFonts.TimesRomanItalic,
+    StandardFonts.TimesRomanBoldItalic,
+  ],
+  mono: [
+    StandardFonts.Courier,
+    StandardFonts.CourierBold,
+    StandardFonts.CourierOblique,
+    StandardFonts.CourierBoldOblique,
+  ],
+};
+
+const MONO_PATTERN = /mono|courier|consolas|menlo|monaco|code|console|fixed/;
+const SERIF_PATTERN =
+  /^serif$|times|georgia|cambria|garamond|palatino|book|song|simsun|宋|ming|mincho|baskerville|serif(?!.*sans)/;
+const SANS_PATTERN =
+  /sans|arial|helvetica|verdana|tahoma|segoe|calibri|system-ui|apple|roboto|yahei|hei|黑|pingfang|noto|ubuntu/;
+
+/**
+ * 按字体名归类为无衬线、衬线或等宽
+ */
+function classifyFamily(family: string): FontCategory | null {
+  if (MONO_PATTERN.test(family)) return 'mono';
+  if (SANS_PATTERN.test(family)) return 'sans';
+  if (SERIF_PATTERN.test(family)) return 'serif';
+  return null;
+}
+
+// 集合字体（ttc）嵌入时按缓冲区找到对应字形的 PostScript 名
+const collectionNames = new WeakMap<Uint8Array, string>();
+
+/**
+ * fontkit 2 的子集对象不再提供 encodeStream（pdf-lib 1.17 依赖它），这里包装补齐
+ */
+const fontkitAdapter = {
+  create(data: Uint8Array) {
+    const font: any = fontkit.create(Buffer.from(data), collectionNames.get(data));
+    const createSubset = font.createSubset.bind(font);
+    font.createSubset = () => {
+      const subset = createSubset();
+      subset.encodeStream ??= () => {
+        const stream = new PassThrough();
+        stream.end(Buffer.from(subset.encode()));
+        return stream;
+      };
+      return subset;
+    };
+    return font;
+  },
+};
+
+// 已打开的字体文件（跨文档复用）
+const openedFonts = new Map<string, { font: any; data: Uint8Array } | null>();
+
+function openFontFile(file: string): { font: any; data: Uint8Array } | null {
+  if (openedFonts.has(file)) return openedFonts.get(file)!;
+  let opened: { font: any; data: Uint8Array } | null = null;
+  if (existsSync(file)) {
+    try {
+      const data = new Uint8Array(readFileSync(file));
+      const created: any = fontkit.create(Buffer.from(data));
+      const font = created.fonts ? created.fonts[0] : created;
+      if (created.fonts) collectionNames.set(data, font.postscriptName);
+      // WOFF/WOFF2 的子集化结果缺少 glyf 表，嵌入后无法显示
+      if (/^WOFF/.test(font.type)) throw new Error(`不支持 ${font.type} 格式，请使用 TTF/OTF/TTC`);
+      opened = { font, data };
+    } catch (error: any) {
+      console.warn(`⚠️ 无法读取字体 ${file}: ${error.message}`);
+    }
+  }
+  openedFonts.set(file, opened);
+  return opened;
+}
+
+/**
+ * TrueType/OpenType 字体
+ */
+class TrueTypeFace implements FontFace {
+  readonly ascent: number;
+  readonly descent: number;
+  private widths = new Map<string, number>();
+  private embedded = new WeakMap<PDFDocument, Promise<PDFFont>>();
+
+  constructor(
+    readonly id: string,
+    private readonly font: any,
+    private readonly data: Uint8Array
+  ) {
+    this.ascent = font.ascent / font.unitsPerEm;
+    this.descent = Math.abs(font.descent) / font.unitsPerEm;
+  }
+
+  hasGlyph(codePoint: number): boolean {
+    return this.font.hasGlyphForCodePoint(codePoint);
+  }
+
+  // 与 pdf-lib 一致：按 layout 后的字形前进宽度求和
+  widthOf(text: string, size: number): number {
+    let width = this.widths.get(text);
+    if (width === undefined) {
+      width = 0;
+      for (const glyph of this.font.layout(this.sanitize(text)).glyphs) width += glyph.advanceWidth;
+      width /= this.font.unitsPerEm;
+      if (text.length <= 64) this.widths.set(text, width);
+    }
+    return width * size;
+  }
+
+  embed(doc: PDFDocument): Promise<PDFFont> {
+    let embedded = this.embedded.get(doc);
+    if (!embedded) {
+      doc.registerFontkit(fontkitAdapter);
+      embedded = doc.embedFont(this.data, { subset: true });
+      this.embedded.set(doc, embedded);
+    }
+    return embedded;
+  }
+
+  // 缺字替换为 □（或 ?），避免 .notdef 在 PDF 中按默认宽度绘制而与后文重叠
+  sanitize(text: string): string {
+    let missing = false;
+    for (const char of text) {
+      if (!this.hasGlyph(char.codePointAt(0)!) && !/\s/.test(char)) {
+        missing = true;
+        break;
+      }
+    }
+    if (!missing) return text;
+    const replacement = this.hasGlyph(0x25a1) ? '\u25a1' : '?';
+    return Array.from(text)
+      .map(char => (this.hasGlyph(char.codePointAt(0)!) || /\s/.test(char) ? char : replacement))
+      .join('');
+  }
+}
+
+/**
+ * PDF 标准 14 字体，只能编码 WinAnsi 字符
+ */
+class StandardFace implements FontFace {
+  readonly ascent: number;
+  readonly descent: number;
+  private charset: Set<number>;
+
+  constructor(
+    readonly id: string,
+    private readonly font: PDFFont
+  ) {
+    this.charset = new Set(font.getCharacterSet());
+    this.ascent = font.heightAtSize(1000, { descender: false }) / 1000;
+    this.descent = Math.max(0, font.heightAtSize(1000) / 1000 - this.ascent);
+  }
+
+  hasGlyph(codePoint: number): boolean {
+    return this.charset.has(codePoint);
+  }
+
+  widthOf(text: string, size: number): number {
+    return this.font.widthOfTextAtSize(this.sanitize(text), size);
+  }
+
+  async embed(): Promise<PDFFont> {
+    return this.font;
+  }
+
+  sanitize(text: string): string {
+    return Array.from(text)
+      .map(char => (this.charset.has(char.codePointAt(0)!) ? char : '?'))
+      .join('');
+  }
+}
+
+/**
+ * 字体注册表：每个 PDF 文档一个实例
+ */
+class PdfFontRegistry {
+  private faces = new Map<string, FontFace | null>();
+  private fallbacks: FontFace[];
+  private fontFaces: FontFaceRule[];
+  private baseDir: string;
+  private warnedMissing = false;
+
+  constructor(
+    private readonly doc: PDFDocument,
+    options: { fontFaces?: FontFaceRule[]; baseDir?: string } = {}
+  ) {
+    this.fontFaces = options.fontFaces ?? [];
+    this.baseDir = options.baseDir ?? process.cwd();
+    const extra = (process.env.PDF_FONT_PATH ?? '').split(path.delimiter).filter(Boolean);
+    this.fallbacks = [...extra, ...FALLBACK_FONTS]
+      .map(file => this.loadFile(file))
+      .filter((face): face is FontFace => !!face);
+  }
+
+  /**
+   * 按 font-family 列表和字重/字形选择字体
+   */
+  select(families: string[], bold: boolean, italic: boolean): FontSelection {
+    const variant = (bold ? 1 : 0) + (italic ? 2 : 0);
+
+    for (const family of families) {
+      const declared = this.fromFontFace(family, bold, italic);
+      if (declared) {
+        return {
+          faces: [declared.face, ...this.fallbacks],
+          syntheticBold: bold && !declared.bold,
+          syntheticItalic: italic && !declared.italic,
+        };
+      }
+    }
+
+    const category =
+      families.map(classifyFamily).find((found): found is FontCategory => !!found) ?? 'sans';
+    // 依次尝试：所需变体 → 去掉斜体 → 常规
+    for (const candidate of [variant, variant & 1, 0]) {
+      const face = this.loadVariant(category, candidate);
+      if (face) {
+        return {
+          faces: [face, ...this.fallbacks],
+          syntheticBold: bold && !(candidate & 1),
+          syntheticItalic: italic && !(candidate & 2),
+        };
+      }
+    }
+    for (const other of ['sans', 'serif', 'mono'] as FontCategory[]) {
+      const face = this.loadVariant(other, 0);
+      if (face) {
+        return { faces: [face, ...this.fallbacks], syntheticBold: bold, syntheticItalic: italic };
+      }
+    }
+    return {
+      faces: [this.standardFace(category, variant), ...this.fallbacks],
+      syntheticBold: false,
+      syntheticItalic: false,
+    };
+  }
+
+  /**
+   * 逐字符选择第一个包含字形的字体，拆分为连续片段
+   */
+  splitRuns(text: string, selection: FontSelection): TextRun[] {
+    const runs: TextRun[] = [];
+    const [primary] = selection.faces;
+    let lastMissing = false;
+    for (const char of text) {
+      const codePoint = char.codePointAt(0)!;
+      const found =
+        codePoint < 0x80 || /\s/.test(char)
+          ? primary
+          : selection.faces.find(candidate => candidate.hasGlyph(codePoint));
+      // 所有字体都缺字时单独成段，避免阅读器的缺字宽度影响后续文字位置
+      const missing = !found;
+      if (missing && !this.warnedMissing) {
+        console.warn(
+          `⚠️ 字符 "${char}" 没有可用字体，已替换显示；可通过 PDF_FONT_PATH 指定字体文件`
+        );
+        this.warnedMissing = true;
+      }
+      const face = found ?? primary;
+      const last = runs[runs.length - 1];
+      if (last && last.face === face && missing === lastMissing) last.text += char;
+      else runs.push({ text: char, face });
+      lastMissing = missing;
+    }
+    return runs;
+  }
+
+  measure(text: string, selection: FontSelection, size: number): number {
+    let width = 0;
+    for (const run of this.splitRuns(text, selection)) width += run.face.widthOf(run.text, size);
+    return width;
+  }
+
+  private fromFontFace(
+    family: string,
+    bold: boolean,
+    italic: boolean
+  ): { face: FontFace; bold: boolean; italic: boolean } | null {
+    const rules = this.fontFaces.filter(rule => rule.family === family);
+    if (rules.length === 0) return null;
+    const ranked = [...rules].sort(
+      (a, b) =>
+        Number(b.bold === bold) +
+        Number(b.italic === italic) -
+        (Number(a.bold === bold) + Number(a.italic === italic))
+    );
+    for (const rule of ranked) {
+      for (const src of rule.src) {
+        if (/^(https?:)?\/\//i.test(src) || src.startsWith('data:')) continue;
+        const file = path.resolve(
+          this.baseDir,
+          src.startsWith('file:') ? new URL(src).pathname : src
+        );
+        const face = this.loadFile(file);
+        if (face) return { face, bold: rule.bold, italic: rule.italic };
+      }
+    }
+    return null;
+  }
+
+  private loadVariant(category: FontCategory, variant: number): FontFace | null {
+    for (const file of SYSTEM_FONTS[category][variant]) {
+      const face = this.loadFile(file);
+      if (face) return face;
+    }
+    return null;
+  }
+
+  private loadFile(file: string): FontFace | null {
+    if (this.faces.has(file)) return this.faces.get(file)!;
+    const opened = openFontFile(file);
+    const face = opened ? new TrueTypeFace(file, opened.font, opened.data) : null;
+    this.faces.set(file, face);
+    return face;
+  }
+
+  private standardFace(category: FontCategory, variant: number): FontFace {
+    const name = STANDARD_FONTS[category][variant];
+    let face = this.faces.get(name);
+    if (!face) {
+      face = new StandardFace(name, this.doc.embedStandardFont(name));
+      this.faces.set(name, face);
+    }
+    return face;
+  }
+}
+
+export {
+  PdfFontRegistry,
+  FontFace,
+  FontSelection,
+  TextRun,
+  FontCategory,
+  classifyFamily,
+  fontkitAdapter,
+};
@@ -0,0 +1,850 @@
+/**
+ * PdfLayoutAnalyzer - PDF 版面分析器
+ * 基于 PdfTextExtractor 提取的行信息识别标题、段落、列表和简单表格，
+ * 输出可被 EnhancedHtmlToDocxConverter / EnhancedHtmlToMarkdownConverter 直接消费的语义化 HTML
+ */
+
+import * as path from 'path';
+import { escapeHtml } from '../security/securityConfig';
+import {
+  PdfTextExtractor,
+  PdfPageText,
+  PdfTextLine,
+  PdfTextSpan,
+  PdfTextItem,
+  PdfDocumentMetadata,
+} from './pdfTextExtractor';
+
+interface PdfLayoutOptions {
+  removeHeadersFooters?: boolean;
+  detectTables?: boolean;
+  detectLists?: boolean;
+  title?: string;
+  password?: string; // 加密 PDF 的密码
+  debug?: boolean;
+}
+
+interface ListItemBlock {
+  spans: PdfTextSpan[];
+  children: ListBlock[];
+}
+
+interface ListBlock {
+  type: 'list';
+  ordered: boolean;
+  start: number;
+  items: ListItemBlock[];
+}
+
+type LayoutBlock =
+  | { type: 'heading'; level: number; spans: PdfTextSpan[] }
+  | { type: 'paragraph'; spans: PdfTextSpan[] }
+  | ListBlock
+  | { type: 'table'; rows: string[][] };
+
+interface PdfToHtmlResult {
+  success: boolean;
+  content: string;
+  blocks: LayoutBlock[];
+  metadata: PdfDocumentMetadata & {
+    headings: number;
+    paragraphs: number;
+    lists: number;
+    tables: number;
+    converter: string;
+  };
+  error?: string;
+}
+
+// 版面中的一行：同一基线上的若干文本行（多于一个即可能是表格行）
+interface LayoutRow {
+  cells: PdfTextLine[];
+  pageNumber: number;
+  pageHeight: number;
+  columnLeft: number;
+  columnWidth: number;
+}
+
+const BULLET_PATTERN = /^([•●○◦▪▫■□‣⁃∙·\-–*])\s+/;
+const ORDERED_PATTERN =
+  /^(?:(?:\d{1,3}|[a-zA-Z]|[ivxIVX]{1,5})[.)]\s+|\(\d{1,3}\)\s*|(?:\d{1,3}|[一二三四五六七八九十]+)、\s*)/;
+const SENTENCE_END_PATTERN = /[.!?。！？:：;；"”’)）]$/;
+const CJK_PATTERN = /[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/;
+// 同一行内相邻文本片段的间距超过该字号倍数时视为单元格边界（词间空格约 0.3 倍，等宽字体约 0.6 倍）
+const CELL_GAP = 1;
+
+class PdfLayoutAnalyzer {
+  private options: Required<Omit<PdfLayoutOptions, 'title' | 'password'>> & {
+    title?: string;
+    password?: string;
+  };
+  private bodyFontSize = 12;
+  private headingSizes: number[] = [];
+
+  constructor(options: PdfLayoutOptions = {}) {
+    this.options = {
+      removeHeadersFooters: true,
+      detectTables: true,
+      detectLists: true,
+      debug: false,
+      ...options,
+    };
+  }
+
+  /**
+   * 分析页面文本，生成版面块
+   */
+  analyze(pages: PdfPageText[]): LayoutBlock[] {
+    const contentPages = this.options.removeHeadersFooters
+      ? this.removeRunningHeadersFooters(pages)
+      : pages;
+
+    this.bodyFontSize = this.detectBodyFontSize(contentPages);
+    this.headingSizes = this.detectHeadingSizes(contentPages);
+
+    const rows = contentPages.flatMap(page => this.buildRows(page));
+    const blocks = this.buildBlocks(rows);
+
+    if (this.options.debug) {
+      console.log(
+        `🧩 PDF 版面分析完成: 正文字号 ${this.bodyFontSize}pt, 标题字号 [${this.headingSizes.join(', ')}], ${blocks.length} 个块`
+      );
+    }
+
+    return blocks;
+  }
+
+  /**
+   * 将版面块渲染为完整的 HTML 文档
+   */
+  renderHtml(blocks: LayoutBlock[], title: string): string {
+    const body = blocks.map(block => this.renderBlock(block)).join('\n');
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: "Calibri", "Microsoft YaHei", sans-serif; font-size: 11pt; line-height: 1.5; max-width: 800px; margin: 0 auto; padding: 20px; }
+table { border-collapse: collapse; margin: 12px 0; }
+th, td { border: 1px solid #999; padding: 4px 8px; }
+th { background-color: #f2f2f2; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+  }
+
+  /**
+   * 去除在多数页面重复出现的页眉页脚与页码
+   */
+  private removeRunningHeadersFooters(pages: PdfPageText[]): PdfPageText[] {
+    const normalize = (text: string) => text.replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+    const isPageNumber = (text: string) =>
+      /^(page\s*)?[-–—]?\s*\d+\s*[-–—]?(\s*(of|\/)\s*\d+)?$/i.test(text) ||
+      /^第\s*\d+\s*页(\s*[，,/]?\s*共\s*\d+\s*页)?$/.test(text);
+
+    const marginLines = new Map<number, Set<PdfTextLine>>();
+    const pageCounts = new Map<string, number>();
+    for (const page of pages) {
+      const margins = this.findMarginLines(page);
+      marginLines.set(page.pageNumber, margins);
+      const keys = new Set(Array.from(margins).map(line => normalize(line.text)));
+      keys.forEach(key => pageCounts.set(key, (pageCounts.get(key) ?? 0) + 1));
+    }
+
+    const threshold = Math.max(2, Math.ceil(pages.length * 0.5));
+    return pages.map(page => ({
+      ...page,
+      lines: page.lines.filter(line => {
+        if (!marginLines.get(page.pageNumber)?.has(line)) {
+          return true;
+        }
+        if (isPageNumber(line.text.trim())) {
+          return false;
+        }
+        return pages.length < 3 || (pageCounts.get(normalize(line.text)) ?? 0) < threshold;
+      }),
+    }));
+  }
+
+  /**
+   * 页眉页脚候选：位于页面上下边缘、且与正文之间有明显空白的最外侧两行
+   */
+  private findMarginLines(page: PdfPageText): Set<PdfTextLine> {
+    const sorted = [...page.lines].sort((a, b) => a.y - b.y);
+    const margins = new Set<PdfTextLine>();
+
+    for (let i = 0; i < Math.min(2, sorted.length - 1); i++) {
+      const line = sorted[i];
+      const next = sorted[i + 1];
+      if (line.y < page.height * 0.1 && next.y - line.y > line.fontSize * 2) {
+        margins.add(line);
+      }
+    }
+    for (let i = sorted.length - 1; i >= Math.max(1, sorted.length - 2); i--) {
+      const line = sorted[i];
+      const previous = sorted[i - 1];
+      if (line.y > page.height * 0.9 && line.y - previous.y > line.fontSize * 2) {
+        margins.add(line);
+      }
+    }
+    return margins;
+  }
+
+  /**
+   * 以字符数加权的众数字号作为正文字号
+   */
+  private detectBodyFontSize(pages: PdfPageText[]): number {
+    const weights = new Map<number, number>();
+    for (const line of pages.flatMap(page => page.lines)) {
+      const size = Math.round(line.fontSize * 2) / 2;
+      weights.set(size, (weights.get(size) ?? 0) + line.text.length);
+    }
+
+    let best = 12;
+    let bestWeight = -1;
+    weights.forEach((weight, size) => {
+      if (weight > bestWeight) {
+        best = size;
+        bestWeight = weight;
+      }
+    });
+    return best;
+  }
+
+  /**
+   * 收集明显大于正文的字号，从大到小依次对应 h1-h3
+   */
+  private detectHeadingSizes(pages: PdfPageText[]): number[] {
+    const sizes = pages
+      .flatMap(page => page.lines)
+      .filter(line => line.fontSize >= this.bodyFontSize * 1.15 && line.text.length <= 200)
+      .map(line => Math.round(line.fontSize * 2) / 2)
+      .sort((a, b) => b - a);
+
+    const distinct: number[] = [];
+    for (const size of sizes) {
+      if (!distinct.length || distinct[distinct.length - 1] - size > 0.5) {
+        distinct.push(size);
+      }
+    }
+    return distinct;
+  }
+
+  /**
+   * 将同一基线、同一栏中的文本行合并为版面行
+   */
+  private buildRows(page: PdfPageText): LayoutRow[] {
+    const columnBounds = new Map<number, { left: number; right: number }>();
+    for (const line of page.lines) {
+      const bounds = columnBounds.get(line.column) ?? { left: Infinity, right: 0 };
+      bounds.left = Math.min(bounds.left, line.x);
+      bounds.right = Math.max(bounds.right, line.x + line.width);
+      columnBounds.set(line.column, bounds);
+    }
+
+    const rows: LayoutRow[] = [];
+    for (const line of page.lines) {
+      const current = rows[rows.length - 1];
+      const reference = current?.cells[0];
+      const tolerance = Math.max(2, line.fontSize * 0.4);
+      if (
+        current &&
+        current.pageNumber === page.pageNumber &&
+        reference.column === line.column &&
+        Math.abs(reference.y - line.y) <= tolerance
+      ) {
+        current.cells.push(line);
+        current.cells.sort((a, b) => a.x - b.x);
+        continue;
+      }
+
+      const bounds = columnBounds.get(line.column) ?? { left: 0, right: page.width };
+      rows.push({
+        cells: [line],
+        pageNumber: page.pageNumber,
+        pageHeight: page.height,
+        columnLeft: bounds.left,
+        columnWidth: Math.max(1, bounds.right - bounds.left),
+      });
+    }
+    return rows;
+  }
+
+  /**
+   * 将版面行依次归并为标题、段落、列表与表格
+   */
+  private buildBlocks(rows: LayoutRow[]): LayoutBlock[] {
+    const blocks: LayoutBlock[] = [];
+    let paragraph: { spans: PdfTextSpan[]; lastRow: LayoutRow; lines: number } | null = null;
+    let listStack: Array<{ block: ListBlock; markerX: number }> = [];
+    let lastListRow: LayoutRow | null = null;
+
+    const closeParagraph = () => {
+      if (paragraph) {
+        blocks.push({ type: 'paragraph', spans: paragraph.spans });
+        paragraph = null;
+      }
+    };
+    const closeList = () => {
+      listStack = [];
+      lastListRow = null;
+    };
+
+    for (let index = 0; index < rows.length; index++) {
+      if (this.options.detectTables) {
+        const tableRows = this.collectTableRows(rows, index);
+        if (tableRows.length) {
+          closeParagraph();
+          closeList();
+          blocks.push({ type: 'table', rows: this.buildTable(tableRows) });
+          index += tableRows.length - 1;
+          continue;
+        }
+      }
+
+      const row = rows[index];
+      const line = this.mergeRow(row);
+      const nextLine = rows[index + 1] ? this.mergeRow(rows[index + 1]) : null;
+
+      const headingLevel = this.getHeadingLevel(line, nextLine);
+      if (headingLevel > 0) {
+        closeParagraph();
+        closeList();
+        const previous = blocks[blocks.length - 1];
+        const previousRow = rows[index - 1];
+        if (
+          previous?.type === 'heading' &&
+          previous.level === headingLevel &&
+          previousRow?.pageNumber === row.pageNumber &&
+          line.y - previousRow.cells[0].y <= line.fontSize * 1.6
+        ) {
+          this.appendSpans(previous.spans, line.spans);
+        } else {
+          blocks.push({ type: 'heading', level: headingLevel, spans: [...line.spans] });
+        }
+        continue;
+      }
+
+      const marker = this.options.detectLists ? this.matchListMarker(line.text) : null;
+      if (marker) {
+        closeParagraph();
+        const item: ListItemBlock = {
+          spans: this.stripPrefix(line.spans, marker.length),
+          children: [],
+        };
+        this.placeListItem(blocks, listStack, item, line.x, marker);
+        lastListRow = row;
+        continue;
+      }
+
+      // 列表项的续行：缩进不小于列表标记且行距正常
+      const currentList = listStack[listStack.length - 1];
+      if (
+        currentList &&
+        lastListRow &&
+        line.x > currentList.markerX + line.fontSize * 0.5 &&
+        this.isContinuation(lastListRow, row)
+      ) {
+        const items = currentList.block.items;
+        this.appendSpans(items[items.length - 1].spans, line.spans);
+        lastListRow = row;
+        continue;
+      }
+      closeList();
+
+      if (paragraph && this.continuesParagraph(paragraph.lastRow, row, paragraph.spans)) {
+        this.appendSpans(paragraph.spans, line.spans);
+        paragraph.lastRow = row;
+        paragraph.lines++;
+        continue;
+      }
+
+      closeParagraph();
+      paragraph = { spans: [...line.spans], lastRow: row, lines: 1 };
+    }
+
+    closeParagraph();
+    return blocks;
+  }
+
+  /**
+   * 从 index 开始收集表格行，构成表格时返回这些行（跨列的单元格按列拆分）
+   */
+  private collectTableRows(rows: LayoutRow[], index: number): LayoutRow[] {
+    const candidate = this.findTableRows(rows, index);
+    if (candidate.length) {
+      const anchors = this.getColumnAnchors(candidate);
+      return candidate.map(row => this.splitAtColumns(row, anchors));
+    }
+
+    // 表头单元格间距较小时会被提取为一行，与下方表格的列对齐时作为表头，而不是标题或段落
+    const body = this.findTableRows(rows, index + 1);
+    if (!body.length || !this.isTableRowGap(rows[index], body[0])) {
+      return [];
+    }
+    const anchors = this.getColumnAnchors(body);
+    const header = this.splitAtColumns(rows[index], anchors);
+    const aligned = header.cells.every(cell => this.isAlignedCell(cell, anchors));
+    return header.cells.length >= 2 && aligned
+      ? [header, ...body.map(row => this.splitAtColumns(row, anchors))]
+      : [];
+  }
+
+  /**
+   * 从 index 开始收集连续的多单元格行，构成表格时返回这些行
+   */
+  private findTableRows(rows: LayoutRow[], index: number): LayoutRow[] {
+    const candidate: LayoutRow[] = [];
+    for (let i = index; i < rows.length; i++) {
+      const row = this.segmentRow(rows[i]);
+      const previous = candidate[candidate.length - 1];
+      if (row.cells.length < 2 || (previous && !this.isTableRowGap(previous, row))) {
+        break;
+      }
+      candidate.push(row);
+    }
+
+    if (candidate.length < 2) {
+      return [];
+    }
+
+    // 单元格起始位置需要与列锚点对齐，避免把普通的宽间距文本误判为表格
+    const anchors = this.getColumnAnchors(candidate);
+    const cells = candidate.flatMap(row => row.cells);
+    const aligned = cells.filter(cell => this.isAlignedCell(cell, anchors)).length;
+    return aligned / cells.length >= 0.7 ? candidate : [];
+  }
+
+  private isTableRowGap(previous: LayoutRow, row: LayoutRow): boolean {
+    const gap = row.cells[0].y - previous.cells[0].y;
+    // 列数相差一倍以上的相邻行不属于同一表格（如平铺的水印文字与正文）
+    const columns = [previous.cells.length, row.cells.length].sort((a, b) => a - b);
+    return (
+      row.pageNumber === previous.pageNumber &&
+      gap > 0 &&
+      gap <= row.cells[0].fontSize * 4 &&
+      columns[0] * 2 >= columns[1]
+    );
+  }
+
+  private isAlignedCell(cell: PdfTextLine, anchors: number[]): boolean {
+    return anchors.some(anchor => Math.abs(anchor - cell.x) <= cell.fontSize * 1.5);
+  }
+
+  /**
+   * 列锚点取列数最多的各行中同列单元格起点的中位数，居中的表头不会影响左对齐的数据列
+   */
+  private getColumnAnchors(rows: LayoutRow[]): number[] {
+    const columns = Math.max(...rows.map(row => row.cells.length));
+    const widest = rows.filter(row => row.cells.length === columns);
+    return widest[0].cells.map((_, i) => {
+      const starts = widest.map(row => row.cells[i].x).sort((a, b) => a - b);
+      return starts[Math.floor(starts.length / 2)];
+    });
+  }
+
+  /**
+   * 按文本片段之间的明显间隔拆分单元格：间距较小的表格单元格在提取时会被合并为一行
+   */
+  private segmentRow(row: LayoutRow): LayoutRow {
+    // 列表标记与正文之间的间隔不是单元格边界
+    if (row.cells.length === 1 && this.matchListMarker(row.cells[0].text)) {
+      return row;
+    }
+    const cells = row.cells.flatMap(cell => {
+      const groups: PdfTextItem[][] = [];
+      for (const item of cell.items) {
+        const group = groups[groups.length - 1];
+        const previous = group?.[group.length - 1];
+        if (previous && item.x - (previous.x + previous.width) <= item.fontSize * CELL_GAP) {
+          group.push(item);
+        } else if (item.text.trim()) {
+          groups.push([item]);
+        }
+      }
+      return groups.length > 1 ? groups.map(items => this.cellFromItems(cell, items)) : [cell];
+    });
+    return cells.length === row.cells.length ? row : { ...row, cells };
+  }
+
+  /**
+   * 单元格中与前文明显隔开、且起点落在另一列锚点上的文本片段拆为独立单元格
+   */
+  private splitAtColumns(row: LayoutRow, anchors: number[]): LayoutRow {
+    const nearest = (x: number) =>
+      anchors.reduce(
+        (best, anchor, i) => (Math.abs(anchor - x) < Math.abs(anchors[best] - x) ? i : best),
+        0
+      );
+    const cells = row.cells.flatMap(cell => {
+      const groups: PdfTextItem[][] = [];
+      for (const item of cell.items) {
+        const group = groups[groups.length - 1];
+        const previous = group?.[group.length - 1];
+        const column = nearest(item.x);
+        const startsColumn =
+          !previous ||
+          (item.x - (previous.x + previous.width) > item.fontSize * 0.35 &&
+            Math.abs(anchors[column] - item.x) <= item.fontSize * 1.5 &&
+            column !== nearest(group[0].x));
+        if (startsColumn) {
+          groups.push([item]);
+        } else {
+          group.push(item);
+        }
+      }
+      return groups.length > 1 ? groups.map(items => this.cellFromItems(cell, items)) : [cell];
+    });
+    return { ...row, cells };
+  }
+
+  private cellFromItems(cell: PdfTextLine, items: PdfTextItem[]): PdfTextLine {
+    let text = '';
+    items.forEach((item, i) => {
+      const previous = items[i - 1];
+      if (previous && item.x - (previous.x + previous.width) > item.fontSize * 0.2) {
+        text += ' ';
+      }
+      text += item.text;
+    });
+    text = text.replace(/\s+/g, ' ').trim();
+    const last = items[items.length - 1];
+    const bold = items.every(item => item.bold || !item.text.trim());
+    const italic = items.every(item => item.italic || !item.text.trim());
+    return {
+      ...cell,
+      text,
+      x: items[0].x,
+      width: last.x + last.width - items[0].x,
+      bold,
+      italic,
+      spans: [{ text, bold, italic }],
+      items,
+    };
+  }
+
+  private buildTable(rows: LayoutRow[]): string[][] {
+    const anchors = this.getColumnAnchors(rows);
+    return rows.map(row => {
+      const cells: string[] = new Array(anchors.length).fill('');
+      for (const cell of row.cells) {
+        let column = 0;
+        anchors.forEach((anchor, i) => {
+          if (Math.abs(anchor - cell.x) < Math.abs(anchors[column] - cell.x)) {
+            column = i;
+          }
+        });
+        cells[column] = cells[column] ? `${cells[column]} ${cell.text}` : cell.text;
+      }
+      return cells;
+    });
+  }
+
+  /**
+   * 将同一版面行的多个文本行合并为一行（非表格场景）
+   */
+  private mergeRow(row: LayoutRow): PdfTextLine {
+    if (row.cells.length === 1) {
+      return row.cells[0];
+    }
+
+    const first = row.cells[0];
+    const last = row.cells[row.cells.length - 1];
+    const spans: PdfTextSpan[] = [];
+    row.cells.forEach(cell => this.appendSpans(spans, cell.spans, ' '));
+    return {
+      ...first,
+      text: row.cells.map(cell => cell.text).join(' '),
+      width: last.x + last.width - first.x,
+      fontSize: Math.max(...row.cells.map(cell => cell.fontSize)),
+      bold: row.cells.every(cell => cell.bold),
+      italic: row.cells.every(cell => cell.italic),
+      spans,
+      items: row.cells.flatMap(cell => cell.items),
+    };
+  }
+
+  private getHeadingLevel(line: PdfTextLine, nextLine: PdfTextLine | null): number {
+    const text = line.text.trim();
+    if (!text || text.length > 200 || /^\d+(\.\d+)?$/.test(text)) {
+      return 0;
+    }
+
+    const size = Math.round(line.fontSize * 2) / 2;
+    if (size >= this.bodyFontSize * 1.15) {
+      const index = this.headingSizes.findIndex(headingSize => Math.abs(headingSize - size) <= 0.5);
+      return Math.min(index >= 0 ? index + 1 : this.headingSizes.length, 3);
+    }
+
+    // 与正文同字号的加粗短行视为低一级标题
+    const isBoldHeading =
+      line.bold &&
+      text.length <= 80 &&
+      !/[.,;，。；]$/.test(text) &&
+      (!nextLine || !nextLine.bold) &&
+      Math.abs(size - this.bodyFontSize) <= 1;
+    return isBoldHeading ? Math.min(this.headingSizes.length + 1, 4) : 0;
+  }
+
+  private matchListMarker(
+    text: string
+  ): { length: number; ordered: boolean; start: number } | null {
+    const bullet = BULLET_PATTERN.exec(text);
+    if (bullet) {
+      return { length: bullet[0].length, ordered: false, start: 1 };
+    }
+
+    // 编号后需跟空白（或中文顿号），避免把 3.5、e.g. 之类的文本误判为列表
+    const ordered = ORDERED_PATTERN.exec(text);
+    if (ordered && text.length > ordered[0].length) {
+      const numberMatch = /\d+/.exec(ordered[0]);
+      return {
+        length: ordered[0].length,
+        ordered: true,
+        start: numberMatch ? parseInt(numberMatch[0], 10) : 1,
+      };
+    }
+    return null;
+  }
+
+  private placeListItem(
+    blocks: LayoutBlock[],
+    listStack: Array<{ block: ListBlock; markerX: number }>,
+    item: ListItemBlock,
+    markerX: number,
+    marker: { ordered: boolean; start: number }
+  ): void {
+    const fontTolerance = this.bodyFontSize * 0.8;
+
+    while (listStack.length && markerX < listStack[listStack.length - 1].markerX - fontTolerance) {
+      listStack.pop();
+    }
+
+    const current = listStack[listStack.length - 1];
+    if (current && markerX > current.markerX + fontTolerance) {
+      // 缩进更深：作为上一项的子列表
+      const parentItems = current.block.items;
+      const nested: ListBlock = {
+        type: 'list',
+        ordered: marker.ordered,
+        start: marker.start,
+        items: [item],
+      };
+      parentItems[parentItems.length - 1].children.push(nested);
+      listStack.push({ block: nested, markerX });
+      return;
+    }
+
+    if (current && current.block.ordered === marker.ordered) {
+      current.block.items.push(item);
+      return;
+    }
+
+    const list: ListBlock = {
+      type: 'list',
+      ordered: marker.ordered,
+      start: marker.start,
+      items: [item],
+    };
+    if (current) {
+      listStack.pop();
+      const parent = listStack[listStack.length - 1];
+      if (parent) {
+        const parentItems = parent.block.items;
+        parentItems[parentItems.length - 1].children.push(list);
+      } else {
+        blocks.push(list);
+      }
+    } else {
+      blocks.push(list);
+    }
+    listStack.push({ block: list, markerX });
+  }
+
+  /**
+   * 判断下一行是否紧接上一行（同页同栏且行距正常）
+   */
+  private isContinuation(previousRow: LayoutRow, row: LayoutRow): boolean {
+    const previous = previousRow.cells[0];
+    const current = row.cells[0];
+    if (previousRow.pageNumber !== row.pageNumber || previous.column !== current.column) {
+      return false;
+    }
+    const gap = current.y - previous.y;
+    return gap > 0 && gap <= Math.max(previous.fontSize, current.fontSize) * 1.8;
+  }
+
+  private continuesParagraph(
+    previousRow: LayoutRow,
+    row: LayoutRow,
+    spans: PdfTextSpan[]
+  ): boolean {
+    const previous = this.mergeRow(previousRow);
+    const current = this.mergeRow(row);
+    const previousText = spans.map(span => span.text).join('');
+
+    if (Math.abs(previous.fontSize - current.fontSize) > 1) {
+      return false;
+    }
+
+    // 跨页或跨栏：上一段未以句末标点结束时视为同一段落
+    if (previousRow.pageNumber !== row.pageNumber || previous.column !== current.column) {
+      return !SENTENCE_END_PATTERN.test(previousText.trim());
+    }
+
+    if (!this.isContinuation(previousRow, row)) {
+      return false;
+    }
+
+    // 上一行明显提前结束且以句末标点结尾，说明段落已结束
+    const endsShort = previous.x + previous.width < row.columnLeft + row.columnWidth * 0.8;
+    if (endsShort && SENTENCE_END_PATTERN.test(previous.text.trim())) {
+      return false;
+    }
+
+    // 首行缩进表示新段落
+    const indented = current.x - row.columnLeft > current.fontSize * 1.2;
+    const previousAtMargin = previous.x - row.columnLeft <= current.fontSize * 0.5;
+    return !(indented && previousAtMargin);
+  }
+
+  /**
+   * 追加行内片段，处理连字符断词与中日韩文本的行尾连接
+   */
+  private appendSpans(target: PdfTextSpan[], spans: PdfTextSpan[], forcedJoiner?: string): void {
+    if (!spans.length) {
+      return;
+    }
+    const last = target[target.length - 1];
+    if (!last) {
+      target.push(...spans.map(span => ({ ...span })));
+      return;
+    }
+
+    const nextText = spans[0].text;
+    let joiner = forcedJoiner ?? ' ';
+    if (forcedJoiner === undefined) {
+      if (/[A-Za-z]-$/.test(last.text) && /^[a-z]/.test(nextText)) {
+        last.text = last.text.slice(0, -1);
+        joiner = '';
+      } else if (CJK_PATTERN.test(last.text.slice(-1)) || CJK_PATTERN.test(nextText.charAt(0))) {
+        joiner = '';
+      }
+    }
+
+    const [first, ...rest] = spans;
+    if (last.bold === first.bold && last.italic === first.italic) {
+      last.text += joiner + first.text;
+    } else {
+      last.text += joiner;
+      target.push({ ...first });
+    }
+    target.push(...rest.map(span => ({ ...span })));
+  }
+
+  private stripPrefix(spans: PdfTextSpan[], length: number): PdfTextSpan[] {
+    const result: PdfTextSpan[] = [];
+    let remaining = length;
+    for (const span of spans) {
+      if (remaining >= span.text.length) {
+        remaining -= span.text.length;
+        continue;
+      }
+      result.push({ ...span, text: span.text.slice(remaining) });
+      remaining = 0;
+    }
+    if (result.length) {
+      result[0].text = result[0].text.trimStart();
+    }
+    return result.filter(span => span.text.length > 0);
+  }
+
+  private renderBlock(block: LayoutBlock): string {
+    switch (block.type) {
+      case 'heading':
+        return `<h${block.level}>${escapeHtml(block.spans.map(span => span.text).join(''))}</h${block.level}>`;
+      case 'paragraph':
+        return `<p>${this.renderSpans(block.spans)}</p>`;
+      case 'list':
+        return this.renderList(block);
+      case 'table':
+        return this.renderTable(block.rows);
+      default:
+        return '';
+    }
+  }
+
+  private renderSpans(spans: PdfTextSpan[]): string {
+    return spans
+      .map(span => {
+        let html = escapeHtml(span.text);
+        if (span.italic) {
+          html = `<em>${html}</em>`;
+        }
+        if (span.bold) {
+          html = `<strong>${html}</strong>`;
+        }
+        return html;
+      })
+      .join('');
+  }
+
+  private renderList(list: ListBlock): string {
+    const tag = list.ordered ? 'ol' : 'ul';
+    const startAttr = list.ordered && list.start !== 1 ? ` start="${list.start}"` : '';
+    const items = list.items
+      .map(item => {
+        const children = item.children.map(child => this.renderList(child)).join('');
+        return `<li>${this.renderSpans(item.spans)}${children}</li>`;
+      })
+      .join('\n');
+    return `<${tag}${startAttr}>\n${items}\n</${tag}>`;
+  }
+
+  private renderTable(rows: string[][]): string {
+    const [header, ...body] = rows;
+    const headerHtml = header.map(cell => `<th>${escapeHtml(cell)}</th>`).join('');
+    const bodyHtml = body
+      .map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+      .join('\n');
+    return `<table>\n<thead>\n<tr>${headerHtml}</tr>\n</thead>\n<tbody>\n${bodyHtml}\n</tbody>\n</table>`;
+  }
+}
+
+/**
+ * 便捷函数：将 PDF 文件转换为语义化 HTML
+ */
+async function convertPdfToHtml(
+  inputPath: string,
+  options: PdfLayoutOptions = {}
+): Promise<PdfToHtmlResult> {
+  const extraction = await new PdfTextExtractor({
+    debug: options.debug,
+    password: options.password,
+  }).extractFromFile(inputPath);
+  const analyzer = new PdfLayoutAnalyzer(options);
+  const blocks = analyzer.analyze(extraction.pages);
+  const title =
+    options.title || extraction.metadata.title || path.basename(inputPath, path.extname(inputPath));
+
+  const count = (type: LayoutBlock['type']) => blocks.filter(block => block.type === type).length;
+  return {
+    success: true,
+    content: analyzer.renderHtml(blocks, title),
+    blocks,
+    metadata: {
+      ...extraction.metadata,
+      headings: count('heading'),
+      paragraphs: count('paragraph'),
+      lists: count('list'),
+      tables: count('table'),
+      converter: 'pdf-layout-analyzer',
+    },
+  };
+}
+
+export { PdfLayoutAnalyzer, convertPdfToHtml, PdfLayoutOptions, PdfToHtmlResult, LayoutBlock };
@@ -0,0 +1,276 @@
+/**
+ * PDF 文档属性与书签
+ * 写入文档信息字典（Info）并生成与之一致的 XMP 元数据流，可同时用给定的书签树替换文档书签
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PDFDict, PDFDocument, PDFHexString, PDFName, PDFString } from 'pdf-lib';
+import { PdfOutlineNode, writePdfOutline } from './pdfOutline';
+import { validateAndSanitizePath } from '../security/securityConfig';
+
+// 文档属性；未提供的字段保持不变，空字符串表示删除该字段
+interface PdfMetadata {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string[] | string;
+  creator?: string; // 创建文档的应用
+  producer?: string; // 生成 PDF 的程序
+  language?: string; // 如 zh-CN、en-US
+}
+
+// 书签输入：page 从 1 开始
+interface PdfBookmarkInput {
+  title: string;
+  page: number;
+  open?: boolean;
+  children?: PdfBookmarkInput[];
+}
+
+interface SetPdfMetadataOptions extends PdfMetadata {
+  outputPath?: string; // 默认覆盖原文件
+  bookmarks?: PdfBookmarkInput[]; // 指定时替换原有书签，空数组删除书签
+  debug?: boolean;
+}
+
+interface SetPdfMetadataResult {
+  success: boolean;
+  outputPath?: string;
+  metadata?: {
+    title?: string;
+    author?: string;
+    subject?: string;
+    keywords?: string;
+    creator?: string;
+    producer?: string;
+    language?: string;
+    creationDate?: string;
+    modificationDate?: string;
+    bookmarkCount?: number;
+  };
+  error?: string;
+}
+
+const INFO_KEYS: Record<'title' | 'author' | 'subject' | 'creator' | 'producer', string> = {
+  title: 'Title',
+  author: 'Author',
+  subject: 'Subject',
+  creator: 'Creator',
+  producer: 'Producer',
+};
+
+/**
+ * PDF 文档属性写入器类
+ */
+class PdfMetadataWriter {
+  /**
+   * 更新文档属性（及书签）并保存
+   */
+  async write(pdfPath: string, options: SetPdfMetadataOptions = {}): Promise<SetPdfMetadataResult> {
+    try {
+      if (options.debug) {
+        console.log('🚀 开始写入PDF文档属性...');
+        console.log('📄 输入文件:', pdfPath);
+      }
+
+      const outputPath: string = validateAndSanitizePath(options.outputPath ?? pdfPath, []);
+      // 不让 pdf-lib 自动改写 Producer 和日期，由 applyPdfMetadata 统一设置
+      const pdfDoc = await PDFDocument.load(await fs.readFile(pdfPath), {
+        updateMetadata: false,
+      });
+
+      applyPdfMetadata(pdfDoc, options);
+      let bookmarkCount: number | undefined;
+      if (options.bookmarks) {
+        bookmarkCount = writePdfOutline(pdfDoc, bookmarkNodes(options.bookmarks));
+        if (bookmarkCount > 0) {
+          pdfDoc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+        }
+      }
+
+      await fs.mkdir(path.dirname(outputPath), { recursive: true });
+      await fs.writeFile(outputPath, await pdfDoc.save());
+
+      if (options.debug) {
+        console.log('✅ PDF文档属性写入完成:', outputPath);
+      }
+      return {
+        success: true,
+        outputPath,
+        metadata: {
+          ...currentMetadata(pdfDoc),
+          bookmarkCount,
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ PDF文档属性写入失败:', error.message);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+}
+
+/**
+ * 写入文档信息字典、文档语言和 XMP 元数据；修改日期设为当前时间，缺少创建日期时一并补上
+ */
+function applyPdfMetadata(pdfDoc: PDFDocument, metadata: PdfMetadata): void {
+  const now = new Date();
+  for (const [field, key] of Object.entries(INFO_KEYS)) {
+    const value = metadata[field as keyof typeof INFO_KEYS];
+    if (value === undefined) continue;
+    if (value === '') {
+      removeInfoEntry(pdfDoc, key);
+    } else if (field === 'title') {
+      pdfDoc.setTitle(value);
+    } else if (field === 'author') {
+      pdfDoc.setAuthor(value);
+    } else if (field === 'subject') {
+      pdfDoc.setSubject(value);
+    } else if (field === 'creator') {
+      pdfDoc.setCreator(value);
+    } else {
+      pdfDoc.setProducer(value);
+    }
+  }
+  if (metadata.keywords !== undefined) {
+    const keywords = keywordList(metadata.keywords);
+    if (keywords.length > 0) {
+      pdfDoc.setKeywords([keywords.join(', ')]);
+    } else {
+      removeInfoEntry(pdfDoc, 'Keywords');
+    }
+  }
+  if (metadata.language !== undefined) {
+    if (metadata.language) {
+      pdfDoc.setLanguage(metadata.language);
+    } else {
+      pdfDoc.catalog.delete(PDFName.of('Lang'));
+    }
+  }
+  if (!pdfDoc.getCreationDate()) pdfDoc.setCreationDate(now);
+  pdfDoc.setModificationDate(now);
+
+  // XMP 按 UTF-8 编码写入
+  const xmp = pdfDoc.context.stream(Buffer.from(buildXmp(currentMetadata(pdfDoc), now), 'utf8'), {
+    Type: 'Metadata',
+    Subtype: 'XML',
+  });
+  pdfDoc.catalog.set(PDFName.of('Metadata'), pdfDoc.context.register(xmp));
+}
+
+function removeInfoEntry(pdfDoc: PDFDocument, key: string): void {
+  const info = pdfDoc.context.lookup(pdfDoc.context.trailerInfo.Info);
+  if (info instanceof PDFDict) info.delete(PDFName.of(key));
+}
+
+function keywordList(keywords: string[] | string): string[] {
+  const list = Array.isArray(keywords) ? keywords : keywords.split(/[,;，；]/);
+  return list.map(keyword => keyword.trim()).filter(Boolean);
+}
+
+function currentMetadata(pdfDoc: PDFDocument): NonNullable<SetPdfMetadataResult['metadata']> {
+  const lang = pdfDoc.catalog.lookup(PDFName.of('Lang'));
+  return {
+    title: pdfDoc.getTitle(),
+    author: pdfDoc.getAuthor(),
+    subject: pdfDoc.getSubject(),
+    keywords: pdfDoc.getKeywords(),
+    creator: pdfDoc.getCreator(),
+    producer: pdfDoc.getProducer(),
+    language:
+      lang instanceof PDFString || lang instanceof PDFHexString ? lang.decodeText() : undefined,
+    creationDate: pdfDoc.getCreationDate()?.toISOString(),
+    modificationDate: pdfDoc.getModificationDate()?.toISOString(),
+  };
+}
+
+/**
+ * 生成 XMP 元数据包：Dublin Core 标题、作者、主题、关键词和语言，以及 PDF 与 XMP 基本属性
+ */
+function buildXmp(metadata: NonNullable<SetPdfMetadataResult['metadata']>, now: Date): string {
+  const keywords = metadata.keywords ? keywordList(metadata.keywords) : [];
+  const alt = (value: string) =>
+    `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt>`;
+  const properties = [
+    '<dc:format>application/pdf</dc:format>',
+    metadata.title && `<dc:title>${alt(metadata.title)}</dc:title>`,
+    metadata.author &&
+      `<dc:creator><rdf:Seq><rdf:li>${escapeXml(metadata.author)}</rdf:li></rdf:Seq></dc:creator>`,
+    metadata.subject && `<dc:description>${alt(metadata.subject)}</dc:description>`,
+    keywords.length > 0 &&
+      `<dc:subject><rdf:Bag>${keywords
+        .map(keyword => `<rdf:li>${escapeXml(keyword)}</rdf:li>`)
+        .join('')}</rdf:Bag></dc:subject>`,
+    metadata.language &&
+      `<dc:language><rdf:Bag><rdf:li>${escapeXml(metadata.language)}</rdf:li></rdf:Bag></dc:language>`,
+    metadata.keywords && `<pdf:Keywords>${escapeXml(metadata.keywords)}</pdf:Keywords>`,
+    metadata.producer && `<pdf:Producer>${escapeXml(metadata.producer)}</pdf:Producer>`,
+    metadata.creator && `<xmp:CreatorTool>${escapeXml(metadata.creator)}</xmp:CreatorTool>`,
+    metadata.creationDate && `<xmp:CreateDate>${metadata.creationDate}</xmp:CreateDate>`,
+    metadata.modificationDate && `<xmp:ModifyDate>${metadata.modificationDate}</xmp:ModifyDate>`,
+    `<xmp:MetadataDate>${now.toISOString()}</xmp:MetadataDate>`,
+  ].filter(Boolean);
+
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+        xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:pdf="http://ns.adobe.com/pdf/1.3/"
+        xmlns:xmp="http://ns.adobe.com/xap/1.0/">
+      ${properties.join('\n      ')}
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+/**
+ * 书签输入（页码从 1 开始）转换为书签树节点
+ */
+function bookmarkNodes(bookmarks: PdfBookmarkInput[]): PdfOutlineNode[] {
+  return bookmarks.map(bookmark => {
+    if (!bookmark.title || !Number.isInteger(bookmark.page)) {
+      throw new Error(
+        `无效的书签: ${JSON.stringify({ title: bookmark.title, page: bookmark.page })}`
+      );
+    }
+    return {
+      title: bookmark.title,
+      pageIndex: bookmark.page - 1,
+      open: bookmark.open,
+      children: bookmark.children ? bookmarkNodes(bookmark.children) : undefined,
+    };
+  });
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 便捷函数：设置 PDF 文档属性与书签
+ */
+export async function setPdfMetadata(
+  pdfPath: string,
+  options: SetPdfMetadataOptions = {}
+): Promise<SetPdfMetadataResult> {
+  const writer = new PdfMetadataWriter();
+  return await writer.write(pdfPath, options);
+}
+
+export {
+  PdfMetadataWriter,
+  PdfMetadata,
+  PdfBookmarkInput,
+  SetPdfMetadataOptions,
+  SetPdfMetadataResult,
+  applyPdfMetadata,
+};
@@ -0,0 +1,249 @@
+/**
+ * PDF 书签（文档大纲）读写
+ * 读取时沿 Outlines 的 First/Next 链遍历书签树，解析显式目标、GoTo 动作和命名目标（Dests 字典与名称树），
+ * 得到每个书签的标题、层级和目标页；写入时按书签树生成 Outlines 字典，也可由标题列表按层级生成书签树
+ */
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNull,
+  PDFNumber,
+  PDFObject,
+  PDFRef,
+  PDFString,
+} from 'pdf-lib';
+
+interface PdfBookmark {
+  title: string;
+  level: number; // 顶层书签为 1
+  pageIndex?: number; // 目标页（从 0 开始），无法解析时为 undefined
+}
+
+// 写入用的书签树节点
+interface PdfOutlineNode {
+  title: string;
+  pageIndex: number; // 目标页，从 0 开始
+  top?: number; // 目标位置（页面坐标 y），省略时显示整页
+  open?: boolean; // 是否展开子书签，默认只展开顶层
+  children?: PdfOutlineNode[];
+}
+
+// 生成书签树用的标题
+interface OutlineHeading {
+  title: string;
+  level: number; // 1 为最高级
+  pageIndex: number;
+  top?: number;
+}
+
+const MAX_OUTLINE_ITEMS = 10000; // 防止损坏文件中的循环链表
+
+/**
+ * 按文档顺序（先序遍历）列出书签
+ */
+function readPdfOutline(pdfDoc: PDFDocument): PdfBookmark[] {
+  const bookmarks: PdfBookmark[] = [];
+  const outlines = pdfDoc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+  if (!outlines) return bookmarks;
+
+  const pageIndexes = new Map<string, number>();
+  pdfDoc.getPages().forEach((page, index) => pageIndexes.set(page.ref.toString(), index));
+  const visited = new Set<PDFDict>();
+
+  const walk = (first: PDFDict | undefined, level: number) => {
+    for (let item = first; item && !visited.has(item);) {
+      if (visited.size >= MAX_OUTLINE_ITEMS) return;
+      visited.add(item);
+      const destination = resolveDestination(pdfDoc, destinationOf(item));
+      const target = destination instanceof PDFArray ? destination.get(0) : undefined;
+      bookmarks.push({
+        title: textOf(item.lookup(PDFName.of('Title'))).trim(),
+        level,
+        pageIndex: target instanceof PDFRef ? pageIndexes.get(target.toString()) : undefined,
+      });
+      walk(item.lookupMaybe(PDFName.of('First'), PDFDict), level + 1);
+      item = item.lookupMaybe(PDFName.of('Next'), PDFDict);
+    }
+  };
+  walk(outlines.lookupMaybe(PDFName.of('First'), PDFDict), 1);
+  return bookmarks;
+}
+
+/**
+ * 书签的目标：Dest 项，或 GoTo 动作的 D 项
+ */
+function destinationOf(item: PDFDict): PDFObject | undefined {
+  const dest = item.lookup(PDFName.of('Dest'));
+  if (dest) return dest;
+  const action = item.lookupMaybe(PDFName.of('A'), PDFDict);
+  if (action?.lookup(PDFName.of('S')) === PDFName.of('GoTo')) {
+    return action.lookup(PDFName.of('D'));
+  }
+  return undefined;
+}
+
+/**
+ * 把命名目标解析为目标数组；目标也可能是带 D 项的字典
+ */
+function resolveDestination(
+  pdfDoc: PDFDocument,
+  dest: PDFObject | undefined
+): PDFObject | undefined {
+  let resolved = dest;
+  if (resolved instanceof PDFName) {
+    // PDF 1.1 的 Dests 字典，键为名称
+    const dests = pdfDoc.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict);
+    resolved = dests?.lookup(resolved);
+  } else if (resolved instanceof PDFString || resolved instanceof PDFHexString) {
+    const names = pdfDoc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+    const tree = names?.lookupMaybe(PDFName.of('Dests'), PDFDict);
+    resolved = tree ? lookupNameTree(tree, resolved.decodeText(), new Set()) : undefined;
+  }
+  if (resolved instanceof PDFDict) {
+    resolved = resolved.lookup(PDFName.of('D'));
+  }
+  return resolved;
+}
+
+/**
+ * 在名称树中查找键：叶节点的 Names 为 [键, 值, ...]，中间节点的 Kids 按 Limits 排序
+ */
+function lookupNameTree(node: PDFDict, key: string, visited: Set<PDFDict>): PDFObject | undefined {
+  if (visited.has(node)) return undefined;
+  visited.add(node);
+
+  const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+  if (names) {
+    for (let index = 0; index + 1 < names.size(); index += 2) {
+      if (textOf(names.lookup(index)) === key) return names.lookup(index + 1);
+    }
+  }
+  const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+  if (!kids) return undefined;
+  for (let index = 0; index < kids.size(); index++) {
+    const kid = kids.lookupMaybe(index, PDFDict);
+    if (!kid) continue;
+    const limits = kid.lookupMaybe(PDFName.of('Limits'), PDFArray);
+    if (limits && limits.size() >= 2) {
+      const low = textOf(limits.lookup(0));
+      const high = textOf(limits.lookup(1));
+      if (key < low || key > high) continue;
+    }
+    const found = lookupNameTree(kid, key, visited);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * 用书签树替换文档原有的书签；书签树为空时删除书签，返回写入的书签数
+ */
+function writePdfOutline(pdfDoc: PDFDocument, nodes: PdfOutlineNode[]): number {
+  const { context, catalog } = pdfDoc;
+  const pages = pdfDoc.getPages();
+  if (nodes.length === 0) {
+    catalog.delete(PDFName.of('Outlines'));
+    return 0;
+  }
+
+  let written = 0;
+  const writeLevel = (items: PdfOutlineNode[], parent: PDFRef, depth: number) => {
+    const refs = items.map(() => context.nextRef());
+    items.forEach((item, index) => {
+      const page = pages[item.pageIndex];
+      if (!page) {
+        throw new Error(`书签“${item.title}”的目标页超出文档页数（共 ${pages.length} 页）`);
+      }
+      const children = item.children ?? [];
+      const open = item.open ?? depth === 0;
+      const dict = context.obj({
+        Title: PDFHexString.fromText(item.title),
+        Parent: parent,
+        Dest:
+          item.top === undefined
+            ? [page.ref, PDFName.of('Fit')]
+            : [page.ref, PDFName.of('XYZ'), PDFNull, PDFNumber.of(item.top), PDFNull],
+      });
+      if (index > 0) dict.set(PDFName.of('Prev'), refs[index - 1]);
+      if (index < items.length - 1) dict.set(PDFName.of('Next'), refs[index + 1]);
+      if (children.length > 0) {
+        const [first, last] = writeLevel(children, refs[index], depth + 1);
+        dict.set(PDFName.of('First'), first);
+        dict.set(PDFName.of('Last'), last);
+        // 展开时 Count 为可见子孙数，折叠时取负值
+        const count = visibleCount(children, depth + 1);
+        dict.set(PDFName.of('Count'), PDFNumber.of(open ? count : -count));
+      }
+      context.assign(refs[index], dict);
+      written++;
+    });
+    return [refs[0], refs[refs.length - 1]];
+  };
+
+  const outlinesRef = context.nextRef();
+  const [first, last] = writeLevel(nodes, outlinesRef, 0);
+  context.assign(
+    outlinesRef,
+    context.obj({
+      Type: 'Outlines',
+      First: first,
+      Last: last,
+      Count: PDFNumber.of(visibleCount(nodes, 0)),
+    })
+  );
+  catalog.set(PDFName.of('Outlines'), outlinesRef);
+  return written;
+}
+
+/**
+ * 书签展开时可见的节点数：每个子节点本身，加上展开的子节点的可见子孙
+ */
+function visibleCount(nodes: PdfOutlineNode[], depth: number): number {
+  return nodes.reduce((count, node) => {
+    const open = node.open ?? depth === 0;
+    return count + 1 + (open ? visibleCount(node.children ?? [], depth + 1) : 0);
+  }, 0);
+}
+
+/**
+ * 按标题级别把标题列表嵌套为书签树：较低级的标题成为前面最近的较高级标题的子书签
+ */
+function outlineFromHeadings(headings: OutlineHeading[]): PdfOutlineNode[] {
+  const roots: PdfOutlineNode[] = [];
+  const stack: { level: number; node: PdfOutlineNode }[] = [];
+  for (const heading of headings) {
+    const node: PdfOutlineNode = {
+      title: heading.title,
+      pageIndex: heading.pageIndex,
+      top: heading.top,
+    };
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) stack.pop();
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      (parent.node.children ??= []).push(node);
+    } else {
+      roots.push(node);
+    }
+    stack.push({ level: heading.level, node });
+  }
+  return roots;
+}
+
+function textOf(value: PDFObject | undefined): string {
+  if (value instanceof PDFString || value instanceof PDFHexString) return value.decodeText();
+  if (value instanceof PDFName) return value.decodeText();
+  return '';
+}
+
+export {
+  PdfBookmark,
+  PdfOutlineNode,
+  OutlineHeading,
+  readPdfOutline,
+  writePdfOutline,
+  outlineFromHeadings,
+};
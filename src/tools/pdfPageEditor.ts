@@ -0,0 +1,491 @@
+/**
+ * PDF 页面操作
+ * 按顺序对 PDF 执行提取、删除、重排、旋转、插入空白页、N 合 1 拼版以及裁剪、缩放到标准纸张等页面级操作，
+ * 返回结果文档的页数和每页尺寸
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PDFDocument, PDFPage, PageSizes, degrees } from 'pdf-lib';
+import { parsePageRanges } from './documentSplitter';
+import { validateAndSanitizePath } from '../security/securityConfig';
+
+type PageOperationType =
+  'extract' | 'delete' | 'reorder' | 'rotate' | 'insertBlank' | 'nup' | 'resize' | 'crop';
+type PaperSize = 'A3' | 'A4' | 'A5' | 'Letter' | 'Legal';
+type Orientation = 'auto' | 'portrait' | 'landscape';
+
+interface PageMargins {
+  top?: number;
+  right?: number;
+  bottom?: number;
+  left?: number;
+}
+
+/**
+ * 单个页面操作；pages 为页码范围（如 "1-3,5,7-"），按执行到该操作时的页序计算
+ */
+interface PdfPageOperation {
+  type: PageOperationType;
+  pages?: string; // extract/delete/reorder 必填；rotate/resize/crop 默认全部页面
+  angle?: number; // rotate：顺时针角度，90 的倍数
+  after?: number; // insertBlank：插在第几页之后，0 表示最前
+  count?: number; // insertBlank：空白页数量，默认 1
+  size?: PaperSize; // insertBlank/nup/resize/crop 的目标纸张
+  orientation?: Orientation; // 纸张方向，auto 与原页面方向一致
+  perSheet?: number; // nup：每张 2 页或 4 页
+  margin?: number; // nup：纸张边距和页间距（磅），默认 18
+  margins?: PageMargins; // crop：按显示方向从四边裁掉的宽度（磅）
+}
+
+interface PdfPagesOptions {
+  outputPath: string;
+  operations: PdfPageOperation[];
+  debug?: boolean;
+}
+
+interface PdfPageInfo {
+  page: number; // 从 1 开始
+  width: number; // 显示尺寸（已计入旋转），单位磅
+  height: number;
+  rotation: number;
+  paperSize?: PaperSize; // 与标准纸张尺寸一致时给出
+}
+
+interface PdfPagesResult {
+  success: boolean;
+  outputPath?: string;
+  pageCount?: number;
+  pages?: PdfPageInfo[];
+  metadata?: {
+    inputPath: string;
+    originalPageCount: number;
+    steps: { type: PageOperationType; pageCount: number }[];
+  };
+  error?: string;
+}
+
+const PAPER_SIZES: Record<PaperSize, [number, number]> = {
+  A3: PageSizes.A3,
+  A4: PageSizes.A4,
+  A5: PageSizes.A5,
+  Letter: PageSizes.Letter,
+  Legal: PageSizes.Legal,
+};
+const PAPER_SIZE_TOLERANCE = 1; // 磅
+const DEFAULT_NUP_MARGIN = 18;
+
+/**
+ * PDF 页面编辑器类
+ */
+class PdfPageEditor {
+  private options: PdfPagesOptions = { outputPath: '', operations: [] };
+
+  /**
+   * 依次执行页面操作并保存结果
+   */
+  async edit(inputPath: string, options: PdfPagesOptions): Promise<PdfPagesResult> {
+    try {
+      this.options = options;
+      if (!options.operations?.length) {
+        throw new Error('未指定页面操作');
+      }
+
+      if (this.options.debug) {
+        console.log('🚀 开始处理PDF页面...');
+        console.log('📄 输入文件:', inputPath);
+      }
+
+      let pdfDoc = await PDFDocument.load(await fs.readFile(inputPath));
+      const originalPageCount = pdfDoc.getPageCount();
+      const steps: { type: PageOperationType; pageCount: number }[] = [];
+
+      for (const operation of options.operations) {
+        pdfDoc = await this.apply(pdfDoc, operation);
+        steps.push({ type: operation.type, pageCount: pdfDoc.getPageCount() });
+        if (this.options.debug) {
+          console.log(`📝 ${operation.type}: ${pdfDoc.getPageCount()} 页`);
+        }
+      }
+      if (pdfDoc.getPageCount() === 0) {
+        throw new Error('操作后文档没有剩余页面');
+      }
+
+      const outputPath: string = validateAndSanitizePath(options.outputPath, []);
+      await fs.mkdir(path.dirname(outputPath), { recursive: true });
+      await fs.writeFile(outputPath, await pdfDoc.save());
+
+      const pages = pdfDoc.getPages().map((page, index) => pageInfo(page, index));
+      if (this.options.debug) {
+        console.log(`✅ PDF页面处理完成，共 ${pages.length} 页:`, outputPath);
+      }
+      return {
+        success: true,
+        outputPath,
+        pageCount: pages.length,
+        pages,
+        metadata: {
+          inputPath,
+          originalPageCount,
+          steps,
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ PDF页面处理失败:', error.message);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * 执行单个操作；改变页序的操作生成新文档，其余操作直接修改页面
+   */
+  private async apply(pdfDoc: PDFDocument, operation: PdfPageOperation): Promise<PDFDocument> {
+    const pageCount = pdfDoc.getPageCount();
+    switch (operation.type) {
+      case 'extract':
+        return await rebuild(pdfDoc, this.requirePages(operation, pageCount));
+      case 'delete': {
+        const deleted = new Set(this.requirePages(operation, pageCount));
+        return await rebuild(
+          pdfDoc,
+          pdfDoc.getPageIndices().filter(index => !deleted.has(index))
+        );
+      }
+      case 'reorder': {
+        // 列出的页面按给定顺序排在前面，未列出的页面保持原顺序接在后面
+        const listed = [...new Set(this.requirePages(operation, pageCount))];
+        const rest = pdfDoc.getPageIndices().filter(index => !listed.includes(index));
+        return await rebuild(pdfDoc, [...listed, ...rest]);
+      }
+      case 'rotate':
+        this.rotate(pdfDoc, operation);
+        return pdfDoc;
+      case 'insertBlank':
+        this.insertBlank(pdfDoc, operation);
+        return pdfDoc;
+      case 'nup':
+        return await this.nUp(pdfDoc, operation);
+      case 'resize':
+        for (const index of selectedPages(operation, pageCount)) {
+          resizePage(pdfDoc.getPage(index), paperSizeOf(operation), operation.orientation);
+        }
+        return pdfDoc;
+      case 'crop':
+        for (const index of selectedPages(operation, pageCount)) {
+          cropPage(pdfDoc.getPage(index), operation);
+        }
+        return pdfDoc;
+      default:
+        throw new Error(`不支持的页面操作: ${(operation as PdfPageOperation).type}`);
+    }
+  }
+
+  private requirePages(operation: PdfPageOperation, pageCount: number): number[] {
+    if (!operation.pages) {
+      throw new Error(`${operation.type} 操作需要指定页码范围（pages）`);
+    }
+    return selectedPages(operation, pageCount);
+  }
+
+  private rotate(pdfDoc: PDFDocument, operation: PdfPageOperation): void {
+    const angle = operation.angle ?? 90;
+    if (angle % 90 !== 0) {
+      throw new Error(`旋转角度必须是 90 的倍数: ${angle}`);
+    }
+    for (const index of selectedPages(operation, pdfDoc.getPageCount())) {
+      const page = pdfDoc.getPage(index);
+      page.setRotation(degrees(normalizeRotation(rotationOf(page) + angle)));
+    }
+  }
+
+  /**
+   * 插入空白页：未指定纸张时与相邻页面尺寸相同
+   */
+  private insertBlank(pdfDoc: PDFDocument, operation: PdfPageOperation): void {
+    const pageCount = pdfDoc.getPageCount();
+    const after = Math.floor(operation.after ?? pageCount);
+    if (after < 0 || after > pageCount) {
+      throw new Error(`插入位置超出文档页数（共 ${pageCount} 页）: ${after}`);
+    }
+    const count = Math.max(Math.floor(operation.count ?? 1), 1);
+
+    let size: [number, number];
+    if (operation.size) {
+      size = orientSize(paperSizeOf(operation), operation.orientation ?? 'portrait', 0, 0);
+    } else if (pageCount > 0) {
+      const neighbour = pdfDoc.getPage(Math.max(after - 1, 0));
+      const { width, height } = displayedSize(neighbour);
+      size = [width, height];
+    } else {
+      size = PAPER_SIZES.A4;
+    }
+    for (let offset = 0; offset < count; offset++) {
+      pdfDoc.insertPage(after + offset, size);
+    }
+  }
+
+  /**
+   * N 合 1 拼版：2 页时横向纸张左右排列，4 页时纵向纸张 2×2 排列，页面按显示方向等比缩放居中
+   */
+  private async nUp(pdfDoc: PDFDocument, operation: PdfPageOperation): Promise<PDFDocument> {
+    const perSheet = operation.perSheet ?? 2;
+    if (perSheet !== 2 && perSheet !== 4) {
+      throw new Error(`每张纸只支持 2 页或 4 页: ${perSheet}`);
+    }
+    const [columns, rows] = perSheet === 2 ? [2, 1] : [2, 2];
+    const orientation =
+      operation.orientation && operation.orientation !== 'auto'
+        ? operation.orientation
+        : perSheet === 2
+          ? 'landscape'
+          : 'portrait';
+    const [sheetWidth, sheetHeight] = orientSize(paperSizeOf(operation), orientation, 0, 0);
+    const margin = Math.max(operation.margin ?? DEFAULT_NUP_MARGIN, 0);
+    const cellWidth = (sheetWidth - margin * (columns + 1)) / columns;
+    const cellHeight = (sheetHeight - margin * (rows + 1)) / rows;
+    if (cellWidth <= 0 || cellHeight <= 0) {
+      throw new Error(`边距过大: ${margin}`);
+    }
+
+    const output = await PDFDocument.create();
+    copyDocumentInfo(pdfDoc, output);
+    const sourcePages = pdfDoc.getPages();
+    const embedded = await output.embedPages(
+      sourcePages,
+      sourcePages.map(page => {
+        const box = page.getCropBox();
+        return { left: box.x, bottom: box.y, right: box.x + box.width, top: box.y + box.height };
+      })
+    );
+
+    let sheet: PDFPage | undefined;
+    embedded.forEach((embeddedPage, index) => {
+      const slot = index % perSheet;
+      if (slot === 0) sheet = output.addPage([sheetWidth, sheetHeight]);
+      const rotation = rotationOf(sourcePages[index]);
+      const { width, height } = displayedSize(sourcePages[index]);
+      const scale = Math.min(cellWidth / width, cellHeight / height);
+      const column = slot % columns;
+      const row = Math.floor(slot / columns);
+      // 单元格左下角，行从上往下排列
+      const cellX = margin + column * (cellWidth + margin) + (cellWidth - width * scale) / 2;
+      const cellY =
+        sheetHeight -
+        (margin + row * (cellHeight + margin)) -
+        cellHeight +
+        (cellHeight - height * scale) / 2;
+      // 页面旋转是顺时针显示，绘制时绕左下角顺时针旋转并平移回单元格
+      const drawWidth = embeddedPage.width * scale;
+      const drawHeight = embeddedPage.height * scale;
+      const offsets: Record<number, [number, number]> = {
+        0: [0, 0],
+        90: [0, drawWidth],
+        180: [drawWidth, drawHeight],
+        270: [drawHeight, 0],
+      };
+      const [offsetX, offsetY] = offsets[rotation];
+      sheet!.drawPage(embeddedPage, {
+        x: cellX + offsetX,
+        y: cellY + offsetY,
+        xScale: scale,
+        yScale: scale,
+        rotate: degrees(-rotation),
+      });
+    });
+    return output;
+  }
+}
+
+/**
+ * 操作选中的页面索引（从 0 开始）；未指定 pages 时为全部页面
+ */
+function selectedPages(operation: PdfPageOperation, pageCount: number): number[] {
+  if (!operation.pages) {
+    return Array.from({ length: pageCount }, (_, index) => index);
+  }
+  return parsePageRanges(operation.pages, pageCount).flatMap(range =>
+    Array.from({ length: range.end - range.start + 1 }, (_, offset) => range.start + offset)
+  );
+}
+
+/**
+ * 按给定页序复制到新文档；重复的页码各自成为独立页面，未选中的页面不会留在文件中
+ */
+async function rebuild(pdfDoc: PDFDocument, indices: number[]): Promise<PDFDocument> {
+  const output = await PDFDocument.create();
+  copyDocumentInfo(pdfDoc, output);
+  const pages = await output.copyPages(pdfDoc, indices);
+  pages.forEach(page => output.addPage(page));
+  return output;
+}
+
+function copyDocumentInfo(source: PDFDocument, target: PDFDocument): void {
+  const title = source.getTitle();
+  const author = source.getAuthor();
+  const subject = source.getSubject();
+  const keywords = source.getKeywords();
+  const creator = source.getCreator();
+  if (title) target.setTitle(title);
+  if (author) target.setAuthor(author);
+  if (subject) target.setSubject(subject);
+  if (keywords) target.setKeywords([keywords]);
+  if (creator) target.setCreator(creator);
+}
+
+/**
+ * 缩放到指定纸张：内容等比缩放后居中，通过调整页面框的原点完成平移，链接等注释随之对齐
+ */
+function resizePage(page: PDFPage, paper: [number, number], orientation?: Orientation): void {
+  const box = page.getCropBox();
+  const rotation = rotationOf(page);
+  const [targetWidth, targetHeight] = orientSize(
+    paper,
+    orientation ?? 'auto',
+    box.width,
+    box.height,
+    rotation
+  );
+  const scale = Math.min(targetWidth / box.width, targetHeight / box.height);
+  page.scaleContent(scale, scale);
+  page.scaleAnnotations(scale, scale);
+  const x = box.x * scale - (targetWidth - box.width * scale) / 2;
+  const y = box.y * scale - (targetHeight - box.height * scale) / 2;
+  page.setMediaBox(x, y, targetWidth, targetHeight);
+  page.setCropBox(x, y, targetWidth, targetHeight);
+  page.setBleedBox(x, y, targetWidth, targetHeight);
+  page.setTrimBox(x, y, targetWidth, targetHeight);
+  page.setArtBox(x, y, targetWidth, targetHeight);
+}
+
+/**
+ * 裁剪页面：按纸张尺寸居中裁剪，或按显示方向从四边裁掉指定宽度；只修改 CropBox
+ */
+function cropPage(page: PDFPage, operation: PdfPageOperation): void {
+  const box = page.getCropBox();
+  const rotation = rotationOf(page);
+  let { x, y, width, height } = box;
+
+  if (operation.size) {
+    const [targetWidth, targetHeight] = orientSize(
+      paperSizeOf(operation),
+      operation.orientation ?? 'auto',
+      width,
+      height,
+      rotation
+    );
+    x += Math.max(width - targetWidth, 0) / 2;
+    y += Math.max(height - targetHeight, 0) / 2;
+    width = Math.min(width, targetWidth);
+    height = Math.min(height, targetHeight);
+  } else if (operation.margins) {
+    // 显示方向的上右下左换算到页面坐标：页面顺时针旋转 90° 时，页面左边显示在上方
+    const displayed = [
+      operation.margins.top ?? 0,
+      operation.margins.right ?? 0,
+      operation.margins.bottom ?? 0,
+      operation.margins.left ?? 0,
+    ];
+    const steps = rotation / 90;
+    const [top, right, bottom, left] = [0, 1, 2, 3].map(side => displayed[(side + steps) % 4]);
+    x += left;
+    y += bottom;
+    width -= left + right;
+    height -= top + bottom;
+  } else {
+    throw new Error('crop 操作需要指定纸张（size）或边距（margins）');
+  }
+  if (width <= 0 || height <= 0) {
+    throw new Error('裁剪后页面尺寸为空');
+  }
+  page.setCropBox(x, y, width, height);
+}
+
+function paperSizeOf(operation: PdfPageOperation): [number, number] {
+  const size = operation.size ?? 'A4';
+  const paper = PAPER_SIZES[size];
+  if (!paper) {
+    throw new Error(`不支持的纸张尺寸: ${size}，支持 ${Object.keys(PAPER_SIZES).join('、')}`);
+  }
+  return paper;
+}
+
+/**
+ * 按方向确定纸张的宽高；auto 与原页面的显示方向一致。rotation 非 0 时返回页面坐标下的宽高
+ */
+function orientSize(
+  paper: [number, number],
+  orientation: Orientation,
+  width: number,
+  height: number,
+  rotation = 0
+): [number, number] {
+  const sideways = rotation === 90 || rotation === 270;
+  const landscape =
+    orientation === 'auto'
+      ? sideways
+        ? height > width
+        : width > height
+      : orientation === 'landscape';
+  const [short, long] = paper[0] < paper[1] ? paper : [paper[1], paper[0]];
+  const [displayedWidth, displayedHeight] = landscape ? [long, short] : [short, long];
+  return sideways ? [displayedHeight, displayedWidth] : [displayedWidth, displayedHeight];
+}
+
+function normalizeRotation(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+function rotationOf(page: PDFPage): number {
+  return normalizeRotation(page.getRotation().angle);
+}
+
+function displayedSize(page: PDFPage): { width: number; height: number } {
+  const { width, height } = page.getCropBox();
+  const rotation = rotationOf(page);
+  return rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height };
+}
+
+function pageInfo(page: PDFPage, index: number): PdfPageInfo {
+  const { width, height } = displayedSize(page);
+  const paperSize = (Object.keys(PAPER_SIZES) as PaperSize[]).find(name => {
+    const [short, long] = PAPER_SIZES[name];
+    const [pageShort, pageLong] = width < height ? [width, height] : [height, width];
+    return (
+      Math.abs(short - pageShort) <= PAPER_SIZE_TOLERANCE &&
+      Math.abs(long - pageLong) <= PAPER_SIZE_TOLERANCE
+    );
+  });
+  return {
+    page: index + 1,
+    width: Math.round(width * 100) / 100,
+    height: Math.round(height * 100) / 100,
+    rotation: rotationOf(page),
+    paperSize,
+  };
+}
+
+/**
+ * 便捷函数：执行 PDF 页面操作
+ */
+export async function editPdfPages(
+  inputPath: string,
+  options: PdfPagesOptions
+): Promise<PdfPagesResult> {
+  const editor = new PdfPageEditor();
+  return await editor.edit(inputPath, options);
+}
+
+export {
+  PdfPageEditor,
+  PageOperationType,
+  PaperSize,
+  Orientation,
+  PageMargins,
+  PdfPageOperation,
+  PdfPagesOptions,
+  PdfPageInfo,
+  PdfPagesResult,
+};
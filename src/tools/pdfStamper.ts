@@ -0,0 +1,279 @@
+/**
+ * PDF 页眉页脚盖印
+ * 按模板在每页的页眉、页脚位置写入页码、日期、文件名、标题和 Bates 编号，
+ * 含中文的文本使用与水印相同的系统中文字体查找
+ */
+
+import { existsSync, promises as fs } from 'fs';
+import * as path from 'path';
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, degrees, rgb } from 'pdf-lib';
+import { fontkitAdapter } from './pdfFontRegistry';
+import { validateAndSanitizePath } from '../security/securityConfig';
+
+type StampAlignment = 'left' | 'center' | 'right';
+
+interface PdfStampOptions {
+  outputPath?: string; // 默认覆盖原文件
+  headerText?: string; // 模板，支持 {n} {total} {date} {filename} {title} {bates}
+  footerText?: string;
+  headerPosition?: StampAlignment; // 默认 center
+  footerPosition?: StampAlignment;
+  stampFont?: string; // 标准字体名（如 Helvetica、Times-Roman、Courier）或 TTF/OTF 字体文件路径
+  stampFontSize?: number;
+  stampColor?: string; // #RRGGBB
+  stampMargin?: number; // 文字与页面边缘的距离（磅）
+  skipFirstPage?: boolean;
+  batesPrefix?: string;
+  batesStart?: number;
+  batesDigits?: number; // Bates 编号补零位数
+  debug?: boolean;
+}
+
+interface PdfStampResult {
+  success: boolean;
+  outputPath?: string;
+  metadata?: {
+    pageCount: number;
+    pagesStamped: number;
+    firstBates?: string;
+    lastBates?: string;
+  };
+  error?: string;
+}
+
+// 与水印共用的系统中文字体
+const CHINESE_FONT_PATHS = [
+  '/System/Library/Fonts/PingFang.ttc', // macOS 默认中文字体
+  '/System/Library/Fonts/Helvetica.ttc',
+  '/System/Library/Fonts/Arial Unicode MS.ttf',
+  '/Library/Fonts/Arial Unicode MS.ttf',
+  '/usr/share/fonts/truetype/droid/DroidSansFallbackFull.ttf',
+  'C:\\Windows\\Fonts\\simhei.ttf',
+];
+const CHINESE_PATTERN = /[\u4e00-\u9fa5]/;
+const PLACEHOLDER_PATTERN = /\{(n|total|date|filename|title|bates)\}/g;
+const DEFAULT_FONT_SIZE = 9;
+const DEFAULT_MARGIN = 24;
+const DEFAULT_BATES_DIGITS = 6;
+
+/**
+ * 为文本选择并嵌入字体：含中文时依次尝试系统中文字体，找不到或嵌入失败时使用 Helvetica
+ */
+async function embedTextFont(pdfDoc: PDFDocument, text: string): Promise<PDFFont> {
+  if (!CHINESE_PATTERN.test(text)) {
+    return await pdfDoc.embedFont(StandardFonts.Helvetica);
+  }
+  try {
+    // 注册fontkit以支持TTF字体
+    pdfDoc.registerFontkit(fontkitAdapter);
+    const fontPath = CHINESE_FONT_PATHS.find(candidate => existsSync(candidate));
+    if (fontPath) {
+      return await pdfDoc.embedFont(await fs.readFile(fontPath), { subset: true });
+    }
+    console.warn('未找到中文字体，将使用默认字体，中文字符可能无法正确显示');
+  } catch (e) {
+    console.warn('中文字体嵌入失败，使用默认字体:', e);
+  }
+  return await pdfDoc.embedFont(StandardFonts.Helvetica);
+}
+
+/**
+ * PDF 盖印类
+ */
+class PdfStamper {
+  private options: PdfStampOptions = {};
+
+  /**
+   * 在各页写入页眉页脚
+   */
+  async stamp(pdfPath: string, options: PdfStampOptions = {}): Promise<PdfStampResult> {
+    try {
+      this.options = options;
+      if (!options.headerText && !options.footerText) {
+        throw new Error('未指定页眉或页脚模板（headerText/footerText）');
+      }
+
+      if (this.options.debug) {
+        console.log('🚀 开始添加页眉页脚...');
+        console.log('📄 输入文件:', pdfPath);
+      }
+
+      const outputPath: string = validateAndSanitizePath(options.outputPath ?? pdfPath, []);
+      const pdfDoc = await PDFDocument.load(await fs.readFile(pdfPath));
+      const pages = pdfDoc.getPages();
+      const fontSize = options.stampFontSize ?? DEFAULT_FONT_SIZE;
+      const margin = options.stampMargin ?? DEFAULT_MARGIN;
+      const color = parseColor(options.stampColor);
+      const templates = `${options.headerText ?? ''}${options.footerText ?? ''}`;
+
+      const values = {
+        total: String(pages.length),
+        date: formatDate(new Date()),
+        filename: path.basename(outputPath),
+        title: pdfDoc.getTitle() || path.basename(outputPath, path.extname(outputPath)),
+      };
+      const fill = (template: string, pageNumber: number, bates: string) =>
+        template.replace(PLACEHOLDER_PATTERN, (_, key: string) =>
+          key === 'n'
+            ? String(pageNumber)
+            : key === 'bates'
+              ? bates
+              : values[key as keyof typeof values]
+        );
+      // 按填充后的文本选择字体，文件名、标题或 Bates 前缀含中文时也能正确显示
+      const font = await this.embedFont(pdfDoc, fill(templates, pages.length, this.batesNumber(0)));
+      const batesNumbers: string[] = [];
+
+      pages.forEach((page, index) => {
+        if (index === 0 && options.skipFirstPage) return;
+        const bates = this.batesNumber(batesNumbers.length);
+        batesNumbers.push(bates);
+
+        const stamps: [string | undefined, 'top' | 'bottom', StampAlignment][] = [
+          [options.headerText, 'top', options.headerPosition ?? 'center'],
+          [options.footerText, 'bottom', options.footerPosition ?? 'center'],
+        ];
+        for (const [template, edge, alignment] of stamps) {
+          if (!template) continue;
+          const text = encodableText(font, fill(template, index + 1, bates));
+          drawStamp(page, text, font, fontSize, color, margin, edge, alignment);
+        }
+      });
+
+      await fs.mkdir(path.dirname(outputPath), { recursive: true });
+      await fs.writeFile(outputPath, await pdfDoc.save());
+
+      if (this.options.debug) {
+        console.log(`✅ 页眉页脚添加完成，共 ${batesNumbers.length} 页:`, outputPath);
+      }
+      const usesBates = templates.includes('{bates}');
+      return {
+        success: true,
+        outputPath,
+        metadata: {
+          pageCount: pages.length,
+          pagesStamped: batesNumbers.length,
+          firstBates: usesBates ? batesNumbers[0] : undefined,
+          lastBates: usesBates ? batesNumbers[batesNumbers.length - 1] : undefined,
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ 添加页眉页脚失败:', error.message);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * 指定字体文件时嵌入该文件；标准字体名在文本不含中文时直接使用，否则按水印的方式查找中文字体
+   */
+  private async embedFont(pdfDoc: PDFDocument, text: string): Promise<PDFFont> {
+    const fontName = this.options.stampFont;
+    if (fontName && (Object.values(StandardFonts) as string[]).includes(fontName)) {
+      if (!CHINESE_PATTERN.test(text)) {
+        return await pdfDoc.embedFont(fontName as StandardFonts);
+      }
+    } else if (fontName) {
+      if (!existsSync(fontName)) {
+        throw new Error(`字体不存在: ${fontName}`);
+      }
+      pdfDoc.registerFontkit(fontkitAdapter);
+      return await pdfDoc.embedFont(await fs.readFile(fontName), { subset: true });
+    }
+    return await embedTextFont(pdfDoc, text);
+  }
+
+  /**
+   * 第 offset 个盖印页的 Bates 编号：前缀 + 补零的序号
+   */
+  private batesNumber(offset: number): string {
+    const start = this.options.batesStart ?? 1;
+    const digits = this.options.batesDigits ?? DEFAULT_BATES_DIGITS;
+    return `${this.options.batesPrefix ?? ''}${String(start + offset).padStart(digits, '0')}`;
+  }
+}
+
+/**
+ * 按页面的显示方向绘制一行文字：旋转过的页面上文字仍然正向显示
+ */
+function drawStamp(
+  page: PDFPage,
+  text: string,
+  font: PDFFont,
+  fontSize: number,
+  color: ReturnType<typeof rgb>,
+  margin: number,
+  edge: 'top' | 'bottom',
+  alignment: StampAlignment
+): void {
+  if (!text) return;
+  const box = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const sideways = rotation === 90 || rotation === 270;
+  const [width, height] = sideways ? [box.height, box.width] : [box.width, box.height];
+
+  const textWidth = font.widthOfTextAtSize(text, fontSize);
+  const u =
+    alignment === 'left'
+      ? margin
+      : alignment === 'right'
+        ? width - margin - textWidth
+        : (width - textWidth) / 2;
+  const v =
+    edge === 'top' ? height - margin - font.heightAtSize(fontSize, { descender: false }) : margin;
+
+  // 显示坐标换算到页面坐标：页面顺时针旋转 rotation 度显示
+  const [x, y] =
+    rotation === 90
+      ? [box.width - v, u]
+      : rotation === 180
+        ? [box.width - u, box.height - v]
+        : rotation === 270
+          ? [v, box.height - u]
+          : [u, v];
+  page.drawText(text, {
+    x: box.x + x,
+    y: box.y + y,
+    size: fontSize,
+    font,
+    color,
+    rotate: degrees(rotation),
+  });
+}
+
+/**
+ * 把字体无法编码的字符替换为 ?，避免标准字体遇到中文等字符时报错
+ */
+function encodableText(font: PDFFont, text: string): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text)
+    .map(char => (supported.has(char.codePointAt(0)!) ? char : '?'))
+    .join('');
+}
+
+function parseColor(color?: string): ReturnType<typeof rgb> {
+  const match = /^#?([0-9a-f]{6})$/i.exec(color ?? '');
+  if (!match) return rgb(0, 0, 0);
+  const value = parseInt(match[1], 16);
+  return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+}
+
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * 便捷函数：为 PDF 添加页眉页脚
+ */
+export async function stampPdf(
+  pdfPath: string,
+  options: PdfStampOptions = {}
+): Promise<PdfStampResult> {
+  const stamper = new PdfStamper();
+  return await stamper.stamp(pdfPath, options);
+}
+
+export { PdfStamper, StampAlignment, PdfStampOptions, PdfStampResult, embedTextFont };
@@ -0,0 +1,273 @@
+/**
+ * SVG 绘制到 PDF 页面
+ * 支持常见图形子集：path/rect/circle/ellipse/line/polyline/polygon/text，
+ * 分组的平移与等比缩放变换，fill/stroke/opacity 及 style 属性
+ */
+
+import { PDFDocument, PDFPage, rgb } from 'pdf-lib';
+import * as cheerio from 'cheerio';
+import { parseCssColor, parseDeclarations, RgbaColor } from './cssStyleResolver';
+import { PdfFontRegistry } from './pdfFontRegistry';
+
+// 当前坐标系：svg 点 (px, py) 映射到 PDF 点 (x + scale*px, y - scale*py)
+interface SvgTransform {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+interface SvgPaint {
+  fill: RgbaColor | null;
+  stroke: RgbaColor | null;
+  strokeWidth: number;
+  opacity: number;
+  fontSize: number;
+  fontFamily: string[];
+  fontWeight: string;
+  textAnchor: string;
+}
+
+const INHERITED_PAINT: SvgPaint = {
+  fill: { r: 0, g: 0, b: 0, a: 1 },
+  stroke: null,
+  strokeWidth: 1,
+  opacity: 1,
+  fontSize: 16,
+  fontFamily: ['sans-serif'],
+  fontWeight: 'normal',
+  textAnchor: 'start',
+};
+
+/**
+ * SVG 渲染器
+ */
+class PdfSvgRenderer {
+  constructor(
+    private readonly doc: PDFDocument,
+    private readonly fonts: PdfFontRegistry
+  ) {}
+
+  /**
+   * 在 PDF 坐标 (x, top) 处按 width×height（pt）绘制 SVG，viewBox 等比缩放居中
+   */
+  async draw(
+    page: PDFPage,
+    svg: string,
+    box: { x: number; top: number; width: number; height: number }
+  ): Promise<void> {
+    const $ = cheerio.load(svg, { xmlMode: true });
+    const root = $('svg').first();
+    if (root.length === 0) return;
+
+    const viewBox = (root.attr('viewBox') ?? '').split(/[\s,]+/).map(Number);
+    const [minX, minY, boxWidth, boxHeight] =
+      viewBox.length === 4 && viewBox.every(n => !isNaN(n)) ? viewBox : [0, 0, NaN, NaN];
+    const viewWidth = boxWidth > 0 ? boxWidth : parseFloat(root.attr('width') ?? '') || box.width;
+    const viewHeight =
+      boxHeight > 0 ? boxHeight : parseFloat(root.attr('height') ?? '') || box.height;
+    const scale = Math.min(box.width / viewWidth, box.height / viewHeight);
+    const transform: SvgTransform = {
+      x: box.x + (box.width - viewWidth * scale) / 2 - minX * scale,
+      y: box.top - (box.height - viewHeight * scale) / 2 + minY * scale,
+      scale,
+    };
+    await this.drawChildren(page, $, root[0], transform, this.paint(root[0], INHERITED_PAINT));
+  }
+
+  private async drawChildren(
+    page: PDFPage,
+    $: any,
+    node: any,
+    transform: SvgTransform,
+    paint: SvgPaint
+  ): Promise<void> {
+    for (const child of node.children ?? []) {
+      if (child.type !== 'tag') continue;
+      const childPaint = this.paint(child, paint);
+      const childTransform = this.applyTransform(transform, child.attribs?.transform);
+      if (childPaint.opacity <= 0 || child.attribs?.display === 'none') continue;
+      switch (child.name) {
+        case 'g':
+        case 'a':
+        case 'svg':
+          await this.drawChildren(page, $, child, childTransform, childPaint);
+          break;
+        case 'text':
+          await this.drawText(page, $, child, childTransform, childPaint);
+          break;
+        default: {
+          const path = this.shapePath(child);
+          if (path) this.drawPath(page, path, childTransform, childPaint);
+        }
+      }
+    }
+  }
+
+  private paint(node: any, parent: SvgPaint): SvgPaint {
+    const attrs: Record<string, string> = { ...(node.attribs ?? {}) };
+    if (attrs.style) {
+      for (const declaration of parseDeclarations(attrs.style)) {
+        attrs[declaration.property] = declaration.value;
+      }
+    }
+    const color = (value: string | undefined, inherited: RgbaColor | null) => {
+      if (value === undefined) return inherited;
+      if (value === 'none' || value.startsWith('url(')) return null;
+      return parseCssColor(value) ?? inherited;
+    };
+    const fill = color(attrs.fill, parent.fill);
+    const stroke = color(attrs.stroke, parent.stroke);
+    const alpha = (value: string | undefined) => (value === undefined ? 1 : parseFloat(value));
+    return {
+      fill: fill && { ...fill, a: fill.a * alpha(attrs['fill-opacity']) },
+      stroke: stroke && { ...stroke, a: stroke.a * alpha(attrs['stroke-opacity']) },
+      strokeWidth: attrs['stroke-width'] ? parseFloat(attrs['stroke-width']) : parent.strokeWidth,
+      opacity: parent.opacity * alpha(attrs.opacity),
+      fontSize: attrs['font-size']
+        ? parseFloat(attrs['font-size']) || parent.fontSize
+        : parent.fontSize,
+      fontFamily: attrs['font-family']
+        ? attrs['font-family']
+            .split(',')
+            .map(family => family.trim().replace(/['"]/g, '').toLowerCase())
+        : parent.fontFamily,
+      fontWeight: attrs['font-weight'] ?? parent.fontWeight,
+      textAnchor: attrs['text-anchor'] ?? parent.textAnchor,
+    };
+  }
+
+  /**
+   * 仅支持平移与等比缩放（matrix 取其平移和 x 方向缩放）
+   */
+  private applyTransform(base: SvgTransform, value?: string): SvgTransform {
+    if (!value) return base;
+    let result = base;
+    for (const match of value.matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+      const args = match[2]
+        .split(/[\s,]+/)
+        .filter(Boolean)
+        .map(Number);
+      let [dx, dy, k] = [0, 0, 1];
+      if (match[1] === 'translate') [dx, dy] = [args[0] ?? 0, args[1] ?? 0];
+      else if (match[1] === 'scale') k = args[0] ?? 1;
+      else if (match[1] === 'matrix' && args.length === 6)
+        [k, dx, dy] = [args[0], args[4], args[5]];
+      else continue;
+      result = {
+        x: result.x + dx * result.scale,
+        y: result.y - dy * result.scale,
+        scale: result.scale * k,
+      };
+    }
+    return result;
+  }
+
+  private shapePath(node: any): string | null {
+    const attr = (name: string) => parseFloat(node.attribs?.[name] ?? '0') || 0;
+    switch (node.name) {
+      case 'path':
+        return node.attribs?.d || null;
+      case 'rect': {
+        const [x, y, w, h] = [attr('x'), attr('y'), attr('width'), attr('height')];
+        if (w <= 0 || h <= 0) return null;
+        const r = Math.min(attr('rx') || attr('ry'), w / 2, h / 2);
+        if (r <= 0) return `M${x},${y} H${x + w} V${y + h} H${x} Z`;
+        return (
+          `M${x + r},${y} H${x + w - r} A${r},${r} 0 0 1 ${x + w},${y + r} V${y + h - r} ` +
+          `A${r},${r} 0 0 1 ${x + w - r},${y + h} H${x + r} A${r},${r} 0 0 1 ${x},${y + h - r} ` +
+          `V${y + r} A${r},${r} 0 0 1 ${x + r},${y} Z`
+        );
+      }
+      case 'circle':
+      case 'ellipse': {
+        const [cx, cy] = [attr('cx'), attr('cy')];
+        const rx = node.name === 'circle' ? attr('r') : attr('rx');
+        const ry = node.name === 'circle' ? attr('r') : attr('ry');
+        if (rx <= 0 || ry <= 0) return null;
+        return `M${cx - rx},${cy} A${rx},${ry} 0 1 0 ${cx + rx},${cy} A${rx},${ry} 0 1 0 ${cx - rx},${cy} Z`;
+      }
+      case 'line':
+        return `M${attr('x1')},${attr('y1')} L${attr('x2')},${attr('y2')}`;
+      case 'polyline':
+      case 'polygon': {
+        const points = (node.attribs?.points ?? '')
+          .trim()
+          .split(/[\s,]+/)
+          .map(Number);
+        if (points.length < 4) return null;
+        let path = `M${points[0]},${points[1]}`;
+        for (let i = 2; i + 1 < points.length; i += 2) path += ` L${points[i]},${points[i + 1]}`;
+        return node.name === 'polygon' ? `${path} Z` : path;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private drawPath(page: PDFPage, path: string, transform: SvgTransform, paint: SvgPaint): void {
+    const fill = paint.fill && paint.fill.a > 0 ? paint.fill : null;
+    const stroke =
+      paint.stroke && paint.stroke.a > 0 && paint.strokeWidth > 0 ? paint.stroke : null;
+    if (!fill && !stroke) return;
+    page.drawSvgPath(path, {
+      x: transform.x,
+      y: transform.y,
+      scale: transform.scale,
+      color: fill ? toRgb(fill) : undefined,
+      opacity: fill ? fill.a * paint.opacity : undefined,
+      borderColor: stroke ? toRgb(stroke) : undefined,
+      borderWidth: stroke ? paint.strokeWidth * transform.scale : undefined,
+      borderOpacity: stroke ? stroke.a * paint.opacity : undefined,
+    });
+  }
+
+  private async drawText(
+    page: PDFPage,
+    $: any,
+    node: any,
+    transform: SvgTransform,
+    paint: SvgPaint
+  ): Promise<void> {
+    const text = $(node).text().replace(/\s+/g, ' ').trim();
+    if (!text || !paint.fill) return;
+    const em = (value: string | undefined) => {
+      if (!value) return 0;
+      const number = parseFloat(value) || 0;
+      return /em$/.test(value) ? number * paint.fontSize : number;
+    };
+    const tspan = $(node).children('tspan').first();
+    const x = em(node.attribs?.x ?? tspan.attr('x'));
+    const y = em(node.attribs?.y ?? tspan.attr('y')) + em(node.attribs?.dy ?? tspan.attr('dy'));
+
+    const selection = this.fonts.select(
+      paint.fontFamily,
+      /bold|[6-9]00/.test(paint.fontWeight),
+      false
+    );
+    const size = paint.fontSize * transform.scale;
+    const width = this.fonts.measure(text, selection, size);
+    let cursor = transform.x + x * transform.scale;
+    if (paint.textAnchor === 'middle') cursor -= width / 2;
+    else if (paint.textAnchor === 'end') cursor -= width;
+    const baseline = transform.y - y * transform.scale;
+
+    for (const run of this.fonts.splitRuns(text, selection)) {
+      const font = await run.face.embed(this.doc);
+      page.drawText(run.face.sanitize(run.text), {
+        x: cursor,
+        y: baseline,
+        size,
+        font,
+        color: toRgb(paint.fill),
+        opacity: paint.fill.a * paint.opacity,
+      });
+      cursor += run.face.widthOf(run.text, size);
+    }
+  }
+}
+
+function toRgb(color: RgbaColor) {
+  return rgb(color.r / 255, color.g / 255, color.b / 255);
+}
+
+export { PdfSvgRenderer, toRgb };
@@ -0,0 +1,1627 @@
+/**
+ * PdfTextExtractor - PDF 文本提取器
+ * 解码页面内容流，处理简单字体编码、Type0 字体与 ToUnicode CMap，
+ * 按阅读顺序（含双栏检测）重建每一页的文本
+ */
+
+import {
+  PDFName,
+  PDFDict,
+  PDFArray,
+  PDFNumber,
+  PDFRef,
+  PDFRawStream,
+  PDFStream,
+  StandardFonts,
+  StandardFontEmbedder,
+  decodePDFRawStream,
+} from 'pdf-lib';
+import { promises as fs } from 'fs';
+import * as fontkit from 'fontkit';
+import { glyphNameToUnicode, getBaseEncoding } from './pdfEncodings';
+import { loadPdfDocument } from './pdfEncryption';
+
+interface PdfTextExtractionOptions {
+  pageSeparator?: (pageNumber: number) => string;
+  detectColumns?: boolean;
+  password?: string; // 加密 PDF 的用户或所有者密码
+  debug?: boolean;
+}
+
+interface PdfTextItem {
+  text: string;
+  x: number;
+  y: number; // 基线到页面顶部的距离
+  width: number;
+  fontSize: number;
+  fontName: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+interface PdfTextSpan {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+interface PdfTextLine {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  bold: boolean;
+  italic: boolean;
+  column: number; // 0 表示跨栏或单栏，1/2 表示左右栏
+  spans: PdfTextSpan[]; // 按粗体/斜体合并后的行内片段
+  items: PdfTextItem[];
+}
+
+interface PdfPageText {
+  pageNumber: number;
+  width: number;
+  height: number;
+  text: string;
+  lines: PdfTextLine[];
+  columns: number;
+}
+
+interface PdfDocumentMetadata {
+  pageCount: number;
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creator?: string;
+  producer?: string;
+  creationDate?: string;
+  modificationDate?: string;
+}
+
+interface PdfTextExtractionResult {
+  success: boolean;
+  text: string;
+  pages: PdfPageText[];
+  metadata: PdfDocumentMetadata;
+  error?: string;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+type ContentToken =
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'string'; bytes: number[] }
+  | { type: 'operator'; value: string }
+  | { type: 'array'; value: ContentToken[] }
+  | { type: 'dict' };
+
+interface DecodedGlyph {
+  text: string;
+  width: number; // 文本空间单位（已按 FontMatrix 缩放）
+  isSpace: boolean;
+}
+
+const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+const MAX_FORM_DEPTH = 8;
+
+// 分栏的每一栏至少要有这么多行高
+const MIN_COLUMN_LINES = 5;
+// 栏间距两侧连续这么多行同基线且被切成多段时视为表格
+const GRID_ROWS = 3;
+
+function multiplyMatrix(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+  ];
+}
+
+function isWhitespace(code: number): boolean {
+  return code === 0 || code === 9 || code === 10 || code === 12 || code === 13 || code === 32;
+}
+
+function isDelimiter(code: number): boolean {
+  // ( ) < > [ ] { } / %
+  return (
+    code === 0x28 ||
+    code === 0x29 ||
+    code === 0x3c ||
+    code === 0x3e ||
+    code === 0x5b ||
+    code === 0x5d ||
+    code === 0x7b ||
+    code === 0x7d ||
+    code === 0x2f ||
+    code === 0x25
+  );
+}
+
+function bytesToNumber(bytes: number[]): number {
+  let value = 0;
+  for (const byte of bytes) {
+    value = value * 256 + byte;
+  }
+  return value;
+}
+
+function utf16BytesToString(bytes: number[]): string {
+  let result = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    result += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+  }
+  return result;
+}
+
+/**
+ * 内容流词法分析器
+ * 支持数字、名称、字面/十六进制字符串、数组、字典与内联图像跳过
+ */
+class ContentStreamLexer {
+  private pos = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  nextToken(): ContentToken | null {
+    this.skipWhitespaceAndComments();
+    if (this.pos >= this.data.length) {
+      return null;
+    }
+
+    const code = this.data[this.pos];
+    switch (code) {
+      case 0x28: // (
+        return { type: 'string', bytes: this.readLiteralString() };
+      case 0x3c: // <
+        if (this.data[this.pos + 1] === 0x3c) {
+          this.skipDictionary();
+          return { type: 'dict' };
+        }
+        return { type: 'string', bytes: this.readHexString() };
+      case 0x5b: // [
+        return { type: 'array', value: this.readArray() };
+      case 0x2f: // /
+        return { type: 'name', value: this.readName() };
+      default:
+        break;
+    }
+
+    if ((code >= 0x30 && code <= 0x39) || code === 0x2b || code === 0x2d || code === 0x2e) {
+      return { type: 'number', value: this.readNumber() };
+    }
+
+    const operator = this.readRegular();
+    if (!operator) {
+      // 不成对的分隔符，直接跳过
+      this.pos++;
+      return this.nextToken();
+    }
+    if (operator === 'BI') {
+      this.skipInlineImage();
+      return this.nextToken();
+    }
+    return { type: 'operator', value: operator };
+  }
+
+  private skipWhitespaceAndComments(): void {
+    while (this.pos < this.data.length) {
+      const code = this.data[this.pos];
+      if (isWhitespace(code)) {
+        this.pos++;
+      } else if (code === 0x25) {
+        while (
+          this.pos < this.data.length &&
+          this.data[this.pos] !== 10 &&
+          this.data[this.pos] !== 13
+        ) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  private readRegular(): string {
+    const start = this.pos;
+    while (
+      this.pos < this.data.length &&
+      !isWhitespace(this.data[this.pos]) &&
+      !isDelimiter(this.data[this.pos])
+    ) {
+      this.pos++;
+    }
+    return String.fromCharCode(...this.data.subarray(start, this.pos));
+  }
+
+  private readNumber(): number {
+    const value = parseFloat(this.readRegular());
+    return Number.isFinite(value) ? value : 0;
+  }
+
+  private readName(): string {
+    this.pos++;
+    const raw = this.readRegular();
+    return raw.replace(/#([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  }
+
+  private readLiteralString(): number[] {
+    const bytes: number[] = [];
+    let depth = 1;
+    this.pos++;
+
+    while (this.pos < this.data.length) {
+      const code = this.data[this.pos++];
+      if (code === 0x28) {
+        depth++;
+      } else if (code === 0x29) {
+        depth--;
+        if (depth === 0) {
+          break;
+        }
+      } else if (code === 0x5c) {
+        this.readEscape(bytes);
+        continue;
+      }
+      bytes.push(code);
+    }
+
+    return bytes;
+  }
+
+  private readEscape(bytes: number[]): void {
+    const next = this.data[this.pos++];
+    const escapes: Record<number, number> = {
+      0x6e: 10, // n
+      0x72: 13, // r
+      0x74: 9, // t
+      0x62: 8, // b
+      0x66: 12, // f
+    };
+
+    if (escapes[next] !== undefined) {
+      bytes.push(escapes[next]);
+    } else if (next >= 0x30 && next <= 0x37) {
+      let octal = next - 0x30;
+      for (let i = 0; i < 2; i++) {
+        const digit = this.data[this.pos];
+        if (digit < 0x30 || digit > 0x37) {
+          break;
+        }
+        octal = octal * 8 + (digit - 0x30);
+        this.pos++;
+      }
+      bytes.push(octal & 0xff);
+    } else if (next === 13) {
+      // 行连续符：\ 后跟换行
+      if (this.data[this.pos] === 10) {
+        this.pos++;
+      }
+    } else if (next !== 10 && next !== undefined) {
+      bytes.push(next);
+    }
+  }
+
+  private readHexString(): number[] {
+    let hex = '';
+    this.pos++;
+    while (this.pos < this.data.length && this.data[this.pos] !== 0x3e) {
+      const char = String.fromCharCode(this.data[this.pos++]);
+      if (/[0-9A-Fa-f]/.test(char)) {
+        hex += char;
+      }
+    }
+    this.pos++;
+    if (hex.length % 2 === 1) {
+      hex += '0';
+    }
+
+    const bytes: number[] = [];
+    for (let i = 0; i < hex.length; i += 2) {
+      bytes.push(parseInt(hex.slice(i, i + 2), 16));
+    }
+    return bytes;
+  }
+
+  private readArray(): ContentToken[] {
+    const items: ContentToken[] = [];
+    this.pos++;
+    for (;;) {
+      this.skipWhitespaceAndComments();
+      if (this.pos >= this.data.length) {
+        break;
+      }
+      if (this.data[this.pos] === 0x5d) {
+        this.pos++;
+        break;
+      }
+      const token = this.nextToken();
+      if (!token) {
+        break;
+      }
+      items.push(token);
+    }
+    return items;
+  }
+
+  private skipDictionary(): void {
+    let depth = 0;
+    while (this.pos < this.data.length) {
+      if (this.data[this.pos] === 0x3c && this.data[this.pos + 1] === 0x3c) {
+        depth++;
+        this.pos += 2;
+      } else if (this.data[this.pos] === 0x3e && this.data[this.pos + 1] === 0x3e) {
+        depth--;
+        this.pos += 2;
+        if (depth === 0) {
+          return;
+        }
+      } else if (this.data[this.pos] === 0x28) {
+        this.readLiteralString();
+      } else {
+        this.pos++;
+      }
+    }
+  }
+
+  private skipInlineImage(): void {
+    // 跳过 BI ... ID <二进制数据> EI
+    while (this.pos < this.data.length) {
+      const token = this.nextToken();
+      if (!token || (token.type === 'operator' && token.value === 'ID')) {
+        break;
+      }
+    }
+    this.pos++;
+    while (this.pos < this.data.length) {
+      if (
+        this.data[this.pos] === 0x45 &&
+        this.data[this.pos + 1] === 0x49 &&
+        isWhitespace(this.data[this.pos - 1]) &&
+        (this.pos + 2 >= this.data.length || isWhitespace(this.data[this.pos + 2]))
+      ) {
+        this.pos += 2;
+        return;
+      }
+      this.pos++;
+    }
+  }
+}
+
+/**
+ * CMap 解析结果
+ * 同时用于 ToUnicode（码位 → Unicode）与 Type0 编码（码位 → CID）
+ */
+class PdfCMap {
+  private codespaceRanges: Array<{ bytes: number; low: number; high: number }> = [];
+  private unicodeMap = new Map<number, string>();
+  private cidRanges: Array<{ low: number; high: number; cid: number }> = [];
+
+  static parse(data: Uint8Array): PdfCMap {
+    const cmap = new PdfCMap();
+    const lexer = new ContentStreamLexer(data);
+    const operands: ContentToken[] = [];
+
+    for (let token = lexer.nextToken(); token; token = lexer.nextToken()) {
+      if (token.type !== 'operator') {
+        operands.push(token);
+        continue;
+      }
+
+      switch (token.value) {
+        case 'endcodespacerange':
+          cmap.readCodespaceRanges(operands);
+          break;
+        case 'endbfchar':
+          cmap.readBfChars(operands);
+          break;
+        case 'endbfrange':
+          cmap.readBfRanges(operands);
+          break;
+        case 'endcidchar':
+          cmap.readCidChars(operands);
+          break;
+        case 'endcidrange':
+          cmap.readCidRanges(operands);
+          break;
+        default:
+          break;
+      }
+      operands.length = 0;
+    }
+
+    return cmap;
+  }
+
+  get hasUnicode(): boolean {
+    return this.unicodeMap.size > 0;
+  }
+
+  /**
+   * 按码空间读取一个字符码，返回码值及其字节长度
+   */
+  readCode(
+    bytes: number[],
+    offset: number,
+    fallbackLength: number
+  ): { code: number; length: number } {
+    for (let length = 1; length <= 4 && offset + length <= bytes.length; length++) {
+      const code = bytesToNumber(bytes.slice(offset, offset + length));
+      const matched = this.codespaceRanges.some(
+        range => range.bytes === length && code >= range.low && code <= range.high
+      );
+      if (matched) {
+        return { code, length };
+      }
+    }
+
+    const length = Math.min(fallbackLength, bytes.length - offset);
+    return { code: bytesToNumber(bytes.slice(offset, offset + length)), length };
+  }
+
+  lookupUnicode(code: number): string | undefined {
+    return this.unicodeMap.get(code);
+  }
+
+  lookupCid(code: number): number | undefined {
+    const range = this.cidRanges.find(item => code >= item.low && code <= item.high);
+    return range ? range.cid + (code - range.low) : undefined;
+  }
+
+  private readCodespaceRanges(operands: ContentToken[]): void {
+    for (let i = 0; i + 1 < operands.length; i += 2) {
+      const low = operands[i];
+      const high = operands[i + 1];
+      if (low.type === 'string' && high.type === 'string') {
+        this.codespaceRanges.push({
+          bytes: low.bytes.length,
+          low: bytesToNumber(low.bytes),
+          high: bytesToNumber(high.bytes),
+        });
+      }
+    }
+  }
+
+  private readBfChars(operands: ContentToken[]): void {
+    for (let i = 0; i + 1 < operands.length; i += 2) {
+      const source = operands[i];
+      const target = operands[i + 1];
+      if (source.type === 'string' && target.type === 'string') {
+        this.unicodeMap.set(bytesToNumber(source.bytes), utf16BytesToString(target.bytes));
+      } else if (source.type === 'string' && target.type === 'name') {
+        const unicode = glyphNameToUnicode(target.value);
+        if (unicode) {
+          this.unicodeMap.set(bytesToNumber(source.bytes), unicode);
+        }
+      }
+    }
+  }
+
+  private readBfRanges(operands: ContentToken[]): void {
+    for (let i = 0; i + 2 < operands.length; i += 3) {
+      const low = operands[i];
+      const high = operands[i + 1];
+      const target = operands[i + 2];
+      if (low.type !== 'string' || high.type !== 'string') {
+        continue;
+      }
+
+      const start = bytesToNumber(low.bytes);
+      const end = Math.min(bytesToNumber(high.bytes), start + 0xffff);
+
+      if (target.type === 'array') {
+        target.value.forEach((entry, index) => {
+          if (entry.type === 'string' && start + index <= end) {
+            this.unicodeMap.set(start + index, utf16BytesToString(entry.bytes));
+          }
+        });
+      } else if (target.type === 'string' && target.bytes.length >= 2) {
+        // 目标字符串的最后一个码元随源码位递增
+        const prefix = utf16BytesToString(target.bytes.slice(0, -2));
+        const lastUnit = bytesToNumber(target.bytes.slice(-2));
+        for (let code = start; code <= end; code++) {
+          this.unicodeMap.set(code, prefix + String.fromCharCode(lastUnit + (code - start)));
+        }
+      }
+    }
+  }
+
+  private readCidChars(operands: ContentToken[]): void {
+    for (let i = 0; i + 1 < operands.length; i += 2) {
+      const source = operands[i];
+      const cid = operands[i + 1];
+      if (source.type === 'string' && cid.type === 'number') {
+        const code = bytesToNumber(source.bytes);
+        this.cidRanges.push({ low: code, high: code, cid: cid.value });
+      }
+    }
+  }
+
+  private readCidRanges(operands: ContentToken[]): void {
+    for (let i = 0; i + 2 < operands.length; i += 3) {
+      const low = operands[i];
+      const high = operands[i + 1];
+      const cid = operands[i + 2];
+      if (low.type === 'string' && high.type === 'string' && cid.type === 'number') {
+        this.cidRanges.push({
+          low: bytesToNumber(low.bytes),
+          high: bytesToNumber(high.bytes),
+          cid: cid.value,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * 读取 pdf-lib 流对象的解码内容
+ */
+function getStreamBytes(stream: any): Uint8Array | null {
+  try {
+    if (stream instanceof PDFRawStream) {
+      return decodePDFRawStream(stream).decode();
+    }
+    if (typeof stream?.getUnencodedContents === 'function') {
+      return stream.getUnencodedContents();
+    }
+    if (typeof stream?.getContents === 'function') {
+      return stream.getContents();
+    }
+  } catch {
+    // 不支持的过滤器（如图像编码）直接忽略
+  }
+  return null;
+}
+
+function lookupName(dict: any, key: string): string | undefined {
+  const value = dict?.lookup(PDFName.of(key));
+  return value instanceof PDFName ? value.decodeText() : undefined;
+}
+
+function lookupNumber(dict: any, key: string): number | undefined {
+  const value = dict?.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+}
+
+function arrayToNumbers(array: any): number[] {
+  if (!(array instanceof PDFArray)) {
+    return [];
+  }
+  const numbers: number[] = [];
+  for (let i = 0; i < array.size(); i++) {
+    const value = array.lookup(i);
+    numbers.push(value instanceof PDFNumber ? value.asNumber() : 0);
+  }
+  return numbers;
+}
+
+type StandardFontName = Parameters<typeof StandardFontEmbedder.for>[0];
+
+/**
+ * 将 BaseFont 名称映射为 pdf-lib 支持的标准 14 字体名称
+ */
+function resolveStandardFontName(baseFont: string): string | undefined {
+  const standardNames: string[] = Object.values(StandardFonts);
+  if (/Symbol|ZapfDingbats/.test(baseFont)) {
+    return undefined;
+  }
+  if (standardNames.includes(baseFont)) {
+    return baseFont;
+  }
+
+  // 常见别名：Arial → Helvetica，TimesNewRoman → Times，CourierNew → Courier
+  const bold = /bold/i.test(baseFont);
+  const italic = /italic|oblique/i.test(baseFont);
+  if (/^Arial|^Helvetica/i.test(baseFont)) {
+    return ['Helvetica', 'Helvetica-Oblique', 'Helvetica-Bold', 'Helvetica-BoldOblique'][
+      Number(bold) * 2 + Number(italic)
+    ];
+  }
+  if (/^Times/i.test(baseFont)) {
+    return ['Times-Roman', 'Times-Italic', 'Times-Bold', 'Times-BoldItalic'][
+      Number(bold) * 2 + Number(italic)
+    ];
+  }
+  if (/^Courier/i.test(baseFont)) {
+    return ['Courier', 'Courier-Oblique', 'Courier-Bold', 'Courier-BoldOblique'][
+      Number(bold) * 2 + Number(italic)
+    ];
+  }
+  return undefined;
+}
+
+/**
+ * 字体解码器：将显示字符串转换为带宽度的 Unicode 字形序列
+ */
+class PdfFontDecoder {
+  readonly name: string;
+  readonly bold: boolean;
+  readonly italic: boolean;
+
+  private isComposite = false;
+  private bytesPerCode = 1;
+  private encodingCMap: PdfCMap | null = null;
+  private unicodeEncoding = false; // 预定义 UCS2/UTF16 CMap，码位即 Unicode
+  private toUnicode: PdfCMap | null = null;
+  private simpleEncoding: Array<string | undefined> = [];
+  private widths = new Map<number, number>();
+  private defaultWidth = 500;
+  private widthScale = 0.001;
+  private embeddedFont: any = null; // 无 ToUnicode 时用于反查字形 Unicode 的内嵌字体
+  private cidToGidMap: Uint8Array | null = null;
+  private embeddedUnicodeCache = new Map<number, string>();
+
+  constructor(fontDict: any) {
+    const baseFont = lookupName(fontDict, 'BaseFont') ?? 'Unknown';
+    this.name = baseFont.replace(/^[A-Z]{6}\+/, '');
+
+    const subtype = lookupName(fontDict, 'Subtype');
+    const toUnicodeStream = fontDict.lookup(PDFName.of('ToUnicode'));
+    const toUnicodeBytes = toUnicodeStream ? getStreamBytes(toUnicodeStream) : null;
+    if (toUnicodeBytes) {
+      this.toUnicode = PdfCMap.parse(toUnicodeBytes);
+    }
+
+    let descriptor: any;
+    if (subtype === 'Type0') {
+      descriptor = this.setupCompositeFont(fontDict);
+    } else {
+      descriptor = fontDict.lookup(PDFName.of('FontDescriptor'));
+      this.setupSimpleFont(fontDict, subtype);
+    }
+
+    const flags = lookupNumber(descriptor, 'Flags') ?? 0;
+    const weight = lookupNumber(descriptor, 'FontWeight') ?? 0;
+    const italicAngle = lookupNumber(descriptor, 'ItalicAngle') ?? 0;
+    this.bold =
+      /bold|black|heavy|semibold|demi/i.test(this.name) || weight >= 600 || (flags & 0x40000) !== 0;
+    this.italic = /italic|oblique/i.test(this.name) || italicAngle !== 0 || (flags & 0x40) !== 0;
+  }
+
+  decode(bytes: number[]): DecodedGlyph[] {
+    const glyphs: DecodedGlyph[] = [];
+    let offset = 0;
+
+    while (offset < bytes.length) {
+      const { code, length } = this.readCode(bytes, offset);
+      offset += Math.max(length, 1);
+
+      const cid = this.isComposite ? this.codeToCid(code) : code;
+      const width = (this.widths.get(cid) ?? this.defaultWidth) * this.widthScale;
+      glyphs.push({
+        text: this.codeToUnicode(code),
+        width,
+        // 只有单字节码 32 才应用字间距（Tw）
+        isSpace: length === 1 && code === 32,
+      });
+    }
+
+    return glyphs;
+  }
+
+  private readCode(bytes: number[], offset: number): { code: number; length: number } {
+    if (!this.isComposite) {
+      return { code: bytes[offset], length: 1 };
+    }
+    if (this.encodingCMap) {
+      return this.encodingCMap.readCode(bytes, offset, this.bytesPerCode);
+    }
+    const length = Math.min(this.bytesPerCode, bytes.length - offset);
+    return { code: bytesToNumber(bytes.slice(offset, offset + length)), length };
+  }
+
+  private codeToCid(code: number): number {
+    return this.encodingCMap?.lookupCid(code) ?? code;
+  }
+
+  private codeToUnicode(code: number): string {
+    const mapped = this.toUnicode?.lookupUnicode(code);
+    if (mapped !== undefined) {
+      return mapped.replaceAll('\u0000', '');
+    }
+    if (this.isComposite) {
+      if (this.unicodeEncoding) {
+        return String.fromCharCode(code);
+      }
+      return this.embeddedFont ? this.lookupEmbeddedUnicode(this.codeToCid(code)) : '';
+    }
+    return this.simpleEncoding[code] ?? '';
+  }
+
+  /**
+   * 通过内嵌 TrueType/OpenType 字体的 cmap 表反查 CID 对应的 Unicode
+   */
+  private lookupEmbeddedUnicode(cid: number): string {
+    const cached = this.embeddedUnicodeCache.get(cid);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let text = '';
+    try {
+      const gid = this.cidToGidMap
+        ? (this.cidToGidMap[cid * 2] << 8) | this.cidToGidMap[cid * 2 + 1]
+        : cid;
+      const codePoints: number[] = this.embeddedFont.getGlyph(gid)?.codePoints ?? [];
+      text = codePoints.length ? String.fromCodePoint(codePoints[0]) : '';
+    } catch {
+      text = '';
+    }
+
+    this.embeddedUnicodeCache.set(cid, text);
+    return text;
+  }
+
+  private loadEmbeddedFont(cidFont: any, descriptor: any): void {
+    const fontFile =
+      descriptor?.lookup(PDFName.of('FontFile2')) ?? descriptor?.lookup(PDFName.of('FontFile3'));
+    const fontBytes = fontFile ? getStreamBytes(fontFile) : null;
+    if (!fontBytes) {
+      return;
+    }
+
+    try {
+      this.embeddedFont = fontkit.create(Buffer.from(fontBytes));
+    } catch {
+      this.embeddedFont = null;
+      return;
+    }
+
+    const cidToGid = cidFont.lookup(PDFName.of('CIDToGIDMap'));
+    if (cidToGid && !(cidToGid instanceof PDFName)) {
+      this.cidToGidMap = getStreamBytes(cidToGid);
+    }
+  }
+
+  private setupCompositeFont(fontDict: any): any {
+    this.isComposite = true;
+    this.bytesPerCode = 2;
+
+    const encoding = fontDict.lookup(PDFName.of('Encoding'));
+    if (encoding instanceof PDFName) {
+      const encodingName = encoding.decodeText();
+      this.unicodeEncoding = /UCS2|UTF16/.test(encodingName);
+    } else if (encoding) {
+      const encodingBytes = getStreamBytes(encoding);
+      if (encodingBytes) {
+        this.encodingCMap = PdfCMap.parse(encodingBytes);
+      }
+    }
+
+    const descendants = fontDict.lookup(PDFName.of('DescendantFonts'));
+    const cidFont = descendants instanceof PDFArray ? descendants.lookup(0) : undefined;
+    if (!(cidFont instanceof PDFDict)) {
+      return undefined;
+    }
+
+    this.defaultWidth = lookupNumber(cidFont, 'DW') ?? 1000;
+    this.readCidWidths(cidFont.lookup(PDFName.of('W')));
+
+    const descriptor = cidFont.lookup(PDFName.of('FontDescriptor'));
+    if (!this.toUnicode?.hasUnicode && !this.unicodeEncoding) {
+      this.loadEmbeddedFont(cidFont, descriptor);
+    }
+    return descriptor;
+  }
+
+  private readCidWidths(widthArray: any): void {
+    if (!(widthArray instanceof PDFArray)) {
+      return;
+    }
+
+    // W 数组格式：c [w1 w2 ...] 或 cFirst cLast w
+    let i = 0;
+    while (i < widthArray.size()) {
+      const first = widthArray.lookup(i);
+      const second = widthArray.lookup(i + 1);
+      if (!(first instanceof PDFNumber)) {
+        break;
+      }
+      if (second instanceof PDFArray) {
+        arrayToNumbers(second).forEach((width, index) => {
+          this.widths.set(first.asNumber() + index, width);
+        });
+        i += 2;
+      } else {
+        const last = second instanceof PDFNumber ? second.asNumber() : first.asNumber();
+        const widthValue = widthArray.lookup(i + 2);
+        const width = widthValue instanceof PDFNumber ? widthValue.asNumber() : 0;
+        const end = Math.min(last, first.asNumber() + 0xffff);
+        for (let cid = first.asNumber(); cid <= end; cid++) {
+          this.widths.set(cid, width);
+        }
+        i += 3;
+      }
+    }
+  }
+
+  private setupSimpleFont(fontDict: any, subtype: string | undefined): void {
+    const firstChar = lookupNumber(fontDict, 'FirstChar') ?? 0;
+    arrayToNumbers(fontDict.lookup(PDFName.of('Widths'))).forEach((width, index) => {
+      this.widths.set(firstChar + index, width);
+    });
+
+    const descriptor = fontDict.lookup(PDFName.of('FontDescriptor'));
+    this.defaultWidth = lookupNumber(descriptor, 'MissingWidth') ?? (this.widths.size ? 0 : 500);
+
+    if (subtype === 'Type3') {
+      const fontMatrix = arrayToNumbers(fontDict.lookup(PDFName.of('FontMatrix')));
+      this.widthScale = fontMatrix.length === 6 ? fontMatrix[0] : 0.001;
+    }
+
+    // TrueType 字体通常按 WinAnsi 语义编码，Type1 默认使用 StandardEncoding
+    let baseEncodingName = subtype === 'TrueType' ? 'WinAnsiEncoding' : 'StandardEncoding';
+    let differences: any;
+    const encoding = fontDict.lookup(PDFName.of('Encoding'));
+    if (encoding instanceof PDFName) {
+      baseEncodingName = encoding.decodeText();
+    } else if (encoding instanceof PDFDict) {
+      baseEncodingName = lookupName(encoding, 'BaseEncoding') ?? baseEncodingName;
+      differences = encoding.lookup(PDFName.of('Differences'));
+    }
+
+    this.simpleEncoding = getBaseEncoding(baseEncodingName);
+    this.applyDifferences(differences);
+
+    if (this.widths.size === 0) {
+      this.applyStandardFontWidths();
+    }
+  }
+
+  /**
+   * 标准 14 字体可省略 Widths，此时借助 pdf-lib 内置的 AFM 度量计算字宽
+   */
+  private applyStandardFontWidths(): void {
+    const standardName = resolveStandardFontName(this.name);
+    if (!standardName) {
+      return;
+    }
+
+    const embedder = StandardFontEmbedder.for(standardName as StandardFontName);
+    this.simpleEncoding.forEach((unicode, code) => {
+      if (!unicode) {
+        return;
+      }
+      try {
+        this.widths.set(code, embedder.widthOfTextAtSize(unicode, 1000));
+      } catch {
+        // 字符不在 WinAnsi 范围内时保留默认宽度
+      }
+    });
+  }
+
+  private applyDifferences(differences: any): void {
+    if (!(differences instanceof PDFArray)) {
+      return;
+    }
+
+    let code = 0;
+    for (let i = 0; i < differences.size(); i++) {
+      const entry = differences.lookup(i);
+      if (entry instanceof PDFNumber) {
+        code = entry.asNumber();
+      } else if (entry instanceof PDFName) {
+        if (code >= 0 && code < 256) {
+          this.simpleEncoding[code] = glyphNameToUnicode(entry.decodeText()) ?? '';
+        }
+        code++;
+      }
+    }
+  }
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+}
+
+interface TextState {
+  font: PdfFontDecoder | null;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  rise: number;
+}
+
+/**
+ * 页面内容解释器：执行文本相关操作符，收集带位置信息的文本片段
+ */
+class PageContentInterpreter {
+  private items: PdfTextItem[] = [];
+  private fontCache = new Map<any, PdfFontDecoder>();
+  private graphicsStack: GraphicsState[] = [];
+  private graphics: GraphicsState = { ctm: [...IDENTITY_MATRIX] as Matrix };
+  private textState: TextState = {
+    font: null,
+    fontSize: 0,
+    charSpacing: 0,
+    wordSpacing: 0,
+    horizontalScale: 1,
+    leading: 0,
+    rise: 0,
+  };
+  private textStateStack: TextState[] = [];
+  private textMatrix: Matrix = [...IDENTITY_MATRIX] as Matrix;
+  private lineMatrix: Matrix = [...IDENTITY_MATRIX] as Matrix;
+  private visitedForms = new Set<any>();
+
+  constructor(private readonly pageBox: { x: number; y: number; width: number; height: number }) {}
+
+  run(content: Uint8Array, resources: any, depth = 0): PdfTextItem[] {
+    const lexer = new ContentStreamLexer(content);
+    const operands: ContentToken[] = [];
+
+    for (let token = lexer.nextToken(); token; token = lexer.nextToken()) {
+      if (token.type === 'operator') {
+        this.execute(token.value, operands, resources, depth);
+        operands.length = 0;
+      } else {
+        operands.push(token);
+      }
+    }
+
+    return this.items;
+  }
+
+  private execute(operator: string, operands: ContentToken[], resources: any, depth: number): void {
+    const num = (index: number): number => {
+      const token = operands[index];
+      return token?.type === 'number' ? token.value : 0;
+    };
+
+    switch (operator) {
+      case 'q':
+        this.graphicsStack.push({ ctm: [...this.graphics.ctm] as Matrix });
+        this.textStateStack.push({ ...this.textState });
+        break;
+      case 'Q':
+        this.graphics = this.graphicsStack.pop() ?? this.graphics;
+        this.textState = this.textStateStack.pop() ?? this.textState;
+        break;
+      case 'cm':
+        this.graphics.ctm = multiplyMatrix(
+          [num(0), num(1), num(2), num(3), num(4), num(5)],
+          this.graphics.ctm
+        );
+        break;
+      case 'BT':
+        this.textMatrix = [...IDENTITY_MATRIX] as Matrix;
+        this.lineMatrix = [...IDENTITY_MATRIX] as Matrix;
+        break;
+      case 'Tf':
+        this.textState.font = this.loadFont(resources, operands[0]);
+        this.textState.fontSize = num(1);
+        break;
+      case 'Tc':
+        this.textState.charSpacing = num(0);
+        break;
+      case 'Tw':
+        this.textState.wordSpacing = num(0);
+        break;
+      case 'Tz':
+        this.textState.horizontalScale = num(0) / 100;
+        break;
+      case 'TL':
+        this.textState.leading = num(0);
+        break;
+      case 'Ts':
+        this.textState.rise = num(0);
+        break;
+      case 'Td':
+        this.moveTextPosition(num(0), num(1));
+        break;
+      case 'TD':
+        this.textState.leading = -num(1);
+        this.moveTextPosition(num(0), num(1));
+        break;
+      case 'Tm':
+        this.textMatrix = [num(0), num(1), num(2), num(3), num(4), num(5)];
+        this.lineMatrix = [...this.textMatrix] as Matrix;
+        break;
+      case 'T*':
+        this.moveTextPosition(0, -this.textState.leading);
+        break;
+      case 'Tj':
+        this.showText(operands[0]);
+        break;
+      case "'":
+        this.moveTextPosition(0, -this.textState.leading);
+        this.showText(operands[0]);
+        break;
+      case '"':
+        this.textState.wordSpacing = num(0);
+        this.textState.charSpacing = num(1);
+        this.moveTextPosition(0, -this.textState.leading);
+        this.showText(operands[2]);
+        break;
+      case 'TJ':
+        this.showTextArray(operands[0]);
+        break;
+      case 'Do':
+        this.drawXObject(operands[0], resources, depth);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private moveTextPosition(tx: number, ty: number): void {
+    this.lineMatrix = multiplyMatrix([1, 0, 0, 1, tx, ty], this.lineMatrix);
+    this.textMatrix = [...this.lineMatrix] as Matrix;
+  }
+
+  private loadFont(resources: any, nameToken: ContentToken | undefined): PdfFontDecoder | null {
+    if (!nameToken || nameToken.type !== 'name') {
+      return null;
+    }
+
+    const fonts = resources?.lookup(PDFName.of('Font'));
+    if (!(fonts instanceof PDFDict)) {
+      return null;
+    }
+
+    const fontRef = fonts.get(PDFName.of(nameToken.value));
+    const fontDict = fonts.lookup(PDFName.of(nameToken.value));
+    if (!(fontDict instanceof PDFDict)) {
+      return null;
+    }
+
+    const cacheKey = fontRef instanceof PDFRef ? fontRef : fontDict;
+    let decoder = this.fontCache.get(cacheKey);
+    if (!decoder) {
+      decoder = new PdfFontDecoder(fontDict);
+      this.fontCache.set(cacheKey, decoder);
+    }
+    return decoder;
+  }
+
+  private showTextArray(arrayToken: ContentToken | undefined): void {
+    if (!arrayToken || arrayToken.type !== 'array') {
+      return;
+    }
+
+    for (const entry of arrayToken.value) {
+      if (entry.type === 'string') {
+        this.showText(entry);
+      } else if (entry.type === 'number') {
+        const { fontSize, horizontalScale } = this.textState;
+        const tx = (-entry.value / 1000) * fontSize * horizontalScale;
+        this.textMatrix = multiplyMatrix([1, 0, 0, 1, tx, 0], this.textMatrix);
+      }
+    }
+  }
+
+  private showText(stringToken: ContentToken | undefined): void {
+    const { font, fontSize, charSpacing, wordSpacing, horizontalScale, rise } = this.textState;
+    if (!font || !stringToken || stringToken.type !== 'string') {
+      return;
+    }
+
+    const glyphs = font.decode(stringToken.bytes);
+    const startMatrix = this.renderingMatrix(rise);
+    let text = '';
+
+    for (const glyph of glyphs) {
+      text += glyph.text;
+      const advance =
+        (glyph.width * fontSize + charSpacing + (glyph.isSpace ? wordSpacing : 0)) *
+        horizontalScale;
+      this.textMatrix = multiplyMatrix([1, 0, 0, 1, advance, 0], this.textMatrix);
+    }
+
+    const endMatrix = this.renderingMatrix(rise);
+    const effectiveSize = Math.hypot(startMatrix[2], startMatrix[3]);
+    if (!text || effectiveSize <= 0) {
+      return;
+    }
+
+    this.items.push({
+      text,
+      x: startMatrix[4] - this.pageBox.x,
+      y: this.pageBox.y + this.pageBox.height - startMatrix[5],
+      width: Math.max(0, Math.hypot(endMatrix[4] - startMatrix[4], endMatrix[5] - startMatrix[5])),
+      fontSize: Math.round(effectiveSize * 100) / 100,
+      fontName: font.name,
+      bold: font.bold,
+      italic: font.italic,
+    });
+  }
+
+  private renderingMatrix(rise: number): Matrix {
+    const { fontSize, horizontalScale } = this.textState;
+    return multiplyMatrix(
+      multiplyMatrix([fontSize * horizontalScale, 0, 0, fontSize, 0, rise], this.textMatrix),
+      this.graphics.ctm
+    );
+  }
+
+  private drawXObject(nameToken: ContentToken | undefined, resources: any, depth: number): void {
+    if (!nameToken || nameToken.type !== 'name' || depth >= MAX_FORM_DEPTH) {
+      return;
+    }
+
+    const xObjects = resources?.lookup(PDFName.of('XObject'));
+    if (!(xObjects instanceof PDFDict)) {
+      return;
+    }
+
+    const xObject = xObjects.lookup(PDFName.of(nameToken.value));
+    if (!(xObject instanceof PDFStream) || lookupName(xObject.dict, 'Subtype') !== 'Form') {
+      return;
+    }
+    if (this.visitedForms.has(xObject)) {
+      return;
+    }
+
+    const content = getStreamBytes(xObject);
+    if (!content) {
+      return;
+    }
+
+    // 表单 XObject 使用独立的图形状态，并以 Matrix 变换到当前坐标系
+    const formMatrix = arrayToNumbers(xObject.dict.lookup(PDFName.of('Matrix')));
+    const formResources = xObject.dict.lookup(PDFName.of('Resources')) ?? resources;
+    const savedGraphics = this.graphics;
+    const savedStackDepth = this.graphicsStack.length;
+    const savedTextState = { ...this.textState };
+    const savedTextMatrix = this.textMatrix;
+    const savedLineMatrix = this.lineMatrix;
+
+    this.graphics = {
+      ctm:
+        formMatrix.length === 6
+          ? multiplyMatrix(formMatrix as Matrix, savedGraphics.ctm)
+          : ([...savedGraphics.ctm] as Matrix),
+    };
+
+    this.visitedForms.add(xObject);
+    this.run(content, formResources, depth + 1);
+    this.visitedForms.delete(xObject);
+
+    this.graphics = savedGraphics;
+    this.graphicsStack.length = savedStackDepth;
+    this.textState = savedTextState;
+    this.textMatrix = savedTextMatrix;
+    this.lineMatrix = savedLineMatrix;
+  }
+}
+
+/**
+ * PDF 文本提取器
+ */
+class PdfTextExtractor {
+  private options: Required<Omit<PdfTextExtractionOptions, 'debug' | 'password'>> & {
+    debug: boolean;
+    password?: string;
+  };
+
+  constructor(options: PdfTextExtractionOptions = {}) {
+    this.options = {
+      pageSeparator: pageNumber => `\n\n--- Page ${pageNumber} ---\n\n`,
+      detectColumns: true,
+      debug: false,
+      ...options,
+    };
+  }
+
+  /**
+   * 从 PDF 文件提取文本
+   */
+  async extractFromFile(inputPath: string): Promise<PdfTextExtractionResult> {
+    const pdfBytes = await fs.readFile(inputPath);
+    return await this.extract(pdfBytes);
+  }
+
+  /**
+   * 从 PDF 字节提取文本
+   */
+  async extract(pdfBytes: Uint8Array): Promise<PdfTextExtractionResult> {
+    // 加密的 PDF 用提供的密码解密，未提供时尝试空的用户密码
+    const pdfDoc = await loadPdfDocument(pdfBytes, this.options.password, {
+      updateMetadata: false,
+    });
+
+    const metadata = this.extractMetadata(pdfDoc);
+    const pages: PdfPageText[] = pdfDoc.getPages().map((page: any, index: number) => {
+      try {
+        return this.extractPage(page, index + 1);
+      } catch (error: any) {
+        if (this.options.debug) {
+          console.log(`⚠️ 第 ${index + 1} 页文本提取失败: ${error.message}`);
+        }
+        const { width, height } = page.getSize();
+        return { pageNumber: index + 1, width, height, text: '', lines: [], columns: 1 };
+      }
+    });
+
+    const text = pages
+      .map((page, index) =>
+        index === 0 ? page.text : this.options.pageSeparator(page.pageNumber) + page.text
+      )
+      .join('');
+
+    if (this.options.debug) {
+      console.log(`📄 PDF 文本提取完成: ${pages.length} 页, ${text.length} 字符`);
+    }
+
+    return { success: true, text, pages, metadata };
+  }
+
+  private extractMetadata(pdfDoc: any): PdfDocumentMetadata {
+    const safeRead = <T>(reader: () => T): T | undefined => {
+      try {
+        return reader() ?? undefined;
+      } catch {
+        return undefined;
+      }
+    };
+
+    return {
+      pageCount: pdfDoc.getPageCount(),
+      title: safeRead(() => pdfDoc.getTitle()),
+      author: safeRead(() => pdfDoc.getAuthor()),
+      subject: safeRead(() => pdfDoc.getSubject()),
+      keywords: safeRead(() => pdfDoc.getKeywords()),
+      creator: safeRead(() => pdfDoc.getCreator()),
+      producer: safeRead(() => pdfDoc.getProducer()),
+      creationDate: safeRead(() => pdfDoc.getCreationDate()?.toISOString()),
+      modificationDate: safeRead(() => pdfDoc.getModificationDate()?.toISOString()),
+    };
+  }
+
+  private extractPage(page: any, pageNumber: number): PdfPageText {
+    const box = page.getCropBox?.() ?? page.getMediaBox();
+    const interpreter = new PageContentInterpreter(box);
+    const resources = page.node.Resources();
+
+    let items: PdfTextItem[] = [];
+    for (const content of this.getPageContents(page)) {
+      items = interpreter.run(content, resources);
+    }
+
+    const lines = this.buildLines(items);
+    const { ordered, columns } = this.orderLines(lines, box.width);
+    return {
+      pageNumber,
+      width: box.width,
+      height: box.height,
+      text: this.linesToText(ordered),
+      lines: ordered,
+      columns,
+    };
+  }
+
+  private getPageContents(page: any): Uint8Array[] {
+    const contents = page.node.Contents();
+    if (!contents) {
+      return [];
+    }
+
+    const streams =
+      contents instanceof PDFArray
+        ? Array.from({ length: contents.size() }, (_, i) => contents.lookup(i))
+        : [contents];
+
+    // 多个内容流在语义上是连续的，拼接后统一解释
+    const parts = streams
+      .map(stream => getStreamBytes(stream))
+      .filter((bytes): bytes is Uint8Array => !!bytes);
+    if (parts.length <= 1) {
+      return parts;
+    }
+
+    const total = parts.reduce((sum, part) => sum + part.length + 1, 0);
+    const merged = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+      merged.set(part, offset);
+      merged[offset + part.length] = 10;
+      offset += part.length + 1;
+    }
+    return [merged];
+  }
+
+  /**
+   * 将文本片段按基线聚合成行
+   */
+  private buildLines(items: PdfTextItem[]): PdfTextLine[] {
+    const sorted = items
+      .filter(item => item.text.length > 0)
+      .sort((a, b) => a.y - b.y || a.x - b.x);
+
+    const groups: PdfTextItem[][] = [];
+    for (const item of sorted) {
+      const current = groups[groups.length - 1];
+      if (current) {
+        const baseline = current[0].y;
+        const tolerance = Math.max(2, Math.min(current[0].fontSize, item.fontSize) * 0.4);
+        if (Math.abs(item.y - baseline) <= tolerance) {
+          current.push(item);
+          continue;
+        }
+      }
+      groups.push([item]);
+    }
+
+    const lines: PdfTextLine[] = [];
+    for (const group of groups) {
+      // 按基线分组后，同一行中相距过远的片段（如栏间）拆分为不同的行
+      group.sort((a, b) => a.x - b.x);
+      let segment: PdfTextItem[] = [];
+      for (const item of group) {
+        const previous = segment[segment.length - 1];
+        if (previous && item.x - (previous.x + previous.width) > previous.fontSize * 3) {
+          lines.push(this.createLine(segment));
+          segment = [];
+        }
+        segment.push(item);
+      }
+      if (segment.length) {
+        lines.push(this.createLine(segment));
+      }
+    }
+
+    return lines.filter(line => line.text.trim().length > 0);
+  }
+
+  private createLine(items: PdfTextItem[]): PdfTextLine {
+    let text = '';
+    let previous: PdfTextItem | null = null;
+    const spans: PdfTextSpan[] = [];
+
+    for (const item of items) {
+      if (previous) {
+        const gap = item.x - (previous.x + previous.width);
+        // 伪粗体常以相同文本在相近位置重复绘制，跳过重复片段
+        if (
+          item.text === previous.text &&
+          Math.abs(item.x - previous.x) < previous.fontSize * 0.2
+        ) {
+          continue;
+        }
+        if (
+          gap > Math.min(previous.fontSize, item.fontSize) * 0.2 &&
+          !/\s$/.test(text) &&
+          !/^\s/.test(item.text)
+        ) {
+          text += ' ';
+          spans[spans.length - 1].text += ' ';
+        }
+      }
+      text += item.text;
+      this.appendSpan(spans, item);
+      previous = item;
+    }
+
+    const first = items[0];
+    const last = items[items.length - 1];
+    const dominant = items.reduce((best, item) =>
+      item.text.length * item.fontSize > best.text.length * best.fontSize ? item : best
+    );
+
+    return {
+      text: text.replace(/\s+/g, ' ').trim(),
+      x: first.x,
+      y: Math.max(...items.map(item => item.y)),
+      width: last.x + last.width - first.x,
+      fontSize: dominant.fontSize,
+      bold: items.every(item => item.bold || !item.text.trim()),
+      italic: items.every(item => item.italic || !item.text.trim()),
+      column: 0,
+      spans: this.normalizeSpans(spans),
+      items,
+    };
+  }
+
+  private appendSpan(spans: PdfTextSpan[], item: PdfTextItem): void {
+    const last = spans[spans.length - 1];
+    if (last && last.bold === item.bold && last.italic === item.italic) {
+      last.text += item.text;
+      return;
+    }
+    spans.push({ text: item.text, bold: item.bold, italic: item.italic });
+  }
+
+  private normalizeSpans(spans: PdfTextSpan[]): PdfTextSpan[] {
+    const normalized = spans
+      .map(span => ({ ...span, text: span.text.replace(/\s+/g, ' ') }))
+      .filter(span => span.text.length > 0);
+    if (normalized.length) {
+      normalized[0].text = normalized[0].text.trimStart();
+      normalized[normalized.length - 1].text = normalized[normalized.length - 1].text.trimEnd();
+    }
+    return normalized.filter(span => span.text.length > 0);
+  }
+
+  /**
+   * 确定阅读顺序：检测双栏版式，并在跨栏行之间先左栏后右栏输出
+   */
+  private orderLines(
+    lines: PdfTextLine[],
+    pageWidth: number
+  ): { ordered: PdfTextLine[]; columns: number } {
+    const byPosition = [...lines].sort((a, b) => a.y - b.y || a.x - b.x);
+    const gutter = this.options.detectColumns ? this.findColumnGutter(byPosition, pageWidth) : null;
+    if (gutter === null) {
+      return { ordered: byPosition, columns: 1 };
+    }
+
+    const ordered: PdfTextLine[] = [];
+    let left: PdfTextLine[] = [];
+    let right: PdfTextLine[] = [];
+    const flush = () => {
+      ordered.push(...left, ...right);
+      left = [];
+      right = [];
+    };
+
+    let previous: PdfTextLine | null = null;
+    for (const line of byPosition) {
+      // 纵向大间距同样视为分栏区块的边界（如栏下方的页脚）
+      if (previous && line.y - previous.y > Math.max(line.fontSize, previous.fontSize) * 3) {
+        flush();
+      }
+      previous = line;
+
+      if (line.x + line.width <= gutter) {
+        line.column = 1;
+        left.push(line);
+      } else if (line.x >= gutter) {
+        line.column = 2;
+        right.push(line);
+      } else {
+        flush();
+        ordered.push(line);
+      }
+    }
+    flush();
+
+    return { ordered, columns: 2 };
+  }
+
+  private findColumnGutter(lines: PdfTextLine[], pageWidth: number): number | null {
+    if (lines.length < 6 || pageWidth <= 0) {
+      return null;
+    }
+
+    const step = 2;
+    const start = pageWidth * 0.3;
+    const end = pageWidth * 0.7;
+    let best: { position: number; crossing: number } | null = null;
+
+    for (let position = start; position <= end; position += step) {
+      const crossing = lines.filter(
+        line => line.x < position && line.x + line.width > position
+      ).length;
+      if (!best || crossing < best.crossing) {
+        best = { position, crossing };
+      }
+    }
+
+    if (!best) {
+      return null;
+    }
+
+    const left = lines.filter(line => line.x + line.width <= best!.position);
+    const right = lines.filter(line => line.x >= best!.position);
+    const minimumPerColumn = Math.max(3, lines.length * 0.2);
+
+    // 跨越候选栏间距的行很少，且两侧都有足够的行时，才判定为双栏
+    if (
+      best.crossing <= lines.length * 0.1 &&
+      left.length >= minimumPerColumn &&
+      right.length >= minimumPerColumn &&
+      this.isColumnLayout(left, right)
+    ) {
+      return best.position;
+    }
+    return null;
+  }
+
+  /**
+   * 排除形似双栏的表格：每栏需有一定高度；连续多行在栏间距两侧同基线且
+   * 一行被切成三段以上时是网格；右侧几乎每行都与左侧同基线、而左侧多数行
+   * 没有对应时，是单栏正文中的表格，而不是分栏
+   */
+  private isColumnLayout(left: PdfTextLine[], right: PdfTextLine[]): boolean {
+    const fontSizes = [...left, ...right].map(line => line.fontSize).sort((a, b) => a - b);
+    const minimumHeight = fontSizes[Math.floor(fontSizes.length / 2)] * MIN_COLUMN_LINES;
+    const height = (side: PdfTextLine[]) =>
+      Math.max(...side.map(line => line.y)) - Math.min(...side.map(line => line.y));
+    if (height(left) < minimumHeight || height(right) < minimumHeight) {
+      return false;
+    }
+
+    const sharesBaseline = (line: PdfTextLine, other: PdfTextLine) =>
+      Math.abs(other.y - line.y) <= Math.max(2, line.fontSize * 0.4);
+
+    // 按基线分行，统计连续的网格行
+    const rows: PdfTextLine[][] = [];
+    for (const line of [...left, ...right].sort((a, b) => a.y - b.y)) {
+      const row = rows[rows.length - 1];
+      if (row && sharesBaseline(line, row[0])) {
+        row.push(line);
+      } else {
+        rows.push([line]);
+      }
+    }
+    let gridRun = 0;
+    for (const row of rows) {
+      const isGridRow =
+        row.length >= 3 &&
+        row.some(line => left.includes(line)) &&
+        row.some(line => right.includes(line));
+      gridRun = isGridRow ? gridRun + 1 : 0;
+      if (gridRun >= GRID_ROWS) {
+        return false;
+      }
+    }
+
+    const pairedRight = right.filter(line =>
+      left.some(other => sharesBaseline(line, other))
+    ).length;
+    const pairedLeft = left.filter(line => right.some(other => sharesBaseline(line, other))).length;
+    return !(pairedRight >= right.length * 0.8 && pairedLeft * 2 < left.length);
+  }
+
+  /**
+   * 将有序行拼接为文本，行距明显增大时插入空行分段
+   */
+  private linesToText(lines: PdfTextLine[]): string {
+    const gaps: number[] = [];
+    for (let i = 1; i < lines.length; i++) {
+      const gap = lines[i].y - lines[i - 1].y;
+      if (gap > 0 && lines[i].column === lines[i - 1].column) {
+        gaps.push(gap);
+      }
+    }
+    gaps.sort((a, b) => a - b);
+    const typicalGap = gaps.length ? gaps[Math.floor(gaps.length / 2)] : 0;
+
+    let text = '';
+    lines.forEach((line, index) => {
+      if (index > 0) {
+        const previous = lines[index - 1];
+        const gap = line.y - previous.y;
+        const paragraphBreak =
+          line.column !== previous.column ||
+          gap < 0 ||
+          (typicalGap > 0 && gap > typicalGap * 1.6) ||
+          gap > previous.fontSize * 2.2;
+        text += paragraphBreak ? '\n\n' : '\n';
+      }
+      text += line.text;
+    });
+
+    return text;
+  }
+}
+
+/**
+ * 便捷函数：提取 PDF 文件的文本与元数据
+ */
+async function extractPdfText(
+  inputPath: string,
+  options: PdfTextExtractionOptions = {}
+): Promise<PdfTextExtractionResult> {
+  const extractor = new PdfTextExtractor(options);
+  return await extractor.extractFromFile(inputPath);
+}
+
+export {
+  PdfTextExtractor,
+  extractPdfText,
+  PdfTextExtractionOptions,
+  PdfTextExtractionResult,
+  PdfPageText,
+  PdfTextLine,
+  PdfTextSpan,
+  PdfTextItem,
+  PdfDocumentMetadata,
+};
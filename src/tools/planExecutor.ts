@@ -0,0 +1,206 @@
+/**
+ * 转换计划执行器
+ * 按顺序在进程内执行 ConversionPlan 的各个步骤，把上一步的输出文件作为下一步的输入；
+ * 中间文件写入临时目录并在结束后清理，遇到第一个失败的步骤即停止
+ */
+
+import { promises as fs } from 'fs';
+import { ConversionPlan, ConversionPlanner, ConversionStep } from './conversionPlanner';
+
+// 工具调用函数，由调用方提供（通常为 MCP 服务器的 handleToolCall）
+type PlanToolCaller = (toolName: string, args: Record<string, any>) => Promise<any>;
+
+interface PlanExecutionOptions {
+  outputPath?: string; // 最终输出路径，未指定时由最后一步的工具决定
+  tempPath: (prefix: string, extension: string) => string; // 中间文件路径生成函数
+  debug?: boolean;
+}
+
+interface PlanStepResult {
+  stepNumber: number;
+  toolName: string;
+  inputPath: string;
+  outputPath?: string;
+  success: boolean;
+  skipped?: boolean; // 文件已是目标格式，未调用工具
+  durationMs: number;
+  error?: string;
+}
+
+interface PlanExecutionResult {
+  success: boolean;
+  sourceFile: string;
+  outputPath?: string;
+  plan: ConversionPlan;
+  steps: PlanStepResult[];
+  totalDurationMs: number;
+  cleanedUp: string[];
+  error?: string;
+}
+
+const FORMAT_EXTENSIONS: Record<string, string> = {
+  pdf: '.pdf',
+  html: '.html',
+  docx: '.docx',
+  markdown: '.md',
+  md: '.md',
+  txt: '.txt',
+  odt: '.odt',
+  epub: '.epub',
+};
+
+/**
+ * 转换计划执行器类
+ */
+class PlanExecutor {
+  constructor(
+    private readonly callTool: PlanToolCaller,
+    private readonly planner: ConversionPlanner = new ConversionPlanner()
+  ) {}
+
+  async execute(
+    plan: ConversionPlan,
+    sourceFile: string,
+    options: PlanExecutionOptions
+  ): Promise<PlanExecutionResult> {
+    const startTime = Date.now();
+    const result: PlanExecutionResult = {
+      success: false,
+      sourceFile,
+      plan,
+      steps: [],
+      totalDurationMs: 0,
+      cleanedUp: [],
+    };
+
+    if (!plan.success) {
+      return { ...result, error: plan.error ?? '转换计划无效' };
+    }
+
+    const intermediates: string[] = [];
+    let currentInput = sourceFile;
+    try {
+      for (const [index, step] of plan.steps.entries()) {
+        const isLastStep = index === plan.steps.length - 1;
+        const stepResult = await this.runStep(
+          step,
+          currentInput,
+          isLastStep ? options.outputPath : this.intermediatePath(step, options, intermediates),
+          options
+        );
+        result.steps.push(stepResult);
+
+        if (!stepResult.success) {
+          result.error = `步骤 ${step.stepNumber} (${step.toolName}) 失败: ${stepResult.error}`;
+          break;
+        }
+        currentInput = stepResult.outputPath!;
+      }
+
+      if (!result.error) {
+        result.success = true;
+        result.outputPath = currentInput;
+      }
+    } finally {
+      for (const file of intermediates) {
+        if (!(await fileExists(file))) continue;
+        try {
+          await fs.rm(file, { force: true });
+          result.cleanedUp.push(file);
+        } catch (error: any) {
+          console.warn(`⚠️ 清理中间文件失败: ${file}`, error.message);
+        }
+      }
+      result.totalDurationMs = Date.now() - startTime;
+    }
+
+    return result;
+  }
+
+  private intermediatePath(
+    step: ConversionStep,
+    options: PlanExecutionOptions,
+    intermediates: string[]
+  ): string {
+    const extension = FORMAT_EXTENSIONS[step.outputFormat] ?? `.${step.outputFormat}`;
+    const file = options.tempPath(`plan_step${step.stepNumber}`, extension);
+    intermediates.push(file);
+    return file;
+  }
+
+  private async runStep(
+    step: ConversionStep,
+    inputPath: string,
+    outputPath: string | undefined,
+    options: PlanExecutionOptions
+  ): Promise<PlanStepResult> {
+    const startTime = Date.now();
+    const base = { stepNumber: step.stepNumber, toolName: step.toolName, inputPath };
+
+    // 相同格式的计划只有一个 read_document 步骤，源文件即为结果
+    if (step.toolName === 'read_document') {
+      return { ...base, outputPath: inputPath, success: true, skipped: true, durationMs: 0 };
+    }
+
+    const args: Record<string, any> = { ...step.parameters };
+    args[this.planner.getInputParameterName(step.toolName)] = inputPath;
+    if (outputPath) args.outputPath = outputPath;
+
+    if (options.debug) {
+      console.log(`▶️ 步骤 ${step.stepNumber}: ${step.toolName} ${inputPath}`);
+    }
+
+    try {
+      const toolResult = await this.callTool(step.toolName, args);
+      const producedPath =
+        toolResult?.outputPath ??
+        toolResult?.htmlPath ??
+        toolResult?.docxPath ??
+        toolResult?.pptxPath ??
+        outputPath;
+      if (!toolResult?.success) {
+        throw new Error(toolResult?.error ?? '工具返回失败');
+      }
+      if (!producedPath || !(await fileExists(producedPath))) {
+        throw new Error(`步骤完成但未找到输出文件: ${producedPath ?? '(未返回路径)'}`);
+      }
+      return {
+        ...base,
+        outputPath: producedPath,
+        success: true,
+        durationMs: Date.now() - startTime,
+      };
+    } catch (error: any) {
+      return {
+        ...base,
+        outputPath,
+        success: false,
+        durationMs: Date.now() - startTime,
+        error: error.message,
+      };
+    }
+  }
+}
+
+async function fileExists(file: string): Promise<boolean> {
+  try {
+    return (await fs.stat(file)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 便捷函数：执行转换计划
+ */
+export async function executePlan(
+  plan: ConversionPlan,
+  sourceFile: string,
+  callTool: PlanToolCaller,
+  options: PlanExecutionOptions
+): Promise<PlanExecutionResult> {
+  const executor = new PlanExecutor(callTool);
+  return await executor.execute(plan, sourceFile, options);
+}
+
+export { PlanExecutor, PlanToolCaller, PlanExecutionOptions, PlanExecutionResult, PlanStepResult };
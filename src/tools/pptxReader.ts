@@ -0,0 +1,517 @@
+/**
+ * PPTX 读取器
+ * 按演示文稿中的幻灯片顺序提取标题、正文段落与列表层级、表格、图片和演讲者备注，
+ * 输出以 --- 分隔幻灯片的 Markdown（可再由 convert_markdown_to_pptx 生成演示文稿）或 HTML
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { OoxmlPackage, asArray, textOf, imageContentType } from './ooxmlPackage';
+
+interface PptxReaderOptions {
+  format?: 'markdown' | 'html';
+  imageDir?: string; // 指定时把图片写入该目录，Markdown 中引用实际路径
+}
+
+interface SlideParagraph {
+  type: 'paragraph';
+  text: string;
+  level: number;
+  list: 'none' | 'bullet' | 'number';
+}
+
+interface SlideTableCell {
+  text: string;
+  colspan: number;
+  rowspan: number;
+  covered: boolean; // 被合并单元格覆盖
+}
+
+interface SlideTable {
+  type: 'table';
+  rows: SlideTableCell[][];
+}
+
+interface SlideImage {
+  type: 'image';
+  name: string;
+  alt: string;
+  part: string;
+  contentType: string;
+  data: Buffer;
+  path?: string;
+}
+
+type SlideBlock = SlideParagraph | SlideTable | SlideImage;
+
+interface SlideData {
+  slideNumber: number;
+  title: string;
+  titleSlide: boolean; // 标题为 ctrTitle 占位符
+  hidden: boolean;
+  blocks: SlideBlock[];
+  notes: string;
+}
+
+interface PptxSlideSummary {
+  slideNumber: number;
+  title: string;
+  text: string;
+  notes: string;
+  hidden: boolean;
+  images: { name: string; alt: string; contentType: string; path?: string }[];
+}
+
+interface PptxReadResult {
+  success: boolean;
+  content: string;
+  slides: PptxSlideSummary[];
+  metadata: Record<string, any>;
+  error?: string;
+}
+
+// 页脚类占位符不属于幻灯片内容
+const SKIPPED_PLACEHOLDERS = new Set(['dt', 'ftr', 'sldNum', 'hdr', 'sldImg']);
+const TITLE_PLACEHOLDERS = new Set(['title', 'ctrTitle']);
+// 默认带项目符号的占位符
+const BULLETED_PLACEHOLDERS = new Set(['body', 'obj']);
+const SHAPE_TAGS = ['p:sp', 'p:pic', 'p:graphicframe', 'p:grpsp'];
+
+/**
+ * PPTX 读取器类
+ */
+class PptxReader {
+  async read(filePath: string, options: PptxReaderOptions = {}): Promise<PptxReadResult> {
+    const format = options.format ?? 'markdown';
+    try {
+      const pkg = await OoxmlPackage.load(filePath);
+      const presentationPart = await pkg.mainPart('ppt/presentation.xml');
+      const presentation = (await pkg.readXml(presentationPart))?.['p:presentation'];
+      if (!presentation) {
+        throw new Error(`无法找到演示文稿 ${presentationPart}`);
+      }
+
+      const relationships = await pkg.relationships(presentationPart);
+      const slides: SlideData[] = [];
+      for (const slideId of asArray(presentation['p:sldidlst']?.['p:sldid'])) {
+        const target = relationships.get(slideId['r:id'])?.target;
+        if (!target) continue;
+        const slide = await this.readSlide(pkg, target, slides.length + 1);
+        if (slide) slides.push(slide);
+      }
+
+      if (options.imageDir) {
+        await this.saveImages(slides, options.imageDir);
+      }
+
+      const properties = await pkg.properties();
+      const content =
+        format === 'html' ? renderHtml(slides, properties.title) : renderMarkdown(slides);
+      const images = slides.flatMap(slide => slide.blocks.filter(isImage));
+      return {
+        success: true,
+        content,
+        slides: slides.map(slide => ({
+          slideNumber: slide.slideNumber,
+          title: slide.title,
+          text: slideText(slide),
+          notes: slide.notes,
+          hidden: slide.hidden,
+          images: slide.blocks.filter(isImage).map(image => ({
+            name: image.name,
+            alt: image.alt,
+            contentType: image.contentType,
+            path: image.path,
+          })),
+        })),
+        metadata: {
+          ...properties,
+          format,
+          originalFormat: 'pptx',
+          converter: 'pptx-reader',
+          slideCount: slides.length,
+          notesCount: slides.filter(slide => slide.notes).length,
+          imagesCount: images.length,
+          standalone: format === 'html',
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ PPTX 读取失败:', error.message);
+      return {
+        success: false,
+        content: '',
+        slides: [],
+        metadata: { originalFormat: 'pptx', converter: 'pptx-reader' },
+        error: error.message,
+      };
+    }
+  }
+
+  private async readSlide(
+    pkg: OoxmlPackage,
+    part: string,
+    slideNumber: number
+  ): Promise<SlideData | null> {
+    const sld = (await pkg.readXml(part, preprocessSlideXml))?.['p:sld'];
+    if (!sld) return null;
+
+    const slide: SlideData = {
+      slideNumber,
+      title: '',
+      titleSlide: false,
+      hidden: sld.show === '0' || sld.show === 'false',
+      blocks: [],
+      notes: '',
+    };
+    await this.collectShapes(pkg, part, sld['p:csld']?.['p:sptree'], slide);
+
+    const notesPart = await pkg.relatedPart(part, 'notesSlide');
+    if (notesPart) {
+      slide.notes = await this.readNotes(pkg, notesPart);
+    }
+    return slide;
+  }
+
+  /**
+   * 按文档顺序遍历形状树，组合形状递归展开
+   */
+  private async collectShapes(
+    pkg: OoxmlPackage,
+    part: string,
+    tree: any,
+    slide: SlideData
+  ): Promise<void> {
+    if (!tree || typeof tree !== 'object') return;
+    const shapes = SHAPE_TAGS.flatMap(tag =>
+      asArray(tree[tag]).map(shape => ({ tag, shape, order: Number(shape?.docorder ?? 0) }))
+    ).sort((a, b) => a.order - b.order);
+
+    for (const { tag, shape } of shapes) {
+      switch (tag) {
+        case 'p:sp':
+          this.addTextShape(shape, slide);
+          break;
+        case 'p:pic': {
+          const image = await this.buildImage(pkg, part, shape);
+          if (image) slide.blocks.push(image);
+          break;
+        }
+        case 'p:graphicframe': {
+          const table = buildTable(shape);
+          if (table) slide.blocks.push(table);
+          break;
+        }
+        case 'p:grpsp':
+          await this.collectShapes(pkg, part, shape, slide);
+          break;
+      }
+    }
+  }
+
+  private addTextShape(shape: any, slide: SlideData): void {
+    const placeholder = placeholderType(shape['p:nvsppr']);
+    if (placeholder && SKIPPED_PLACEHOLDERS.has(placeholder)) return;
+    const paragraphs = asArray(shape['p:txbody']?.['a:p']);
+
+    if (placeholder && TITLE_PLACEHOLDERS.has(placeholder) && !slide.title) {
+      slide.title = paragraphs.map(paragraphText).join(' ').replace(/\s+/g, ' ').trim();
+      slide.titleSlide = placeholder === 'ctrTitle';
+      if (slide.title) return;
+    }
+
+    const bulleted = placeholder !== null && BULLETED_PLACEHOLDERS.has(placeholder);
+    for (const p of paragraphs) {
+      const text = paragraphText(p).trim();
+      if (!text) continue;
+      const pPr = typeof p['a:ppr'] === 'object' ? p['a:ppr'] : {};
+      let list: SlideParagraph['list'] = bulleted ? 'bullet' : 'none';
+      if (pPr['a:bunone'] !== undefined) list = 'none';
+      else if (pPr['a:buautonum'] !== undefined) list = 'number';
+      else if (pPr['a:buchar'] !== undefined || pPr['a:bublip'] !== undefined) list = 'bullet';
+      slide.blocks.push({ type: 'paragraph', text, level: Number(pPr.lvl ?? 0) || 0, list });
+    }
+  }
+
+  private async buildImage(pkg: OoxmlPackage, part: string, pic: any): Promise<SlideImage | null> {
+    const embed = pic['p:blipfill']?.['a:blip']?.['r:embed'];
+    const rel = embed ? (await pkg.relationships(part)).get(embed) : undefined;
+    if (!rel || rel.external) return null;
+    const data = await pkg.readBinary(rel.target);
+    if (!data) return null;
+    const cNvPr = pic['p:nvpicpr']?.['p:cnvpr'] ?? {};
+    return {
+      type: 'image',
+      name: path.posix.basename(rel.target),
+      alt: String(cNvPr.descr ?? cNvPr.title ?? '').trim(),
+      part: rel.target,
+      contentType: imageContentType(rel.target),
+      data,
+    };
+  }
+
+  /**
+   * 备注页中正文占位符的文本
+   */
+  private async readNotes(pkg: OoxmlPackage, part: string): Promise<string> {
+    const notes = (await pkg.readXml(part, preprocessSlideXml))?.['p:notes'];
+    const tree = notes?.['p:csld']?.['p:sptree'];
+    const bodies = asArray(tree?.['p:sp']).filter(
+      shape => placeholderType(shape['p:nvsppr']) === 'body'
+    );
+    return bodies
+      .flatMap(shape => asArray(shape['p:txbody']?.['a:p']).map(paragraphText))
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private async saveImages(slides: SlideData[], imageDir: string): Promise<void> {
+    await fs.mkdir(imageDir, { recursive: true });
+    for (const slide of slides) {
+      for (const image of slide.blocks.filter(isImage)) {
+        const file = path.join(imageDir, `slide${slide.slideNumber}_${image.name}`);
+        await fs.writeFile(file, image.data);
+        image.path = file;
+      }
+    }
+  }
+}
+
+/**
+ * 解析前的 XML 预处理，弥补 xml2js 对象模式丢失兄弟元素顺序的问题：
+ * 给形状标注文档顺序，并把换行与域（如页码）改写为普通文本运行
+ */
+function preprocessSlideXml(xml: string): string {
+  let order = 0;
+  return xml
+    .replace(/<p:(sp|pic|graphicFrame|grpSp)(?=[\s>])/g, match => `${match} docorder="${order++}"`)
+    .replace(/<a:br\b[^>]*?\/>|<a:br\b[^>]*>[\s\S]*?<\/a:br>/g, '<a:r><a:t>\n</a:t></a:r>')
+    .replace(/<a:fld\b/g, '<a:r')
+    .replace(/<\/a:fld>/g, '</a:r>');
+}
+
+/**
+ * 占位符类型；未指定 type 的占位符按内容占位符处理
+ */
+function placeholderType(nvPrParent: any): string | null {
+  const nvPr = nvPrParent?.['p:nvpr'];
+  if (!nvPr || typeof nvPr !== 'object' || nvPr['p:ph'] === undefined) return null;
+  const ph = nvPr['p:ph'];
+  return (typeof ph === 'object' && ph.type) || 'obj';
+}
+
+function paragraphText(p: any): string {
+  if (!p || typeof p !== 'object') return '';
+  return asArray(p['a:r'])
+    .map(run => textOf(run?.['a:t']))
+    .join('');
+}
+
+function buildTable(frame: any): SlideTable | null {
+  const tbl = frame['a:graphic']?.['a:graphicdata']?.['a:tbl'];
+  if (!tbl) return null;
+  const rows = asArray(tbl['a:tr']).map(tr =>
+    asArray(tr['a:tc']).map(tc => ({
+      text: asArray(tc['a:txbody']?.['a:p']).map(paragraphText).join('\n').trim(),
+      colspan: Number(tc.gridSpan ?? 1) || 1,
+      rowspan: Number(tc.rowSpan ?? 1) || 1,
+      covered:
+        tc.hMerge === '1' || tc.vMerge === '1' || tc.hMerge === 'true' || tc.vMerge === 'true',
+    }))
+  );
+  return rows.length ? { type: 'table', rows } : null;
+}
+
+function isImage(block: SlideBlock): block is SlideImage {
+  return block.type === 'image';
+}
+
+function slideText(slide: SlideData): string {
+  return slide.blocks
+    .flatMap(block => {
+      if (block.type === 'paragraph') return [block.text];
+      if (block.type === 'table') {
+        return block.rows.map(row =>
+          row
+            .filter(cell => !cell.covered)
+            .map(cell => cell.text)
+            .join('\t')
+        );
+      }
+      return [];
+    })
+    .join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * 每张幻灯片以 --- 分隔：标题幻灯片用一级标题，其余用二级标题；备注写成 Note: 段落
+ */
+function renderMarkdown(slides: SlideData[]): string {
+  return slides
+    .map(slide => {
+      const blocks: string[] = [];
+      if (slide.title) blocks.push(`${slide.titleSlide ? '#' : '##'} ${slide.title}`);
+
+      let list: string[] = [];
+      const counters: number[] = [];
+      const kinds: string[] = [];
+      const flushList = () => {
+        if (list.length) blocks.push(list.join('\n'));
+        list = [];
+        counters.length = 0;
+        kinds.length = 0;
+      };
+
+      for (const block of slide.blocks) {
+        if (block.type === 'paragraph' && block.list !== 'none') {
+          counters.length = kinds.length = block.level + 1;
+          // 同一层级换用另一种列表时重新编号
+          if (kinds[block.level] !== block.list) counters[block.level] = 0;
+          kinds[block.level] = block.list;
+          counters[block.level] = (counters[block.level] ?? 0) + 1;
+          const marker = block.list === 'number' ? `${counters[block.level]}.` : '-';
+          list.push(`${'    '.repeat(block.level)}${marker} ${block.text.replace(/\n/g, '<br>')}`);
+          continue;
+        }
+        flushList();
+        if (block.type === 'paragraph') {
+          blocks.push(block.text.replace(/\n/g, '  \n'));
+        } else if (block.type === 'image') {
+          blocks.push(`![${block.alt}](${block.path ?? block.name})`);
+        } else {
+          blocks.push(renderMarkdownTable(block));
+        }
+      }
+      flushList();
+
+      if (slide.notes) blocks.push(`Note: ${slide.notes.replace(/\n+/g, '\n\n')}`);
+      return blocks.join('\n\n');
+    })
+    .join('\n\n---\n\n');
+}
+
+// Markdown 表格不支持合并，被覆盖的单元格留空
+function renderMarkdownTable(table: SlideTable): string {
+  const columns = Math.max(...table.rows.map(row => row.length));
+  const line = (row: SlideTableCell[]) =>
+    `| ${Array.from({ length: columns }, (_, col) =>
+      row[col] && !row[col].covered ? escapeMarkdownCell(row[col].text) : ''
+    ).join(' | ')} |`;
+  const [header, ...body] = table.rows;
+  return [line(header), `| ${Array(columns).fill('---').join(' | ')} |`, ...body.map(line)].join(
+    '\n'
+  );
+}
+
+function renderHtml(slides: SlideData[], title?: string): string {
+  const sections = slides.map(slide => {
+    const parts: string[] = [];
+    if (slide.title) {
+      parts.push(
+        `<${slide.titleSlide ? 'h1' : 'h2'}>${escapeHtml(slide.title)}</${slide.titleSlide ? 'h1' : 'h2'}>`
+      );
+    }
+
+    // 连续的列表段落按层级嵌套
+    const stack: string[] = [];
+    const closeTo = (depth: number) => {
+      while (stack.length > depth) parts.push(`</li></${stack.pop()}>`);
+    };
+    for (const block of slide.blocks) {
+      if (block.type === 'paragraph' && block.list !== 'none') {
+        const tag = block.list === 'number' ? 'ol' : 'ul';
+        closeTo(block.level + 1);
+        if (stack.length === block.level + 1 && stack[block.level] !== tag) closeTo(block.level);
+        if (stack.length === block.level + 1) {
+          parts.push('</li>');
+        }
+        while (stack.length < block.level + 1) {
+          parts.push(`<${tag}>`);
+          stack.push(tag);
+        }
+        parts.push(`<li>${escapeHtml(block.text).replace(/\n/g, '<br>')}`);
+        continue;
+      }
+      closeTo(0);
+      if (block.type === 'paragraph') {
+        parts.push(`<p>${escapeHtml(block.text).replace(/\n/g, '<br>')}</p>`);
+      } else if (block.type === 'image') {
+        const src = `data:${block.contentType};base64,${block.data.toString('base64')}`;
+        parts.push(`<figure><img src="${src}" alt="${escapeHtml(block.alt)}"></figure>`);
+      } else {
+        const rows = block.rows.map((row, rowIndex) => {
+          const tag = rowIndex === 0 ? 'th' : 'td';
+          const cells = row
+            .filter(cell => !cell.covered)
+            .map(cell => {
+              const span =
+                (cell.colspan > 1 ? ` colspan="${cell.colspan}"` : '') +
+                (cell.rowspan > 1 ? ` rowspan="${cell.rowspan}"` : '');
+              return `<${tag}${span}>${escapeHtml(cell.text).replace(/\n/g, '<br>')}</${tag}>`;
+            });
+          return `<tr>${cells.join('')}</tr>`;
+        });
+        parts.push(`<table>${rows.join('')}</table>`);
+      }
+    }
+    closeTo(0);
+
+    if (slide.notes) {
+      const notes = slide.notes
+        .split(/\n+/)
+        .map(line => `<p>${escapeHtml(line)}</p>`)
+        .join('');
+      parts.push(`<aside class="notes"><h3>Notes</h3>${notes}</aside>`);
+    }
+    const className = `slide${slide.hidden ? ' hidden' : ''}`;
+    return `  <section class="${className}" id="slide-${slide.slideNumber}">\n    ${parts.join('\n    ')}\n  </section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(title ?? 'Presentation')}</title>
+  <style>
+    body { font-family: Calibri, "Segoe UI", Arial, sans-serif; margin: 24px; color: #222; background: #f5f5f5; }
+    .slide { background: #fff; border: 1px solid #ddd; border-radius: 4px; padding: 24px 32px; margin: 0 auto 24px; max-width: 960px; }
+    .slide.hidden { opacity: 0.6; }
+    h1 { font-size: 28pt; } h2 { font-size: 22pt; }
+    img { max-width: 100%; }
+    table { border-collapse: collapse; margin: 12px 0; }
+    th, td { border: 1px solid #d0d7de; padding: 4px 8px; vertical-align: top; }
+    th { background: #f3f4f6; }
+    .notes { border-top: 1px dashed #bbb; margin-top: 16px; color: #555; font-size: 0.9em; }
+    .notes h3 { font-size: 1em; margin: 8px 0; }
+  </style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>`;
+}
+
+/**
+ * 便捷函数：读取 PPTX 文件
+ */
+export async function readPptx(
+  filePath: string,
+  options: PptxReaderOptions = {}
+): Promise<PptxReadResult> {
+  const reader = new PptxReader();
+  return await reader.read(filePath, options);
+}
+
+export { PptxReader, PptxReaderOptions, PptxReadResult, PptxSlideSummary };
@@ -0,0 +1,1175 @@
+/**
+ * RTF 读取器
+ * 逐字符解析 RTF 组、控制字与控制符号，生成与 OOXML 解析器同构的独立 HTML：
+ * 字符与段落格式、标题、列表、表格（含合并单元格）、图片、超链接和脚注
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+interface RtfReadResult {
+  success: boolean;
+  content: string;
+  metadata: Record<string, any>;
+  error?: string;
+}
+
+type RtfDestination =
+  | 'normal'
+  | 'skip'
+  | 'fonttbl'
+  | 'colortbl'
+  | 'stylesheet'
+  | 'info'
+  | 'info:title'
+  | 'info:subject'
+  | 'info:author'
+  | 'fldinst'
+  | 'listtext'
+  | 'pict'
+  | 'object';
+
+interface CharFormat {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strike: boolean;
+  hidden: boolean;
+  vertical: '' | 'super' | 'sub';
+  fontSize: number; // 半磅
+  color: number; // 颜色表索引，0 为自动
+  background: number;
+  font: number;
+}
+
+interface ParaFormat {
+  align: string;
+  style: number;
+  outline: number | null;
+  inTable: boolean;
+  level: number;
+  leftIndent: number; // 缇
+}
+
+interface RtfRun {
+  text?: string;
+  html?: string; // 已渲染的图片
+  note?: RtfNote; // 脚注引用，编号在渲染时确定
+  format: CharFormat;
+  link?: string;
+}
+
+interface RtfParagraph {
+  runs: RtfRun[];
+  format: ParaFormat;
+  listText: string | null;
+}
+
+interface RtfCellDef {
+  right: number;
+  mergeFirst: boolean;
+  merged: boolean;
+  verticalFirst: boolean;
+  verticalMerged: boolean;
+}
+
+interface RtfRow {
+  cells: RtfParagraph[][];
+  defs: RtfCellDef[];
+  header: boolean;
+}
+
+type RtfBlock = { type: 'paragraph'; paragraph: RtfParagraph } | { type: 'table'; rows: RtfRow[] };
+
+// 正文或脚注的输出目标，各自维护段落与表格状态
+interface RtfSink {
+  blocks: RtfBlock[];
+  runs: RtfRun[];
+  listText: string | null;
+  cellParagraphs: RtfParagraph[];
+  rowCells: RtfParagraph[][];
+  rows: RtfRow[];
+  rowDefs: RtfCellDef[];
+  pendingDef: Omit<RtfCellDef, 'right'>;
+  headerRow: boolean;
+}
+
+interface RtfNote {
+  kind: 'footnote' | 'endnote';
+  label: string;
+  sink: RtfSink;
+}
+
+interface RtfPicture {
+  type: string | null;
+  hex: string;
+  binary: Buffer | null;
+  width: number; // 像素
+  height: number;
+  goalWidth: number; // 缇
+  goalHeight: number;
+  scaleX: number;
+  scaleY: number;
+}
+
+interface RtfState {
+  destination: RtfDestination;
+  char: CharFormat;
+  para: ParaFormat;
+  uc: number;
+  sink: RtfSink;
+  link?: string;
+  field?: { instruction: string };
+  picture?: RtfPicture;
+}
+
+// 不输出正文的目标（页眉页脚、修订表、主题等）
+const SKIPPED_DESTINATIONS = new Set([
+  'header',
+  'headerl',
+  'headerr',
+  'headerf',
+  'footer',
+  'footerl',
+  'footerr',
+  'footerf',
+  'nonshppict',
+  'listtable',
+  'listoverridetable',
+  'revtbl',
+  'rsidtbl',
+  'themedata',
+  'colorschememapping',
+  'latentstyles',
+  'datastore',
+  'xmlnstbl',
+  'filetbl',
+  'pgdsctbl',
+  'generator',
+  'userprops',
+  'docvar',
+  'private',
+  'pn',
+  'txe',
+  'xe',
+  'tc',
+  'tcn',
+  'bkmkstart',
+  'bkmkend',
+  'annotation',
+  'atnid',
+  'atnauthor',
+  'atrfstart',
+  'atrfend',
+  'ftnsep',
+  'ftnsepc',
+  'aftnsep',
+  'aftnsepc',
+]);
+
+// \* 后仍需处理的可忽略目标
+const IGNORABLE_HANDLED = new Set(['fldinst', 'shppict']);
+
+const SPECIAL_CHARACTERS: Record<string, string> = {
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  emspace: ' ',
+  enspace: ' ',
+  qmspace: ' ',
+  tab: '\t',
+  line: '\n',
+};
+
+// \fcharset 到代码页
+const CHARSET_CODEPAGES: Record<number, number> = {
+  0: 1252,
+  77: 10000,
+  128: 932,
+  129: 949,
+  134: 936,
+  136: 950,
+  161: 1253,
+  162: 1254,
+  163: 1258,
+  177: 1255,
+  178: 1256,
+  186: 1257,
+  204: 1251,
+  222: 874,
+  238: 1250,
+};
+
+const DEFAULT_FONT_SIZE = 24;
+
+/**
+ * RTF 读取器类
+ */
+class RtfReader {
+  private state!: RtfState;
+  private stack: RtfState[] = [];
+  private main: RtfSink = createSink();
+  private notes: RtfNote[] = [];
+  private codepage = 1252;
+  private fontCodepages = new Map<number, number>();
+  private fontTableIndex = 0;
+  private colors: (string | null)[] = [];
+  private currentColor: number[] = [];
+  private styleNames = new Map<number, string>();
+  private styleIndex = 0;
+  private styleName = '';
+  private info: Record<string, string> = {};
+  private pendingBytes: number[] = [];
+  private skipCount = 0;
+  private ignorable = false;
+  private images = 0;
+
+  async read(filePath: string): Promise<RtfReadResult> {
+    try {
+      const data = await fs.readFile(filePath);
+      // RTF 是 7 位 ASCII 格式，非 ASCII 字符以 \'hh 或 \u 表示；latin1 保证字节不丢失
+      const rtf = data.toString('latin1');
+      if (!rtf.trimStart().startsWith('{\\rtf')) {
+        throw new Error(`不是有效的 RTF 文件: ${path.basename(filePath)}`);
+      }
+      this.parse(rtf);
+
+      // 脚注与尾注分别编号
+      let footnotes = 0;
+      let endnotes = 0;
+      for (const note of this.notes) {
+        note.label = note.kind === 'footnote' ? String(++footnotes) : toRoman(++endnotes);
+      }
+      const body = this.renderSink(this.main) + this.renderNotes();
+      const metadata: Record<string, any> = {};
+      for (const [key, value] of Object.entries(this.info)) {
+        if (value.trim()) metadata[key] = value.trim();
+      }
+      return {
+        success: true,
+        content: wrapHtml(body, metadata.title),
+        metadata: {
+          ...metadata,
+          format: 'html',
+          originalFormat: 'rtf',
+          converter: 'rtf-reader',
+          imagesCount: this.images,
+          notesCount: this.notes.length,
+          standalone: true,
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ RTF 读取失败:', error.message);
+      return {
+        success: false,
+        content: '',
+        metadata: { originalFormat: 'rtf', converter: 'rtf-reader' },
+        error: error.message,
+      };
+    }
+  }
+
+  private parse(rtf: string): void {
+    this.state = {
+      destination: 'normal',
+      char: defaultCharFormat(),
+      para: defaultParaFormat(),
+      uc: 1,
+      sink: this.main,
+    };
+    let i = 0;
+    while (i < rtf.length) {
+      const ch = rtf[i];
+      if (ch === '{') {
+        this.flushBytes();
+        this.skipCount = 0;
+        this.stack.push(this.state);
+        this.state = { ...this.state, char: { ...this.state.char }, para: { ...this.state.para } };
+        i++;
+      } else if (ch === '}') {
+        this.flushBytes();
+        this.skipCount = 0;
+        this.endGroup();
+        i++;
+      } else if (ch === '\\') {
+        const next = rtf[i + 1] ?? '';
+        if (/[a-zA-Z]/.test(next)) {
+          const match = /^([a-zA-Z]{1,32})(-?\d{1,10})? ?/.exec(rtf.slice(i + 1, i + 48))!;
+          i += 1 + match[0].length;
+          const word = match[1];
+          const param = match[2] !== undefined ? Number(match[2]) : null;
+          if (word === 'bin' && param !== null && param > 0) {
+            // \binN 后紧跟 N 个原始字节
+            if (this.state.destination === 'pict' && this.state.picture) {
+              this.state.picture.binary = Buffer.from(rtf.slice(i, i + param), 'latin1');
+            }
+            i += param;
+          } else {
+            this.controlWord(word, param);
+          }
+        } else if (next === "'") {
+          this.byte(parseInt(rtf.slice(i + 2, i + 4), 16));
+          i += 4;
+        } else {
+          this.controlSymbol(next);
+          i += 2;
+        }
+      } else if (ch === '\r' || ch === '\n') {
+        i++;
+      } else {
+        let j = i;
+        while (j < rtf.length && !'{}\\\r\n'.includes(rtf[j])) j++;
+        this.plainText(rtf.slice(i, j));
+        i = j;
+      }
+    }
+    this.flushBytes();
+    this.endParagraph(this.main, false);
+    this.flushTable(this.main);
+  }
+
+  private endGroup(): void {
+    const closing = this.state;
+    this.state = this.stack.pop() ?? closing;
+    if (closing.destination === 'pict' && closing.picture && this.state.destination !== 'pict') {
+      this.emitPicture(closing.picture);
+    }
+    if (closing.sink !== this.state.sink) {
+      // 脚注组结束
+      this.endParagraph(closing.sink, false);
+      this.flushTable(closing.sink);
+    }
+  }
+
+  private controlSymbol(symbol: string): void {
+    switch (symbol) {
+      case '\\':
+      case '{':
+      case '}':
+        this.plainText(symbol);
+        break;
+      case '~':
+        this.plainText(' ');
+        break;
+      case '_':
+        this.plainText('‑');
+        break;
+      case '*':
+        this.ignorable = true;
+        break;
+      case '\n':
+      case '\r':
+        this.controlWord('par', null);
+        break;
+      default:
+        // \- 可选连字符、\: 索引子项等
+        break;
+    }
+  }
+
+  private controlWord(word: string, param: number | null): void {
+    this.flushBytes();
+    const state = this.state;
+    const ignorable = this.ignorable;
+    this.ignorable = false;
+
+    if (ignorable && !IGNORABLE_HANDLED.has(word)) {
+      state.destination = 'skip';
+      return;
+    }
+    if (state.destination === 'skip') return;
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      state.destination = 'skip';
+      return;
+    }
+
+    const on = param === null || param !== 0;
+    switch (word) {
+      // 文档级设置与表
+      case 'ansicpg':
+        this.codepage = param ?? 1252;
+        break;
+      case 'mac':
+        this.codepage = 10000;
+        break;
+      case 'fonttbl':
+        state.destination = 'fonttbl';
+        break;
+      case 'fcharset':
+        if (state.destination === 'fonttbl' && param !== null && CHARSET_CODEPAGES[param]) {
+          this.fontCodepages.set(this.fontTableIndex, CHARSET_CODEPAGES[param]);
+        }
+        break;
+      case 'cpg':
+        if (state.destination === 'fonttbl' && param !== null) {
+          this.fontCodepages.set(this.fontTableIndex, param);
+        }
+        break;
+      case 'colortbl':
+        state.destination = 'colortbl';
+        this.currentColor = [];
+        break;
+      case 'red':
+        this.currentColor[0] = param ?? 0;
+        break;
+      case 'green':
+        this.currentColor[1] = param ?? 0;
+        break;
+      case 'blue':
+        this.currentColor[2] = param ?? 0;
+        break;
+      case 'stylesheet':
+        state.destination = 'stylesheet';
+        this.styleIndex = 0;
+        this.styleName = '';
+        break;
+      case 'info':
+        state.destination = 'info';
+        break;
+      case 'title':
+      case 'subject':
+      case 'author':
+        if (state.destination === 'info') state.destination = `info:${word}` as RtfDestination;
+        break;
+
+      // 字段、列表编号、脚注、图片、对象
+      case 'field':
+        state.field = { instruction: '' };
+        state.link = undefined;
+        break;
+      case 'fldinst':
+        state.destination = 'fldinst';
+        break;
+      case 'fldrslt':
+        state.destination = 'normal';
+        state.link = parseHyperlink(state.field?.instruction ?? '');
+        break;
+      case 'listtext':
+      case 'pntext':
+        state.destination = 'listtext';
+        state.sink.listText = '';
+        break;
+      case 'footnote':
+        this.openNote();
+        break;
+      case 'ftnalt': {
+        // 当前脚注实为尾注
+        const note = this.notes.find(item => item.sink === state.sink);
+        if (note) note.kind = 'endnote';
+        break;
+      }
+      case 'shppict':
+        break;
+      case 'pict':
+        state.destination = 'pict';
+        state.picture = {
+          type: null,
+          hex: '',
+          binary: null,
+          width: 0,
+          height: 0,
+          goalWidth: 0,
+          goalHeight: 0,
+          scaleX: 100,
+          scaleY: 100,
+        };
+        break;
+      case 'pngblip':
+      case 'jpegblip':
+        if (state.picture) state.picture.type = word === 'pngblip' ? 'image/png' : 'image/jpeg';
+        break;
+      case 'picw':
+        if (state.picture) state.picture.width = param ?? 0;
+        break;
+      case 'pich':
+        if (state.picture) state.picture.height = param ?? 0;
+        break;
+      case 'picwgoal':
+        if (state.picture) state.picture.goalWidth = param ?? 0;
+        break;
+      case 'pichgoal':
+        if (state.picture) state.picture.goalHeight = param ?? 0;
+        break;
+      case 'picscalex':
+        if (state.picture) state.picture.scaleX = param ?? 100;
+        break;
+      case 'picscaley':
+        if (state.picture) state.picture.scaleY = param ?? 100;
+        break;
+      case 'object':
+        state.destination = 'object';
+        break;
+      case 'result':
+        if (state.destination === 'object') state.destination = 'normal';
+        break;
+
+      // 字符格式
+      case 'plain':
+        state.char = defaultCharFormat();
+        break;
+      case 'b':
+        state.char.bold = on;
+        break;
+      case 'i':
+        state.char.italic = on;
+        break;
+      case 'ul':
+      case 'uld':
+      case 'uldb':
+      case 'uldash':
+      case 'ulth':
+      case 'ulw':
+      case 'ulwave':
+        state.char.underline = on;
+        break;
+      case 'ulnone':
+        state.char.underline = false;
+        break;
+      case 'strike':
+      case 'striked':
+        state.char.strike = on;
+        break;
+      case 'v':
+        state.char.hidden = on;
+        break;
+      case 'super':
+        state.char.vertical = 'super';
+        break;
+      case 'sub':
+        state.char.vertical = 'sub';
+        break;
+      case 'nosupersub':
+        state.char.vertical = '';
+        break;
+      case 'up':
+        state.char.vertical = on ? 'super' : '';
+        break;
+      case 'dn':
+        state.char.vertical = on ? 'sub' : '';
+        break;
+      case 'fs':
+        state.char.fontSize = param ?? DEFAULT_FONT_SIZE;
+        break;
+      case 'cf':
+        state.char.color = param ?? 0;
+        break;
+      case 'cb':
+      case 'highlight':
+        state.char.background = param ?? 0;
+        break;
+      case 'f':
+        if (state.destination === 'fonttbl') this.fontTableIndex = param ?? 0;
+        else state.char.font = param ?? 0;
+        break;
+
+      // 段落格式
+      case 'pard':
+        state.para = defaultParaFormat();
+        break;
+      case 'ql':
+        state.para.align = '';
+        break;
+      case 'qc':
+        state.para.align = 'center';
+        break;
+      case 'qr':
+        state.para.align = 'right';
+        break;
+      case 'qj':
+        state.para.align = 'justify';
+        break;
+      case 's':
+        if (state.destination === 'stylesheet') this.styleIndex = param ?? 0;
+        else state.para.style = param ?? 0;
+        break;
+      case 'outlinelevel':
+        state.para.outline = param !== null && param < 9 ? param : null;
+        break;
+      case 'ilvl':
+        state.para.level = param ?? 0;
+        break;
+      case 'li':
+        state.para.leftIndent = param ?? 0;
+        break;
+      case 'intbl':
+        state.para.inTable = true;
+        break;
+
+      // 段落与表格结构
+      case 'par':
+      case 'sect':
+      case 'page':
+        if (state.destination === 'normal') this.endParagraph(state.sink, state.para.inTable);
+        break;
+      case 'cell':
+      case 'nestcell':
+        if (state.destination === 'normal') this.endCell(state.sink);
+        break;
+      case 'row':
+      case 'nestrow':
+        if (state.destination === 'normal') this.endRow(state.sink);
+        break;
+      case 'trowd':
+        state.sink.rowDefs = [];
+        state.sink.headerRow = false;
+        state.sink.pendingDef = emptyCellDef();
+        break;
+      case 'trhdr':
+        state.sink.headerRow = true;
+        break;
+      case 'clmgf':
+        state.sink.pendingDef.mergeFirst = true;
+        break;
+      case 'clmrg':
+        state.sink.pendingDef.merged = true;
+        break;
+      case 'clvmgf':
+        state.sink.pendingDef.verticalFirst = true;
+        break;
+      case 'clvmrg':
+        state.sink.pendingDef.verticalMerged = true;
+        break;
+      case 'cellx':
+        state.sink.rowDefs.push({ right: param ?? 0, ...state.sink.pendingDef });
+        state.sink.pendingDef = emptyCellDef();
+        break;
+
+      // Unicode 字符
+      case 'uc':
+        state.uc = param ?? 1;
+        break;
+      case 'u':
+        if (param !== null) {
+          this.emitText(String.fromCharCode(param < 0 ? param + 65536 : param));
+          this.skipCount = state.uc;
+        }
+        break;
+
+      default:
+        if (SPECIAL_CHARACTERS[word] !== undefined) this.emitText(SPECIAL_CHARACTERS[word]);
+        break;
+    }
+  }
+
+  /**
+   * \'hh 字节：连续字节按当前代码页整体解码，以正确处理双字节字符集
+   */
+  private byte(value: number): void {
+    if (this.skipCount > 0) {
+      this.skipCount--;
+      return;
+    }
+    if (Number.isNaN(value)) return;
+    this.pendingBytes.push(value);
+  }
+
+  private plainText(text: string): void {
+    let remaining = text;
+    if (this.skipCount > 0) {
+      const skipped = Math.min(this.skipCount, remaining.length);
+      remaining = remaining.slice(skipped);
+      this.skipCount -= skipped;
+    }
+    // 双字节代码页中，尾字节可能以普通 ASCII 字符写出
+    if (
+      remaining &&
+      this.pendingBytes.length &&
+      needsTrailByte(this.pendingBytes, this.activeCodepage())
+    ) {
+      this.pendingBytes.push(remaining.charCodeAt(0));
+      remaining = remaining.slice(1);
+    }
+    this.flushBytes();
+    if (remaining) this.emitText(remaining);
+  }
+
+  private flushBytes(): void {
+    if (!this.pendingBytes.length) return;
+    const bytes = Buffer.from(this.pendingBytes);
+    this.pendingBytes = [];
+    this.emitText(decodeBytes(bytes, this.activeCodepage()));
+  }
+
+  private activeCodepage(): number {
+    return this.fontCodepages.get(this.state.char.font) ?? this.codepage;
+  }
+
+  private emitText(text: string): void {
+    const state = this.state;
+    switch (state.destination) {
+      case 'normal':
+        if (!state.char.hidden) {
+          state.sink.runs.push({ text, format: { ...state.char }, link: state.link });
+        }
+        break;
+      case 'colortbl':
+        for (const ch of text) {
+          if (ch !== ';') continue;
+          const [red, green, blue] = this.currentColor;
+          this.colors.push(
+            this.currentColor.length
+              ? `#${[red, green, blue].map(value => (value ?? 0).toString(16).padStart(2, '0')).join('')}`
+              : null
+          );
+          this.currentColor = [];
+        }
+        break;
+      case 'stylesheet':
+        for (const ch of text) {
+          if (ch === ';') {
+            this.styleNames.set(this.styleIndex, this.styleName.trim());
+            this.styleName = '';
+          } else {
+            this.styleName += ch;
+          }
+        }
+        break;
+      case 'info:title':
+      case 'info:subject':
+      case 'info:author': {
+        const key = state.destination.slice(5);
+        this.info[key] = (this.info[key] ?? '') + text;
+        break;
+      }
+      case 'fldinst':
+        if (state.field) state.field.instruction += text;
+        break;
+      case 'listtext':
+        state.sink.listText = (state.sink.listText ?? '') + text;
+        break;
+      case 'pict':
+        if (state.picture) state.picture.hex += text;
+        break;
+      default:
+        break;
+    }
+  }
+
+  private openNote(): void {
+    const note: RtfNote = { kind: 'footnote', label: '', sink: createSink() };
+    this.notes.push(note);
+    this.state.sink.runs.push({ note, format: defaultCharFormat() });
+    this.state.sink = note.sink;
+    this.state.destination = 'normal';
+    this.state.link = undefined;
+  }
+
+  private emitPicture(picture: RtfPicture): void {
+    if (!picture.type) return;
+    const data = picture.binary ?? Buffer.from(picture.hex.replace(/[^0-9a-fA-F]/g, ''), 'hex');
+    if (!data.length) return;
+    const width = picture.goalWidth
+      ? Math.round((picture.goalWidth * picture.scaleX) / 100 / 15)
+      : picture.width;
+    const height = picture.goalHeight
+      ? Math.round((picture.goalHeight * picture.scaleY) / 100 / 15)
+      : picture.height;
+    this.images++;
+    const image = `<img src="data:${picture.type};base64,${data.toString('base64')}" alt=""${
+      width ? ` width="${width}"` : ''
+    }${height ? ` height="${height}"` : ''}>`;
+    this.state.sink.runs.push({ html: image, format: defaultCharFormat(), link: this.state.link });
+  }
+
+  private endParagraph(sink: RtfSink, inTable: boolean): void {
+    const paragraph: RtfParagraph = {
+      runs: sink.runs,
+      format: { ...this.state.para },
+      listText: sink.listText,
+    };
+    sink.runs = [];
+    sink.listText = null;
+    if (inTable) {
+      sink.cellParagraphs.push(paragraph);
+      return;
+    }
+    this.flushTable(sink);
+    if (paragraph.runs.length) sink.blocks.push({ type: 'paragraph', paragraph });
+  }
+
+  private endCell(sink: RtfSink): void {
+    this.endParagraph(sink, true);
+    sink.rowCells.push(sink.cellParagraphs);
+    sink.cellParagraphs = [];
+  }
+
+  private endRow(sink: RtfSink): void {
+    if (sink.runs.length) this.endCell(sink);
+    sink.rows.push({ cells: sink.rowCells, defs: sink.rowDefs, header: sink.headerRow });
+    sink.rowCells = [];
+  }
+
+  private flushTable(sink: RtfSink): void {
+    if (sink.rowCells.length || sink.cellParagraphs.length) this.endRow(sink);
+    if (!sink.rows.length) return;
+    sink.blocks.push({ type: 'table', rows: sink.rows });
+    sink.rows = [];
+  }
+
+  private renderSink(sink: RtfSink): string {
+    const parts: string[] = [];
+    let listItems: { level: number; kind: 'ul' | 'ol'; html: string }[] = [];
+    const flushList = () => {
+      if (listItems.length) parts.push(renderList(listItems));
+      listItems = [];
+    };
+
+    for (const block of sink.blocks) {
+      if (block.type === 'table') {
+        flushList();
+        parts.push(this.renderTable(block.rows));
+        continue;
+      }
+      const { paragraph } = block;
+      if (paragraph.listText !== null) {
+        const marker = paragraph.listText.trim();
+        listItems.push({
+          level: paragraph.format.level,
+          kind: /^[([]?(\d+|[a-z]{1,3}|[ivxlcdm]+)[.)\]]$/i.test(marker) ? 'ol' : 'ul',
+          html: this.renderRuns(paragraph.runs).trim(),
+        });
+        continue;
+      }
+      flushList();
+      parts.push(this.renderParagraph(paragraph));
+    }
+    flushList();
+    return parts.filter(Boolean).join('\n');
+  }
+
+  private renderParagraph(paragraph: RtfParagraph): string {
+    const { format } = paragraph;
+    const styleName = (this.styleNames.get(format.style) ?? '').toLowerCase();
+    const level =
+      format.outline !== null
+        ? Math.min(format.outline + 1, 6)
+        : /^heading\s*(\d)$/.exec(styleName)
+          ? Math.min(Number(/^heading\s*(\d)$/.exec(styleName)![1]), 6)
+          : styleName === 'title'
+            ? 1
+            : 0;
+    if (level) {
+      // 标题样式自带的加粗与字号由标题级别体现
+      const runs = paragraph.runs.map(run => ({
+        ...run,
+        format: { ...run.format, bold: false, fontSize: DEFAULT_FONT_SIZE },
+      }));
+      const content = this.renderRuns(runs).trim();
+      return content ? `<h${level}>${content}</h${level}>` : '';
+    }
+    const content = this.renderRuns(paragraph.runs).trim();
+    if (!content) return '';
+    const css = [
+      format.align ? `text-align: ${format.align}` : '',
+      format.leftIndent > 0 ? `margin-left: ${format.leftIndent / 20}pt` : '',
+    ].filter(Boolean);
+    return `<p${css.length ? ` style="${css.join('; ')}"` : ''}>${content}</p>`;
+  }
+
+  private renderTable(rows: RtfRow[]): string {
+    // 以所有行的单元格右边界构成统一网格，据此计算跨列
+    const boundaries = Array.from(
+      new Set(rows.flatMap(row => row.defs.map(def => def.right)))
+    ).sort((a, b) => a - b);
+    const layout = rows.map(row => {
+      let previous = -Infinity;
+      return row.cells.map((paragraphs, index) => {
+        const def = row.defs[index];
+        const right = def?.right ?? previous + 1;
+        const start = boundaries.findIndex(boundary => boundary > previous);
+        const end = boundaries.findIndex(boundary => boundary >= right);
+        previous = right;
+        const column = def ? Math.max(start, 0) : index;
+        const span = def && end >= start && start >= 0 ? end - start + 1 : 1;
+        return { paragraphs, def, column, span };
+      });
+    });
+
+    const html = layout.map((cells, rowIndex) => {
+      const tag = rows[rowIndex].header ? 'th' : 'td';
+      const rendered: string[] = [];
+      for (let index = 0; index < cells.length; index++) {
+        const cell = cells[index];
+        if (cell.def?.merged || cell.def?.verticalMerged) continue;
+        let colspan = cell.span;
+        if (cell.def?.mergeFirst) {
+          for (let next = index + 1; next < cells.length && cells[next].def?.merged; next++) {
+            colspan += cells[next].span;
+          }
+        }
+        let rowspan = 1;
+        if (cell.def?.verticalFirst) {
+          for (let below = rowIndex + 1; below < layout.length; below++) {
+            const match = layout[below].find(other => other.column === cell.column);
+            if (!match?.def?.verticalMerged) break;
+            rowspan++;
+          }
+        }
+        const content = cell.paragraphs
+          .map(paragraph => this.renderRuns(paragraph.runs).trim())
+          .filter(Boolean)
+          .join('<br>');
+        rendered.push(
+          `<${tag}${colspan > 1 ? ` colspan="${colspan}"` : ''}${
+            rowspan > 1 ? ` rowspan="${rowspan}"` : ''
+          }>${content}</${tag}>`
+        );
+      }
+      return `<tr>${rendered.join('')}</tr>`;
+    });
+    return `<table>\n${html.join('\n')}\n</table>`;
+  }
+
+  /**
+   * 合并相邻的同格式片段后渲染；同一链接的片段放入一个 <a>
+   */
+  private renderRuns(runs: RtfRun[]): string {
+    const merged: RtfRun[] = [];
+    for (const run of runs) {
+      const last = merged[merged.length - 1];
+      if (
+        last &&
+        last.text !== undefined &&
+        run.text !== undefined &&
+        !last.note &&
+        !run.note &&
+        last.link === run.link &&
+        JSON.stringify(last.format) === JSON.stringify(run.format)
+      ) {
+        last.text += run.text;
+      } else {
+        merged.push({ ...run });
+      }
+    }
+
+    let html = '';
+    for (let index = 0; index < merged.length;) {
+      const link = merged[index].link;
+      let group = '';
+      while (index < merged.length && merged[index].link === link) {
+        group += this.renderRun(merged[index]);
+        index++;
+      }
+      html += link ? `<a href="${escapeHtml(link)}">${group}</a>` : group;
+    }
+    return html;
+  }
+
+  private renderRun(run: RtfRun): string {
+    if (run.html !== undefined) return run.html;
+    if (run.note) return noteReference(run.note);
+    const { format } = run;
+    let html = escapeHtml(run.text ?? '')
+      .replace(/\t/g, '&emsp;')
+      .replace(/\n/g, '<br>')
+      .replace(/ {2}/g, ' &nbsp;');
+    if (!html) return '';
+    if (format.vertical) {
+      const tag = format.vertical === 'super' ? 'sup' : 'sub';
+      html = `<${tag}>${html}</${tag}>`;
+    }
+    if (format.strike) html = `<s>${html}</s>`;
+    if (format.underline) html = `<u>${html}</u>`;
+    if (format.italic) html = `<em>${html}</em>`;
+    if (format.bold) html = `<strong>${html}</strong>`;
+    const css = [
+      format.color && this.colors[format.color] ? `color: ${this.colors[format.color]}` : '',
+      format.background && this.colors[format.background]
+        ? `background-color: ${this.colors[format.background]}`
+        : '',
+      format.fontSize !== DEFAULT_FONT_SIZE ? `font-size: ${format.fontSize / 2}pt` : '',
+    ].filter(Boolean);
+    return css.length ? `<span style="${css.join('; ')}">${html}</span>` : html;
+  }
+
+  private renderNotes(): string {
+    return (['footnote', 'endnote'] as const)
+      .map(kind => {
+        const notes = this.notes.filter(note => note.kind === kind);
+        if (!notes.length) return '';
+        const items = notes.map(note => {
+          const anchor = `${kind === 'footnote' ? 'fn' : 'en'}-${note.label}`;
+          const backref = `<a href="#${anchor}-ref" class="docx-note-backref">↩</a>`;
+          return `<li id="${anchor}" data-note="${note.label}">${this.renderSink(note.sink)} ${backref}</li>`;
+        });
+        const listType = kind === 'footnote' ? '' : ' type="i"';
+        return `\n<section class="docx-notes docx-${kind}s">\n<hr>\n<ol${listType}>\n${items.join('\n')}\n</ol>\n</section>`;
+      })
+      .join('');
+  }
+}
+
+function createSink(): RtfSink {
+  return {
+    blocks: [],
+    runs: [],
+    listText: null,
+    cellParagraphs: [],
+    rowCells: [],
+    rows: [],
+    rowDefs: [],
+    pendingDef: emptyCellDef(),
+    headerRow: false,
+  };
+}
+
+function emptyCellDef(): Omit<RtfCellDef, 'right'> {
+  return { mergeFirst: false, merged: false, verticalFirst: false, verticalMerged: false };
+}
+
+function defaultCharFormat(): CharFormat {
+  return {
+    bold: false,
+    italic: false,
+    underline: false,
+    strike: false,
+    hidden: false,
+    vertical: '',
+    fontSize: DEFAULT_FONT_SIZE,
+    color: 0,
+    background: 0,
+    font: 0,
+  };
+}
+
+function defaultParaFormat(): ParaFormat {
+  return { align: '', style: 0, outline: null, inTable: false, level: 0, leftIndent: 0 };
+}
+
+function noteReference(note: RtfNote): string {
+  const anchor = `${note.kind === 'footnote' ? 'fn' : 'en'}-${note.label}`;
+  return `<sup class="docx-note-ref"><a href="#${anchor}" id="${anchor}-ref" data-note="${note.label}">${note.label}</a></sup>`;
+}
+
+/**
+ * 解析 HYPERLINK 字段指令，\l 指向文档内书签
+ */
+function parseHyperlink(instruction: string): string | undefined {
+  const match = /HYPERLINK\s+(?:\\l\s+)?"([^"]*)"(?:\s+\\l\s+"([^"]*)")?/i.exec(instruction);
+  if (!match) return undefined;
+  if (/HYPERLINK\s+\\l/i.test(instruction)) return `#${match[1]}`;
+  return match[2] ? `${match[1]}#${match[2]}` : match[1];
+}
+
+function needsTrailByte(bytes: number[], codepage: number): boolean {
+  const isLead = (value: number) =>
+    codepage === 932
+      ? (value >= 0x81 && value <= 0x9f) || (value >= 0xe0 && value <= 0xfc)
+      : [936, 949, 950].includes(codepage) && value >= 0x81 && value <= 0xfe;
+  let expectTrail = false;
+  for (const value of bytes) expectTrail = expectTrail ? false : isLead(value);
+  return expectTrail;
+}
+
+function decodeBytes(bytes: Buffer, codepage: number): string {
+  const labels: Record<number, string> = {
+    932: 'shift_jis',
+    936: 'gbk',
+    949: 'euc-kr',
+    950: 'big5',
+    10000: 'macintosh',
+    65001: 'utf-8',
+  };
+  const label =
+    labels[codepage] ??
+    (codepage === 874 || (codepage >= 1250 && codepage <= 1258)
+      ? `windows-${codepage}`
+      : 'windows-1252');
+  try {
+    return new TextDecoder(label).decode(bytes);
+  } catch {
+    return bytes.toString('latin1');
+  }
+}
+
+function renderList(items: { level: number; kind: 'ul' | 'ol'; html: string }[]): string {
+  let html = '';
+  const stack: string[] = [];
+  for (const item of items) {
+    const depth = item.level + 1;
+    if (stack.length > depth) {
+      while (stack.length > depth) html += `</li></${stack.pop()}>`;
+      html += '</li>';
+    } else if (stack.length === depth) {
+      html += '</li>';
+    }
+    if (stack.length === depth && stack[depth - 1] !== item.kind) {
+      html += `</${stack.pop()}>`;
+    }
+    while (stack.length < depth) {
+      html += `<${item.kind}>`;
+      stack.push(item.kind);
+    }
+    html += `<li>${item.html}`;
+  }
+  while (stack.length) html += `</li></${stack.pop()}>`;
+  return html;
+}
+
+function toRoman(index: number): string {
+  const numerals: [number, string][] = [
+    [1000, 'm'],
+    [900, 'cm'],
+    [500, 'd'],
+    [400, 'cd'],
+    [100, 'c'],
+    [90, 'xc'],
+    [50, 'l'],
+    [40, 'xl'],
+    [10, 'x'],
+    [9, 'ix'],
+    [5, 'v'],
+    [4, 'iv'],
+    [1, 'i'],
+  ];
+  let remaining = index;
+  let label = '';
+  for (const [value, numeral] of numerals) {
+    while (remaining >= value) {
+      label += numeral;
+      remaining -= value;
+    }
+  }
+  return label;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function wrapHtml(body: string, title?: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(title ?? 'Document')}</title>
+  <style>
+    body { font-family: "Times New Roman", serif; font-size: 12pt; line-height: 1.5; margin: 24px auto; max-width: 800px; color: #222; }
+    table { border-collapse: collapse; margin: 12px 0; }
+    th, td { border: 1px solid #c0c0c0; padding: 4px 8px; vertical-align: top; }
+    img { max-width: 100%; height: auto; }
+  </style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+/**
+ * 便捷函数：读取 RTF 文件为 HTML
+ */
+export async function readRtf(filePath: string): Promise<RtfReadResult> {
+  const reader = new RtfReader();
+  return await reader.read(filePath);
+}
+
+export { RtfReader, RtfReadResult };
@@ -0,0 +1,477 @@
+/**
+ * 图表场景光栅化
+ * 纯 JS 扫描线填充 + 距离场描边，文本通过 fontkit 读取系统字体轮廓，输出 PNG
+ */
+
+import { deflateSync } from 'zlib';
+import { existsSync } from 'fs';
+import * as fontkit from 'fontkit';
+import { DiagramScene, PathCommand, SceneText, TEXT_BASELINE_SHIFT } from './diagramScene';
+
+type Point = [number, number];
+
+interface RasterizeOptions {
+  scale?: number; // 输出像素 / 场景单位
+  fontPath?: string;
+}
+
+interface RasterImage {
+  png: Buffer;
+  width: number;
+  height: number;
+}
+
+// 每个方向的超采样倍数，用于抗锯齿
+const SUPERSAMPLE = 2;
+// 单边像素上限，避免超大图表耗尽内存
+const MAX_DIMENSION = 4096;
+
+const FONT_CANDIDATES = [
+  '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf',
+  '/usr/share/fonts/dejavu/DejaVuSans.ttf',
+  '/usr/share/fonts/TTF/DejaVuSans.ttf',
+  '/usr/share/fonts/truetype/liberation/LiberationSans-Regular.ttf',
+  '/usr/share/fonts/opentype/noto/NotoSansCJK-Regular.ttc',
+  '/System/Library/Fonts/Helvetica.ttc',
+  '/System/Library/Fonts/PingFang.ttc',
+  '/Library/Fonts/Arial Unicode.ttf',
+  'C:\\Windows\\Fonts\\arial.ttf',
+  'C:\\Windows\\Fonts\\msyh.ttc',
+];
+
+const fontCache = new Map<string, any>();
+
+function openFont(candidate: string): any {
+  if (fontCache.has(candidate)) return fontCache.get(candidate);
+  let font: any = null;
+  if (existsSync(candidate)) {
+    try {
+      const opened = fontkit.openSync(candidate);
+      font = 'fonts' in opened ? opened.fonts[0] : opened;
+    } catch {
+      font = null;
+    }
+  }
+  fontCache.set(candidate, font);
+  return font;
+}
+
+function parseColor(color: string): [number, number, number] {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? hex.replace(/./g, c => c + c) : hex.padEnd(6, '0');
+  return [
+    parseInt(full.slice(0, 2), 16) || 0,
+    parseInt(full.slice(2, 4), 16) || 0,
+    parseInt(full.slice(4, 6), 16) || 0,
+  ];
+}
+
+/**
+ * RGB 画布
+ */
+class Canvas {
+  readonly data: Uint8Array;
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    background: [number, number, number]
+  ) {
+    this.data = new Uint8Array(width * height * 3);
+    for (let i = 0; i < this.data.length; i += 3) this.data.set(background, i);
+  }
+
+  /**
+   * 非零环绕规则的扫描线填充
+   */
+  fill(polygons: Point[][], color: [number, number, number]): void {
+    const edges: Array<[number, number, number, number, number]> = [];
+    let minY = Infinity;
+    let maxY = -Infinity;
+    for (const polygon of polygons) {
+      for (let i = 0; i < polygon.length; i++) {
+        const [x1, y1] = polygon[i];
+        const [x2, y2] = polygon[(i + 1) % polygon.length];
+        if (y1 === y2) continue;
+        edges.push(y1 < y2 ? [x1, y1, x2, y2, 1] : [x2, y2, x1, y1, -1]);
+        minY = Math.min(minY, y1, y2);
+        maxY = Math.max(maxY, y1, y2);
+      }
+    }
+    const startRow = Math.max(0, Math.floor(minY));
+    const endRow = Math.min(this.height - 1, Math.ceil(maxY));
+    for (let row = startRow; row <= endRow; row++) {
+      const y = row + 0.5;
+      const crossings: Array<[number, number]> = [];
+      for (const [x1, y1, x2, y2, direction] of edges) {
+        if (y < y1 || y >= y2) continue;
+        crossings.push([x1 + ((y - y1) / (y2 - y1)) * (x2 - x1), direction]);
+      }
+      crossings.sort((a, b) => a[0] - b[0]);
+      let winding = 0;
+      for (let i = 0; i < crossings.length - 1; i++) {
+        winding += crossings[i][1];
+        if (winding !== 0) this.span(row, crossings[i][0], crossings[i + 1][0], color);
+      }
+    }
+  }
+
+  /**
+   * 按到线段的距离描边（自带圆角连接）
+   */
+  stroke(polyline: Point[], width: number, color: [number, number, number]): void {
+    const half = Math.max(width, 1) / 2;
+    for (let i = 0; i < polyline.length - 1; i++) {
+      const [ax, ay] = polyline[i];
+      const [bx, by] = polyline[i + 1];
+      const dx = bx - ax;
+      const dy = by - ay;
+      const lengthSquared = dx * dx + dy * dy || 1;
+      const left = Math.max(0, Math.floor(Math.min(ax, bx) - half));
+      const right = Math.min(this.width - 1, Math.ceil(Math.max(ax, bx) + half));
+      const top = Math.max(0, Math.floor(Math.min(ay, by) - half));
+      const bottom = Math.min(this.height - 1, Math.ceil(Math.max(ay, by) + half));
+      for (let row = top; row <= bottom; row++) {
+        for (let col = left; col <= right; col++) {
+          const px = col + 0.5;
+          const py = row + 0.5;
+          const t = Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared));
+          const ex = ax + t * dx - px;
+          const ey = ay + t * dy - py;
+          if (ex * ex + ey * ey <= half * half) this.data.set(color, (row * this.width + col) * 3);
+        }
+      }
+    }
+  }
+
+  private span(row: number, from: number, to: number, color: [number, number, number]): void {
+    const start = Math.max(0, Math.round(from));
+    const end = Math.min(this.width, Math.round(to));
+    for (let col = start; col < end; col++) this.data.set(color, (row * this.width + col) * 3);
+  }
+}
+
+/**
+ * 场景光栅化器
+ */
+class SceneRasterizer {
+  private readonly scale: number;
+  private readonly fontPaths: string[];
+  private readonly font: any;
+
+  constructor(options: RasterizeOptions = {}) {
+    this.scale = options.scale ?? 2;
+    this.fontPaths = [options.fontPath, process.env.DIAGRAM_FONT_PATH, ...FONT_CANDIDATES].filter(
+      (candidate): candidate is string => !!candidate
+    );
+    this.font = this.fontPaths.map(openFont).find(Boolean) ?? null;
+  }
+
+  hasFont(): boolean {
+    return !!this.font;
+  }
+
+  /**
+   * 主字体缺字时（如中文）按候选列表依次查找包含该字的字体
+   */
+  private fontFor(codePoint: number): any {
+    if (this.font.hasGlyphForCodePoint(codePoint)) return this.font;
+    for (const candidate of this.fontPaths) {
+      const font = openFont(candidate);
+      if (font?.hasGlyphForCodePoint(codePoint)) return font;
+    }
+    return this.font;
+  }
+
+  rasterize(scene: DiagramScene): RasterImage {
+    const largest = Math.max(scene.width, scene.height) * this.scale;
+    const scale =
+      largest > MAX_DIMENSION ? MAX_DIMENSION / Math.max(scene.width, scene.height) : this.scale;
+    const width = Math.max(1, Math.ceil(scene.width * scale));
+    const height = Math.max(1, Math.ceil(scene.height * scale));
+    const factor = scale * SUPERSAMPLE;
+    const background: [number, number, number] =
+      scene.background && scene.background !== 'none'
+        ? parseColor(scene.background)
+        : [255, 255, 255];
+    const canvas = new Canvas(width * SUPERSAMPLE, height * SUPERSAMPLE, background);
+
+    for (const item of scene.items) {
+      if (item.kind === 'text') {
+        this.drawText(canvas, item, factor);
+        continue;
+      }
+      const subpaths = flattenPath(item.commands, factor);
+      if (item.fill && item.fill !== 'none') {
+        canvas.fill(
+          subpaths.map(subpath => subpath.points),
+          parseColor(item.fill)
+        );
+      }
+      if (item.stroke && item.stroke !== 'none') {
+        const strokeWidth = (item.strokeWidth ?? 1) * factor;
+        const color = parseColor(item.stroke);
+        for (const subpath of subpaths) {
+          const points = subpath.closed ? [...subpath.points, subpath.points[0]] : subpath.points;
+          const pieces = item.dash?.length
+            ? dashPolyline(
+                points,
+                item.dash.map(d => d * factor)
+              )
+            : [points];
+          for (const piece of pieces) canvas.stroke(piece, strokeWidth, color);
+        }
+      }
+    }
+
+    return { png: encodePng(downsample(canvas, width, height), width, height), width, height };
+  }
+
+  private drawText(canvas: Canvas, item: SceneText, factor: number): void {
+    if (!this.font) return;
+    const size = item.fontSize * factor;
+    const runs: Array<{ font: any; text: string }> = [];
+    for (const char of item.text) {
+      const font = this.fontFor(char.codePointAt(0)!);
+      const last = runs[runs.length - 1];
+      if (last?.font === font) last.text += char;
+      else runs.push({ font, text: char });
+    }
+    const glyphRuns = runs.map(({ font, text }) => ({
+      layout: font.layout(text),
+      unit: size / font.unitsPerEm,
+    }));
+    const advance = glyphRuns.reduce(
+      (total, { layout, unit }) =>
+        total + layout.positions.reduce((sum: number, p: any) => sum + p.xAdvance, 0) * unit,
+      0
+    );
+
+    let x = item.x * factor;
+    if (item.anchor === 'middle') x -= advance / 2;
+    else if (item.anchor === 'end') x -= advance;
+    const baseline = item.y * factor + TEXT_BASELINE_SHIFT * size;
+    // 字体不含粗体/斜体时用横向加粗与错切模拟
+    const slant = item.italic ? 0.2 : 0;
+    const color = parseColor(item.color);
+
+    for (const { layout, unit } of glyphRuns) {
+      x = this.drawGlyphs(
+        canvas,
+        layout,
+        unit,
+        x,
+        baseline,
+        slant,
+        color,
+        item.bold ? size * 0.06 : 0
+      );
+    }
+  }
+
+  private drawGlyphs(
+    canvas: Canvas,
+    run: any,
+    unit: number,
+    x: number,
+    baseline: number,
+    slant: number,
+    color: [number, number, number],
+    boldWidth: number
+  ): number {
+    run.glyphs.forEach((glyph: any, index: number) => {
+      const position = run.positions[index];
+      const originX = x + position.xOffset * unit;
+      const originY = baseline - position.yOffset * unit;
+      const commands: PathCommand[] = [];
+      for (const { command, args } of glyph.path.commands) {
+        const points: number[] = [];
+        for (let i = 0; i < args.length; i += 2) {
+          points.push(
+            originX + args[i] * unit + args[i + 1] * unit * slant,
+            originY - args[i + 1] * unit
+          );
+        }
+        if (command === 'moveTo') commands.push(['M', points[0], points[1]]);
+        else if (command === 'lineTo') commands.push(['L', points[0], points[1]]);
+        else if (command === 'bezierCurveTo')
+          commands.push(['C', ...(points as [number, number, number, number, number, number])]);
+        else if (command === 'quadraticCurveTo') {
+          const last = lastPoint(commands);
+          commands.push([
+            'C',
+            last[0] + ((points[0] - last[0]) * 2) / 3,
+            last[1] + ((points[1] - last[1]) * 2) / 3,
+            points[2] + ((points[0] - points[2]) * 2) / 3,
+            points[3] + ((points[1] - points[3]) * 2) / 3,
+            points[2],
+            points[3],
+          ]);
+        } else if (command === 'closePath') commands.push(['Z']);
+      }
+      const polygons = flattenPath(commands, 1).map(subpath => subpath.points);
+      canvas.fill(polygons, color);
+      if (boldWidth) {
+        for (const polygon of polygons) canvas.stroke([...polygon, polygon[0]], boldWidth, color);
+      }
+      x += position.xAdvance * unit;
+    });
+    return x;
+  }
+}
+
+function lastPoint(commands: PathCommand[]): Point {
+  for (let i = commands.length - 1; i >= 0; i--) {
+    const command = commands[i];
+    if (command[0] === 'M' || command[0] === 'L') return [command[1], command[2]];
+    if (command[0] === 'C') return [command[5], command[6]];
+  }
+  return [0, 0];
+}
+
+/**
+ * 路径展平为折线，曲线按长度细分
+ */
+function flattenPath(
+  commands: PathCommand[],
+  factor: number
+): Array<{ points: Point[]; closed: boolean }> {
+  const subpaths: Array<{ points: Point[]; closed: boolean }> = [];
+  let current: Point[] = [];
+  const flush = (closed: boolean) => {
+    if (current.length > 1) subpaths.push({ points: current, closed });
+    current = [];
+  };
+
+  for (const command of commands) {
+    if (command[0] === 'M') {
+      flush(false);
+      current.push([command[1] * factor, command[2] * factor]);
+    } else if (command[0] === 'L') {
+      current.push([command[1] * factor, command[2] * factor]);
+    } else if (command[0] === 'C') {
+      const [x0, y0] = current[current.length - 1] ?? [0, 0];
+      const [x1, y1, x2, y2, x3, y3] = command.slice(1).map(value => (value as number) * factor);
+      const length =
+        Math.hypot(x1 - x0, y1 - y0) + Math.hypot(x2 - x1, y2 - y1) + Math.hypot(x3 - x2, y3 - y2);
+      const steps = Math.max(2, Math.min(64, Math.ceil(length / 4)));
+      for (let step = 1; step <= steps; step++) {
+        const t = step / steps;
+        const u = 1 - t;
+        current.push([
+          u * u * u * x0 + 3 * u * u * t * x1 + 3 * u * t * t * x2 + t * t * t * x3,
+          u * u * u * y0 + 3 * u * u * t * y1 + 3 * u * t * t * y2 + t * t * t * y3,
+        ]);
+      }
+    } else {
+      flush(true);
+    }
+  }
+  flush(false);
+  return subpaths;
+}
+
+function dashPolyline(points: Point[], pattern: number[]): Point[][] {
+  const pieces: Point[][] = [];
+  let patternIndex = 0;
+  let remaining = pattern[0];
+  let drawing = true;
+  let piece: Point[] = [points[0]];
+
+  for (let i = 0; i < points.length - 1; i++) {
+    let [ax, ay] = points[i];
+    const [bx, by] = points[i + 1];
+    let length = Math.hypot(bx - ax, by - ay);
+    while (length > 0) {
+      const step = Math.min(remaining, length);
+      const t = step / length;
+      ax += (bx - ax) * t;
+      ay += (by - ay) * t;
+      length -= step;
+      remaining -= step;
+      if (drawing) piece.push([ax, ay]);
+      if (remaining <= 0) {
+        if (drawing && piece.length > 1) pieces.push(piece);
+        drawing = !drawing;
+        piece = [[ax, ay]];
+        patternIndex = (patternIndex + 1) % pattern.length;
+        remaining = pattern[patternIndex];
+      }
+    }
+  }
+  if (drawing && piece.length > 1) pieces.push(piece);
+  return pieces;
+}
+
+function downsample(canvas: Canvas, width: number, height: number): Uint8Array {
+  const output = new Uint8Array(width * height * 3);
+  const samples = SUPERSAMPLE * SUPERSAMPLE;
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      for (let channel = 0; channel < 3; channel++) {
+        let sum = 0;
+        for (let sy = 0; sy < SUPERSAMPLE; sy++) {
+          for (let sx = 0; sx < SUPERSAMPLE; sx++) {
+            const index = ((row * SUPERSAMPLE + sy) * canvas.width + col * SUPERSAMPLE + sx) * 3;
+            sum += canvas.data[index + channel];
+          }
+        }
+        output[(row * width + col) * 3 + channel] = Math.round(sum / samples);
+      }
+    }
+  }
+  return output;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * RGB 像素编码为 PNG（每行 filter 0）
+ */
+function encodePng(pixels: Uint8Array, width: number, height: number): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // 位深
+  header[9] = 2; // RGB
+  const stride = width * 3;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let row = 0; row < height; row++) {
+    raw[row * (stride + 1)] = 0;
+    raw.set(pixels.subarray(row * stride, (row + 1) * stride), row * (stride + 1) + 1);
+  }
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * 便捷函数：场景光栅化为 PNG
+ */
+export function rasterizeScene(scene: DiagramScene, options: RasterizeOptions = {}): RasterImage {
+  return new SceneRasterizer(options).rasterize(scene);
+}
+
+export { SceneRasterizer, RasterizeOptions, RasterImage, encodePng };
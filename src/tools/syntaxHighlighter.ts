@@ -0,0 +1,459 @@
+/**
+ * 代码语法高亮器
+ * 离线的正则分词器，覆盖常用语言（ts/js、python、go、java、sql、bash、json、yaml）
+ * 同一组词法单元既可输出带 hl-* 类名的 HTML，也可按主题配色生成 DOCX 彩色文本
+ */
+
+type TokenType =
+  | 'plain'
+  | 'keyword'
+  | 'string'
+  | 'comment'
+  | 'number'
+  | 'function'
+  | 'type'
+  | 'operator'
+  | 'property'
+  | 'builtin';
+
+interface HighlightToken {
+  type: TokenType;
+  text: string;
+}
+
+// identifier 规则匹配到的单词再按关键字/类型/内置表细分
+interface TokenRule {
+  type: TokenType | 'identifier';
+  pattern: RegExp;
+}
+
+interface LanguageDefinition {
+  name: string;
+  aliases: string[];
+  rules: TokenRule[];
+  keywords: Set<string>;
+  types?: Set<string>;
+  builtins?: Set<string>;
+  caseInsensitive?: boolean;
+  capitalizedTypes?: boolean;
+}
+
+interface TokenStyle {
+  color: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+// 颜色为不带 # 的十六进制，可直接用于 docx
+interface HighlightPalette {
+  background: string;
+  border: string;
+  tokens: Record<TokenType, TokenStyle>;
+}
+
+const words = (list: string): Set<string> => new Set(list.split(' '));
+
+const rule = (type: TokenRule['type'], pattern: RegExp): TokenRule => ({
+  type,
+  pattern: new RegExp(pattern.source, pattern.flags.replace('g', '') + 'y'),
+});
+
+const C_COMMENTS = [rule('comment', /\/\/.*/), rule('comment', /\/\*[\s\S]*?(?:\*\/|$)/)];
+const C_NUMBER = rule(
+  'number',
+  /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?)[nLlfFdD]?\b/
+);
+const IDENTIFIER = rule('identifier', /[A-Za-z_$][\w$]*/);
+const C_OPERATOR = rule('operator', /[+\-*/%=!<>&|^~?:]+/);
+const DOUBLE_QUOTED = rule('string', /"(?:\\.|[^"\\\n])*"?/);
+const SINGLE_QUOTED = rule('string', /'(?:\\.|[^'\\\n])*'?/);
+
+const LANGUAGES: LanguageDefinition[] = [
+  {
+    name: 'typescript',
+    aliases: ['ts', 'tsx', 'javascript', 'js', 'jsx', 'mjs', 'cjs'],
+    rules: [
+      ...C_COMMENTS,
+      rule('string', /`(?:\\[\s\S]|[^`\\])*`?/),
+      DOUBLE_QUOTED,
+      SINGLE_QUOTED,
+      rule('function', /@[A-Za-z_]\w*/),
+      C_NUMBER,
+      IDENTIFIER,
+      rule('operator', /=>|[+\-*/%=!<>&|^~?:]+/),
+    ],
+    keywords: words(
+      'abstract as async await break case catch class const continue debugger declare default delete do else enum export extends finally for from function get if implements import in instanceof interface keyof let new of private protected public readonly return set static super switch this throw try type typeof var void while with yield true false null undefined'
+    ),
+    types: words('any boolean never number object string symbol unknown bigint'),
+    builtins: words(
+      'console window document globalThis process require module exports Promise JSON Math Object Array String Number Boolean Date RegExp Error Map Set Symbol'
+    ),
+    capitalizedTypes: true,
+  },
+  {
+    name: 'python',
+    aliases: ['py', 'python3'],
+    rules: [
+      rule('comment', /#.*/),
+      rule('string', /[rRbBuUfF]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/),
+      rule('string', /[rRbBuUfF]{1,2}(?="|')/),
+      DOUBLE_QUOTED,
+      SINGLE_QUOTED,
+      rule('function', /@[A-Za-z_][\w.]*/),
+      rule(
+        'number',
+        /(?:0[xXoObB][\da-fA-F_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?)[jJ]?\b/
+      ),
+      IDENTIFIER,
+      C_OPERATOR,
+    ],
+    keywords: words(
+      'and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield match case True False None self cls'
+    ),
+    types: words('int float complex str bytes bool list dict set tuple frozenset object type'),
+    builtins: words(
+      'print len range enumerate zip map filter sorted reversed sum min max abs open isinstance issubclass getattr setattr hasattr super iter next repr input round any all id hash format vars dir'
+    ),
+  },
+  {
+    name: 'go',
+    aliases: ['golang'],
+    rules: [
+      ...C_COMMENTS,
+      rule('string', /`[^`]*`?/),
+      DOUBLE_QUOTED,
+      SINGLE_QUOTED,
+      C_NUMBER,
+      IDENTIFIER,
+      rule('operator', /:=|<-|[+\-*/%=!<>&|^~:]+/),
+    ],
+    keywords: words(
+      'break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var true false nil iota'
+    ),
+    types: words(
+      'bool byte complex64 complex128 error float32 float64 int int8 int16 int32 int64 rune string uint uint8 uint16 uint32 uint64 uintptr any'
+    ),
+    builtins: words('append cap close copy delete len make new panic print println recover'),
+  },
+  {
+    name: 'java',
+    aliases: ['kotlin'],
+    rules: [
+      ...C_COMMENTS,
+      rule('string', /"""[\s\S]*?(?:"""|$)/),
+      DOUBLE_QUOTED,
+      SINGLE_QUOTED,
+      rule('function', /@[A-Za-z_]\w*/),
+      C_NUMBER,
+      IDENTIFIER,
+      C_OPERATOR,
+    ],
+    keywords: words(
+      'abstract assert break case catch class const continue default do else enum extends final finally for goto if implements import instanceof interface native new package private protected public record return static strictfp super switch synchronized this throw throws transient try var void volatile while yield true false null'
+    ),
+    types: words('boolean byte char double float int long short'),
+    builtins: words('System Math Objects Arrays Collections List Map Set Optional'),
+    capitalizedTypes: true,
+  },
+  {
+    name: 'sql',
+    aliases: ['mysql', 'postgresql', 'postgres', 'sqlite', 'plsql'],
+    rules: [
+      rule('comment', /--.*/),
+      rule('comment', /\/\*[\s\S]*?(?:\*\/|$)/),
+      rule('string', /'(?:''|[^'])*'?/),
+      rule('property', /"(?:""|[^"])*"?|`[^`]*`?/),
+      rule('number', /\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/),
+      rule('property', /[@:$]\w+/),
+      IDENTIFIER,
+      rule('operator', /[+\-*/%=!<>|]+/),
+    ],
+    keywords: words(
+      'select from where and or not insert into values update set delete create table view index drop alter add column primary key foreign references join inner left right full outer cross on as group by order having limit offset union all distinct case when then else end is null in exists between like ilike with returning default constraint unique check begin commit rollback transaction if asc desc true false'
+    ),
+    types: words(
+      'int integer bigint smallint decimal numeric real float double varchar char text boolean date time timestamp timestamptz json jsonb uuid serial blob'
+    ),
+    builtins: words(
+      'count sum avg min max coalesce nullif cast now lower upper length substring round'
+    ),
+    caseInsensitive: true,
+  },
+  {
+    name: 'bash',
+    aliases: ['sh', 'shell', 'zsh', 'console'],
+    rules: [
+      rule('property', /\$(?:\{[^}\n]*\}?|\w+|[#?@!$*0-9-])/),
+      rule('comment', /(?<![^\s;|&(])#.*/),
+      rule('string', /"(?:\\[\s\S]|[^"\\])*"?/),
+      rule('string', /'[^']*'?/),
+      rule('number', /\b\d+\b/),
+      rule('operator', /--?[\w-]+/),
+      rule('identifier', /[A-Za-z_][\w.-]*/),
+      rule('operator', /&&|\|\||[|&;<>=]+/),
+    ],
+    keywords: words(
+      'if then else elif fi for while until do done case esac in function return local export readonly declare unset shift break continue exit select time'
+    ),
+    builtins: words(
+      'echo printf read cd pwd source alias eval exec set test true false trap wait kill cat grep sed awk find xargs sort uniq head tail cut tr mkdir rm cp mv ls chmod chown curl wget git npm pnpm yarn npx node docker sudo tar'
+    ),
+  },
+  {
+    name: 'json',
+    aliases: ['jsonc', 'json5'],
+    rules: [
+      ...C_COMMENTS,
+      rule('property', /"(?:\\.|[^"\\\n])*"(?=\s*:)/),
+      DOUBLE_QUOTED,
+      rule('number', /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/),
+      IDENTIFIER,
+    ],
+    keywords: words('true false null'),
+  },
+  {
+    name: 'yaml',
+    aliases: ['yml'],
+    rules: [
+      rule('comment', /(?<![^\s])#.*/),
+      rule('property', /[\w$][\w .$/-]*(?=\s*:(?:\s|$))/),
+      rule('property', /"(?:\\.|[^"\\\n])*"(?=\s*:(?:\s|$))/),
+      DOUBLE_QUOTED,
+      rule('string', /'(?:''|[^'\n])*'?/),
+      rule('type', /[&*][\w-]+|![\w!/-]*/),
+      rule('number', /(?<![\w.-])-?(?:0x[\da-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)(?![\w.-])/),
+      rule('keyword', /(?<![\w.-])(?:true|false|null|yes|no|on|off|~)(?![\w.-])/),
+      rule('operator', /^\s*-(?=\s)|---|\.\.\.|[|>][+-]?(?=\s*$)/m),
+    ],
+    keywords: new Set(),
+  },
+];
+
+const LANGUAGE_INDEX = new Map<string, LanguageDefinition>();
+for (const language of LANGUAGES) {
+  for (const name of [language.name, ...language.aliases]) LANGUAGE_INDEX.set(name, language);
+}
+
+const PALETTES: Record<string, HighlightPalette> = {
+  github: {
+    background: 'f6f8fa',
+    border: 'e1e4e8',
+    tokens: {
+      plain: { color: '24292f' },
+      keyword: { color: 'cf222e' },
+      string: { color: '0a3069' },
+      comment: { color: '6e7781', italic: true },
+      number: { color: '0550ae' },
+      function: { color: '8250df' },
+      type: { color: '953800' },
+      operator: { color: 'cf222e' },
+      property: { color: '0550ae' },
+      builtin: { color: '0550ae' },
+    },
+  },
+  default: {
+    background: 'f8f9fa',
+    border: 'e1e4e8',
+    tokens: {
+      plain: { color: '24292e' },
+      keyword: { color: '0000ff' },
+      string: { color: 'a31515' },
+      comment: { color: '008000', italic: true },
+      number: { color: '098658' },
+      function: { color: '795e26' },
+      type: { color: '267f99' },
+      operator: { color: '000000' },
+      property: { color: '001080' },
+      builtin: { color: '0070c1' },
+    },
+  },
+  professional: {
+    background: 'f2f2f2',
+    border: 'd9d9d9',
+    tokens: {
+      plain: { color: '000000' },
+      keyword: { color: '1f4e79', bold: true },
+      string: { color: '833c0b' },
+      comment: { color: '7f7f7f', italic: true },
+      number: { color: '375623' },
+      function: { color: '2f5496' },
+      type: { color: '7030a0' },
+      operator: { color: '404040' },
+      property: { color: '1f3763' },
+      builtin: { color: '2f5496' },
+    },
+  },
+  // 学术主题偏向打印，颜色克制并以粗体/斜体区分
+  academic: {
+    background: 'f9f9f9',
+    border: 'cccccc',
+    tokens: {
+      plain: { color: '000000' },
+      keyword: { color: '000080', bold: true },
+      string: { color: '7f0000' },
+      comment: { color: '5f5f5f', italic: true },
+      number: { color: '000000' },
+      function: { color: '000000' },
+      type: { color: '004d40' },
+      operator: { color: '000000' },
+      property: { color: '000080' },
+      builtin: { color: '000080' },
+    },
+  },
+  // 现代主题的代码块为深色背景
+  modern: {
+    background: '2d3748',
+    border: '4a5568',
+    tokens: {
+      plain: { color: 'e2e8f0' },
+      keyword: { color: 'c792ea' },
+      string: { color: 'c3e88d' },
+      comment: { color: 'a0aec0', italic: true },
+      number: { color: 'f78c6c' },
+      function: { color: '82aaff' },
+      type: { color: 'ffcb6b' },
+      operator: { color: '89ddff' },
+      property: { color: 'f07178' },
+      builtin: { color: '89ddff' },
+    },
+  },
+};
+
+/**
+ * 语法高亮器
+ */
+class SyntaxHighlighter {
+  /**
+   * 解析代码块语言标记（支持别名，未知语言返回 null）
+   */
+  resolveLanguage(language?: string | null): string | null {
+    if (!language) return null;
+    const key = language
+      .trim()
+      .toLowerCase()
+      .replace(/^language-/, '');
+    return LANGUAGE_INDEX.get(key)?.name ?? null;
+  }
+
+  getSupportedLanguages(): string[] {
+    return LANGUAGES.map(language => language.name);
+  }
+
+  getPalette(theme?: string): HighlightPalette {
+    return PALETTES[theme ?? 'default'] ?? PALETTES.default;
+  }
+
+  /**
+   * 分词：按规则顺序在当前位置尝试匹配，均不匹配时按普通文本前进一个字符
+   */
+  tokenize(code: string, language?: string | null): HighlightToken[] {
+    const name = this.resolveLanguage(language);
+    if (!name) return code ? [{ type: 'plain', text: code }] : [];
+    const definition = LANGUAGE_INDEX.get(name)!;
+
+    const tokens: HighlightToken[] = [];
+    let position = 0;
+    while (position < code.length) {
+      let matched: HighlightToken | null = null;
+      for (const { type, pattern } of definition.rules) {
+        pattern.lastIndex = position;
+        const match = pattern.exec(code);
+        if (match && match[0]) {
+          matched = {
+            type:
+              type === 'identifier'
+                ? this.classifyWord(definition, code, pattern.lastIndex, match[0])
+                : type,
+            text: match[0],
+          };
+          break;
+        }
+      }
+      if (!matched) matched = { type: 'plain', text: code[position] };
+      this.pushToken(tokens, matched);
+      position += matched.text.length;
+    }
+    return tokens;
+  }
+
+  /**
+   * 输出带 hl-* 类名的 HTML 片段（已转义）
+   */
+  toHtml(code: string, language?: string | null): string {
+    return this.tokenize(code, language)
+      .map(token => {
+        const text = escapeHtml(token.text);
+        return token.type === 'plain' ? text : `<span class="hl-${token.type}">${text}</span>`;
+      })
+      .join('');
+  }
+
+  /**
+   * 按行拆分词法单元，便于 DOCX 逐行生成文本
+   */
+  tokenizeLines(code: string, language?: string | null): HighlightToken[][] {
+    const lines: HighlightToken[][] = [[]];
+    for (const token of this.tokenize(code, language)) {
+      token.text.split('\n').forEach((part, index) => {
+        if (index > 0) lines.push([]);
+        if (part) lines[lines.length - 1].push({ type: token.type, text: part });
+      });
+    }
+    return lines;
+  }
+
+  /**
+   * 生成主题对应的高亮 CSS
+   */
+  generateCss(theme?: string): string {
+    const palette = this.getPalette(theme);
+    return (Object.keys(palette.tokens) as TokenType[])
+      .filter(type => type !== 'plain')
+      .map(type => {
+        const style = palette.tokens[type];
+        const declarations = [`color: #${style.color};`];
+        if (style.bold) declarations.push('font-weight: bold;');
+        if (style.italic) declarations.push('font-style: italic;');
+        return `      pre code .hl-${type} { ${declarations.join(' ')} }`;
+      })
+      .join('\n');
+  }
+
+  private classifyWord(
+    definition: LanguageDefinition,
+    code: string,
+    end: number,
+    word: string
+  ): TokenType {
+    const key = definition.caseInsensitive ? word.toLowerCase() : word;
+    if (definition.keywords.has(key)) return 'keyword';
+    if (definition.types?.has(key)) return 'type';
+    if (definition.builtins?.has(key)) return 'builtin';
+    if (/^\s*\(/.test(code.slice(end, end + 20))) return 'function';
+    if (definition.capitalizedTypes && /^[A-Z][a-z0-9]\w*$/.test(word)) return 'type';
+    return 'plain';
+  }
+
+  private pushToken(tokens: HighlightToken[], token: HighlightToken): void {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === token.type) {
+      last.text += token.text;
+    } else {
+      tokens.push(token);
+    }
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * 便捷函数：代码高亮为 HTML
+ */
+export function highlightCode(code: string, language?: string | null): string {
+  return new SyntaxHighlighter().toHtml(code, language);
+}
+
+export { SyntaxHighlighter, HighlightToken, HighlightPalette, TokenStyle, TokenType };
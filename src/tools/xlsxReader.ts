@@ -0,0 +1,778 @@
+/**
+ * XLSX 读取器
+ * 解析工作簿、共享字符串、单元格样式的数字格式与合并单元格，
+ * 按工作表顺序输出 Markdown 或 HTML 表格
+ */
+
+import { OoxmlPackage, asArray, textOf, decodeOoxmlEscapes } from './ooxmlPackage';
+
+interface XlsxReaderOptions {
+  format?: 'markdown' | 'html';
+  maxRows?: number; // 每个工作表最多输出的行数
+}
+
+// 行列均为 0 起始
+interface MergedRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+interface SheetCell {
+  text: string;
+  numeric: boolean;
+}
+
+interface SheetData {
+  name: string;
+  hidden: boolean;
+  range: string; // 有内容的区域，如 A1:D20
+  rows: SheetCell[][]; // 区域内的单元格，已按 maxRows 截断
+  merges: MergedRange[]; // 相对区域左上角
+  truncated: boolean;
+}
+
+interface XlsxSheetSummary {
+  name: string;
+  hidden: boolean;
+  range: string;
+  rowCount: number;
+  columnCount: number;
+  mergedCells: string[];
+  truncated: boolean;
+}
+
+interface XlsxReadResult {
+  success: boolean;
+  content: string;
+  sheets: XlsxSheetSummary[];
+  metadata: Record<string, any>;
+  error?: string;
+}
+
+const DEFAULT_MAX_ROWS = 5000;
+
+// 内置数字格式；14 在 Excel 中随系统区域显示，这里统一为 ISO 日期
+const BUILTIN_NUMBER_FORMATS: Record<number, string> = {
+  0: 'General',
+  1: '0',
+  2: '0.00',
+  3: '#,##0',
+  4: '#,##0.00',
+  9: '0%',
+  10: '0.00%',
+  11: '0.00E+00',
+  12: '# ?/?',
+  13: '# ??/??',
+  14: 'yyyy-mm-dd',
+  15: 'd-mmm-yy',
+  16: 'd-mmm',
+  17: 'mmm-yy',
+  18: 'h:mm AM/PM',
+  19: 'h:mm:ss AM/PM',
+  20: 'h:mm',
+  21: 'h:mm:ss',
+  22: 'yyyy-mm-dd h:mm',
+  37: '#,##0 ;(#,##0)',
+  38: '#,##0 ;[Red](#,##0)',
+  39: '#,##0.00;(#,##0.00)',
+  40: '#,##0.00;[Red](#,##0.00)',
+  45: 'mm:ss',
+  46: '[h]:mm:ss',
+  47: 'mm:ss.0',
+  48: '##0.0E+0',
+  49: '@',
+};
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * XLSX 读取器类
+ */
+class XlsxReader {
+  private sharedStrings: string[] = [];
+  private cellFormats: string[] = []; // cellXfs 索引 -> 格式代码
+  private date1904 = false;
+
+  async read(filePath: string, options: XlsxReaderOptions = {}): Promise<XlsxReadResult> {
+    const format = options.format ?? 'markdown';
+    try {
+      const pkg = await OoxmlPackage.load(filePath);
+      const workbookPart = await pkg.mainPart('xl/workbook.xml');
+      const workbook = (await pkg.readXml(workbookPart))?.workbook;
+      if (!workbook) {
+        throw new Error(`无法找到工作簿 ${workbookPart}`);
+      }
+
+      this.date1904 = isTrue(workbook.workbookpr?.date1904);
+      await this.loadSharedStrings(pkg, workbookPart);
+      await this.loadStyles(pkg, workbookPart);
+
+      const relationships = await pkg.relationships(workbookPart);
+      const sheets: SheetData[] = [];
+      for (const sheet of asArray(workbook.sheets?.sheet)) {
+        const target = relationships.get(sheet['r:id'])?.target;
+        // 图表工作表等没有单元格数据的部件跳过
+        if (!target || !/worksheets\//.test(target)) continue;
+        const worksheet = (await pkg.readXml(target))?.worksheet;
+        if (!worksheet) continue;
+        sheets.push(
+          this.buildSheet(
+            String(sheet.name ?? ''),
+            sheet.state === 'hidden' || sheet.state === 'veryHidden',
+            worksheet,
+            options.maxRows ?? DEFAULT_MAX_ROWS
+          )
+        );
+      }
+
+      const properties = await pkg.properties();
+      const content =
+        format === 'html' ? renderHtml(sheets, properties.title) : renderMarkdown(sheets);
+      return {
+        success: true,
+        content,
+        sheets: sheets.map(sheet => ({
+          name: sheet.name,
+          hidden: sheet.hidden,
+          range: sheet.range,
+          rowCount: sheet.rows.length,
+          columnCount: sheet.rows[0]?.length ?? 0,
+          mergedCells: sheet.merges.map(merge => rangeRef(merge, sheet.range)),
+          truncated: sheet.truncated,
+        })),
+        metadata: {
+          ...properties,
+          format,
+          originalFormat: 'xlsx',
+          converter: 'xlsx-reader',
+          sheetCount: sheets.length,
+          standalone: format === 'html',
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ XLSX 读取失败:', error.message);
+      return {
+        success: false,
+        content: '',
+        sheets: [],
+        metadata: { originalFormat: 'xlsx', converter: 'xlsx-reader' },
+        error: error.message,
+      };
+    }
+  }
+
+  private async loadSharedStrings(pkg: OoxmlPackage, workbookPart: string): Promise<void> {
+    const part = await pkg.relatedPart(workbookPart, 'sharedStrings');
+    const sst = part ? (await pkg.readXml(part))?.sst : null;
+    this.sharedStrings = asArray(sst?.si).map(richText);
+  }
+
+  private async loadStyles(pkg: OoxmlPackage, workbookPart: string): Promise<void> {
+    const part = await pkg.relatedPart(workbookPart, 'styles');
+    const styleSheet = part ? (await pkg.readXml(part))?.stylesheet : null;
+    const custom: Record<number, string> = {};
+    for (const numFmt of asArray(styleSheet?.numfmts?.numfmt)) {
+      custom[Number(numFmt.numFmtId)] = String(numFmt.formatCode ?? 'General');
+    }
+    this.cellFormats = asArray(styleSheet?.cellxfs?.xf).map(xf => {
+      const id = Number(xf?.numFmtId ?? 0);
+      return custom[id] ?? BUILTIN_NUMBER_FORMATS[id] ?? 'General';
+    });
+  }
+
+  private buildSheet(name: string, hidden: boolean, worksheet: any, maxRows: number): SheetData {
+    const cells = new Map<string, SheetCell>();
+    let [top, left, bottom, right] = [Infinity, Infinity, -1, -1];
+    const include = (row: number, col: number) => {
+      top = Math.min(top, row);
+      left = Math.min(left, col);
+      bottom = Math.max(bottom, row);
+      right = Math.max(right, col);
+    };
+
+    let nextRow = 0;
+    for (const row of asArray(worksheet.sheetdata?.row)) {
+      const rowIndex = row.r ? Number(row.r) - 1 : nextRow;
+      nextRow = rowIndex + 1;
+      let nextCol = 0;
+      for (const c of asArray(row.c)) {
+        const position = c.r ? parseCellRef(c.r) : { row: rowIndex, col: nextCol };
+        nextCol = position.col + 1;
+        const cell = this.cellValue(c);
+        if (!cell.text) continue;
+        cells.set(`${position.row}:${position.col}`, cell);
+        include(position.row, position.col);
+      }
+    }
+
+    const merges: MergedRange[] = [];
+    for (const mergeCell of asArray(worksheet.mergecells?.mergecell)) {
+      const [start, end] = String(mergeCell.ref ?? '').split(':');
+      if (!start || !end) continue;
+      const from = parseCellRef(start);
+      const to = parseCellRef(end);
+      // 只保留左上角有内容的合并
+      if (!cells.has(`${from.row}:${from.col}`)) continue;
+      include(to.row, to.col);
+      merges.push({ top: from.row, left: from.col, bottom: to.row, right: to.col });
+    }
+
+    if (bottom < 0) {
+      return { name, hidden, range: '', rows: [], merges: [], truncated: false };
+    }
+
+    const truncated = bottom - top + 1 > maxRows;
+    const lastRow = truncated ? top + maxRows - 1 : bottom;
+    const rows: SheetCell[][] = [];
+    for (let row = top; row <= lastRow; row++) {
+      const values: SheetCell[] = [];
+      for (let col = left; col <= right; col++) {
+        values.push(cells.get(`${row}:${col}`) ?? { text: '', numeric: false });
+      }
+      rows.push(values);
+    }
+
+    return {
+      name,
+      hidden,
+      range: `${cellRef(top, left)}:${cellRef(bottom, right)}`,
+      rows,
+      merges: merges
+        .filter(merge => merge.top <= lastRow)
+        .map(merge => ({
+          top: merge.top - top,
+          left: merge.left - left,
+          bottom: Math.min(merge.bottom, lastRow) - top,
+          right: merge.right - left,
+        })),
+      truncated,
+    };
+  }
+
+  /**
+   * 单元格显示值：公式单元格使用缓存结果
+   */
+  private cellValue(c: any): SheetCell {
+    const raw = textOf(c.v);
+    switch (c.t) {
+      case 's':
+        return { text: this.sharedStrings[Number(raw)] ?? '', numeric: false };
+      case 'inlineStr':
+        return { text: richText(c.is), numeric: false };
+      case 'str':
+      case 'e':
+        return { text: decodeOoxmlEscapes(raw), numeric: false };
+      case 'b':
+        return { text: raw === '' ? '' : raw === '1' ? 'TRUE' : 'FALSE', numeric: false };
+      case 'd':
+        return { text: raw, numeric: false };
+      default: {
+        if (raw === '') return { text: '', numeric: false };
+        const value = Number(raw);
+        if (isNaN(value)) return { text: raw, numeric: false };
+        const formatCode = this.cellFormats[Number(c.s ?? 0)] ?? 'General';
+        return { text: formatNumber(value, formatCode, this.date1904), numeric: true };
+      }
+    }
+  }
+}
+
+/**
+ * 共享字符串或内联字符串：纯文本 <t> 或富文本运行 <r><t>，忽略注音 <rPh>
+ */
+function richText(node: any): string {
+  if (!node || typeof node !== 'object') return decodeOoxmlEscapes(textOf(node));
+  const text =
+    node.t !== undefined
+      ? textOf(node.t)
+      : asArray(node.r)
+          .map(r => textOf(r?.t))
+          .join('');
+  return decodeOoxmlEscapes(text);
+}
+
+function isTrue(value: any): boolean {
+  return value === '1' || value === 'true';
+}
+
+function parseCellRef(ref: string): { row: number; col: number } {
+  const match = /^\$?([A-Za-z]+)\$?(\d+)$/.exec(ref.trim());
+  if (!match) return { row: 0, col: 0 };
+  let col = 0;
+  for (const char of match[1].toUpperCase()) col = col * 26 + (char.charCodeAt(0) - 64);
+  return { row: Number(match[2]) - 1, col: col - 1 };
+}
+
+function columnName(col: number): string {
+  let name = '';
+  for (let n = col + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function cellRef(row: number, col: number): string {
+  return `${columnName(col)}${row + 1}`;
+}
+
+// 把相对区域的合并范围还原为工作表中的引用
+function rangeRef(merge: MergedRange, sheetRange: string): string {
+  const origin = parseCellRef(sheetRange.split(':')[0]);
+  return `${cellRef(origin.row + merge.top, origin.col + merge.left)}:${cellRef(
+    origin.row + merge.bottom,
+    origin.col + merge.right
+  )}`;
+}
+
+/**
+ * 按数字格式代码显示数值：支持多段格式、千分位、小数位、百分比、科学计数、文本字面量与日期时间
+ */
+function formatNumber(value: number, formatCode: string, date1904 = false): string {
+  const sections = splitSections(formatCode);
+  let section = sections[0] ?? 'General';
+  let number = value;
+  if (value < 0 && sections.length > 1) {
+    section = sections[1];
+    number = Math.abs(value);
+  } else if (value === 0 && sections.length > 2) {
+    section = sections[2];
+  }
+
+  // 去掉颜色与条件，保留货币符号和经过时间
+  section = section.replace(/\[([^\]]*)\]/g, (match, inner: string) => {
+    if (/^\$/.test(inner)) return inner.slice(1).split('-')[0];
+    if (/^(h+|m+|s+)$/i.test(inner)) return match;
+    return '';
+  });
+
+  if (!section.trim() || /^general$/i.test(section.trim()) || section.includes('@')) {
+    return formatGeneral(value);
+  }
+  if (isDateFormat(section)) {
+    return formatDate(number, section, date1904);
+  }
+  const text = formatDecimal(number, section);
+  // 单段格式的负数需要补上负号
+  return value < 0 && sections.length === 1 ? `-${text}` : text;
+}
+
+function splitSections(formatCode: string): string[] {
+  const sections: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < formatCode.length; i++) {
+    const char = formatCode[i];
+    if (char === '"') quoted = !quoted;
+    if (char === '\\' && !quoted) {
+      current += char + (formatCode[++i] ?? '');
+      continue;
+    }
+    if (char === ';' && !quoted) {
+      sections.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  sections.push(current);
+  return sections;
+}
+
+function formatGeneral(value: number): string {
+  if (Number.isInteger(value)) return String(value);
+  // 与 Excel 常规格式一致，最多保留 10 位有效数字，去掉浮点误差
+  return String(Number(value.toPrecision(10)));
+}
+
+/**
+ * 去除字面量后仍含日期时间占位符即视为日期格式
+ */
+function isDateFormat(section: string): boolean {
+  const stripped = section
+    .replace(/"[^"]*"/g, '')
+    .replace(/\\./g, '')
+    .replace(/[_*]./g, '');
+  return /[dmyhs]/i.test(stripped.replace(/E[+-]/gi, ''));
+}
+
+interface DateToken {
+  kind:
+    | 'literal'
+    | 'year'
+    | 'month'
+    | 'day'
+    | 'hour'
+    | 'minute'
+    | 'second'
+    | 'ampm'
+    | 'elapsed'
+    | 'fraction';
+  text: string;
+}
+
+function formatDate(serial: number, section: string, date1904: boolean): string {
+  // 1900 日期系统沿用 Excel 把 1900 年视为闰年的历史行为
+  const base = date1904
+    ? Date.UTC(1904, 0, 1)
+    : serial < 60
+      ? Date.UTC(1899, 11, 31)
+      : Date.UTC(1899, 11, 30);
+  const days = Math.floor(serial);
+  const totalSeconds = Math.round((serial - days) * 86400 * 1000) / 1000;
+  const date = new Date(base + days * 86400000 + Math.floor(totalSeconds) * 1000);
+
+  const tokens = tokenizeDate(section);
+  const hasAmPm = tokens.some(token => token.kind === 'ampm');
+  const pad = (n: number, width: number) => String(n).padStart(width, '0');
+  const hours = date.getUTCHours();
+  const parts = tokens.map(token => {
+    const width = token.text.length;
+    switch (token.kind) {
+      case 'year':
+        return width <= 2 ? pad(date.getUTCFullYear() % 100, 2) : String(date.getUTCFullYear());
+      case 'month': {
+        const month = date.getUTCMonth();
+        if (width >= 5) return MONTH_NAMES[month][0];
+        if (width === 4) return MONTH_NAMES[month];
+        if (width === 3) return MONTH_NAMES[month].slice(0, 3);
+        return pad(month + 1, width);
+      }
+      case 'day': {
+        if (width >= 4) return DAY_NAMES[date.getUTCDay()];
+        if (width === 3) return DAY_NAMES[date.getUTCDay()].slice(0, 3);
+        return pad(date.getUTCDate(), width);
+      }
+      case 'hour': {
+        const hour = hasAmPm ? hours % 12 || 12 : hours;
+        return pad(hour, Math.min(width, 2));
+      }
+      case 'minute':
+        return pad(date.getUTCMinutes(), Math.min(width, 2));
+      case 'second':
+        return pad(date.getUTCSeconds(), Math.min(width, 2));
+      case 'fraction': {
+        const digits = width - 1;
+        const fraction = totalSeconds - Math.floor(totalSeconds);
+        return `.${pad(Math.min(Math.round(fraction * 10 ** digits), 10 ** digits - 1), digits)}`;
+      }
+      case 'ampm': {
+        const pm = hours >= 12;
+        if (/^a\/p$/i.test(token.text)) return pm ? 'P' : 'A';
+        return pm ? 'PM' : 'AM';
+      }
+      case 'elapsed': {
+        const unit = token.text.replace(/[[\]]/g, '')[0].toLowerCase();
+        const elapsedSeconds = Math.floor(serial * 86400 + 1e-6);
+        const value =
+          unit === 'h'
+            ? Math.floor(elapsedSeconds / 3600)
+            : unit === 'm'
+              ? Math.floor(elapsedSeconds / 60)
+              : elapsedSeconds;
+        return pad(value, token.text.length - 2);
+      }
+      default:
+        return token.text;
+    }
+  });
+  return parts.join('');
+}
+
+function tokenizeDate(section: string): DateToken[] {
+  const tokens: DateToken[] = [];
+  const push = (kind: DateToken['kind'], text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (kind === 'literal' && last?.kind === 'literal') last.text += text;
+    else tokens.push({ kind, text });
+  };
+
+  for (let i = 0; i < section.length;) {
+    const rest = section.slice(i);
+    let match: RegExpExecArray | null;
+    if (rest[0] === '"') {
+      const end = section.indexOf('"', i + 1);
+      const stop = end === -1 ? section.length : end;
+      push('literal', section.slice(i + 1, stop));
+      i = stop + 1;
+    } else if (rest[0] === '\\') {
+      push('literal', rest[1] ?? '');
+      i += 2;
+    } else if (rest[0] === '_') {
+      push('literal', ' ');
+      i += 2;
+    } else if (rest[0] === '*') {
+      i += 2;
+    } else if ((match = /^\[(h+|m+|s+)\]/i.exec(rest))) {
+      push('elapsed', match[0]);
+      i += match[0].length;
+    } else if ((match = /^(am\/pm|a\/p)/i.exec(rest))) {
+      push('ampm', match[0]);
+      i += match[0].length;
+    } else if ((match = /^(y+|m+|d+|h+|s+)/i.exec(rest))) {
+      const kinds: Record<string, DateToken['kind']> = {
+        y: 'year',
+        m: 'month',
+        d: 'day',
+        h: 'hour',
+        s: 'second',
+      };
+      push(kinds[match[0][0].toLowerCase()], match[0]);
+      i += match[0].length;
+    } else if ((match = /^\.0+/.exec(rest)) && tokens.some(token => token.kind === 'second')) {
+      push('fraction', match[0]);
+      i += match[0].length;
+    } else {
+      push('literal', rest[0]);
+      i += 1;
+    }
+  }
+
+  // m/mm 紧跟小时之后或位于秒之前时表示分钟
+  const fields = tokens.filter(token => token.kind !== 'literal');
+  fields.forEach((token, index) => {
+    if (token.kind !== 'month' || token.text.length > 2) return;
+    const previous = fields[index - 1];
+    const next = fields[index + 1];
+    if (
+      previous?.kind === 'hour' ||
+      (previous?.kind === 'elapsed' && /h/i.test(previous.text)) ||
+      next?.kind === 'second' ||
+      (next?.kind === 'elapsed' && /s/i.test(next.text))
+    ) {
+      token.kind = 'minute';
+    }
+  });
+  return tokens;
+}
+
+/**
+ * 数值格式：数字占位符 0 # ? 之外的字符原样输出
+ */
+function formatDecimal(value: number, section: string): string {
+  // 标记字面量字符，占位符只在非字面量中识别
+  const chars: { char: string; literal: boolean }[] = [];
+  for (let i = 0; i < section.length; i++) {
+    const char = section[i];
+    if (char === '"') {
+      const end = section.indexOf('"', i + 1);
+      const stop = end === -1 ? section.length : end;
+      for (const literal of section.slice(i + 1, stop))
+        chars.push({ char: literal, literal: true });
+      i = stop;
+    } else if (char === '\\') {
+      chars.push({ char: section[++i] ?? '', literal: true });
+    } else if (char === '_') {
+      chars.push({ char: ' ', literal: true });
+      i++;
+    } else if (char === '*') {
+      i++;
+    } else {
+      chars.push({ char, literal: false });
+    }
+  }
+
+  const isPlaceholder = (index: number) => !chars[index].literal && /[0#?]/.test(chars[index].char);
+  const first = chars.findIndex((_, index) => isPlaceholder(index));
+  if (first === -1) {
+    return chars.map(item => item.char).join('');
+  }
+  let last = first;
+  for (let i = first; i < chars.length; i++) {
+    if (chars[i].literal) break;
+    if (
+      /[0#?.,]/.test(chars[i].char) ||
+      (/[eE]/.test(chars[i].char) && /[+-]/.test(chars[i + 1]?.char ?? ''))
+    ) {
+      last = i;
+    } else if (/[+-]/.test(chars[i].char) && /[eE]/.test(chars[i - 1]?.char ?? '')) {
+      last = i;
+    } else {
+      break;
+    }
+  }
+
+  const prefix = chars
+    .slice(0, first)
+    .map(item => item.char)
+    .join('');
+  const suffix = chars
+    .slice(last + 1)
+    .map(item => item.char)
+    .join('');
+  let pattern = chars
+    .slice(first, last + 1)
+    .map(item => item.char)
+    .join('');
+
+  let scaled = value;
+  const percentCount = (prefix + suffix).split('%').length - 1;
+  scaled *= 100 ** percentCount;
+
+  // 末尾逗号表示按千缩放
+  const trailingCommas = /,+$/.exec(pattern)?.[0].length ?? 0;
+  if (trailingCommas) {
+    pattern = pattern.slice(0, -trailingCommas);
+    scaled /= 1000 ** trailingCommas;
+  }
+
+  const exponent = /[eE][+-]/.exec(pattern);
+  if (exponent) {
+    const mantissa = pattern.slice(0, exponent.index);
+    const decimals = (mantissa.split('.')[1] ?? '').replace(/[^0#?]/g, '').length;
+    const [digits, power] = Math.abs(scaled).toExponential(decimals).split('e');
+    const exponentDigits = pattern.slice(exponent.index + 2).length;
+    const sign = Number(power) < 0 ? '-' : exponent[0][1] === '+' ? '+' : '';
+    return `${prefix}${digits}E${sign}${String(Math.abs(Number(power))).padStart(exponentDigits, '0')}${suffix}`;
+  }
+
+  const [integerPattern, decimalPattern = ''] = pattern.split('.');
+  const maxDecimals = decimalPattern.replace(/[^0#?]/g, '').length;
+  const minDecimals = (/^0*/.exec(decimalPattern.replace(/[^0#?]/g, ''))?.[0] ?? '').length;
+  const minIntegers = integerPattern.replace(/[^0]/g, '').length;
+  const grouping = integerPattern.includes(',');
+
+  let [integerPart, decimalPart = ''] = Math.abs(scaled).toFixed(maxDecimals).split('.');
+  while (decimalPart.length > minDecimals && decimalPart.endsWith('0')) {
+    decimalPart = decimalPart.slice(0, -1);
+  }
+  if (integerPart === '0' && minIntegers === 0) integerPart = '';
+  integerPart = integerPart.padStart(minIntegers, '0');
+  if (grouping) integerPart = integerPart.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+
+  const number = decimalPart ? `${integerPart}.${decimalPart}` : integerPart;
+  return `${prefix}${number}${suffix}`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * 每个工作表一个二级标题加 GFM 表格，首行作为表头；合并区域只在左上角显示内容
+ */
+function renderMarkdown(sheets: SheetData[]): string {
+  return sheets
+    .map(sheet => {
+      const lines = [`## ${sheet.name}`, ''];
+      if (sheet.rows.length === 0) {
+        lines.push('_（空工作表）_');
+        return lines.join('\n');
+      }
+      const row = (cells: SheetCell[]) =>
+        `| ${cells.map(cell => escapeMarkdownCell(cell.text)).join(' | ')} |`;
+      const [header, ...body] = sheet.rows;
+      lines.push(row(header));
+      lines.push(
+        `| ${header.map((_, col) => (isNumericColumn(body, col) ? '---:' : '---')).join(' | ')} |`
+      );
+      for (const cells of body) lines.push(row(cells));
+      if (sheet.truncated) {
+        lines.push('', `_（仅显示前 ${sheet.rows.length} 行，完整区域 ${sheet.range}）_`);
+      }
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
+
+function isNumericColumn(rows: SheetCell[][], col: number): boolean {
+  const filled = rows.map(cells => cells[col]).filter(cell => cell?.text);
+  return filled.length > 0 && filled.every(cell => cell.numeric);
+}
+
+function renderHtml(sheets: SheetData[], title?: string): string {
+  const sections = sheets.map(sheet => {
+    const covered = new Set<string>();
+    const spans = new Map<string, MergedRange>();
+    for (const merge of sheet.merges) {
+      spans.set(`${merge.top}:${merge.left}`, merge);
+      for (let row = merge.top; row <= merge.bottom; row++) {
+        for (let col = merge.left; col <= merge.right; col++) {
+          if (row !== merge.top || col !== merge.left) covered.add(`${row}:${col}`);
+        }
+      }
+    }
+
+    const rows = sheet.rows.map((cells, rowIndex) => {
+      const tag = rowIndex === 0 ? 'th' : 'td';
+      const html = cells
+        .map((cell, col) => {
+          if (covered.has(`${rowIndex}:${col}`)) return '';
+          const merge = spans.get(`${rowIndex}:${col}`);
+          const attributes = [
+            merge && merge.right > merge.left ? ` colspan="${merge.right - merge.left + 1}"` : '',
+            merge && merge.bottom > merge.top ? ` rowspan="${merge.bottom - merge.top + 1}"` : '',
+            cell.numeric ? ' class="num"' : '',
+          ].join('');
+          return `<${tag}${attributes}>${escapeHtml(cell.text).replace(/\r?\n/g, '<br>')}</${tag}>`;
+        })
+        .join('');
+      return `      <tr>${html}</tr>`;
+    });
+
+    const body = rows.length
+      ? `    <table>\n${rows.join('\n')}\n    </table>`
+      : '    <p class="empty">（空工作表）</p>';
+    const note = sheet.truncated
+      ? `\n    <p class="note">仅显示前 ${sheet.rows.length} 行，完整区域 ${sheet.range}</p>`
+      : '';
+    return `  <section class="sheet${sheet.hidden ? ' hidden' : ''}">\n    <h2>${escapeHtml(sheet.name)}</h2>\n${body}${note}\n  </section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(title ?? 'Workbook')}</title>
+  <style>
+    body { font-family: Calibri, "Segoe UI", Arial, sans-serif; font-size: 11pt; margin: 24px; color: #222; }
+    h2 { font-size: 14pt; margin: 24px 0 8px; }
+    table { border-collapse: collapse; margin-bottom: 16px; }
+    th, td { border: 1px solid #d0d7de; padding: 4px 8px; vertical-align: top; text-align: left; }
+    th { background: #f3f4f6; font-weight: 600; }
+    td.num, th.num { text-align: right; }
+    .sheet.hidden h2::after { content: " (hidden)"; color: #888; font-weight: normal; }
+    .note, .empty { color: #666; font-style: italic; }
+  </style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>`;
+}
+
+/**
+ * 便捷函数：读取 XLSX 文件
+ */
+export async function readXlsx(
+  filePath: string,
+  options: XlsxReaderOptions = {}
+): Promise<XlsxReadResult> {
+  const reader = new XlsxReader();
+  return await reader.read(filePath, options);
+}
+
+export { XlsxReader, XlsxReaderOptions, XlsxReadResult, XlsxSheetSummary, formatNumber };